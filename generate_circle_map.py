@@ -18,7 +18,7 @@ def generate_map(width, height, output_file):
     center_y = height / 2
     radius = min(width, height) * 0.44  # 44% of size for nice circular land
     
-    # Terrain encoding (from map_generator.go packTerrain function):
+    # Terrain encoding (from src/scripts/MapGenerator.ts packTerrain):
     # Bit 7: Is Land (1) or Water (0)
     # Bit 6: Is Shoreline
     # Bit 5: Is Ocean
@@ -81,7 +81,7 @@ def generate_thumbnail(map_width, map_height, output_file, quality=0.5):
             distance = math.sqrt((x - center_x)**2 + (y - center_y)**2)
             
             if distance <= radius:
-                # Land - use green/tan colors like map_generator.go
+                # Land - use green/tan colors like src/scripts/MapGenerator.ts
                 # Calculate magnitude based on distance from edge
                 magnitude = min(31, int((radius - distance) / radius * 20))
                 
@@ -24,7 +24,7 @@ def generate_map(width, height, output_file):
     # Crystal zone: only center <10% of map gets high magnitude
     crystal_zone_size = min(width, height) * 0.10
     
-    # Terrain encoding (from map_generator.go packTerrain function):
+    # Terrain encoding (from src/scripts/MapGenerator.ts packTerrain):
     # Bit 7: Is Land (1) or Water (0)
     # Bit 6: Is Shoreline
     # Bit 5: Is Ocean
@@ -149,7 +149,7 @@ def generate_thumbnail(map_width, map_height, output_file, quality=0.5):
             chebyshev_distance = max(dx, dy)
             
             if chebyshev_distance <= land_half_size:
-                # Land - use green/tan colors like map_generator.go
+                # Land - use green/tan colors like src/scripts/MapGenerator.ts
                 distance_from_edge = land_half_size - chebyshev_distance
                 magnitude = min(31, int(distance_from_edge / land_half_size * 20))
                 
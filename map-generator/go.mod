@@ -1,5 +0,0 @@
-module map-generator
-
-go 1.24.4
-
-require github.com/chai2010/webp v1.4.0
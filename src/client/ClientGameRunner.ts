@@ -1,7 +1,10 @@
 import { translateText } from "../client/Utils";
 import { EventBus } from "../core/EventBus";
+import { compressSnapshot, decompressSnapshot } from "../core/GameSnapshot";
 import {
+  Checkpoint,
   ClientID,
+  GameConfig,
   GameID,
   GameRecord,
   GameStartInfo,
@@ -17,11 +20,11 @@ import { isInSpawnExclusionZone } from "../core/execution/utils/PlayerSpawner";
 import {
   GameFork,
   GameMapType,
+  GameType,
   PlayerActions,
   UnitType,
 } from "../core/game/Game";
 import { TileRef } from "../core/game/GameMap";
-import { GameMapLoader } from "../core/game/GameMapLoader";
 import {
   ErrorUpdate,
   GameUpdateType,
@@ -30,9 +33,15 @@ import {
   WinUpdate,
 } from "../core/game/GameUpdates";
 import { GameView, PlayerView } from "../core/game/GameView";
+import {
+  DecodedMapPackage,
+  decodeMapPackage,
+  MapPackageLoader,
+} from "../core/game/MapPackage";
 import { loadTerrainMap, TerrainMapData } from "../core/game/TerrainMapLoader";
 import { UserSettings } from "../core/game/UserSettings";
 import { WorkerClient } from "../core/worker/WorkerClient";
+import { SnapshotRestore } from "../core/worker/WorkerMessages";
 import {
   AutoUpgradeEvent,
   DoBoatAttackEvent,
@@ -41,13 +50,22 @@ import {
   InputHandler,
   MouseMoveEvent,
   MouseUpEvent,
+  ReplayLoadedEvent,
+  ReplaySeekEvent,
   TickMetricsEvent,
 } from "./InputHandler";
 import { endGame, startGame, startTime } from "./LocalPersistantStats";
 import { getPersistentID } from "./Main";
+import {
+  AUTOSAVE_INTERVAL_TURNS,
+  deleteSaveSlot,
+  SaveSlot,
+  writeSaveSlot,
+} from "./SaveSlots";
 import { terrainMapFileLoader } from "./TerrainMapFileLoader";
 import {
   BuildUnitIntentEvent,
+  PauseGameEvent,
   SendAttackIntentEvent,
   SendBoatAttackIntentEvent,
   SendHashEvent,
@@ -72,6 +90,13 @@ export interface LobbyConfig {
   gameStartInfo?: GameStartInfo;
   // GameRecord exists when replaying an archived game.
   gameRecord?: GameRecord;
+  // Terrain for GameMapType.Custom, when test-launching from the map editor.
+  // Lobby uploads and replays load theirs in createClientGame.
+  customMap?: DecodedMapPackage;
+  // Joined as a spectator: receives turns, sends no intents.
+  spectator?: boolean;
+  // Singleplayer game continued from a save slot.
+  savedGame?: SaveSlot;
 }
 
 export function joinLobby(
@@ -100,11 +125,14 @@ export function joinLobby(
       console.log(
         `lobby: game prestarting: ${JSON.stringify(message, replacer)}`,
       );
-      terrainLoad = loadTerrainMap(
-        message.gameMap,
-        message.gameMapSize,
-        terrainMapFileLoader,
-      );
+      // Custom terrain is only known once the start message names it
+      if (message.gameMap !== GameMapType.Custom) {
+        terrainLoad = loadTerrainMap(
+          message.gameMap,
+          message.gameMapSize,
+          terrainMapFileLoader,
+        );
+      }
       onPrestart(message.gameMap);
     }
     if (message.type === "start") {
@@ -123,7 +151,7 @@ export function joinLobby(
         transport,
         userSettings,
         terrainLoad,
-        terrainMapFileLoader,
+        message.checkpoint,
       ).then((r) => r.start());
     }
     if (message.type === "error") {
@@ -145,13 +173,92 @@ export function joinLobby(
   };
 }
 
+/**
+ * Terrain for a Custom map game: the map editor's, the one stored with the
+ * replayed record, or the lobby's upload fetched from its worker by hash.
+ */
+async function loadCustomMap(
+  lobbyConfig: LobbyConfig,
+  config: GameConfig,
+): Promise<DecodedMapPackage | undefined> {
+  if (config.gameMap !== GameMapType.Custom) {
+    return undefined;
+  }
+  if (lobbyConfig.customMap) {
+    return lobbyConfig.customMap;
+  }
+  if (lobbyConfig.gameRecord?.customMap) {
+    return decodeMapPackage(lobbyConfig.gameRecord.customMap);
+  }
+  if (config.customMap === undefined) {
+    throw new Error("Custom map game without a map");
+  }
+  const { gameID, serverConfig } = lobbyConfig;
+  return terrainMapFileLoader.customMap(
+    config.customMap,
+    `/${serverConfig.workerPath(gameID)}/api/game/${gameID}/custom_map`,
+  );
+}
+
+/**
+ * The server's snapshot of a game in progress, so a client joining late
+ * can skip replaying the turns before it. Undefined if it cannot be used;
+ * the client then replays every turn instead. The worker checks it against
+ * the hash the server's clients voted for, not the one the uploader wrote.
+ */
+async function loadCheckpoint(
+  lobbyConfig: LobbyConfig,
+  checkpoint: Checkpoint,
+): Promise<SnapshotRestore | undefined> {
+  const { gameID, serverConfig } = lobbyConfig;
+  try {
+    const response = await fetch(
+      `/${serverConfig.workerPath(gameID)}/api/game/${gameID}/snapshot`,
+    );
+    if (!response.ok) {
+      throw new Error(`status ${response.status}`);
+    }
+    const snapshot = await decompressSnapshot(
+      new Uint8Array(await response.arrayBuffer()),
+    );
+    // A newer one may have replaced the announced one in the meantime
+    if (snapshot.turn !== checkpoint.turn) {
+      throw new Error(`got turn ${snapshot.turn}, not ${checkpoint.turn}`);
+    }
+    return { snapshot, checkpoint };
+  } catch (error) {
+    console.warn("Cannot use the game snapshot, replaying all turns:", error);
+    return undefined;
+  }
+}
+
+// Undefined if the save has no usable snapshot; its turns are replayed then.
+// A save is the player's own, so it only has to match itself.
+async function loadSavedSnapshot(
+  slot: SaveSlot,
+): Promise<SnapshotRestore | undefined> {
+  if (slot.snapshot === undefined) {
+    return undefined;
+  }
+  try {
+    const snapshot = await decompressSnapshot(slot.snapshot);
+    return {
+      snapshot,
+      checkpoint: { turn: snapshot.turn, hash: snapshot.hash },
+    };
+  } catch (error) {
+    console.warn("Cannot use the saved snapshot, replaying all turns:", error);
+    return undefined;
+  }
+}
+
 async function createClientGame(
   lobbyConfig: LobbyConfig,
   eventBus: EventBus,
   transport: Transport,
   userSettings: UserSettings,
   terrainLoad: Promise<TerrainMapData> | null,
-  mapLoader: GameMapLoader,
+  checkpoint?: Checkpoint,
 ): Promise<ClientGameRunner> {
   if (lobbyConfig.gameStartInfo === undefined) {
     throw new Error("missing gameStartInfo");
@@ -161,6 +268,13 @@ async function createClientGame(
     userSettings,
     lobbyConfig.gameRecord !== undefined,
   );
+  const customMap = await loadCustomMap(
+    lobbyConfig,
+    lobbyConfig.gameStartInfo.config,
+  );
+  const mapLoader = customMap
+    ? new MapPackageLoader(terrainMapFileLoader, customMap)
+    : terrainMapFileLoader;
   let gameMap: TerrainMapData | null = null;
 
   if (terrainLoad) {
@@ -172,9 +286,18 @@ async function createClientGame(
       mapLoader,
     );
   }
+  let restore: SnapshotRestore | undefined;
+  if (lobbyConfig.savedGame !== undefined) {
+    restore = await loadSavedSnapshot(lobbyConfig.savedGame);
+  } else if (checkpoint !== undefined) {
+    restore = await loadCheckpoint(lobbyConfig, checkpoint);
+  }
   const worker = new WorkerClient(
     lobbyConfig.gameStartInfo,
     lobbyConfig.clientID,
+    lobbyConfig.gameRecord !== undefined,
+    customMap,
+    restore,
   );
   await worker.initialize();
   const gameView = new GameView(
@@ -220,6 +343,8 @@ export class ClientGameRunner {
   private currentTickDelay: number | undefined = undefined;
   private pendingWorkerTurns = 0;
   private workerHeartbeatTimer: number | null = null;
+  private isSeeking = false;
+  private isSaving = false;
 
   constructor(
     private lobby: LobbyConfig,
@@ -231,6 +356,8 @@ export class ClientGameRunner {
     private gameView: GameView,
   ) {
     this.lastMessageTime = Date.now();
+    // Restored from a snapshot: the server only needs to send what follows
+    this.turnsSeen = worker.restoredTurn;
   }
 
   private saveGame(update: WinUpdate) {
@@ -261,8 +388,51 @@ export class ClientGameRunner {
       this.lobby.gameStartInfo.lobbyCreatedAt,
     );
     endGame(record);
+    if (this.savesToSlot()) {
+      // Finished games cannot be continued
+      deleteSaveSlot(this.lobby.gameStartInfo.gameID).catch((error) =>
+        console.warn("Failed to delete the save slot:", error),
+      );
+    }
+  }
+
+  // Singleplayer games save themselves to be continued later
+  private savesToSlot(): boolean {
+    return (
+      this.lobby.gameStartInfo?.config.gameType === GameType.Singleplayer &&
+      this.lobby.gameRecord === undefined
+    );
   }
 
+  private async saveToSlot() {
+    if (!this.isActive || this.isSaving || !this.savesToSlot()) {
+      return;
+    }
+    this.isSaving = true;
+    try {
+      const snapshot = await this.worker.currentSnapshot();
+      const slot = this.transport.saveSlot(
+        this.renderer.thumbnail(),
+        snapshot === null
+          ? undefined
+          : { turn: snapshot.turn, data: await compressSnapshot(snapshot) },
+      );
+      if (slot !== null) {
+        await writeSaveSlot(slot);
+      }
+    } catch (error) {
+      console.warn("Failed to save the game:", error);
+    } finally {
+      this.isSaving = false;
+    }
+  }
+
+  private onVisibilityChange = () => {
+    if (document.visibilityState === "hidden") {
+      this.saveToSlot();
+    }
+  };
+
   public start() {
     // Stop menu music when game actually starts
     SoundManager.stopMenuMusic();
@@ -300,14 +470,34 @@ export class ClientGameRunner {
       if (!this.isActive) {
         return;
       }
-      if (this.lobby.gameStartInfo?.config.gameFork !== GameFork.Frenzy) {
+      const config = this.lobby.gameStartInfo?.config;
+      if (config?.gameFork !== GameFork.Frenzy) {
+        return;
+      }
+      // Other clients would never see the change; multiplayer rule sets
+      // must go through the lobby's frenzyOverrides instead
+      if (config.gameType !== GameType.Singleplayer) {
         return;
       }
       this.worker.updateFrenzyConfig(event.config);
     });
 
+    this.eventBus.on(ReplaySeekEvent, (event) => this.seekReplay(event.turn));
+    this.eventBus.on(PauseGameEvent, (event) => {
+      if (event.paused) {
+        this.saveToSlot();
+      }
+    });
+    // Closing the tab hides it first
+    document.addEventListener("visibilitychange", this.onVisibilityChange);
+
     this.renderer.initialize();
     this.input.initialize();
+    if (this.lobby.gameRecord !== undefined) {
+      this.eventBus.emit(
+        new ReplayLoadedEvent(this.lobby.gameRecord.info.num_turns),
+      );
+    }
     this.worker.start((gu: GameUpdateViewData | ErrorUpdate) => {
       if (this.lobby.gameStartInfo === undefined) {
         throw new Error("missing gameStartInfo");
@@ -323,15 +513,26 @@ export class ClientGameRunner {
         this.stop();
         return;
       }
+      if (gu.resync && this.isSeeking) {
+        // Not a turn of its own: the worker rebuilt state after a seek
+        this.gameView.update(gu);
+        this.renderer.tick();
+        return;
+      }
       if (this.pendingWorkerTurns > 0) {
         this.pendingWorkerTurns--;
       }
       this.transport.turnComplete();
       gu.updates[GameUpdateType.Hash].forEach((hu: HashUpdate) => {
-        this.eventBus.emit(new SendHashEvent(hu.tick, hu.hash));
+        this.eventBus.emit(
+          new SendHashEvent(hu.tick, hu.hash, hu.frenzyHashes),
+        );
       });
       this.gameView.update(gu);
       this.renderer.tick();
+      if (gu.tick % AUTOSAVE_INTERVAL_TURNS === 0) {
+        this.saveToSlot();
+      }
 
       // Emit tick metrics event for performance overlay
       this.eventBus.emit(
@@ -394,6 +595,8 @@ export class ClientGameRunner {
 
         for (const turn of message.turns) {
           if (turn.turnNumber < this.turnsSeen) {
+            // Restored from a snapshot, so executed already
+            this.transport.turnComplete();
             continue;
           }
           while (turn.turnNumber - 1 > this.turnsSeen) {
@@ -407,10 +610,18 @@ export class ClientGameRunner {
           this.turnsSeen++;
         }
       }
+      if (message.type === "snapshot_request") {
+        this.uploadSnapshot(message.turn);
+      }
       if (message.type === "desync") {
         if (this.lobby.gameStartInfo === undefined) {
           throw new Error("missing gameStartInfo");
         }
+        if (message.driftedFrenzySubsystems !== undefined) {
+          console.error(
+            `Frenzy desync on turn ${message.turn}, drifted subsystems: ${message.driftedFrenzySubsystems.join(", ")}`,
+          );
+        }
         showErrorModal(
           `desync from server: ${JSON.stringify(message)}`,
           "",
@@ -463,6 +674,7 @@ export class ClientGameRunner {
     if (!this.isActive) return;
 
     this.isActive = false;
+    document.removeEventListener("visibilitychange", this.onVisibilityChange);
     this.worker.cleanup();
     this.transport.leaveGame();
     if (this.connectionCheckInterval) {
@@ -752,6 +964,56 @@ export class ClientGameRunner {
     }
   }
 
+  private async seekReplay(turn: number) {
+    if (!this.isActive || this.lobby.gameRecord === undefined) {
+      return;
+    }
+    if (this.isSeeking) {
+      return;
+    }
+    this.isSeeking = true;
+    try {
+      const seek = this.transport.seekReplay(turn);
+      for (const missing of seek.missing) {
+        this.worker.sendTurn(missing);
+      }
+      await this.worker.seek(seek.turn);
+      this.turnsSeen = seek.turn;
+      this.pendingWorkerTurns = 0;
+    } catch (error) {
+      console.error(`Failed to seek the replay to turn ${turn}:`, error);
+    } finally {
+      this.transport.replaySeekComplete();
+      this.isSeeking = false;
+    }
+  }
+
+  // The server picked this client to provide the snapshot for late joiners
+  private async uploadSnapshot(turn: number) {
+    const { gameID, clientID, serverConfig } = this.lobby;
+    try {
+      const snapshot = await this.worker.liveSnapshot(turn);
+      if (snapshot === null) {
+        return;
+      }
+      const response = await fetch(
+        `/${serverConfig.workerPath(gameID)}/api/game/${gameID}/snapshot?clientID=${clientID}&turn=${turn}`,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/octet-stream",
+          },
+          body: await compressSnapshot(snapshot),
+        },
+      );
+      if (!response.ok) {
+        throw new Error(`status ${response.status}`);
+      }
+    } catch (error) {
+      console.warn(`Failed to upload the snapshot of turn ${turn}:`, error);
+    }
+  }
+
   private queueTurn(turn: Turn) {
     this.worker.sendTurn(turn);
     this.pendingWorkerTurns++;
@@ -0,0 +1,196 @@
+import { z } from "zod";
+import {
+  DEFAULT_FRENZY_CONFIG,
+  STRUCTURE_CONFIGS,
+} from "../core/game/frenzy/FrenzyRegistry";
+import { FrenzyConfig } from "../core/game/frenzy/FrenzyTypes";
+import { FrenzyOverrides, FrenzyOverridesSchema } from "../core/Schemas";
+
+export const FRENZY_PRESET_VERSION = 1;
+// Share codes look like `frenzy1.<base64url JSON>`
+const CODE_PREFIX = "frenzy";
+const STORAGE_KEY = "frenzy-presets";
+
+export const FrenzyPresetSchema = z.object({
+  version: z.literal(FRENZY_PRESET_VERSION),
+  name: z.string().trim().min(1).max(40),
+  overrides: FrenzyOverridesSchema,
+});
+export type FrenzyPreset = z.infer<typeof FrenzyPresetSchema>;
+
+export interface FrenzyPresetChange {
+  path: string;
+  defaultValue: unknown;
+  value: unknown;
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (c) => c.charCodeAt(0)),
+  );
+}
+
+export function encodeFrenzyPreset(preset: FrenzyPreset): string {
+  const payload = JSON.stringify({ n: preset.name, o: preset.overrides });
+  return `${CODE_PREFIX}${preset.version}.${toBase64Url(payload)}`;
+}
+
+// Pretty-printed file form, for downloading and hand editing
+export function frenzyPresetToJSON(preset: FrenzyPreset): string {
+  return JSON.stringify(preset, null, 2);
+}
+
+/**
+ * Accepts either a share code or the JSON file form. Throws with a readable
+ * message when the text is not a valid preset for this version.
+ */
+export function decodeFrenzyPreset(text: string): FrenzyPreset {
+  const trimmed = text.trim();
+  let raw: unknown;
+  const code = new RegExp(`^${CODE_PREFIX}(\\d+)\\.([A-Za-z0-9_-]+)$`).exec(
+    trimmed,
+  );
+  try {
+    if (code !== null) {
+      const payload = JSON.parse(fromBase64Url(code[2]));
+      raw = {
+        version: Number(code[1]),
+        name: payload?.n,
+        overrides: payload?.o,
+      };
+    } else {
+      raw = JSON.parse(trimmed);
+    }
+  } catch {
+    throw new Error("Not a Frenzy preset code or JSON file");
+  }
+
+  const version = (raw as { version?: unknown } | null)?.version;
+  if (version !== FRENZY_PRESET_VERSION) {
+    throw new Error(`Unsupported preset version: ${String(version)}`);
+  }
+  const result = FrenzyPresetSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(z.prettifyError(result.error));
+  }
+  return result.data;
+}
+
+function defaultAt(path: string[]): unknown {
+  const [section, key, field] = path;
+  if (section === "structures") {
+    return STRUCTURE_CONFIGS[key as keyof typeof STRUCTURE_CONFIGS]?.[
+      field as "buildCost" | "upgradeCost" | "maxTier"
+    ];
+  }
+  let value: unknown = DEFAULT_FRENZY_CONFIG;
+  for (const part of path) {
+    value = (value as Record<string, unknown> | undefined)?.[part];
+  }
+  return value;
+}
+
+/**
+ * Every value in `overrides` that differs from the built-in defaults
+ */
+export function diffFrenzyPreset(
+  overrides: FrenzyOverrides,
+): FrenzyPresetChange[] {
+  const changes: FrenzyPresetChange[] = [];
+  const walk = (value: unknown, path: string[]) => {
+    if (typeof value === "object" && value !== null) {
+      for (const [key, child] of Object.entries(value)) {
+        walk(child, [...path, key]);
+      }
+      return;
+    }
+    const defaultValue = defaultAt(path);
+    if (value !== defaultValue) {
+      changes.push({ path: path.join("."), defaultValue, value });
+    }
+  };
+  walk(overrides, []);
+  return changes;
+}
+
+/**
+ * Smallest overrides that turn the defaults into `config`, e.g. to export
+ * values tuned in the dev panel
+ */
+export function overridesFromConfig(config: FrenzyConfig): FrenzyOverrides {
+  const overrides: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(config)) {
+    if (key === "units") continue;
+    if (
+      typeof value === "number" &&
+      value !== DEFAULT_FRENZY_CONFIG[key as keyof FrenzyConfig]
+    ) {
+      overrides[key] = value;
+    }
+  }
+  const units: Record<string, Record<string, unknown>> = {};
+  for (const [unit, stats] of Object.entries(config.units)) {
+    const defaults = DEFAULT_FRENZY_CONFIG.units[
+      unit as keyof FrenzyConfig["units"]
+    ] as unknown as Record<string, unknown>;
+    for (const [stat, value] of Object.entries(stats)) {
+      if (value !== undefined && value !== defaults[stat]) {
+        (units[unit] ??= {})[stat] = value;
+      }
+    }
+  }
+  if (Object.keys(units).length > 0) overrides.units = units;
+  if (config.structures !== undefined) overrides.structures = config.structures;
+  return FrenzyOverridesSchema.parse(overrides);
+}
+
+function readLibrary(): Record<string, FrenzyPreset> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    const library: Record<string, FrenzyPreset> = {};
+    for (const entry of Object.values(stored ?? {})) {
+      // Presets from an older or tampered store are dropped, not fatal
+      const result = FrenzyPresetSchema.safeParse(entry);
+      if (result.success) library[result.data.name] = result.data;
+    }
+    return library;
+  } catch (error) {
+    console.warn("Unable to read Frenzy presets", error);
+    return {};
+  }
+}
+
+function writeLibrary(library: Record<string, FrenzyPreset>) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+}
+
+// Saved presets on this device, sorted by name
+export function listFrenzyPresets(): FrenzyPreset[] {
+  return Object.values(readLibrary()).sort((a, b) =>
+    a.name.localeCompare(b.name),
+  );
+}
+
+// Saves under the preset's name, replacing any preset with the same name
+export function saveFrenzyPreset(preset: FrenzyPreset) {
+  const library = readLibrary();
+  library[preset.name] = FrenzyPresetSchema.parse(preset);
+  writeLibrary(library);
+}
+
+export function deleteFrenzyPreset(name: string) {
+  const library = readLibrary();
+  delete library[name];
+  writeLibrary(library);
+}
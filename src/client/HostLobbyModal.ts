@@ -16,11 +16,18 @@ import {
   UnitType,
   mapCategories,
 } from "../core/game/Game";
+import {
+  MAX_MAP_PACKAGE_BYTES,
+  decodeMapPackage,
+  toMapPackage,
+} from "../core/game/MapPackage";
 import { UserSettings } from "../core/game/UserSettings";
 import {
   ClientInfo,
+  FrenzyOverrides,
   GameConfig,
   GameInfo,
+  MAX_SPECTATOR_DELAY,
   TeamCountConfig,
 } from "../core/Schemas";
 import { generateID } from "../core/Util";
@@ -29,6 +36,7 @@ import "./components/Difficulties";
 import "./components/LobbyTeamView";
 import "./components/Maps";
 import { JoinLobbyEvent } from "./types/JoinLobbyEvent";
+import { renderFrenzyRuleOptions } from "./utilities/RenderFrenzyRuleOptions";
 import { renderUnitTypeOptions } from "./utilities/RenderUnitTypeOptions";
 
 @customElement("host-lobby-modal")
@@ -50,7 +58,9 @@ export class HostLobbyModal extends LitElement {
   @state() private donateTroops: boolean = false;
   @state() private maxTimer: boolean = false;
   @state() private maxTimerValue: number | undefined = undefined;
+  @state() private spectatorDelay: number = 0;
   @state() private instantBuild: boolean = false;
+  @state() private fogOfWar: boolean = false;
   @state() private randomSpawn: boolean = false;
   @state() private compactMap: boolean = false;
   @state() private lobbyId = "";
@@ -58,8 +68,12 @@ export class HostLobbyModal extends LitElement {
   @state() private clients: ClientInfo[] = [];
   @state() private useRandomMap: boolean = false;
   @state() private disabledUnits: UnitType[] = [];
+  @state() private frenzyOverrides: FrenzyOverrides = {};
   @state() private lobbyCreatorClientID: string = "";
   @state() private lobbyIdVisible: boolean = true;
+  // Name of the uploaded map while it is the selected one
+  @state() private customMapName: string | null = null;
+  @state() private customMapError: string | null = null;
 
   private playersInterval: NodeJS.Timeout | null = null;
   // Add a new timer for debouncing bot changes
@@ -227,6 +241,29 @@ export class HostLobbyModal extends LitElement {
                   ${translateText("map.random")}
                 </div>
               </div>
+              <label
+                class="option-card ${
+                  this.customMapName !== null ? "selected" : ""
+                }"
+                title=${translateText("host_modal.upload_map_hint")}
+              >
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  class="hidden"
+                  @change=${this.handleCustomMapUpload}
+                />
+                <div class="option-card-title">
+                  ${this.customMapName ?? translateText("host_modal.upload_map")}
+                </div>
+              </label>
+              ${
+                this.customMapError !== null
+                  ? html`<div class="w-full text-center text-red-400">
+                      ${this.customMapError}
+                    </div>`
+                  : ""
+              }
             </div>
           </div>
 
@@ -394,6 +431,22 @@ export class HostLobbyModal extends LitElement {
                   </div>
                 </label>
 
+                <label
+                  for="fog-of-war"
+                  class="option-card ${this.fogOfWar ? "selected" : ""}"
+                >
+                  <div class="checkbox-icon"></div>
+                  <input
+                    type="checkbox"
+                    id="fog-of-war"
+                    @change=${this.handleFogOfWarChange}
+                    .checked=${this.fogOfWar}
+                  />
+                  <div class="option-card-title">
+                    ${translateText("host_modal.fog_of_war")}
+                  </div>
+                </label>
+
                 <label
                   for="random-spawn"
                   class="option-card ${this.randomSpawn ? "selected" : ""}"
@@ -525,6 +578,24 @@ export class HostLobbyModal extends LitElement {
                     ${translateText("host_modal.max_timer")}
                   </div>
                 </label>
+                <label
+                  for="spectator-delay"
+                  class="option-card ${this.spectatorDelay > 0 ? "selected" : ""}"
+                  title=${translateText("host_modal.spectator_delay_hint")}
+                >
+                  <input
+                    type="number"
+                    id="spectator-delay"
+                    min="0"
+                    max=${MAX_SPECTATOR_DELAY}
+                    .value=${String(this.spectatorDelay)}
+                    style="width: 60px; color: black; text-align: right; border-radius: 8px;"
+                    @input=${this.handleSpectatorDelayChange}
+                  />
+                  <div class="option-card-title">
+                    ${translateText("host_modal.spectator_delay")}
+                  </div>
+                </label>
                 <hr style="width: 100%; border-top: 1px solid #444; margin: 16px 0;" />
 
                 <!-- Individual disables for structures/weapons -->
@@ -541,6 +612,17 @@ export class HostLobbyModal extends LitElement {
                      toggleUnit: this.toggleUnit.bind(this),
                    })}
                   </div>
+                ${
+                  this.gameFork === GameFork.Frenzy
+                    ? renderFrenzyRuleOptions({
+                        overrides: this.frenzyOverrides,
+                        setOverrides: (overrides) => {
+                          this.frenzyOverrides = overrides;
+                          this.putGameConfig();
+                        },
+                      })
+                    : ""
+                }
                 </div>
               </div>
             </div>
@@ -593,6 +675,12 @@ export class HostLobbyModal extends LitElement {
 
   public open() {
     this.lobbyCreatorClientID = generateID();
+    // Uploads belong to the previous lobby
+    if (this.selectedMap === GameMapType.Custom) {
+      this.selectedMap = GameMapType.World;
+    }
+    this.customMapName = null;
+    this.customMapError = null;
     this.lobbyIdVisible = this.userSettings.get(
       "settings.lobbyIdVisibility",
       true,
@@ -637,15 +725,63 @@ export class HostLobbyModal extends LitElement {
 
   private async handleRandomMapToggle() {
     this.useRandomMap = true;
+    this.customMapName = null;
     this.putGameConfig();
   }
 
   private async handleMapSelection(value: GameMapType) {
     this.selectedMap = value;
     this.useRandomMap = false;
+    this.customMapName = null;
     this.putGameConfig();
   }
 
+  /**
+   * Checks the chosen map package locally, then uploads it to the lobby. The
+   * worker validates it again and switches the lobby to the custom map.
+   */
+  private async handleCustomMapUpload(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = "";
+    if (!file) return;
+    this.customMapError = null;
+    if (file.size > MAX_MAP_PACKAGE_BYTES) {
+      this.customMapError = translateText("host_modal.upload_map_too_large", {
+        mb: MAX_MAP_PACKAGE_BYTES / (1024 * 1024),
+      });
+      return;
+    }
+    let pkg;
+    try {
+      pkg = decodeMapPackage(JSON.parse(await file.text()));
+    } catch (error) {
+      this.customMapError = (error as Error).message;
+      return;
+    }
+
+    const config = await getServerConfigFromClient();
+    const response = await fetch(
+      `${window.location.origin}/${config.workerPath(this.lobbyId)}/api/game/${this.lobbyId}/custom_map?clientID=${this.lobbyCreatorClientID}`,
+      {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(toMapPackage(pkg)),
+      },
+    );
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      this.customMapError =
+        body.error ?? translateText("host_modal.upload_map_failed");
+      return;
+    }
+    this.selectedMap = GameMapType.Custom;
+    this.useRandomMap = false;
+    this.customMapName = pkg.manifest.name;
+  }
+
   private async handleDifficultySelection(value: Difficulty) {
     this.selectedDifficulty = value;
     this.putGameConfig();
@@ -678,6 +814,11 @@ export class HostLobbyModal extends LitElement {
     this.putGameConfig();
   }
 
+  private handleFogOfWarChange(e: Event) {
+    this.fogOfWar = Boolean((e.target as HTMLInputElement).checked);
+    this.putGameConfig();
+  }
+
   private handleRandomSpawnChange(e: Event) {
     this.randomSpawn = Boolean((e.target as HTMLInputElement).checked);
     this.putGameConfig();
@@ -727,6 +868,15 @@ export class HostLobbyModal extends LitElement {
     this.putGameConfig();
   }
 
+  private handleSpectatorDelayChange(e: Event) {
+    const value = parseInt((e.target as HTMLInputElement).value);
+    if (isNaN(value) || value < 0 || value > MAX_SPECTATOR_DELAY) {
+      return;
+    }
+    this.spectatorDelay = value;
+    this.putGameConfig();
+  }
+
   private async handleDisableNPCsChange(e: Event) {
     this.disableNPCs = Boolean((e.target as HTMLInputElement).checked);
     console.log(`updating disable npcs to ${this.disableNPCs}`);
@@ -770,10 +920,12 @@ export class HostLobbyModal extends LitElement {
           infiniteTroops: this.infiniteTroops,
           donateTroops: this.donateTroops,
           instantBuild: this.instantBuild,
+          fogOfWar: this.fogOfWar,
           randomSpawn: this.randomSpawn,
           gameMode: this.gameMode,
           disabledUnits: this.disabledUnits,
           playerTeams: this.teamCount,
+          frenzyOverrides: this.frenzyOverrides,
           ...(this.gameMode === GameMode.Team &&
           this.teamCount === HumansVsNations
             ? {
@@ -784,6 +936,7 @@ export class HostLobbyModal extends LitElement {
               }),
           maxTimerValue:
             this.maxTimer === true ? this.maxTimerValue : undefined,
+          spectatorDelay: this.spectatorDelay,
         } satisfies Partial<GameConfig>),
       },
     );
@@ -800,7 +953,9 @@ export class HostLobbyModal extends LitElement {
   }
 
   private getRandomMap(): GameMapType {
-    const maps = Object.values(GameMapType);
+    const maps = Object.values(GameMapType).filter(
+      (map) => map !== GameMapType.Custom,
+    );
     const randIdx = Math.floor(Math.random() * maps.length);
     return maps[randIdx] as GameMapType;
   }
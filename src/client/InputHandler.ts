@@ -1,4 +1,5 @@
 import { EventBus, GameEvent } from "../core/EventBus";
+import { FrenzyUnitOrder } from "../core/game/frenzy/FrenzyTypes";
 import { UnitType } from "../core/game/Game";
 import { UnitView } from "../core/game/GameView";
 import { UserSettings } from "../core/game/UserSettings";
@@ -35,6 +36,42 @@ export class UnitSelectionEvent implements GameEvent {
   ) {}
 }
 
+/**
+ * Shift-drag selection rectangle in screen coordinates. Emitted while
+ * dragging and once more with `done` when the pointer is released.
+ */
+export class UnitBoxSelectEvent implements GameEvent {
+  constructor(
+    public readonly startX: number,
+    public readonly startY: number,
+    public readonly endX: number,
+    public readonly endY: number,
+    public readonly done: boolean,
+  ) {}
+}
+
+/**
+ * Save the current unit selection as a numbered group, or select it again
+ */
+export class ControlGroupEvent implements GameEvent {
+  constructor(
+    public readonly group: number,
+    public readonly assign: boolean,
+  ) {}
+}
+
+/**
+ * Order for the selected units; x/y are screen coordinates for orders
+ * that need a target point
+ */
+export class UnitOrderEvent implements GameEvent {
+  constructor(
+    public readonly order: FrenzyUnitOrder,
+    public readonly x?: number,
+    public readonly y?: number,
+  ) {}
+}
+
 export class MouseDownEvent implements GameEvent {
   constructor(
     public readonly x: number,
@@ -71,6 +108,14 @@ export class DragEvent implements GameEvent {
   ) {}
 }
 
+// Jumps the camera to a map position, e.g. while dragging on the minimap
+export class PanToEvent implements GameEvent {
+  constructor(
+    public readonly x: number,
+    public readonly y: number,
+  ) {}
+}
+
 export class AlternateViewEvent implements GameEvent {
   constructor(public readonly alternateView: boolean) {}
 }
@@ -114,6 +159,18 @@ export class ReplaySpeedChangeEvent implements GameEvent {
   constructor(public readonly replaySpeedMultiplier: ReplaySpeedMultiplier) {}
 }
 
+// Emitted once the renderer is up, for the replay timeline length
+export class ReplayLoadedEvent implements GameEvent {
+  constructor(public readonly totalTurns: number) {}
+}
+
+export class ReplaySeekEvent implements GameEvent {
+  constructor(public readonly turn: number) {}
+}
+
+// Advances a paused local game by a single turn
+export class ReplayStepEvent implements GameEvent {}
+
 export class CenterCameraEvent implements GameEvent {
   constructor() {}
 }
@@ -146,6 +203,8 @@ export class InputHandler {
 
   private pointerDown: boolean = false;
 
+  private boxSelecting: boolean = false;
+
   private alternateView = false;
 
   private movementRafId: number | null = null;
@@ -213,6 +272,8 @@ export class InputHandler {
       buildArtillery: "Digit8",
       buildAtomBomb: "Digit9",
       buildHydrogenBomb: "Digit0",
+      holdPosition: "KeyH",
+      retreatToHQ: "KeyX",
       ...saved,
     };
 
@@ -316,6 +377,12 @@ export class InputHandler {
         this.eventBus.emit(new CenterCameraEvent());
       }
 
+      if (this.handleUnitCommandKey(e)) {
+        e.preventDefault();
+        this.activeKeys.delete(e.code);
+        return;
+      }
+
       if (e.code === this.keybinds.buildCity) {
         e.preventDefault();
         this.setGhostStructure(UnitType.City);
@@ -391,6 +458,10 @@ export class InputHandler {
 
     this.pointerDown = true;
     this.pointers.set(event.pointerId, event);
+    this.boxSelecting =
+      this.pointers.size === 1 &&
+      event.shiftKey &&
+      this.uiState.unitSelectionEnabled === true;
 
     if (this.pointers.size === 1) {
       this.lastPointerX = event.clientX;
@@ -417,6 +488,21 @@ export class InputHandler {
     this.pointerDown = false;
     this.pointers.clear();
 
+    if (this.boxSelecting) {
+      // A shift-click selects whatever is under the cursor, or nothing
+      this.boxSelecting = false;
+      this.eventBus.emit(
+        new UnitBoxSelectEvent(
+          this.lastPointerDownX,
+          this.lastPointerDownY,
+          event.clientX,
+          event.clientY,
+          true,
+        ),
+      );
+      return;
+    }
+
     if (this.isModifierKeyPressed(event)) {
       this.eventBus.emit(new ShowBuildMenuEvent(event.clientX, event.clientY));
       return;
@@ -479,6 +565,19 @@ export class InputHandler {
       return;
     }
 
+    if (this.boxSelecting) {
+      this.eventBus.emit(
+        new UnitBoxSelectEvent(
+          this.lastPointerDownX,
+          this.lastPointerDownY,
+          event.clientX,
+          event.clientY,
+          false,
+        ),
+      );
+      return;
+    }
+
     if (this.pointers.size === 1) {
       const deltaX = event.clientX - this.lastPointerX;
       const deltaY = event.clientY - this.lastPointerY;
@@ -507,9 +606,47 @@ export class InputHandler {
       this.setGhostStructure(null);
       return;
     }
+    if ((this.uiState.selectedUnitCount ?? 0) > 0) {
+      // Modifier + right-click moves without engaging
+      const order =
+        event.ctrlKey || event.metaKey
+          ? FrenzyUnitOrder.Move
+          : FrenzyUnitOrder.AttackMove;
+      this.eventBus.emit(
+        new UnitOrderEvent(order, event.clientX, event.clientY),
+      );
+      return;
+    }
     this.eventBus.emit(new ContextMenuEvent(event.clientX, event.clientY));
   }
 
+  /**
+   * Control groups (modifier+1..9 saves, Shift+1..9 selects) and orders for
+   * the selected units. Returns true if the key was consumed.
+   */
+  private handleUnitCommandKey(e: KeyboardEvent): boolean {
+    if (this.uiState.unitSelectionEnabled !== true) return false;
+
+    const digit = /^Digit([1-9])$/.exec(e.code);
+    if (digit !== null && (e.ctrlKey || e.metaKey || e.shiftKey)) {
+      this.eventBus.emit(
+        new ControlGroupEvent(Number(digit[1]), e.ctrlKey || e.metaKey),
+      );
+      return true;
+    }
+
+    if ((this.uiState.selectedUnitCount ?? 0) === 0) return false;
+    if (e.code === this.keybinds.holdPosition) {
+      this.eventBus.emit(new UnitOrderEvent(FrenzyUnitOrder.Hold));
+      return true;
+    }
+    if (e.code === this.keybinds.retreatToHQ) {
+      this.eventBus.emit(new UnitOrderEvent(FrenzyUnitOrder.Retreat));
+      return true;
+    }
+    return false;
+  }
+
   private setGhostStructure(ghostStructure: UnitType | null) {
     this.uiState.ghostStructure = ghostStructure;
     this.eventBus.emit(new GhostStructureChangedEvent(ghostStructure));
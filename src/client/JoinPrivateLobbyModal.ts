@@ -6,7 +6,6 @@ import { generateID } from "../core/Util";
 import { getServerConfigFromClient } from "../core/configuration/ConfigLoader";
 import "./components/baseComponents/Button";
 import "./components/baseComponents/Modal";
-import { getApiBase } from "./jwt";
 import { JoinLobbyEvent } from "./types/JoinLobbyEvent";
 @customElement("join-private-lobby-modal")
 export class JoinPrivateLobbyModal extends LitElement {
@@ -18,6 +17,7 @@ export class JoinPrivateLobbyModal extends LitElement {
   @state() private message: string = "";
   @state() private hasJoined = false;
   @state() private players: string[] = [];
+  @state() private numSpectators = 0;
 
   private playersInterval: NodeJS.Timeout | null = null;
 
@@ -86,16 +86,29 @@ export class JoinPrivateLobbyModal extends LitElement {
                     (player) => html`<span class="player-tag">${player}</span>`,
                   )}
                 </div>
+                ${this.numSpectators > 0
+                  ? html`<div class="option-title">
+                      ${translateText("private_lobby.spectators", {
+                        count: this.numSpectators,
+                      })}
+                    </div>`
+                  : ""}
               </div>`
             : ""}
         </div>
         <div class="flex justify-center">
           ${!this.hasJoined
             ? html` <o-button
-                title=${translateText("private_lobby.join_lobby")}
-                block
-                @click=${this.joinLobby}
-              ></o-button>`
+                  title=${translateText("private_lobby.join_lobby")}
+                  block
+                  @click=${() => this.joinLobby()}
+                ></o-button>
+                <o-button
+                  title=${translateText("private_lobby.spectate")}
+                  secondary
+                  block
+                  @click=${() => this.joinLobby(true)}
+                ></o-button>`
             : ""}
         </div>
       </o-modal>
@@ -169,14 +182,14 @@ export class JoinPrivateLobbyModal extends LitElement {
     }
   }
 
-  private async joinLobby(): Promise<void> {
+  private async joinLobby(spectate = false): Promise<void> {
     const lobbyId = this.lobbyIdInput.value;
     console.log(`Joining lobby with ID: ${lobbyId}`);
     this.message = `${translateText("private_lobby.checking")}`;
 
     try {
       // First, check if the game exists in active lobbies
-      const gameExists = await this.checkActiveLobby(lobbyId);
+      const gameExists = await this.checkActiveLobby(lobbyId, spectate);
       if (gameExists) return;
 
       // If not active, check archived games
@@ -199,7 +212,10 @@ export class JoinPrivateLobbyModal extends LitElement {
     }
   }
 
-  private async checkActiveLobby(lobbyId: string): Promise<boolean> {
+  private async checkActiveLobby(
+    lobbyId: string,
+    spectate: boolean,
+  ): Promise<boolean> {
     const config = await getServerConfigFromClient();
     const url = `/${config.workerPath(lobbyId)}/api/game/${lobbyId}/exists`;
 
@@ -219,6 +235,7 @@ export class JoinPrivateLobbyModal extends LitElement {
           detail: {
             gameID: lobbyId,
             clientID: generateID(),
+            spectate,
           } as JoinLobbyEvent,
           bubbles: true,
           composed: true,
@@ -235,16 +252,17 @@ export class JoinPrivateLobbyModal extends LitElement {
   private async checkArchivedGame(
     lobbyId: string,
   ): Promise<"success" | "not_found" | "version_mismatch" | "error"> {
-    const apiBase = getApiBase();
-    if (apiBase === null) {
-      return "error";
-    }
-    const archivePromise = fetch(`${apiBase}/game/${lobbyId}`, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
+    // The worker reads from whichever archive store the server uses
+    const config = await getServerConfigFromClient();
+    const archivePromise = fetch(
+      `/${config.workerPath(lobbyId)}/api/game/${lobbyId}`,
+      {
+        method: "GET",
+        headers: {
+          "Content-Type": "application/json",
+        },
       },
-    });
+    );
     const gitCommitPromise = fetch(`/commit.txt`, {
       method: "GET",
       headers: { "Content-Type": "application/json" },
@@ -319,6 +337,7 @@ export class JoinPrivateLobbyModal extends LitElement {
       .then((response) => response.json())
       .then((data: GameInfo) => {
         this.players = data.clients?.map((p) => p.username) ?? [];
+        this.numSpectators = data.numSpectators ?? 0;
       })
       .catch((error) => {
         console.error("Error polling players:", error);
@@ -223,6 +223,8 @@ export class LangSelector extends LitElement {
       "top-bar",
       "player-panel",
       "replay-panel",
+      "spectator-panel",
+      "mini-map",
       "help-modal",
       "settings-modal",
       "username-input",
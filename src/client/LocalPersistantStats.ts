@@ -1,4 +1,18 @@
 import { GameConfig, GameID, PartialGameRecord } from "../core/Schemas";
+import {
+  FRENZY_DAMAGE_INDEX_DEALT,
+  FRENZY_DAMAGE_INDEX_TAKEN,
+  FRENZY_GOLD_INDEX_BASE,
+  FRENZY_GOLD_INDEX_CRYSTAL,
+  FRENZY_STRUCTURE_INDEX_BUILT,
+  FRENZY_STRUCTURE_INDEX_CAPTURE,
+  FRENZY_STRUCTURE_INDEX_SELL,
+  FRENZY_STRUCTURE_INDEX_UPGRADE,
+  FRENZY_UNIT_INDEX_LOST,
+  FRENZY_UNIT_INDEX_SPAWN,
+  FrenzyStats,
+  PlayerStatsSchema,
+} from "../core/StatsSchemas";
 import { replacer } from "../core/Util";
 
 export interface LocalStatsData {
@@ -57,3 +71,77 @@ export function endGame(gameRecord: PartialGameRecord) {
   gameStat.gameRecord = gameRecord;
   save(stats);
 }
+
+export interface FrenzyCareerStats {
+  games: number;
+  unitsSpawned: bigint;
+  unitsLost: bigint;
+  damageDealt: bigint;
+  damageTaken: bigint;
+  structuresBuilt: bigint;
+  structuresUpgraded: bigint;
+  structuresSold: bigint;
+  structuresCaptured: bigint;
+  baseGold: bigint;
+  crystalGold: bigint;
+  bestPeakTiles: bigint;
+}
+
+export function aggregateFrenzyStats(
+  matches: FrenzyStats[],
+): FrenzyCareerStats {
+  const total: FrenzyCareerStats = {
+    games: matches.length,
+    unitsSpawned: 0n,
+    unitsLost: 0n,
+    damageDealt: 0n,
+    damageTaken: 0n,
+    structuresBuilt: 0n,
+    structuresUpgraded: 0n,
+    structuresSold: 0n,
+    structuresCaptured: 0n,
+    baseGold: 0n,
+    crystalGold: 0n,
+    bestPeakTiles: 0n,
+  };
+  const at = (values: bigint[] | undefined, index: number) =>
+    values?.[index] ?? 0n;
+
+  for (const match of matches) {
+    for (const values of Object.values(match.units ?? {})) {
+      total.unitsSpawned += at(values, FRENZY_UNIT_INDEX_SPAWN);
+      total.unitsLost += at(values, FRENZY_UNIT_INDEX_LOST);
+    }
+    total.damageDealt += at(match.damage, FRENZY_DAMAGE_INDEX_DEALT);
+    total.damageTaken += at(match.damage, FRENZY_DAMAGE_INDEX_TAKEN);
+    for (const values of Object.values(match.structures ?? {})) {
+      total.structuresBuilt += at(values, FRENZY_STRUCTURE_INDEX_BUILT);
+      total.structuresUpgraded += at(values, FRENZY_STRUCTURE_INDEX_UPGRADE);
+      total.structuresSold += at(values, FRENZY_STRUCTURE_INDEX_SELL);
+      total.structuresCaptured += at(values, FRENZY_STRUCTURE_INDEX_CAPTURE);
+    }
+    total.baseGold += at(match.gold, FRENZY_GOLD_INDEX_BASE);
+    total.crystalGold += at(match.gold, FRENZY_GOLD_INDEX_CRYSTAL);
+    if ((match.peakTiles ?? 0n) > total.bestPeakTiles) {
+      total.bestPeakTiles = match.peakTiles ?? 0n;
+    }
+  }
+  return total;
+}
+
+// Totals across every finished Frenzy game saved on this device
+export function frenzyCareerStats(): FrenzyCareerStats {
+  const matches: FrenzyStats[] = [];
+  if (localStorage !== undefined) {
+    for (const { gameRecord } of Object.values(getStats())) {
+      // Records are stored with bigints as strings
+      const parsed = PlayerStatsSchema.safeParse(
+        gameRecord?.info.players[0]?.stats,
+      );
+      if (parsed.success && parsed.data?.frenzy !== undefined) {
+        matches.push(parsed.data.frenzy);
+      }
+    }
+  }
+  return aggregateFrenzyStats(matches);
+}
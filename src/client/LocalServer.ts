@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { EventBus } from "../core/EventBus";
+import { toMapPackage } from "../core/game/MapPackage";
 import {
   AllPlayersStats,
   ClientMessage,
@@ -20,6 +21,7 @@ import {
 import { LobbyConfig } from "./ClientGameRunner";
 import { ReplaySpeedChangeEvent } from "./InputHandler";
 import { getPersistentID } from "./Main";
+import { SaveSlot } from "./SaveSlots";
 import { defaultReplaySpeedMultiplier } from "./utilities/ReplaySpeedMultiplier";
 
 export class LocalServer {
@@ -32,6 +34,8 @@ export class LocalServer {
   private startedAt: number;
 
   private paused = false;
+  // Set while the client rebuilds state after a replay seek
+  private seeking = false;
   private replaySpeedMultiplier = defaultReplaySpeedMultiplier;
 
   private winner: ClientSendWinnerMessage | null = null;
@@ -70,7 +74,10 @@ export class LocalServer {
       this.replaySpeedMultiplier = event.replaySpeedMultiplier;
     });
 
-    this.startedAt = Date.now();
+    const saved = this.lobbyConfig.savedGame;
+    // Continuing a saved game: its turns are sent with the start message
+    this.turns = saved ? [...saved.turns] : [];
+    this.startedAt = Date.now() - (saved?.playTimeMs ?? 0);
     this.clientConnect();
     if (this.lobbyConfig.gameRecord) {
       this.replayTurns = decompressGameRecord(
@@ -83,7 +90,7 @@ export class LocalServer {
     this.clientMessage({
       type: "start",
       gameStartInfo: this.lobbyConfig.gameStartInfo,
-      turns: [],
+      turns: [...this.turns],
       lobbyCreatedAt: this.lobbyConfig.gameStartInfo.lobbyCreatedAt,
     } satisfies ServerStartGameMessage);
   }
@@ -96,6 +103,78 @@ export class LocalServer {
     this.paused = false;
   }
 
+  /**
+   * Sends exactly one turn while paused, once the previous one has executed.
+   */
+  step() {
+    if (!this.paused || this.seeking) {
+      return;
+    }
+    if (this.turnsExecuted !== this.turns.length) {
+      return;
+    }
+    this.sendTurn();
+  }
+
+  /**
+   * Replays only: moves the turn feed to `turn` (clamped to the replay) and
+   * returns the turns the client has not been sent yet on the way there.
+   * Turns stay on hold until `seekComplete()`.
+   */
+  seek(turn: number): { turn: number; missing: Turn[] } {
+    if (this.replayTurns.length === 0) {
+      throw new Error("can only seek replays");
+    }
+    // The worker must execute at least one turn to rebuild the view
+    const target = Math.max(1, Math.min(turn, this.replayTurns.length));
+    this.seeking = true;
+
+    const missing: Turn[] = [];
+    if (target < this.turns.length) {
+      this.turns.length = target;
+    }
+    while (this.turns.length < target) {
+      const next: Turn = {
+        turnNumber: this.turns.length,
+        intents: this.replayTurns[this.turns.length].intents,
+      };
+      this.turns.push(next);
+      missing.push(next);
+    }
+    this.turnsExecuted = this.turns.length;
+    return { turn: target, missing };
+  }
+
+  seekComplete() {
+    this.seeking = false;
+    this.turnsExecuted = this.turns.length;
+    this.turnStartTime = Date.now();
+  }
+
+  /**
+   * The game so far as a save slot, or null for replays. Holds the turns
+   * up to the snapshot, or every executed turn without one.
+   */
+  saveSlot(
+    thumbnail?: string,
+    snapshot?: { turn: number; data: Uint8Array },
+  ): SaveSlot | null {
+    const gameStartInfo = this.lobbyConfig.gameStartInfo;
+    if (this.isReplay || gameStartInfo === undefined) {
+      return null;
+    }
+    return {
+      id: gameStartInfo.gameID,
+      savedAt: Date.now(),
+      playTimeMs: Date.now() - this.startedAt,
+      gameStartInfo,
+      customMap: this.lobbyConfig.customMap,
+      turns: this.turns.slice(0, snapshot?.turn ?? this.turnsExecuted),
+      snapshot: snapshot?.data,
+      thumbnail,
+    };
+  }
+
   onMessage(clientMsg: ClientMessage) {
     if (clientMsg.type === "intent") {
       if (this.lobbyConfig.gameRecord) {
@@ -156,18 +235,25 @@ export class LocalServer {
 
   // This is so the client can tell us when it finished processing the turn.
   public turnComplete() {
+    if (this.seeking) {
+      return;
+    }
     this.turnsExecuted++;
   }
 
   // endTurn in this context means the server has collected all the intents
   // and will send the turn to the client.
   private endTurn() {
-    if (this.paused) {
+    if (this.paused || this.seeking) {
       return;
     }
+    this.sendTurn();
+  }
+
+  private sendTurn() {
     if (this.replayTurns.length > 0) {
       if (this.turns.length >= this.replayTurns.length) {
-        this.endGame();
+        // Stay idle at the end so the replay can still seek backwards
         return;
       }
       this.intents = this.replayTurns[this.turns.length].intents;
@@ -211,6 +297,10 @@ export class LocalServer {
       this.startedAt,
       Date.now(),
       this.winner?.winner,
+      undefined,
+      this.lobbyConfig.customMap
+        ? toMapPackage(this.lobbyConfig.customMap)
+        : undefined,
     );
 
     const result = PartialGameRecordSchema.safeParse(record);
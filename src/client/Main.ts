@@ -24,6 +24,7 @@ import { JoinPrivateLobbyModal } from "./JoinPrivateLobbyModal";
 import "./LangSelector";
 import { LangSelector } from "./LangSelector";
 import { LanguageModal } from "./LanguageModal";
+import { MapEditorModal } from "./MapEditorModal";
 import "./Matchmaking";
 import { MatchmakingModal } from "./Matchmaking";
 import "./NewsModal";
@@ -210,6 +211,18 @@ class Client {
       hlpModal.open();
     });
 
+    const mapEditorModal = document.querySelector(
+      "map-editor-modal",
+    ) as MapEditorModal;
+    if (!mapEditorModal || !(mapEditorModal instanceof MapEditorModal)) {
+      console.warn("Map editor modal element not found");
+    }
+    const mapEditorButton = document.getElementById("map-editor-button");
+    if (mapEditorButton === null) throw new Error("Missing map-editor-button");
+    mapEditorButton.addEventListener("click", () => {
+      mapEditorModal.open();
+    });
+
     const flagInputModal = document.querySelector(
       "flag-input-modal",
     ) as FlagInputModal;
@@ -540,6 +553,9 @@ class Client {
         clientID: lobby.clientID,
         gameStartInfo: lobby.gameStartInfo ?? lobby.gameRecord?.info,
         gameRecord: lobby.gameRecord,
+        customMap: lobby.customMap,
+        spectator: lobby.spectate,
+        savedGame: lobby.savedGame,
       },
       (mapType) => {
         console.log("Closing modals");
@@ -549,6 +565,7 @@ class Client {
           ?.classList.add("hidden");
         [
           "single-player-modal",
+          "map-editor-modal",
           "host-lobby-modal",
           "join-private-lobby-modal",
           "game-starting-modal",
@@ -666,6 +683,7 @@ class Client {
           clientID: newClientID,
           gameID: newGameID,
           gameStartInfo: newGameStartInfo,
+          customMap: last.customMap,
         },
         bubbles: true,
         composed: true,
@@ -681,6 +699,8 @@ class Client {
         ? cloneGameStartInfo(lobby.gameStartInfo)
         : undefined,
       gameRecord: lobby.gameRecord,
+      customMap: lobby.customMap,
+      spectate: lobby.spectate,
     };
   }
 
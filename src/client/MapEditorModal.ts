@@ -0,0 +1,564 @@
+import { html, LitElement } from "lit";
+import { customElement, query, state } from "lit/decorators.js";
+import { PlacedCrystalCluster } from "../core/game/frenzy/CrystalPlacement";
+import {
+  Difficulty,
+  GameFork,
+  GameMapSize,
+  GameMapType,
+  GameMode,
+  GameType,
+} from "../core/game/Game";
+import {
+  DecodedMapPackage,
+  decodeMapPackage,
+  mapPackageToJSON,
+} from "../core/game/MapPackage";
+import { FrenzyOverrides } from "../core/Schemas";
+import { generateID } from "../core/Util";
+import "./components/baseComponents/Modal";
+import { FlagInput } from "./FlagInput";
+import {
+  MapEditorState,
+  MapTemplate,
+  MAX_LAND_MAGNITUDE,
+} from "./MapEditorState";
+import { JoinLobbyEvent } from "./types/JoinLobbyEvent";
+import { UsernameInput } from "./UsernameInput";
+import { renderFrenzyRuleOptions } from "./utilities/RenderFrenzyRuleOptions";
+import { translateText } from "./Utils";
+
+type EditorTool = "land" | "water" | "nation" | "crystal" | "erase";
+
+const TOOLS: EditorTool[] = ["land", "water", "nation", "crystal", "erase"];
+const TEMPLATES: MapTemplate[] = ["circle", "square", "land", "water"];
+
+// Land shades from low green to high white, water from shallow to deep
+function tileColor(land: boolean, magnitude: number): [number, number, number] {
+  if (!land) return [40, 90, 150];
+  const t = magnitude / MAX_LAND_MAGNITUDE;
+  if (t < 0.5) {
+    const k = t * 2;
+    return [
+      Math.round(90 + 80 * k),
+      Math.round(160 - 20 * k),
+      Math.round(70 + 10 * k),
+    ];
+  }
+  const k = (t - 0.5) * 2;
+  return [
+    Math.round(170 + 70 * k),
+    Math.round(140 + 100 * k),
+    Math.round(80 + 160 * k),
+  ];
+}
+
+/**
+ * Paints custom Frenzy maps: land, water and land height, nation spawns and
+ * optional fixed crystal clusters. Maps export as a single package file and
+ * can be test-launched as a singleplayer Frenzy game.
+ */
+@customElement("map-editor-modal")
+export class MapEditorModal extends LitElement {
+  @query("o-modal") private modalEl!: HTMLElement & {
+    open: () => void;
+    close: () => void;
+  };
+  @query("#map-editor-terrain") private terrainCanvas!: HTMLCanvasElement;
+  @query("#map-editor-markers") private markerCanvas!: HTMLCanvasElement;
+
+  @state() private editor: MapEditorState = MapEditorState.fromTemplate(
+    400,
+    400,
+    "circle",
+  );
+  @state() private tool: EditorTool = "land";
+  @state() private brushSize = 8;
+  @state() private brushMagnitude = 10;
+  @state() private newWidth = 400;
+  @state() private newHeight = 400;
+  @state() private newTemplate: MapTemplate = "circle";
+  @state() private showPreview = false;
+  @state() private preview: PlacedCrystalCluster[] = [];
+  // Rules for the preview and the test launch
+  @state() private frenzyOverrides: FrenzyOverrides = {};
+  @state() private message: { text: string; error: boolean } | null = null;
+
+  private painting = false;
+  private image: ImageData | null = null;
+
+  createRenderRoot() {
+    return this;
+  }
+
+  public open() {
+    this.modalEl?.open();
+    this.redraw();
+  }
+
+  public close() {
+    this.modalEl?.close();
+  }
+
+  private newMap() {
+    try {
+      this.editor = MapEditorState.fromTemplate(
+        this.newWidth,
+        this.newHeight,
+        this.newTemplate,
+        this.brushMagnitude,
+      );
+      this.message = null;
+      this.afterEdit();
+    } catch (error) {
+      this.showMessage((error as Error).message, true);
+    }
+  }
+
+  protected updated() {
+    if (this.image === null && this.terrainCanvas) this.redraw();
+  }
+
+  // Rebuilds the whole terrain image, e.g. after loading a map
+  private redraw() {
+    const canvas = this.terrainCanvas;
+    if (!canvas) return;
+    const { width, height } = this.editor;
+    canvas.width = width;
+    canvas.height = height;
+    this.markerCanvas.width = width;
+    this.markerCanvas.height = height;
+    this.image = new ImageData(width, height);
+    this.drawTerrain(0, 0, width, height);
+    this.drawMarkers();
+  }
+
+  private drawTerrain(x0: number, y0: number, x1: number, y1: number) {
+    const ctx = this.terrainCanvas?.getContext("2d");
+    if (!ctx || this.image === null) return;
+    const { width, height, land, magnitude } = this.editor;
+    const left = Math.max(0, x0);
+    const top = Math.max(0, y0);
+    const right = Math.min(width, x1);
+    const bottom = Math.min(height, y1);
+    const data = this.image.data;
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        const i = y * width + x;
+        const [r, g, b] = tileColor(land[i] === 1, magnitude[i]);
+        data.set([r, g, b, 255], i * 4);
+      }
+    }
+    ctx.putImageData(this.image, 0, 0, left, top, right - left, bottom - top);
+  }
+
+  private drawMarkers() {
+    const ctx = this.markerCanvas?.getContext("2d");
+    if (!ctx) return;
+    const { width, height } = this.editor;
+    const size = Math.max(2, Math.round(Math.min(width, height) / 100));
+    ctx.clearRect(0, 0, width, height);
+
+    if (this.showPreview) {
+      ctx.fillStyle = "rgba(120, 230, 255, 0.8)";
+      for (const cluster of this.preview) {
+        ctx.beginPath();
+        ctx.arc(
+          cluster.x,
+          cluster.y,
+          size * 0.6 + cluster.crystalCount * 0.4,
+          0,
+          Math.PI * 2,
+        );
+        ctx.fill();
+      }
+    }
+    ctx.fillStyle = "#c084fc";
+    for (const [x, y] of this.editor.crystals) {
+      ctx.beginPath();
+      ctx.moveTo(x, y - size);
+      ctx.lineTo(x + size, y);
+      ctx.lineTo(x, y + size);
+      ctx.lineTo(x - size, y);
+      ctx.fill();
+    }
+    ctx.fillStyle = "#ef4444";
+    ctx.strokeStyle = "#ffffff";
+    for (const nation of this.editor.nations) {
+      const [x, y] = nation.coordinates;
+      ctx.fillRect(x - size, y - size, size * 2, size * 2);
+      ctx.strokeRect(x - size, y - size, size * 2, size * 2);
+    }
+  }
+
+  // Refreshes everything derived from the terrain after a finished edit
+  private afterEdit() {
+    if (this.showPreview) this.refreshPreview();
+    this.redraw();
+  }
+
+  private refreshPreview() {
+    try {
+      this.preview = this.editor.previewCrystals(this.frenzyOverrides);
+    } catch (error) {
+      this.preview = [];
+      this.showMessage((error as Error).message, true);
+    }
+  }
+
+  private togglePreview(show: boolean) {
+    this.showPreview = show;
+    if (show) this.refreshPreview();
+    this.drawMarkers();
+  }
+
+  private tileAt(e: PointerEvent): [number, number] {
+    const rect = this.terrainCanvas.getBoundingClientRect();
+    return [
+      Math.floor(((e.clientX - rect.left) / rect.width) * this.editor.width),
+      Math.floor(((e.clientY - rect.top) / rect.height) * this.editor.height),
+    ];
+  }
+
+  private onPointerDown(e: PointerEvent) {
+    const [x, y] = this.tileAt(e);
+    switch (this.tool) {
+      case "land":
+      case "water":
+        this.painting = true;
+        (e.target as HTMLElement).setPointerCapture(e.pointerId);
+        this.paintAt(x, y);
+        return;
+      case "nation":
+        if (!this.editor.addNation(x, y)) {
+          this.showMessage(translateText("map_editor.needs_land"), true);
+        }
+        break;
+      case "crystal":
+        if (!this.editor.addCrystal(x, y)) {
+          this.showMessage(translateText("map_editor.needs_land"), true);
+        }
+        break;
+      case "erase":
+        this.editor.removeMarker(x, y, this.brushSize);
+        break;
+    }
+    if (this.showPreview) this.refreshPreview();
+    this.drawMarkers();
+    this.requestUpdate();
+  }
+
+  private onPointerMove(e: PointerEvent) {
+    if (!this.painting) return;
+    const [x, y] = this.tileAt(e);
+    this.paintAt(x, y);
+  }
+
+  private onPointerUp() {
+    if (!this.painting) return;
+    this.painting = false;
+    if (this.showPreview) this.refreshPreview();
+    this.drawMarkers();
+    this.requestUpdate();
+  }
+
+  private paintAt(x: number, y: number) {
+    const r = this.brushSize;
+    this.editor.paint(x, y, r, this.tool === "land", this.brushMagnitude);
+    this.drawTerrain(x - r - 1, y - r - 1, x + r + 2, y + r + 2);
+    if (this.tool === "water") this.drawMarkers();
+  }
+
+  private fileName(): string {
+    const name = this.editor.name.trim() || "custom_map";
+    return `${name.replace(/[^a-z0-9_-]+/gi, "_")}.frenzymap.json`;
+  }
+
+  private exportMap() {
+    try {
+      const json = mapPackageToJSON(this.editor.toPackage());
+      const url = URL.createObjectURL(
+        new Blob([json], { type: "application/json" }),
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = this.fileName();
+      link.click();
+      URL.revokeObjectURL(url);
+      this.showMessage(translateText("map_editor.exported"));
+    } catch (error) {
+      this.showMessage((error as Error).message, true);
+    }
+  }
+
+  private async importMap(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = "";
+    if (file === undefined) return;
+    try {
+      const pkg = decodeMapPackage(JSON.parse(await file.text()));
+      this.editor = MapEditorState.fromPackage(pkg);
+      this.showMessage(
+        translateText("map_editor.imported", { name: this.editor.name }),
+      );
+      this.afterEdit();
+    } catch (error) {
+      this.showMessage((error as Error).message, true);
+    }
+  }
+
+  private testLaunch() {
+    let customMap: DecodedMapPackage;
+    try {
+      customMap = decodeMapPackage(this.editor.toPackage());
+    } catch (error) {
+      this.showMessage((error as Error).message, true);
+      return;
+    }
+    const clientID = generateID();
+    const gameID = generateID();
+    const usernameInput = document.querySelector(
+      "username-input",
+    ) as UsernameInput | null;
+    const flagInput = document.querySelector("flag-input") as FlagInput | null;
+    const flag = flagInput?.getCurrentFlag() ?? "xx";
+
+    this.dispatchEvent(
+      new CustomEvent("join-lobby", {
+        detail: {
+          clientID,
+          gameID,
+          gameStartInfo: {
+            gameID,
+            players: [
+              {
+                clientID,
+                username: usernameInput?.getCurrentUsername() ?? "",
+                cosmetics: { flag: flag === "xx" ? "" : flag },
+              },
+            ],
+            config: {
+              gameMap: GameMapType.Custom,
+              gameMapSize: GameMapSize.Normal,
+              gameType: GameType.Singleplayer,
+              gameFork: GameFork.Frenzy,
+              gameMode: GameMode.FFA,
+              difficulty: Difficulty.Medium,
+              bots: 0,
+              infiniteGold: false,
+              donateGold: true,
+              donateTroops: true,
+              infiniteTroops: false,
+              instantBuild: false,
+              randomSpawn: false,
+              disableNPCs: false,
+              frenzyOverrides: this.frenzyOverrides,
+            },
+            lobbyCreatedAt: Date.now(),
+          },
+          customMap,
+        } satisfies JoinLobbyEvent,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+    this.close();
+  }
+
+  private showMessage(text: string, error = false) {
+    this.message = { text, error };
+  }
+
+  private renderToolbar() {
+    const button =
+      "px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-xs disabled:opacity-40";
+    const selected = "px-2 py-1 rounded bg-blue-600 text-xs";
+    const numberInput = "px-2 py-1 rounded text-black w-20";
+    return html`
+      <div class="flex flex-wrap items-center gap-2">
+        <input
+          class="px-2 py-1 rounded text-black w-40"
+          maxlength="40"
+          placeholder=${translateText("map_editor.name")}
+          .value=${this.editor.name}
+          @input=${(e: Event) =>
+            (this.editor.name = (e.target as HTMLInputElement).value)}
+        />
+        <input
+          type="number"
+          class=${numberInput}
+          min="4"
+          step="4"
+          title=${translateText("map_editor.width")}
+          .value=${String(this.newWidth)}
+          @input=${(e: Event) =>
+            (this.newWidth = Number((e.target as HTMLInputElement).value))}
+        />
+        <span>×</span>
+        <input
+          type="number"
+          class=${numberInput}
+          min="4"
+          step="4"
+          title=${translateText("map_editor.height")}
+          .value=${String(this.newHeight)}
+          @input=${(e: Event) =>
+            (this.newHeight = Number((e.target as HTMLInputElement).value))}
+        />
+        <select
+          class="px-2 py-1 rounded text-black"
+          @change=${(e: Event) =>
+            (this.newTemplate = (e.target as HTMLSelectElement)
+              .value as MapTemplate)}
+        >
+          ${TEMPLATES.map(
+            (template) =>
+              html`<option
+                value=${template}
+                ?selected=${template === this.newTemplate}
+              >
+                ${translateText(`map_editor.template_${template}`)}
+              </option>`,
+          )}
+        </select>
+        <button type="button" class=${button} @click=${this.newMap}>
+          ${translateText("map_editor.new_map")}
+        </button>
+      </div>
+
+      <div class="flex flex-wrap items-center gap-2">
+        ${TOOLS.map(
+          (tool) =>
+            html`<button
+              type="button"
+              class=${tool === this.tool ? selected : button}
+              @click=${() => (this.tool = tool)}
+            >
+              ${translateText(`map_editor.tool_${tool}`)}
+            </button>`,
+        )}
+        <label class="flex items-center gap-1 text-xs">
+          ${translateText("map_editor.brush_size", { size: this.brushSize })}
+          <input
+            type="range"
+            min="1"
+            max="60"
+            .value=${String(this.brushSize)}
+            @input=${(e: Event) =>
+              (this.brushSize = Number((e.target as HTMLInputElement).value))}
+          />
+        </label>
+        <label class="flex items-center gap-1 text-xs">
+          ${translateText("map_editor.magnitude", {
+            magnitude: this.brushMagnitude,
+          })}
+          <input
+            type="range"
+            min="0"
+            max=${MAX_LAND_MAGNITUDE}
+            .value=${String(this.brushMagnitude)}
+            @input=${(e: Event) =>
+              (this.brushMagnitude = Number(
+                (e.target as HTMLInputElement).value,
+              ))}
+          />
+        </label>
+        <label class="flex items-center gap-1 text-xs">
+          <input
+            type="checkbox"
+            .checked=${this.showPreview}
+            @change=${(e: Event) =>
+              this.togglePreview((e.target as HTMLInputElement).checked)}
+          />
+          ${translateText("map_editor.preview_crystals")}
+        </label>
+      </div>
+    `;
+  }
+
+  render() {
+    const button =
+      "px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-xs disabled:opacity-40";
+    const { width, height, nations, crystals } = this.editor;
+    return html`
+      <o-modal id="map-editor" title=${translateText("map_editor.title")}>
+        <div class="flex flex-col gap-3 p-2 text-sm text-gray-200">
+          ${this.renderToolbar()}
+          <div
+            class="relative mx-auto w-full max-w-[720px]"
+            style="aspect-ratio: ${width} / ${height}"
+          >
+            <canvas
+              id="map-editor-terrain"
+              class="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+              style="image-rendering: pixelated"
+              @pointerdown=${this.onPointerDown}
+              @pointermove=${this.onPointerMove}
+              @pointerup=${this.onPointerUp}
+              @pointercancel=${this.onPointerUp}
+            ></canvas>
+            <canvas
+              id="map-editor-markers"
+              class="absolute inset-0 w-full h-full pointer-events-none"
+            ></canvas>
+          </div>
+          <div class="text-xs text-gray-400">
+            ${translateText("map_editor.summary", {
+              width,
+              height,
+              nations: nations.length,
+              crystals:
+                crystals.length > 0
+                  ? crystals.length
+                  : translateText("map_editor.crystals_generated"),
+            })}
+            ${this.showPreview
+              ? translateText("map_editor.preview_count", {
+                  count: this.preview.length,
+                })
+              : ""}
+          </div>
+          ${this.message === null
+            ? ""
+            : html`<div
+                class=${this.message.error ? "text-red-400" : "text-green-400"}
+              >
+                ${this.message.text}
+              </div>`}
+          <div class="flex flex-wrap items-center gap-2">
+            <button type="button" class=${button} @click=${this.exportMap}>
+              ${translateText("map_editor.export")}
+            </button>
+            <label class="${button} cursor-pointer">
+              ${translateText("map_editor.import")}
+              <input
+                type="file"
+                accept=".json,application/json"
+                class="hidden"
+                @change=${this.importMap}
+              />
+            </label>
+            <button
+              type="button"
+              class="px-3 py-1 rounded bg-blue-600 hover:bg-blue-500 text-xs"
+              @click=${this.testLaunch}
+            >
+              ${translateText("map_editor.test_launch")}
+            </button>
+          </div>
+          ${renderFrenzyRuleOptions({
+            overrides: this.frenzyOverrides,
+            setOverrides: (overrides) => {
+              this.frenzyOverrides = overrides;
+              if (this.showPreview) {
+                this.refreshPreview();
+                this.drawMarkers();
+              }
+            },
+          })}
+        </div>
+      </o-modal>
+    `;
+  }
+}
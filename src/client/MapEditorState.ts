@@ -0,0 +1,252 @@
+import {
+  fixedCrystalClusters,
+  placeCrystalClusters,
+  PlacedCrystalCluster,
+} from "../core/game/frenzy/CrystalPlacement";
+import { DEFAULT_FRENZY_CONFIG } from "../core/game/frenzy/FrenzyRegistry";
+import { GameMapType } from "../core/game/Game";
+import { GameMapImpl } from "../core/game/GameMap";
+import {
+  buildManifest,
+  GeneratedMap,
+  generateMapFromTerrain,
+} from "../core/game/MapGenerator";
+import {
+  DecodedMapPackage,
+  encodeMapPackage,
+  MapPackage,
+  MAX_MAP_TILES,
+} from "../core/game/MapPackage";
+import { Nation } from "../core/game/TerrainMapLoader";
+import { PseudoRandom } from "../core/PseudoRandom";
+import { FrenzyOverrides } from "../core/Schemas";
+
+export const MAX_LAND_MAGNITUDE = 30;
+
+export type MapTemplate = "water" | "land" | "circle" | "square";
+
+const LAND_BIT = 0x80;
+const MAGNITUDE_MASK = 0x1f;
+
+/**
+ * Everything the map editor has painted, independent of how it is drawn.
+ * Terrain is row by row, like the packed map files.
+ */
+export class MapEditorState {
+  name = "Custom Map";
+  readonly land: Uint8Array;
+  readonly magnitude: Uint8Array;
+  nations: Nation[] = [];
+  // Fixed crystal cluster positions; empty means generated placement
+  crystals: [number, number][] = [];
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+  ) {
+    if (width < 4 || height < 4 || width % 4 !== 0 || height % 4 !== 0) {
+      throw new Error(
+        `Map dimensions must be multiples of 4, got ${width}x${height}`,
+      );
+    }
+    if (width * height > MAX_MAP_TILES) {
+      throw new Error(`Map is larger than the ${MAX_MAP_TILES} tile limit`);
+    }
+    this.land = new Uint8Array(width * height);
+    this.magnitude = new Uint8Array(width * height);
+  }
+
+  static fromTemplate(
+    width: number,
+    height: number,
+    template: MapTemplate,
+    magnitude = 10,
+  ): MapEditorState {
+    const state = new MapEditorState(width, height);
+    const radius = (Math.min(width, height) / 2) * 0.9;
+    const margin = Math.round(Math.min(width, height) * 0.05);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let land: boolean;
+        switch (template) {
+          case "water":
+            land = false;
+            break;
+          case "land":
+            land = true;
+            break;
+          case "circle":
+            land =
+              Math.hypot(x + 0.5 - width / 2, y + 0.5 - height / 2) <= radius;
+            break;
+          case "square":
+            land =
+              x >= margin &&
+              y >= margin &&
+              x < width - margin &&
+              y < height - margin;
+            break;
+        }
+        if (land) state.setTile(x, y, true, magnitude);
+      }
+    }
+    return state;
+  }
+
+  /**
+   * Unpacks the full-size terrain of a package. Water depth is regenerated on
+   * export, so only land and land height are kept.
+   */
+  static fromPackage(pkg: DecodedMapPackage): MapEditorState {
+    const { width, height } = pkg.manifest.map;
+    const state = new MapEditorState(width, height);
+    state.name = pkg.manifest.name;
+    for (let i = 0; i < pkg.map.length; i++) {
+      if (pkg.map[i] & LAND_BIT) {
+        state.land[i] = 1;
+        state.magnitude[i] = Math.min(
+          MAX_LAND_MAGNITUDE,
+          pkg.map[i] & MAGNITUDE_MASK,
+        );
+      }
+    }
+    state.nations = pkg.manifest.nations.map((n) => ({
+      ...n,
+      coordinates: [...n.coordinates],
+    }));
+    state.crystals = (pkg.manifest.crystals ?? []).map(([x, y]) => [x, y]);
+    return state;
+  }
+
+  isLand(x: number, y: number): boolean {
+    return this.inBounds(x, y) && this.land[y * this.width + x] === 1;
+  }
+
+  landTiles(): number {
+    return this.land.reduce((sum, v) => sum + v, 0);
+  }
+
+  /**
+   * Paints a disc of land at `magnitude`, or of water when `land` is false.
+   * Markers left standing on water are removed.
+   */
+  paint(
+    cx: number,
+    cy: number,
+    radius: number,
+    land: boolean,
+    magnitude: number,
+  ) {
+    const r = Math.max(0, radius);
+    const height = Math.max(0, Math.min(MAX_LAND_MAGNITUDE, magnitude));
+    for (let y = Math.floor(cy - r); y <= Math.ceil(cy + r); y++) {
+      for (let x = Math.floor(cx - r); x <= Math.ceil(cx + r); x++) {
+        if (!this.inBounds(x, y)) continue;
+        if ((x - cx) ** 2 + (y - cy) ** 2 > r * r) continue;
+        this.setTile(x, y, land, height);
+      }
+    }
+    if (!land) {
+      this.nations = this.nations.filter((n) => this.isLand(...n.coordinates));
+      this.crystals = this.crystals.filter(([x, y]) => this.isLand(x, y));
+    }
+  }
+
+  /**
+   * Nations and crystal clusters can only stand on land. Returns whether the
+   * marker was placed.
+   */
+  addNation(x: number, y: number): boolean {
+    if (!this.isLand(x, y)) return false;
+    this.nations.push({
+      coordinates: [x, y],
+      flag: "",
+      name: `Nation ${this.nations.length + 1}`,
+      strength: 1,
+    });
+    return true;
+  }
+
+  addCrystal(x: number, y: number): boolean {
+    if (!this.isLand(x, y)) return false;
+    this.crystals.push([x, y]);
+    return true;
+  }
+
+  // Removes the nation or crystal marker closest to (x, y) within `radius`
+  removeMarker(x: number, y: number, radius: number): boolean {
+    const dist = ([mx, my]: [number, number]) => Math.hypot(mx - x, my - y);
+    const nation = this.nations.findIndex((n) => dist(n.coordinates) <= radius);
+    if (nation !== -1) {
+      this.nations.splice(nation, 1);
+      return true;
+    }
+    const crystal = this.crystals.findIndex((c) => dist(c) <= radius);
+    if (crystal !== -1) {
+      this.crystals.splice(crystal, 1);
+      return true;
+    }
+    return false;
+  }
+
+  generate(): GeneratedMap {
+    return generateMapFromTerrain(
+      {
+        width: this.width,
+        height: this.height,
+        land: this.land,
+        magnitude: this.magnitude,
+      },
+      false,
+    );
+  }
+
+  toPackage(generated: GeneratedMap = this.generate()): MapPackage {
+    if (generated.map.numLandTiles === 0) {
+      throw new Error("The map has no land");
+    }
+    const manifest = buildManifest(
+      {
+        name: this.name.trim() || "Custom Map",
+        nations: this.nations,
+        ...(this.crystals.length > 0 ? { crystals: this.crystals } : {}),
+      },
+      generated,
+    );
+    return encodeMapPackage(manifest, generated);
+  }
+
+  /**
+   * Where a Frenzy game on this map would put its crystal clusters, under
+   * the given rule overrides and the seed a new game starts with.
+   */
+  previewCrystals(
+    overrides: FrenzyOverrides = {},
+    generated: GeneratedMap = this.generate(),
+  ): PlacedCrystalCluster[] {
+    const clusterCount =
+      overrides.crystalClusterCount ??
+      DEFAULT_FRENZY_CONFIG.crystalClusterCount;
+    const { map } = generated;
+    const gameMap = new GameMapImpl(
+      map.width,
+      map.height,
+      map.data,
+      map.numLandTiles,
+    );
+    const random = new PseudoRandom(0);
+    return this.crystals.length > 0
+      ? fixedCrystalClusters(gameMap, GameMapType.Custom, random, this.crystals)
+      : placeCrystalClusters(gameMap, GameMapType.Custom, clusterCount, random);
+  }
+
+  private inBounds(x: number, y: number): boolean {
+    return x >= 0 && y >= 0 && x < this.width && y < this.height;
+  }
+
+  private setTile(x: number, y: number, land: boolean, magnitude: number) {
+    const i = y * this.width + x;
+    this.land[i] = land ? 1 : 0;
+    this.magnitude[i] = land ? magnitude : 0;
+  }
+}
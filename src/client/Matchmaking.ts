@@ -1,5 +1,10 @@
 import { html, LitElement } from "lit";
 import { customElement, query, state } from "lit/decorators.js";
+import {
+  MatchmakingJoinResponseSchema,
+  MatchmakingTicketStatusSchema,
+} from "../core/ApiSchemas";
+import { MatchmakingService } from "../core/configuration/Config";
 import { getServerConfigFromClient } from "../core/configuration/ConfigLoader";
 import { generateID } from "../core/Util";
 import "./components/Difficulties";
@@ -13,6 +18,8 @@ export class MatchmakingModal extends LitElement {
   private gameCheckInterval: ReturnType<typeof setInterval> | null = null;
   private connected = false;
   @state() private socket: WebSocket | null = null;
+  // Queue ticket on the master, see MatchmakingService.Master
+  private ticketID: string | null = null;
 
   @state() private gameID: string | null = null;
   @query("o-modal") private modalEl!: HTMLElement & {
@@ -52,6 +59,10 @@ export class MatchmakingModal extends LitElement {
 
   private async connect() {
     const config = await getServerConfigFromClient();
+    if (config.matchmakingService() === MatchmakingService.Master) {
+      await this.joinQueue();
+      return;
+    }
 
     this.socket = new WebSocket(`${config.jwtIssuer()}/matchmaking/join`);
     this.socket.onopen = () => {
@@ -86,9 +97,54 @@ export class MatchmakingModal extends LitElement {
     };
   }
 
+  private async joinQueue() {
+    const response = await fetch("/api/matchmaking/join", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        region: matchmakingRegion(),
+        playToken: getPlayToken(),
+      }),
+    });
+    if (!response.ok) {
+      console.error(`Error joining matchmaking: ${response.status}`);
+      return;
+    }
+    const { ticketID } = MatchmakingJoinResponseSchema.parse(
+      await response.json(),
+    );
+    this.ticketID = ticketID;
+    this.connected = true;
+    this.requestUpdate();
+  }
+
+  private async checkTicket(ticketID: string) {
+    const response = await fetch(`/api/matchmaking/ticket/${ticketID}`);
+    if (response.status === 404) {
+      // Dropped while the tab was in the background, queue again
+      this.ticketID = null;
+      await this.joinQueue();
+      return;
+    }
+    if (!response.ok) {
+      console.error(`Error checking ticket ${ticketID}: ${response.status}`);
+      return;
+    }
+    const status = MatchmakingTicketStatusSchema.parse(await response.json());
+    if (status.status === "matched") {
+      console.log(`matchmaking: got game ID: ${status.gameID}`);
+      this.ticketID = null;
+      this.gameID = status.gameID;
+    }
+  }
+
   public close() {
     this.connected = false;
     this.socket?.close();
+    if (this.ticketID !== null) {
+      fetch(`/api/matchmaking/ticket/${this.ticketID}`, { method: "DELETE" });
+      this.ticketID = null;
+    }
     this.modalEl?.close();
     if (this.gameCheckInterval) {
       clearInterval(this.gameCheckInterval);
@@ -104,6 +160,10 @@ export class MatchmakingModal extends LitElement {
   }
 
   private async checkGame() {
+    if (this.gameID === null && this.ticketID !== null) {
+      await this.checkTicket(this.ticketID);
+    }
+    // Joins right away once matched; the game waits for its players
     if (this.gameID === null) {
       return;
     }
@@ -145,6 +205,11 @@ export class MatchmakingModal extends LitElement {
   }
 }
 
+// Players are first matched with others on their continent
+function matchmakingRegion(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone.split("/")[0];
+}
+
 @customElement("matchmaking-button")
 export class MatchmakingButton extends LitElement {
   @query("matchmaking-modal") private matchmakingModal: MatchmakingModal;
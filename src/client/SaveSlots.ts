@@ -0,0 +1,98 @@
+import { DecodedMapPackage } from "../core/game/MapPackage";
+import { GameID, GameStartInfo, Turn } from "../core/Schemas";
+
+/**
+ * A singleplayer game saved to continue later. Each game has one slot,
+ * overwritten by every save.
+ */
+export interface SaveSlot {
+  id: GameID;
+  savedAt: number;
+  playTimeMs: number;
+  gameStartInfo: GameStartInfo;
+  // Terrain for GameMapType.Custom
+  customMap?: DecodedMapPackage;
+  // Every turn executed so far
+  turns: Turn[];
+  // Gzipped GameSnapshot after the last turn. Without it, continuing
+  // replays every turn.
+  snapshot?: Uint8Array;
+  // JPEG data URL of the game view
+  thumbnail?: string;
+}
+
+// Oldest saves are dropped past this
+export const MAX_SAVE_SLOTS = 5;
+// Turns between automatic saves, 5 minutes at normal speed
+export const AUTOSAVE_INTERVAL_TURNS = 3000;
+
+const DB_NAME = "frenzy-saves";
+const DB_VERSION = 1;
+const STORE = "slots";
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => {
+      open.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/** Saved games, most recent first. */
+export async function listSaveSlots(): Promise<SaveSlot[]> {
+  const slots = await withStore<SaveSlot[]>("readonly", (store) =>
+    store.getAll(),
+  );
+  return (slots ?? []).sort((a, b) => b.savedAt - a.savedAt);
+}
+
+export async function loadSaveSlot(id: GameID): Promise<SaveSlot | undefined> {
+  return withStore<SaveSlot>("readonly", (store) => store.get(id));
+}
+
+export async function writeSaveSlot(slot: SaveSlot): Promise<void> {
+  await withStore("readwrite", (store) => {
+    store.put(slot);
+  });
+  const evicted = slotsToEvict(await listSaveSlots(), MAX_SAVE_SLOTS);
+  if (evicted.length > 0) {
+    await withStore("readwrite", (store) => {
+      evicted.forEach((id) => store.delete(id));
+    });
+  }
+}
+
+export async function deleteSaveSlot(id: GameID): Promise<void> {
+  await withStore("readwrite", (store) => {
+    store.delete(id);
+  });
+}
+
+/** Ids of the slots to delete so only the `keep` most recent remain. */
+export function slotsToEvict(slots: SaveSlot[], keep: number): GameID[] {
+  return [...slots]
+    .sort((a, b) => b.savedAt - a.savedAt)
+    .slice(keep)
+    .map((s) => s.id);
+}
@@ -1,6 +1,6 @@
-import { LitElement, html } from "lit";
+import { html, LitElement } from "lit";
 import { customElement, query, state } from "lit/decorators.js";
-import { translateText } from "../client/Utils";
+import { renderDuration, translateText } from "../client/Utils";
 import {
   Difficulty,
   Duos,
@@ -15,7 +15,7 @@ import {
   UnitType,
 } from "../core/game/Game";
 import { UserSettings } from "../core/game/UserSettings";
-import { TeamCountConfig } from "../core/Schemas";
+import { FrenzyOverrides, TeamCountConfig } from "../core/Schemas";
 import { generateID } from "../core/Util";
 import "./components/baseComponents/Button";
 import "./components/baseComponents/Modal";
@@ -23,8 +23,10 @@ import "./components/Difficulties";
 import "./components/Maps";
 import { fetchCosmetics } from "./Cosmetics";
 import { FlagInput } from "./FlagInput";
+import { deleteSaveSlot, listSaveSlots, SaveSlot } from "./SaveSlots";
 import { JoinLobbyEvent } from "./types/JoinLobbyEvent";
 import { UsernameInput } from "./UsernameInput";
+import { renderFrenzyRuleOptions } from "./utilities/RenderFrenzyRuleOptions";
 import { renderUnitTypeOptions } from "./utilities/RenderUnitTypeOptions";
 
 // Singleplayer-specific map categories: Only Frenzy maps for now
@@ -48,6 +50,7 @@ export class SinglePlayerModal extends LitElement {
   @state() private maxTimer: boolean = false;
   @state() private maxTimerValue: number | undefined = undefined;
   @state() private instantBuild: boolean = false;
+  @state() private fogOfWar: boolean = false;
   @state() private randomSpawn: boolean = false;
   @state() private useRandomMap: boolean = false;
   @state() private gameFork: GameFork = GameFork.Frenzy;
@@ -55,6 +58,8 @@ export class SinglePlayerModal extends LitElement {
   @state() private teamCount: TeamCountConfig = 2;
 
   @state() private disabledUnits: UnitType[] = [];
+  @state() private frenzyOverrides: FrenzyOverrides = {};
+  @state() private saveSlots: SaveSlot[] = [];
 
   private userSettings: UserSettings = new UserSettings();
 
@@ -79,6 +84,8 @@ export class SinglePlayerModal extends LitElement {
     return html`
       <o-modal title=${translateText("single_modal.title")}>
         <div class="options-layout">
+          ${this.renderSaveSlots()}
+
           <!-- Map Selection -->
           <div class="options-section">
             <div class="option-title">${translateText("map.map")}</div>
@@ -282,6 +289,22 @@ export class SinglePlayerModal extends LitElement {
                 </div>
               </label>
 
+              <label
+                for="singleplayer-modal-fog-of-war"
+                class="option-card ${this.fogOfWar ? "selected" : ""}"
+              >
+                <div class="checkbox-icon"></div>
+                <input
+                  type="checkbox"
+                  id="singleplayer-modal-fog-of-war"
+                  @change=${this.handleFogOfWarChange}
+                  .checked=${this.fogOfWar}
+                />
+                <div class="option-card-title">
+                  ${translateText("single_modal.fog_of_war")}
+                </div>
+              </label>
+
               <label
                 for="singleplayer-modal-random-spawn"
                 class="option-card ${this.randomSpawn ? "selected" : ""}"
@@ -395,6 +418,14 @@ export class SinglePlayerModal extends LitElement {
                 toggleUnit: this.toggleUnit.bind(this),
               })}
             </div>
+            ${this.gameFork === GameFork.Frenzy
+              ? renderFrenzyRuleOptions({
+                  overrides: this.frenzyOverrides,
+                  setOverrides: (overrides) => {
+                    this.frenzyOverrides = overrides;
+                  },
+                })
+              : ""}
           </div>
         </div>
 
@@ -407,6 +438,57 @@ export class SinglePlayerModal extends LitElement {
     `;
   }
 
+  private renderSaveSlots() {
+    if (this.saveSlots.length === 0) {
+      return "";
+    }
+    return html`
+      <div class="options-section">
+        <div class="option-title">
+          ${translateText("single_modal.continue")}
+        </div>
+        <div class="option-cards">
+          ${this.saveSlots.map((slot) => {
+            const mapKey = Object.keys(GameMapType).find(
+              (key) =>
+                GameMapType[key as keyof typeof GameMapType] ===
+                slot.gameStartInfo.config.gameMap,
+            );
+            return html`
+              <div class="option-card" @click=${() => this.continueGame(slot)}>
+                ${slot.thumbnail
+                  ? html`<img
+                      src=${slot.thumbnail}
+                      class="w-40 rounded"
+                      alt=""
+                    />`
+                  : ""}
+                <div class="option-card-title">
+                  ${translateText("single_modal.saved_game", {
+                    map: translateText(`map.${mapKey?.toLowerCase()}`),
+                    time: renderDuration(Math.floor(slot.playTimeMs / 1000)),
+                  })}
+                </div>
+                <div class="text-xs text-gray-300">
+                  ${new Date(slot.savedAt).toLocaleString()}
+                </div>
+                <button
+                  class="px-2 rounded bg-red-700 hover:bg-red-600 text-xs"
+                  @click=${(e: Event) => {
+                    e.stopPropagation();
+                    this.deleteSlot(slot);
+                  }}
+                >
+                  ${translateText("single_modal.delete_save")}
+                </button>
+              </div>
+            `;
+          })}
+        </div>
+      </div>
+    `;
+  }
+
   createRenderRoot() {
     return this; // light DOM
   }
@@ -414,6 +496,38 @@ export class SinglePlayerModal extends LitElement {
   public open() {
     this.modalEl?.open();
     this.useRandomMap = false;
+    listSaveSlots()
+      .then((slots) => {
+        this.saveSlots = slots;
+      })
+      .catch((error) => {
+        console.warn("Failed to list saved games:", error);
+        this.saveSlots = [];
+      });
+  }
+
+  private deleteSlot(slot: SaveSlot) {
+    this.saveSlots = this.saveSlots.filter((s) => s !== slot);
+    deleteSaveSlot(slot.id).catch((error) =>
+      console.warn("Failed to delete the saved game:", error),
+    );
+  }
+
+  private continueGame(slot: SaveSlot) {
+    this.dispatchEvent(
+      new CustomEvent("join-lobby", {
+        detail: {
+          clientID: slot.gameStartInfo.players[0].clientID,
+          gameID: slot.id,
+          gameStartInfo: slot.gameStartInfo,
+          customMap: slot.customMap,
+          savedGame: slot,
+        } satisfies JoinLobbyEvent,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+    this.close();
   }
 
   public close() {
@@ -445,6 +559,10 @@ export class SinglePlayerModal extends LitElement {
     this.instantBuild = Boolean((e.target as HTMLInputElement).checked);
   }
 
+  private handleFogOfWarChange(e: Event) {
+    this.fogOfWar = Boolean((e.target as HTMLInputElement).checked);
+  }
+
   private handleRandomSpawnChange(e: Event) {
     this.randomSpawn = Boolean((e.target as HTMLInputElement).checked);
   }
@@ -496,7 +614,9 @@ export class SinglePlayerModal extends LitElement {
   }
 
   private getRandomMap(): GameMapType {
-    const maps = Object.values(GameMapType);
+    const maps = Object.values(GameMapType).filter(
+      (map) => map !== GameMapType.Custom,
+    );
     const randIdx = Math.floor(Math.random() * maps.length);
     return maps[randIdx] as GameMapType;
   }
@@ -577,10 +697,15 @@ export class SinglePlayerModal extends LitElement {
               donateTroops: true,
               infiniteTroops: this.infiniteTroops,
               instantBuild: this.instantBuild,
+              fogOfWar: this.fogOfWar,
               randomSpawn: this.randomSpawn,
               disabledUnits: this.disabledUnits
                 .map((u) => Object.values(UnitType).find((ut) => ut === u))
                 .filter((ut): ut is UnitType => ut !== undefined),
+              frenzyOverrides:
+                this.gameFork === GameFork.Frenzy
+                  ? this.frenzyOverrides
+                  : undefined,
               ...(this.gameMode === GameMode.Team &&
               this.teamCount === HumansVsNations
                 ? {
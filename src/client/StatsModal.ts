@@ -5,7 +5,8 @@ import {
   ClanLeaderboardResponseSchema,
 } from "../core/ApiSchemas";
 import { getApiBase } from "./jwt";
-import { translateText } from "./Utils";
+import { FrenzyCareerStats, frenzyCareerStats } from "./LocalPersistantStats";
+import { renderNumber, translateText } from "./Utils";
 
 @customElement("stats-modal")
 export class StatsModal extends LitElement {
@@ -18,6 +19,7 @@ export class StatsModal extends LitElement {
   @state() private isLoading: boolean = false;
   @state() private error: string | null = null;
   @state() private data: ClanLeaderboardResponse | null = null;
+  @state() private career: FrenzyCareerStats | null = null;
 
   private hasLoaded = false;
 
@@ -26,6 +28,7 @@ export class StatsModal extends LitElement {
   }
 
   public open() {
+    this.career = frenzyCareerStats();
     this.modalEl?.open();
     if (!this.hasLoaded && !this.isLoading) {
       void this.loadLeaderboard();
@@ -180,10 +183,59 @@ export class StatsModal extends LitElement {
     `;
   }
 
+  private renderCareer() {
+    const career = this.career;
+    if (career === null) return html``;
+    if (career.games === 0) {
+      return html`
+        <p class="px-4 md:px-6 pt-4 text-sm text-gray-400">
+          ${translateText("stats_modal.frenzy_no_games")}
+        </p>
+      `;
+    }
+    const rows: [string, string][] = [
+      ["frenzy_report.games", renderNumber(career.games)],
+      [
+        "frenzy_report.units",
+        `${renderNumber(career.unitsSpawned)} / ${renderNumber(career.unitsLost)}`,
+      ],
+      [
+        "frenzy_report.damage",
+        `${renderNumber(career.damageDealt)} / ${renderNumber(career.damageTaken)}`,
+      ],
+      [
+        "frenzy_report.structures",
+        `${renderNumber(career.structuresBuilt)} / ${renderNumber(career.structuresUpgraded)} / ${renderNumber(career.structuresSold)} / ${renderNumber(career.structuresCaptured)}`,
+      ],
+      [
+        "frenzy_report.gold",
+        `${renderNumber(career.baseGold)} / ${renderNumber(career.crystalGold)}`,
+      ],
+      ["frenzy_report.peak_tiles", renderNumber(career.bestPeakTiles)],
+    ];
+    return html`
+      <div class="px-4 md:px-6 pt-4 text-gray-200">
+        <h2 class="text-xl font-semibold mb-2">
+          ${translateText("stats_modal.frenzy_career")}
+        </h2>
+        <div class="grid grid-cols-2 md:grid-cols-3 gap-2 text-xs md:text-sm">
+          ${rows.map(
+            ([key, value]) => html`
+              <div class="bg-black/30 p-2 rounded">
+                <div class="text-gray-400 text-xs">${translateText(key)}</div>
+                <div class="font-semibold">${value}</div>
+              </div>
+            `,
+          )}
+        </div>
+      </div>
+    `;
+  }
+
   render() {
     return html`
       <o-modal id="stats-modal" title="${translateText("stats_modal.title")}">
-        ${this.renderBody()}
+        ${this.renderCareer()} ${this.renderBody()}
       </o-modal>
     `;
   }
@@ -1,5 +1,7 @@
 import { z } from "zod";
 import { EventBus, GameEvent } from "../core/EventBus";
+import { FrenzyHashBreakdown } from "../core/game/frenzy/FrenzyHash";
+import { FrenzyUnitOrder } from "../core/game/frenzy/FrenzyTypes";
 import {
   AllPlayers,
   GameType,
@@ -19,13 +21,17 @@ import {
   ClientPingMessage,
   ClientSendWinnerMessage,
   Intent,
+  MAX_ORDER_UNITS,
   ServerMessage,
   ServerMessageSchema,
+  Turn,
   Winner,
 } from "../core/Schemas";
 import { replacer } from "../core/Util";
 import { LobbyConfig } from "./ClientGameRunner";
+import { ReplayStepEvent } from "./InputHandler";
 import { LocalServer } from "./LocalServer";
+import { SaveSlot } from "./SaveSlots";
 
 export class PauseGameEvent implements GameEvent {
   constructor(public readonly paused: boolean) {}
@@ -178,6 +184,22 @@ export class SendSellFrenzyStructureIntentEvent implements GameEvent {
   ) {}
 }
 
+export class SendFrenzyUnitOrderIntentEvent implements GameEvent {
+  constructor(
+    public readonly unitIds: number[],
+    public readonly order: FrenzyUnitOrder,
+    public readonly targetX?: number,
+    public readonly targetY?: number,
+  ) {}
+}
+
+export class SendMapPingIntentEvent implements GameEvent {
+  constructor(
+    public readonly x: number,
+    public readonly y: number,
+  ) {}
+}
+
 export class CancelAttackIntentEvent implements GameEvent {
   constructor(public readonly attackID: string) {}
 }
@@ -196,6 +218,7 @@ export class SendHashEvent implements GameEvent {
   constructor(
     public readonly tick: Tick,
     public readonly hash: number,
+    public readonly frenzyHashes?: FrenzyHashBreakdown,
   ) {}
 }
 
@@ -283,6 +306,7 @@ export class Transport {
     this.eventBus.on(BuildUnitIntentEvent, (e) => this.onBuildUnitIntent(e));
 
     this.eventBus.on(PauseGameEvent, (e) => this.onPauseGameEvent(e));
+    this.eventBus.on(ReplayStepEvent, () => this.onReplayStepEvent());
     this.eventBus.on(SendWinnerEvent, (e) => this.onSendWinnerEvent(e));
     this.eventBus.on(SendHashEvent, (e) => this.onSendHashEvent(e));
     this.eventBus.on(CancelAttackIntentEvent, (e) =>
@@ -332,9 +356,15 @@ export class Transport {
       this.onSendSellFrenzyStructureIntent(e),
     );
 
+    this.eventBus.on(SendFrenzyUnitOrderIntentEvent, (e) =>
+      this.onSendFrenzyUnitOrderIntent(e),
+    );
     this.eventBus.on(SendKickPlayerIntentEvent, (e) =>
       this.onSendKickPlayerIntent(e),
     );
+    this.eventBus.on(SendMapPingIntentEvent, (e) =>
+      this.onSendMapPingIntent(e),
+    );
   }
 
   private startPing() {
@@ -455,6 +485,29 @@ export class Transport {
     }
   }
 
+  public saveSlot(
+    thumbnail?: string,
+    snapshot?: { turn: number; data: Uint8Array },
+  ): SaveSlot | null {
+    if (!this.isLocal) {
+      return null;
+    }
+    return this.localServer.saveSlot(thumbnail, snapshot);
+  }
+
+  public seekReplay(turn: number): { turn: number; missing: Turn[] } {
+    if (!this.isLocal) {
+      throw new Error("cannot seek multiplayer games");
+    }
+    return this.localServer.seek(turn);
+  }
+
+  public replaySeekComplete() {
+    if (this.isLocal) {
+      this.localServer.seekComplete();
+    }
+  }
+
   joinGame(numTurns: number) {
     this.sendMsg({
       type: "join",
@@ -464,6 +517,7 @@ export class Transport {
       token: this.lobbyConfig.token,
       username: this.lobbyConfig.playerName,
       cosmetics: this.lobbyConfig.cosmetics,
+      spectator: this.lobbyConfig.spectator,
     } satisfies ClientJoinMessage);
   }
 
@@ -646,6 +700,14 @@ export class Transport {
     }
   }
 
+  private onReplayStepEvent() {
+    if (!this.isLocal) {
+      console.log(`cannot step multiplayer games`);
+      return;
+    }
+    this.localServer.step();
+  }
+
   private onSendWinnerEvent(event: SendWinnerEvent) {
     if (this.isLocal || this.socket?.readyState === WebSocket.OPEN) {
       this.sendMsg({
@@ -668,6 +730,7 @@ export class Transport {
         type: "hash",
         turnNumber: event.tick,
         hash: event.hash,
+        frenzyHashes: event.frenzyHashes,
       } satisfies ClientHashMessage);
     } else {
       console.log(
@@ -784,6 +847,20 @@ export class Transport {
     });
   }
 
+  private onSendFrenzyUnitOrderIntent(event: SendFrenzyUnitOrderIntentEvent) {
+    // Split huge selections so each intent stays within the schema limit
+    for (let i = 0; i < event.unitIds.length; i += MAX_ORDER_UNITS) {
+      this.sendIntent({
+        type: "frenzy_unit_order",
+        clientID: this.lobbyConfig.clientID,
+        unitIds: event.unitIds.slice(i, i + MAX_ORDER_UNITS),
+        order: event.order,
+        targetX: event.targetX,
+        targetY: event.targetY,
+      });
+    }
+  }
+
   private onSendKickPlayerIntent(event: SendKickPlayerIntentEvent) {
     this.sendIntent({
       type: "kick_player",
@@ -792,6 +869,15 @@ export class Transport {
     });
   }
 
+  private onSendMapPingIntent(event: SendMapPingIntentEvent) {
+    this.sendIntent({
+      type: "map_ping",
+      clientID: this.lobbyConfig.clientID,
+      x: event.x,
+      y: event.y,
+    });
+  }
+
   private sendIntent(intent: Intent) {
     if (this.isLocal || this.socket?.readyState === WebSocket.OPEN) {
       const msg = {
@@ -809,6 +895,14 @@ export class Transport {
   }
 
   private sendMsg(msg: ClientMessage) {
+    // The server ignores spectators' intents, hashes and winner votes
+    if (
+      this.lobbyConfig.spectator &&
+      msg.type !== "join" &&
+      msg.type !== "ping"
+    ) {
+      return;
+    }
     if (this.isLocal) {
       // Forward message to local server
       this.localServer.onMessage(msg);
@@ -605,6 +605,28 @@ export class UserSettingModal extends LitElement {
         @change=${this.handleKeybindChange}
       ></setting-keybind>
 
+      <div class="text-center text-white text-base font-semibold mt-5 mb-2">
+        ${translateText("user_setting.unit_order_controls")}
+      </div>
+
+      <setting-keybind
+        action="holdPosition"
+        label=${translateText("user_setting.hold_position")}
+        description=${translateText("user_setting.hold_position_desc")}
+        defaultKey="KeyH"
+        .value=${this.keybinds["holdPosition"]?.key ?? ""}
+        @change=${this.handleKeybindChange}
+      ></setting-keybind>
+
+      <setting-keybind
+        action="retreatToHQ"
+        label=${translateText("user_setting.retreat_to_hq")}
+        description=${translateText("user_setting.retreat_to_hq_desc")}
+        defaultKey="KeyX"
+        .value=${this.keybinds["retreatToHQ"]?.key ?? ""}
+        @change=${this.handleKeybindChange}
+      ></setting-keybind>
+
       <div class="text-center text-white text-base font-semibold mt-5 mb-2">
         ${translateText("user_setting.attack_ratio_controls")}
       </div>
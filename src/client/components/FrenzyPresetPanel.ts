@@ -0,0 +1,257 @@
+import { html, LitElement } from "lit";
+import { customElement, property, state } from "lit/decorators.js";
+import { FrenzyOverrides } from "../../core/Schemas";
+import {
+  decodeFrenzyPreset,
+  deleteFrenzyPreset,
+  diffFrenzyPreset,
+  encodeFrenzyPreset,
+  FRENZY_PRESET_VERSION,
+  FrenzyPreset,
+  frenzyPresetToJSON,
+  listFrenzyPresets,
+  saveFrenzyPreset,
+} from "../FrenzyPresets";
+import { translateText } from "../Utils";
+
+/**
+ * Saved rule presets for the lobby's Frenzy rules: save, load, share codes,
+ * JSON files and a diff of the current rules against the defaults. Loading a
+ * preset fires `preset-load` with its overrides.
+ */
+@customElement("frenzy-preset-panel")
+export class FrenzyPresetPanel extends LitElement {
+  @property({ attribute: false }) overrides: FrenzyOverrides = {};
+
+  @state() private presets: FrenzyPreset[] = [];
+  @state() private name = "";
+  @state() private importText = "";
+  @state() private message: { text: string; error: boolean } | null = null;
+
+  createRenderRoot() {
+    return this;
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.presets = listFrenzyPresets();
+  }
+
+  private current(): FrenzyPreset {
+    return {
+      version: FRENZY_PRESET_VERSION,
+      name: this.name.trim() || translateText("frenzy_presets.untitled"),
+      overrides: this.overrides,
+    };
+  }
+
+  private load(preset: FrenzyPreset) {
+    this.name = preset.name;
+    this.dispatchEvent(
+      new CustomEvent<FrenzyOverrides>("preset-load", {
+        detail: preset.overrides,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+    this.showMessage(
+      translateText("frenzy_presets.loaded", { name: preset.name }),
+    );
+  }
+
+  private save() {
+    const preset = this.current();
+    saveFrenzyPreset(preset);
+    this.presets = listFrenzyPresets();
+    this.showMessage(
+      translateText("frenzy_presets.saved", { name: preset.name }),
+    );
+  }
+
+  private deletePreset(name: string) {
+    deleteFrenzyPreset(name);
+    this.presets = listFrenzyPresets();
+  }
+
+  private importPreset(text: string) {
+    try {
+      const preset = decodeFrenzyPreset(text);
+      saveFrenzyPreset(preset);
+      this.presets = listFrenzyPresets();
+      this.importText = "";
+      this.load(preset);
+    } catch (error) {
+      this.showMessage((error as Error).message, true);
+    }
+  }
+
+  private async importFile(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = "";
+    if (file === undefined) return;
+    this.importPreset(await file.text());
+  }
+
+  private async copyCode(preset: FrenzyPreset) {
+    try {
+      await navigator.clipboard.writeText(encodeFrenzyPreset(preset));
+      this.showMessage(translateText("frenzy_presets.copied"));
+    } catch (error) {
+      console.warn("Unable to copy preset code", error);
+      this.showMessage(translateText("frenzy_presets.copy_failed"), true);
+    }
+  }
+
+  private download() {
+    const preset = this.current();
+    const url = URL.createObjectURL(
+      new Blob([frenzyPresetToJSON(preset)], { type: "application/json" }),
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${preset.name.replace(/[^a-z0-9_-]+/gi, "_")}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private showMessage(text: string, error = false) {
+    this.message = { text, error };
+  }
+
+  render() {
+    const changes = diffFrenzyPreset(this.overrides);
+    const button =
+      "px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-xs disabled:opacity-40";
+    return html`
+      <div class="flex flex-col gap-3 p-2 text-sm text-gray-200">
+        <div class="flex flex-wrap items-center gap-2">
+          <input
+            class="px-2 py-1 rounded text-black w-40"
+            maxlength="40"
+            placeholder=${translateText("frenzy_presets.name")}
+            .value=${this.name}
+            @input=${(e: Event) =>
+              (this.name = (e.target as HTMLInputElement).value)}
+          />
+          <button type="button" class=${button} @click=${this.save}>
+            ${translateText("frenzy_presets.save")}
+          </button>
+          <button
+            type="button"
+            class=${button}
+            @click=${() => this.copyCode(this.current())}
+          >
+            ${translateText("frenzy_presets.copy_code")}
+          </button>
+          <button type="button" class=${button} @click=${this.download}>
+            ${translateText("frenzy_presets.download")}
+          </button>
+        </div>
+
+        <div class="flex flex-wrap items-center gap-2">
+          <input
+            class="px-2 py-1 rounded text-black flex-1 min-w-[160px]"
+            placeholder=${translateText("frenzy_presets.paste")}
+            .value=${this.importText}
+            @input=${(e: Event) =>
+              (this.importText = (e.target as HTMLInputElement).value)}
+          />
+          <button
+            type="button"
+            class=${button}
+            ?disabled=${this.importText.trim() === ""}
+            @click=${() => this.importPreset(this.importText)}
+          >
+            ${translateText("frenzy_presets.import")}
+          </button>
+          <label class="${button} cursor-pointer">
+            ${translateText("frenzy_presets.import_file")}
+            <input
+              type="file"
+              accept=".json,application/json"
+              class="hidden"
+              @change=${this.importFile}
+            />
+          </label>
+        </div>
+
+        ${this.message === null
+          ? ""
+          : html`<div
+              class=${this.message.error ? "text-red-400" : "text-green-400"}
+            >
+              ${this.message.text}
+            </div>`}
+
+        <div>
+          <div class="font-semibold mb-1">
+            ${translateText("frenzy_presets.library")}
+          </div>
+          ${this.presets.length === 0
+            ? html`<div class="text-gray-400">
+                ${translateText("frenzy_presets.empty")}
+              </div>`
+            : this.presets.map(
+                (preset) => html`
+                  <div class="flex items-center gap-2 py-0.5">
+                    <span class="flex-1 truncate">${preset.name}</span>
+                    <span class="text-gray-400 text-xs">
+                      ${translateText("frenzy_presets.changes", {
+                        count: diffFrenzyPreset(preset.overrides).length,
+                      })}
+                    </span>
+                    <button
+                      type="button"
+                      class=${button}
+                      @click=${() => this.load(preset)}
+                    >
+                      ${translateText("frenzy_presets.load")}
+                    </button>
+                    <button
+                      type="button"
+                      class=${button}
+                      @click=${() => this.copyCode(preset)}
+                    >
+                      ${translateText("frenzy_presets.copy_code")}
+                    </button>
+                    <button
+                      type="button"
+                      class=${button}
+                      @click=${() => this.deletePreset(preset.name)}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                `,
+              )}
+        </div>
+
+        <div>
+          <div class="font-semibold mb-1">
+            ${translateText("frenzy_presets.diff")}
+          </div>
+          ${changes.length === 0
+            ? html`<div class="text-gray-400">
+                ${translateText("frenzy_presets.no_changes")}
+              </div>`
+            : html`<table class="w-full text-xs">
+                ${changes.map(
+                  (change) => html`
+                    <tr>
+                      <td class="pr-2 font-mono">${change.path}</td>
+                      <td class="pr-2 text-right text-gray-400">
+                        ${String(change.defaultValue ?? "–")}
+                      </td>
+                      <td class="text-right text-yellow-300">
+                        ${String(change.value)}
+                      </td>
+                    </tr>
+                  `,
+                )}
+              </table>`}
+        </div>
+      </div>
+    `;
+  }
+}
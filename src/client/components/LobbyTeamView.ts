@@ -250,7 +250,14 @@ export class LobbyTeamView extends LitElement {
 
     const players = this.clients.map(
       (c) =>
-        new PlayerInfo(c.username, PlayerType.Human, c.clientID, c.clientID),
+        new PlayerInfo(
+          c.username,
+          PlayerType.Human,
+          c.clientID,
+          c.clientID,
+          undefined,
+          c.rating,
+        ),
     );
     const assignment = assignTeams(players, teams);
     const buckets = new Map<Team, ClientInfo[]>();
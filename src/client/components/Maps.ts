@@ -40,6 +40,7 @@ export const MapDescription: Record<keyof typeof GameMapType, string> = {
   FourIslands: "Four Islands",
   CircleMap: "Circle Map",
   SquareMap: "Square Map",
+  Custom: "Custom Map",
 };
 
 @customElement("map-display")
@@ -1,10 +1,13 @@
-import { LitElement, css, html } from "lit";
+import { css, html, LitElement } from "lit";
 import { customElement, state } from "lit/decorators.js";
-import {
-  DEFAULT_FRENZY_CONFIG,
-  FrenzyConfig,
-} from "../../core/game/frenzy/FrenzyTypes";
+import { DEFAULT_FRENZY_CONFIG } from "../../core/game/frenzy/FrenzyRegistry";
+import { FrenzyConfig } from "../../core/game/frenzy/FrenzyTypes";
 import { GameFork, GameType } from "../../core/game/Game";
+import {
+  encodeFrenzyPreset,
+  FRENZY_PRESET_VERSION,
+  overridesFromConfig,
+} from "../FrenzyPresets";
 import { JoinLobbyEvent } from "../types/JoinLobbyEvent";
 import { FRENZY_CONFIG_EVENT, FRENZY_RESTART_EVENT } from "./FrenzyDevChannels";
 
@@ -291,6 +294,7 @@ export class FrenzyDevPanel extends LitElement {
   @state() private lastAppliedAt: number | null = null;
   @state() private canRestart = false;
   @state() private lastSavedAt: number | null = null;
+  @state() private lastCopiedAt: number | null = null;
 
   private readonly handleJoinLobby = (event: Event) => {
     if (!DEV_PANEL_ENABLED) return;
@@ -489,6 +493,9 @@ export class FrenzyDevPanel extends LitElement {
                   <button class="reset" @click=${this.resetDefaults}>
                     Reset
                   </button>
+                  <button class="reset" @click=${this.copyPresetCode}>
+                    Copy Preset
+                  </button>
                   <button
                     class="restart"
                     ?disabled=${!this.canRestart}
@@ -497,7 +504,7 @@ export class FrenzyDevPanel extends LitElement {
                     Restart
                   </button>
                 </div>
-                ${this.lastAppliedAt || this.lastSavedAt
+                ${this.lastAppliedAt || this.lastSavedAt || this.lastCopiedAt
                   ? html`<div class="status">
                       ${this.lastAppliedAt
                         ? html`<div>
@@ -509,6 +516,12 @@ export class FrenzyDevPanel extends LitElement {
                             Defaults saved ${timeSince(this.lastSavedAt)} ago
                           </div>`
                         : html``}
+                      ${this.lastCopiedAt
+                        ? html`<div>
+                            Preset code copied ${timeSince(this.lastCopiedAt)}
+                            ago
+                          </div>`
+                        : html``}
                     </div>`
                   : html``}
               </div>
@@ -631,6 +644,21 @@ export class FrenzyDevPanel extends LitElement {
     }
   }
 
+  // Paste into the lobby's Frenzy rules to play these values in multiplayer
+  private async copyPresetCode() {
+    try {
+      const code = encodeFrenzyPreset({
+        version: FRENZY_PRESET_VERSION,
+        name: "Dev panel",
+        overrides: overridesFromConfig(this.config),
+      });
+      await navigator.clipboard.writeText(code);
+      this.lastCopiedAt = Date.now();
+    } catch (error) {
+      console.warn("Unable to copy Frenzy preset code", error);
+    }
+  }
+
   private requestRestart() {
     if (!this.canRestart) {
       return;
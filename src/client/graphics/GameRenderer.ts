@@ -1,4 +1,5 @@
 import { EventBus } from "../../core/EventBus";
+import { GameFork } from "../../core/game/Game";
 import { GameView } from "../../core/game/GameView";
 import { UserSettings } from "../../core/game/UserSettings";
 import { GameStartingModal } from "../GameStartingModal";
@@ -12,7 +13,7 @@ import { ChatModal } from "./layers/ChatModal";
 import { ControlPanel } from "./layers/ControlPanel";
 import { EmojiTable } from "./layers/EmojiTable";
 import { EventsDisplay } from "./layers/EventsDisplay";
-import { FrenzyLayer } from "./layers/frenzy";
+import { FrenzyLayer, UnitSelectionLayer } from "./layers/frenzy";
 import { FxLayer } from "./layers/FxLayer";
 import { GameLeftSidebar } from "./layers/GameLeftSidebar";
 import { GameRightSidebar } from "./layers/GameRightSidebar";
@@ -20,6 +21,7 @@ import { HeadsUpMessage } from "./layers/HeadsUpMessage";
 import { Layer } from "./layers/Layer";
 import { Leaderboard } from "./layers/Leaderboard";
 import { MainRadialMenu } from "./layers/MainRadialMenu";
+import { Minimap } from "./layers/Minimap";
 import { MultiTabModal } from "./layers/MultiTabModal";
 import { NameLayer } from "./layers/NameLayer";
 import { NukeTrajectoryPreviewLayer } from "./layers/NukeTrajectoryPreviewLayer";
@@ -30,7 +32,9 @@ import { RailroadLayer } from "./layers/RailroadLayer";
 import { ReplayPanel } from "./layers/ReplayPanel";
 import { SAMRadiusLayer } from "./layers/SAMRadiusLayer";
 import { SettingsModal } from "./layers/SettingsModal";
+import { SoundLayer } from "./layers/SoundLayer";
 import { SpawnTimer } from "./layers/SpawnTimer";
+import { SpectatorPanel } from "./layers/SpectatorPanel";
 import { StructureLayer } from "./layers/StructureLayer";
 import { TeamStats } from "./layers/TeamStats";
 import { TerrainLayer } from "./layers/TerrainLayer";
@@ -56,6 +60,9 @@ export function createRenderer(
     attackRatio: 20,
     defensiveStance: 1.0,
     ghostStructure: null,
+    unitSelectionEnabled:
+      game.config().gameConfig().gameFork === GameFork.Frenzy,
+    selectedUnitCount: 0,
   } as UIState;
 
   //hide when the game renders
@@ -151,6 +158,23 @@ export function createRenderer(
   replayPanel.eventBus = eventBus;
   replayPanel.game = game;
 
+  const spectatorPanel = document.querySelector(
+    "spectator-panel",
+  ) as SpectatorPanel;
+  if (!(spectatorPanel instanceof SpectatorPanel)) {
+    console.error("spectator panel not found");
+  }
+  spectatorPanel.eventBus = eventBus;
+  spectatorPanel.game = game;
+
+  const minimap = document.querySelector("mini-map") as Minimap;
+  if (!(minimap instanceof Minimap)) {
+    console.error("minimap not found");
+  }
+  minimap.game = game;
+  minimap.eventBus = eventBus;
+  minimap.transformHandler = transformHandler;
+
   const gameRightSidebar = document.querySelector(
     "game-right-sidebar",
   ) as GameRightSidebar;
@@ -254,6 +278,8 @@ export function createRenderer(
     new NukeTrajectoryPreviewLayer(game, eventBus, transformHandler),
     new NameLayer(game, transformHandler, eventBus),
     new FrenzyLayer(game, transformHandler),
+    new UnitSelectionLayer(game, eventBus, transformHandler, uiState),
+    new SoundLayer(game, transformHandler),
     eventsDisplay,
     chatDisplay,
     buildMenu,
@@ -271,10 +297,12 @@ export function createRenderer(
     gameLeftSidebar,
     unitDisplay,
     gameRightSidebar,
+    minimap,
     controlPanel,
     playerInfo,
     winModal,
     replayPanel,
+    spectatorPanel,
     settingsModal,
     teamStats,
     playerPanel,
@@ -432,6 +460,20 @@ export class GameRenderer {
     this.layers.forEach((l) => l.tick?.());
   }
 
+  // The current view scaled down to `width`, as a JPEG data URL
+  thumbnail(width: number = 240): string | undefined {
+    if (this.canvas.width === 0 || this.canvas.height === 0) {
+      return undefined;
+    }
+    const thumb = document.createElement("canvas");
+    thumb.width = width;
+    thumb.height = Math.round((width * this.canvas.height) / this.canvas.width);
+    thumb
+      .getContext("2d")
+      ?.drawImage(this.canvas, 0, 0, thumb.width, thumb.height);
+    return thumb.toDataURL("image/jpeg", 0.7);
+  }
+
   resize(width: number, height: number): void {
     this.canvas.width = Math.ceil(width / window.devicePixelRatio);
     this.canvas.height = Math.ceil(height / window.devicePixelRatio);
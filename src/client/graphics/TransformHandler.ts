@@ -1,7 +1,12 @@
 import { EventBus } from "../../core/EventBus";
 import { Cell } from "../../core/game/Game";
 import { GameView } from "../../core/game/GameView";
-import { CenterCameraEvent, DragEvent, ZoomEvent } from "../InputHandler";
+import {
+  CenterCameraEvent,
+  DragEvent,
+  PanToEvent,
+  ZoomEvent,
+} from "../InputHandler";
 import {
   GoToPlayerEvent,
   GoToPositionEvent,
@@ -31,6 +36,7 @@ export class TransformHandler {
     this._boundingRect = this.canvas.getBoundingClientRect();
     this.eventBus.on(ZoomEvent, (e) => this.onZoom(e));
     this.eventBus.on(DragEvent, (e) => this.onMove(e));
+    this.eventBus.on(PanToEvent, (e) => this.onPanTo(e));
     this.eventBus.on(GoToPlayerEvent, (e) => this.onGoToPlayer(e));
     this.eventBus.on(GoToPositionEvent, (e) => this.onGoToPosition(e));
     this.eventBus.on(GoToUnitEvent, (e) => this.onGoToUnit(e));
@@ -296,6 +302,22 @@ export class TransformHandler {
     this.changed = true;
   }
 
+  onPanTo(event: PanToEvent) {
+    this.clearTarget();
+    // Inverse of screenCenter()
+    const canvasRect = this.boundingRect();
+    this.offsetX =
+      event.x -
+      this.game.width() / 2 -
+      (canvasRect.width - this.game.width()) / (2 * this.scale);
+    this.offsetY =
+      event.y -
+      this.game.height() / 2 -
+      (canvasRect.height - this.game.height()) / (2 * this.scale);
+    this.clampOffsets();
+    this.changed = true;
+  }
+
   private clearTarget() {
     if (this.intervalID !== null) {
       clearInterval(this.intervalID);
@@ -10,4 +10,8 @@ export interface UIState {
   attackRatio: number;
   defensiveStance: DefensiveStance;
   ghostStructure: UnitType | null;
+  // Frenzy: shift-drag box selects units instead of panning
+  unitSelectionEnabled?: boolean;
+  // Frenzy: while units are selected, right-click orders them
+  selectedUnitCount?: number;
 }
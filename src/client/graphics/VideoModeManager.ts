@@ -30,6 +30,8 @@ export class VideoModeManager {
     "game-right-sidebar",
     "player-info-overlay",
     "replay-panel",
+    "spectator-panel",
+    "mini-map",
     "team-stats",
     "heads-up-message",
     "performance-overlay",
@@ -1,21 +1,13 @@
 import { LitElement, css, html } from "lit";
 import { customElement, state } from "lit/decorators.js";
-import airportIcon from "../../../../resources/images/AirportIconWhite.svg";
-import artilleryIcon from "../../../../resources/images/ArtilleryIconWhite.svg";
 import goldCoinIcon from "../../../../resources/images/GoldCoinIcon.svg";
-import harborIcon from "../../../../resources/images/HarborIconWhite.svg";
-import mineIcon from "../../../../resources/images/MineIconWhite.svg";
 import mirvIcon from "../../../../resources/images/MIRVIcon.svg";
-import missileSiloIcon from "../../../../resources/images/MissileSiloIconWhite.svg";
 import hydrogenBombIcon from "../../../../resources/images/MushroomCloudIconWhite.svg";
 import atomBombIcon from "../../../../resources/images/NukeIconWhite.svg";
-import samlauncherIcon from "../../../../resources/images/SamLauncherIconWhite.svg";
-import shieldGeneratorIcon from "../../../../resources/images/ShieldGeneratorIconWhite.svg";
-import shieldIcon from "../../../../resources/images/ShieldIconWhite.svg";
 import shipIcon from "../../../../resources/images/ShipIconWhite.svg";
-import unitFactoryIcon from "../../../../resources/images/UnitFactoryIconWhite.svg";
 import { translateText } from "../../../client/Utils";
 import { EventBus } from "../../../core/EventBus";
+import { frenzyBuildMenuEntries } from "../../../core/game/frenzy/FrenzyRegistry";
 import {
   BuildableUnit,
   Gold,
@@ -76,70 +68,14 @@ export const buildTable: BuildItemDisplay[][] = [
       key: "unit_type.warship",
       countable: true,
     },
-    {
-      unitType: UnitType.Port,
-      icon: harborIcon,
-      description: "build_menu.desc.port",
-      key: "unit_type.port",
-      countable: true,
-    },
-    {
-      unitType: UnitType.MissileSilo,
-      icon: missileSiloIcon,
-      description: "build_menu.desc.missile_silo",
-      key: "unit_type.missile_silo",
-      countable: true,
-    },
-    // needs new icon
-    {
-      unitType: UnitType.SAMLauncher,
-      icon: samlauncherIcon,
-      description: "build_menu.desc.sam_launcher",
-      key: "unit_type.sam_launcher",
-      countable: true,
-    },
-    {
-      unitType: UnitType.DefensePost,
-      icon: shieldIcon,
-      description: "build_menu.desc.defense_post",
-      key: "unit_type.defense_post",
-      countable: true,
-    },
-    {
-      unitType: UnitType.ShieldGenerator,
-      icon: shieldGeneratorIcon,
-      description: "build_menu.desc.shield_generator",
-      key: "unit_type.shield_generator",
+    // Frenzy buildings and towers, in the order they are declared
+    ...frenzyBuildMenuEntries().map((entry) => ({
+      unitType: entry.unitType,
+      icon: entry.icon,
+      description: entry.descriptionKey,
+      key: entry.nameKey,
       countable: true,
-    },
-    {
-      unitType: UnitType.Artillery,
-      icon: artilleryIcon,
-      description: "build_menu.desc.artillery",
-      key: "unit_type.artillery",
-      countable: true,
-    },
-    {
-      unitType: UnitType.City,
-      icon: mineIcon,
-      description: "build_menu.desc.city",
-      key: "unit_type.city",
-      countable: true,
-    },
-    {
-      unitType: UnitType.Factory,
-      icon: unitFactoryIcon,
-      description: "build_menu.desc.factory",
-      key: "unit_type.factory",
-      countable: true,
-    },
-    {
-      unitType: UnitType.Airport,
-      icon: airportIcon,
-      description: "build_menu.desc.airport",
-      key: "unit_type.airport",
-      countable: true,
-    },
+    })),
   ],
 ];
 
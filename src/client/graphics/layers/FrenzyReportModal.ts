@@ -0,0 +1,197 @@
+import { LitElement, TemplateResult, html } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import {
+  renderDuration,
+  renderNumber,
+  translateText,
+} from "../../../client/Utils";
+import { FrenzyStats, FrenzyStatsSample } from "../../../core/StatsSchemas";
+import { aggregateFrenzyStats } from "../../LocalPersistantStats";
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 100;
+
+// Column of a timeline sample plotted by each chart
+const TILES_COLUMN = 1;
+const GOLD_COLUMN = 2;
+const UNITS_COLUMN = 3;
+
+/**
+ * Polyline points for one timeline column, scaled so the match fills the
+ * chart horizontally and the column's peak touches the top.
+ */
+export function chartPoints(
+  timeline: FrenzyStatsSample[],
+  column: number,
+  width: number,
+  height: number,
+): string {
+  if (timeline.length === 0) return "";
+  const firstTick = timeline[0][0];
+  const span = Math.max(1, timeline[timeline.length - 1][0] - firstTick);
+  const max = Math.max(1, ...timeline.map((sample) => sample[column]));
+  return timeline
+    .map((sample) => {
+      const x = ((sample[0] - firstTick) / span) * width;
+      const y = height - (sample[column] / max) * height;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+}
+
+/**
+ * Post-game report of the local player's Frenzy stats, opened from the win
+ * modal once the match is decided.
+ */
+@customElement("frenzy-report-modal")
+export class FrenzyReportModal extends LitElement {
+  @state()
+  private stats: FrenzyStats | null = null;
+
+  private msPerTick = 100;
+
+  createRenderRoot() {
+    return this;
+  }
+
+  open(stats: FrenzyStats, msPerTick: number) {
+    this.stats = stats;
+    this.msPerTick = msPerTick;
+  }
+
+  close() {
+    this.stats = null;
+  }
+
+  render() {
+    if (this.stats === null) {
+      return html``;
+    }
+    const totals = aggregateFrenzyStats([this.stats]);
+    const timeline = this.stats.timeline ?? [];
+    const duration =
+      timeline.length > 0
+        ? Math.round(
+            ((timeline[timeline.length - 1][0] - timeline[0][0]) *
+              this.msPerTick) /
+              1000,
+          )
+        : 0;
+
+    return html`
+      <div
+        class="fixed inset-0 z-[10000] flex items-center justify-center bg-black/60"
+        @click=${(e: MouseEvent) => {
+          if (e.target === e.currentTarget) this.close();
+        }}
+      >
+        <div
+          class="bg-gray-900/95 text-white p-6 rounded-lg shadow-2xl w-[350px] max-w-[95%] md:w-[760px] max-h-[90vh] overflow-y-auto"
+        >
+          <div class="flex items-center justify-between mb-4">
+            <h2 class="m-0 text-2xl">
+              ${translateText("frenzy_report.title")}
+            </h2>
+            <button
+              class="px-3 py-1 rounded bg-white/10 hover:bg-white/20"
+              @click=${() => this.close()}
+            >
+              ✕
+            </button>
+          </div>
+          <div class="grid grid-cols-2 md:grid-cols-4 gap-2 mb-6 text-sm">
+            ${this.renderStat(
+              "frenzy_report.units",
+              `${renderNumber(totals.unitsSpawned)} / ${renderNumber(totals.unitsLost)}`,
+            )}
+            ${this.renderStat(
+              "frenzy_report.damage",
+              `${renderNumber(totals.damageDealt)} / ${renderNumber(totals.damageTaken)}`,
+            )}
+            ${this.renderStat(
+              "frenzy_report.structures",
+              `${renderNumber(totals.structuresBuilt)} / ${renderNumber(totals.structuresUpgraded)} / ${renderNumber(totals.structuresSold)} / ${renderNumber(totals.structuresCaptured)}`,
+            )}
+            ${this.renderStat(
+              "frenzy_report.gold",
+              `${renderNumber(totals.baseGold)} / ${renderNumber(totals.crystalGold)}`,
+            )}
+            ${this.renderStat(
+              "frenzy_report.peak_tiles",
+              renderNumber(totals.bestPeakTiles),
+            )}
+            ${this.renderStat(
+              "frenzy_report.duration",
+              renderDuration(duration),
+            )}
+          </div>
+          ${timeline.length < 2
+            ? html`<p class="text-center text-gray-400">
+                ${translateText("frenzy_report.no_timeline")}
+              </p>`
+            : html`
+                <div class="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  ${this.renderChart(
+                    "frenzy_report.territory",
+                    timeline,
+                    TILES_COLUMN,
+                    "#4ade80",
+                  )}
+                  ${this.renderChart(
+                    "frenzy_report.gold_over_time",
+                    timeline,
+                    GOLD_COLUMN,
+                    "#facc15",
+                  )}
+                  ${this.renderChart(
+                    "frenzy_report.army",
+                    timeline,
+                    UNITS_COLUMN,
+                    "#60a5fa",
+                  )}
+                </div>
+              `}
+        </div>
+      </div>
+    `;
+  }
+
+  private renderStat(labelKey: string, value: string): TemplateResult {
+    return html`
+      <div class="bg-black/30 p-2 rounded">
+        <div class="text-gray-400 text-xs">${translateText(labelKey)}</div>
+        <div class="font-semibold">${value}</div>
+      </div>
+    `;
+  }
+
+  private renderChart(
+    labelKey: string,
+    timeline: FrenzyStatsSample[],
+    column: number,
+    color: string,
+  ): TemplateResult {
+    const peak = Math.max(...timeline.map((sample) => sample[column]));
+    return html`
+      <div class="bg-black/30 p-2 rounded">
+        <div class="flex justify-between text-xs text-gray-400 mb-1">
+          <span>${translateText(labelKey)}</span>
+          <span>${renderNumber(peak)}</span>
+        </div>
+        <svg
+          viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}"
+          preserveAspectRatio="none"
+          class="w-full h-24"
+        >
+          <polyline
+            fill="none"
+            stroke=${color}
+            stroke-width="2"
+            vector-effect="non-scaling-stroke"
+            points=${chartPoints(timeline, column, CHART_WIDTH, CHART_HEIGHT)}
+          />
+        </svg>
+      </div>
+    `;
+  }
+}
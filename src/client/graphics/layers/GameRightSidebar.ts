@@ -36,7 +36,8 @@ export class GameRightSidebar extends LitElement implements Layer {
   @state()
   private timer: number = 0;
 
-  private hasWinner = false;
+  // Tick of the win; the timer freezes there but runs again after seeking back
+  private winnerTick: number | null = null;
 
   createRenderRoot() {
     return this;
@@ -48,28 +49,35 @@ export class GameRightSidebar extends LitElement implements Layer {
       this.game.config().isReplay();
     this._isVisible = true;
     this.game.inSpawnPhase();
+    // The settings modal and replay panel pause too
+    this.eventBus.on(PauseGameEvent, (event) => {
+      this.isPaused = event.paused;
+    });
     this.requestUpdate();
   }
 
   tick() {
-    // Timer logic
+    // Timer logic, derived from the tick so replay seeks stay in sync
+    const ticks = this.game.ticks();
     const updates = this.game.updatesSinceLastTick();
-    if (updates) {
-      this.hasWinner = this.hasWinner || updates[GameUpdateType.Win].length > 0;
+    if (updates && updates[GameUpdateType.Win].length > 0) {
+      this.winnerTick ??= ticks;
     }
+    if (this.winnerTick !== null && ticks < this.winnerTick) {
+      this.winnerTick = null;
+    }
+    const elapsed = Math.max(
+      0,
+      Math.floor(
+        ((this.winnerTick ?? ticks) - this.game.config().numSpawnPhaseTurns()) /
+          10,
+      ),
+    );
     const maxTimerValue = this.game.config().gameConfig().maxTimerValue;
     if (maxTimerValue !== undefined) {
-      if (this.game.inSpawnPhase()) {
-        this.timer = maxTimerValue * 60;
-      } else if (!this.hasWinner && this.game.ticks() % 10 === 0) {
-        this.timer = Math.max(0, this.timer - 1);
-      }
+      this.timer = Math.max(0, maxTimerValue * 60 - elapsed);
     } else {
-      if (this.game.inSpawnPhase()) {
-        this.timer = 0;
-      } else if (!this.hasWinner && this.game.ticks() % 10 === 0) {
-        this.timer++;
-      }
+      this.timer = elapsed;
     }
   }
 
@@ -91,8 +99,7 @@ export class GameRightSidebar extends LitElement implements Layer {
   }
 
   private onPauseButtonClick() {
-    this.isPaused = !this.isPaused;
-    this.eventBus.emit(new PauseGameEvent(this.isPaused));
+    this.eventBus.emit(new PauseGameEvent(!this.isPaused));
   }
 
   private onExitButtonClick() {
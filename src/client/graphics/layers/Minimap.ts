@@ -0,0 +1,369 @@
+import { html, LitElement } from "lit";
+import { customElement, query, state } from "lit/decorators.js";
+import { Theme } from "../../../core/configuration/Config";
+import { EventBus } from "../../../core/EventBus";
+import { FrenzyStructureType } from "../../../core/game/frenzy/FrenzyTypes";
+import { PlayerID } from "../../../core/game/Game";
+import { GameUpdateType } from "../../../core/game/GameUpdates";
+import { GameView, PlayerView } from "../../../core/game/GameView";
+import { PanToEvent } from "../../InputHandler";
+import { SendMapPingIntentEvent } from "../../Transport";
+import { translateText } from "../../Utils";
+import { isMobileDevice } from "../MobileOptimizations";
+import { TransformHandler } from "../TransformHandler";
+import { Layer } from "./Layer";
+import {
+  BattleHotspots,
+  MapPings,
+  minimapScale,
+  PING_DURATION_TICKS,
+  viewportRect,
+} from "./MinimapModel";
+
+// Size of the minimap in CSS pixels; the map keeps its aspect ratio inside
+const MAX_WIDTH = 240;
+const MAX_HEIGHT = 160;
+// Territory changes slowly at this size, so it is sampled every second
+const OWNERSHIP_REFRESH_TICKS = 10;
+// Opacity of territory over terrain, matching the main map's look
+const TERRITORY_ALPHA = 0.7;
+// Brightness kept under the fog of war
+const FOG_BRIGHTNESS = 0.55;
+
+/**
+ * Overview of the whole map: terrain, territory, HQs, battles and pings of
+ * the viewer's side, with the main view drawn as a rectangle. Clicking or
+ * dragging moves the main view there.
+ */
+@customElement("mini-map")
+export class Minimap extends LitElement implements Layer {
+  public game: GameView | undefined;
+  public eventBus: EventBus | undefined;
+  public transformHandler: TransformHandler | undefined;
+
+  @state()
+  private collapsed = isMobileDevice();
+
+  // Touch screens have no right click, so the next tap pings instead
+  @state()
+  private pingMode = false;
+
+  @query("canvas")
+  private canvas!: HTMLCanvasElement | null;
+
+  private scale = 1;
+  private width = 0;
+  private height = 0;
+  private theme: Theme | null = null;
+  private terrain: ImageData | null = null;
+  // Terrain with territory and fog, redrawn every OWNERSHIP_REFRESH_TICKS
+  private base: HTMLCanvasElement | null = null;
+  private hotspots: BattleHotspots | null = null;
+  private pings = new MapPings();
+  private dragging = false;
+  private dirty = true;
+
+  createRenderRoot() {
+    return this; // Enable Tailwind CSS
+  }
+
+  init() {
+    const game = this.game!;
+    this.scale = minimapScale(
+      game.width(),
+      game.height(),
+      MAX_WIDTH,
+      MAX_HEIGHT,
+    );
+    this.width = Math.max(1, Math.round(game.width() * this.scale));
+    this.height = Math.max(1, Math.round(game.height() * this.scale));
+    this.hotspots = new BattleHotspots(game.width(), game.height());
+    this.base = document.createElement("canvas");
+    this.base.width = this.width;
+    this.base.height = this.height;
+    this.drawTerrain();
+    this.drawBase();
+    this.requestUpdate();
+  }
+
+  tick() {
+    const game = this.game!;
+    const me = game.myPlayer();
+    for (const ping of game.updatesSinceLastTick()?.[GameUpdateType.MapPing] ??
+      []) {
+      if (me !== null && this.isOwnSide(me, ping.playerID)) {
+        this.pings.add({ ...ping, tick: game.ticks() });
+      }
+    }
+
+    const frenzy = game.frenzyManager();
+    if (frenzy !== null) {
+      const vision = game.fogOfWar();
+      this.hotspots?.update(
+        vision
+          ? frenzy.projectiles.filter((p) => vision.canSee(p))
+          : frenzy.projectiles,
+      );
+    }
+
+    if (game.config().theme() !== this.theme) {
+      this.drawTerrain();
+      this.drawBase();
+    } else if (game.ticks() % OWNERSHIP_REFRESH_TICKS === 0) {
+      this.drawBase();
+    }
+    this.dirty = true;
+  }
+
+  renderLayer(_ctx: CanvasRenderingContext2D) {
+    if (this.collapsed || this.canvas === null || this.base === null) return;
+    // Pings animate, so they need every frame
+    const animating = this.pings.active(this.game!.ticks()).length > 0;
+    if (!this.dirty && !animating && !this.transformHandler!.hasChanged()) {
+      return;
+    }
+    this.dirty = false;
+    this.draw(this.canvas.getContext("2d")!);
+  }
+
+  shouldTransform() {
+    return false;
+  }
+
+  private isOwnSide(me: PlayerView, playerID: PlayerID): boolean {
+    if (me.id() === playerID) return true;
+    const game = this.game!;
+    return game.hasPlayer(playerID) && me.isFriendly(game.player(playerID));
+  }
+
+  /** Samples the low resolution terrain once per theme. */
+  private drawTerrain() {
+    const game = this.game!;
+    const mini = game.overviewMap();
+    this.theme = game.config().theme();
+    this.terrain = new ImageData(this.width, this.height);
+    const data = this.terrain.data;
+    for (let y = 0; y < this.height; y++) {
+      const my = Math.min(
+        mini.height() - 1,
+        Math.floor(((y + 0.5) / this.height) * mini.height()),
+      );
+      for (let x = 0; x < this.width; x++) {
+        const mx = Math.min(
+          mini.width() - 1,
+          Math.floor(((x + 0.5) / this.width) * mini.width()),
+        );
+        const color = this.theme.terrainColor(mini, mini.ref(mx, my)).rgba;
+        const offset = (y * this.width + x) * 4;
+        data[offset] = color.r;
+        data[offset + 1] = color.g;
+        data[offset + 2] = color.b;
+        data[offset + 3] = 255;
+      }
+    }
+  }
+
+  /** Territory over terrain, darkened where the fog of war hides it. */
+  private drawBase() {
+    if (this.terrain === null || this.base === null) return;
+    const game = this.game!;
+    const vision = game.fogOfWar();
+    const image = new ImageData(
+      new Uint8ClampedArray(this.terrain.data),
+      this.width,
+      this.height,
+    );
+    const data = image.data;
+    const colors = new Map<number, { r: number; g: number; b: number }>();
+    for (let y = 0; y < this.height; y++) {
+      const wy = Math.min(
+        game.height() - 1,
+        Math.floor((y + 0.5) / this.scale),
+      );
+      for (let x = 0; x < this.width; x++) {
+        const wx = Math.min(
+          game.width() - 1,
+          Math.floor((x + 0.5) / this.scale),
+        );
+        const offset = (y * this.width + x) * 4;
+        const owner = game.ownerID(game.ref(wx, wy));
+        if (owner !== 0) {
+          let color = colors.get(owner);
+          if (color === undefined) {
+            // Non-zero small IDs are always players
+            const player = game.playerBySmallID(owner) as PlayerView;
+            color = player.territoryColor().rgba;
+            colors.set(owner, color);
+          }
+          data[offset] += (color.r - data[offset]) * TERRITORY_ALPHA;
+          data[offset + 1] += (color.g - data[offset + 1]) * TERRITORY_ALPHA;
+          data[offset + 2] += (color.b - data[offset + 2]) * TERRITORY_ALPHA;
+        }
+        if (vision !== null && !vision.isVisible(wx, wy)) {
+          data[offset] *= FOG_BRIGHTNESS;
+          data[offset + 1] *= FOG_BRIGHTNESS;
+          data[offset + 2] *= FOG_BRIGHTNESS;
+        }
+      }
+    }
+    this.base.getContext("2d")!.putImageData(image, 0, 0);
+    this.dirty = true;
+  }
+
+  private draw(ctx: CanvasRenderingContext2D) {
+    const game = this.game!;
+    const scale = this.scale;
+    ctx.clearRect(0, 0, this.width, this.height);
+    ctx.drawImage(this.base!, 0, 0);
+
+    for (const spot of this.hotspots?.hotspots() ?? []) {
+      ctx.fillStyle = `rgba(255, 72, 32, ${0.3 + 0.5 * spot.intensity})`;
+      ctx.beginPath();
+      ctx.arc(
+        spot.x * scale,
+        spot.y * scale,
+        3 + 4 * spot.intensity,
+        0,
+        Math.PI * 2,
+      );
+      ctx.fill();
+    }
+
+    const frenzy = game.frenzyManager();
+    const vision = game.fogOfWar();
+    for (const s of frenzy?.structures ?? []) {
+      const hq = s.type === FrenzyStructureType.HQ;
+      if (!hq && s.type !== FrenzyStructureType.MiniHQ) continue;
+      if (vision && !vision.canSee(s)) continue;
+      if (!game.hasPlayer(s.playerId)) continue;
+      const size = hq ? 6 : 4;
+      ctx.fillStyle = game.player(s.playerId).territoryColor().toHex();
+      ctx.strokeStyle = hq ? "#ffffff" : "#1f2937";
+      ctx.lineWidth = 1;
+      ctx.fillRect(s.x * scale - size / 2, s.y * scale - size / 2, size, size);
+      ctx.strokeRect(
+        s.x * scale - size / 2,
+        s.y * scale - size / 2,
+        size,
+        size,
+      );
+    }
+
+    const tick = game.ticks();
+    const pulse = (performance.now() % 1000) / 1000;
+    ctx.lineWidth = 1.5;
+    for (const ping of this.pings.active(tick)) {
+      const fade = 1 - (tick - ping.tick) / PING_DURATION_TICKS;
+      ctx.strokeStyle = `rgba(250, 204, 21, ${fade})`;
+      ctx.beginPath();
+      ctx.arc(ping.x * scale, ping.y * scale, 3 + pulse * 7, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    const view = viewportRect(
+      this.transformHandler!.screenBoundingRect(),
+      scale,
+      this.width,
+      this.height,
+    );
+    ctx.strokeStyle = "#ffffff";
+    ctx.lineWidth = 1;
+    ctx.strokeRect(view.x + 0.5, view.y + 0.5, view.width, view.height);
+  }
+
+  // Map position under the pointer
+  private toMap(e: PointerEvent): { x: number; y: number } {
+    const rect = this.canvas!.getBoundingClientRect();
+    return {
+      x: (((e.clientX - rect.left) / rect.width) * this.width) / this.scale,
+      y: (((e.clientY - rect.top) / rect.height) * this.height) / this.scale,
+    };
+  }
+
+  private onPointerDown(e: PointerEvent) {
+    if (e.button === 2 || e.altKey || this.pingMode) {
+      this.pingMode = false;
+      this.ping(e);
+      return;
+    }
+    if (e.button !== 0) return;
+    this.dragging = true;
+    this.canvas!.setPointerCapture(e.pointerId);
+    this.panTo(e);
+  }
+
+  private onPointerMove(e: PointerEvent) {
+    if (this.dragging) this.panTo(e);
+  }
+
+  private onPointerUp() {
+    this.dragging = false;
+  }
+
+  private panTo(e: PointerEvent) {
+    const { x, y } = this.toMap(e);
+    this.eventBus?.emit(new PanToEvent(x, y));
+  }
+
+  private ping(e: PointerEvent) {
+    const me = this.game?.myPlayer();
+    if (!me?.isAlive()) return;
+    const { x, y } = this.toMap(e);
+    this.eventBus?.emit(
+      new SendMapPingIntentEvent(Math.floor(x), Math.floor(y)),
+    );
+  }
+
+  private toggleCollapsed() {
+    this.collapsed = !this.collapsed;
+    this.pingMode = false;
+    this.dirty = true;
+  }
+
+  render() {
+    if (this.base === null) return html``;
+    const button =
+      "w-7 h-7 flex items-center justify-center rounded bg-gray-800/80 hover:bg-gray-700";
+    return html`
+      <div
+        class="flex flex-col items-end gap-1 p-1 rounded-lg bg-gray-900/70 backdrop-blur-md text-white text-xs"
+        @contextmenu=${(e: Event) => e.preventDefault()}
+      >
+        <div class="flex gap-1">
+          ${this.collapsed
+            ? html``
+            : html`<button
+                class="${button} ${this.pingMode
+                  ? "ring-2 ring-yellow-400"
+                  : ""}"
+                title=${translateText("minimap.ping_hint")}
+                @click=${() => (this.pingMode = !this.pingMode)}
+              >
+                📍
+              </button>`}
+          <button
+            class=${button}
+            title=${translateText(
+              this.collapsed ? "minimap.show" : "minimap.hide",
+            )}
+            @click=${this.toggleCollapsed}
+          >
+            🗺️
+          </button>
+        </div>
+        <canvas
+          class="${this.collapsed
+            ? "hidden"
+            : "block"} rounded cursor-pointer touch-none"
+          width=${this.width}
+          height=${this.height}
+          style="width: ${this.width}px; height: ${this.height}px"
+          @pointerdown=${this.onPointerDown}
+          @pointermove=${this.onPointerMove}
+          @pointerup=${this.onPointerUp}
+          @pointercancel=${this.onPointerUp}
+        ></canvas>
+      </div>
+    `;
+  }
+}
@@ -0,0 +1,135 @@
+import { Cell, PlayerID } from "../../../core/game/Game";
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+export interface MinimapRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Minimap pixels per map tile that fit the map into the box. */
+export function minimapScale(
+  mapWidth: number,
+  mapHeight: number,
+  maxWidth: number,
+  maxHeight: number,
+): number {
+  return Math.min(maxWidth / mapWidth, maxHeight / mapHeight);
+}
+
+/**
+ * The main view's bounding rect in minimap pixels, clipped to the minimap
+ * since the view may extend past the map edges.
+ */
+export function viewportRect(
+  [topLeft, bottomRight]: [Cell, Cell],
+  scale: number,
+  width: number,
+  height: number,
+): MinimapRect {
+  const x = Math.max(0, topLeft.x * scale);
+  const y = Math.max(0, topLeft.y * scale);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(width, bottomRight.x * scale) - x),
+    height: Math.max(0, Math.min(height, bottomRight.y * scale) - y),
+  };
+}
+
+// Tiles per side of a hotspot cell
+export const HOTSPOT_CELL_SIZE = 48;
+// Heat kept per tick; at 10 ticks per second a fight fades in a few seconds
+const HOTSPOT_DECAY = 0.9;
+// Below this a cell is not shown; a handful of shots is not a battle
+const HOTSPOT_MIN_HEAT = 6;
+// Heat at which a hotspot is drawn at full strength
+const HOTSPOT_FULL_HEAT = 60;
+const MAX_HOTSPOTS = 12;
+
+export interface Hotspot extends MapPoint {
+  // 0 to 1
+  intensity: number;
+}
+
+/**
+ * Where the fighting is: projectiles in flight, counted in a coarse grid
+ * whose heat decays every tick.
+ */
+export class BattleHotspots {
+  private readonly cols: number;
+  private readonly rows: number;
+  private readonly heat: Float32Array;
+
+  constructor(
+    mapWidth: number,
+    mapHeight: number,
+    private readonly cellSize: number = HOTSPOT_CELL_SIZE,
+  ) {
+    this.cols = Math.ceil(mapWidth / cellSize);
+    this.rows = Math.ceil(mapHeight / cellSize);
+    this.heat = new Float32Array(this.cols * this.rows);
+  }
+
+  /** Cools every cell down, then adds this tick's projectiles. */
+  update(projectiles: Iterable<MapPoint>): void {
+    for (let i = 0; i < this.heat.length; i++) {
+      this.heat[i] *= HOTSPOT_DECAY;
+    }
+    for (const p of projectiles) {
+      const col = Math.floor(p.x / this.cellSize);
+      const row = Math.floor(p.y / this.cellSize);
+      if (col >= 0 && row >= 0 && col < this.cols && row < this.rows) {
+        this.heat[row * this.cols + col]++;
+      }
+    }
+  }
+
+  /** Centers of the hottest cells, hottest first. */
+  hotspots(): Hotspot[] {
+    const hot: Hotspot[] = [];
+    for (let i = 0; i < this.heat.length; i++) {
+      if (this.heat[i] < HOTSPOT_MIN_HEAT) continue;
+      hot.push({
+        x: ((i % this.cols) + 0.5) * this.cellSize,
+        y: (Math.floor(i / this.cols) + 0.5) * this.cellSize,
+        intensity: Math.min(1, this.heat[i] / HOTSPOT_FULL_HEAT),
+      });
+    }
+    return hot.sort((a, b) => b.intensity - a.intensity).slice(0, MAX_HOTSPOTS);
+  }
+}
+
+// How long a ping stays on the minimap, in ticks
+export const PING_DURATION_TICKS = 60;
+// Older pings of a player are dropped past this
+const MAX_PINGS_PER_PLAYER = 3;
+
+export interface MapPing extends MapPoint {
+  playerID: PlayerID;
+  tick: number;
+}
+
+/** Recent pings of the viewer's side. */
+export class MapPings {
+  private pings: MapPing[] = [];
+
+  add(ping: MapPing): void {
+    this.pings.push(ping);
+    const own = this.pings.filter((p) => p.playerID === ping.playerID);
+    if (own.length > MAX_PINGS_PER_PLAYER) {
+      this.pings.splice(this.pings.indexOf(own[0]), 1);
+    }
+  }
+
+  /** Pings that have not expired at `tick`, oldest first. */
+  active(tick: number): MapPing[] {
+    this.pings = this.pings.filter((p) => tick - p.tick < PING_DURATION_TICKS);
+    return this.pings;
+  }
+}
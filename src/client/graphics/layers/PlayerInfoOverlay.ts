@@ -144,6 +144,7 @@ export class PlayerInfoOverlay extends LitElement implements Layer {
       const units = this.game
         .units(UnitType.Warship, UnitType.TradeShip, UnitType.TransportShip)
         .filter((u) => euclideanDistWorld(worldCoord, u.tile(), this.game) < 50)
+        .filter((u) => this.canSeeUnit(u))
         .sort(distSortUnitWorld(worldCoord, this.game));
 
       if (units.length > 0) {
@@ -153,6 +154,16 @@ export class PlayerInfoOverlay extends LitElement implements Layer {
     }
   }
 
+  // Under fog of war, enemy ships out of sight cannot be inspected
+  private canSeeUnit(unit: UnitView): boolean {
+    const fog = this.game.fogOfWar();
+    return (
+      fog === null ||
+      fog.isFriendly(unit.owner().id()) ||
+      fog.isVisible(this.game.x(unit.tile()), this.game.y(unit.tile()))
+    );
+  }
+
   tick() {
     this.requestUpdate();
   }
@@ -273,15 +284,19 @@ export class PlayerInfoOverlay extends LitElement implements Layer {
     const isFrenzy =
       this.game.config().gameConfig().gameFork === GameFork.Frenzy;
     const frenzy = isFrenzy ? this.game.frenzyManager() : null;
+    // Under fog of war, enemies only show what is in sight
+    const fog = this.game.fogOfWar();
+    const fogged = fog !== null && !fog.isFriendly(player.id());
     let unitCount: number;
     let shipCount: number = 0;
     if (isFrenzy && frenzy) {
-      unitCount = frenzy.units.filter(
-        (u) => u.playerId === player.id() && u.unitType !== "defensePost" && u.unitType !== "warship",
-      ).length;
-      shipCount = frenzy.units.filter(
-        (u) => u.playerId === player.id() && u.unitType === "warship",
+      const units = frenzy.units.filter(
+        (u) => u.playerId === player.id() && (fog === null || fog.canSee(u)),
+      );
+      unitCount = units.filter(
+        (u) => u.unitType !== "defensePost" && u.unitType !== "warship",
       ).length;
+      shipCount = units.filter((u) => u.unitType === "warship").length;
     } else {
       unitCount = player.troops();
     }
@@ -392,65 +407,65 @@ export class PlayerInfoOverlay extends LitElement implements Layer {
                     translate="no"
                   >
                     ${translateText("player_info_overlay.ships")}
-                    <span class="ml-auto mr-0 font-bold">
-                      ${shipCount}
-                    </span>
+                    <span class="ml-auto mr-0 font-bold"> ${shipCount} </span>
                   </div>`
                 : ""}
-              <div
-                class="flex p-1 mb-1 mt-1 w-full border rounded-md border-yellow-400
+              ${fogged
+                ? ""
+                : html`<div
+                      class="flex p-1 mb-1 mt-1 w-full border rounded-md border-yellow-400
                           font-bold text-yellow-400 text-sm opacity-80"
-                translate="no"
-              >
-                <img
-                  src=${goldCoinIcon}
-                  alt=${translateText("player_info_overlay.gold")}
-                  width="15"
-                  height="15"
-                  style="vertical-align: middle;"
-                />
-                <span class="w-full text-center"
-                  >${renderNumber(player.gold())}</span
-                >
-              </div>
-              <div class="flex flex-wrap max-w-3xl gap-1">
-                ${this.displayUnitCount(
-                  player,
-                  UnitType.City,
-                  cityIcon,
-                  "player_info_overlay.cities",
-                )}
-                ${this.displayUnitCount(
-                  player,
-                  UnitType.Factory,
-                  factoryIcon,
-                  "player_info_overlay.factories",
-                )}
-                ${this.displayUnitCount(
-                  player,
-                  UnitType.Port,
-                  portIcon,
-                  "player_info_overlay.ports",
-                )}
-                ${this.displayUnitCount(
-                  player,
-                  UnitType.MissileSilo,
-                  missileSiloIcon,
-                  "player_info_overlay.missile_launchers",
-                )}
-                ${this.displayUnitCount(
-                  player,
-                  UnitType.SAMLauncher,
-                  samLauncherIcon,
-                  "player_info_overlay.sams",
-                )}
-                ${this.displayUnitCount(
-                  player,
-                  UnitType.Warship,
-                  warshipIcon,
-                  "player_info_overlay.warships",
-                )}
-              </div>
+                      translate="no"
+                    >
+                      <img
+                        src=${goldCoinIcon}
+                        alt=${translateText("player_info_overlay.gold")}
+                        width="15"
+                        height="15"
+                        style="vertical-align: middle;"
+                      />
+                      <span class="w-full text-center"
+                        >${renderNumber(player.gold())}</span
+                      >
+                    </div>
+                    <div class="flex flex-wrap max-w-3xl gap-1">
+                      ${this.displayUnitCount(
+                        player,
+                        UnitType.City,
+                        cityIcon,
+                        "player_info_overlay.cities",
+                      )}
+                      ${this.displayUnitCount(
+                        player,
+                        UnitType.Factory,
+                        factoryIcon,
+                        "player_info_overlay.factories",
+                      )}
+                      ${this.displayUnitCount(
+                        player,
+                        UnitType.Port,
+                        portIcon,
+                        "player_info_overlay.ports",
+                      )}
+                      ${this.displayUnitCount(
+                        player,
+                        UnitType.MissileSilo,
+                        missileSiloIcon,
+                        "player_info_overlay.missile_launchers",
+                      )}
+                      ${this.displayUnitCount(
+                        player,
+                        UnitType.SAMLauncher,
+                        samLauncherIcon,
+                        "player_info_overlay.sams",
+                      )}
+                      ${this.displayUnitCount(
+                        player,
+                        UnitType.Warship,
+                        warshipIcon,
+                        "player_info_overlay.warships",
+                      )}
+                    </div>`}
             `
           : ""}
       </div>
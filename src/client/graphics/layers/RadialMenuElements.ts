@@ -1,4 +1,5 @@
 import { Config } from "../../../core/configuration/Config";
+import { frenzyBuildMenuEntries } from "../../../core/game/frenzy/FrenzyRegistry";
 import { AllPlayers, PlayerActions, UnitType } from "../../../core/game/Game";
 import { TileRef } from "../../../core/game/GameMap";
 import { GameView, PlayerView } from "../../../core/game/GameView";
@@ -330,17 +331,11 @@ function getAllEnabledUnits(myPlayer: boolean, config: Config): Set<UnitType> {
   };
 
   if (myPlayer) {
-    // Strategic structures (shown directly in build menu)
-    addStructureIfEnabled(UnitType.City);
-    addStructureIfEnabled(UnitType.Port);
-    addStructureIfEnabled(UnitType.Factory);
-    addStructureIfEnabled(UnitType.Airport);
-    // Tactical structures (shown in tactical submenu)
-    addStructureIfEnabled(UnitType.DefensePost);
-    addStructureIfEnabled(UnitType.MissileSilo);
-    addStructureIfEnabled(UnitType.SAMLauncher);
-    addStructureIfEnabled(UnitType.ShieldGenerator);
-    addStructureIfEnabled(UnitType.Artillery);
+    // Strategic structures (shown directly in build menu) and tactical
+    // structures (shown in tactical submenu)
+    for (const entry of frenzyBuildMenuEntries()) {
+      addStructureIfEnabled(entry.unitType);
+    }
   } else {
     addStructureIfEnabled(UnitType.HydrogenBomb);
     addStructureIfEnabled(UnitType.MIRV);
@@ -351,21 +346,14 @@ function getAllEnabledUnits(myPlayer: boolean, config: Config): Set<UnitType> {
 }
 
 // Buildings - economic/production structures (right build menu)
-const BUILDING_UNIT_TYPES: UnitType[] = [
-  UnitType.City,
-  UnitType.Port,
-  UnitType.Factory,
-  UnitType.Airport,
-];
+const BUILDING_UNIT_TYPES: UnitType[] = frenzyBuildMenuEntries()
+  .filter((entry) => entry.group === "buildings")
+  .map((entry) => entry.unitType);
 
 // Towers - military/defensive structures (left build menu)
-const TOWER_UNIT_TYPES: UnitType[] = [
-  UnitType.DefensePost,
-  UnitType.SAMLauncher,
-  UnitType.MissileSilo,
-  UnitType.ShieldGenerator,
-  UnitType.Artillery,
-];
+const TOWER_UNIT_TYPES: UnitType[] = frenzyBuildMenuEntries()
+  .filter((entry) => entry.group === "towers")
+  .map((entry) => entry.unitType);
 
 const ATTACK_UNIT_TYPES: UnitType[] = [
   UnitType.AtomBomb,
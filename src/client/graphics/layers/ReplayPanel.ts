@@ -1,8 +1,19 @@
 import { html, LitElement } from "lit";
 import { customElement, property, state } from "lit/decorators.js";
 import { EventBus } from "../../../core/EventBus";
+import {
+  GameUpdateType,
+  TimelineMarkerKind,
+  TimelineMarkerUpdate,
+} from "../../../core/game/GameUpdates";
 import { GameView } from "../../../core/game/GameView";
-import { ReplaySpeedChangeEvent } from "../../InputHandler";
+import {
+  ReplayLoadedEvent,
+  ReplaySeekEvent,
+  ReplaySpeedChangeEvent,
+  ReplayStepEvent,
+} from "../../InputHandler";
+import { PauseGameEvent } from "../../Transport";
 import {
   defaultReplaySpeedMultiplier,
   ReplaySpeedMultiplier,
@@ -31,6 +42,20 @@ export class ReplayPanel extends LitElement implements Layer {
   @property({ type: Boolean })
   isSingleplayer = false;
 
+  @state()
+  private isPaused = false;
+
+  // Replays only; zero until the record is loaded
+  @state()
+  private totalTurns = 0;
+
+  // Turn under the scrubber while it is being dragged
+  @state()
+  private scrubTurn: number | null = null;
+
+  // Keyed so markers replayed after a backwards seek are not duplicated
+  private markers = new Map<string, TimelineMarkerUpdate>();
+
   createRenderRoot() {
     return this; // Enable Tailwind CSS
   }
@@ -41,11 +66,29 @@ export class ReplayPanel extends LitElement implements Layer {
         this.visible = event.visible;
         this.isSingleplayer = event.isSingleplayer;
       });
+      this.eventBus.on(PauseGameEvent, (event) => {
+        this.isPaused = event.paused;
+      });
+      this.eventBus.on(ReplayLoadedEvent, (event) => {
+        this.totalTurns = event.totalTurns;
+      });
     }
   }
 
   tick() {
+    const updates = this.game!.updatesSinceLastTick();
+    for (const marker of updates?.[GameUpdateType.TimelineMarker] ?? []) {
+      this.markers.set(
+        `${marker.tick}:${marker.kind}:${marker.playerID}`,
+        marker,
+      );
+    }
     if (!this.visible) return;
+    if (this.isPaused) {
+      // Steps are single ticks, so refresh on every one
+      this.requestUpdate();
+      return;
+    }
     if (this.game!.ticks() % 10 === 0) {
       this.requestUpdate();
     }
@@ -56,6 +99,29 @@ export class ReplayPanel extends LitElement implements Layer {
     this.eventBus?.emit(new ReplaySpeedChangeEvent(value));
   }
 
+  private onPlayPause() {
+    this.eventBus?.emit(new PauseGameEvent(!this.isPaused));
+  }
+
+  private onStep() {
+    this.eventBus?.emit(new ReplayStepEvent());
+  }
+
+  private onScrub(e: Event) {
+    this.scrubTurn = Number((e.target as HTMLInputElement).value);
+  }
+
+  private onScrubEnd(e: Event) {
+    const turn = Number((e.target as HTMLInputElement).value);
+    this.scrubTurn = null;
+    this.eventBus?.emit(new ReplaySeekEvent(turn));
+  }
+
+  private seekToMarker(marker: TimelineMarkerUpdate) {
+    // Start a few seconds early so the lead-up is visible
+    this.eventBus?.emit(new ReplaySeekEvent(Math.max(1, marker.tick - 50)));
+  }
+
   renderLayer(_ctx: CanvasRenderingContext2D) {}
   shouldTransform() {
     return false;
@@ -83,10 +149,101 @@ export class ReplayPanel extends LitElement implements Layer {
             translateText("replay_panel.fastest_game_speed"),
           )}
         </div>
+        ${this.renderControls()} ${this.renderTimeline()}
+      </div>
+    `;
+  }
+
+  private renderControls() {
+    return html`
+      <div class="grid grid-cols-2 gap-1 mt-1">
+        <button
+          class="text-white font-bold py-0 rounded border border-gray-500 transition"
+          @click=${() => this.onPlayPause()}
+        >
+          ${this.isPaused
+            ? translateText("replay_panel.play")
+            : translateText("replay_panel.pause")}
+        </button>
+        <button
+          class="text-white font-bold py-0 rounded border border-gray-500 transition disabled:opacity-40"
+          ?disabled=${!this.isPaused}
+          title=${translateText("replay_panel.step_hint")}
+          @click=${() => this.onStep()}
+        >
+          ${translateText("replay_panel.step")}
+        </button>
       </div>
     `;
   }
 
+  private renderTimeline() {
+    if (!this.game?.config()?.isReplay() || this.totalTurns === 0) {
+      return html``;
+    }
+    const current =
+      this.scrubTurn ?? Math.min(this.game.ticks(), this.totalTurns);
+    return html`
+      <div class="mt-2 w-48 lg:w-64">
+        <div class="relative h-2">
+          ${Array.from(this.markers.values()).map(
+            (marker) => html`
+              <div
+                class="absolute top-0 w-1 h-2 -ml-0.5 cursor-pointer ${markerColor(
+                  marker.kind,
+                )}"
+                style="left: ${(marker.tick / this.totalTurns) * 100}%"
+                title=${this.markerLabel(marker)}
+                @click=${() => this.seekToMarker(marker)}
+              ></div>
+            `,
+          )}
+        </div>
+        <input
+          type="range"
+          class="w-full"
+          min="1"
+          max=${this.totalTurns}
+          .value=${String(current)}
+          aria-label=${translateText("replay_panel.timeline")}
+          @input=${(e: Event) => this.onScrub(e)}
+          @change=${(e: Event) => this.onScrubEnd(e)}
+        />
+        <div class="flex justify-between text-xs text-white" translate="no">
+          <span>${formatTurn(current)}</span>
+          <span>${formatTurn(this.totalTurns)}</span>
+        </div>
+      </div>
+    `;
+  }
+
+  private markerLabel(marker: TimelineMarkerUpdate): string {
+    const name = (id: string | undefined) =>
+      id !== undefined && this.game!.hasPlayer(id)
+        ? this.game!.player(id).displayName()
+        : "?";
+    const time = formatTurn(marker.tick);
+    switch (marker.kind) {
+      case TimelineMarkerKind.Elimination:
+        return translateText("replay_panel.marker_elimination", {
+          time,
+          player: name(marker.playerID),
+          other: name(marker.otherPlayerID),
+        });
+      case TimelineMarkerKind.HQUpgrade:
+        return translateText("replay_panel.marker_hq_upgrade", {
+          time,
+          player: name(marker.playerID),
+        });
+      case TimelineMarkerKind.Nuke:
+        return translateText("replay_panel.marker_nuke", {
+          time,
+          player: name(marker.playerID),
+          unit: marker.unitType ?? "",
+        });
+    }
+  }
+
   private renderSpeedButton(value: ReplaySpeedMultiplier, label: string) {
     const isActive = this._replaySpeedMultiplier === value;
     return html`
@@ -101,3 +258,22 @@ export class ReplayPanel extends LitElement implements Layer {
     `;
   }
 }
+
+function markerColor(kind: TimelineMarkerKind): string {
+  switch (kind) {
+    case TimelineMarkerKind.Elimination:
+      return "bg-red-500";
+    case TimelineMarkerKind.HQUpgrade:
+      return "bg-yellow-400";
+    case TimelineMarkerKind.Nuke:
+      return "bg-orange-500";
+  }
+}
+
+// Turns run at ten per second
+function formatTurn(turn: number): string {
+  const seconds = Math.floor(turn / 10);
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
@@ -0,0 +1,276 @@
+import {
+  frenzyBuildingDefinition,
+  FrenzySounds,
+  frenzyUnitDefinition,
+} from "../../../core/game/frenzy/FrenzyRegistry";
+import {
+  FrenzyStructureType,
+  PROJECTILE_CONFIGS,
+  ProjectileConfig,
+  ProjectileType,
+} from "../../../core/game/frenzy/FrenzyTypes";
+import { UnitType } from "../../../core/game/Game";
+import {
+  AllianceRequestReplyUpdate,
+  BrokeAllianceUpdate,
+  FrenzyEntityDelta,
+  FrenzyProjectileData,
+  FrenzyStructureData,
+  FrenzyUnitData,
+  FrenzyUpdate,
+  GameUpdateType,
+  UnitUpdate,
+} from "../../../core/game/GameUpdates";
+import { GameView } from "../../../core/game/GameView";
+import SoundManager, { SoundEffect } from "../../sound/SoundManager";
+import { spatialMix } from "../../sound/SoundMixer";
+import { TransformHandler } from "../TransformHandler";
+import { Layer } from "./Layer";
+
+const NUKE_TYPES = new Set<UnitType>([
+  UnitType.AtomBomb,
+  UnitType.HydrogenBomb,
+  UnitType.MIRV,
+]);
+
+function projectileConfig(type: string | undefined): ProjectileConfig {
+  return (
+    PROJECTILE_CONFIGS[type as ProjectileType] ??
+    PROJECTILE_CONFIGS[ProjectileType.PlasmaOrb]
+  );
+}
+
+const unitSounds = (u: FrenzyUnitData) =>
+  frenzyUnitDefinition(u.unitType)?.sounds;
+const buildingSounds = (s: FrenzyStructureData) =>
+  frenzyBuildingDefinition(s.type)?.sounds;
+
+// Only towers have unit sounds, so only they are tracked
+const hasSounds = (u: FrenzyUnitData) => unitSounds(u) !== undefined;
+
+/**
+ * Applies one collection's delta to `known` and returns the entities that
+ * appeared and disappeared. Keyframes resend everything, so they are diffed
+ * against `known` instead. `keep` picks the entities worth tracking.
+ */
+function applyDelta<T extends { id: number }>(
+  known: Map<number, T>,
+  delta: FrenzyEntityDelta<T>,
+  keyframe: boolean,
+  keep: (entity: T) => boolean = () => true,
+): { spawned: T[]; removed: T[] } {
+  const spawned = delta.spawned.filter(keep);
+  if (!keyframe) {
+    const removed: T[] = [];
+    for (const id of delta.removed) {
+      const entity = known.get(id);
+      if (entity !== undefined) {
+        removed.push(entity);
+        known.delete(id);
+      }
+    }
+    spawned.forEach((e) => known.set(e.id, e));
+    return { spawned, removed };
+  }
+  const live = new Set(spawned.map((e) => e.id));
+  const removed = [...known.values()].filter((e) => !live.has(e.id));
+  const added = spawned.filter((e) => !known.has(e.id));
+  known.clear();
+  spawned.forEach((e) => known.set(e.id, e));
+  return { spawned: added, removed };
+}
+
+/**
+ * Plays combat and event sounds from each tick's Frenzy delta and game
+ * updates. Volume and pan follow the camera, and nothing under the fog of
+ * war is heard; the SoundManager's voice caps keep large battles from
+ * flooding the mixer.
+ */
+export class SoundLayer implements Layer {
+  // Decoded entities, which keep their last state once removed
+  private projectiles = new Map<number, FrenzyProjectileData>();
+  private structures = new Map<number, FrenzyStructureData>();
+  private towers = new Map<number, FrenzyUnitData>();
+  // Entities are patched in place, so the previous health is kept here
+  private myHQHealth: number | null = null;
+  private launchedNukes = new Set<number>();
+  // The first snapshot (and any after a replay seek) is old news
+  private primed = false;
+  private lastTick = -1;
+
+  constructor(
+    private game: GameView,
+    private transformHandler: TransformHandler,
+  ) {}
+
+  shouldTransform(): boolean {
+    return false;
+  }
+
+  tick() {
+    // Jumps (replay seeks) would replay everything that changed in between
+    if (this.game.ticks() !== this.lastTick + 1) {
+      this.primed = false;
+    }
+    this.lastTick = this.game.ticks();
+
+    const updates = this.game.updatesSinceLastTick();
+    if (updates !== null) {
+      if (this.primed) {
+        updates[GameUpdateType.AllianceRequestReply].forEach((u) =>
+          this.onAllianceReply(u),
+        );
+        updates[GameUpdateType.BrokeAlliance].forEach((u) =>
+          this.onBrokeAlliance(u),
+        );
+      }
+      updates[GameUpdateType.Unit].forEach((u) => this.onUnitUpdate(u));
+    }
+    const frenzy = updates?.[GameUpdateType.Frenzy]?.[0];
+    if (!this.primed) {
+      this.trackFrenzyState();
+    } else if (frenzy !== undefined) {
+      this.onFrenzyUpdate(frenzy);
+    }
+    this.primed = true;
+  }
+
+  // Registry sounds are named by their SoundEffect value
+  private playAt(effect: string | undefined, x: number, y: number) {
+    if (effect === undefined) return;
+    const vision = this.game.fogOfWar();
+    if (vision !== null && !vision.isVisible(x, y)) return;
+    const [topLeft, bottomRight] = this.transformHandler.screenBoundingRect();
+    const mix = spatialMix(x, y, {
+      left: topLeft.x,
+      top: topLeft.y,
+      right: bottomRight.x,
+      bottom: bottomRight.y,
+      scale: this.transformHandler.scale,
+    });
+    if (mix !== null) {
+      SoundManager.playSoundEffect(effect as SoundEffect, mix);
+    }
+  }
+
+  private isMe(smallID: number): boolean {
+    return this.game.myPlayer()?.smallID() === smallID;
+  }
+
+  private onAllianceReply(update: AllianceRequestReplyUpdate) {
+    const { requestorID, recipientID } = update.request;
+    if (update.accepted && (this.isMe(requestorID) || this.isMe(recipientID))) {
+      SoundManager.playSoundEffect(SoundEffect.AllianceFormed);
+    }
+  }
+
+  private onBrokeAlliance(update: BrokeAllianceUpdate) {
+    if (this.isMe(update.traitorID) || this.isMe(update.betrayedID)) {
+      SoundManager.playSoundEffect(SoundEffect.Betrayal);
+    }
+  }
+
+  private onUnitUpdate(update: UnitUpdate) {
+    if (!NUKE_TYPES.has(update.unitType)) return;
+    const x = this.game.x(update.pos);
+    const y = this.game.y(update.pos);
+    if (update.isActive) {
+      if (!this.launchedNukes.has(update.id)) {
+        this.launchedNukes.add(update.id);
+        if (this.primed) this.playAt(SoundEffect.NukeLaunch, x, y);
+      }
+      return;
+    }
+    this.launchedNukes.delete(update.id);
+    if (!this.primed) return;
+    // Nukes shot down by SAMs never reach their target
+    this.playAt(
+      update.reachedTarget ? SoundEffect.NukeDetonation : SoundEffect.Explosion,
+      x,
+      y,
+    );
+  }
+
+  private playDestroyed(
+    entity: { x: number; y: number; health: number; maxHealth: number },
+    sounds: FrenzySounds | undefined,
+  ) {
+    // Sold structures and towers vanish at full health; destroyed ones don't
+    if (entity.health < entity.maxHealth) {
+      this.playAt(sounds?.destroyed, entity.x, entity.y);
+    }
+  }
+
+  private isMyHQ(s: FrenzyStructureData): boolean {
+    return (
+      s.type === FrenzyStructureType.HQ &&
+      s.playerId === this.game.myPlayer()?.id()
+    );
+  }
+
+  // Starts tracking the current state silently
+  private trackFrenzyState() {
+    const state = this.game.frenzyManager();
+    this.projectiles = new Map(state?.projectiles.map((p) => [p.id, p]));
+    this.structures = new Map(state?.structures?.map((s) => [s.id, s]));
+    this.towers = new Map(state?.units.filter(hasSounds).map((u) => [u.id, u]));
+    const myHQ = [...this.structures.values()].find((s) => this.isMyHQ(s));
+    this.myHQHealth = myHQ?.health ?? null;
+  }
+
+  private onFrenzyUpdate(update: FrenzyUpdate) {
+    const projectiles = applyDelta(
+      this.projectiles,
+      update.projectiles,
+      update.keyframe,
+    );
+    for (const p of projectiles.spawned) {
+      const { fireSound } = projectileConfig(p.projectileType);
+      this.playAt(fireSound, p.startX ?? p.x, p.startY ?? p.y);
+    }
+    for (const p of projectiles.removed) {
+      const { impactSound } = projectileConfig(p.projectileType);
+      this.playAt(impactSound, p.targetX ?? p.x, p.targetY ?? p.y);
+    }
+
+    const structures = applyDelta(
+      this.structures,
+      update.structures,
+      update.keyframe,
+    );
+    for (const s of structures.spawned) {
+      this.playAt(buildingSounds(s)?.spawned, s.x, s.y);
+      if (this.isMyHQ(s)) {
+        this.myHQHealth = s.health;
+      }
+    }
+    const towers = applyDelta(
+      this.towers,
+      update.units,
+      update.keyframe,
+      hasSounds,
+    );
+    for (const s of structures.removed) {
+      this.playDestroyed(s, buildingSounds(s));
+    }
+    for (const u of towers.removed) {
+      this.playDestroyed(u, unitSounds(u));
+    }
+
+    // Keyframes resend the HQ instead of listing it as changed
+    const hqChanges = update.keyframe
+      ? update.structures.spawned
+      : update.structures.changed;
+    for (const change of hqChanges) {
+      const s = this.structures.get(change.id);
+      if (change.health === undefined || s === undefined || !this.isMyHQ(s)) {
+        continue;
+      }
+      if (this.myHQHealth !== null && change.health < this.myHQHealth) {
+        // Your own HQ is always audible, wherever the camera is
+        SoundManager.playSoundEffect(SoundEffect.HQUnderAttack);
+      }
+      this.myHQHealth = change.health;
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { html, LitElement } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import { EventBus } from "../../../core/EventBus";
+import { GameView, PlayerView } from "../../../core/game/GameView";
+import { renderNumber, renderTroops, translateText } from "../../Utils";
+import { Layer } from "./Layer";
+import { GoToPlayerEvent } from "./Leaderboard";
+
+/**
+ * Shown to spectators of a live game. The camera stays free; picking a
+ * player jumps to them and shows the game from their perspective.
+ */
+@customElement("spectator-panel")
+export class SpectatorPanel extends LitElement implements Layer {
+  public game: GameView;
+  public eventBus: EventBus;
+
+  @state()
+  private visible = false;
+
+  @state()
+  private players: PlayerView[] = [];
+
+  createRenderRoot() {
+    return this;
+  }
+
+  init() {
+    this.visible = this.game.isSpectator();
+  }
+
+  tick() {
+    if (!this.visible || this.game.ticks() % 10 !== 0) return;
+    this.players = this.game
+      .playerViews()
+      .filter((p) => p.isAlive())
+      .sort((a, b) => b.numTilesOwned() - a.numTilesOwned());
+    const focused = this.game.focusedPlayer();
+    if (focused !== null && !focused.isAlive()) {
+      this.game.setFocusedPlayer(null);
+    }
+  }
+
+  shouldTransform(): boolean {
+    return false;
+  }
+
+  private watch(player: PlayerView | null) {
+    this.game.setFocusedPlayer(player);
+    if (player !== null) {
+      this.eventBus.emit(new GoToPlayerEvent(player));
+    }
+    this.requestUpdate();
+  }
+
+  private cycle(step: number) {
+    if (this.players.length === 0) return;
+    const focused = this.game.focusedPlayer();
+    const index = focused === null ? -1 : this.players.indexOf(focused);
+    const n = this.players.length;
+    const next = index === -1 ? (step > 0 ? 0 : n - 1) : (index + step + n) % n;
+    this.watch(this.players[next]);
+  }
+
+  private onSelect(e: Event) {
+    const id = (e.target as HTMLSelectElement).value;
+    this.watch(this.players.find((p) => p.id() === id) ?? null);
+  }
+
+  render() {
+    if (!this.visible) return html``;
+    const focused = this.game.focusedPlayer();
+    const delay = this.game.config().gameConfig().spectatorDelay ?? 0;
+    return html`
+      <div
+        class="fixed bottom-4 left-1/2 -translate-x-1/2 z-[1000] flex flex-col gap-2 p-3 rounded-lg bg-slate-800/80 text-white text-sm"
+        @contextmenu=${(e: MouseEvent) => e.preventDefault()}
+      >
+        <div class="flex justify-between gap-4 font-bold">
+          <span>${translateText("spectator.title")}</span>
+          ${delay > 0
+            ? html`<span class="font-normal text-gray-300">
+                ${translateText("spectator.delay", { seconds: delay })}
+              </span>`
+            : ""}
+        </div>
+        <div class="flex items-center gap-2">
+          <button
+            class="px-2 rounded bg-slate-600 hover:bg-slate-500"
+            @click=${() => this.cycle(-1)}
+          >
+            ◀
+          </button>
+          <select
+            class="bg-slate-700 rounded px-2 py-1"
+            @change=${this.onSelect}
+          >
+            <option value="" ?selected=${focused === null}>
+              ${translateText("spectator.free_camera")}
+            </option>
+            ${this.players.map(
+              (p) =>
+                html`<option value=${p.id()} ?selected=${p === focused}>
+                  ${p.displayName()}
+                </option>`,
+            )}
+          </select>
+          <button
+            class="px-2 rounded bg-slate-600 hover:bg-slate-500"
+            @click=${() => this.cycle(1)}
+          >
+            ▶
+          </button>
+        </div>
+        ${focused !== null
+          ? html`<div class="flex justify-between gap-4 text-gray-300">
+              <span>
+                ${translateText("spectator.troops")}
+                ${renderTroops(focused.troops())}
+              </span>
+              <span>
+                ${translateText("spectator.gold")}
+                ${renderNumber(focused.gold())}
+              </span>
+            </div>`
+          : ""}
+      </div>
+    `;
+  }
+}
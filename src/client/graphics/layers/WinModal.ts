@@ -1,11 +1,13 @@
 import { LitElement, TemplateResult, html } from "lit";
-import { customElement, state } from "lit/decorators.js";
+import { customElement, query, state } from "lit/decorators.js";
 import ofmWintersLogo from "../../../../resources/images/OfmWintersLogo.png";
 import { translateText } from "../../../client/Utils";
 import { ColorPalette, Pattern } from "../../../core/CosmeticSchemas";
 import { EventBus } from "../../../core/EventBus";
 import { GameUpdateType } from "../../../core/game/GameUpdates";
 import { GameView } from "../../../core/game/GameView";
+import { AllPlayersStats } from "../../../core/Schemas";
+import { FrenzyStats } from "../../../core/StatsSchemas";
 import "../../components/PatternButton";
 import {
   fetchCosmetics,
@@ -14,6 +16,8 @@ import {
 } from "../../Cosmetics";
 import { getUserMe } from "../../jwt";
 import { SendWinnerEvent } from "../../Transport";
+import "./FrenzyReportModal";
+import { FrenzyReportModal } from "./FrenzyReportModal";
 import { Layer } from "./Layer";
 
 @customElement("win-modal")
@@ -32,6 +36,12 @@ export class WinModal extends LitElement implements Layer {
   @state()
   private isWin = false;
 
+  @state()
+  private frenzyStats: FrenzyStats | null = null;
+
+  @query("frenzy-report-modal")
+  private frenzyReport!: FrenzyReportModal;
+
   @state()
   private patternContent: TemplateResult | null = null;
 
@@ -70,6 +80,14 @@ export class WinModal extends LitElement implements Layer {
           >
             ${translateText("win_modal.exit")}
           </button>
+          ${this.frenzyStats !== null
+            ? html`<button
+                @click=${this.showFrenzyReport}
+                class="flex-1 px-3 py-3 text-base cursor-pointer bg-blue-500/60 text-white border-0 rounded transition-all duration-200 hover:bg-blue-500/80 hover:-translate-y-px active:translate-y-px"
+              >
+                ${translateText("win_modal.match_report")}
+              </button>`
+            : ""}
           <button
             @click=${this.hide}
             class="flex-1 px-3 py-3 text-base cursor-pointer bg-blue-500/60 text-white border-0 rounded transition-all duration-200 hover:bg-blue-500/80 hover:-translate-y-px active:translate-y-px"
@@ -80,6 +98,7 @@ export class WinModal extends LitElement implements Layer {
           </button>
         </div>
       </div>
+      <frenzy-report-modal></frenzy-report-modal>
 
       <style>
         @keyframes fadeIn {
@@ -253,6 +272,18 @@ export class WinModal extends LitElement implements Layer {
     this.requestUpdate();
   }
 
+  private showFrenzyReport() {
+    if (this.frenzyStats === null) return;
+    this.frenzyReport.open(
+      this.frenzyStats,
+      this.game.config().serverConfig().turnIntervalMs(),
+    );
+  }
+
+  private setFrenzyStats(allPlayersStats: AllPlayersStats) {
+    this.frenzyStats = allPlayersStats[this.game.myClientID()]?.frenzy ?? null;
+  }
+
   private _handleExit() {
     this.hide();
     window.location.href = "/";
@@ -276,6 +307,7 @@ export class WinModal extends LitElement implements Layer {
     const updates = this.game.updatesSinceLastTick();
     const winUpdates = updates !== null ? updates[GameUpdateType.Win] : [];
     winUpdates.forEach((wu) => {
+      this.setFrenzyStats(wu.allPlayersStats);
       if (wu.winner === undefined) {
         // ...
       } else if (wu.winner[0] === "team") {
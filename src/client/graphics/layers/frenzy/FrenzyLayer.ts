@@ -1,3 +1,7 @@
+import {
+  FrenzyVision,
+  StructureMemory,
+} from "../../../../core/game/frenzy/FrenzyVision";
 import { GameFork, GameMapType } from "../../../../core/game/Game";
 import { GameView } from "../../../../core/game/GameView";
 import { FrameProfiler } from "../../FrameProfiler";
@@ -11,7 +15,11 @@ import {
   MiningCellsRenderer,
 } from "./MiningCellsRenderer";
 import { ProjectileRenderer } from "./ProjectileRenderer";
-import { FrenzyStructureType, StructureRenderer } from "./StructureRenderer";
+import {
+  FrenzyStructure,
+  FrenzyStructureType,
+  StructureRenderer,
+} from "./StructureRenderer";
 import { UnitRenderer } from "./UnitRenderer";
 
 /**
@@ -30,6 +38,11 @@ export class FrenzyLayer implements Layer {
   private cachedMines: MineData[] = [];
   private crystalAssignmentRate: number = 500; // ms
 
+  // Fog of war: last known enemy structures and the shading over unseen areas
+  private structureMemory = new StructureMemory<FrenzyStructure>();
+  private fogCanvas: HTMLCanvasElement | null = null;
+  private fogVersion = -1;
+
   // Sub-renderers
   private structureRenderer: StructureRenderer;
   private unitRenderer: UnitRenderer;
@@ -97,17 +110,30 @@ export class FrenzyLayer implements Layer {
       },
     };
 
+    // Enemies outside the viewer's vision are not drawn under fog of war
+    const vision = this.game.fogOfWar();
+    const projectiles = vision
+      ? frenzyState.projectiles.filter((p) => vision.canSee(p))
+      : frenzyState.projectiles;
+
     // Process effects (gold payouts, artillery impacts)
     this.effectsRenderer.processGoldPayouts(
       frenzyState.pendingGoldPayouts ?? [],
     );
-    this.effectsRenderer.processArtilleryProjectiles(
-      frenzyState.projectiles ?? [],
-    );
+    this.effectsRenderer.processArtilleryProjectiles(projectiles);
 
     // Gather structures
     const gatherStart = FrameProfiler.start();
-    const structures = this.structureRenderer.gatherAllStructures(frenzyState);
+    const allStructures =
+      this.structureRenderer.gatherAllStructures(frenzyState);
+    let structures = allStructures;
+    let ghosts: FrenzyStructure[] = [];
+    if (vision) {
+      ghosts = this.structureMemory.update(allStructures, vision);
+      structures = allStructures.filter((s) => vision.canSee(s));
+    } else {
+      this.structureMemory.clear();
+    }
     FrameProfiler.end("FrenzyLayer:gatherStructures", gatherStart);
 
     // Build mine data for mining cells
@@ -179,6 +205,10 @@ export class FrenzyLayer implements Layer {
       this.renderSpawnExclusionZone(ctx);
     }
 
+    if (vision) {
+      this.renderFog(ctx, vision);
+    }
+
     // Render mining cells effect
     const protoStart = FrameProfiler.start();
     this.miningCellsRenderer.render(ctx, allMines, crystals);
@@ -200,11 +230,21 @@ export class FrenzyLayer implements Layer {
         this.structureRenderer.render(ctx, structure);
       }
     }
+    // Last known enemy structures, faded
+    context.save();
+    context.globalAlpha = 0.4;
+    for (const ghost of ghosts) {
+      if (isInViewport(ghost.x, ghost.y, ctx.viewportBounds)) {
+        this.structureRenderer.render(ctx, ghost);
+      }
+    }
+    context.restore();
     FrameProfiler.end("FrenzyLayer:structures", structStart);
 
     // Render units
     const unitStart = FrameProfiler.start();
     for (const unit of frenzyState.units) {
+      if (vision && !vision.canSee(unit)) continue;
       if (isInViewport(unit.x, unit.y, ctx.viewportBounds)) {
         this.unitRenderer.render(ctx, unit);
       }
@@ -217,7 +257,7 @@ export class FrenzyLayer implements Layer {
     // Render projectiles
     const projStart = FrameProfiler.start();
     const projectileSize = Math.max(0.5, frenzyState.projectileSize ?? 2);
-    for (const projectile of frenzyState.projectiles) {
+    for (const projectile of projectiles) {
       if (isInViewport(projectile.x, projectile.y, ctx.viewportBounds)) {
         this.projectileRenderer.render(ctx, projectile, projectileSize);
       }
@@ -229,6 +269,41 @@ export class FrenzyLayer implements Layer {
     this.effectsRenderer.renderGoldEffects(ctx, deltaTime);
   }
 
+  /**
+   * Shades everything the viewer cannot see. The shading is drawn once per
+   * vision update at one pixel per vision cell and scaled up, which also
+   * softens its edges.
+   */
+  private renderFog(ctx: FrenzyRenderContext, vision: FrenzyVision) {
+    if (this.fogCanvas === null || this.fogVersion !== vision.version) {
+      this.fogCanvas ??= document.createElement("canvas");
+      this.fogCanvas.width = vision.cols;
+      this.fogCanvas.height = vision.rows;
+      const fogContext = this.fogCanvas.getContext("2d")!;
+      const image = fogContext.createImageData(vision.cols, vision.rows);
+      for (let row = 0; row < vision.rows; row++) {
+        for (let col = 0; col < vision.cols; col++) {
+          if (!vision.isCellVisible(col, row)) {
+            // Black at 45% opacity; RGB stays zero
+            image.data[(row * vision.cols + col) * 4 + 3] = 115;
+          }
+        }
+      }
+      fogContext.putImageData(image, 0, 0);
+      this.fogVersion = vision.version;
+    }
+    ctx.context.save();
+    ctx.context.imageSmoothingEnabled = true;
+    ctx.context.drawImage(
+      this.fogCanvas,
+      -ctx.halfWidth,
+      -ctx.halfHeight,
+      vision.cols * vision.cellSize,
+      vision.rows * vision.cellSize,
+    );
+    ctx.context.restore();
+  }
+
   /**
    * Render red stripes overlay for spawn exclusion zone during spawn phase.
    * Only renders for SquareMap where the center area is excluded from spawning.
@@ -36,10 +36,7 @@ export function isInViewport(
   bounds: ViewportBounds,
 ): boolean {
   return (
-    x >= bounds.minX &&
-    x <= bounds.maxX &&
-    y >= bounds.minY &&
-    y <= bounds.maxY
+    x >= bounds.minX && x <= bounds.maxX && y >= bounds.minY && y <= bounds.maxY
   );
 }
 
@@ -62,17 +59,6 @@ export function getPlayerById(
  * Convert tier number to Roman numeral
  */
 export function getTierRoman(tier: number): string {
-  const romans = [
-    "I",
-    "II",
-    "III",
-    "IV",
-    "V",
-    "VI",
-    "VII",
-    "VIII",
-    "IX",
-    "X",
-  ];
+  const romans = ["I", "II", "III", "IV", "V", "VI", "VII", "VIII", "IX", "X"];
   return romans[tier - 1] || tier.toString();
 }
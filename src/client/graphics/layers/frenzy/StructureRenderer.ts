@@ -1,6 +1,11 @@
 import { UnitType } from "../../../../core/game/Game";
 import { GameView, PlayerView, UnitView } from "../../../../core/game/GameView";
-import { STRUCTURE_CONFIGS } from "../../../../core/game/frenzy/FrenzyTypes";
+import {
+  buildingByBuildUnitType,
+  STRUCTURE_CONFIGS,
+  structureKeyFor,
+  towerByBuildUnitType,
+} from "../../../../core/game/frenzy/FrenzyRegistry";
 import { FrenzyRenderContext, getTierRoman } from "./FrenzyRenderContext";
 
 /**
@@ -21,6 +26,16 @@ export enum FrenzyStructureType {
   Construction = "construction",
 }
 
+// The ghost drawn for a building or tower under construction
+function constructionSprite(
+  unitType: UnitType,
+): FrenzyStructureType | undefined {
+  const building: string | undefined = buildingByBuildUnitType(unitType);
+  return (building ?? towerByBuildUnitType(unitType)?.sprite) as
+    | FrenzyStructureType
+    | undefined;
+}
+
 /**
  * Unified structure interface for consistent rendering
  */
@@ -143,36 +158,8 @@ export class StructureRenderer {
         // Handle construction units
         if (unit.type() === UnitType.Construction) {
           const constructionUnitType = unit.constructionType();
-          let constrType: FrenzyStructureType | null = null;
-          switch (constructionUnitType) {
-            case UnitType.City:
-              constrType = FrenzyStructureType.Mine;
-              break;
-            case UnitType.Factory:
-              constrType = FrenzyStructureType.Factory;
-              break;
-            case UnitType.DefensePost:
-              constrType = FrenzyStructureType.DefensePost;
-              break;
-            case UnitType.Port:
-              constrType = FrenzyStructureType.Port;
-              break;
-            case UnitType.MissileSilo:
-              constrType = FrenzyStructureType.MissileSilo;
-              break;
-            case UnitType.SAMLauncher:
-              constrType = FrenzyStructureType.SAMLauncher;
-              break;
-            case UnitType.Artillery:
-              constrType = FrenzyStructureType.Artillery;
-              break;
-            case UnitType.ShieldGenerator:
-              constrType = FrenzyStructureType.ShieldGenerator;
-              break;
-            case UnitType.Airport:
-              constrType = FrenzyStructureType.Airport;
-              break;
-          }
+          const constrType =
+            constructionUnitType && constructionSprite(constructionUnitType);
           if (constrType && constructionUnitType) {
             const unitInfo = this.game.unitInfo(constructionUnitType);
             const constDuration = unitInfo?.constructionDuration ?? 100;
@@ -253,7 +240,7 @@ export class StructureRenderer {
     }
 
     // Get bar config for this structure type
-    const structureKey = this.getStructureConfigKey(structure.type);
+    const structureKey = structureKeyFor(structure.type);
     const barConfig = structureKey
       ? STRUCTURE_CONFIGS[structureKey]?.bars
       : null;
@@ -276,32 +263,6 @@ export class StructureRenderer {
     }
   }
 
-  /**
-   * Maps FrenzyStructureType to STRUCTURE_CONFIGS key
-   */
-  private getStructureConfigKey(
-    type: FrenzyStructureType,
-  ): keyof typeof STRUCTURE_CONFIGS | null {
-    const mapping: Record<
-      FrenzyStructureType,
-      keyof typeof STRUCTURE_CONFIGS | null
-    > = {
-      [FrenzyStructureType.HQ]: "hq",
-      [FrenzyStructureType.Mine]: "mine",
-      [FrenzyStructureType.Factory]: "factory",
-      [FrenzyStructureType.Port]: "port",
-      [FrenzyStructureType.Airport]: "airport",
-      [FrenzyStructureType.MiniHQ]: "minihq",
-      [FrenzyStructureType.DefensePost]: "defensePost",
-      [FrenzyStructureType.MissileSilo]: "missileSilo",
-      [FrenzyStructureType.SAMLauncher]: "samLauncher",
-      [FrenzyStructureType.Artillery]: "artillery",
-      [FrenzyStructureType.ShieldGenerator]: "shieldGenerator",
-      [FrenzyStructureType.Construction]: null,
-    };
-    return mapping[type] ?? null;
-  }
-
   private getStructureSize(type: FrenzyStructureType): number {
     switch (type) {
       case FrenzyStructureType.HQ:
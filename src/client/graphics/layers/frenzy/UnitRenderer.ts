@@ -1,5 +1,10 @@
 import { GameView, PlayerView } from "../../../../core/game/GameView";
-import { STRUCTURE_CONFIGS } from "../../../../core/game/frenzy/FrenzyTypes";
+import {
+  frenzyUnitDefinition,
+  FrenzyUnitSprite,
+  STRUCTURE_CONFIGS,
+  structureKeyFor,
+} from "../../../../core/game/frenzy/FrenzyRegistry";
 import { getMobileConfig } from "../../MobileOptimizations";
 import { FrenzyRenderContext } from "./FrenzyRenderContext";
 
@@ -25,13 +30,41 @@ export interface FrenzyUnitData {
   boardedUnits?: number[]; // IDs of boarded units
 }
 
+type SpriteRenderer = (
+  ctx: FrenzyRenderContext,
+  x: number,
+  y: number,
+  player: PlayerView,
+  unit: FrenzyUnitData,
+) => void;
+
 /**
- * Renders all mobile unit types in Frenzy mode:
- * Soldier, EliteSoldier, Warship, Artillery, ShieldGenerator, DefensePost
+ * Renders Frenzy units and towers by the sprite their registry entry names
  */
 export class UnitRenderer {
   private simplifiedUnits: boolean;
 
+  private readonly sprites: Record<FrenzyUnitSprite, SpriteRenderer> = {
+    soldier: (ctx, x, y, player) =>
+      this.renderSoldier(ctx.context, x, y, player),
+    eliteSoldier: (ctx, x, y, player) =>
+      this.renderEliteSoldier(ctx.context, x, y, player),
+    warship: (ctx, x, y, player, unit) =>
+      this.renderWarship(ctx.context, x, y, player, unit.tier ?? 1),
+    transporter: (ctx, x, y, player, unit) =>
+      this.renderTransporter(ctx.context, x, y, player, unit.heading ?? 0),
+    defensePost: (ctx, x, y, player, unit) =>
+      this.renderDefensePost(ctx.context, x, y, player, unit.tier ?? 1),
+    samLauncher: (ctx, x, y, player, unit) =>
+      this.renderSAMLauncher(ctx.context, x, y, player, unit.tier ?? 1),
+    missileSilo: (ctx, x, y, player, unit) =>
+      this.renderMissileSilo(ctx.context, x, y, player, unit.tier ?? 1),
+    shieldGenerator: (ctx, x, y, player, unit) =>
+      this.renderShieldGenerator(ctx, x, y, player, unit),
+    artillery: (ctx, x, y, player, unit) =>
+      this.renderArtillery(ctx.context, x, y, player, unit.tier ?? 1),
+  };
+
   constructor(private game: GameView) {
     this.simplifiedUnits = getMobileConfig().simplifiedUnits;
   }
@@ -45,7 +78,6 @@ export class UnitRenderer {
 
     const x = unit.x - ctx.halfWidth;
     const y = unit.y - ctx.halfHeight;
-    const tier = unit.tier ?? 1;
 
     // Simplified rendering for low-end mobile: just colored circles
     if (this.simplifiedUnits) {
@@ -53,37 +85,11 @@ export class UnitRenderer {
       return;
     }
 
-    const isDefensePost = unit.unitType === "defensePost";
-    const isEliteSoldier = unit.unitType === "eliteSoldier";
-    const isWarship = unit.unitType === "warship";
-    const isTransporter = unit.unitType === "transporter";
-    const isArtillery = unit.unitType === "artillery";
-    const isShieldGenerator = unit.unitType === "shieldGenerator";
-    const isMissileSilo = unit.unitType === "missileSilo";
-    const isSAMLauncher = unit.unitType === "samLauncher";
-
-    if (isMissileSilo) {
-      this.renderMissileSilo(ctx.context, x, y, player, tier);
-    } else if (isSAMLauncher) {
-      this.renderSAMLauncher(ctx.context, x, y, player, tier);
-    } else if (isShieldGenerator) {
-      this.renderShieldGenerator(ctx, x, y, player, unit);
-    } else if (isArtillery) {
-      this.renderArtillery(ctx.context, x, y, player, tier);
-    } else if (isDefensePost) {
-      this.renderDefensePost(ctx.context, x, y, player, tier);
-    } else if (isEliteSoldier) {
-      this.renderEliteSoldier(ctx.context, x, y, player);
-    } else if (isWarship) {
-      this.renderWarship(ctx.context, x, y, player, tier);
-    } else if (isTransporter) {
-      this.renderTransporter(ctx.context, x, y, player, unit.heading ?? 0);
-    } else {
-      this.renderSoldier(ctx.context, x, y, player);
-    }
+    const sprite = frenzyUnitDefinition(unit.unitType)?.sprite ?? "soldier";
+    this.sprites[sprite](ctx, x, y, player, unit);
 
     // Get bar config for this structure type
-    const structureKey = this.getStructureKey(unit.unitType);
+    const structureKey = structureKeyFor(unit.unitType);
     const barConfig = structureKey
       ? STRUCTURE_CONFIGS[structureKey]?.bars
       : null;
@@ -127,22 +133,6 @@ export class UnitRenderer {
     }
   }
 
-  /**
-   * Maps unit type string to structure config key
-   */
-  private getStructureKey(
-    unitType: string,
-  ): keyof typeof STRUCTURE_CONFIGS | null {
-    const mapping: Record<string, keyof typeof STRUCTURE_CONFIGS> = {
-      defensePost: "defensePost",
-      artillery: "artillery",
-      shieldGenerator: "shieldGenerator",
-      samLauncher: "samLauncher",
-      missileSilo: "missileSilo",
-    };
-    return mapping[unitType] ?? null;
-  }
-
   /**
    * Simplified unit rendering for mobile performance
    */
@@ -154,12 +144,7 @@ export class UnitRenderer {
     unit: FrenzyUnitData,
   ) {
     // Size based on unit type
-    let size = 3;
-    if (unit.unitType === "warship") size = 6;
-    else if (unit.unitType === "artillery") size = 5;
-    else if (unit.unitType === "eliteSoldier") size = 4;
-    else if (unit.unitType === "shieldGenerator") size = 5;
-    else if (unit.unitType === "defensePost") size = 5;
+    const size = frenzyUnitDefinition(unit.unitType)?.markerSize ?? 3;
 
     context.fillStyle = player.territoryColor().toRgbString();
     context.beginPath();
@@ -0,0 +1,103 @@
+import { FrenzyUnitType } from "../../../../core/game/frenzy/FrenzyTypes";
+import { FrenzyUnitData } from "../../../../core/game/GameUpdates";
+
+// Units that accept move/attack-move/hold/retreat orders
+const ORDERABLE_TYPES = new Set<string>([
+  FrenzyUnitType.Soldier,
+  FrenzyUnitType.EliteSoldier,
+  FrenzyUnitType.Warship,
+]);
+
+export const CONTROL_GROUP_COUNT = 9;
+
+export interface SelectionBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export function isOrderable(unit: FrenzyUnitData): boolean {
+  return ORDERABLE_TYPES.has(unit.unitType);
+}
+
+/**
+ * IDs of `playerId`'s orderable units inside the (world-space) box
+ */
+export function unitsInBox(
+  units: Iterable<FrenzyUnitData>,
+  playerId: string,
+  box: SelectionBox,
+): number[] {
+  const ids: number[] = [];
+  for (const unit of units) {
+    if (unit.playerId !== playerId || !isOrderable(unit)) continue;
+    if (
+      unit.x >= box.minX &&
+      unit.x <= box.maxX &&
+      unit.y >= box.minY &&
+      unit.y <= box.maxY
+    ) {
+      ids.push(unit.id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * The local player's selected units and numbered control groups. Dead
+ * units are pruned from both so stale IDs never reach an intent.
+ */
+export class UnitSelection {
+  private selected = new Set<number>();
+  private groups = new Map<number, Set<number>>();
+
+  select(ids: Iterable<number>, additive = false) {
+    if (!additive) this.selected.clear();
+    for (const id of ids) this.selected.add(id);
+  }
+
+  clear() {
+    this.selected.clear();
+  }
+
+  has(id: number): boolean {
+    return this.selected.has(id);
+  }
+
+  ids(): number[] {
+    return [...this.selected];
+  }
+
+  size(): number {
+    return this.selected.size;
+  }
+
+  assignGroup(group: number) {
+    if (group < 1 || group > CONTROL_GROUP_COUNT) return;
+    this.groups.set(group, new Set(this.selected));
+  }
+
+  // Selects the group; returns false if it is empty or unassigned
+  recallGroup(group: number): boolean {
+    const ids = this.groups.get(group);
+    if (ids === undefined || ids.size === 0) return false;
+    this.selected = new Set(ids);
+    return true;
+  }
+
+  groupSize(group: number): number {
+    return this.groups.get(group)?.size ?? 0;
+  }
+
+  prune(aliveIds: Set<number>) {
+    for (const id of this.selected) {
+      if (!aliveIds.has(id)) this.selected.delete(id);
+    }
+    for (const ids of this.groups.values()) {
+      for (const id of ids) {
+        if (!aliveIds.has(id)) ids.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import { EventBus } from "../../../../core/EventBus";
+import { GameFork } from "../../../../core/game/Game";
+import { GameView } from "../../../../core/game/GameView";
+import {
+  CloseViewEvent,
+  ControlGroupEvent,
+  UnitBoxSelectEvent,
+  UnitOrderEvent,
+} from "../../../InputHandler";
+import { SendFrenzyUnitOrderIntentEvent } from "../../../Transport";
+import { TransformHandler } from "../../TransformHandler";
+import { UIState } from "../../UIState";
+import { Layer } from "../Layer";
+import { SelectionBox, UnitSelection, unitsInBox } from "./UnitSelection";
+
+/**
+ * Box selection, control groups and per-selection orders for Frenzy units.
+ * Only the selected units are ordered; the rest of the army keeps its orders.
+ */
+export class UnitSelectionLayer implements Layer {
+  private selection = new UnitSelection();
+  // World-space box while a shift-drag is in progress
+  private dragBox: SelectionBox | null = null;
+
+  constructor(
+    private game: GameView,
+    private eventBus: EventBus,
+    private transformHandler: TransformHandler,
+    private uiState: UIState,
+  ) {}
+
+  shouldTransform(): boolean {
+    return true;
+  }
+
+  init() {
+    if (this.game.config().gameConfig().gameFork !== GameFork.Frenzy) return;
+    this.eventBus.on(UnitBoxSelectEvent, (e) => this.onBoxSelect(e));
+    this.eventBus.on(ControlGroupEvent, (e) => this.onControlGroup(e));
+    this.eventBus.on(UnitOrderEvent, (e) => this.onOrder(e));
+    this.eventBus.on(CloseViewEvent, () => {
+      this.selection.clear();
+      this.syncUIState();
+    });
+  }
+
+  tick() {
+    const state = this.game.frenzyManager();
+    if (state === null || this.selection.size() === 0) return;
+    this.selection.prune(new Set(state.units.map((u) => u.id)));
+    this.syncUIState();
+  }
+
+  private syncUIState() {
+    this.uiState.selectedUnitCount = this.selection.size();
+  }
+
+  private onBoxSelect(e: UnitBoxSelectEvent) {
+    const start = this.transformHandler.screenToWorldCoordinates(
+      e.startX,
+      e.startY,
+    );
+    const end = this.transformHandler.screenToWorldCoordinates(e.endX, e.endY);
+    const box: SelectionBox = {
+      minX: Math.min(start.x, end.x),
+      minY: Math.min(start.y, end.y),
+      maxX: Math.max(start.x, end.x) + 1,
+      maxY: Math.max(start.y, end.y) + 1,
+    };
+    if (!e.done) {
+      this.dragBox = box;
+      return;
+    }
+    this.dragBox = null;
+
+    const myPlayer = this.game.myPlayer();
+    const state = this.game.frenzyManager();
+    if (myPlayer === null || state === null) return;
+    this.selection.select(unitsInBox(state.units, myPlayer.id(), box));
+    this.syncUIState();
+  }
+
+  private onControlGroup(e: ControlGroupEvent) {
+    if (e.assign) {
+      this.selection.assignGroup(e.group);
+    } else {
+      this.selection.recallGroup(e.group);
+    }
+    this.syncUIState();
+  }
+
+  private onOrder(e: UnitOrderEvent) {
+    if (this.selection.size() === 0) return;
+    if (e.x === undefined || e.y === undefined) {
+      this.eventBus.emit(
+        new SendFrenzyUnitOrderIntentEvent(this.selection.ids(), e.order),
+      );
+      return;
+    }
+    const cell = this.transformHandler.screenToWorldCoordinates(e.x, e.y);
+    if (!this.game.isValidCoord(cell.x, cell.y)) return;
+    this.eventBus.emit(
+      new SendFrenzyUnitOrderIntentEvent(
+        this.selection.ids(),
+        e.order,
+        cell.x,
+        cell.y,
+      ),
+    );
+  }
+
+  renderLayer(context: CanvasRenderingContext2D) {
+    const state = this.game.frenzyManager();
+    if (state === null) return;
+    const halfWidth = this.game.width() / 2;
+    const halfHeight = this.game.height() / 2;
+
+    if (this.selection.size() > 0) {
+      context.save();
+      context.lineWidth = 0.5;
+      for (const unit of state.units) {
+        if (!this.selection.has(unit.id)) continue;
+        context.strokeStyle = unit.holdPosition ? "#facc15" : "#4ade80";
+        context.beginPath();
+        context.arc(unit.x - halfWidth, unit.y - halfHeight, 3, 0, Math.PI * 2);
+        context.stroke();
+      }
+      context.restore();
+    }
+
+    if (this.dragBox !== null) {
+      const box = this.dragBox;
+      context.save();
+      context.fillStyle = "rgba(74, 222, 128, 0.15)";
+      context.strokeStyle = "#4ade80";
+      context.lineWidth = 0.5;
+      context.fillRect(
+        box.minX - halfWidth,
+        box.minY - halfHeight,
+        box.maxX - box.minX,
+        box.maxY - box.minY,
+      );
+      context.strokeRect(
+        box.minX - halfWidth,
+        box.minY - halfHeight,
+        box.maxX - box.minX,
+        box.maxY - box.minY,
+      );
+      context.restore();
+    }
+  }
+}
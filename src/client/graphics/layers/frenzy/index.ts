@@ -19,3 +19,4 @@ export { FrenzyStructureType, StructureRenderer } from "./StructureRenderer";
 export type { FrenzyStructure } from "./StructureRenderer";
 export { UnitRenderer } from "./UnitRenderer";
 export type { FrenzyUnitData } from "./UnitRenderer";
+export { UnitSelectionLayer } from "./UnitSelectionLayer";
@@ -1,5 +1,19 @@
 import { Howl } from "howler";
+import allianceFormedSound from "../../../resources/sounds/effects/alliance-formed.wav";
+import artilleryFireSound from "../../../resources/sounds/effects/artillery-fire.wav";
+import betrayalSound from "../../../resources/sounds/effects/betrayal.wav";
+import explosionSound from "../../../resources/sounds/effects/explosion.wav";
+import hqUnderAttackSound from "../../../resources/sounds/effects/hq-under-attack.wav";
 import kaChingSound from "../../../resources/sounds/effects/ka-ching.mp3";
+import laserFireSound from "../../../resources/sounds/effects/laser-fire.wav";
+import missileFireSound from "../../../resources/sounds/effects/missile-fire.wav";
+import nukeDetonationSound from "../../../resources/sounds/effects/nuke-detonation.wav";
+import nukeLaunchSound from "../../../resources/sounds/effects/nuke-launch.wav";
+import plasmaFireSound from "../../../resources/sounds/effects/plasma-fire.wav";
+import projectileImpactSound from "../../../resources/sounds/effects/projectile-impact.wav";
+import structureDestroyedSound from "../../../resources/sounds/effects/structure-destroyed.wav";
+import transporterLandingSound from "../../../resources/sounds/effects/transporter-landing.wav";
+import { SpatialMix, VoiceLimiter } from "./SoundMixer";
 
 // Music loaded from static path - not bundled in repo
 // Menu music (also included in in-game playlist):
@@ -23,14 +37,131 @@ const IN_GAME_MUSIC_PATHS = [
 
 export enum SoundEffect {
   KaChing = "ka-ching",
+  PlasmaFire = "plasma-fire",
+  LaserFire = "laser-fire",
+  ArtilleryFire = "artillery-fire",
+  MissileFire = "missile-fire",
+  ProjectileImpact = "projectile-impact",
+  Explosion = "explosion",
+  StructureDestroyed = "structure-destroyed",
+  HQUnderAttack = "hq-under-attack",
+  NukeLaunch = "nuke-launch",
+  NukeDetonation = "nuke-detonation",
+  TransporterLanding = "transporter-landing",
+  AllianceFormed = "alliance-formed",
+  Betrayal = "betrayal",
 }
 
+interface SoundEffectConfig {
+  src: string;
+  // Relative to the sound effects volume setting
+  volume: number;
+  // Concurrent instances of this effect
+  maxVoices: number;
+  // Minimum time between two starts of this effect
+  minIntervalMs: number;
+}
+
+// Generated by `npm run gen-sounds` (src/scripts/GenerateSoundEffects.ts)
+// except ka-ching.mp3
+const SOUND_EFFECTS: Record<SoundEffect, SoundEffectConfig> = {
+  [SoundEffect.KaChing]: {
+    src: kaChingSound,
+    volume: 1,
+    maxVoices: 2,
+    minIntervalMs: 0,
+  },
+  [SoundEffect.PlasmaFire]: {
+    src: plasmaFireSound,
+    volume: 0.3,
+    maxVoices: 4,
+    minIntervalMs: 60,
+  },
+  [SoundEffect.LaserFire]: {
+    src: laserFireSound,
+    volume: 0.35,
+    maxVoices: 3,
+    minIntervalMs: 90,
+  },
+  [SoundEffect.ArtilleryFire]: {
+    src: artilleryFireSound,
+    volume: 0.5,
+    maxVoices: 3,
+    minIntervalMs: 150,
+  },
+  [SoundEffect.MissileFire]: {
+    src: missileFireSound,
+    volume: 0.5,
+    maxVoices: 3,
+    minIntervalMs: 150,
+  },
+  [SoundEffect.ProjectileImpact]: {
+    src: projectileImpactSound,
+    volume: 0.25,
+    maxVoices: 4,
+    minIntervalMs: 80,
+  },
+  [SoundEffect.Explosion]: {
+    src: explosionSound,
+    volume: 0.6,
+    maxVoices: 3,
+    minIntervalMs: 150,
+  },
+  [SoundEffect.StructureDestroyed]: {
+    src: structureDestroyedSound,
+    volume: 0.8,
+    maxVoices: 2,
+    minIntervalMs: 300,
+  },
+  [SoundEffect.HQUnderAttack]: {
+    src: hqUnderAttackSound,
+    volume: 0.9,
+    maxVoices: 1,
+    minIntervalMs: 8000,
+  },
+  [SoundEffect.NukeLaunch]: {
+    src: nukeLaunchSound,
+    volume: 0.8,
+    maxVoices: 2,
+    minIntervalMs: 500,
+  },
+  [SoundEffect.NukeDetonation]: {
+    src: nukeDetonationSound,
+    volume: 1,
+    maxVoices: 2,
+    minIntervalMs: 300,
+  },
+  [SoundEffect.TransporterLanding]: {
+    src: transporterLandingSound,
+    volume: 0.7,
+    maxVoices: 2,
+    minIntervalMs: 500,
+  },
+  [SoundEffect.AllianceFormed]: {
+    src: allianceFormedSound,
+    volume: 0.8,
+    maxVoices: 1,
+    minIntervalMs: 1000,
+  },
+  [SoundEffect.Betrayal]: {
+    src: betrayalSound,
+    volume: 0.9,
+    maxVoices: 1,
+    minIntervalMs: 1000,
+  },
+};
+
+// Total concurrent sound effects across all types
+const MAX_VOICES = 24;
+
 class SoundManager {
   private backgroundMusic: Howl[] = [];
   private menuMusic: Howl | null = null;
   private currentTrack: number = 0;
   private shuffledOrder: number[] = [];
   private soundEffects: Map<SoundEffect, Howl> = new Map();
+  private voices = new VoiceLimiter<SoundEffect>(MAX_VOICES);
+  private unavailableEffects = new Set<SoundEffect>();
   private soundEffectsVolume: number = 1;
   private backgroundMusicVolume: number = 0;
   private menuMusicVolume: number = 0.3;
@@ -58,7 +189,7 @@ class SoundManager {
       volume: this.menuMusicVolume,
     });
 
-    this.loadSoundEffect(SoundEffect.KaChing, kaChingSound);
+    this.loadSoundEffect(SoundEffect.KaChing);
   }
 
   private shufflePlaylist(): void {
@@ -130,27 +261,58 @@ class SoundManager {
     this.playBackgroundMusic();
   }
 
-  public loadSoundEffect(name: SoundEffect, src: string): void {
-    if (!this.soundEffects.has(name)) {
-      const sound = new Howl({
-        src: [src],
-        volume: this.soundEffectsVolume,
+  public loadSoundEffect(name: SoundEffect): Howl {
+    let sound = this.soundEffects.get(name);
+    if (sound === undefined) {
+      const config = SOUND_EFFECTS[name];
+      sound = new Howl({
+        src: [config.src],
+        volume: config.volume * this.soundEffectsVolume,
+        // Howler's node pool never needs to outgrow the voice cap
+        pool: config.maxVoices,
+      });
+      // Every instance frees its voice however it finishes
+      const release = () => this.voices.release(name);
+      sound.on("end", release);
+      sound.on("stop", release);
+      sound.on("playerror", release);
+      // Missing files: queued plays never start, so never end either
+      sound.on("loaderror", () => {
+        this.unavailableEffects.add(name);
+        this.voices.releaseAll(name);
       });
       this.soundEffects.set(name, sound);
     }
+    return sound;
   }
 
-  public playSoundEffect(name: SoundEffect): void {
-    const sound = this.soundEffects.get(name);
-    if (sound) {
-      sound.play();
+  /**
+   * Plays an effect unless its voice cap or rate limit is reached. Pass a
+   * `mix` from `spatialMix` for sounds that happen somewhere on the map.
+   */
+  public playSoundEffect(name: SoundEffect, mix?: SpatialMix): void {
+    if (this.soundEffectsVolume === 0 || this.unavailableEffects.has(name)) {
+      return;
+    }
+    const config = SOUND_EFFECTS[name];
+    if (!this.voices.tryAcquire(name, config.maxVoices, config.minIntervalMs)) {
+      return;
+    }
+    const sound = this.loadSoundEffect(name);
+    const id = sound.play();
+    sound.volume(
+      config.volume * this.soundEffectsVolume * (mix?.volume ?? 1),
+      id,
+    );
+    if (mix !== undefined) {
+      sound.stereo(mix.pan, id);
     }
   }
 
   public setSoundEffectsVolume(volume: number): void {
     this.soundEffectsVolume = Math.max(0, Math.min(1, volume));
-    this.soundEffects.forEach((sound) => {
-      sound.volume(this.soundEffectsVolume);
+    this.soundEffects.forEach((sound, name) => {
+      sound.volume(SOUND_EFFECTS[name].volume * this.soundEffectsVolume);
     });
   }
 
@@ -166,6 +328,7 @@ class SoundManager {
     if (sound) {
       sound.unload();
       this.soundEffects.delete(name);
+      this.voices.releaseAll(name);
     }
   }
 }
@@ -0,0 +1,101 @@
+/**
+ * Caps concurrent voices and rate-limits how often each effect may start,
+ * so a battle with thousands of units still only plays a handful of sounds.
+ */
+export class VoiceLimiter<K> {
+  private active = new Map<K, number>();
+  private lastStart = new Map<K, number>();
+  private total = 0;
+
+  constructor(
+    private readonly maxTotal: number,
+    private readonly now: () => number = () => performance.now(),
+  ) {}
+
+  /**
+   * Claims a voice for `key` if both caps and the interval allow it. Every
+   * successful claim must be paired with a `release`.
+   */
+  tryAcquire(key: K, maxVoices: number, minIntervalMs: number): boolean {
+    const now = this.now();
+    const last = this.lastStart.get(key);
+    if (last !== undefined && now - last < minIntervalMs) return false;
+    const active = this.active.get(key) ?? 0;
+    if (active >= maxVoices || this.total >= this.maxTotal) return false;
+
+    this.active.set(key, active + 1);
+    this.lastStart.set(key, now);
+    this.total++;
+    return true;
+  }
+
+  release(key: K) {
+    const active = this.active.get(key) ?? 0;
+    if (active === 0) return;
+    this.active.set(key, active - 1);
+    this.total--;
+  }
+
+  // Frees every voice of `key`, e.g. when its sound failed to load
+  releaseAll(key: K) {
+    this.total -= this.active.get(key) ?? 0;
+    this.active.delete(key);
+  }
+
+  activeVoices(key?: K): number {
+    return key === undefined ? this.total : (this.active.get(key) ?? 0);
+  }
+}
+
+export interface Viewport {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  // Screen pixels per world pixel
+  scale: number;
+}
+
+export interface SpatialMix {
+  volume: number;
+  // -1 (left) to 1 (right)
+  pan: number;
+}
+
+// Sounds fade out over this many viewport half-widths past the screen edge
+const FALLOFF_VIEWPORTS = 1;
+// Zoom at which on-screen sounds play at full volume
+const FULL_VOLUME_SCALE = 2;
+// Quietest on-screen volume when zoomed all the way out
+const MIN_ZOOM_VOLUME = 0.25;
+
+/**
+ * Volume and stereo pan for a sound at world position (x, y). Sounds inside
+ * the viewport are audible, fading to silence one viewport beyond its edges;
+ * zooming out makes everything quieter so a whole-map view isn't a wall of
+ * noise. Returns null when the sound would be inaudible.
+ */
+export function spatialMix(
+  x: number,
+  y: number,
+  view: Viewport,
+): SpatialMix | null {
+  const halfWidth = Math.max(1, (view.right - view.left) / 2);
+  const halfHeight = Math.max(1, (view.bottom - view.top) / 2);
+  const dx = (x - (view.left + halfWidth)) / halfWidth;
+  const dy = (y - (view.top + halfHeight)) / halfHeight;
+
+  // 0 inside the viewport, growing by 1 per viewport half-size outside it
+  const outside = Math.max(Math.abs(dx), Math.abs(dy)) - 1;
+  const distanceGain = outside <= 0 ? 1 : 1 - outside / (FALLOFF_VIEWPORTS * 2);
+  if (distanceGain <= 0) return null;
+
+  const zoomGain = Math.min(
+    1,
+    Math.max(MIN_ZOOM_VOLUME, view.scale / FULL_VOLUME_SCALE),
+  );
+  return {
+    volume: distanceGain * zoomGain,
+    pan: Math.max(-1, Math.min(1, dx)) * 0.8,
+  };
+}
@@ -1,8 +1,16 @@
+import { DecodedMapPackage } from "../../core/game/MapPackage";
 import { GameRecord, GameStartInfo } from "../../core/Schemas";
+import { SaveSlot } from "../SaveSlots";
 
 export interface JoinLobbyEvent {
   clientID: string;
   gameID: string;
   gameStartInfo?: GameStartInfo;
   gameRecord?: GameRecord;
+  // Terrain for GameMapType.Custom, when test-launching from the map editor
+  customMap?: DecodedMapPackage;
+  // Watch the game instead of playing in it
+  spectate?: boolean;
+  // Continue this saved singleplayer game
+  savedGame?: SaveSlot;
 }
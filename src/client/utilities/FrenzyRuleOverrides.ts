@@ -0,0 +1,33 @@
+import { FrenzyOverrides, FrenzyOverridesSchema } from "../../core/Schemas";
+
+/**
+ * Sets (or with `undefined`, clears) one field, dropping sections left empty.
+ * Returns null when the result would not pass server-side validation.
+ */
+export function withFrenzyOverride(
+  overrides: FrenzyOverrides,
+  path: readonly string[],
+  value: number | undefined,
+): FrenzyOverrides | null {
+  const next: Record<string, unknown> = structuredClone(overrides);
+  const parents: Record<string, unknown>[] = [next];
+  for (const key of path.slice(0, -1)) {
+    const parent = parents[parents.length - 1];
+    parent[key] ??= {};
+    parents.push(parent[key] as Record<string, unknown>);
+  }
+  const leaf = parents[parents.length - 1];
+  if (value === undefined) {
+    delete leaf[path[path.length - 1]];
+  } else {
+    leaf[path[path.length - 1]] = value;
+  }
+  for (let i = parents.length - 1; i > 0; i--) {
+    if (Object.keys(parents[i]).length === 0) {
+      delete parents[i - 1][path[i - 1]];
+    }
+  }
+
+  const result = FrenzyOverridesSchema.safeParse(next);
+  return result.success ? result.data : null;
+}
@@ -0,0 +1,232 @@
+import { html, TemplateResult } from "lit";
+import {
+  DEFAULT_FRENZY_CONFIG,
+  STRUCTURE_CONFIGS,
+} from "../../core/game/frenzy/FrenzyRegistry";
+import {
+  MAX_FRENZY_STRUCTURE_TIER,
+  StructureTypeKey,
+} from "../../core/game/frenzy/FrenzyTypes";
+import { FrenzyOverrides } from "../../core/Schemas";
+import "../components/FrenzyPresetPanel";
+import { translateText } from "../Utils";
+import { withFrenzyOverride } from "./FrenzyRuleOverrides";
+
+export interface FrenzyRuleRenderContext {
+  overrides: FrenzyOverrides;
+  setOverrides: (overrides: FrenzyOverrides) => void;
+}
+
+// Path into FrenzyOverrides: a top-level field, or section/key/field
+type RulePath =
+  | [keyof FrenzyOverrides]
+  | ["units", "soldier" | "eliteSoldier" | "warship", string]
+  | ["structures", StructureTypeKey, "buildCost" | "upgradeCost" | "maxTier"];
+
+interface RuleField {
+  path: RulePath;
+  labelKey: string;
+  defaultValue: number;
+  step?: number;
+}
+
+const generalFields: RuleField[] = [
+  {
+    path: ["startingGold"],
+    labelKey: "frenzy_rules.starting_gold",
+    defaultValue: DEFAULT_FRENZY_CONFIG.startingGold,
+    step: 1000,
+  },
+  {
+    path: ["maxUnitsPerPlayer"],
+    labelKey: "frenzy_rules.max_units",
+    defaultValue: DEFAULT_FRENZY_CONFIG.maxUnitsPerPlayer,
+  },
+  {
+    path: ["maxWarshipsPerPlayer"],
+    labelKey: "frenzy_rules.max_warships",
+    defaultValue: DEFAULT_FRENZY_CONFIG.maxWarshipsPerPlayer,
+  },
+  {
+    path: ["crystalClusterCount"],
+    labelKey: "frenzy_rules.crystal_count",
+    defaultValue: DEFAULT_FRENZY_CONFIG.crystalClusterCount,
+  },
+  {
+    path: ["spawnInterval"],
+    labelKey: "frenzy_rules.spawn_interval",
+    defaultValue: DEFAULT_FRENZY_CONFIG.spawnInterval,
+    step: 0.5,
+  },
+];
+
+const unitStats = ["health", "dps", "speed", "range"] as const;
+const units = [
+  { key: "soldier", labelKey: "frenzy_rules.soldier" },
+  { key: "eliteSoldier", labelKey: "frenzy_rules.elite_soldier" },
+  { key: "warship", labelKey: "unit_type.warship" },
+] as const;
+
+const structures: { key: StructureTypeKey; labelKey: string }[] = [
+  { key: "mine", labelKey: "unit_type.city" },
+  { key: "factory", labelKey: "unit_type.factory" },
+  { key: "port", labelKey: "unit_type.port" },
+  { key: "airport", labelKey: "unit_type.airport" },
+  { key: "defensePost", labelKey: "unit_type.defense_post" },
+  { key: "samLauncher", labelKey: "unit_type.sam_launcher" },
+  { key: "missileSilo", labelKey: "unit_type.missile_silo" },
+  { key: "shieldGenerator", labelKey: "unit_type.shield_generator" },
+  { key: "artillery", labelKey: "unit_type.artillery" },
+];
+
+function readOverride(
+  overrides: FrenzyOverrides,
+  path: RulePath,
+): number | undefined {
+  let value: unknown = overrides;
+  for (const key of path) {
+    value = (value as Record<string, unknown> | undefined)?.[key];
+  }
+  return typeof value === "number" ? value : undefined;
+}
+
+function renderField(
+  { overrides, setOverrides }: FrenzyRuleRenderContext,
+  field: RuleField,
+  label: string,
+): TemplateResult {
+  const value = readOverride(overrides, field.path);
+  const isTier = field.path[2] === "maxTier";
+  const highlight = value === undefined ? "" : "background: #fef3c7;";
+  return html`
+    <label
+      style="display: flex; justify-content: space-between; align-items: center; gap: 8px; font-size: 13px; color: #ccc;"
+    >
+      <span>${label}</span>
+      <input
+        type="number"
+        min=${isTier ? 1 : 0}
+        max=${isTier ? MAX_FRENZY_STRUCTURE_TIER : 1e9}
+        step=${field.step ?? 1}
+        placeholder=${String(field.defaultValue)}
+        .value=${value === undefined ? "" : String(value)}
+        style="width: 90px; color: black; text-align: right; border-radius: 6px; padding: 2px 4px; ${highlight}"
+        @change=${(e: Event) => {
+          const input = e.target as HTMLInputElement;
+          const raw = input.value.trim();
+          const next = withFrenzyOverride(
+            overrides,
+            field.path,
+            raw === "" ? undefined : Number(raw),
+          );
+          if (next === null) {
+            input.setCustomValidity(translateText("frenzy_rules.invalid"));
+            input.reportValidity();
+            return;
+          }
+          input.setCustomValidity("");
+          setOverrides(next);
+        }}
+      />
+    </label>
+  `;
+}
+
+function renderGroup(title: string, rows: TemplateResult[]): TemplateResult {
+  return html`
+    <div style="min-width: 200px; flex: 1;">
+      <div style="font-weight: bold; color: #ccc; margin-bottom: 6px;">
+        ${title}
+      </div>
+      <div style="display: flex; flex-direction: column; gap: 4px;">
+        ${rows}
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Editor for a lobby's Frenzy rule set. Empty inputs keep the default,
+ * shown as the placeholder; edited values are highlighted.
+ */
+export function renderFrenzyRuleOptions(
+  context: FrenzyRuleRenderContext,
+): TemplateResult {
+  const changed = Object.keys(context.overrides).length > 0;
+  return html`
+    <details style="width: 100%;">
+      <summary
+        style="cursor: pointer; font-weight: bold; color: #ccc; text-align: center; margin: 8px 0;"
+      >
+        ${translateText("frenzy_rules.title")}
+        ${changed ? translateText("frenzy_rules.modified") : ""}
+      </summary>
+      <div
+        style="display: flex; flex-wrap: wrap; gap: 16px; padding: 8px; justify-content: center;"
+      >
+        ${renderGroup(
+          translateText("frenzy_rules.general"),
+          generalFields.map((field) =>
+            renderField(context, field, translateText(field.labelKey)),
+          ),
+        )}
+        ${units.map(({ key, labelKey }) =>
+          renderGroup(
+            translateText(labelKey),
+            unitStats.map((stat) =>
+              renderField(
+                context,
+                {
+                  path: ["units", key, stat],
+                  labelKey: `frenzy_rules.${stat}`,
+                  defaultValue: DEFAULT_FRENZY_CONFIG.units[key][stat],
+                  step: stat === "speed" ? 0.25 : 1,
+                },
+                translateText(`frenzy_rules.${stat}`),
+              ),
+            ),
+          ),
+        )}
+        ${renderGroup(
+          translateText("frenzy_rules.structures"),
+          structures.flatMap(({ key, labelKey }) => [
+            renderField(
+              context,
+              {
+                path: ["structures", key, "buildCost"],
+                labelKey: "frenzy_rules.cost",
+                defaultValue: STRUCTURE_CONFIGS[key].buildCost,
+                step: 1000,
+              },
+              `${translateText(labelKey)} ${translateText("frenzy_rules.cost")}`,
+            ),
+            renderField(
+              context,
+              {
+                path: ["structures", key, "maxTier"],
+                labelKey: "frenzy_rules.max_tier",
+                defaultValue: STRUCTURE_CONFIGS[key].maxTier,
+              },
+              `${translateText(labelKey)} ${translateText("frenzy_rules.max_tier")}`,
+            ),
+          ]),
+        )}
+      </div>
+      <div style="text-align: center;">
+        <button
+          type="button"
+          ?disabled=${!changed}
+          style="padding: 4px 12px; border-radius: 6px; background: #444; color: white;"
+          @click=${() => context.setOverrides({})}
+        >
+          ${translateText("frenzy_rules.reset")}
+        </button>
+      </div>
+      <frenzy-preset-panel
+        .overrides=${context.overrides}
+        @preset-load=${(e: CustomEvent<FrenzyOverrides>) =>
+          context.setOverrides(e.detail)}
+      ></frenzy-preset-panel>
+    </details>
+  `;
+}
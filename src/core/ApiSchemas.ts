@@ -111,3 +111,51 @@ export const ClanLeaderboardResponseSchema = z.object({
 export type ClanLeaderboardResponse = z.infer<
   typeof ClanLeaderboardResponseSchema
 >;
+
+// Matchmaking queue on the master, see MatchmakingService.Master
+export const MatchmakingJoinRequestSchema = z.object({
+  // Players are matched within their region until they have waited a while
+  region: z.string().trim().min(1).max(32),
+  // Players joining with the same party code land in the same game
+  party: z.string().trim().min(1).max(32).optional(),
+  // Rated players are matched by their rating
+  playToken: z.string().max(2048).optional(),
+});
+export type MatchmakingJoinRequest = z.infer<
+  typeof MatchmakingJoinRequestSchema
+>;
+
+export const MatchmakingJoinResponseSchema = z.object({
+  ticketID: z.string(),
+});
+export type MatchmakingJoinResponse = z.infer<
+  typeof MatchmakingJoinResponseSchema
+>;
+
+export const MatchmakingTicketStatusSchema = z.discriminatedUnion("status", [
+  z.object({
+    status: z.literal("searching"),
+    waitedMs: z.number(),
+  }),
+  z.object({
+    status: z.literal("matched"),
+    gameID: z.string(),
+  }),
+]);
+export type MatchmakingTicketStatus = z.infer<
+  typeof MatchmakingTicketStatusSchema
+>;
+
+export const PlayerRatingsResponseSchema = z.object({
+  ratings: z.partialRecord(z.string(), z.number()),
+});
+export type PlayerRatingsResponse = z.infer<typeof PlayerRatingsResponseSchema>;
+
+export const RatingLeaderboardEntrySchema = z.object({
+  username: z.string(),
+  rating: z.number(),
+  games: z.number(),
+});
+export type RatingLeaderboardEntry = z.infer<
+  typeof RatingLeaderboardEntrySchema
+>;
@@ -1,4 +1,5 @@
 import { placeName } from "../client/graphics/NameBoxCalculator";
+import { Config } from "./configuration/Config";
 import { getConfig } from "./configuration/ConfigLoader";
 import { Executor } from "./execution/ExecutionManager";
 import { WinCheckExecution } from "./execution/WinCheckExecution";
@@ -21,17 +22,32 @@ import {
   PlayerType,
 } from "./game/Game";
 import { createGame } from "./game/GameImpl";
-import { GameMap, TileRef } from "./game/GameMap";
+import { GameMap, GameMapImpl, TileRef } from "./game/GameMap";
 import { GameMapLoader } from "./game/GameMapLoader";
 import {
   ErrorUpdate,
   GameUpdateType,
   GameUpdateViewData,
+  TimelineMarkerUpdate,
+  WinUpdate,
 } from "./game/GameUpdates";
 import { loadTerrainMap as loadGameMap } from "./game/TerrainMapLoader";
+import {
+  decodeSnapshotGraph,
+  encodeSnapshotGraph,
+  GameSnapshot,
+  SNAPSHOT_VERSION,
+} from "./GameSnapshot";
 import { PseudoRandom } from "./PseudoRandom";
-import { ClientID, GameStartInfo, Turn } from "./Schemas";
-import { sanitize, simpleHash } from "./Util";
+import { cloneGraph, ReplayCheckpoints } from "./ReplayCheckpoints";
+import {
+  Checkpoint,
+  ClientID,
+  GameStartInfo,
+  SNAPSHOT_INTERVAL_TURNS,
+  Turn,
+} from "./Schemas";
+import { humanPlayerIDs, sanitize, simpleHash } from "./Util";
 import { fixProfaneUsername } from "./validations/username";
 
 export async function createGameRunner(
@@ -39,8 +55,10 @@ export async function createGameRunner(
   clientID: ClientID,
   mapLoader: GameMapLoader,
   callBack: (gu: GameUpdateViewData | ErrorUpdate) => void,
+  configOverride?: Config,
 ): Promise<GameRunner> {
-  const config = await getConfig(gameStart.config, null);
+  // Headless runners (no /api/env to fetch) pass their own config
+  const config = configOverride ?? (await getConfig(gameStart.config, null));
   const gameMap = await loadGameMap(
     gameStart.config.gameMap,
     gameStart.config.gameMapSize,
@@ -48,6 +66,7 @@ export async function createGameRunner(
   );
   const random = new PseudoRandom(simpleHash(gameStart.gameID));
 
+  const playerIDs = humanPlayerIDs(random, gameStart.players);
   const humans = gameStart.players.map(
     (p) =>
       new PlayerInfo(
@@ -56,7 +75,9 @@ export async function createGameRunner(
           : fixProfaneUsername(sanitize(p.username)),
         PlayerType.Human,
         p.clientID,
-        random.nextID(),
+        playerIDs.get(p.clientID)!,
+        undefined,
+        p.rating,
       ),
   );
 
@@ -98,6 +119,7 @@ export async function createGameRunner(
     gameMap.gameMap,
     gameMap.miniGameMap,
     config,
+    gameMap.crystals,
   );
 
   const gr = new GameRunner(
@@ -177,12 +199,28 @@ function computeEvenSpawnTiles(
   return chosen;
 }
 
+interface RunnerState {
+  game: Game;
+  execManager: Executor;
+  playerViewData: Record<PlayerID, NameViewData>;
+}
+
 export class GameRunner {
   private turns: Turn[] = [];
   private currTurn = 0;
   private isExecuting = false;
 
   private playerViewData: Record<PlayerID, NameViewData> = {};
+  private checkpoints: ReplayCheckpoints<RunnerState> | null = null;
+  private liveSnapshots = false;
+  // Copied in memory when taken; only encoded if the server asks for it
+  private latestSnapshot: {
+    turn: number;
+    hash: number;
+    state: RunnerState;
+  } | null = null;
+  // The next update lists every tile and unit
+  private resyncNext = false;
 
   constructor(
     public game: Game,
@@ -222,6 +260,224 @@ export class GameRunner {
       return;
     }
     this.isExecuting = true;
+    const gu = this.tick();
+    if (gu === null) {
+      return;
+    }
+    this.callBack(gu);
+    this.isExecuting = false;
+  }
+
+  /**
+   * Keeps periodic in-memory checkpoints so replays can seek backwards
+   * without re-simulating from turn 0. Call before the first tick.
+   */
+  public enableCheckpoints() {
+    this.checkpoints ??= new ReplayCheckpoints<RunnerState>();
+  }
+
+  /**
+   * Keeps a copy of the game every SNAPSHOT_INTERVAL_TURNS turns, so the
+   * server can ask for it as a snapshot for clients that join late.
+   */
+  public enableLiveSnapshots() {
+    this.liveSnapshots = true;
+  }
+
+  /**
+   * The live snapshot taken after `turn` turns, or null if it is gone or
+   * was never taken.
+   */
+  public liveSnapshot(turn: number): GameSnapshot | null {
+    const latest = this.latestSnapshot;
+    if (latest === null || latest.turn !== turn) {
+      return null;
+    }
+    return {
+      version: SNAPSHOT_VERSION,
+      turn: latest.turn,
+      hash: latest.hash,
+      nodes: encodeSnapshotGraph(latest.state, this.snapshotShared()),
+    };
+  }
+
+  /**
+   * A snapshot of the game as it is now, for saving it. Null before the
+   * first turn.
+   */
+  public currentSnapshot(): GameSnapshot | null {
+    if (this.currTurn === 0) {
+      return null;
+    }
+    const state: RunnerState = {
+      game: this.game,
+      execManager: this.execManager,
+      playerViewData: this.playerViewData,
+    };
+    return {
+      version: SNAPSHOT_VERSION,
+      turn: this.currTurn,
+      hash: this.game.stateHash(),
+      nodes: encodeSnapshotGraph(state, this.snapshotShared()),
+    };
+  }
+
+  /**
+   * Continues from a snapshot instead of from the first turn. Throws unless
+   * the snapshot is of `expected.turn` and the restored game hashes to
+   * `expected.hash`; the snapshot's own hash is not trusted, since whoever
+   * uploaded it wrote that too. The next turn sent must be `snapshot.turn`;
+   * its update is a resync.
+   */
+  public restoreSnapshot(snapshot: GameSnapshot, expected: Checkpoint) {
+    if (this.currTurn !== 0) {
+      throw new Error("snapshots can only be restored before the first turn");
+    }
+    if (snapshot.turn !== expected.turn) {
+      throw new Error(
+        `snapshot is of turn ${snapshot.turn}, expected ${expected.turn}`,
+      );
+    }
+    const state = decodeSnapshotGraph(
+      snapshot.nodes,
+      this.snapshotShared(),
+    ) as RunnerState;
+    const hash = state.game.stateHash();
+    if (hash !== expected.hash) {
+      throw new Error(
+        `snapshot of turn ${snapshot.turn} hashes to ${hash}, expected ${expected.hash}`,
+      );
+    }
+    this.game = state.game;
+    this.execManager = state.execManager;
+    this.playerViewData = state.playerViewData;
+    this.currTurn = snapshot.turn;
+    this.turns.length = snapshot.turn;
+    this.game.frenzyManager()?.forceKeyframe();
+    this.resyncNext = true;
+  }
+
+  /**
+   * Moves the game to just after `turn` turns have executed, restoring the
+   * nearest earlier checkpoint if needed and fast-forwarding silently.
+   * Sends a single resync update; turns after `turn` are dropped and must be
+   * sent again.
+   */
+  public seek(turn: number) {
+    if (this.checkpoints === null) {
+      throw new Error("checkpoints are not enabled");
+    }
+    if (turn > this.turns.length) {
+      throw new Error(
+        `cannot seek to turn ${turn}, only ${this.turns.length} received`,
+      );
+    }
+    // At least one tick must run to produce the resync update
+    turn = Math.max(1, turn);
+
+    const checkpoint = this.checkpoints.nearest(turn - 1);
+    if (
+      checkpoint !== null &&
+      (checkpoint.turn > this.currTurn || turn <= this.currTurn)
+    ) {
+      const state = cloneGraph(checkpoint.state, this.sharedState());
+      this.game = state.game;
+      this.execManager = state.execManager;
+      this.playerViewData = state.playerViewData;
+      this.currTurn = checkpoint.turn;
+    }
+    if (turn <= this.currTurn) {
+      throw new Error(`no checkpoint before turn ${turn}`);
+    }
+
+    // Events from skipped ticks still belong on the timeline
+    const markers: TimelineMarkerUpdate[] = [];
+    const wins: WinUpdate[] = [];
+    while (this.currTurn < turn - 1) {
+      const skipped = this.tick();
+      if (skipped === null) {
+        return;
+      }
+      markers.push(...skipped.updates[GameUpdateType.TimelineMarker]);
+      wins.push(...skipped.updates[GameUpdateType.Win]);
+    }
+
+    this.game.frenzyManager()?.forceKeyframe();
+    this.resyncNext = true;
+    const gu = this.tick();
+    if (gu === null) {
+      return;
+    }
+    gu.updates[GameUpdateType.TimelineMarker].unshift(...markers);
+    gu.updates[GameUpdateType.Win].unshift(...wins);
+
+    this.turns.length = this.currTurn;
+    this.callBack(gu);
+  }
+
+  // Makes `gu` list every tile and unit, replacing whatever the view had
+  private addResync(gu: GameUpdateViewData) {
+    gu.updates[GameUpdateType.Unit] = this.game
+      .units()
+      .map((u) => u.toUpdate());
+
+    const tiles: bigint[] = [];
+    this.game.forEachTile((tile) => tiles.push(this.game.toTileUpdate(tile)));
+    gu.packedTileUpdates = new BigUint64Array(tiles);
+
+    this.game.players().forEach((p) => {
+      this.playerViewData[p.id()] = placeName(this.game, p);
+    });
+    gu.resync = true;
+  }
+
+  private sharedState(): ReadonlySet<object> {
+    return new Set(this.snapshotShared().values());
+  }
+
+  /**
+   * Objects every copy of this game shares instead of copying, by name.
+   * Config is immutable and may hold browser-side objects; terrain is
+   * loaded by every client anyway.
+   */
+  private snapshotShared(): Map<string, object> {
+    const shared = new Map<string, object>([["config", this.game.config()]]);
+    const maps = { map: this.game.map(), miniMap: this.game.miniMap() };
+    for (const [name, map] of Object.entries(maps)) {
+      if (map instanceof GameMapImpl) {
+        map.immutableData().forEach((data, i) => {
+          shared.set(`${name}.${i}`, data);
+        });
+      }
+    }
+    return shared;
+  }
+
+  private captureLiveSnapshot() {
+    const state: RunnerState = {
+      game: this.game,
+      execManager: this.execManager,
+      playerViewData: this.playerViewData,
+    };
+    this.latestSnapshot = {
+      turn: this.currTurn,
+      hash: this.game.stateHash(),
+      state: cloneGraph(state, this.sharedState()),
+    };
+  }
+
+  private tick(): GameUpdateViewData | null {
+    if (this.checkpoints?.shouldCapture(this.currTurn)) {
+      const state: RunnerState = {
+        game: this.game,
+        execManager: this.execManager,
+        playerViewData: this.playerViewData,
+      };
+      this.checkpoints.add(
+        this.currTurn,
+        cloneGraph(state, this.sharedState()),
+      );
+    }
 
     this.game.addExecution(
       ...this.execManager.createExecs(this.turns[this.currTurn]),
@@ -246,7 +502,7 @@ export class GameRunner {
       } else {
         console.error("Game tick error:", error);
       }
-      return;
+      return null;
     }
 
     if (this.game.inSpawnPhase() && this.game.ticks() % 2 === 0) {
@@ -274,15 +530,29 @@ export class GameRunner {
     // Get frenzy tick breakdown if available
     const frenzyBreakdown = this.game.frenzyManager()?.getTickBreakdown();
 
-    this.callBack({
+    // Taken right after a turn whose hash the clients vote on, so the
+    // server can check the snapshot against the vote
+    if (
+      this.liveSnapshots &&
+      this.currTurn > 1 &&
+      (this.currTurn - 1) % SNAPSHOT_INTERVAL_TURNS === 0
+    ) {
+      this.captureLiveSnapshot();
+    }
+
+    const gu: GameUpdateViewData = {
       tick: this.game.ticks(),
       packedTileUpdates: new BigUint64Array(packedTileUpdates),
       updates: updates,
       playerNameViewData: this.playerViewData,
       tickExecutionDuration: tickExecutionDuration,
       frenzyTickBreakdown: frenzyBreakdown,
-    });
-    this.isExecuting = false;
+    };
+    if (this.resyncNext) {
+      this.resyncNext = false;
+      this.addResync(gu);
+    }
+    return gu;
   }
 
   public playerActions(
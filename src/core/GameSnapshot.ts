@@ -0,0 +1,373 @@
+import { base64url } from "jose";
+import { z } from "zod";
+import {
+  SnapshotClass,
+  snapshotClasses,
+  snapshotFunctions,
+} from "./SnapshotRegistry";
+
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * A running game written out as JSON: every object reachable from the root,
+ * flattened into `nodes` with references by index. Restoring one and playing
+ * the turns from `turn` on continues the game exactly where it was.
+ */
+export const GameSnapshotSchema = z.object({
+  version: z.literal(SNAPSHOT_VERSION),
+  // Number of turns already executed
+  turn: z.number().int().positive(),
+  // Game hash after the last executed turn, as voted on for desync checks
+  hash: z.number().int(),
+  nodes: z.array(z.unknown()).min(1),
+});
+export type GameSnapshot = z.infer<typeof GameSnapshotSchema>;
+
+/**
+ * Implemented by classes whose state hides in closures (e.g. PseudoRandom).
+ * The class also needs a static `fromSnapshot(data)` to rebuild itself.
+ */
+export interface SnapshotSerializable {
+  toSnapshot(): unknown;
+}
+
+function isSnapshotSerializable(value: object): value is SnapshotSerializable {
+  return (
+    typeof (value as Partial<SnapshotSerializable>).toSnapshot === "function"
+  );
+}
+
+// Primitives are stored as is; everything else is a tagged tuple
+type Value = string | number | boolean | null | [string, ...unknown[]];
+
+type Node =
+  // Object with its class name; absent for plain objects, null for
+  // Object.create(null)
+  | { k: "obj"; c?: string | null; p: Record<string, Value> }
+  | { k: "arr"; v: Value[] }
+  | { k: "map"; e: Value[] }
+  | { k: "set"; v: Value[] }
+  | { k: "bytes"; c: string; d: string }
+  | { k: "date"; t: number }
+  | { k: "custom"; c: string; v: unknown };
+
+const TYPED_ARRAYS = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+};
+type TypedArrayName = keyof typeof TYPED_ARRAYS;
+
+function invert<K, V>(map: ReadonlyMap<K, V>): Map<V, K> {
+  return new Map(Array.from(map, ([k, v]) => [v, k]));
+}
+
+/**
+ * Flattens the object graph under `root`. Objects in `shared` are not
+ * written, only their name; `decodeSnapshotGraph` takes them from the
+ * restoring game, which must have the same ones (config, terrain).
+ * Throws on closures and unregistered classes.
+ */
+export function encodeSnapshotGraph(
+  root: object,
+  shared: ReadonlyMap<string, object>,
+): unknown[] {
+  const sharedNames = invert(shared);
+  const classNames = new Map(
+    Array.from(snapshotClasses(), ([name, cls]) => [cls.prototype, name]),
+  );
+  const functionNames = invert(snapshotFunctions());
+  const ids = new Map<object, number>();
+  const nodes: unknown[] = [];
+  const pending: object[] = [];
+
+  const ref = (value: object): Value => {
+    const name = sharedNames.get(value);
+    if (name !== undefined) {
+      return ["shared", name];
+    }
+    let id = ids.get(value);
+    if (id === undefined) {
+      id = nodes.length;
+      ids.set(value, id);
+      nodes.push(null);
+      pending.push(value);
+    }
+    return ["ref", id];
+  };
+
+  const encode = (value: unknown, owner: object, key: string): Value => {
+    switch (typeof value) {
+      case "string":
+      case "boolean":
+        return value;
+      case "number":
+        return Number.isFinite(value) && !Object.is(value, -0)
+          ? value
+          : ["num", Object.is(value, -0) ? "-0" : String(value)];
+      case "bigint":
+        return ["bigint", value.toString()];
+      case "undefined":
+        return ["undef"];
+      case "function": {
+        const name = functionNames.get(value as () => unknown);
+        if (name === undefined) {
+          const ownerName = owner.constructor?.name ?? "Object";
+          throw new Error(
+            `cannot snapshot the function in ${ownerName}.${key}`,
+          );
+        }
+        return ["fn", name];
+      }
+      case "object":
+        return value === null ? null : ref(value);
+      default:
+        throw new Error(`cannot snapshot a ${typeof value}`);
+    }
+  };
+
+  const className = (value: object): string => {
+    const name = classNames.get(Object.getPrototypeOf(value));
+    if (name === undefined) {
+      throw new Error(
+        `cannot snapshot ${value.constructor?.name}, it is not in SnapshotRegistry`,
+      );
+    }
+    return name;
+  };
+
+  const encodeNode = (value: object): Node => {
+    if (ArrayBuffer.isView(value)) {
+      const name = (Object.keys(TYPED_ARRAYS) as TypedArrayName[]).find(
+        (n) => value instanceof TYPED_ARRAYS[n],
+      );
+      if (name === undefined) {
+        throw new Error(`cannot snapshot a ${value.constructor.name}`);
+      }
+      const bytes = new Uint8Array(
+        value.buffer,
+        value.byteOffset,
+        value.byteLength,
+      );
+      return { k: "bytes", c: name, d: base64url.encode(bytes) };
+    }
+    if (value instanceof Date) {
+      return { k: "date", t: value.getTime() };
+    }
+    if (value instanceof Map) {
+      const e: Value[] = [];
+      for (const [k, v] of value) {
+        e.push(encode(k, value, "<key>"), encode(v, value, String(k)));
+      }
+      return { k: "map", e };
+    }
+    if (value instanceof Set) {
+      return {
+        k: "set",
+        v: Array.from(value, (v) => encode(v, value, "<item>")),
+      };
+    }
+    if (Array.isArray(value)) {
+      return {
+        k: "arr",
+        v: Array.from(value, (v, i) => encode(v, value, `${i}`)),
+      };
+    }
+    if (isSnapshotSerializable(value)) {
+      return { k: "custom", c: className(value), v: value.toSnapshot() };
+    }
+    const proto = Object.getPrototypeOf(value);
+    const p: Record<string, Value> = {};
+    for (const key of Object.keys(value)) {
+      p[key] = encode((value as Record<string, unknown>)[key], value, key);
+    }
+    if (proto === Object.prototype) {
+      return { k: "obj", p };
+    }
+    return { k: "obj", c: proto === null ? null : className(value), p };
+  };
+
+  ref(root);
+  // Ids are handed out in order, so pending[i] is node i
+  for (let i = 0; i < pending.length; i++) {
+    nodes[i] = encodeNode(pending[i]);
+  }
+  return nodes;
+}
+
+/**
+ * Rebuilds the graph written by `encodeSnapshotGraph`, with prototypes,
+ * shared references and cycles as they were. Returns the root.
+ */
+export function decodeSnapshotGraph(
+  nodes: unknown[],
+  shared: ReadonlyMap<string, object>,
+): unknown {
+  const classes = snapshotClasses();
+  const functions = snapshotFunctions();
+  const objects: unknown[] = new Array(nodes.length);
+
+  const classOf = (name: string): SnapshotClass => {
+    const cls = classes.get(name);
+    if (cls === undefined) {
+      throw new Error(`snapshot has unknown class ${name}`);
+    }
+    return cls;
+  };
+
+  const decode = (value: unknown): unknown => {
+    if (!Array.isArray(value)) {
+      return value;
+    }
+    const [tag, arg] = value as [string, string | number];
+    switch (tag) {
+      case "ref":
+        if (typeof arg !== "number" || !(arg in objects)) {
+          throw new Error(`snapshot has a broken reference ${arg}`);
+        }
+        return objects[arg];
+      case "shared":
+        if (!shared.has(arg as string)) {
+          throw new Error(`snapshot needs shared ${arg}, which is missing`);
+        }
+        return shared.get(arg as string);
+      case "fn":
+        if (!functions.has(arg as string)) {
+          throw new Error(`snapshot has unknown function ${arg}`);
+        }
+        return functions.get(arg as string);
+      case "num":
+        return Number(arg);
+      case "bigint":
+        return BigInt(arg);
+      case "undef":
+        return undefined;
+      default:
+        throw new Error(`snapshot has unknown value tag ${tag}`);
+    }
+  };
+
+  // Create every object first so references can point forward
+  nodes.forEach((raw, i) => {
+    const node = raw as Node;
+    switch (node.k) {
+      case "obj":
+        objects[i] =
+          node.c === undefined
+            ? {}
+            : Object.create(node.c === null ? null : classOf(node.c).prototype);
+        break;
+      case "arr":
+        objects[i] = new Array(node.v.length);
+        break;
+      case "map":
+        objects[i] = new Map();
+        break;
+      case "set":
+        objects[i] = new Set();
+        break;
+      case "bytes": {
+        const ctor = TYPED_ARRAYS[node.c as TypedArrayName];
+        if (ctor === undefined) {
+          throw new Error(`snapshot has unknown array type ${node.c}`);
+        }
+        const bytes = base64url.decode(node.d);
+        objects[i] = new ctor(
+          bytes.buffer.slice(
+            bytes.byteOffset,
+            bytes.byteOffset + bytes.byteLength,
+          ),
+        );
+        break;
+      }
+      case "date":
+        objects[i] = new Date(node.t);
+        break;
+      case "custom": {
+        const cls = classOf(node.c) as SnapshotClass & {
+          fromSnapshot?: (data: unknown) => object;
+        };
+        if (typeof cls.fromSnapshot !== "function") {
+          throw new Error(`${node.c} cannot be restored from a snapshot`);
+        }
+        objects[i] = cls.fromSnapshot(node.v);
+        break;
+      }
+      default:
+        throw new Error(`snapshot has unknown node kind ${(raw as Node).k}`);
+    }
+  });
+
+  nodes.forEach((raw, i) => {
+    const node = raw as Node;
+    const target = objects[i];
+    switch (node.k) {
+      case "obj":
+        // Defined rather than assigned, so a "__proto__" key stays data
+        for (const [key, value] of Object.entries(node.p)) {
+          Object.defineProperty(target, key, {
+            value: decode(value),
+            writable: true,
+            enumerable: true,
+            configurable: true,
+          });
+        }
+        break;
+      case "arr":
+        node.v.forEach((value, j) => {
+          (target as unknown[])[j] = decode(value);
+        });
+        break;
+      case "map":
+        for (let j = 0; j < node.e.length; j += 2) {
+          (target as Map<unknown, unknown>).set(
+            decode(node.e[j]),
+            decode(node.e[j + 1]),
+          );
+        }
+        break;
+      case "set":
+        for (const value of node.v) {
+          (target as Set<unknown>).add(decode(value));
+        }
+        break;
+    }
+  });
+  return objects[0];
+}
+
+/**
+ * Snapshots travel gzipped: most of their size is per-tile arrays that are
+ * largely zero.
+ */
+export async function compressSnapshot(
+  snapshot: GameSnapshot,
+): Promise<Uint8Array> {
+  const stream = new Blob([JSON.stringify(snapshot)])
+    .stream()
+    .pipeThrough(new CompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function decompressSnapshot(
+  data: Uint8Array,
+): Promise<GameSnapshot> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("gzip"));
+  const parsed = GameSnapshotSchema.safeParse(
+    JSON.parse(await new Response(stream).text()),
+  );
+  if (!parsed.success) {
+    throw new Error(`Invalid game snapshot: ${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
@@ -1,12 +1,30 @@
 import seedrandom from "seedrandom";
 
 export class PseudoRandom {
-  private rng: seedrandom.PRNG;
+  private rng: seedrandom.StatefulPRNG<seedrandom.State.Arc4>;
 
   private static readonly POW36_8 = Math.pow(36, 8); // Pre-compute 36^8
 
   constructor(seed: number) {
-    this.rng = seedrandom(String(seed));
+    this.rng = seedrandom(String(seed), { state: true });
+  }
+
+  // The generator is a closure, so replay checkpoints copy its state explicitly.
+  cloneForCheckpoint(): PseudoRandom {
+    const copy = Object.create(PseudoRandom.prototype) as PseudoRandom;
+    copy.rng = seedrandom("", { state: this.rng.state() });
+    return copy;
+  }
+
+  // Same for game snapshots, which store the state as JSON
+  toSnapshot(): seedrandom.State.Arc4 {
+    return this.rng.state();
+  }
+
+  static fromSnapshot(state: seedrandom.State.Arc4): PseudoRandom {
+    const random = Object.create(PseudoRandom.prototype) as PseudoRandom;
+    random.rng = seedrandom("", { state });
+    return random;
   }
 
   // Generates the next pseudorandom number between 0 and 1.
@@ -0,0 +1,145 @@
+/**
+ * Implemented by objects whose state hides in closures (e.g. PseudoRandom),
+ * which `cloneGraph` would otherwise share between original and copy.
+ */
+export interface CheckpointCloneable {
+  cloneForCheckpoint(): object;
+}
+
+function isCheckpointCloneable(value: object): value is CheckpointCloneable {
+  return (
+    typeof (value as Partial<CheckpointCloneable>).cloneForCheckpoint ===
+    "function"
+  );
+}
+
+/**
+ * Deep-copies an object graph while keeping prototypes, shared references and
+ * cycles intact, so a copied Game behaves exactly like the original.
+ * Functions and anything in `shared` are kept by reference.
+ * Iterative so deep unit/structure graphs cannot overflow the stack.
+ */
+export function cloneGraph<T>(root: T, shared: ReadonlySet<object>): T {
+  const copies = new Map<object, object>();
+  const pending: Array<[object, object]> = [];
+
+  const copyOf = (value: unknown): unknown => {
+    if (typeof value !== "object" || value === null || shared.has(value)) {
+      return value;
+    }
+    const existing = copies.get(value);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    let copy: object;
+    if (isCheckpointCloneable(value)) {
+      copy = value.cloneForCheckpoint();
+      copies.set(value, copy);
+      return copy;
+    }
+    if (ArrayBuffer.isView(value)) {
+      copy =
+        value instanceof DataView
+          ? new DataView(value.buffer.slice(0))
+          : (value as unknown as { slice(): object }).slice();
+      copies.set(value, copy);
+      return copy;
+    }
+    if (value instanceof ArrayBuffer) {
+      copy = value.slice(0);
+      copies.set(value, copy);
+      return copy;
+    }
+    if (value instanceof Date) {
+      copy = new Date(value.getTime());
+      copies.set(value, copy);
+      return copy;
+    }
+
+    if (value instanceof Map) {
+      copy = new Map();
+    } else if (value instanceof Set) {
+      copy = new Set();
+    } else if (Array.isArray(value)) {
+      copy = new Array(value.length);
+    } else {
+      copy = Object.create(Object.getPrototypeOf(value));
+    }
+    copies.set(value, copy);
+    pending.push([value, copy]);
+    return copy;
+  };
+
+  const result = copyOf(root) as T;
+  while (pending.length > 0) {
+    const [source, copy] = pending.pop()!;
+    if (source instanceof Map) {
+      for (const [k, v] of source) {
+        (copy as Map<unknown, unknown>).set(copyOf(k), copyOf(v));
+      }
+    } else if (source instanceof Set) {
+      for (const v of source) {
+        (copy as Set<unknown>).add(copyOf(v));
+      }
+    } else {
+      for (const key of Object.keys(source)) {
+        (copy as Record<string, unknown>)[key] = copyOf(
+          (source as Record<string, unknown>)[key],
+        );
+      }
+    }
+  }
+  return result;
+}
+
+export interface Checkpoint<S> {
+  turn: number;
+  state: S;
+}
+
+/**
+ * In-memory snapshots taken every `interval` turns while a replay plays.
+ * When `capacity` is reached every other checkpoint is dropped and the
+ * interval doubles, so long games keep even coverage in bounded memory.
+ */
+export class ReplayCheckpoints<S> {
+  private checkpoints: Checkpoint<S>[] = [];
+
+  constructor(
+    private interval: number = 600,
+    private readonly capacity: number = 20,
+  ) {}
+
+  shouldCapture(turn: number): boolean {
+    if (turn % this.interval !== 0) {
+      return false;
+    }
+    const last = this.checkpoints[this.checkpoints.length - 1];
+    return last === undefined || turn > last.turn;
+  }
+
+  add(turn: number, state: S) {
+    this.checkpoints.push({ turn, state });
+    if (this.checkpoints.length > this.capacity) {
+      this.interval *= 2;
+      this.checkpoints = this.checkpoints.filter(
+        (c) => c.turn % this.interval === 0,
+      );
+    }
+  }
+
+  // Latest checkpoint at or before `turn`
+  nearest(turn: number): Checkpoint<S> | null {
+    let best: Checkpoint<S> | null = null;
+    for (const checkpoint of this.checkpoints) {
+      if (checkpoint.turn > turn) break;
+      best = checkpoint;
+    }
+    return best;
+  }
+
+  turns(): number[] {
+    return this.checkpoints.map((c) => c.turn);
+  }
+}
@@ -6,6 +6,12 @@ import {
   PatternDataSchema,
   PatternNameSchema,
 } from "./CosmeticSchemas";
+import {
+  FrenzyConfigSchema,
+  FrenzyUnitOrder,
+  FrenzyUnitStatsKeySchema,
+  UnitTypeConfigSchema,
+} from "./game/frenzy/FrenzyTypes";
 import {
   AllPlayers,
   Difficulty,
@@ -20,6 +26,7 @@ import {
   Trios,
   UnitType,
 } from "./game/Game";
+import { MapHashSchema, MapPackageSchema } from "./game/MapPackage";
 import { PlayerStatsSchema } from "./StatsSchemas";
 import { flattenedEmojiTable } from "./Util";
 
@@ -56,7 +63,9 @@ export type Intent =
   | UpgradeMineIntent
   | UpgradePortIntent
   | UpgradeFrenzyUnitIntent
-  | SellFrenzyStructureIntent;
+  | SellFrenzyStructureIntent
+  | FrenzyUnitOrderIntent
+  | MapPingIntent;
 
 export type AttackIntent = z.infer<typeof AttackIntentSchema>;
 export type CancelAttackIntent = z.infer<typeof CancelAttackIntentSchema>;
@@ -100,6 +109,8 @@ export type UpgradeFrenzyUnitIntent = z.infer<
 export type SellFrenzyStructureIntent = z.infer<
   typeof SellFrenzyStructureIntentSchema
 >;
+export type FrenzyUnitOrderIntent = z.infer<typeof FrenzyUnitOrderIntentSchema>;
+export type MapPingIntent = z.infer<typeof MapPingIntentSchema>;
 
 export type Turn = z.infer<typeof TurnSchema>;
 export type GameConfig = z.infer<typeof GameConfigSchema>;
@@ -117,7 +128,8 @@ export type ServerMessage =
   | ServerPingMessage
   | ServerDesyncMessage
   | ServerPrestartMessage
-  | ServerErrorMessage;
+  | ServerErrorMessage
+  | ServerSnapshotRequestMessage;
 
 export type ServerTurnMessage = z.infer<typeof ServerTurnMessageSchema>;
 export type ServerStartGameMessage = z.infer<
@@ -127,6 +139,10 @@ export type ServerPingMessage = z.infer<typeof ServerPingMessageSchema>;
 export type ServerDesyncMessage = z.infer<typeof ServerDesyncSchema>;
 export type ServerPrestartMessage = z.infer<typeof ServerPrestartMessageSchema>;
 export type ServerErrorMessage = z.infer<typeof ServerErrorSchema>;
+export type ServerSnapshotRequestMessage = z.infer<
+  typeof ServerSnapshotRequestSchema
+>;
+export type Checkpoint = z.infer<typeof CheckpointSchema>;
 export type ClientSendWinnerMessage = z.infer<typeof ClientSendWinnerSchema>;
 export type ClientPingMessage = z.infer<typeof ClientPingMessageSchema>;
 export type ClientIntentMessage = z.infer<typeof ClientIntentMessageSchema>;
@@ -147,12 +163,14 @@ export interface GameInfo {
   gameID: GameID;
   clients?: ClientInfo[];
   numClients?: number;
+  numSpectators?: number;
   msUntilStart?: number;
   gameConfig?: GameConfig;
 }
 export interface ClientInfo {
   clientID: ClientID;
   username: string;
+  rating?: number;
 }
 export enum LogSeverity {
   Debug = "DEBUG",
@@ -175,6 +193,19 @@ const TeamCountConfigSchema = z.union([
 ]);
 export type TeamCountConfig = z.infer<typeof TeamCountConfigSchema>;
 
+// Any subset of FrenzyConfig, applied over the defaults when the game starts
+export const FrenzyOverridesSchema = FrenzyConfigSchema.extend({
+  units: z.partialRecord(
+    FrenzyUnitStatsKeySchema,
+    UnitTypeConfigSchema.partial().strict(),
+  ),
+})
+  .partial()
+  .strict();
+export type FrenzyOverrides = z.infer<typeof FrenzyOverridesSchema>;
+
+export const MAX_SPECTATOR_DELAY = 300;
+
 export const GameConfigSchema = z.object({
   gameMap: z.enum(GameMapType),
   difficulty: z.enum(Difficulty),
@@ -194,6 +225,16 @@ export const GameConfigSchema = z.object({
   maxTimerValue: z.number().int().min(1).max(120).optional(),
   disabledUnits: z.enum(UnitType).array().optional(),
   playerTeams: TeamCountConfigSchema.optional(),
+  frenzyOverrides: FrenzyOverridesSchema.optional(),
+  // Content hash of the uploaded package when gameMap is Custom
+  customMap: MapHashSchema.optional(),
+  // Seconds spectators trail the players by, so they cannot call out moves
+  spectatorDelay: z.number().int().min(0).max(MAX_SPECTATOR_DELAY).optional(),
+  // Frenzy: hide enemy units and structures outside the viewer's vision
+  fogOfWar: z.boolean().optional(),
+  // Counts towards ratings even though the lobby is private, for games made
+  // by the matchmaking queue
+  ranked: z.boolean().optional(),
 });
 
 export const TeamSchema = z.string();
@@ -418,6 +459,24 @@ export const SellFrenzyStructureIntentSchema = BaseIntentSchema.extend({
   structureType: z.string(),
 });
 
+// Upper bound on units per order; larger selections are split by the client
+export const MAX_ORDER_UNITS = 500;
+
+export const FrenzyUnitOrderIntentSchema = BaseIntentSchema.extend({
+  type: z.literal("frenzy_unit_order"),
+  unitIds: z.array(z.number().int().nonnegative()).min(1).max(MAX_ORDER_UNITS),
+  order: z.enum(FrenzyUnitOrder),
+  targetX: z.number().optional(),
+  targetY: z.number().optional(),
+});
+
+// Marks a spot for the sender's allies and teammates
+export const MapPingIntentSchema = BaseIntentSchema.extend({
+  type: z.literal("map_ping"),
+  x: z.number(),
+  y: z.number(),
+});
+
 const IntentSchema = z.discriminatedUnion("type", [
   AttackIntentSchema,
   CancelAttackIntentSchema,
@@ -449,6 +508,8 @@ const IntentSchema = z.discriminatedUnion("type", [
   UpgradePortIntentSchema,
   UpgradeFrenzyUnitIntentSchema,
   SellFrenzyStructureIntentSchema,
+  FrenzyUnitOrderIntentSchema,
+  MapPingIntentSchema,
 ]);
 
 //
@@ -502,6 +563,8 @@ export const PlayerSchema = z.object({
   clientID: ID,
   username: UsernameSchema,
   cosmetics: PlayerCosmeticsSchema.optional(),
+  // Skill rating for the game's pool, used to balance teams
+  rating: z.number().optional(),
 });
 
 export const GameStartInfoSchema = z.object({
@@ -538,12 +601,39 @@ export const ServerPrestartMessageSchema = z.object({
   gameMapSize: z.enum(GameMapSize),
 });
 
+// Clients keep a game snapshot every this many turns, see GameSnapshot
+export const SNAPSHOT_INTERVAL_TURNS = 600;
+// Largest gzipped snapshot the server stores
+export const MAX_SNAPSHOT_BYTES = 32 * 1024 * 1024;
+
+// A snapshot the server holds, taken after `turn` turns
+export const CheckpointSchema = z.object({
+  turn: z.number().int().positive(),
+  hash: z.number().int(),
+});
+
 export const ServerStartGameMessageSchema = z.object({
   type: z.literal("start"),
   // Turns the client missed if they are late to the game.
   turns: TurnSchema.array(),
   gameStartInfo: GameStartInfoSchema,
   lobbyCreatedAt: z.number(),
+  // Clients starting from scratch can restore this instead of replaying
+  // every turn before it
+  checkpoint: CheckpointSchema.optional(),
+});
+
+// Asks an in-sync client to upload its snapshot of turn `turn`
+export const ServerSnapshotRequestSchema = z.object({
+  type: z.literal("snapshot_request"),
+  turn: z.number().int().positive(),
+});
+
+export const FrenzyHashBreakdownSchema = z.object({
+  units: z.number(),
+  structures: z.number(),
+  economy: z.number(),
+  territory: z.number(),
 });
 
 export const ServerDesyncSchema = z.object({
@@ -553,6 +643,13 @@ export const ServerDesyncSchema = z.object({
   clientsWithCorrectHash: z.number(),
   totalActiveClients: z.number(),
   yourHash: z.number().optional(),
+  // Frenzy only: per-subsystem hashes to show which part of the state drifted.
+  correctFrenzyHashes: FrenzyHashBreakdownSchema.optional(),
+  yourFrenzyHashes: FrenzyHashBreakdownSchema.optional(),
+  driftedFrenzySubsystems: z
+    .enum(["units", "structures", "economy", "territory"])
+    .array()
+    .optional(),
 });
 
 export const ServerErrorSchema = z.object({
@@ -568,6 +665,7 @@ export const ServerMessageSchema = z.discriminatedUnion("type", [
   ServerPingMessageSchema,
   ServerDesyncSchema,
   ServerErrorSchema,
+  ServerSnapshotRequestSchema,
 ]);
 
 //
@@ -584,6 +682,7 @@ export const ClientHashSchema = z.object({
   type: z.literal("hash"),
   hash: z.number(),
   turnNumber: z.number(),
+  frenzyHashes: FrenzyHashBreakdownSchema.optional(),
 });
 
 export const ClientLogMessageSchema = z.object({
@@ -611,6 +710,8 @@ export const ClientJoinMessageSchema = z.object({
   username: UsernameSchema,
   // Server replaces the refs with the actual cosmetic data.
   cosmetics: PlayerCosmeticRefsSchema.optional(),
+  // Spectators receive turns but never join the game as a player
+  spectator: z.boolean().optional(),
 });
 
 export const ClientMessageSchema = z.discriminatedUnion("type", [
@@ -667,10 +768,13 @@ export type AnalyticsRecord = z.infer<typeof AnalyticsRecordSchema>;
 
 export const GameRecordSchema = AnalyticsRecordSchema.extend({
   turns: TurnSchema.array(),
+  // Custom map the game was played on, so replays can load it
+  customMap: MapPackageSchema.optional(),
 });
 
 export const PartialGameRecordSchema = PartialAnalyticsRecordSchema.extend({
   turns: TurnSchema.array(),
+  customMap: MapPackageSchema.optional(),
 });
 
 export type PartialGameRecord = z.infer<typeof PartialGameRecordSchema>;
@@ -0,0 +1,222 @@
+import FastPriorityQueue from "fastpriorityqueue";
+import { AllianceExtensionExecution } from "./execution/alliance/AllianceExtensionExecution";
+import { AllianceRequestExecution } from "./execution/alliance/AllianceRequestExecution";
+import { AllianceRequestReplyExecution } from "./execution/alliance/AllianceRequestReplyExecution";
+import { BreakAllianceExecution } from "./execution/alliance/BreakAllianceExecution";
+import { AttackExecution } from "./execution/AttackExecution";
+import { BoatRetreatExecution } from "./execution/BoatRetreatExecution";
+import { BotExecution } from "./execution/BotExecution";
+import { BotSpawner } from "./execution/BotSpawner";
+import { CityExecution } from "./execution/CityExecution";
+import { ConstructionExecution } from "./execution/ConstructionExecution";
+import { DefensePostExecution } from "./execution/DefensePostExecution";
+import { DeleteUnitExecution } from "./execution/DeleteUnitExecution";
+import { DonateGoldExecution } from "./execution/DonateGoldExecution";
+import { DonateTroopsExecution } from "./execution/DonateTroopExecution";
+import { EmbargoAllExecution } from "./execution/EmbargoAllExecution";
+import { EmbargoExecution } from "./execution/EmbargoExecution";
+import { EmojiExecution } from "./execution/EmojiExecution";
+import { Executor } from "./execution/ExecutionManager";
+import { FactoryExecution } from "./execution/FactoryExecution";
+import { FakeHumanExecution } from "./execution/FakeHumanExecution";
+import { MapPingExecution } from "./execution/MapPingExecution";
+import { MarkDisconnectedExecution } from "./execution/MarkDisconnectedExecution";
+import { MirvExecution } from "./execution/MIRVExecution";
+import { MissileSiloExecution } from "./execution/MissileSiloExecution";
+import { MoveWarshipExecution } from "./execution/MoveWarshipExecution";
+import { FrenzyNationStrategy } from "./execution/nation/FrenzyNationStrategy";
+import { NoOpExecution } from "./execution/NoOpExecution";
+import { NukeExecution } from "./execution/NukeExecution";
+import { PlayerExecution } from "./execution/PlayerExecution";
+import { PortExecution } from "./execution/PortExecution";
+import { QuickChatExecution } from "./execution/QuickChatExecution";
+import { RailroadExecution } from "./execution/RailroadExecution";
+import { RetreatExecution } from "./execution/RetreatExecution";
+import {
+  SAMLauncherExecution,
+  SAMTargetingSystem,
+} from "./execution/SAMLauncherExecution";
+import { SAMMissileExecution } from "./execution/SAMMissileExecution";
+import { ShellExecution } from "./execution/ShellExecution";
+import { SpawnExecution } from "./execution/SpawnExecution";
+import { TargetPlayerExecution } from "./execution/TargetPlayerExecution";
+import { TradeShipExecution } from "./execution/TradeShipExecution";
+import { TrainExecution } from "./execution/TrainExecution";
+import { TrainStationExecution } from "./execution/TrainStationExecution";
+import { TransportShipExecution } from "./execution/TransportShipExecution";
+import { UpgradeStructureExecution } from "./execution/UpgradeStructureExecution";
+import { BotBehavior } from "./execution/utils/BotBehavior";
+import { FlatBinaryHeap } from "./execution/utils/FlatBinaryHeap";
+import { PlayerSpawner } from "./execution/utils/PlayerSpawner";
+import { WarshipExecution } from "./execution/WarshipExecution";
+import { WinCheckExecution, WinEvent } from "./execution/WinCheckExecution";
+import { AllianceImpl } from "./game/AllianceImpl";
+import { AllianceRequestImpl } from "./game/AllianceRequestImpl";
+import { AttackImpl } from "./game/AttackImpl";
+import {
+  FrenzyCollectionEncoder,
+  FrenzyCollectionState,
+  FrenzyDeltaEncoder,
+} from "./game/frenzy/FrenzyDelta";
+import { FrenzyManager } from "./game/frenzy/FrenzyManager";
+import { SpatialHashGrid } from "./game/frenzy/SpatialHashGrid";
+import { Cell, Nation, PlayerInfo } from "./game/Game";
+import { GameImpl } from "./game/GameImpl";
+import { GameMapImpl } from "./game/GameMap";
+import { Donation, PlayerImpl } from "./game/PlayerImpl";
+import {
+  RailNetworkImpl,
+  RailPathFinderServiceImpl,
+  StationManagerImpl,
+} from "./game/RailNetworkImpl";
+import { OrientedRailroad, Railroad } from "./game/Railroad";
+import { StatsImpl } from "./game/StatsImpl";
+import { TerraNulliusImpl } from "./game/TerraNulliusImpl";
+import {
+  CityStopHandler,
+  Cluster,
+  FactoryStopHandler,
+  PortStopHandler,
+  TrainStation,
+  TrainStationMapAdapter,
+} from "./game/TrainStation";
+import { UnitGrid } from "./game/UnitGrid";
+import { UnitImpl } from "./game/UnitImpl";
+import { LandFlowField } from "./pathfinding/LandFlowField";
+import { LandHPAPathFinder } from "./pathfinding/LandHPAPathFinder";
+import { GameMapAdapter, MiniAStar } from "./pathfinding/MiniAStar";
+import {
+  AirPathFinder,
+  ParabolaPathFinder,
+  PathFinder,
+} from "./pathfinding/PathFinding";
+import { byFScore, SerialAStar } from "./pathfinding/SerialAStar";
+import { WaterHPAPathFinder } from "./pathfinding/WaterHPAPathFinder";
+import { PseudoRandom } from "./PseudoRandom";
+import {
+  BezenhamLine,
+  CubicBezierCurve,
+  DistanceBasedBezierCurve,
+} from "./utilities/Line";
+
+/**
+ * Every class whose instances can be part of a running game, by a stable
+ * name. Game snapshots store these names instead of prototypes, since
+ * minified builds rename classes. A class missing here makes snapshots of
+ * games that use it fail with an error naming it.
+ */
+export type SnapshotClass = abstract new (...args: any[]) => object;
+
+let classes: ReadonlyMap<string, SnapshotClass> | null = null;
+export type SnapshotFunction = (...args: never[]) => unknown;
+
+let functions: ReadonlyMap<string, SnapshotFunction> | null = null;
+
+// Built on first use, so import cycles cannot leave entries undefined
+export function snapshotClasses(): ReadonlyMap<string, SnapshotClass> {
+  classes ??= new Map(
+    Object.entries({
+      AirPathFinder,
+      AllianceExtensionExecution,
+      AllianceImpl,
+      AllianceRequestExecution,
+      AllianceRequestImpl,
+      AllianceRequestReplyExecution,
+      AttackExecution,
+      AttackImpl,
+      BezenhamLine,
+      BoatRetreatExecution,
+      BotBehavior,
+      BotExecution,
+      BotSpawner,
+      BreakAllianceExecution,
+      Cell,
+      CityExecution,
+      CityStopHandler,
+      Cluster,
+      ConstructionExecution,
+      CubicBezierCurve,
+      DefensePostExecution,
+      DeleteUnitExecution,
+      DistanceBasedBezierCurve,
+      DonateGoldExecution,
+      DonateTroopsExecution,
+      Donation,
+      EmbargoAllExecution,
+      EmbargoExecution,
+      EmojiExecution,
+      Executor,
+      FactoryExecution,
+      FactoryStopHandler,
+      FakeHumanExecution,
+      FastPriorityQueue,
+      FlatBinaryHeap,
+      FrenzyCollectionEncoder,
+      FrenzyCollectionState,
+      FrenzyDeltaEncoder,
+      FrenzyManager,
+      FrenzyNationStrategy,
+      GameImpl,
+      GameMapAdapter,
+      GameMapImpl,
+      LandFlowField,
+      LandHPAPathFinder,
+      MapPingExecution,
+      MarkDisconnectedExecution,
+      MiniAStar,
+      MirvExecution,
+      MissileSiloExecution,
+      MoveWarshipExecution,
+      Nation,
+      NoOpExecution,
+      NukeExecution,
+      OrientedRailroad,
+      ParabolaPathFinder,
+      PathFinder,
+      PlayerExecution,
+      PlayerImpl,
+      PlayerInfo,
+      PlayerSpawner,
+      PortExecution,
+      PortStopHandler,
+      PseudoRandom,
+      QuickChatExecution,
+      RailNetworkImpl,
+      RailPathFinderServiceImpl,
+      Railroad,
+      RailroadExecution,
+      RetreatExecution,
+      SAMLauncherExecution,
+      SAMMissileExecution,
+      SAMTargetingSystem,
+      SerialAStar,
+      ShellExecution,
+      SpatialHashGrid,
+      SpawnExecution,
+      StationManagerImpl,
+      StatsImpl,
+      TargetPlayerExecution,
+      TerraNulliusImpl,
+      TradeShipExecution,
+      TrainExecution,
+      TrainStation,
+      TrainStationExecution,
+      TrainStationMapAdapter,
+      TransportShipExecution,
+      UnitGrid,
+      UnitImpl,
+      UpgradeStructureExecution,
+      WarshipExecution,
+      WaterHPAPathFinder,
+      WinCheckExecution,
+      WinEvent,
+    }),
+  );
+  return classes;
+}
+
+// Module level functions game objects hold references to
+export function snapshotFunctions(): ReadonlyMap<string, SnapshotFunction> {
+  functions ??= new Map(Object.entries({ byFScore }));
+  return functions;
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { FrenzyStructureType, FrenzyUnitType } from "./game/frenzy/FrenzyTypes";
 import { UnitType } from "./game/Game";
 
 export const bombUnits = ["abomb", "hbomb", "mirv", "mirvw"] as const;
@@ -86,6 +87,44 @@ export const OTHER_INDEX_CAPTURE = 2; // Structures captured
 export const OTHER_INDEX_LOST = 3; // Structures/warships destroyed/captured by others
 export const OTHER_INDEX_UPGRADE = 4; // Structures upgraded
 
+// Frenzy units (per FrenzyUnitType)
+export const FRENZY_UNIT_INDEX_SPAWN = 0; // Units spawned
+export const FRENZY_UNIT_INDEX_LOST = 1; // Units killed
+
+// Frenzy damage
+export const FRENZY_DAMAGE_INDEX_DEALT = 0; // Damage dealt to enemy units and structures
+export const FRENZY_DAMAGE_INDEX_TAKEN = 1; // Damage taken from enemies
+
+// Frenzy structures (buildings and towers)
+export const FRENZY_STRUCTURE_INDEX_BUILT = 0; // Structures built
+export const FRENZY_STRUCTURE_INDEX_UPGRADE = 1; // Structures upgraded
+export const FRENZY_STRUCTURE_INDEX_SELL = 2; // Structures sold
+export const FRENZY_STRUCTURE_INDEX_CAPTURE = 3; // Structures captured from others
+
+// Frenzy gold
+export const FRENZY_GOLD_INDEX_BASE = 0; // Mine base and cell area income
+export const FRENZY_GOLD_INDEX_CRYSTAL = 1; // Mine crystal bonus
+
+// Towers are Frenzy units but count as structures in the stats
+export const frenzyTowerTypes = [
+  FrenzyUnitType.DefensePost,
+  FrenzyUnitType.SAMLauncher,
+  FrenzyUnitType.MissileSilo,
+  FrenzyUnitType.ShieldGenerator,
+  FrenzyUnitType.Artillery,
+] as const;
+export type FrenzyTowerType = (typeof frenzyTowerTypes)[number];
+export function isFrenzyTowerType(
+  type: FrenzyUnitType,
+): type is FrenzyTowerType {
+  return (frenzyTowerTypes as readonly FrenzyUnitType[]).includes(type);
+}
+export const FrenzyStructureKeySchema = z.enum([
+  ...Object.values(FrenzyStructureType),
+  ...frenzyTowerTypes,
+]);
+export type FrenzyStructureKey = z.infer<typeof FrenzyStructureKeySchema>;
+
 export const BigIntStringSchema = z.preprocess((val) => {
   if (typeof val === "string" && /^-?\d+$/.test(val)) return BigInt(val);
   if (typeof val === "bigint") return val;
@@ -95,6 +134,29 @@ export const BigIntStringSchema = z.preprocess((val) => {
 const AtLeastOneNumberSchema = BigIntStringSchema.array().min(1);
 export type AtLeastOneNumber = z.infer<typeof AtLeastOneNumberSchema>;
 
+// [tick, tiles owned, gold, mobile units]
+export const FrenzyStatsSampleSchema = z.tuple([
+  z.number(),
+  z.number(),
+  z.number(),
+  z.number(),
+]);
+export type FrenzyStatsSample = z.infer<typeof FrenzyStatsSampleSchema>;
+
+export const FrenzyStatsSchema = z.object({
+  units: z
+    .partialRecord(z.enum(FrenzyUnitType), AtLeastOneNumberSchema)
+    .optional(),
+  damage: AtLeastOneNumberSchema.optional(),
+  structures: z
+    .partialRecord(FrenzyStructureKeySchema, AtLeastOneNumberSchema)
+    .optional(),
+  gold: AtLeastOneNumberSchema.optional(),
+  peakTiles: BigIntStringSchema.optional(),
+  timeline: FrenzyStatsSampleSchema.array().optional(),
+});
+export type FrenzyStats = z.infer<typeof FrenzyStatsSchema>;
+
 export const PlayerStatsSchema = z
   .object({
     attacks: AtLeastOneNumberSchema.optional(),
@@ -105,6 +167,7 @@ export const PlayerStatsSchema = z
     bombs: z.partialRecord(BombUnitSchema, AtLeastOneNumberSchema).optional(),
     gold: AtLeastOneNumberSchema.optional(),
     units: z.partialRecord(OtherUnitSchema, AtLeastOneNumberSchema).optional(),
+    frenzy: FrenzyStatsSchema.optional(),
   })
   .optional();
 export type PlayerStats = z.infer<typeof PlayerStatsSchema>;
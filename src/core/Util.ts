@@ -1,8 +1,11 @@
 import DOMPurify from "dompurify";
 import { customAlphabet } from "nanoid";
-import { Cell, Unit } from "./game/Game";
+import { Cell, PlayerID, Unit } from "./game/Game";
 import { GameMap, TileRef } from "./game/GameMap";
+import { MapPackage } from "./game/MapPackage";
+import { PseudoRandom } from "./PseudoRandom";
 import {
+  ClientID,
   GameConfig,
   GameID,
   GameRecord,
@@ -71,6 +74,15 @@ export function simpleHash(str: string): number {
   return Math.abs(hash);
 }
 
+// Humans take the first IDs of the game's seeded random, in join order, so
+// the server can derive them without running the game
+export function humanPlayerIDs(
+  random: PseudoRandom,
+  players: readonly { clientID: ClientID }[],
+): Map<ClientID, PlayerID> {
+  return new Map(players.map((p) => [p.clientID, random.nextID()]));
+}
+
 export function calculateBoundingBox(
   gm: GameMap,
   borderTiles: ReadonlySet<TileRef>,
@@ -196,6 +208,7 @@ export function createPartialGameRecord(
   winner: Winner,
   // lobby creation time (ms). Defaults to start time for singleplayer.
   lobbyCreatedAt?: number,
+  customMap?: MapPackage,
 ): PartialGameRecord {
   const duration = Math.floor((end - start) / 1000);
   const num_turns = allTurns.length;
@@ -225,6 +238,7 @@ export function createPartialGameRecord(
     },
     version: "v0.0.2",
     turns,
+    ...(customMap !== undefined ? { customMap } : {}),
   };
   return record;
 }
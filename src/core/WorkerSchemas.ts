@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { GameMapType } from "./game/Game";
 import { GameConfigSchema } from "./Schemas";
 
 export const CreateGameInputSchema = GameConfigSchema.or(
@@ -9,3 +10,11 @@ export const CreateGameInputSchema = GameConfigSchema.or(
 );
 
 export const GameInputSchema = GameConfigSchema.partial();
+
+// Query string of GET /api/archived_games
+export const ArchiveQuerySchema = z.object({
+  player: z.string().max(64).optional(),
+  gameMap: z.enum(GameMapType).optional(),
+  winner: z.string().max(64).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
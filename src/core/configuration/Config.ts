@@ -5,6 +5,7 @@ import {
   Game,
   GameMapType,
   GameMode,
+  GameType,
   Gold,
   Player,
   PlayerInfo,
@@ -26,6 +27,20 @@ export enum GameEnv {
   Prod,
 }
 
+export enum ArchiveStoreType {
+  // POST/GET game records to the API at jwtIssuer()
+  Api = "api",
+  // gzip files under archiveDir(), for self-hosted and offline servers
+  Local = "local",
+}
+
+export enum MatchmakingService {
+  // Queue on the API at jwtIssuer(), which workers check in with for games
+  Api = "api",
+  // Queue on the master, which creates matched games on its workers
+  Master = "master",
+}
+
 export interface ServerConfig {
   turnIntervalMs(): number;
   gameCreationRate(): number;
@@ -64,6 +79,19 @@ export interface ServerConfig {
   stripePublishableKey(): string;
   allowedFlares(): string[] | undefined;
   enableMatchmaking(): boolean;
+  matchmakingService(): MatchmakingService;
+  archiveStore(): ArchiveStoreType;
+  archiveDir(): string;
+  // Local store only; 0 keeps records forever
+  archiveRetentionDays(): number;
+  // Public lobby rotation, reloaded by the master when it changes
+  playlistPath(): string;
+  // Skill ratings, written by the master and read by workers
+  ratingsPath(): string;
+  // Built-in map packages, read by workers for the size of each map
+  mapsPath(): string;
+  // Rejected intents per minute that get a client kicked; 0 never kicks
+  intentKickThreshold(gameType: GameType): number;
 }
 
 export interface NukeMagnitude {
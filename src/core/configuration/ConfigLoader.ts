@@ -15,6 +15,15 @@ export async function getConfig(
   isReplay: boolean = false,
 ): Promise<Config> {
   const sc = await getServerConfigFromClient();
+  return createConfig(sc, gameConfig, userSettings, isReplay);
+}
+
+export function createConfig(
+  sc: ServerConfig,
+  gameConfig: GameConfig,
+  userSettings: UserSettings | null,
+  isReplay: boolean = false,
+): Config {
   switch (sc.env()) {
     case GameEnv.Dev:
       return new DevConfig(sc, gameConfig, userSettings, isReplay);
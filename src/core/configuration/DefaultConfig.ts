@@ -2,8 +2,10 @@ import { JWK } from "jose";
 import { z } from "zod";
 import {
   DEFAULT_FRENZY_CONFIG,
+  getStructureConfig,
   STRUCTURE_CONFIGS,
-} from "../game/frenzy/FrenzyTypes";
+} from "../game/frenzy/FrenzyRegistry";
+import { StructureConfig, StructureTypeKey } from "../game/frenzy/FrenzyTypes";
 import {
   Difficulty,
   Duos,
@@ -31,7 +33,15 @@ import { UserSettings } from "../game/UserSettings";
 import { GameConfig, GameID, TeamCountConfig } from "../Schemas";
 import { NukeType } from "../StatsSchemas";
 import { assertNever, sigmoid, simpleHash, within } from "../Util";
-import { Config, GameEnv, NukeMagnitude, ServerConfig, Theme } from "./Config";
+import {
+  ArchiveStoreType,
+  Config,
+  GameEnv,
+  MatchmakingService,
+  NukeMagnitude,
+  ServerConfig,
+  Theme,
+} from "./Config";
 import { FrenzyTheme } from "./FrenzyTheme";
 import { PastelTheme } from "./PastelTheme";
 import { PastelThemeDark } from "./PastelThemeDark";
@@ -62,6 +72,7 @@ const numPlayersConfig = {
   [GameMapType.BlackSea]: [50, 30, 30],
   [GameMapType.Britannia]: [50, 30, 20],
   [GameMapType.CircleMap]: [20, 15, 10],
+  [GameMapType.Custom]: [20, 15, 10],
   [GameMapType.DeglaciatedAntarctica]: [50, 40, 30],
   [GameMapType.EastAsia]: [50, 30, 20],
   [GameMapType.Europe]: [100, 70, 50],
@@ -230,6 +241,51 @@ export abstract class DefaultServerConfig implements ServerConfig {
   enableMatchmaking(): boolean {
     return false;
   }
+  matchmakingService(): MatchmakingService {
+    return MatchmakingService.Api;
+  }
+  archiveStore(): ArchiveStoreType {
+    const store = process.env.ARCHIVE_STORE ?? ArchiveStoreType.Api;
+    if (!Object.values<string>(ArchiveStoreType).includes(store)) {
+      throw new Error(`Invalid ARCHIVE_STORE: ${store}`);
+    }
+    return store as ArchiveStoreType;
+  }
+  archiveDir(): string {
+    return process.env.ARCHIVE_DIR ?? "archive";
+  }
+  ratingsPath(): string {
+    return process.env.RATINGS_PATH ?? "ratings.json";
+  }
+  archiveRetentionDays(): number {
+    const days = Number(process.env.ARCHIVE_RETENTION_DAYS ?? "0");
+    if (!Number.isFinite(days) || days < 0) {
+      throw new Error(
+        `Invalid ARCHIVE_RETENTION_DAYS: ${process.env.ARCHIVE_RETENTION_DAYS}`,
+      );
+    }
+    return days;
+  }
+  playlistPath(): string {
+    return process.env.PLAYLIST_PATH ?? "resources/playlist.json";
+  }
+  mapsPath(): string {
+    // The client build copies resources/maps here
+    return process.env.MAPS_PATH ?? "static/maps";
+  }
+  intentKickThreshold(gameType: GameType): number {
+    switch (gameType) {
+      case GameType.Public:
+        return 100;
+      case GameType.Private:
+        // Hosts can kick troublemakers themselves
+        return 300;
+      case GameType.Singleplayer:
+        return 0;
+      default:
+        assertNever(gameType);
+    }
+  }
 }
 
 export class DefaultConfig implements Config {
@@ -327,7 +383,10 @@ export class DefaultConfig implements Config {
   startingGold(): Gold {
     // In Frenzy mode, use configurable starting gold
     if (this._gameConfig.gameFork === GameFork.Frenzy) {
-      return BigInt(DEFAULT_FRENZY_CONFIG.startingGold);
+      return BigInt(
+        this._gameConfig.frenzyOverrides?.startingGold ??
+          DEFAULT_FRENZY_CONFIG.startingGold,
+      );
     }
     return 0n;
   }
@@ -479,7 +538,7 @@ export class DefaultConfig implements Config {
         return {
           cost:
             this._gameConfig.gameFork === GameFork.Frenzy
-              ? () => BigInt(STRUCTURE_CONFIGS.port.buildCost)
+              ? () => BigInt(this.frenzyStructure("port").buildCost)
               : this.costWrapper(
                   (numUnits: number) =>
                     Math.min(1_000_000, Math.pow(2, numUnits) * 125_000),
@@ -530,7 +589,7 @@ export class DefaultConfig implements Config {
         return {
           cost:
             this._gameConfig.gameFork === GameFork.Frenzy
-              ? () => BigInt(STRUCTURE_CONFIGS.missileSilo.buildCost)
+              ? () => BigInt(this.frenzyStructure("missileSilo").buildCost)
               : this.costWrapper(() => 1_000_000, UnitType.MissileSilo),
           territoryBound: true,
           constructionDuration: this.instantBuild()
@@ -544,7 +603,7 @@ export class DefaultConfig implements Config {
         return {
           cost:
             this._gameConfig.gameFork === GameFork.Frenzy
-              ? () => BigInt(STRUCTURE_CONFIGS.defensePost.buildCost)
+              ? () => BigInt(this.frenzyStructure("defensePost").buildCost)
               : this.costWrapper(() => 25_000, UnitType.DefensePost),
           territoryBound: true,
           constructionDuration: this.instantBuild()
@@ -558,7 +617,7 @@ export class DefaultConfig implements Config {
         return {
           cost:
             this._gameConfig.gameFork === GameFork.Frenzy
-              ? () => BigInt(STRUCTURE_CONFIGS.samLauncher.buildCost)
+              ? () => BigInt(this.frenzyStructure("samLauncher").buildCost)
               : this.costWrapper(
                   (numUnits: number) =>
                     Math.min(3_000_000, (numUnits + 1) * 1_500_000),
@@ -576,7 +635,7 @@ export class DefaultConfig implements Config {
         return {
           cost:
             this._gameConfig.gameFork === GameFork.Frenzy
-              ? () => BigInt(STRUCTURE_CONFIGS.mine.buildCost)
+              ? () => BigInt(this.frenzyStructure("mine").buildCost)
               : this.costWrapper(
                   (numUnits: number) =>
                     Math.min(1_000_000, Math.pow(2, numUnits) * 125_000),
@@ -599,7 +658,7 @@ export class DefaultConfig implements Config {
         return {
           cost:
             this._gameConfig.gameFork === GameFork.Frenzy
-              ? () => BigInt(STRUCTURE_CONFIGS.factory.buildCost)
+              ? () => BigInt(this.frenzyStructure("factory").buildCost)
               : this.costWrapper(
                   (numUnits: number) =>
                     Math.min(1_000_000, Math.pow(2, numUnits) * 125_000),
@@ -635,7 +694,7 @@ export class DefaultConfig implements Config {
         return {
           cost:
             this._gameConfig.gameFork === GameFork.Frenzy
-              ? () => BigInt(STRUCTURE_CONFIGS.shieldGenerator.buildCost)
+              ? () => BigInt(this.frenzyStructure("shieldGenerator").buildCost)
               : this.costWrapper(() => 150_000, UnitType.ShieldGenerator),
           territoryBound: true,
           constructionDuration: this.instantBuild()
@@ -649,7 +708,7 @@ export class DefaultConfig implements Config {
         return {
           cost:
             this._gameConfig.gameFork === GameFork.Frenzy
-              ? () => BigInt(STRUCTURE_CONFIGS.artillery.buildCost)
+              ? () => BigInt(this.frenzyStructure("artillery").buildCost)
               : this.costWrapper(() => 200_000, UnitType.Artillery),
           territoryBound: true,
           constructionDuration: this.instantBuild()
@@ -661,7 +720,7 @@ export class DefaultConfig implements Config {
         };
       case UnitType.Airport:
         return {
-          cost: () => BigInt(STRUCTURE_CONFIGS.airport.buildCost),
+          cost: () => BigInt(this.frenzyStructure("airport").buildCost),
           territoryBound: true,
           constructionDuration: this.instantBuild()
             ? 0
@@ -673,6 +732,14 @@ export class DefaultConfig implements Config {
     }
   }
 
+  // Build costs follow the lobby's Frenzy rule set
+  private frenzyStructure(type: StructureTypeKey): StructureConfig {
+    return getStructureConfig(
+      type,
+      this._gameConfig.frenzyOverrides?.structures,
+    );
+  }
+
   private costWrapper(
     costFn: (units: number) => number,
     ...types: UnitType[]
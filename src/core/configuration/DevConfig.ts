@@ -32,6 +32,10 @@ export class DevServerConfig extends DefaultServerConfig {
   numWorkers(): number {
     return 2;
   }
+  // The dev server keeps the client build in memory
+  mapsPath(): string {
+    return process.env.MAPS_PATH ?? "resources/maps";
+  }
   jwtAudience(): string {
     return "localhost";
   }
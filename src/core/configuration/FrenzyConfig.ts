@@ -1,4 +1,4 @@
-import { GameEnv } from "./Config";
+import { GameEnv, MatchmakingService } from "./Config";
 import { DefaultServerConfig } from "./DefaultConfig";
 
 /**
@@ -28,6 +28,11 @@ export class FrenzyServerConfig extends DefaultServerConfig {
     return "http://localhost:3000";
   }
 
+  // No external API to queue players, the master matches them itself
+  matchmakingService(): MatchmakingService {
+    return MatchmakingService.Master;
+  }
+
   adminToken(): string {
     return process.env.ADMIN_TOKEN ?? "frenzy_admin_key";
   }
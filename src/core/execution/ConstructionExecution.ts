@@ -9,6 +9,7 @@ import {
   UnitType,
 } from "../game/Game";
 import { TileRef } from "../game/GameMap";
+import { towerByBuildUnitType } from "../game/frenzy/FrenzyRegistry";
 import { CityExecution } from "./CityExecution";
 import { DefensePostExecution } from "./DefensePostExecution";
 import { FactoryExecution } from "./FactoryExecution";
@@ -134,64 +135,17 @@ export class ConstructionExecution implements Execution {
         }
         break;
       case UnitType.MissileSilo:
-        // In Frenzy mode, spawn a missile silo frenzy unit
-        if (
-          this.mg.config().gameConfig().gameFork === GameFork.Frenzy &&
-          this.mg.frenzyManager()
-        ) {
-          const tileX = this.mg.x(this.tile);
-          const tileY = this.mg.y(this.tile);
-          this.mg.frenzyManager()!.spawnMissileSilo(player.id(), tileX, tileY);
-        }
+        this.spawnFrenzyTower();
         this.mg.addExecution(new MissileSiloExecution(player, this.tile));
         break;
       case UnitType.DefensePost:
         // In Frenzy mode, spawn a defense post unit instead of the structure
-        if (
-          this.mg.config().gameConfig().gameFork === GameFork.Frenzy &&
-          this.mg.frenzyManager()
-        ) {
-          const tileX = this.mg.x(this.tile);
-          const tileY = this.mg.y(this.tile);
-          this.mg.frenzyManager()!.spawnDefensePost(player.id(), tileX, tileY);
-        } else {
+        if (!this.spawnFrenzyTower()) {
           this.mg.addExecution(new DefensePostExecution(player, this.tile));
         }
         break;
-      case UnitType.Artillery:
-        // Artillery only works in Frenzy mode
-        if (
-          this.mg.config().gameConfig().gameFork === GameFork.Frenzy &&
-          this.mg.frenzyManager()
-        ) {
-          const tileX = this.mg.x(this.tile);
-          const tileY = this.mg.y(this.tile);
-          this.mg.frenzyManager()!.spawnArtillery(player.id(), tileX, tileY);
-        }
-        break;
-      case UnitType.ShieldGenerator:
-        // Shield generator only works in Frenzy mode
-        if (
-          this.mg.config().gameConfig().gameFork === GameFork.Frenzy &&
-          this.mg.frenzyManager()
-        ) {
-          const tileX = this.mg.x(this.tile);
-          const tileY = this.mg.y(this.tile);
-          this.mg
-            .frenzyManager()!
-            .spawnShieldGenerator(player.id(), tileX, tileY);
-        }
-        break;
       case UnitType.SAMLauncher:
-        // In Frenzy mode, spawn a SAM launcher frenzy unit
-        if (
-          this.mg.config().gameConfig().gameFork === GameFork.Frenzy &&
-          this.mg.frenzyManager()
-        ) {
-          const tileX = this.mg.x(this.tile);
-          const tileY = this.mg.y(this.tile);
-          this.mg.frenzyManager()!.spawnSAMLauncher(player.id(), tileX, tileY);
-        }
+        this.spawnFrenzyTower();
         this.mg.addExecution(new SAMLauncherExecution(player, this.tile));
         break;
       case UnitType.City:
@@ -226,13 +180,36 @@ export class ConstructionExecution implements Execution {
         }
         break;
       default:
-        console.warn(
-          `unit type ${this.constructionType} cannot be constructed`,
-        );
+        // Towers that only exist in Frenzy mode, like artillery
+        if (!this.spawnFrenzyTower()) {
+          console.warn(
+            `unit type ${this.constructionType} cannot be constructed`,
+          );
+        }
         break;
     }
   }
 
+  /**
+   * In Frenzy mode, towers are Frenzy units. Spawns the one the build menu
+   * calls `constructionType`, if there is one.
+   */
+  private spawnFrenzyTower(): boolean {
+    const frenzyManager = this.mg.frenzyManager();
+    const tower = towerByBuildUnitType(this.constructionType);
+    if (
+      this.mg.config().gameConfig().gameFork !== GameFork.Frenzy ||
+      !frenzyManager ||
+      !tower
+    ) {
+      return false;
+    }
+    const tileX = this.mg.x(this.tile);
+    const tileY = this.mg.y(this.tile);
+    frenzyManager.spawnTower(this.player.id(), tileX, tileY, tower.type);
+    return true;
+  }
+
   isActive(): boolean {
     return this.active;
   }
@@ -17,6 +17,7 @@ import { EmbargoAllExecution } from "./EmbargoAllExecution";
 import { EmbargoExecution } from "./EmbargoExecution";
 import { EmojiExecution } from "./EmojiExecution";
 import { FakeHumanExecution } from "./FakeHumanExecution";
+import { MapPingExecution } from "./MapPingExecution";
 import { MarkDisconnectedExecution } from "./MarkDisconnectedExecution";
 import { MoveWarshipExecution } from "./MoveWarshipExecution";
 import { NoOpExecution } from "./NoOpExecution";
@@ -236,6 +237,24 @@ export class Executor {
         }
         return new NoOpExecution();
       }
+      case "frenzy_unit_order": {
+        // Orders for a selected group; ownership is checked per unit
+        if (this.mg.config().gameConfig().gameFork === GameFork.Frenzy) {
+          const frenzyManager = this.mg.frenzyManager();
+          if (frenzyManager) {
+            frenzyManager.commandUnits(
+              player.id(),
+              intent.unitIds,
+              intent.order,
+              intent.targetX,
+              intent.targetY,
+            );
+          }
+        }
+        return new NoOpExecution();
+      }
+      case "map_ping":
+        return new MapPingExecution(player, intent.x, intent.y);
       default:
         throw new Error(`intent type ${intent} not found`);
     }
@@ -23,6 +23,7 @@ import { AllianceRequestExecution } from "./alliance/AllianceRequestExecution";
 import { ConstructionExecution } from "./ConstructionExecution";
 import { EmojiExecution } from "./EmojiExecution";
 import { MirvExecution } from "./MIRVExecution";
+import { FrenzyNationStrategy } from "./nation/FrenzyNationStrategy";
 import { structureSpawnTileValue } from "./nation/structureSpawnTileValue";
 import { NukeExecution } from "./NukeExecution";
 import { SpawnExecution } from "./SpawnExecution";
@@ -34,6 +35,7 @@ export class FakeHumanExecution implements Execution {
   private active = true;
   private random: PseudoRandom;
   private behavior: BotBehavior | null = null; // Shared behavior logic for both bots and fakehumans
+  private frenzyStrategy: FrenzyNationStrategy | null = null;
   private mg: Game;
   private player: Player | null = null;
 
@@ -204,6 +206,13 @@ export class FakeHumanExecution implements Execution {
       // Send an attack on the first tick (not in Frenzy mode)
       if (!isFrenzyMode) {
         this.behavior.forceSendAttack(this.mg.terraNullius());
+      } else {
+        this.frenzyStrategy = new FrenzyNationStrategy(
+          this.mg,
+          this.player,
+          this.random,
+          this.mg.config().gameConfig().difficulty,
+        );
       }
       return;
     }
@@ -211,11 +220,12 @@ export class FakeHumanExecution implements Execution {
     this.updateRelationsFromEmbargos();
     this.behavior.handleAllianceRequests();
     this.behavior.handleAllianceExtensionRequests();
+    this.frenzyStrategy?.tick();
     this.handleUnits();
     this.handleEmbargoesToHostileNations();
 
     // In Frenzy mode, NPCs don't send ground attacks - units handle expansion
-    // But they still can use nukes and upgrades
+    // and the strategy directs them. They still can use nukes and upgrades
     if (isFrenzyMode) {
       this.maybeSendFrenzyNuke();
       this.maybeUpgradeFrenzyStructures();
@@ -468,56 +478,23 @@ export class FakeHumanExecution implements Execution {
   }
 
   /**
-   * Handle structure building in Frenzy mode.
-   * Uses defensive stance to determine priority:
-   * - Defensive (stance < 0.5): Prioritize defensive structures (DefensePost, SAM, Shield, Artillery)
-   * - Offensive (stance >= 0.5): Prioritize economy/offense (Factory, Port, Mine)
-   *
-   * Multiplier formula: Higher multiplier = higher perceived cost = builds fewer of that type
-   * We use (num + X) where X controls how many are built before cost becomes prohibitive
+   * Handle structure building in Frenzy mode by following the strategy's
+   * build order. Saves up for the first entry that can be placed instead of
+   * spending on cheaper, lower-priority structures, but still considers a
+   * warship while saving.
    */
   private handleFrenzyUnits(): boolean {
-    if (!this.player || !this.mg.frenzyManager()) return false;
-
-    const stance = this.mg
-      .frenzyManager()!
-      .getPlayerDefensiveStance(this.player.id());
+    if (this.player === null || this.frenzyStrategy === null) return false;
 
-    // In Frenzy: UnitType.City = Mine (gold generation)
-    // Everyone needs mines for economy, but at different priorities
-
-    if (stance < 0.5) {
-      // Defensive: Prioritize defense, then economy
-      // Lower base multiplier = will build more before moving to next type
-      return (
-        // Defense structures first - build several before economy
-        this.maybeSpawnStructure(UnitType.DefensePost, (num) => num + 1) ||
-        this.maybeSpawnStructure(UnitType.ShieldGenerator, (num) => num + 1) ||
-        this.maybeSpawnStructure(UnitType.SAMLauncher, (num) => num + 2) ||
-        this.maybeSpawnStructure(UnitType.Artillery, (num) => num + 1) ||
-        // Then economy
-        this.maybeSpawnStructure(UnitType.City, (num) => num + 1) || // Mine
-        this.maybeSpawnStructure(UnitType.Factory, (num) => num + 2) ||
-        this.maybeSpawnStructure(UnitType.Port, (num) => num + 2) ||
-        this.maybeSpawnWarship() ||
-        this.maybeSpawnStructure(UnitType.MissileSilo, (num) => num + 3)
-      );
-    } else {
-      // Offensive: Prioritize economy/offense, then defense
-      return (
-        // Economy and offense first
-        this.maybeSpawnStructure(UnitType.City, (num) => num + 1) || // Mine
-        this.maybeSpawnStructure(UnitType.Factory, (num) => num + 1) ||
-        this.maybeSpawnStructure(UnitType.Port, (num) => num + 1) ||
-        this.maybeSpawnWarship() ||
-        // Then defense (with higher base multiplier so fewer built)
-        this.maybeSpawnStructure(UnitType.DefensePost, (num) => num + 3) ||
-        this.maybeSpawnStructure(UnitType.ShieldGenerator, (num) => num + 3) ||
-        this.maybeSpawnStructure(UnitType.SAMLauncher, (num) => num + 2) ||
-        this.maybeSpawnStructure(UnitType.Artillery, (num) => num + 3) ||
-        this.maybeSpawnStructure(UnitType.MissileSilo, (num) => num + 2)
-      );
+    for (const type of this.frenzyStrategy.buildOrder()) {
+      if (this.player.gold() < this.cost(type)) {
+        break;
+      }
+      if (this.maybeSpawnStructure(type, () => 1)) {
+        return true;
+      }
     }
+    return this.maybeSpawnWarship();
   }
 
   /**
@@ -657,8 +634,8 @@ export class FakeHumanExecution implements Execution {
       "defensePost",
     );
     for (const post of defensePosts) {
-      if (frenzyManager.canUpgradeDefensePost(playerId, post.id)) {
-        frenzyManager.upgradeDefensePost(playerId, post.id);
+      if (frenzyManager.canUpgradeTower(playerId, post.id)) {
+        frenzyManager.upgradeUnitUnified(playerId, post.id);
         return;
       }
     }
@@ -8,6 +8,7 @@ import {
   UnitType,
 } from "../game/Game";
 import { TileRef } from "../game/GameMap";
+import { GameUpdateType, TimelineMarkerKind } from "../game/GameUpdates";
 import { ParabolaPathFinder } from "../pathfinding/PathFinding";
 import { PseudoRandom } from "../PseudoRandom";
 import { simpleHash } from "../Util";
@@ -71,6 +72,13 @@ export class MirvExecution implements Execution {
       this.nuke = this.player.buildUnit(UnitType.MIRV, spawn, {
         targetTile: this.dst,
       });
+      this.mg.addUpdate({
+        type: GameUpdateType.TimelineMarker,
+        kind: TimelineMarkerKind.Nuke,
+        tick: ticks,
+        playerID: this.player.id(),
+        unitType: UnitType.MIRV,
+      });
       const x = Math.floor(
         (this.mg.x(this.dst) + this.mg.x(this.mg.x(this.nuke.tile()))) / 2,
       );
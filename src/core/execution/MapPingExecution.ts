@@ -0,0 +1,41 @@
+import { Execution, Game, Player } from "../game/Game";
+import { GameUpdateType } from "../game/GameUpdates";
+
+export class MapPingExecution implements Execution {
+  private mg: Game;
+
+  private active = true;
+
+  constructor(
+    private sender: Player,
+    private x: number,
+    private y: number,
+  ) {}
+
+  init(mg: Game, ticks: number): void {
+    this.mg = mg;
+    if (!mg.isValidCoord(Math.floor(this.x), Math.floor(this.y))) {
+      console.warn(`MapPingExecution: (${this.x}, ${this.y}) is off the map`);
+      this.active = false;
+    }
+  }
+
+  tick(ticks: number): void {
+    // Everyone receives the update; clients filter by their own side
+    this.mg.addUpdate({
+      type: GameUpdateType.MapPing,
+      playerID: this.sender.id(),
+      x: this.x,
+      y: this.y,
+    });
+    this.active = false;
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  activeDuringSpawnPhase(): boolean {
+    return true;
+  }
+}
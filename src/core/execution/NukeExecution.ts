@@ -10,6 +10,7 @@ import {
   UnitType,
 } from "../game/Game";
 import { TileRef } from "../game/GameMap";
+import { GameUpdateType, TimelineMarkerKind } from "../game/GameUpdates";
 import { ParabolaPathFinder } from "../pathfinding/PathFinding";
 import { PseudoRandom } from "../PseudoRandom";
 import { NukeType } from "../StatsSchemas";
@@ -120,6 +121,15 @@ export class NukeExecution implements Execution {
         targetTile: this.dst,
         trajectory: this.getTrajectory(this.dst),
       });
+      if (this.nukeType !== UnitType.MIRVWarhead) {
+        this.mg.addUpdate({
+          type: GameUpdateType.TimelineMarker,
+          kind: TimelineMarkerKind.Nuke,
+          tick: ticks,
+          playerID: this.player.id(),
+          unitType: this.nukeType,
+        });
+      }
       this.maybeBreakAlliances(this.tilesToDestroy());
       if (this.mg.hasOwner(this.dst)) {
         const target = this.mg.owner(this.dst);
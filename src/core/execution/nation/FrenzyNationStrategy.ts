@@ -0,0 +1,306 @@
+import { FrenzyUnitType } from "../../game/frenzy/FrenzyTypes";
+import { Difficulty, Game, Player, PlayerID, UnitType } from "../../game/Game";
+import { TileRef } from "../../game/GameMap";
+import { PseudoRandom } from "../../PseudoRandom";
+
+interface FrenzyNationProfile {
+  // Ticks between re-evaluating attack focus and stance
+  decisionInterval: number;
+  // Our army must be this many times the target's before attacking
+  attackAdvantage: number;
+  // Share of our soldiers sent at the focused target
+  attackRatio: number;
+  // Fall back to a defensive stance when the HQ is threatened
+  defendsHQ: boolean;
+  // Mines wanted per factory before buying the next factory
+  minesPerFactory: number;
+  // Defense posts wanted per factory
+  postsPerFactory: number;
+  // Whether missile silos are part of the build order
+  buildsSilos: boolean;
+}
+
+const PROFILES: Record<Difficulty, FrenzyNationProfile> = {
+  [Difficulty.Easy]: {
+    decisionInterval: 600,
+    attackAdvantage: 2.5,
+    attackRatio: 0.3,
+    defendsHQ: false,
+    minesPerFactory: 4,
+    postsPerFactory: 0,
+    buildsSilos: false,
+  },
+  [Difficulty.Medium]: {
+    decisionInterval: 300,
+    attackAdvantage: 1.6,
+    attackRatio: 0.5,
+    defendsHQ: true,
+    minesPerFactory: 3,
+    postsPerFactory: 1,
+    buildsSilos: false,
+  },
+  [Difficulty.Hard]: {
+    decisionInterval: 200,
+    attackAdvantage: 1.25,
+    attackRatio: 0.6,
+    defendsHQ: true,
+    minesPerFactory: 2,
+    postsPerFactory: 1,
+    buildsSilos: true,
+  },
+  [Difficulty.Impossible]: {
+    decisionInterval: 100,
+    attackAdvantage: 1.0,
+    attackRatio: 0.75,
+    defendsHQ: true,
+    minesPerFactory: 2,
+    postsPerFactory: 2,
+    buildsSilos: true,
+  },
+};
+
+// Enemy soldiers within this many pixels of our HQ count as a threat
+const THREAT_RADIUS = 60;
+// HQ health share below which we turn defensive regardless of enemies
+const HQ_DANGER_HEALTH = 0.5;
+// Don't start wars with a handful of soldiers
+const MIN_ATTACK_ARMY = 10;
+// Territory per factory before another one is worth it
+const TILES_PER_FACTORY = 4000;
+
+const STANCE_DEFENSIVE = 0;
+const STANCE_OFFENSIVE = 1;
+
+/**
+ * Strategic decisions for nations in Frenzy: what to build next, which
+ * neighbour to attack and which stance to hold. Tile placement and spending
+ * stay in FakeHumanExecution; this only decides priorities.
+ */
+export class FrenzyNationStrategy {
+  private readonly profile: FrenzyNationProfile;
+  private lastDecisionTick = -Infinity;
+  private target: PlayerID | null = null;
+  private threatened = false;
+  // Stance the nation holds when neither attacking nor under threat
+  private restingStance: number | null = null;
+
+  constructor(
+    private readonly mg: Game,
+    private readonly player: Player,
+    private readonly random: PseudoRandom,
+    difficulty: Difficulty,
+  ) {
+    this.profile = PROFILES[difficulty];
+  }
+
+  /**
+   * Re-evaluates threats, attack focus and stance every `decisionInterval`
+   * ticks, and keeps feeding soldiers toward the current target.
+   */
+  tick() {
+    if (
+      this.mg.ticks() - this.lastDecisionTick <
+      this.profile.decisionInterval
+    ) {
+      return;
+    }
+    this.lastDecisionTick = this.mg.ticks();
+
+    const frenzyManager = this.mg.frenzyManager();
+    if (!frenzyManager) return;
+
+    this.restingStance ??= frenzyManager.getPlayerDefensiveStance(
+      this.player.id(),
+    );
+    this.threatened = this.profile.defendsHQ && this.isHQThreatened();
+    this.target = this.threatened ? null : this.chooseTarget();
+
+    let stance = this.restingStance;
+    if (this.threatened) {
+      stance = STANCE_DEFENSIVE;
+    } else if (this.target !== null) {
+      stance = STANCE_OFFENSIVE;
+    }
+    frenzyManager.setPlayerDefensiveStance(this.player.id(), stance);
+
+    if (this.target !== null) {
+      this.attack(this.target);
+    }
+  }
+
+  /**
+   * Structure types the nation wants next, most urgent first. Callers save
+   * up for the first placeable entry rather than skipping to cheaper ones.
+   */
+  buildOrder(): UnitType[] {
+    const frenzyManager = this.mg.frenzyManager();
+    if (!frenzyManager) return [];
+    const count = (type: UnitType) =>
+      frenzyManager.getStructureCountForPlayer(this.player.id(), type);
+
+    const mines = count(UnitType.City);
+    const factories = count(UnitType.Factory);
+    const posts = count(UnitType.DefensePost);
+    const order: UnitType[] = [];
+
+    if (this.threatened) {
+      order.push(
+        UnitType.DefensePost,
+        UnitType.ShieldGenerator,
+        UnitType.Artillery,
+      );
+    }
+    // One mine before anything else: nothing runs without income
+    if (mines === 0) {
+      order.push(UnitType.City);
+    }
+    if (factories === 0) {
+      order.push(UnitType.Factory);
+    }
+    if (mines < (factories + 1) * this.profile.minesPerFactory) {
+      order.push(UnitType.City);
+    }
+    if (
+      factories <
+      Math.max(1, Math.floor(this.player.numTilesOwned() / TILES_PER_FACTORY))
+    ) {
+      order.push(UnitType.Factory);
+    }
+    if (count(UnitType.Port) < factories && this.isCoastal()) {
+      order.push(UnitType.Port);
+    }
+    if (count(UnitType.Airport) === 0 && factories >= 2) {
+      order.push(UnitType.Airport);
+    }
+    if (posts < factories * this.profile.postsPerFactory) {
+      order.push(UnitType.DefensePost);
+    }
+    // A shield and a SAM launcher per post guard the same ground from the air
+    if (count(UnitType.ShieldGenerator) < posts) {
+      order.push(UnitType.ShieldGenerator);
+    }
+    if (count(UnitType.SAMLauncher) < posts) {
+      order.push(UnitType.SAMLauncher);
+    }
+    if (this.profile.buildsSilos && count(UnitType.MissileSilo) === 0) {
+      order.push(UnitType.MissileSilo);
+    }
+    // Spare gold keeps claiming territory; the mine cap stops runaway spending
+    order.push(UnitType.City);
+    return order;
+  }
+
+  private isHQThreatened(): boolean {
+    const frenzyManager = this.mg.frenzyManager()!;
+    const hq = frenzyManager.getHQForPlayer(this.player.id());
+    if (!hq) return false;
+    if (hq.health < hq.maxHealth * HQ_DANGER_HEALTH) return true;
+
+    const radiusSq = THREAT_RADIUS * THREAT_RADIUS;
+    let enemies = 0;
+    let defenders = 0;
+    for (const unit of frenzyManager.getUnits()) {
+      if (!isSoldier(unit.unitType)) continue;
+      const dx = unit.x - hq.x;
+      const dy = unit.y - hq.y;
+      if (dx * dx + dy * dy > radiusSq) continue;
+      if (unit.playerId === this.player.id()) {
+        defenders++;
+      } else if (this.isHostile(unit.playerId)) {
+        enemies++;
+      }
+    }
+    return enemies > defenders;
+  }
+
+  /**
+   * Weakest hostile neighbour we clearly outnumber. Keeps the current target
+   * while it still qualifies so the army isn't split between fronts.
+   */
+  private chooseTarget(): PlayerID | null {
+    const army = this.soldierCounts();
+    const ours = army.get(this.player.id()) ?? 0;
+    if (ours < MIN_ATTACK_ARMY) return null;
+
+    const candidates = this.player
+      .neighbors()
+      .filter(
+        (n): n is Player =>
+          n.isPlayer() && n.isAlive() && this.isHostile(n.id()),
+      )
+      .filter(
+        (n) => ours >= (army.get(n.id()) ?? 0) * this.profile.attackAdvantage,
+      );
+    if (candidates.length === 0) return null;
+    if (candidates.some((n) => n.id() === this.target)) {
+      return this.target;
+    }
+
+    const strength = (p: Player) =>
+      (army.get(p.id()) ?? 0) + p.numTilesOwned() / 1000;
+    const weakest = Math.min(...candidates.map(strength));
+    return this.random
+      .randElement(candidates.filter((n) => strength(n) === weakest))
+      .id();
+  }
+
+  private attack(targetID: PlayerID) {
+    const frenzyManager = this.mg.frenzyManager()!;
+    const hq = frenzyManager.getHQForPlayer(targetID);
+    if (hq) {
+      frenzyManager.queueAttackOrder(
+        this.player.id(),
+        targetID,
+        this.profile.attackRatio,
+        hq.x,
+        hq.y,
+      );
+      return;
+    }
+    // No HQ (e.g. bots): push into their nearest territory instead
+    const border = Array.from(this.player.borderTiles()).find((tile) =>
+      this.mg.neighbors(tile).some((n) => this.ownerID(n) === targetID),
+    );
+    if (border === undefined) return;
+    frenzyManager.queueAttackOrder(
+      this.player.id(),
+      targetID,
+      this.profile.attackRatio,
+      this.mg.x(border),
+      this.mg.y(border),
+    );
+  }
+
+  private soldierCounts(): Map<PlayerID, number> {
+    const counts = new Map<PlayerID, number>();
+    for (const unit of this.mg.frenzyManager()!.getUnits()) {
+      if (!isSoldier(unit.unitType)) continue;
+      counts.set(unit.playerId, (counts.get(unit.playerId) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  private isHostile(id: PlayerID): boolean {
+    if (id === this.player.id() || !this.mg.hasPlayer(id)) return false;
+    const other = this.mg.player(id);
+    return !this.player.isAlliedWith(other) && !this.player.isOnSameTeam(other);
+  }
+
+  private isCoastal(): boolean {
+    for (const tile of this.player.borderTiles()) {
+      if (this.mg.isOceanShore(tile)) return true;
+    }
+    return false;
+  }
+
+  private ownerID(tile: TileRef): PlayerID | null {
+    const owner = this.mg.owner(tile);
+    return owner.isPlayer() ? owner.id() : null;
+  }
+}
+
+function isSoldier(type: FrenzyUnitType): boolean {
+  return (
+    type === FrenzyUnitType.Soldier || type === FrenzyUnitType.EliteSoldier
+  );
+}
@@ -33,6 +33,9 @@ function getOtherStructureTiles(
       case UnitType.Port:
         frenzyType = FrenzyStructureType.Port;
         break;
+      case UnitType.Airport:
+        frenzyType = FrenzyStructureType.Airport;
+        break;
     }
 
     if (frenzyType) {
@@ -68,10 +71,12 @@ export function structureSpawnTileValue(
   // Prefer spacing structures out of atom bomb range
   const borderSpacing = mg.config().nukeMagnitudes(UnitType.AtomBomb).outer;
   const structureSpacing = borderSpacing * 2;
+  const frenzyManager = mg.frenzyManager();
   switch (type) {
     case UnitType.City:
     case UnitType.Factory:
-    case UnitType.MissileSilo: {
+    case UnitType.MissileSilo:
+    case UnitType.Airport: {
       return (tile) => {
         let w = 0;
 
@@ -91,6 +96,16 @@ export function structureSpawnTileValue(
           w += Math.min(d, structureSpacing);
         }
 
+        // In Frenzy, mines earn a bonus for crystals inside their cell
+        if (type === UnitType.City && frenzyManager) {
+          const crystals = frenzyManager.countCrystalsInRange(
+            mg.x(tile),
+            mg.y(tile),
+            frenzyManager.getConfig().mineRadius,
+          );
+          w += crystals * borderSpacing;
+        }
+
         // TODO: Cities and factories should consider train range limits
         return w;
       };
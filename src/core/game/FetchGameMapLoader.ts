@@ -1,8 +1,15 @@
 import { GameMapType } from "./Game";
 import { GameMapLoader, MapData } from "./GameMapLoader";
+import {
+  DecodedMapPackage,
+  decodeMapPackage,
+  hashMapPackage,
+  toMapPackage,
+} from "./MapPackage";
 
 export class FetchGameMapLoader implements GameMapLoader {
   private maps: Map<GameMapType, MapData>;
+  private customMaps = new Map<string, Promise<DecodedMapPackage>>();
 
   public constructor(
     private readonly prefix: string,
@@ -38,6 +45,28 @@ export class FetchGameMapLoader implements GameMapLoader {
     return mapData;
   }
 
+  /**
+   * Fetches an uploaded map package by content hash. Packages whose contents
+   * do not match `hash` are rejected.
+   */
+  public customMap(hash: string, url: string): Promise<DecodedMapPackage> {
+    const cached = this.customMaps.get(hash);
+    if (cached) {
+      return cached;
+    }
+    const pkg = this.loadJsonFromUrl(url).then(async (raw) => {
+      const decoded = decodeMapPackage(raw);
+      if ((await hashMapPackage(toMapPackage(decoded))) !== hash) {
+        throw new Error(`Custom map from ${url} does not match ${hash}`);
+      }
+      return decoded;
+    });
+    // Failed loads are retried on the next call
+    pkg.catch(() => this.customMaps.delete(hash));
+    this.customMaps.set(hash, pkg);
+    return pkg;
+  }
+
   private url(map: string, path: string) {
     let url = `${this.prefix}/${map}/${path}`;
 
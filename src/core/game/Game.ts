@@ -104,6 +104,8 @@ export enum GameMapType {
   FourIslands = "Four Islands",
   CircleMap = "Circle Map",
   SquareMap = "Square Map",
+  // Built in the map editor and carried with the game instead of served
+  Custom = "Custom",
 }
 
 export type GameMapName = keyof typeof GameMapType;
@@ -436,6 +438,8 @@ export class PlayerInfo {
     // TODO: make player id the small id
     public readonly id: PlayerID,
     public readonly nationStrength?: number,
+    // Skill rating of humans in rated pools, for team balancing
+    public readonly rating?: number,
   ) {
     this.clan = getClanTag(name);
   }
@@ -713,7 +717,11 @@ export interface Game extends GameMap {
   ticks(): Tick;
   inSpawnPhase(): boolean;
   executeNextTick(): GameUpdates;
+  // The hash sent for desync checks, of the state after the last tick
+  stateHash(): number;
   setWinner(winner: Player | Team, allPlayersStats: AllPlayersStats): void;
+  // Null until a winner is declared
+  winner(): Player | Team | null;
   config(): Config;
 
   // Units
@@ -4,6 +4,7 @@ import { AllPlayersStats, ClientID, Winner } from "../Schemas";
 import { simpleHash } from "../Util";
 import { AllianceImpl } from "./AllianceImpl";
 import { AllianceRequestImpl } from "./AllianceRequestImpl";
+import { FrenzyHashBreakdown, totalFrenzyHash } from "./frenzy/FrenzyHash";
 import { FrenzyManager } from "./frenzy/FrenzyManager";
 import {
   Alliance,
@@ -51,9 +52,18 @@ export function createGame(
   gameMap: GameMap,
   miniGameMap: GameMap,
   config: Config,
+  crystals?: [number, number][],
 ): Game {
   const stats = new StatsImpl();
-  return new GameImpl(humans, nations, gameMap, miniGameMap, config, stats);
+  return new GameImpl(
+    humans,
+    nations,
+    gameMap,
+    miniGameMap,
+    config,
+    stats,
+    crystals,
+  );
 }
 
 export type CellString = string;
@@ -89,6 +99,7 @@ export class GameImpl implements Game {
 
   // Frenzy mode manager
   private _frenzyManager: FrenzyManager | null = null;
+  private _winner: Player | Team | null = null;
 
   constructor(
     private _humans: PlayerInfo[],
@@ -97,6 +108,7 @@ export class GameImpl implements Game {
     private miniGameMap: GameMap,
     private _config: Config,
     private _stats: Stats,
+    crystals?: [number, number][],
   ) {
     this._terraNullius = new TerraNulliusImpl();
     this._width = _map.width();
@@ -110,7 +122,11 @@ export class GameImpl implements Game {
 
     // Initialize Frenzy fork if enabled
     if (_config.gameConfig().gameFork === GameFork.Frenzy) {
-      this._frenzyManager = new FrenzyManager(this);
+      this._frenzyManager = new FrenzyManager(
+        this,
+        _config.gameConfig().frenzyOverrides,
+        crystals,
+      );
       this._frenzyManager.init();
     }
   }
@@ -368,10 +384,7 @@ export class GameImpl implements Game {
       }
 
       // Always add Frenzy state update (so crystals are visible during spawn selection)
-      this.addUpdate({
-        type: GameUpdateType.Frenzy,
-        ...this._frenzyManager.createUpdate(),
-      });
+      this.addUpdate(this._frenzyManager.createDeltaUpdate());
     }
 
     this.execs.forEach((e) => {
@@ -402,21 +415,30 @@ export class GameImpl implements Game {
       this.addUpdate(player.toUpdate());
     }
     if (this.ticks() % 10 === 0) {
+      const frenzyHashes = this._frenzyManager?.hashBreakdown();
       this.addUpdate({
         type: GameUpdateType.Hash,
         tick: this.ticks(),
-        hash: this.hash(),
+        hash: this.hash(frenzyHashes),
+        frenzyHashes,
       });
     }
     this._ticks++;
     return this.updates;
   }
 
-  private hash(): number {
+  stateHash(): number {
+    return this.hash(this._frenzyManager?.hashBreakdown());
+  }
+
+  private hash(frenzyHashes?: FrenzyHashBreakdown): number {
     let hash = 1;
     this._players.forEach((p) => {
       hash += p.hash();
     });
+    if (frenzyHashes !== undefined) {
+      hash += totalFrenzyHash(frenzyHashes);
+    }
     return hash;
   }
 
@@ -682,6 +704,7 @@ export class GameImpl implements Game {
   }
 
   setWinner(winner: Player | Team, allPlayersStats: AllPlayersStats): void {
+    this._winner = winner;
     this.addUpdate({
       type: GameUpdateType.Win,
       winner: this.makeWinner(winner),
@@ -689,6 +712,10 @@ export class GameImpl implements Game {
     });
   }
 
+  winner(): Player | Team | null {
+    return this._winner;
+  }
+
   private makeWinner(winner: string | Player): Winner | undefined {
     if (typeof winner === "string") {
       return [
@@ -108,6 +108,12 @@ export class GameMapImpl implements GameMap {
     return this._numTilesWithFallout;
   }
 
+  // Terrain and lookup tables, never written after construction. Copies of
+  // a game (replay checkpoints, snapshots) share these instead of copying.
+  immutableData(): object[] {
+    return [this.terrain, this.refToX, this.refToY, this.yToRef];
+  }
+
   ref(x: number, y: number): TileRef {
     if (!this.isValidCoord(x, y)) {
       throw new Error(`Invalid coordinates: ${x},${y}`);
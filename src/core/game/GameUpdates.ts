@@ -1,4 +1,5 @@
 import { AllPlayersStats, ClientID, Winner } from "../Schemas";
+import { FrenzyHashBreakdown } from "./frenzy/FrenzyHash";
 import {
   EmojiMessage,
   GameUpdates,
@@ -21,6 +22,9 @@ export interface GameUpdateViewData {
   playerNameViewData: Record<string, NameViewData>;
   tickExecutionDuration?: number;
   frenzyTickBreakdown?: Record<string, number>;
+  // Set on the update sent after a replay seek: tiles and units are complete
+  // and replace whatever the view had before.
+  resync?: boolean;
 }
 
 export interface ErrorUpdate {
@@ -49,6 +53,8 @@ export enum GameUpdateType {
   ConquestEvent,
   EmbargoEvent,
   Frenzy,
+  TimelineMarker,
+  MapPing,
 }
 
 export type GameUpdate =
@@ -71,7 +77,34 @@ export type GameUpdate =
   | RailroadUpdate
   | ConquestUpdate
   | EmbargoUpdate
-  | FrenzyUpdate;
+  | FrenzyUpdate
+  | TimelineMarkerUpdate
+  | MapPingUpdate;
+
+export enum TimelineMarkerKind {
+  Elimination = "elimination",
+  HQUpgrade = "hqUpgrade",
+  Nuke = "nuke",
+}
+
+// Notable moments shown on the replay timeline
+export interface TimelineMarkerUpdate {
+  type: GameUpdateType.TimelineMarker;
+  kind: TimelineMarkerKind;
+  tick: Tick;
+  playerID: PlayerID;
+  // Eliminations: the player who captured the HQ
+  otherPlayerID?: PlayerID;
+  unitType?: UnitType;
+}
+
+// Clients only show pings from their own side
+export interface MapPingUpdate {
+  type: GameUpdateType.MapPing;
+  playerID: PlayerID;
+  x: number;
+  y: number;
+}
 
 export interface BonusEventUpdate {
   type: GameUpdateType.BonusEvent;
@@ -256,6 +289,8 @@ export interface HashUpdate {
   type: GameUpdateType.Hash;
   tick: Tick;
   hash: number;
+  // Only present in Frenzy games, used to pinpoint desyncs.
+  frenzyHashes?: FrenzyHashBreakdown;
 }
 
 export interface UnitIncomingUpdate {
@@ -273,83 +308,114 @@ export interface EmbargoUpdate {
   embargoedID: number;
 }
 
+/**
+ * Frenzy entities as sent from the worker to the main thread.
+ * Static data (e.g. crystal rotations) is only sent when an entity spawns.
+ */
+export interface FrenzyUnitData {
+  id: number;
+  playerId: string;
+  x: number;
+  y: number;
+  health: number;
+  maxHealth: number;
+  unitType: string;
+  tier: number;
+  shieldHealth?: number;
+  maxShieldHealth?: number;
+  weaponCooldown: number;
+  fireInterval: number;
+  // Attack order data for rendering
+  hasAttackOrder?: boolean;
+  attackOrderX?: number;
+  attackOrderY?: number;
+  holdPosition?: boolean;
+  // Boarding data for rendering (blue line)
+  isBoardingTransporter?: boolean;
+  boardingTargetX?: number;
+  boardingTargetY?: number;
+  // Transporter properties
+  heading?: number;
+  isFlying?: boolean;
+  isWaitingForBoarding?: boolean;
+  boardedUnits?: number[];
+  targetX: number;
+  targetY: number;
+}
+
+export interface FrenzyStructureData {
+  id: number;
+  type: string;
+  playerId: string;
+  tile: number;
+  x: number;
+  y: number;
+  tier: number;
+  health: number;
+  maxHealth: number;
+  spawnTimer?: number;
+  spawnInterval?: number;
+  unitCount?: number;
+  maxUnits?: number;
+  // HQ only
+  warshipCount?: number;
+  maxWarships?: number;
+  // Airport only
+  hasTransporter?: boolean;
+}
+
+export interface FrenzyProjectileData {
+  id: number;
+  playerId: string;
+  x: number;
+  y: number;
+  projectileType?: string;
+  startX?: number;
+  startY?: number;
+  targetX?: number;
+  targetY?: number;
+  areaRadius?: number;
+  progress: number;
+}
+
+export interface FrenzyCrystalData {
+  id: number;
+  x: number;
+  y: number;
+  crystalCount: number;
+  rotations: number[];
+}
+
+export interface FrenzyGoldPayoutData {
+  playerId: string;
+  x: number;
+  y: number;
+  gold: number;
+  crystals?: Array<{ x: number; y: number; count: number }>;
+  cellArea?: number;
+}
+
+/**
+ * Changes to one Frenzy entity collection since the previous update.
+ * `changed` entries carry the id plus only the fields that differ.
+ */
+export interface FrenzyEntityDelta<T extends { id: number }> {
+  spawned: T[];
+  changed: Array<Partial<T> & { id: number }>;
+  removed: number[];
+}
+
 export interface FrenzyUpdate {
   type: GameUpdateType.Frenzy;
-  units: Array<{
-    id: number;
-    playerId: string;
-    x: number;
-    y: number;
-    health: number;
-    unitType: string;
-    tier?: number;
-    shieldHealth?: number;
-    maxShieldHealth?: number;
-    // Attack order data for rendering
-    hasAttackOrder?: boolean;
-    attackOrderX?: number;
-    attackOrderY?: number;
-  }>;
-  coreBuildings: Array<{
-    playerId: string;
-    x: number;
-    y: number;
-    spawnTimer?: number;
-    spawnInterval?: number;
-    unitCount?: number;
-    tier?: number;
-    maxUnits?: number;
-    warshipCount?: number;
-    maxWarships?: number;
-    health?: number;
-    maxHealth?: number;
-  }>;
-  factories: Array<{
-    tile: number;
-    playerId: string;
-    x: number;
-    y: number;
-    tier: number;
-    health?: number;
-    maxHealth?: number;
-  }>;
-  // Unified structures array containing all buildings
-  structures?: Array<{
-    id: number;
-    type: string;
-    playerId: string;
-    tile: number;
-    x: number;
-    y: number;
-    tier: number;
-    health: number;
-    maxHealth: number;
-    spawnTimer?: number;
-    spawnInterval?: number;
-    unitCount?: number;
-    maxUnits?: number;
-  }>;
-  projectiles: Array<{
-    id: number;
-    playerId: string;
-    x: number;
-    y: number;
-  }>;
+  // Keyframes carry every entity in `spawned`; the receiver drops its state first.
+  keyframe: boolean;
+  units: FrenzyEntityDelta<FrenzyUnitData>;
+  structures: FrenzyEntityDelta<FrenzyStructureData>;
+  projectiles: FrenzyEntityDelta<FrenzyProjectileData>;
+  crystals: FrenzyEntityDelta<FrenzyCrystalData>;
   projectileSize: number;
   maxUnitsPerPlayer: number;
-  maxWarshipsPerPlayer?: number;
-  crystals: Array<{
-    id: number;
-    x: number;
-    y: number;
-    crystalCount: number;
-  }>;
-  pendingGoldPayouts: Array<{
-    playerId: string;
-    x: number;
-    y: number;
-    gold: number;
-    crystals?: Array<{ x: number; y: number; count: number }>;
-    cellArea?: number;
-  }>;
+  maxWarshipsPerPlayer: number;
+  // Transient events for this tick only, never delta-encoded
+  pendingGoldPayouts: FrenzyGoldPayoutData[];
 }
@@ -6,6 +6,13 @@ import { PatternDecoder } from "../PatternDecoder";
 import { ClientID, GameID, Player, PlayerCosmetics } from "../Schemas";
 import { createRandomName } from "../Util";
 import { WorkerClient } from "../worker/WorkerClient";
+import { FrenzyDeltaDecoder } from "./frenzy/FrenzyDelta";
+import {
+  FrenzyVision,
+  structureSightRadius,
+  unitSightRadius,
+  VisionSource,
+} from "./frenzy/FrenzyVision";
 import {
   Cell,
   EmojiMessage,
@@ -29,6 +36,11 @@ import { GameMap, TileRef, TileUpdate } from "./GameMap";
 import {
   AllianceView,
   AttackUpdate,
+  FrenzyCrystalData,
+  FrenzyGoldPayoutData,
+  FrenzyProjectileData,
+  FrenzyStructureData,
+  FrenzyUnitData,
   GameUpdateType,
   GameUpdateViewData,
   PlayerUpdate,
@@ -73,6 +85,11 @@ export class UnitView {
     return this.lastPos[0];
   }
 
+  // Final update for a unit that no longer exists after a replay seek
+  toRetiredUpdate(): UnitUpdate {
+    return { ...this.data, isActive: false };
+  }
+
   update(data: UnitUpdate) {
     this.lastPos.push(data.pos);
     this._wasUpdated = true;
@@ -464,6 +481,9 @@ export class GameView implements GameMap {
   private updatedTiles: TileRef[] = [];
 
   private _myPlayer: PlayerView | null = null;
+  // Player a spectator is watching, in place of their own
+  private _focusedPlayer: PlayerView | null = null;
+  private _vision: FrenzyVision | null = null;
 
   private unitGrid: UnitGrid;
 
@@ -473,96 +493,21 @@ export class GameView implements GameMap {
 
   private _map: GameMap;
 
-  // Frenzy state synced from server
+  // Frenzy state rebuilt from delta-encoded worker updates
+  private frenzyDecoder = new FrenzyDeltaDecoder();
   private _frenzyState: {
-    units: Array<{
-      id: number;
-      playerId: string;
-      x: number;
-      y: number;
-      health: number;
-      maxHealth?: number;
-      unitType: string;
-      tier?: number;
-      shieldHealth?: number;
-      maxShieldHealth?: number;
-      weaponCooldown?: number;
-      fireInterval?: number;
-      hasAttackOrder?: boolean;
-      attackOrderX?: number;
-      attackOrderY?: number;
-      heading?: number;
-      isFlying?: boolean;
-      isWaitingForBoarding?: boolean;
-      boardedUnits?: number[];
-      isBoardingTransporter?: boolean;
-      boardingTargetX?: number;
-      boardingTargetY?: number;
-      targetX?: number;
-      targetY?: number;
-    }>;
-    coreBuildings: Array<{
-      playerId: string;
-      x: number;
-      y: number;
-      tier?: number;
-      maxUnits?: number;
-      warshipCount?: number;
-      maxWarships?: number;
-      health?: number;
-      maxHealth?: number;
-    }>;
-    factories: Array<{
-      tile: number;
-      playerId: string;
-      x: number;
-      y: number;
-      tier: number;
-      health?: number;
-      maxHealth?: number;
-    }>;
-    projectiles: Array<{
-      id: number;
-      playerId: string;
-      x: number;
-      y: number;
-      projectileType?: string;
-      startX?: number;
-      startY?: number;
-      targetX?: number;
-      targetY?: number;
-      areaRadius?: number;
-      progress?: number;
-    }>;
+    units: FrenzyUnitData[];
+    // Legacy views over `structures`
+    coreBuildings: FrenzyStructureData[];
+    factories: FrenzyStructureData[];
+    projectiles: FrenzyProjectileData[];
     projectileSize: number;
     maxUnitsPerPlayer: number;
     maxWarshipsPerPlayer?: number;
-    crystals: Array<{
-      id: number;
-      x: number;
-      y: number;
-      crystalCount: number;
-    }>;
-    pendingGoldPayouts: Array<{
-      playerId: string;
-      x: number;
-      y: number;
-      gold: number;
-      crystals?: Array<{ x: number; y: number; count: number }>;
-      cellArea?: number;
-    }>;
+    crystals: FrenzyCrystalData[];
+    pendingGoldPayouts: FrenzyGoldPayoutData[];
     // Unified structures array
-    structures?: Array<{
-      id: number;
-      type: string;
-      playerId: string;
-      tile: number;
-      x: number;
-      y: number;
-      tier: number;
-      health: number;
-      maxHealth: number;
-    }>;
+    structures?: FrenzyStructureData[];
     // Helper methods for UI
     canUpgradeFactory: (playerId: string) => boolean;
     getFactoryTier: (tile: number) => number;
@@ -635,6 +580,16 @@ export class GameView implements GameMap {
     this.toDelete.forEach((id) => this._units.delete(id));
     this.toDelete.clear();
 
+    if (gu.resync) {
+      // The resync lists every live unit; retire the rest so layers drop them
+      const live = new Set(gu.updates[GameUpdateType.Unit].map((u) => u.id));
+      for (const unit of this._units.values()) {
+        if (!live.has(unit.id())) {
+          gu.updates[GameUpdateType.Unit].push(unit.toRetiredUpdate());
+        }
+      }
+    }
+
     this.lastUpdate = gu;
 
     this.updatedTiles = [];
@@ -671,41 +626,41 @@ export class GameView implements GameMap {
 
     // Update Frenzy state if available
     const frenzyUpdates = gu.updates[GameUpdateType.Frenzy];
-    if (frenzyUpdates && frenzyUpdates.length > 0) {
+    if (
+      frenzyUpdates &&
+      frenzyUpdates.length > 0 &&
+      this.frenzyDecoder.apply(frenzyUpdates[0])
+    ) {
       const frenzyData = frenzyUpdates[0];
-      const factories = frenzyData.factories ?? [];
-      const coreBuildings = frenzyData.coreBuildings.map((b: any) => ({
-        ...b,
-        maxUnits: b.maxUnits,
-      }));
+      const units = this.frenzyDecoder.units.values();
+      const structures = this.frenzyDecoder.structures.values();
+      const coreBuildings = structures.filter((s) => s.type === "hq");
+      const factories = structures.filter((s) => s.type === "factory");
 
       this._frenzyState = {
-        units: frenzyData.units.map((u: any) => ({
-          ...u,
-          unitType: u.unitType ?? "soldier",
-        })),
+        units,
         coreBuildings,
         factories,
-        structures: frenzyData.structures ?? [],
-        projectiles: frenzyData.projectiles,
+        structures,
+        projectiles: this.frenzyDecoder.projectiles.values(),
         projectileSize: frenzyData.projectileSize,
         maxUnitsPerPlayer: frenzyData.maxUnitsPerPlayer,
         maxWarshipsPerPlayer: frenzyData.maxWarshipsPerPlayer ?? 20,
-        crystals: frenzyData.crystals ?? [],
+        crystals: this.frenzyDecoder.crystals.values(),
         pendingGoldPayouts: frenzyData.pendingGoldPayouts ?? [],
         // Helper method to get HQ tier
         getHQTier: (playerId: string) => {
-          const hq = coreBuildings.find((b: any) => b.playerId === playerId);
+          const hq = coreBuildings.find((b) => b.playerId === playerId);
           return hq?.tier ?? 1;
         },
         // Helper method to check if player can upgrade factories (HQ tier >= 2)
         canUpgradeFactory: (playerId: string) => {
-          const hq = coreBuildings.find((b: any) => b.playerId === playerId);
+          const hq = coreBuildings.find((b) => b.playerId === playerId);
           return hq ? (hq.tier ?? 1) >= 2 : false;
         },
         // Helper method to get factory tier
         getFactoryTier: (tile: number) => {
-          const factory = factories.find((f: any) => f.tile === tile);
+          const factory = factories.find((f) => f.tile === tile);
           return factory?.tier ?? 1;
         },
         // Helper method to find nearby Frenzy units by type and player
@@ -717,14 +672,14 @@ export class GameView implements GameMap {
           playerId: string,
         ) => {
           const rangeSquared = range * range;
-          const units = frenzyData.units.filter((u: any) => {
+          const match = units.find((u) => {
             if (u.unitType !== unitType) return false;
             if (u.playerId !== playerId) return false;
             const dx = u.x - x;
             const dy = u.y - y;
             return dx * dx + dy * dy <= rangeSquared;
           });
-          return units.length > 0 ? units[0] : null;
+          return match ?? null;
         },
         // Helper method to find nearby structures by type and player
         findNearbyStructure: (
@@ -735,35 +690,34 @@ export class GameView implements GameMap {
           playerId: string,
         ) => {
           const rangeSquared = range * range;
-          const allStructures = frenzyData.structures ?? [];
-          const matching = allStructures.filter((s: any) => {
+          const match = structures.find((s) => {
             if (s.type !== structureType) return false;
             if (s.playerId !== playerId) return false;
             const dx = s.x - x;
             const dy = s.y - y;
             return dx * dx + dy * dy <= rangeSquared;
           });
-          return matching.length > 0 ? matching[0] : null;
+          return match ?? null;
         },
         // Helper method to get mine tier at tile
         getMineTier: (tile: number) => {
-          const structures = frenzyData.structures ?? [];
           const mine = structures.find(
-            (s: any) => s.tile === tile && s.type === "mine",
+            (s) => s.tile === tile && s.type === "mine",
           );
           return mine?.tier ?? 1;
         },
         // Helper method to get port tier at tile
         getPortTier: (tile: number) => {
-          const structures = frenzyData.structures ?? [];
           const port = structures.find(
-            (s: any) => s.tile === tile && s.type === "port",
+            (s) => s.tile === tile && s.type === "port",
           );
           return port?.tier ?? 1;
         },
       };
     }
 
+    this.updateVision();
+
     for (const unit of this._units.values()) {
       unit._wasUpdated = false;
       unit.lastPos = unit.lastPos.slice(-1);
@@ -789,6 +743,49 @@ export class GameView implements GameMap {
     });
   }
 
+  /**
+   * Recomputes what the viewer's side can see when the fog of war rule is
+   * on. Spectators and eliminated players see everything.
+   */
+  private updateVision() {
+    const me = this._myPlayer;
+    if (
+      !this._config.gameConfig().fogOfWar ||
+      this._frenzyState === null ||
+      me === null ||
+      !me.isAlive()
+    ) {
+      this._vision = null;
+      return;
+    }
+    this._vision ??= new FrenzyVision(this.width(), this.height(), (x, y) => {
+      const owner = this.owner(this.ref(x, y));
+      return owner.isPlayer() && (owner === me || me.isFriendly(owner));
+    });
+    const friendly = new Set(
+      this.playerViews()
+        .filter((p) => p === me || me.isFriendly(p))
+        .map((p) => p.id()),
+    );
+    const sources: VisionSource[] = [];
+    for (const u of this._frenzyState.units) {
+      if (friendly.has(u.playerId)) {
+        sources.push({ x: u.x, y: u.y, radius: unitSightRadius(u.unitType) });
+      }
+    }
+    for (const s of this._frenzyState.structures ?? []) {
+      if (friendly.has(s.playerId)) {
+        sources.push({ x: s.x, y: s.y, radius: structureSightRadius(s.type) });
+      }
+    }
+    this._vision.update(friendly, sources);
+  }
+
+  // Vision under the fog of war rule, or null when everything is shown
+  fogOfWar(): FrenzyVision | null {
+    return this._vision;
+  }
+
   recentlyUpdatedTiles(): TileRef[] {
     return this.updatedTiles;
   }
@@ -827,6 +824,11 @@ export class GameView implements GameMap {
     return this._myPlayer;
   }
 
+  // The map's 16x downscale, for overviews like the minimap
+  overviewMap(): GameMap {
+    return this._mapData.overviewMap;
+  }
+
   frenzyManager() {
     return this._frenzyState;
   }
@@ -1010,6 +1012,18 @@ export class GameView implements GameMap {
   }
 
   focusedPlayer(): PlayerView | null {
-    return this.myPlayer();
+    return this._focusedPlayer ?? this.myPlayer();
+  }
+
+  setFocusedPlayer(player: PlayerView | null) {
+    this._focusedPlayer = player;
+  }
+
+  // Watching a live game without being one of its players
+  isSpectator(): boolean {
+    return (
+      !this._config.isReplay() &&
+      !this.humans.some((h) => h.clientID === this._myClientID)
+    );
   }
 }
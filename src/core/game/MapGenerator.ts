@@ -0,0 +1,417 @@
+import { encodeLosslessWebp } from "../utilities/LosslessWebpEncoder";
+import {
+  genTerrainFromBin,
+  MapManifest,
+  MapMetadata,
+} from "./TerrainMapLoader";
+
+// Land and water bodies below these sizes are pruned from full-size maps
+export const MIN_ISLAND_SIZE = 30;
+export const MIN_LAKE_SIZE = 200;
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  // Non-premultiplied RGBA, 8 bits per channel, row by row
+  data: Uint8Array;
+}
+
+/**
+ * Hand-made terrain, row by row: `land` is 0 or 1 and `magnitude` is the
+ * land height (0-30). Water magnitude is derived from the distance to land.
+ */
+export interface PaintedTerrain {
+  width: number;
+  height: number;
+  land: Uint8Array;
+  magnitude: Uint8Array;
+}
+
+export interface PackedMap {
+  data: Uint8Array;
+  width: number;
+  height: number;
+  numLandTiles: number;
+}
+
+export interface GeneratedMap {
+  map: PackedMap;
+  map4x: PackedMap;
+  map16x: PackedMap;
+  thumbnail: Uint8Array;
+}
+
+/**
+ * Terrain grid in column-major order (`x * height + y`), matching the scan
+ * order the original Go generator used. Scan order decides which water body
+ * becomes the ocean when two tie for largest.
+ */
+class Terrain {
+  readonly land: Uint8Array;
+  readonly shoreline: Uint8Array;
+  readonly ocean: Uint8Array;
+  readonly magnitude: Float64Array;
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+  ) {
+    const size = width * height;
+    this.land = new Uint8Array(size);
+    this.shoreline = new Uint8Array(size);
+    this.ocean = new Uint8Array(size);
+    this.magnitude = new Float64Array(size);
+  }
+
+  index(x: number, y: number): number {
+    return x * this.height + y;
+  }
+
+  neighbors(i: number): number[] {
+    const x = Math.floor(i / this.height);
+    const y = i % this.height;
+    const result: number[] = [];
+    if (x > 0) result.push(i - this.height);
+    if (x < this.width - 1) result.push(i + this.height);
+    if (y > 0) result.push(i - 1);
+    if (y < this.height - 1) result.push(i + 1);
+    return result;
+  }
+
+  // Connected areas of land (or water), in scan order
+  areas(land: boolean): number[][] {
+    const visited = new Uint8Array(this.land.length);
+    const areas: number[][] = [];
+    const want = land ? 1 : 0;
+    for (let start = 0; start < this.land.length; start++) {
+      if (visited[start] || this.land[start] !== want) continue;
+      const area: number[] = [];
+      const queue = [start];
+      visited[start] = 1;
+      while (queue.length > 0) {
+        const i = queue.pop()!;
+        area.push(i);
+        for (const n of this.neighbors(i)) {
+          if (!visited[n] && this.land[n] === want) {
+            visited[n] = 1;
+            queue.push(n);
+          }
+        }
+      }
+      areas.push(area);
+    }
+    return areas;
+  }
+}
+
+function terrainFromImage(image: RgbaImage): Terrain {
+  // Dimensions must be multiples of 4 for the two downscaled maps
+  const terrain = new Terrain(
+    image.width - (image.width % 4),
+    image.height - (image.height % 4),
+  );
+  for (let x = 0; x < terrain.width; x++) {
+    for (let y = 0; y < terrain.height; y++) {
+      const pixel = (y * image.width + x) * 4;
+      const alpha = image.data[pixel + 3];
+      // Blue is read premultiplied by alpha, as Go's image.At reports it
+      const blue =
+        Math.floor((image.data[pixel + 2] * 0x101 * alpha) / 0xff) >> 8;
+      if (alpha < 20 || blue === 106) continue;
+      const i = terrain.index(x, y);
+      terrain.land[i] = 1;
+      // Height comes from the blue channel's 140-200 range
+      terrain.magnitude[i] = (Math.min(200, Math.max(140, blue)) - 140) / 2;
+    }
+  }
+  return terrain;
+}
+
+function removeSmallIslands(terrain: Terrain) {
+  for (const area of terrain.areas(true)) {
+    if (area.length >= MIN_ISLAND_SIZE) continue;
+    for (const i of area) {
+      terrain.land[i] = 0;
+      terrain.magnitude[i] = 0;
+    }
+  }
+}
+
+function processShore(terrain: Terrain): number[] {
+  const shorelineWaters: number[] = [];
+  for (let i = 0; i < terrain.land.length; i++) {
+    const land = terrain.land[i];
+    if (terrain.neighbors(i).some((n) => terrain.land[n] !== land)) {
+      terrain.shoreline[i] = 1;
+      if (!land) shorelineWaters.push(i);
+    }
+  }
+  return shorelineWaters;
+}
+
+// Water magnitude is the Manhattan distance to the nearest land
+function processDistToLand(terrain: Terrain, shorelineWaters: number[]) {
+  const visited = new Uint8Array(terrain.land.length);
+  const queue = new Int32Array(terrain.land.length);
+  let head = 0;
+  let tail = 0;
+  for (const i of shorelineWaters) {
+    visited[i] = 1;
+    terrain.magnitude[i] = 0;
+    queue[tail++] = i;
+  }
+  while (head < tail) {
+    const i = queue[head++];
+    for (const n of terrain.neighbors(i)) {
+      if (!visited[n] && !terrain.land[n]) {
+        visited[n] = 1;
+        terrain.magnitude[n] = terrain.magnitude[i] + 1;
+        queue[tail++] = n;
+      }
+    }
+  }
+}
+
+function processWater(terrain: Terrain, removeSmall: boolean) {
+  const bodies = terrain.areas(false);
+  if (bodies.length === 0) return;
+
+  // The first of the largest bodies is the ocean
+  const ocean = bodies.reduce((a, b) => (b.length > a.length ? b : a));
+  for (const i of ocean) terrain.ocean[i] = 1;
+
+  if (removeSmall) {
+    for (const body of bodies) {
+      if (body === ocean || body.length >= MIN_LAKE_SIZE) continue;
+      for (const i of body) {
+        terrain.land[i] = 1;
+        terrain.magnitude[i] = 0;
+      }
+    }
+  }
+  processDistToLand(terrain, processShore(terrain));
+}
+
+// Halves each dimension. A mini tile copies the first water tile of its 2x2
+// block, or the block's last tile when it is all land.
+function createMiniMap(terrain: Terrain): Terrain {
+  const mini = new Terrain(terrain.width / 2, terrain.height / 2);
+  for (let x = 0; x < terrain.width; x++) {
+    for (let y = 0; y < terrain.height; y++) {
+      const m = mini.index(x >> 1, y >> 1);
+      const hasWater = (x & 1 || y & 1) && !mini.land[m];
+      if (hasWater) continue;
+      const i = terrain.index(x, y);
+      mini.land[m] = terrain.land[i];
+      mini.shoreline[m] = terrain.shoreline[i];
+      mini.ocean[m] = terrain.ocean[i];
+      mini.magnitude[m] = terrain.magnitude[i];
+    }
+  }
+  return mini;
+}
+
+/**
+ * Packs a terrain into the one-byte-per-tile format `GameMapImpl` reads:
+ * land, shoreline and ocean bits, then a 5-bit magnitude.
+ */
+function packTerrain(terrain: Terrain): PackedMap {
+  const { width, height } = terrain;
+  const data = new Uint8Array(width * height);
+  let numLandTiles = 0;
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      const i = terrain.index(x, y);
+      const land = terrain.land[i] === 1;
+      let packed = 0;
+      if (land) {
+        packed |= 0b10000000;
+        numLandTiles++;
+      }
+      if (terrain.shoreline[i]) packed |= 0b01000000;
+      if (terrain.ocean[i]) packed |= 0b00100000;
+      const magnitude = land ? terrain.magnitude[i] : terrain.magnitude[i] / 2;
+      packed |= Math.min(Math.ceil(magnitude), 31);
+      data[y * width + x] = packed;
+    }
+  }
+  return { data, width, height, numLandTiles };
+}
+
+function thumbnailColor(terrain: Terrain, i: number): number[] {
+  const magnitude = terrain.magnitude[i];
+  if (!terrain.land[i]) {
+    if (terrain.shoreline[i]) return [100, 143, 255, 0];
+    const adjust = 11 - Math.min(magnitude / 2, 10) - 10;
+    return [70, 132, 180].map((c) => Math.trunc(Math.max(c + adjust, 0)));
+  }
+  if (terrain.shoreline[i]) return [204, 203, 158, 255];
+  if (magnitude < 10) {
+    // Plains
+    return [190, Math.trunc(220 - 2 * magnitude), 138, 255];
+  }
+  if (magnitude < 20) {
+    // Highlands
+    return [200, 183, 138]
+      .map((c) => Math.trunc(c + 2 * magnitude))
+      .concat(255);
+  }
+  // Mountains
+  const grey = Math.floor(230 + magnitude / 2);
+  return [grey, grey, grey, 255];
+}
+
+function createThumbnail(terrain: Terrain, quality: number): Uint8Array {
+  const width = Math.max(1, Math.floor(terrain.width * quality));
+  const height = Math.max(1, Math.floor(terrain.height * quality));
+  const rgba = new Uint8Array(width * height * 4);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      const srcX = Math.min(Math.floor(x / quality), terrain.width - 1);
+      const srcY = Math.min(Math.floor(y / quality), terrain.height - 1);
+      rgba.set(
+        thumbnailColor(terrain, terrain.index(srcX, srcY)),
+        (y * width + x) * 4,
+      );
+    }
+  }
+  return encodeLosslessWebp(rgba, width, height);
+}
+
+function processTerrain(terrain: Terrain, removeSmall: boolean): GeneratedMap {
+  if (removeSmall) removeSmallIslands(terrain);
+  processWater(terrain, removeSmall);
+
+  const terrain4x = createMiniMap(terrain);
+  processWater(terrain4x, false);
+  const terrain16x = createMiniMap(terrain4x);
+  processWater(terrain16x, false);
+
+  return {
+    map: packTerrain(terrain),
+    map4x: packTerrain(terrain4x),
+    map16x: packTerrain(terrain16x),
+    thumbnail: createThumbnail(terrain4x, 0.5),
+  };
+}
+
+/**
+ * Turns a heightmap image into the three packed terrain sizes and a
+ * thumbnail. `removeSmall` prunes islands and lakes below the size
+ * thresholds; test maps keep them.
+ */
+export function generateMap(
+  image: RgbaImage,
+  removeSmall: boolean,
+): GeneratedMap {
+  const terrain = terrainFromImage(image);
+  if (terrain.width === 0 || terrain.height === 0) {
+    throw new Error(
+      `Map image must be at least 4x4 pixels, got ${image.width}x${image.height}`,
+    );
+  }
+  return processTerrain(terrain, removeSmall);
+}
+
+/**
+ * Same as `generateMap`, for terrain painted in the map editor
+ */
+export function generateMapFromTerrain(
+  painted: PaintedTerrain,
+  removeSmall: boolean,
+): GeneratedMap {
+  const { width, height } = painted;
+  if (width < 4 || height < 4 || width % 4 !== 0 || height % 4 !== 0) {
+    throw new Error(
+      `Map dimensions must be multiples of 4, got ${width}x${height}`,
+    );
+  }
+  const terrain = new Terrain(width, height);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      const source = y * width + x;
+      if (!painted.land[source]) continue;
+      const i = terrain.index(x, y);
+      terrain.land[i] = 1;
+      terrain.magnitude[i] = painted.magnitude[source];
+    }
+  }
+  return processTerrain(terrain, removeSmall);
+}
+
+function metadata(map: PackedMap): MapMetadata {
+  return {
+    width: map.width,
+    height: map.height,
+    num_land_tiles: map.numLandTiles,
+  };
+}
+
+// Object keys sorted at every level, like the Go generator's output
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (typeof value !== "object" || value === null) return value;
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])]),
+  );
+}
+
+/**
+ * The map's `info.json` plus the dimensions and land counts of each size
+ */
+export function buildManifest(
+  info: Record<string, unknown>,
+  generated: GeneratedMap,
+): MapManifest {
+  return sortKeys({
+    ...info,
+    map: metadata(generated.map),
+    map4x: metadata(generated.map4x),
+    map16x: metadata(generated.map16x),
+  }) as MapManifest;
+}
+
+/**
+ * Loads every size through `genTerrainFromBin`, as the game does, and checks
+ * that the manifest agrees with the data and that nations spawn on the map.
+ */
+export async function validateGeneratedMap(
+  manifest: MapManifest,
+  generated: GeneratedMap,
+) {
+  if (typeof manifest.name !== "string" || manifest.name === "") {
+    throw new Error("info.json needs a name");
+  }
+  for (const size of ["map", "map4x", "map16x"] as const) {
+    const gameMap = await genTerrainFromBin(
+      manifest[size],
+      generated[size].data,
+    );
+    let land = 0;
+    gameMap.forEachTile((tile) => {
+      if (gameMap.isLand(tile)) land++;
+    });
+    if (land !== manifest[size].num_land_tiles) {
+      throw new Error(
+        `${size}: manifest lists ${manifest[size].num_land_tiles} land tiles, data has ${land}`,
+      );
+    }
+  }
+  for (const nation of manifest.nations ?? []) {
+    const [x, y] = nation.coordinates;
+    if (x < 0 || y < 0 || x >= manifest.map.width || y >= manifest.map.height) {
+      throw new Error(
+        `Nation ${nation.name} at ${x},${y} is outside the ${manifest.map.width}x${manifest.map.height} map`,
+      );
+    }
+  }
+  for (const [x, y] of manifest.crystals ?? []) {
+    if (x < 0 || y < 0 || x >= manifest.map.width || y >= manifest.map.height) {
+      throw new Error(
+        `Crystal cluster at ${x},${y} is outside the ${manifest.map.width}x${manifest.map.height} map`,
+      );
+    }
+  }
+}
@@ -0,0 +1,233 @@
+import { base64url } from "jose";
+import { z } from "zod";
+import { GameMapType } from "./Game";
+import { GameMapLoader, MapData } from "./GameMapLoader";
+import { GeneratedMap } from "./MapGenerator";
+import { MapManifest } from "./TerrainMapLoader";
+
+export const MAP_PACKAGE_FORMAT = "frenzy-map";
+export const MAP_PACKAGE_VERSION = 1;
+// Same ceiling the map generator README gives for hand-made maps
+export const MAX_MAP_TILES = 4_000_000;
+// Largest package file a lobby accepts, enough for MAX_MAP_TILES
+export const MAX_MAP_PACKAGE_BYTES = 8 * 1024 * 1024;
+
+// Packed terrain byte flag for land, as GameMapImpl.IS_LAND_BIT
+const LAND_BIT = 1 << 7;
+
+// Hex SHA-256 of a package, see hashMapPackage
+export const MapHashSchema = z.string().regex(/^[0-9a-f]{64}$/);
+
+const MapMetadataSchema = z.object({
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  num_land_tiles: z.number().int().nonnegative(),
+});
+
+const CoordinatesSchema = z.tuple([
+  z.number().int().nonnegative(),
+  z.number().int().nonnegative(),
+]);
+
+export const MapManifestSchema = z.object({
+  name: z.string().trim().min(1).max(40),
+  map: MapMetadataSchema,
+  map4x: MapMetadataSchema,
+  map16x: MapMetadataSchema,
+  nations: z
+    .array(
+      z.object({
+        coordinates: CoordinatesSchema,
+        flag: z.string().max(40),
+        name: z.string().trim().min(1).max(40),
+        strength: z.number().int().min(1).max(10),
+      }),
+    )
+    .max(100),
+  crystals: z.array(CoordinatesSchema).max(500).optional(),
+});
+
+/**
+ * A map built in the map editor, as a single JSON file. Terrain is stored in
+ * the same packed format as the served map.bin files, base64url encoded.
+ */
+export const MapPackageSchema = z.object({
+  format: z.literal(MAP_PACKAGE_FORMAT),
+  version: z.literal(MAP_PACKAGE_VERSION),
+  manifest: MapManifestSchema,
+  map: z.string(),
+  map4x: z.string(),
+  map16x: z.string(),
+  thumbnail: z.string(),
+});
+export type MapPackage = z.infer<typeof MapPackageSchema>;
+
+export interface DecodedMapPackage {
+  manifest: MapManifest;
+  map: Uint8Array;
+  map4x: Uint8Array;
+  map16x: Uint8Array;
+  thumbnail: Uint8Array;
+}
+
+export function encodeMapPackage(
+  manifest: MapManifest,
+  generated: GeneratedMap,
+): MapPackage {
+  return {
+    format: MAP_PACKAGE_FORMAT,
+    version: MAP_PACKAGE_VERSION,
+    manifest,
+    map: base64url.encode(generated.map.data),
+    map4x: base64url.encode(generated.map4x.data),
+    map16x: base64url.encode(generated.map16x.data),
+    thumbnail: base64url.encode(generated.thumbnail),
+  };
+}
+
+/**
+ * Validates a parsed package file and unpacks its terrain. Throws with a
+ * readable message when the file is not a usable map.
+ */
+export function decodeMapPackage(raw: unknown): DecodedMapPackage {
+  const parsed = MapPackageSchema.safeParse(raw);
+  if (!parsed.success) {
+    if (
+      typeof raw === "object" &&
+      raw !== null &&
+      "format" in raw &&
+      raw.format === MAP_PACKAGE_FORMAT &&
+      "version" in raw &&
+      raw.version !== MAP_PACKAGE_VERSION
+    ) {
+      throw new Error(`Unsupported map package version ${raw.version}`);
+    }
+    throw new Error(`Invalid map package: ${z.prettifyError(parsed.error)}`);
+  }
+  const pkg = parsed.data;
+  const { manifest } = pkg;
+  const { width, height } = manifest.map;
+  if (width * height > MAX_MAP_TILES) {
+    throw new Error(
+      `Map is ${width}x${height}, larger than the ${MAX_MAP_TILES} tile limit`,
+    );
+  }
+
+  // The minimaps halve the map per level, see createMiniMap
+  for (const [name, scale] of [
+    ["map4x", 2],
+    ["map16x", 4],
+  ] as const) {
+    const size = manifest[name];
+    const expected = [Math.floor(width / scale), Math.floor(height / scale)];
+    if (size.width !== expected[0] || size.height !== expected[1]) {
+      throw new Error(
+        `Invalid map package: ${name} is ${size.width}x${size.height}, expected ${expected[0]}x${expected[1]}`,
+      );
+    }
+  }
+
+  const decode = (name: "map" | "map4x" | "map16x"): Uint8Array => {
+    let data: Uint8Array;
+    try {
+      data = base64url.decode(pkg[name]);
+    } catch {
+      throw new Error(`Invalid map package: ${name} is not base64url`);
+    }
+    const size = manifest[name];
+    if (data.length !== size.width * size.height) {
+      throw new Error(
+        `Invalid map package: ${name} has ${data.length} tiles, expected ${size.width}x${size.height}`,
+      );
+    }
+    let land = 0;
+    for (const tile of data) {
+      if (tile & LAND_BIT) land++;
+    }
+    if (land !== size.num_land_tiles) {
+      throw new Error(
+        `Invalid map package: ${name} has ${land} land tiles, manifest lists ${size.num_land_tiles}`,
+      );
+    }
+    return data;
+  };
+  const outside = ([x, y]: [number, number]) => x >= width || y >= height;
+  const nation = manifest.nations.find((n) => outside(n.coordinates));
+  if (nation !== undefined) {
+    throw new Error(`Nation ${nation.name} is outside the map`);
+  }
+  if (manifest.crystals?.some(outside)) {
+    throw new Error("A crystal cluster is outside the map");
+  }
+
+  return {
+    manifest,
+    map: decode("map"),
+    map4x: decode("map4x"),
+    map16x: decode("map16x"),
+    thumbnail: base64url.decode(pkg.thumbnail),
+  };
+}
+
+export function mapPackageToJSON(pkg: MapPackage): string {
+  return JSON.stringify(pkg);
+}
+
+// Re-encodes an unpacked package, e.g. to store it with a game record
+export function toMapPackage(pkg: DecodedMapPackage): MapPackage {
+  return {
+    format: MAP_PACKAGE_FORMAT,
+    version: MAP_PACKAGE_VERSION,
+    manifest: pkg.manifest,
+    map: base64url.encode(pkg.map),
+    map4x: base64url.encode(pkg.map4x),
+    map16x: base64url.encode(pkg.map16x),
+    thumbnail: base64url.encode(pkg.thumbnail),
+  };
+}
+
+/**
+ * Content hash lobbies use to name an uploaded map. Hashes the schema-ordered
+ * JSON, so key order in the uploaded file does not matter.
+ */
+export async function hashMapPackage(pkg: MapPackage): Promise<string> {
+  const canonical = mapPackageToJSON(MapPackageSchema.parse(pkg));
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(canonical),
+  );
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Serves a decoded package as `GameMapType.Custom` and everything else from
+ * `fallback`.
+ */
+export class MapPackageLoader implements GameMapLoader {
+  constructor(
+    private readonly fallback: GameMapLoader,
+    private readonly pkg: DecodedMapPackage,
+  ) {}
+
+  getMapData(map: GameMapType): MapData {
+    if (map !== GameMapType.Custom) {
+      return this.fallback.getMapData(map);
+    }
+    const pkg = this.pkg;
+    // Copies, because games write to their terrain and loadTerrainMap
+    // rescales manifest coordinates in place for compact maps
+    return {
+      mapBin: async () => pkg.map.slice(),
+      map4xBin: async () => pkg.map4x.slice(),
+      map16xBin: async () => pkg.map16x.slice(),
+      manifest: async () => structuredClone(pkg.manifest),
+      webpPath: async () => {
+        let binary = "";
+        for (const byte of pkg.thumbnail) binary += String.fromCharCode(byte);
+        return `data:image/webp;base64,${btoa(binary)}`;
+      },
+    };
+  }
+}
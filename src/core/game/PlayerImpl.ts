@@ -56,7 +56,7 @@ interface Target {
   target: Player;
 }
 
-class Donation {
+export class Donation {
   constructor(
     public readonly recipient: Player,
     public readonly tick: Tick,
@@ -48,7 +48,7 @@ export interface RailPathFinderService {
   findStationsPath(from: TrainStation, to: TrainStation): TrainStation[];
 }
 
-class RailPathFinderServiceImpl implements RailPathFinderService {
+export class RailPathFinderServiceImpl implements RailPathFinderService {
   constructor(private game: Game) {}
 
   findTilePath(from: TileRef, to: TileRef): TileRef[] {
@@ -1,5 +1,11 @@
 import { AllPlayersStats } from "../Schemas";
-import { NukeType, OtherUnitType, PlayerStats } from "../StatsSchemas";
+import {
+  FrenzyStructureKey,
+  NukeType,
+  OtherUnitType,
+  PlayerStats,
+} from "../StatsSchemas";
+import { FrenzyUnitType } from "./frenzy/FrenzyTypes";
 import { Player, TerraNullius } from "./Game";
 
 export interface Stats {
@@ -99,4 +105,41 @@ export interface Stats {
 
   // player was killed (0 tiles)
   playerKilled(player: Player, tick: number): void;
+
+  // Player's Frenzy HQ, factory, port or airport spawns a unit
+  frenzyUnitSpawn(player: Player, type: FrenzyUnitType): void;
+
+  // Player's Frenzy unit is killed
+  frenzyUnitLose(player: Player, type: FrenzyUnitType): void;
+
+  // Player's Frenzy units deal damage to target's units or structures
+  frenzyDamage(player: Player, target: Player, damage: number | bigint): void;
+
+  // Player builds a Frenzy structure or tower
+  frenzyStructureBuild(player: Player, type: FrenzyStructureKey): void;
+
+  // Player upgrades a Frenzy structure or tower
+  frenzyStructureUpgrade(player: Player, type: FrenzyStructureKey): void;
+
+  // Player sells a Frenzy structure or tower
+  frenzyStructureSell(player: Player, type: FrenzyStructureKey): void;
+
+  // Player captures a Frenzy structure or tower
+  frenzyStructureCapture(player: Player, type: FrenzyStructureKey): void;
+
+  // Player's mines pay out base income and crystal bonus
+  frenzyGoldMine(
+    player: Player,
+    base: number | bigint,
+    crystal: number | bigint,
+  ): void;
+
+  // Periodic snapshot of the player's territory, gold and army
+  frenzySample(
+    player: Player,
+    tick: number,
+    tiles: number,
+    gold: number | bigint,
+    units: number,
+  ): void;
 }
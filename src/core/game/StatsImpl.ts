@@ -11,6 +11,18 @@ import {
   BOMB_INDEX_INTERCEPT,
   BOMB_INDEX_LAND,
   BOMB_INDEX_LAUNCH,
+  FRENZY_DAMAGE_INDEX_DEALT,
+  FRENZY_DAMAGE_INDEX_TAKEN,
+  FRENZY_GOLD_INDEX_BASE,
+  FRENZY_GOLD_INDEX_CRYSTAL,
+  FRENZY_STRUCTURE_INDEX_BUILT,
+  FRENZY_STRUCTURE_INDEX_CAPTURE,
+  FRENZY_STRUCTURE_INDEX_SELL,
+  FRENZY_STRUCTURE_INDEX_UPGRADE,
+  FRENZY_UNIT_INDEX_LOST,
+  FRENZY_UNIT_INDEX_SPAWN,
+  FrenzyStats,
+  FrenzyStructureKey,
   GOLD_INDEX_STEAL,
   GOLD_INDEX_TRADE,
   GOLD_INDEX_WAR,
@@ -26,6 +38,7 @@ import {
   unitTypeToBombUnit,
   unitTypeToOtherUnit,
 } from "../StatsSchemas";
+import { FrenzyUnitType } from "./frenzy/FrenzyTypes";
 import { Player, TerraNullius } from "./Game";
 import { Stats } from "./Stats";
 
@@ -130,6 +143,57 @@ export class StatsImpl implements Stats {
     p.units[type][index] += _bigint(value);
   }
 
+  private _makeFrenzyStats(player: Player): FrenzyStats | undefined {
+    const p = this._makePlayerStats(player);
+    if (p === undefined) return undefined;
+    p.frenzy ??= {};
+    return p.frenzy;
+  }
+
+  private _addFrenzyUnit(
+    player: Player,
+    type: FrenzyUnitType,
+    index: number,
+    value: BigIntLike,
+  ) {
+    const f = this._makeFrenzyStats(player);
+    if (f === undefined) return;
+    f.units ??= { [type]: [0n] };
+    f.units[type] ??= [0n];
+    while (f.units[type].length <= index) f.units[type].push(0n);
+    f.units[type][index] += _bigint(value);
+  }
+
+  private _addFrenzyDamage(player: Player, index: number, value: BigIntLike) {
+    const f = this._makeFrenzyStats(player);
+    if (f === undefined) return;
+    f.damage ??= [0n];
+    while (f.damage.length <= index) f.damage.push(0n);
+    f.damage[index] += _bigint(value);
+  }
+
+  private _addFrenzyStructure(
+    player: Player,
+    type: FrenzyStructureKey,
+    index: number,
+    value: BigIntLike,
+  ) {
+    const f = this._makeFrenzyStats(player);
+    if (f === undefined) return;
+    f.structures ??= { [type]: [0n] };
+    f.structures[type] ??= [0n];
+    while (f.structures[type].length <= index) f.structures[type].push(0n);
+    f.structures[type][index] += _bigint(value);
+  }
+
+  private _addFrenzyGold(player: Player, index: number, value: BigIntLike) {
+    const f = this._makeFrenzyStats(player);
+    if (f === undefined) return;
+    f.gold ??= [0n];
+    while (f.gold.length <= index) f.gold.push(0n);
+    f.gold[index] += _bigint(value);
+  }
+
   private _addConquest(player: Player) {
     const p = this._makePlayerStats(player);
     if (p === undefined) return;
@@ -266,4 +330,54 @@ export class StatsImpl implements Stats {
   }
 
   lobbyFillTime(fillTimeMs: number): void {}
+
+  frenzyUnitSpawn(player: Player, type: FrenzyUnitType): void {
+    this._addFrenzyUnit(player, type, FRENZY_UNIT_INDEX_SPAWN, 1);
+  }
+
+  frenzyUnitLose(player: Player, type: FrenzyUnitType): void {
+    this._addFrenzyUnit(player, type, FRENZY_UNIT_INDEX_LOST, 1);
+  }
+
+  frenzyDamage(player: Player, target: Player, damage: BigIntLike): void {
+    this._addFrenzyDamage(player, FRENZY_DAMAGE_INDEX_DEALT, damage);
+    this._addFrenzyDamage(target, FRENZY_DAMAGE_INDEX_TAKEN, damage);
+  }
+
+  frenzyStructureBuild(player: Player, type: FrenzyStructureKey): void {
+    this._addFrenzyStructure(player, type, FRENZY_STRUCTURE_INDEX_BUILT, 1);
+  }
+
+  frenzyStructureUpgrade(player: Player, type: FrenzyStructureKey): void {
+    this._addFrenzyStructure(player, type, FRENZY_STRUCTURE_INDEX_UPGRADE, 1);
+  }
+
+  frenzyStructureSell(player: Player, type: FrenzyStructureKey): void {
+    this._addFrenzyStructure(player, type, FRENZY_STRUCTURE_INDEX_SELL, 1);
+  }
+
+  frenzyStructureCapture(player: Player, type: FrenzyStructureKey): void {
+    this._addFrenzyStructure(player, type, FRENZY_STRUCTURE_INDEX_CAPTURE, 1);
+  }
+
+  frenzyGoldMine(player: Player, base: BigIntLike, crystal: BigIntLike): void {
+    this._addFrenzyGold(player, FRENZY_GOLD_INDEX_BASE, base);
+    this._addFrenzyGold(player, FRENZY_GOLD_INDEX_CRYSTAL, crystal);
+  }
+
+  frenzySample(
+    player: Player,
+    tick: number,
+    tiles: number,
+    gold: BigIntLike,
+    units: number,
+  ): void {
+    const f = this._makeFrenzyStats(player);
+    if (f === undefined) return;
+    if (f.peakTiles === undefined || _bigint(tiles) > f.peakTiles) {
+      f.peakTiles = _bigint(tiles);
+    }
+    f.timeline ??= [];
+    f.timeline.push([tick, tiles, Number(gold), units]);
+  }
 }
@@ -8,6 +8,8 @@ export function assignTeams(
 ): Map<PlayerInfo, Team | "kicked"> {
   const result = new Map<PlayerInfo, Team | "kicked">();
   const teamPlayerCount = new Map<Team, number>();
+  // Sum of player ratings, so equally sized teams are also equally strong
+  const teamRating = new Map<Team, number>();
 
   // Group players by clan
   const clanGroups = new Map<string, PlayerInfo[]>();
@@ -51,6 +53,10 @@ export function assignTeams(
       if (teamSize < maxTeamSize) {
         teamSize++;
         result.set(player, team);
+        teamRating.set(
+          team,
+          (teamRating.get(team) ?? 0) + (player.rating ?? 0),
+        );
       } else {
         result.set(player, "kicked");
       }
@@ -67,21 +73,35 @@ export function assignTeams(
     const random = new PseudoRandom(simpleHash(nationPlayers[0].id));
     nationPlayers = random.shuffleArray(nationPlayers);
   }
-  const otherPlayers = noClanPlayers.filter(
+  let otherPlayers = noClanPlayers.filter(
     (player) => player.playerType !== PlayerType.FakeHuman,
   );
+  if (otherPlayers.some((player) => player.rating !== undefined)) {
+    // Strongest first, each to the weakest of the smallest teams
+    otherPlayers = [...otherPlayers].sort(
+      (a, b) => (b.rating ?? 0) - (a.rating ?? 0),
+    );
+  }
 
   for (const player of otherPlayers.concat(nationPlayers)) {
     let team: Team | null = null;
     let teamSize = 0;
     for (const t of teams) {
       const p = teamPlayerCount.get(t) ?? 0;
-      if (team !== null && teamSize <= p) continue;
+      if (
+        team !== null &&
+        (teamSize < p ||
+          (teamSize === p &&
+            (teamRating.get(team) ?? 0) <= (teamRating.get(t) ?? 0)))
+      ) {
+        continue;
+      }
       teamSize = p;
       team = t;
     }
     if (team === null) continue;
     teamPlayerCount.set(team, teamSize + 1);
+    teamRating.set(team, (teamRating.get(team) ?? 0) + (player.rating ?? 0));
     result.set(player, team);
   }
 
@@ -6,6 +6,9 @@ export type TerrainMapData = {
   nations: Nation[];
   gameMap: GameMap;
   miniGameMap: GameMap;
+  // The 16x downscale, drawn by the minimap
+  overviewMap: GameMap;
+  crystals?: [number, number][];
 };
 
 const loadedMaps = new Map<GameMapType, TerrainMapData>();
@@ -22,6 +25,8 @@ export interface MapManifest {
   map4x: MapMetadata;
   map16x: MapMetadata;
   nations: Nation[];
+  // Fixed Frenzy crystal cluster positions; generated when absent
+  crystals?: [number, number][];
 }
 
 export interface Nation {
@@ -36,7 +41,8 @@ export async function loadTerrainMap(
   mapSize: GameMapSize,
   terrainMapFileLoader: GameMapLoader,
 ): Promise<TerrainMapData> {
-  const cached = loadedMaps.get(map);
+  // Custom maps share one GameMapType, so they are never cached
+  const cached = map === GameMapType.Custom ? undefined : loadedMaps.get(map);
   if (cached !== undefined) return cached;
   const mapFiles = terrainMapFileLoader.getMapData(map);
   const manifest = await mapFiles.manifest();
@@ -54,6 +60,11 @@ export async function loadTerrainMap(
         )
       : await genTerrainFromBin(manifest.map16x, await mapFiles.map16xBin());
 
+  const overviewMap =
+    mapSize === GameMapSize.Normal
+      ? await genTerrainFromBin(manifest.map16x, await mapFiles.map16xBin())
+      : miniMap;
+
   if (mapSize === GameMapSize.Compact) {
     manifest.nations.forEach((nation) => {
       nation.coordinates = [
@@ -61,17 +72,31 @@ export async function loadTerrainMap(
         Math.floor(nation.coordinates[1] / 2),
       ];
     });
+    manifest.crystals = manifest.crystals?.map(([x, y]) => [
+      Math.floor(x / 2),
+      Math.floor(y / 2),
+    ]);
   }
 
   const result = {
     nations: manifest.nations,
     gameMap: gameMap,
     miniGameMap: miniMap,
+    overviewMap,
+    crystals: manifest.crystals,
   };
-  loadedMaps.set(map, result);
+  if (map !== GameMapType.Custom) loadedMaps.set(map, result);
   return result;
 }
 
+/**
+ * Drops cached maps. Game state lives on the GameMap, so a process that plays
+ * several games in a row (e.g. the headless simulator) must call this between them.
+ */
+export function clearTerrainMapCache() {
+  loadedMaps.clear();
+}
+
 export async function genTerrainFromBin(
   mapData: MapMetadata,
   data: Uint8Array,
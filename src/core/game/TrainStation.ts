@@ -17,7 +17,7 @@ interface TrainStopHandler {
  * All stop handlers share the same logic for the time being
  * Behavior to be defined
  */
-class CityStopHandler implements TrainStopHandler {
+export class CityStopHandler implements TrainStopHandler {
   onStop(
     mg: Game,
     station: TrainStation,
@@ -34,7 +34,7 @@ class CityStopHandler implements TrainStopHandler {
   }
 }
 
-class PortStopHandler implements TrainStopHandler {
+export class PortStopHandler implements TrainStopHandler {
   constructor(private random: PseudoRandom) {}
   onStop(
     mg: Game,
@@ -53,7 +53,7 @@ class PortStopHandler implements TrainStopHandler {
   }
 }
 
-class FactoryStopHandler implements TrainStopHandler {
+export class FactoryStopHandler implements TrainStopHandler {
   onStop(
     mg: Game,
     station: TrainStation,
@@ -0,0 +1,359 @@
+import { PseudoRandom } from "../../PseudoRandom";
+import { GameMapType } from "../Game";
+import { GameMap, TileRef } from "../GameMap";
+import { CrystalCluster } from "./FrenzyTypes";
+
+/**
+ * A crystal cluster before `FrenzyManager` assigns its id
+ */
+export type PlacedCrystalCluster = Omit<CrystalCluster, "id">;
+
+// World-style maps spread more clusters and bias them toward high terrain
+function isHeightBiased(mapType: GameMapType): boolean {
+  return (
+    mapType === GameMapType.World ||
+    mapType === GameMapType.GiantWorldMap ||
+    mapType === GameMapType.Europe ||
+    mapType === GameMapType.EuropeClassic
+  );
+}
+
+// Sizes the cluster at (x, y) and rolls its crystal rotations
+function buildCluster(
+  map: GameMap,
+  mapType: GameMapType,
+  random: PseudoRandom,
+  x: number,
+  y: number,
+  tile: TileRef,
+  magnitude: number,
+): PlacedCrystalCluster {
+  const mapWidth = map.width();
+  const mapHeight = map.height();
+  const centerX = mapWidth / 2;
+  const centerY = mapHeight / 2;
+  const maxRadius = Math.min(mapWidth, mapHeight) / 2;
+
+  let crystalCount: number;
+  if (isHeightBiased(mapType)) {
+    const height01 = Math.max(0, Math.min(1, magnitude / 31));
+    // 1-5 crystals, more on higher terrain.
+    crystalCount = Math.min(
+      5,
+      Math.max(1, Math.floor(1 + height01 * 4 + random.next() * 1.5)),
+    );
+  } else {
+    // For SquareMap/CircleMap: keep the center-based cluster sizing.
+    const dx = Math.abs(x - centerX);
+    const dy = Math.abs(y - centerY);
+    const distFromCenter =
+      mapType === GameMapType.SquareMap
+        ? Math.max(dx, dy) / (Math.min(mapWidth, mapHeight) * 0.1)
+        : Math.sqrt(dx * dx + dy * dy) / maxRadius;
+
+    // Random cluster size (1-5 crystals), higher chance for more crystals near center
+    const centerBonus = Math.max(0, 1 - distFromCenter); // 0-1, higher near center
+    crystalCount = Math.min(
+      5,
+      Math.max(1, Math.floor(1 + centerBonus * 3 + random.next() * 2)),
+    );
+  }
+
+  // Random rotations for each crystal in the cluster (bottom anchored, tilt up to 30 degrees each way)
+  const rotations: number[] = [];
+  for (let j = 0; j < crystalCount; j++) {
+    rotations.push((random.next() - 0.5) * (Math.PI / 3));
+  }
+
+  return { x, y, tile, crystalCount, rotations };
+}
+
+/**
+ * Generate crystal clusters on the map
+ * Higher density toward the center of the map
+ * For SquareMap: crystals only spawn in center 10% zone
+ *
+ * Pure given `random`, so the map editor can preview the same placement the
+ * game will use.
+ */
+export function placeCrystalClusters(
+  map: GameMap,
+  mapType: GameMapType,
+  clusterCount: number,
+  random: PseudoRandom,
+): PlacedCrystalCluster[] {
+  const clusters: PlacedCrystalCluster[] = [];
+  const mapWidth = map.width();
+  const mapHeight = map.height();
+  const centerX = mapWidth / 2;
+  const centerY = mapHeight / 2;
+  const maxRadius = Math.min(mapWidth, mapHeight) / 2;
+
+  const worldCrystalMultiplier = isHeightBiased(mapType) ? 5 : 1;
+
+  const count = Math.max(0, Math.round(clusterCount * worldCrystalMultiplier));
+
+  // For world-style maps, bias placement toward higher terrain magnitude.
+  // Magnitude is 0..31; we treat it as a height proxy.
+  const shouldBiasByHeight = isHeightBiased(mapType);
+  const MAX_PLACEMENT_TRIES = 1;
+
+  // World-style maps: ensure regional coverage while keeping a strong height bias.
+  // We do this by distributing clusters across a grid of regions, then choosing
+  // a locally-high-magnitude land tile within each region.
+  const regionBias = shouldBiasByHeight;
+
+  // Tuning knobs for world-style crystal distribution.
+  // Goal: keep strong height bias, but prevent massive high areas from
+  // monopolizing crystals by spreading clusters across more local regions.
+  const regionBiasTargetMultiplier = 16; // higher -> more regions -> more even global coverage
+  const regionBiasTargetMin = 40;
+  const regionBiasTargetMax = 60;
+
+  // Hard cap per region; lower values cap large high areas more aggressively.
+  const regionCrystalCapSlack = 0; // previous behavior was effectively +1 slack
+
+  // How finely the map is subdivided into regions for crystal distribution.
+  // More regions -> more even geographic coverage (each region gets some clusters).
+  const regionTargetCount = regionBias
+    ? Math.max(
+        regionBiasTargetMin,
+        Math.min(
+          regionBiasTargetMax,
+          Math.round(Math.sqrt(count) * regionBiasTargetMultiplier),
+        ),
+      )
+    : 0;
+  const regionAspect = mapHeight > 0 ? mapWidth / mapHeight : 1;
+  const regionGridX = regionBias
+    ? Math.max(
+        3,
+        Math.min(12, Math.round(Math.sqrt(regionTargetCount * regionAspect))),
+      )
+    : 1;
+  const regionGridY = regionBias
+    ? Math.max(3, Math.min(12, Math.ceil(regionTargetCount / regionGridX)))
+    : 1;
+  const regionCount = regionBias ? regionGridX * regionGridY : 0;
+  const regionPlacedCounts = regionBias
+    ? new Array<number>(regionCount).fill(0)
+    : [];
+
+  // Maximum crystal clusters allowed per region.
+  // This is the “density limiter” that prevents very large high areas (e.g. Himalayas)
+  // from monopolizing all crystals.
+  const regionCrystalCap = regionBias
+    ? Math.max(
+        1,
+        Math.ceil(count / Math.max(1, regionCount)) + regionCrystalCapSlack,
+      )
+    : 0;
+
+  // Sampling knobs for selecting a locally-high tile within the chosen region.
+  const regionLocalSamples = 60;
+  const regionPickTries = 12;
+
+  for (let i = 0; i < count; i++) {
+    let x = 0;
+    let y = 0;
+    let tile: TileRef | undefined;
+    let placed = false;
+    let chosenMagnitude = 0;
+
+    // Find a valid land tile position.
+    // For world-style maps we want coverage across the whole map, but with a
+    // clear bias toward high terrain. To avoid huge high areas taking over,
+    // we sample within a region and cap how many clusters each region gets.
+    if (shouldBiasByHeight) {
+      let chosenRegion = -1;
+      for (let rp = 0; rp < regionPickTries; rp++) {
+        // Prefer the least-used regions to avoid empty areas.
+        let minCount = Infinity;
+        for (let r = 0; r < regionCount; r++) {
+          if (regionPlacedCounts[r] < minCount)
+            minCount = regionPlacedCounts[r];
+        }
+        const candidates: number[] = [];
+        for (let r = 0; r < regionCount; r++) {
+          if (
+            regionPlacedCounts[r] === minCount &&
+            regionPlacedCounts[r] < regionCrystalCap
+          ) {
+            candidates.push(r);
+          }
+        }
+        if (candidates.length === 0) {
+          // If all regions hit the cap (or many are water), relax the cap.
+          for (let r = 0; r < regionCount; r++) {
+            if (regionPlacedCounts[r] === minCount) candidates.push(r);
+          }
+        }
+        if (candidates.length === 0) {
+          break;
+        }
+        chosenRegion = candidates[random.nextInt(0, candidates.length)];
+
+        const rx = chosenRegion % regionGridX;
+        const ry = Math.floor(chosenRegion / regionGridX);
+        const regionX0 = Math.floor((rx * mapWidth) / regionGridX);
+        const regionX1 = Math.floor(((rx + 1) * mapWidth) / regionGridX);
+        const regionY0 = Math.floor((ry * mapHeight) / regionGridY);
+        const regionY1 = Math.floor(((ry + 1) * mapHeight) / regionGridY);
+
+        let bestTile: TileRef | undefined;
+        let bestX = 0;
+        let bestY = 0;
+        let bestScore = -1;
+        let bestMagnitude = 0;
+
+        for (let attempt = 0; attempt < regionLocalSamples; attempt++) {
+          x = regionX0 + random.next() * Math.max(1, regionX1 - regionX0);
+          y = regionY0 + random.next() * Math.max(1, regionY1 - regionY0);
+
+          const tileX = Math.floor(x);
+          const tileY = Math.floor(y);
+          if (!map.isValidCoord(tileX, tileY)) {
+            continue;
+          }
+          const candidateTile = map.ref(tileX, tileY);
+          if (!candidateTile || map.isWater(candidateTile)) {
+            continue;
+          }
+
+          const magnitude = map.magnitude(candidateTile);
+          // Strong height bias, but keep a touch of noise so each region
+          // doesn't always pick the single peak tile.
+          const score = magnitude + random.next();
+          if (score > bestScore) {
+            bestScore = score;
+            bestTile = candidateTile;
+            bestX = x;
+            bestY = y;
+            bestMagnitude = magnitude;
+          }
+        }
+
+        if (bestTile) {
+          tile = bestTile;
+          x = bestX;
+          y = bestY;
+          chosenMagnitude = bestMagnitude;
+          placed = true;
+          regionPlacedCounts[chosenRegion]++;
+          break;
+        }
+
+        // Region had no usable land samples; try another region.
+        chosenRegion = -1;
+      }
+
+      // Fallback: if we couldn't place by region (e.g. very watery maps), try global sampling.
+      if (!placed) {
+        let bestTile: TileRef | undefined;
+        let bestX = 0;
+        let bestY = 0;
+        let bestScore = -1;
+        let bestMagnitude = 0;
+
+        for (let attempt = 0; attempt < regionLocalSamples; attempt++) {
+          x = random.next() * mapWidth;
+          y = random.next() * mapHeight;
+
+          const tileX = Math.floor(x);
+          const tileY = Math.floor(y);
+          if (!map.isValidCoord(tileX, tileY)) {
+            continue;
+          }
+          const candidateTile = map.ref(tileX, tileY);
+          if (!candidateTile || map.isWater(candidateTile)) {
+            continue;
+          }
+
+          const magnitude = map.magnitude(candidateTile);
+          const score = magnitude + random.next();
+          if (score > bestScore) {
+            bestScore = score;
+            bestTile = candidateTile;
+            bestX = x;
+            bestY = y;
+            bestMagnitude = magnitude;
+          }
+        }
+
+        if (bestTile) {
+          tile = bestTile;
+          x = bestX;
+          y = bestY;
+          chosenMagnitude = bestMagnitude;
+          placed = true;
+        }
+      }
+    } else {
+      // Non-world maps: keep the existing center-biased distribution.
+      for (let attempt = 0; attempt < MAX_PLACEMENT_TRIES; attempt++) {
+        if (mapType === GameMapType.SquareMap) {
+          // SquareMap: crystals only in center 10% zone (square distribution)
+          const crystalZoneSize = Math.min(mapWidth, mapHeight) * 0.1;
+          // Random position within the crystal zone square
+          x = centerX + (random.next() - 0.5) * 2 * crystalZoneSize;
+          y = centerY + (random.next() - 0.5) * 2 * crystalZoneSize;
+        } else {
+          // CircleMap and others: use polar distribution favoring center
+          // Use gaussian-like distribution favoring center
+          // Square root of random gives higher density toward center
+          const distFactor = Math.sqrt(random.next()) * 0.85; // 0.85 to keep some space from edges
+          const angle = random.next() * Math.PI * 2;
+
+          x = centerX + Math.cos(angle) * distFactor * maxRadius;
+          y = centerY + Math.sin(angle) * distFactor * maxRadius;
+        }
+
+        // Only place on land
+        const tileX = Math.floor(x);
+        const tileY = Math.floor(y);
+        if (!map.isValidCoord(tileX, tileY)) {
+          continue;
+        }
+        tile = map.ref(tileX, tileY);
+        if (!tile || map.isWater(tile)) {
+          tile = undefined;
+          continue;
+        }
+
+        placed = true;
+        break;
+      }
+    }
+
+    if (!tile || !placed) {
+      continue;
+    }
+
+    clusters.push(
+      buildCluster(map, mapType, random, x, y, tile, chosenMagnitude),
+    );
+  }
+  return clusters;
+}
+
+/**
+ * Clusters at the positions a custom map fixes, sized like generated ones.
+ * Positions on water or off the map are skipped.
+ */
+export function fixedCrystalClusters(
+  map: GameMap,
+  mapType: GameMapType,
+  random: PseudoRandom,
+  positions: ReadonlyArray<readonly [number, number]>,
+): PlacedCrystalCluster[] {
+  const clusters: PlacedCrystalCluster[] = [];
+  for (const [x, y] of positions) {
+    if (!map.isValidCoord(x, y)) continue;
+    const tile = map.ref(x, y);
+    if (map.isWater(tile)) continue;
+    clusters.push(
+      buildCluster(map, mapType, random, x, y, tile, map.magnitude(tile)),
+    );
+  }
+  return clusters;
+}
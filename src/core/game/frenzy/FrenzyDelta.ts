@@ -0,0 +1,314 @@
+import {
+  FrenzyCrystalData,
+  FrenzyEntityDelta,
+  FrenzyGoldPayoutData,
+  FrenzyProjectileData,
+  FrenzyStructureData,
+  FrenzyUnitData,
+  FrenzyUpdate,
+  GameUpdateType,
+} from "../GameUpdates";
+import {
+  CrystalCluster,
+  FrenzyProjectile,
+  FrenzyStructure,
+  FrenzyUnit,
+} from "./FrenzyTypes";
+
+/**
+ * Ticks between full keyframes (10 ticks = 1 second).
+ * Keyframes bound the damage of a lost or misapplied delta.
+ */
+export const FRENZY_KEYFRAME_INTERVAL = 300;
+
+/**
+ * Full Frenzy state for a single tick, as built by `FrenzyManager.createUpdate()`.
+ */
+export interface FrenzySnapshot {
+  units: FrenzyUnitData[];
+  structures: FrenzyStructureData[];
+  projectiles: FrenzyProjectileData[];
+  crystals: FrenzyCrystalData[];
+  projectileSize: number;
+  maxUnitsPerPlayer: number;
+  maxWarshipsPerPlayer: number;
+  pendingGoldPayouts: FrenzyGoldPayoutData[];
+}
+
+/** The per-update values sent along with every delta. */
+export type FrenzySettings = Omit<
+  FrenzySnapshot,
+  "units" | "structures" | "projectiles" | "crystals"
+>;
+
+type FrenzyEntity = { id: number };
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) return false;
+    }
+    return true;
+  }
+  return false;
+}
+
+function copyEntity<T extends FrenzyEntity>(entity: T): T {
+  const copy = { ...entity };
+  for (const key in copy) {
+    const value = copy[key];
+    if (Array.isArray(value)) {
+      copy[key] = [...value] as T[typeof key];
+    }
+  }
+  return copy;
+}
+
+/**
+ * Worker-side encoder for one entity collection. The simulation marks the
+ * entities it adds, changes or removes; a delta only reads those and sends
+ * the fields that differ from what was last sent.
+ */
+export class FrenzyCollectionEncoder<
+  S extends FrenzyEntity,
+  T extends FrenzyEntity,
+> {
+  private sent = new Map<number, T>();
+  private added = new Set<number>();
+  private touched = new Set<S>();
+  private removed = new Set<number>();
+
+  /** Marks an entity that joined the collection. */
+  add(entity: S) {
+    this.added.add(entity.id);
+    this.touched.add(entity);
+  }
+
+  /**
+   * Marks an entity that may have changed. Entities that were never added
+   * or already removed are ignored, so stale references can't revive them.
+   */
+  touch(entity: S) {
+    this.touched.add(entity);
+  }
+
+  /** Marks an entity that left the collection. */
+  remove(entity: S) {
+    this.touched.delete(entity);
+    this.removed.add(entity.id);
+  }
+
+  keyframe(all: readonly T[]): FrenzyEntityDelta<T> {
+    this.sent.clear();
+    this.added.clear();
+    this.touched.clear();
+    this.removed.clear();
+    for (const entity of all) {
+      this.sent.set(entity.id, copyEntity(entity));
+    }
+    return { spawned: [...all], changed: [], removed: [] };
+  }
+
+  delta(toData: (entity: S) => T): FrenzyEntityDelta<T> {
+    const delta: FrenzyEntityDelta<T> = {
+      spawned: [],
+      changed: [],
+      removed: [],
+    };
+
+    for (const id of this.removed) {
+      // Entities added and removed between two updates were never sent
+      if (this.sent.delete(id)) {
+        delta.removed.push(id);
+      }
+    }
+
+    for (const source of this.touched) {
+      if (this.removed.has(source.id)) continue;
+      const prev = this.sent.get(source.id);
+      if (prev === undefined && !this.added.has(source.id)) continue;
+      const entity = toData(source);
+      if (prev === undefined) {
+        this.sent.set(entity.id, copyEntity(entity));
+        delta.spawned.push(entity);
+        continue;
+      }
+
+      let change: (Partial<T> & FrenzyEntity) | null = null;
+      for (const key in entity) {
+        if (!sameValue(prev[key], entity[key])) {
+          change ??= { id: entity.id } as Partial<T> & FrenzyEntity;
+          change[key] = entity[key];
+          prev[key] = Array.isArray(entity[key])
+            ? ([...(entity[key] as unknown[])] as T[typeof key])
+            : entity[key];
+        }
+      }
+      // Fields that were set before but are now absent
+      for (const key in prev) {
+        if (!(key in entity) && prev[key] !== undefined) {
+          change ??= { id: entity.id } as Partial<T> & FrenzyEntity;
+          (change as Record<string, unknown>)[key] = undefined;
+          prev[key] = undefined as T[typeof key];
+        }
+      }
+      if (change !== null) {
+        delta.changed.push(change);
+      }
+    }
+
+    this.added.clear();
+    this.touched.clear();
+    this.removed.clear();
+    return delta;
+  }
+}
+
+/**
+ * Main-thread state for one entity collection, rebuilt from deltas.
+ * Entities are mutated in place so renderers keep stable object references.
+ */
+export class FrenzyCollectionState<T extends FrenzyEntity> {
+  private byId = new Map<number, T>();
+  private list: T[] = [];
+  private listDirty = false;
+
+  apply(delta: FrenzyEntityDelta<T>, keyframe: boolean) {
+    if (keyframe) {
+      this.byId.clear();
+      this.listDirty = true;
+    }
+    for (const id of delta.removed) {
+      if (this.byId.delete(id)) {
+        this.listDirty = true;
+      }
+    }
+    for (const entity of delta.spawned) {
+      this.byId.set(entity.id, entity);
+      this.listDirty = true;
+    }
+    for (const change of delta.changed) {
+      const entity = this.byId.get(change.id);
+      if (entity === undefined) {
+        console.warn(`[FrenzyDelta] change for unknown entity ${change.id}`);
+        continue;
+      }
+      Object.assign(entity, change);
+    }
+  }
+
+  get(id: number): T | undefined {
+    return this.byId.get(id);
+  }
+
+  values(): T[] {
+    if (this.listDirty) {
+      this.list = Array.from(this.byId.values());
+      this.listDirty = false;
+    }
+    return this.list;
+  }
+}
+
+/** Builds the update data of simulation entities. */
+export interface FrenzyEntityData {
+  unit(unit: FrenzyUnit): FrenzyUnitData;
+  structure(structure: FrenzyStructure): FrenzyStructureData;
+  projectile(projectile: FrenzyProjectile): FrenzyProjectileData;
+  crystal(crystal: CrystalCluster): FrenzyCrystalData;
+}
+
+/**
+ * Encodes `FrenzyUpdate`s from the entities the simulation marked, sending a
+ * keyframe of the full state every `FRENZY_KEYFRAME_INTERVAL` updates.
+ */
+export class FrenzyDeltaEncoder {
+  readonly units = new FrenzyCollectionEncoder<FrenzyUnit, FrenzyUnitData>();
+  readonly structures = new FrenzyCollectionEncoder<
+    FrenzyStructure,
+    FrenzyStructureData
+  >();
+  readonly projectiles = new FrenzyCollectionEncoder<
+    FrenzyProjectile,
+    FrenzyProjectileData
+  >();
+  readonly crystals = new FrenzyCollectionEncoder<
+    CrystalCluster,
+    FrenzyCrystalData
+  >();
+  private updatesSinceKeyframe = FRENZY_KEYFRAME_INTERVAL;
+
+  constructor(private keyframeInterval: number = FRENZY_KEYFRAME_INTERVAL) {
+    this.updatesSinceKeyframe = keyframeInterval;
+  }
+
+  forceKeyframe() {
+    this.updatesSinceKeyframe = this.keyframeInterval;
+  }
+
+  /** Whether the next update has to be built with `encodeKeyframe`. */
+  keyframeDue(): boolean {
+    return this.updatesSinceKeyframe >= this.keyframeInterval;
+  }
+
+  encodeKeyframe(snapshot: FrenzySnapshot): FrenzyUpdate {
+    this.updatesSinceKeyframe = 1;
+    return {
+      ...this.settings(snapshot),
+      keyframe: true,
+      units: this.units.keyframe(snapshot.units),
+      structures: this.structures.keyframe(snapshot.structures),
+      projectiles: this.projectiles.keyframe(snapshot.projectiles),
+      crystals: this.crystals.keyframe(snapshot.crystals),
+    };
+  }
+
+  /** Encodes the entities marked since the last update. */
+  encodeDelta(settings: FrenzySettings, data: FrenzyEntityData): FrenzyUpdate {
+    this.updatesSinceKeyframe++;
+    return {
+      ...this.settings(settings),
+      keyframe: false,
+      units: this.units.delta((u) => data.unit(u)),
+      structures: this.structures.delta((s) => data.structure(s)),
+      projectiles: this.projectiles.delta((p) => data.projectile(p)),
+      crystals: this.crystals.delta((c) => data.crystal(c)),
+    };
+  }
+
+  private settings(settings: FrenzySettings) {
+    return {
+      type: GameUpdateType.Frenzy as const,
+      projectileSize: settings.projectileSize,
+      maxUnitsPerPlayer: settings.maxUnitsPerPlayer,
+      maxWarshipsPerPlayer: settings.maxWarshipsPerPlayer,
+      pendingGoldPayouts: settings.pendingGoldPayouts,
+    };
+  }
+}
+
+/**
+ * Main-thread counterpart of `FrenzyDeltaEncoder`.
+ * Returns false until the first keyframe has been applied.
+ */
+export class FrenzyDeltaDecoder {
+  readonly units = new FrenzyCollectionState<FrenzyUnitData>();
+  readonly structures = new FrenzyCollectionState<FrenzyStructureData>();
+  readonly projectiles = new FrenzyCollectionState<FrenzyProjectileData>();
+  readonly crystals = new FrenzyCollectionState<FrenzyCrystalData>();
+  private hasKeyframe = false;
+
+  apply(update: FrenzyUpdate): boolean {
+    if (!update.keyframe && !this.hasKeyframe) {
+      return false;
+    }
+    this.hasKeyframe = true;
+    this.units.apply(update.units, update.keyframe);
+    this.structures.apply(update.structures, update.keyframe);
+    this.projectiles.apply(update.projectiles, update.keyframe);
+    this.crystals.apply(update.crystals, update.keyframe);
+    return true;
+  }
+}
@@ -0,0 +1,142 @@
+import { simpleHash } from "../../Util";
+import { PlayerID } from "../Game";
+import {
+  CrystalCluster,
+  FrenzyProjectile,
+  FrenzyStructure,
+  FrenzyUnit,
+} from "./FrenzyTypes";
+
+/**
+ * Per-subsystem breakdown of the Frenzy state hash.
+ * Sent alongside the game hash so a desync can be traced to the part of
+ * Frenzy that drifted instead of only knowing that something did.
+ */
+export interface FrenzyHashBreakdown {
+  units: number;
+  structures: number;
+  economy: number;
+  territory: number;
+}
+
+export const FRENZY_HASH_SUBSYSTEMS: ReadonlyArray<keyof FrenzyHashBreakdown> =
+  ["units", "structures", "economy", "territory"];
+
+/**
+ * Fixed-point quantization so that float noise below 1/100 px does not
+ * produce different hashes for identical simulations.
+ */
+function quantize(value: number | undefined): number {
+  if (value === undefined || !Number.isFinite(value)) {
+    return 0;
+  }
+  return Math.round(value * 100) | 0;
+}
+
+/**
+ * Mix a list of values into a single 32-bit hash (FNV-1a style).
+ * Order-sensitive within an entity; entities are combined with `combine()`.
+ */
+export function mixHash(...values: Array<number | undefined>): number {
+  let h = 0x811c9dc5;
+  for (const v of values) {
+    h ^= quantize(v);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h | 0;
+}
+
+/**
+ * Combine entity hashes with wrapping addition so the result does not depend
+ * on iteration order of the underlying maps/arrays.
+ */
+export function combineHashes(acc: number, entityHash: number): number {
+  return (acc + entityHash) | 0;
+}
+
+export function hashFrenzyUnit(u: FrenzyUnit): number {
+  return mixHash(
+    u.id,
+    simpleHash(u.playerId),
+    simpleHash(u.unitType),
+    u.x,
+    u.y,
+    u.vx,
+    u.vy,
+    u.health,
+    u.maxHealth,
+    u.tier,
+    u.weaponCooldown,
+    u.shieldHealth,
+    u.hasAttackOrder ? 1 : 0,
+    u.attackOrderX,
+    u.attackOrderY,
+    u.holdPosition ? 1 : 0,
+    u.holdFire ? 1 : 0,
+    u.isFlying ? 1 : 0,
+    u.boardedUnits?.length,
+  );
+}
+
+export function hashFrenzyStructure(s: FrenzyStructure): number {
+  return mixHash(
+    s.id,
+    simpleHash(s.type),
+    simpleHash(s.playerId),
+    s.tile,
+    s.tier,
+    s.health,
+    s.maxHealth,
+    s.spawnTimer,
+    s.unitCount,
+    s.constructionProgress,
+  );
+}
+
+export function hashFrenzyProjectile(p: FrenzyProjectile): number {
+  return mixHash(
+    p.id,
+    simpleHash(p.playerId),
+    p.x,
+    p.y,
+    p.age,
+    p.life,
+    p.damage,
+    p.areaRadius,
+  );
+}
+
+export function hashCrystalCluster(c: CrystalCluster): number {
+  return mixHash(c.id, c.tile, c.crystalCount);
+}
+
+export function hashGoldPayout(payout: {
+  playerId: PlayerID;
+  x: number;
+  y: number;
+  gold: number;
+}): number {
+  return mixHash(simpleHash(payout.playerId), payout.x, payout.y, payout.gold);
+}
+
+/**
+ * Fold a breakdown into the single number that goes into the game hash.
+ */
+export function totalFrenzyHash(breakdown: FrenzyHashBreakdown): number {
+  return mixHash(
+    breakdown.units,
+    breakdown.structures,
+    breakdown.economy,
+    breakdown.territory,
+  );
+}
+
+/**
+ * Returns the subsystems whose hashes differ between two breakdowns.
+ */
+export function diffFrenzyHashes(
+  a: FrenzyHashBreakdown,
+  b: FrenzyHashBreakdown,
+): Array<keyof FrenzyHashBreakdown> {
+  return FRENZY_HASH_SUBSYSTEMS.filter((key) => a[key] !== b[key]);
+}
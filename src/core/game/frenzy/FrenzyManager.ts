@@ -1,11 +1,12 @@
+import { LandFlowField } from "../../pathfinding/LandFlowField";
 import { LandHPAPathFinder } from "../../pathfinding/LandHPAPathFinder";
-import { PathFinder } from "../../pathfinding/PathFinding";
 import { WaterHPAPathFinder } from "../../pathfinding/WaterHPAPathFinder";
 import { PseudoRandom } from "../../PseudoRandom";
+import { FrenzyOverrides } from "../../Schemas";
+import { FrenzyStructureKey, isFrenzyTowerType } from "../../StatsSchemas";
 import { simpleHash } from "../../Util";
 import {
   Game,
-  GameMapType,
   Player,
   PlayerID,
   PlayerType,
@@ -14,30 +15,76 @@ import {
   UnitType,
 } from "../Game";
 import { TileRef } from "../GameMap";
+import {
+  FrenzyCrystalData,
+  FrenzyProjectileData,
+  FrenzyStructureData,
+  FrenzyUnitData,
+  FrenzyUpdate,
+  GameUpdateType,
+  TimelineMarkerKind,
+} from "../GameUpdates";
+import { fixedCrystalClusters, placeCrystalClusters } from "./CrystalPlacement";
+import {
+  FrenzyDeltaEncoder,
+  FrenzySettings,
+  FrenzySnapshot,
+} from "./FrenzyDelta";
+import {
+  combineHashes,
+  FrenzyHashBreakdown,
+  hashCrystalCluster,
+  hashFrenzyProjectile,
+  hashFrenzyStructure,
+  hashFrenzyUnit,
+  hashGoldPayout,
+  mixHash,
+} from "./FrenzyHash";
+import {
+  buildingByBuildUnitType,
+  canEngage,
+  DEFAULT_FRENZY_CONFIG,
+  engagesUnits,
+  FRENZY_UNITS,
+  frenzyUnitDefinition,
+  getStructureConfig,
+  getStructureSellValue,
+  getUnitConfig,
+  isFrenzyTower,
+  mergeUnitStats,
+  STRUCTURE_CONFIGS,
+  structureTypeToKey,
+  towerByBuildUnitType,
+  towerBySellName,
+  unitTypeToStructureKey,
+} from "./FrenzyRegistry";
 import {
   AirportSpawner,
   CoreBuilding,
   CrystalCluster,
-  DEFAULT_FRENZY_CONFIG,
   FactorySpawner,
   FrenzyConfig,
   FrenzyProjectile,
   FrenzyStructure,
   FrenzyStructureType,
   FrenzyUnit,
+  FrenzyUnitOrder,
   FrenzyUnitType,
-  getStructureSellValue,
-  getUnitConfig,
   MineStructure,
   MiniHQStructure,
   PortSpawner,
   ProjectileType,
-  STRUCTURE_CONFIGS,
-  STRUCTURE_UPGRADES,
+  StructureConfig,
+  StructureTypeKey,
   UnitTypeConfig,
 } from "./FrenzyTypes";
 import { SpatialHashGrid } from "./SpatialHashGrid";
 
+// Mini-map tiles per side of the regions that land flow fields lead to
+const FLOW_REGION_SIZE = 8;
+// Flow fields nobody followed for this many ticks are dropped
+const FLOW_FIELD_IDLE_TICKS = 100;
+
 type CachedStructureTarget =
   | { kind: "none"; expiresTick: number }
   | { kind: "frenzy"; expiresTick: number; target: FrenzyStructure }
@@ -66,9 +113,6 @@ export class FrenzyManager {
   private config: FrenzyConfig;
   private defeatedPlayers = new Set<PlayerID>();
 
-  // Pathfinding (created lazily per-unit; used only when needed)
-  private landPathFinders: Map<number, PathFinder> = new Map();
-
   // Land pathing: hierarchical land graph (built once per map) + per-unit cached routes
   private landHPA: LandHPAPathFinder | null = null;
   private landRoutes: Map<
@@ -76,6 +120,22 @@ export class FrenzyManager {
     { destTile: TileRef; path: TileRef[]; index: number }
   > = new Map();
 
+  // Flow fields shared by a player's units heading to the same region, keyed
+  // by `${playerId}:${region}`. Units far from their target sample these
+  // instead of planning a route each.
+  private landFlowFields: Map<
+    string,
+    {
+      field: LandFlowField;
+      // Graph the field was built on; a new graph means new terrain
+      hpa: LandHPAPathFinder;
+      // Game tile of the goal and its owner when the field was built
+      goalTile: TileRef;
+      goalOwner: number;
+      lastUsedTick: number;
+    }
+  > = new Map();
+
   // Warship pathing: hierarchical water graph (built once per map) + per-unit cached routes
   private waterHPA: WaterHPAPathFinder | null = null;
   private warshipRoutes: Map<
@@ -148,6 +208,11 @@ export class FrenzyManager {
   // Performance: Track tick count for staggered updates
   private tickCount = 0;
 
+  // Match stats: damage is dealt in fractions every tick (DPS * deltaTime),
+  // so it accumulates per attacker/victim pair and is flushed in whole points
+  private pendingDamageStats: Map<PlayerID, Map<PlayerID, number>> = new Map();
+  private readonly STATS_SAMPLE_INTERVAL = 100; // Timeline sample every 100 ticks
+
   // Performance profiling: stores last tick breakdown
   private lastTickBreakdown: Record<string, number> = {};
 
@@ -160,6 +225,7 @@ export class FrenzyManager {
     landDirectMoves: 0,
     landPathAttempts: 0,
     landReplans: 0,
+    landFlowSteps: 0,
     warshipDirectMoves: 0,
     warshipPathAttempts: 0,
     warshipReplans: 0,
@@ -168,75 +234,21 @@ export class FrenzyManager {
   // Deterministic random number generator (seeded for multiplayer sync)
   private random: PseudoRandom;
 
+  // Tracks what the main thread has already received (presentation only, not hashed).
+  // Whatever changes an entity's update data marks it here, see mutateUnit.
+  private deltaEncoder = new FrenzyDeltaEncoder();
+
   constructor(
     private game: Game,
-    config?: Partial<FrenzyConfig>,
+    config?: FrenzyOverrides,
+    // Crystal cluster positions fixed by a custom map
+    private fixedCrystals?: [number, number][],
   ) {
-    // Deep merge for nested unit configs
-    if (config?.units) {
-      this.config = {
-        ...DEFAULT_FRENZY_CONFIG,
-        ...config,
-        units: {
-          // Mobile units
-          soldier: {
-            ...DEFAULT_FRENZY_CONFIG.units.soldier,
-            ...config.units.soldier,
-          },
-          eliteSoldier: {
-            ...DEFAULT_FRENZY_CONFIG.units.eliteSoldier,
-            ...config.units.eliteSoldier,
-          },
-          warship: {
-            ...DEFAULT_FRENZY_CONFIG.units.warship,
-            ...config.units.warship,
-          },
-          eliteWarship: {
-            ...DEFAULT_FRENZY_CONFIG.units.eliteWarship,
-            ...config.units.eliteWarship,
-          },
-          transporter: {
-            ...DEFAULT_FRENZY_CONFIG.units.transporter,
-            ...config.units.transporter,
-          },
-          // Towers
-          defensePost: {
-            ...DEFAULT_FRENZY_CONFIG.units.defensePost,
-            ...config.units.defensePost,
-          },
-          eliteDefensePost: {
-            ...DEFAULT_FRENZY_CONFIG.units.eliteDefensePost,
-            ...config.units.eliteDefensePost,
-          },
-          samLauncher: {
-            ...DEFAULT_FRENZY_CONFIG.units.samLauncher,
-            ...config.units.samLauncher,
-          },
-          missileSilo: {
-            ...DEFAULT_FRENZY_CONFIG.units.missileSilo,
-            ...config.units.missileSilo,
-          },
-          shieldGenerator: {
-            ...DEFAULT_FRENZY_CONFIG.units.shieldGenerator,
-            ...config.units.shieldGenerator,
-          },
-          eliteShieldGenerator: {
-            ...DEFAULT_FRENZY_CONFIG.units.eliteShieldGenerator,
-            ...config.units.eliteShieldGenerator,
-          },
-          artillery: {
-            ...DEFAULT_FRENZY_CONFIG.units.artillery,
-            ...config.units.artillery,
-          },
-          eliteArtillery: {
-            ...DEFAULT_FRENZY_CONFIG.units.eliteArtillery,
-            ...config.units.eliteArtillery,
-          },
-        },
-      };
-    } else {
-      this.config = { ...DEFAULT_FRENZY_CONFIG, ...config };
-    }
+    this.config = {
+      ...DEFAULT_FRENZY_CONFIG,
+      ...config,
+      units: mergeUnitStats(DEFAULT_FRENZY_CONFIG.units, config?.units ?? {}),
+    };
     this.spatialGrid = new SpatialHashGrid(50); // 50px cell size
     // Use game ticks as seed for deterministic randomness in multiplayer
     this.random = new PseudoRandom(this.game.ticks());
@@ -262,6 +274,96 @@ export class FrenzyManager {
     return this.game.player(playerId);
   }
 
+  /**
+   * Record damage from one player's units to another's units or structures
+   */
+  private recordDamage(
+    attackerId: PlayerID | undefined,
+    victimId: PlayerID,
+    damage: number,
+  ) {
+    if (attackerId === undefined || attackerId === victimId || damage <= 0) {
+      return;
+    }
+    let byVictim = this.pendingDamageStats.get(attackerId);
+    if (!byVictim) {
+      byVictim = new Map();
+      this.pendingDamageStats.set(attackerId, byVictim);
+    }
+    byVictim.set(victimId, (byVictim.get(victimId) ?? 0) + damage);
+  }
+
+  private recordStructureStat(
+    playerId: PlayerID,
+    type: FrenzyStructureKey,
+    kind: "build" | "upgrade" | "sell" | "capture",
+  ) {
+    const player = this.safeGetPlayer(playerId);
+    if (!player) return;
+    const stats = this.game.stats();
+    switch (kind) {
+      case "build":
+        stats.frenzyStructureBuild(player, type);
+        break;
+      case "upgrade":
+        stats.frenzyStructureUpgrade(player, type);
+        break;
+      case "sell":
+        stats.frenzyStructureSell(player, type);
+        break;
+      case "capture":
+        stats.frenzyStructureCapture(player, type);
+        break;
+    }
+  }
+
+  private recordUnitSpawn(unit: FrenzyUnit) {
+    const player = this.safeGetPlayer(unit.playerId);
+    if (!player) return;
+    // Towers are spawned as units but count as structures in the stats
+    if (isFrenzyTowerType(unit.unitType)) {
+      this.game.stats().frenzyStructureBuild(player, unit.unitType);
+    } else {
+      this.game.stats().frenzyUnitSpawn(player, unit.unitType);
+    }
+  }
+
+  /**
+   * Flush accumulated damage and take periodic timeline samples
+   */
+  private flushStats() {
+    const stats = this.game.stats();
+    for (const [attackerId, byVictim] of this.pendingDamageStats) {
+      const attacker = this.safeGetPlayer(attackerId);
+      for (const [victimId, damage] of byVictim) {
+        const whole = Math.floor(damage);
+        if (whole <= 0) continue;
+        const victim = this.safeGetPlayer(victimId);
+        if (attacker && victim) {
+          stats.frenzyDamage(attacker, victim, whole);
+        }
+        byVictim.set(victimId, damage - whole);
+      }
+    }
+
+    if (this.tickCount % this.STATS_SAMPLE_INTERVAL !== 0) return;
+    const mobileUnits = new Map<PlayerID, number>();
+    for (const unit of this.units) {
+      if (isFrenzyTowerType(unit.unitType)) continue;
+      mobileUnits.set(unit.playerId, (mobileUnits.get(unit.playerId) ?? 0) + 1);
+    }
+    for (const player of this.game.players()) {
+      if (player.clientID() === null || !player.isAlive()) continue;
+      stats.frenzySample(
+        player,
+        this.game.ticks(),
+        player.numTilesOwned(),
+        player.gold(),
+        mobileUnits.get(player.id()) ?? 0,
+      );
+    }
+  }
+
   /**
    * Set the defensive stance for a player
    * @param playerId The player ID
@@ -280,13 +382,9 @@ export class FrenzyManager {
 
     // Force all units of this player to retarget
     for (const unit of this.units) {
-      if (
-        unit.playerId === playerId &&
-        unit.unitType !== FrenzyUnitType.DefensePost
-      ) {
+      if (unit.playerId === playerId && !isFrenzyTower(unit.unitType)) {
         // Reset target to force recalculation
-        unit.targetX = unit.x;
-        unit.targetY = unit.y;
+        this.mutateUnit(unit, { targetX: unit.x, targetY: unit.y });
       }
     }
   }
@@ -329,7 +427,7 @@ export class FrenzyManager {
     for (const unit of this.units) {
       if (
         unit.playerId === playerId &&
-        unit.unitType === FrenzyUnitType.Warship
+        FRENZY_UNITS[unit.unitType].domain === "naval"
       ) {
         count++;
       }
@@ -377,76 +475,19 @@ export class FrenzyManager {
     return 1.0;
   }
 
-  updateConfig(overrides: Partial<FrenzyConfig>) {
-    // Deep merge for nested unit configs
-    if (overrides.units) {
-      this.config = {
-        ...this.config,
-        ...overrides,
-        units: {
-          // Mobile units
-          soldier: { ...this.config.units.soldier, ...overrides.units.soldier },
-          eliteSoldier: {
-            ...this.config.units.eliteSoldier,
-            ...overrides.units.eliteSoldier,
-          },
-          warship: {
-            ...this.config.units.warship,
-            ...overrides.units.warship,
-          },
-          eliteWarship: {
-            ...this.config.units.eliteWarship,
-            ...overrides.units.eliteWarship,
-          },
-          transporter: {
-            ...this.config.units.transporter,
-            ...overrides.units.transporter,
-          },
-          // Towers
-          defensePost: {
-            ...this.config.units.defensePost,
-            ...overrides.units.defensePost,
-          },
-          eliteDefensePost: {
-            ...this.config.units.eliteDefensePost,
-            ...overrides.units.eliteDefensePost,
-          },
-          samLauncher: {
-            ...this.config.units.samLauncher,
-            ...overrides.units.samLauncher,
-          },
-          missileSilo: {
-            ...this.config.units.missileSilo,
-            ...overrides.units.missileSilo,
-          },
-          shieldGenerator: {
-            ...this.config.units.shieldGenerator,
-            ...overrides.units.shieldGenerator,
-          },
-          eliteShieldGenerator: {
-            ...this.config.units.eliteShieldGenerator,
-            ...overrides.units.eliteShieldGenerator,
-          },
-          artillery: {
-            ...this.config.units.artillery,
-            ...overrides.units.artillery,
-          },
-          eliteArtillery: {
-            ...this.config.units.eliteArtillery,
-            ...overrides.units.eliteArtillery,
-          },
-        },
-      };
-    } else {
-      this.config = { ...this.config, ...overrides };
-    }
+  updateConfig(overrides: FrenzyOverrides) {
+    this.config = {
+      ...this.config,
+      ...overrides,
+      units: mergeUnitStats(this.config.units, overrides.units ?? {}),
+    };
 
     for (const building of this.coreBuildings.values()) {
-      building.spawnInterval = this.config.spawnInterval;
-      building.spawnTimer = Math.min(
-        building.spawnTimer,
-        building.spawnInterval,
-      );
+      // Also refreshes the unit caps HQs report
+      this.mutateStructure(building, {
+        spawnInterval: this.config.spawnInterval,
+        spawnTimer: Math.min(building.spawnTimer, this.config.spawnInterval),
+      });
     }
     if (overrides.maxUnitsPerPlayer !== undefined) {
       this.enforceUnitCaps();
@@ -490,7 +531,7 @@ export class FrenzyManager {
       `[FrenzyManager] Creating HQ for ${player.name()} at (${Math.round(spawnPos.x)}, ${Math.round(spawnPos.y)})`,
     );
 
-    this.coreBuildings.set(playerId, {
+    const hq: CoreBuilding = {
       id: this.nextStructureId++,
       type: FrenzyStructureType.HQ,
       playerId: playerId,
@@ -503,7 +544,9 @@ export class FrenzyManager {
       tier: 1,
       health: this.config.hqHealth,
       maxHealth: this.config.hqHealth,
-    });
+    };
+    this.coreBuildings.set(playerId, hq);
+    this.markStructureAdded(hq);
 
     // Spawn initial units
     for (let i = 0; i < this.config.startingUnits; i++) {
@@ -537,6 +580,7 @@ export class FrenzyManager {
     this.pfThisTick.landDirectMoves = 0;
     this.pfThisTick.landPathAttempts = 0;
     this.pfThisTick.landReplans = 0;
+    this.pfThisTick.landFlowSteps = 0;
     this.pfThisTick.warshipDirectMoves = 0;
     this.pfThisTick.warshipPathAttempts = 0;
     this.pfThisTick.warshipReplans = 0;
@@ -587,6 +631,9 @@ export class FrenzyManager {
     this.removeDeadUnits();
     mark("removeDeadUnits");
 
+    this.flushStats();
+    mark("stats");
+
     // Path caches are keyed by unit id; prune periodically to avoid leaks when units are removed.
     if (this.tickCount % 30 === 0) {
       this.prunePerUnitPathCaches();
@@ -614,6 +661,7 @@ export class FrenzyManager {
     this.lastTickBreakdown["_pf_land_path_attempts"] =
       this.pfThisTick.landPathAttempts;
     this.lastTickBreakdown["_pf_land_replans"] = this.pfThisTick.landReplans;
+    this.lastTickBreakdown["_pf_land_flow"] = this.pfThisTick.landFlowSteps;
     this.lastTickBreakdown["_pf_warship_direct"] =
       this.pfThisTick.warshipDirectMoves;
     this.lastTickBreakdown["_pf_warship_path_attempts"] =
@@ -632,14 +680,16 @@ export class FrenzyManager {
   private updateSpawnTimers(deltaTime: number) {
     // Spawn from HQs
     for (const [playerId, building] of this.coreBuildings) {
-      building.spawnTimer -= deltaTime;
+      this.mutateStructure(building, {
+        spawnTimer: building.spawnTimer - deltaTime,
+      });
 
       if (
         building.spawnTimer <= 0 &&
         building.unitCount < this.getMaxUnitsForPlayer(playerId)
       ) {
         this.spawnUnit(playerId, building.x, building.y);
-        building.spawnTimer = building.spawnInterval;
+        this.mutateStructure(building, { spawnTimer: building.spawnInterval });
       }
     }
 
@@ -649,13 +699,16 @@ export class FrenzyManager {
       const owner = this.game.owner(tile);
       if (!owner.isPlayer() || owner.id() !== factory.playerId) {
         this.factories.delete(tile);
+        this.markStructureRemoved(factory);
         continue;
       }
 
       const building = this.coreBuildings.get(factory.playerId);
       if (!building) continue;
 
-      factory.spawnTimer -= deltaTime;
+      this.mutateStructure(factory, {
+        spawnTimer: factory.spawnTimer - deltaTime,
+      });
 
       if (
         factory.spawnTimer <= 0 &&
@@ -667,7 +720,7 @@ export class FrenzyManager {
             ? FrenzyUnitType.EliteSoldier
             : FrenzyUnitType.Soldier;
         this.spawnUnit(factory.playerId, factory.x, factory.y, unitType);
-        factory.spawnTimer = factory.spawnInterval;
+        this.mutateStructure(factory, { spawnTimer: factory.spawnInterval });
       }
     }
 
@@ -677,13 +730,14 @@ export class FrenzyManager {
       const owner = this.game.owner(tile);
       if (!owner.isPlayer() || owner.id() !== port.playerId) {
         this.ports.delete(tile);
+        this.markStructureRemoved(port);
         continue;
       }
 
       const building = this.coreBuildings.get(port.playerId);
       if (!building) continue;
 
-      port.spawnTimer -= deltaTime;
+      this.mutateStructure(port, { spawnTimer: port.spawnTimer - deltaTime });
 
       // Check both total unit cap AND warship-specific cap
       const underUnitCap =
@@ -707,7 +761,7 @@ export class FrenzyManager {
             portTier, // Tier 2 ports spawn tier 2 warships
           );
         }
-        port.spawnTimer = port.spawnInterval;
+        this.mutateStructure(port, { spawnTimer: port.spawnInterval });
       }
     }
 
@@ -717,6 +771,7 @@ export class FrenzyManager {
       const owner = this.game.owner(tile);
       if (!owner.isPlayer() || owner.id() !== airport.playerId) {
         this.airports.delete(tile);
+        this.markStructureRemoved(airport);
         continue;
       }
 
@@ -725,324 +780,42 @@ export class FrenzyManager {
 
       // Only spawn if airport doesn't have a transporter
       if (!airport.hasTransporter) {
-        airport.spawnTimer -= deltaTime;
+        this.mutateStructure(airport, {
+          spawnTimer: airport.spawnTimer - deltaTime,
+        });
 
         if (airport.spawnTimer <= 0) {
           // Spawn a transporter at the airport
           this.spawnTransporter(airport);
-          airport.spawnTimer = airport.spawnInterval;
+          this.mutateStructure(airport, { spawnTimer: airport.spawnInterval });
         }
       }
     }
   }
 
   /**
-   * Generate crystal clusters on the map
-   * Higher density toward the center of the map
-   * For SquareMap: crystals only spawn in center 10% zone
+   * Generate crystal clusters on the map, at the map's fixed positions when
+   * it has them and otherwise via `placeCrystalClusters()`
    */
   private generateCrystals() {
-    const mapWidth = this.game.width();
-    const mapHeight = this.game.height();
-    const centerX = mapWidth / 2;
-    const centerY = mapHeight / 2;
-    const maxRadius = Math.min(mapWidth, mapHeight) / 2;
-    const mapType = this.game.config().gameConfig().gameMap;
-
-    const worldCrystalMultiplier =
-      mapType === GameMapType.World ||
-      mapType === GameMapType.GiantWorldMap ||
-      mapType === GameMapType.Europe ||
-      mapType === GameMapType.EuropeClassic
-        ? 5
-        : 1;
-
-    const count = Math.max(
-      0,
-      Math.round(this.config.crystalClusterCount * worldCrystalMultiplier),
-    );
-
-    // For world-style maps, bias placement toward higher terrain magnitude.
-    // Magnitude is 0..31; we treat it as a height proxy.
-    const shouldBiasByHeight =
-      mapType === GameMapType.World ||
-      mapType === GameMapType.GiantWorldMap ||
-      mapType === GameMapType.Europe ||
-      mapType === GameMapType.EuropeClassic;
-    const MAX_PLACEMENT_TRIES = 1;
-
-    // World-style maps: ensure regional coverage while keeping a strong height bias.
-    // We do this by distributing clusters across a grid of regions, then choosing
-    // a locally-high-magnitude land tile within each region.
-    const regionBias = shouldBiasByHeight;
-
-    // Tuning knobs for world-style crystal distribution.
-    // Goal: keep strong height bias, but prevent massive high areas from
-    // monopolizing crystals by spreading clusters across more local regions.
-    const regionBiasTargetMultiplier = 16; // higher -> more regions -> more even global coverage
-    const regionBiasTargetMin = 40;
-    const regionBiasTargetMax = 60;
-
-    // Hard cap per region; lower values cap large high areas more aggressively.
-    const regionCrystalCapSlack = 0; // previous behavior was effectively +1 slack
-
-    // How finely the map is subdivided into regions for crystal distribution.
-    // More regions -> more even geographic coverage (each region gets some clusters).
-    const regionTargetCount = regionBias
-      ? Math.max(
-          regionBiasTargetMin,
-          Math.min(
-            regionBiasTargetMax,
-            Math.round(Math.sqrt(count) * regionBiasTargetMultiplier),
-          ),
-        )
-      : 0;
-    const regionAspect = mapHeight > 0 ? mapWidth / mapHeight : 1;
-    const regionGridX = regionBias
-      ? Math.max(
-          3,
-          Math.min(12, Math.round(Math.sqrt(regionTargetCount * regionAspect))),
-        )
-      : 1;
-    const regionGridY = regionBias
-      ? Math.max(3, Math.min(12, Math.ceil(regionTargetCount / regionGridX)))
-      : 1;
-    const regionCount = regionBias ? regionGridX * regionGridY : 0;
-    const regionPlacedCounts = regionBias
-      ? new Array<number>(regionCount).fill(0)
-      : [];
-
-    // Maximum crystal clusters allowed per region.
-    // This is the “density limiter” that prevents very large high areas (e.g. Himalayas)
-    // from monopolizing all crystals.
-    const regionCrystalCap = regionBias
-      ? Math.max(
-          1,
-          Math.ceil(count / Math.max(1, regionCount)) + regionCrystalCapSlack,
-        )
-      : 0;
-
-    // Sampling knobs for selecting a locally-high tile within the chosen region.
-    const regionLocalSamples = 60;
-    const regionPickTries = 12;
-
-    for (let i = 0; i < count; i++) {
-      let x = 0;
-      let y = 0;
-      let tile: TileRef | undefined;
-      let placed = false;
-      let chosenMagnitude = 0;
-
-      // Find a valid land tile position.
-      // For world-style maps we want coverage across the whole map, but with a
-      // clear bias toward high terrain. To avoid huge high areas taking over,
-      // we sample within a region and cap how many clusters each region gets.
-      if (shouldBiasByHeight) {
-        let chosenRegion = -1;
-        for (let rp = 0; rp < regionPickTries; rp++) {
-          // Prefer the least-used regions to avoid empty areas.
-          let minCount = Infinity;
-          for (let r = 0; r < regionCount; r++) {
-            if (regionPlacedCounts[r] < minCount)
-              minCount = regionPlacedCounts[r];
-          }
-          const candidates: number[] = [];
-          for (let r = 0; r < regionCount; r++) {
-            if (
-              regionPlacedCounts[r] === minCount &&
-              regionPlacedCounts[r] < regionCrystalCap
-            ) {
-              candidates.push(r);
-            }
-          }
-          if (candidates.length === 0) {
-            // If all regions hit the cap (or many are water), relax the cap.
-            for (let r = 0; r < regionCount; r++) {
-              if (regionPlacedCounts[r] === minCount) candidates.push(r);
-            }
-          }
-          if (candidates.length === 0) {
-            break;
-          }
-          chosenRegion = candidates[this.random.nextInt(0, candidates.length)];
-
-          const rx = chosenRegion % regionGridX;
-          const ry = Math.floor(chosenRegion / regionGridX);
-          const regionX0 = Math.floor((rx * mapWidth) / regionGridX);
-          const regionX1 = Math.floor(((rx + 1) * mapWidth) / regionGridX);
-          const regionY0 = Math.floor((ry * mapHeight) / regionGridY);
-          const regionY1 = Math.floor(((ry + 1) * mapHeight) / regionGridY);
-
-          let bestTile: TileRef | undefined;
-          let bestX = 0;
-          let bestY = 0;
-          let bestScore = -1;
-          let bestMagnitude = 0;
-
-          for (let attempt = 0; attempt < regionLocalSamples; attempt++) {
-            x =
-              regionX0 + this.random.next() * Math.max(1, regionX1 - regionX0);
-            y =
-              regionY0 + this.random.next() * Math.max(1, regionY1 - regionY0);
-
-            const tileX = Math.floor(x);
-            const tileY = Math.floor(y);
-            if (!this.game.isValidCoord(tileX, tileY)) {
-              continue;
-            }
-            const candidateTile = this.game.ref(tileX, tileY);
-            if (!candidateTile || this.game.isWater(candidateTile)) {
-              continue;
-            }
-
-            const magnitude = this.game.magnitude(candidateTile);
-            // Strong height bias, but keep a touch of noise so each region
-            // doesn't always pick the single peak tile.
-            const score = magnitude + this.random.next();
-            if (score > bestScore) {
-              bestScore = score;
-              bestTile = candidateTile;
-              bestX = x;
-              bestY = y;
-              bestMagnitude = magnitude;
-            }
-          }
-
-          if (bestTile) {
-            tile = bestTile;
-            x = bestX;
-            y = bestY;
-            chosenMagnitude = bestMagnitude;
-            placed = true;
-            regionPlacedCounts[chosenRegion]++;
-            break;
-          }
-
-          // Region had no usable land samples; try another region.
-          chosenRegion = -1;
-        }
-
-        // Fallback: if we couldn't place by region (e.g. very watery maps), try global sampling.
-        if (!placed) {
-          let bestTile: TileRef | undefined;
-          let bestX = 0;
-          let bestY = 0;
-          let bestScore = -1;
-          let bestMagnitude = 0;
-
-          for (let attempt = 0; attempt < regionLocalSamples; attempt++) {
-            x = this.random.next() * mapWidth;
-            y = this.random.next() * mapHeight;
-
-            const tileX = Math.floor(x);
-            const tileY = Math.floor(y);
-            if (!this.game.isValidCoord(tileX, tileY)) {
-              continue;
-            }
-            const candidateTile = this.game.ref(tileX, tileY);
-            if (!candidateTile || this.game.isWater(candidateTile)) {
-              continue;
-            }
-
-            const magnitude = this.game.magnitude(candidateTile);
-            const score = magnitude + this.random.next();
-            if (score > bestScore) {
-              bestScore = score;
-              bestTile = candidateTile;
-              bestX = x;
-              bestY = y;
-              bestMagnitude = magnitude;
-            }
-          }
-
-          if (bestTile) {
-            tile = bestTile;
-            x = bestX;
-            y = bestY;
-            chosenMagnitude = bestMagnitude;
-            placed = true;
-          }
-        }
-      } else {
-        // Non-world maps: keep the existing center-biased distribution.
-        for (let attempt = 0; attempt < MAX_PLACEMENT_TRIES; attempt++) {
-          if (mapType === GameMapType.SquareMap) {
-            // SquareMap: crystals only in center 10% zone (square distribution)
-            const crystalZoneSize = Math.min(mapWidth, mapHeight) * 0.1;
-            // Random position within the crystal zone square
-            x = centerX + (this.random.next() - 0.5) * 2 * crystalZoneSize;
-            y = centerY + (this.random.next() - 0.5) * 2 * crystalZoneSize;
-          } else {
-            // CircleMap and others: use polar distribution favoring center
-            // Use gaussian-like distribution favoring center
-            // Square root of random gives higher density toward center
-            const distFactor = Math.sqrt(this.random.next()) * 0.85; // 0.85 to keep some space from edges
-            const angle = this.random.next() * Math.PI * 2;
-
-            x = centerX + Math.cos(angle) * distFactor * maxRadius;
-            y = centerY + Math.sin(angle) * distFactor * maxRadius;
-          }
-
-          // Only place on land
-          const tileX = Math.floor(x);
-          const tileY = Math.floor(y);
-          if (!this.game.isValidCoord(tileX, tileY)) {
-            continue;
-          }
-          tile = this.game.ref(tileX, tileY);
-          if (!tile || this.game.isWater(tile)) {
-            tile = undefined;
-            continue;
-          }
-
-          placed = true;
-          break;
-        }
-      }
-
-      if (!tile || !placed) {
-        continue;
-      }
-
-      let crystalCount: number;
-      if (shouldBiasByHeight) {
-        const height01 = Math.max(0, Math.min(1, chosenMagnitude / 31));
-        // 1-5 crystals, more on higher terrain.
-        crystalCount = Math.min(
-          5,
-          Math.max(1, Math.floor(1 + height01 * 4 + this.random.next() * 1.5)),
-        );
-      } else {
-        // For SquareMap/CircleMap: keep the center-based cluster sizing.
-        const dx = Math.abs(x - centerX);
-        const dy = Math.abs(y - centerY);
-        const distFromCenter =
-          mapType === GameMapType.SquareMap
-            ? Math.max(dx, dy) / (Math.min(mapWidth, mapHeight) * 0.1)
-            : Math.sqrt(dx * dx + dy * dy) / maxRadius;
-
-        // Random cluster size (1-5 crystals), higher chance for more crystals near center
-        const centerBonus = Math.max(0, 1 - distFromCenter); // 0-1, higher near center
-        crystalCount = Math.min(
-          5,
-          Math.max(1, Math.floor(1 + centerBonus * 3 + this.random.next() * 2)),
-        );
-      }
-
-      // Random rotations for each crystal in the cluster (bottom anchored, tilt up to 30 degrees each way)
-      const rotations: number[] = [];
-      for (let j = 0; j < crystalCount; j++) {
-        rotations.push((this.random.next() - 0.5) * (Math.PI / 3));
-      }
-
-      this.crystals.push({
-        id: this.nextCrystalId++,
-        x,
-        y,
-        tile,
-        crystalCount,
-        rotations,
-      });
+    const clusters =
+      this.fixedCrystals !== undefined
+        ? fixedCrystalClusters(
+            this.game,
+            this.game.config().gameConfig().gameMap,
+            this.random,
+            this.fixedCrystals,
+          )
+        : placeCrystalClusters(
+            this.game,
+            this.game.config().gameConfig().gameMap,
+            this.config.crystalClusterCount,
+            this.random,
+          );
+    for (const cluster of clusters) {
+      const crystal = { id: this.nextCrystalId++, ...cluster };
+      this.crystals.push(crystal);
+      this.deltaEncoder.crystals.add(crystal);
     }
   }
 
@@ -1103,6 +876,9 @@ export class FrenzyManager {
 
         if (totalGold > 0) {
           player.addGold(BigInt(totalGold));
+          this.game
+            .stats()
+            .frenzyGoldMine(player, baseGold + areaGold, crystalBonus);
 
           // Queue floating text display with crystal positions for animation
           this.pendingGoldPayouts.push({
@@ -1246,6 +1022,13 @@ export class FrenzyManager {
     }
   }
 
+  /**
+   * Get all crystal clusters on the map
+   */
+  getCrystals(): readonly CrystalCluster[] {
+    return this.crystals;
+  }
+
   /**
    * Count crystals within range of a position
    */
@@ -1272,14 +1055,10 @@ export class FrenzyManager {
     const building = this.coreBuildings.get(playerId);
     if (!building) return;
 
-    // Structures should spawn at exact positions without offset
-    const isStructure =
-      unitType === FrenzyUnitType.DefensePost ||
-      unitType === FrenzyUnitType.Artillery ||
-      unitType === FrenzyUnitType.ShieldGenerator ||
-      unitType === FrenzyUnitType.SAMLauncher ||
-      unitType === FrenzyUnitType.MissileSilo ||
-      unitType === FrenzyUnitType.Warship;
+    // Towers and ships spawn at exact positions without offset
+    const definition = FRENZY_UNITS[unitType];
+    const isNaval = definition.domain === "naval";
+    const isStructure = definition.tower !== undefined || isNaval;
 
     // Add small random offset so units don't stack (but not for structures)
     const offsetX = isStructure ? 0 : (this.random.next() - 0.5) * 20;
@@ -1288,9 +1067,8 @@ export class FrenzyManager {
     const spawnX = x + offsetX;
     const spawnY = y + offsetY;
 
-    // For warships, verify spawn position is on water
-    const isWarship = unitType === FrenzyUnitType.Warship;
-    if (isWarship) {
+    // For ships, verify spawn position is on water
+    if (isNaval) {
       const floorX = Math.floor(spawnX);
       const floorY = Math.floor(spawnY);
       if (!this.game.isValidCoord(floorX, floorY)) {
@@ -1309,15 +1087,10 @@ export class FrenzyManager {
     }
 
     // Get unit-specific configuration
-    const unitConfig = getUnitConfig(this.config, unitType);
-    let health = unitConfig.health;
+    const unitConfig = getUnitConfig(this.config, unitType, tier);
+    const health = unitConfig.health;
     const fireInterval = unitConfig.fireInterval;
 
-    // Tier 2 warships get 50% more health
-    if (unitType === FrenzyUnitType.Warship && tier >= 2) {
-      health = Math.floor(health * 1.5);
-    }
-
     const unit: FrenzyUnit = {
       id: this.nextUnitId++,
       playerId,
@@ -1336,17 +1109,15 @@ export class FrenzyManager {
     };
 
     // Initialize shield for shield generators
-    if (
-      unitType === FrenzyUnitType.ShieldGenerator &&
-      unitConfig.shieldHealth
-    ) {
+    if (unitConfig.shieldHealth) {
       unit.shieldHealth = unitConfig.shieldHealth;
       unit.maxShieldHealth = unitConfig.shieldHealth;
       unit.shieldRegenTimer = 0;
     }
 
-    this.units.push(unit);
-    building.unitCount++;
+    this.addUnit(unit);
+    this.mutateStructure(building, { unitCount: building.unitCount + 1 });
+    this.recordUnitSpawn(unit);
   }
 
   private updateUnits(
@@ -1364,28 +1135,29 @@ export class FrenzyManager {
         continue;
       }
       // Defense posts, artillery, and shield generators don't move
-      if (
-        unit.unitType === FrenzyUnitType.DefensePost ||
-        unit.unitType === FrenzyUnitType.Artillery ||
-        unit.unitType === FrenzyUnitType.ShieldGenerator ||
-        unit.unitType === FrenzyUnitType.SAMLauncher ||
-        unit.unitType === FrenzyUnitType.MissileSilo
-      ) {
+      if (isFrenzyTower(unit.unitType)) {
         continue;
       }
 
-      // Warships have separate movement logic
-      if (unit.unitType === FrenzyUnitType.Warship) {
+      // Ships have separate movement logic
+      const domain = FRENZY_UNITS[unit.unitType].domain;
+      if (domain === "naval") {
         this.updateWarshipMovement(unit, deltaTime);
         continue;
       }
 
       // Transporters have special movement logic
-      if (unit.unitType === FrenzyUnitType.Transporter) {
+      if (FRENZY_UNITS[unit.unitType].carriesUnits) {
         this.updateTransporterMovement(unit, deltaTime);
         continue;
       }
 
+      if (unit.holdPosition) {
+        unit.vx = 0;
+        unit.vy = 0;
+        continue;
+      }
+
       const territory = territories.get(unit.playerId);
 
       // Check if unit is boarding a transporter (highest priority - don't override)
@@ -1406,13 +1178,17 @@ export class FrenzyManager {
 
         if (distToAttackTargetSq < ATTACK_ORDER_ARRIVAL_DISTANCE_SQ) {
           // Clear attack order - unit has arrived
-          unit.hasAttackOrder = false;
-          unit.attackOrderX = undefined;
-          unit.attackOrderY = undefined;
+          this.mutateUnit(unit, {
+            hasAttackOrder: false,
+            attackOrderX: undefined,
+            attackOrderY: undefined,
+          });
         } else {
           // Keep moving toward attack order target
-          unit.targetX = unit.attackOrderX;
-          unit.targetY = unit.attackOrderY;
+          this.mutateUnit(unit, {
+            targetX: unit.attackOrderX,
+            targetY: unit.attackOrderY,
+          });
         }
       } else {
         // No attack order - use normal targeting logic
@@ -1432,8 +1208,7 @@ export class FrenzyManager {
             false,
             undefined,
           );
-          unit.targetX = newTarget.x;
-          unit.targetY = newTarget.y;
+          this.mutateUnit(unit, { targetX: newTarget.x, targetY: newTarget.y });
         }
       }
 
@@ -1477,8 +1252,7 @@ export class FrenzyManager {
             const nextTile = this.tileFromXY(nextX, nextY);
             if (nextTile !== null && this.game.isLand(nextTile)) {
               this.pfThisTick.landDirectMoves++;
-              unit.x = nextX;
-              unit.y = nextY;
+              this.moveUnit(unit, nextX, nextY);
               unit.vx = vx;
               unit.vy = vy;
               moved = true;
@@ -1487,8 +1261,7 @@ export class FrenzyManager {
               unit.vy = 0;
               // Blocked: never invoke pathfinding for automatic expansion.
               // Force retarget next tick so the unit can pick another border direction.
-              unit.targetX = unit.x;
-              unit.targetY = unit.y;
+              this.mutateUnit(unit, { targetX: unit.x, targetY: unit.y });
               moved = true;
             }
           } else {
@@ -1515,8 +1288,7 @@ export class FrenzyManager {
         }
 
         // Always clamp to bounds (some logic paths may stop without moving).
-        unit.x = Math.max(0, Math.min(this.game.width() - 1e-3, unit.x));
-        unit.y = Math.max(0, Math.min(this.game.height() - 1e-3, unit.y));
+        this.keepOnMap(unit);
       } else {
         // At target, pick a new target on next tick
         unit.vx = 0;
@@ -2048,7 +1820,7 @@ export class FrenzyManager {
 
     // Update heading to point in flight direction
     if (dist > 0.1) {
-      unit.heading = Math.atan2(dy, dx);
+      this.mutateUnit(unit, { heading: Math.atan2(dy, dx) });
     }
 
     if (dist < LANDING_DISTANCE) {
@@ -2060,12 +1832,14 @@ export class FrenzyManager {
     // Move toward target at transporter speed
     unit.vx = (dx / dist) * speed;
     unit.vy = (dy / dist) * speed;
-    unit.x += unit.vx * deltaTime;
-    unit.y += unit.vy * deltaTime;
+    this.moveUnit(
+      unit,
+      unit.x + unit.vx * deltaTime,
+      unit.y + unit.vy * deltaTime,
+    );
 
     // Keep within map bounds
-    unit.x = Math.max(0, Math.min(this.game.width() - 1e-3, unit.x));
-    unit.y = Math.max(0, Math.min(this.game.height() - 1e-3, unit.y));
+    this.keepOnMap(unit);
   }
 
   /**
@@ -2090,28 +1864,37 @@ export class FrenzyManager {
 
       if (dist <= BOARDING_DISTANCE) {
         // Unit has reached the transporter - board it
-        transporter.boardedUnits.push(unitId);
+        this.mutateUnit(transporter, {
+          boardedUnits: [...transporter.boardedUnits!, unitId],
+        });
         // Clear boarding state before removing
-        unit.isBoardingTransporter = false;
-        unit.boardingTargetX = undefined;
-        unit.boardingTargetY = undefined;
-        unit.boardingTransporterId = undefined;
+        this.mutateUnit(unit, {
+          isBoardingTransporter: false,
+          boardingTargetX: undefined,
+          boardingTargetY: undefined,
+          boardingTransporterId: undefined,
+        });
         // Remove the unit from the game (it's now inside the transporter)
         const unitIndex = this.units.indexOf(unit);
         if (unitIndex !== -1) {
           this.units.splice(unitIndex, 1);
+          this.markUnitRemoved(unit);
         }
         // Update unit count
         const building = this.coreBuildings.get(transporter.playerId);
         if (building && building.unitCount > 0) {
-          building.unitCount--;
+          this.mutateStructure(building, {
+            unitCount: building.unitCount - 1,
+          });
         }
       } else {
         // Unit still moving toward transporter - keep updating its target position
-        unit.targetX = transporter.x;
-        unit.targetY = transporter.y;
-        unit.boardingTargetX = transporter.x;
-        unit.boardingTargetY = transporter.y;
+        this.mutateUnit(unit, {
+          targetX: transporter.x,
+          targetY: transporter.y,
+          boardingTargetX: transporter.x,
+          boardingTargetY: transporter.y,
+        });
         remainingBoarding.push(unitId);
       }
     }
@@ -2120,8 +1903,10 @@ export class FrenzyManager {
 
     // Check if all units have boarded or been destroyed
     if (transporter.boardingUnits.length === 0) {
-      transporter.isWaitingForBoarding = false;
-      transporter.isFlying = true;
+      this.mutateUnit(transporter, {
+        isWaitingForBoarding: false,
+        isFlying: true,
+      });
     }
   }
 
@@ -2134,8 +1919,10 @@ export class FrenzyManager {
     // Find the airport this transporter belongs to
     const airport = this.airports.get(unit.airportTile);
     if (airport) {
-      airport.hasTransporter = false;
-      airport.spawnTimer = airport.spawnInterval; // Start rebuild timer
+      this.mutateStructure(airport, {
+        hasTransporter: false,
+        spawnTimer: airport.spawnInterval, // Start rebuild timer
+      });
     }
 
     // Spawn a MiniHQ at the landing location
@@ -2148,12 +1935,13 @@ export class FrenzyManager {
     const index = this.units.indexOf(unit);
     if (index !== -1) {
       this.units.splice(index, 1);
+      this.markUnitRemoved(unit);
     }
 
     // Update unit count
     const building = this.coreBuildings.get(unit.playerId);
     if (building && building.unitCount > 0) {
-      building.unitCount--;
+      this.mutateStructure(building, { unitCount: building.unitCount - 1 });
     }
   }
 
@@ -2165,12 +1953,14 @@ export class FrenzyManager {
     for (const unitId of transporter.boardingUnits) {
       const unit = this.units.find((u) => u.id === unitId);
       if (!unit) continue;
-      unit.isBoardingTransporter = false;
-      unit.boardingTargetX = undefined;
-      unit.boardingTargetY = undefined;
-      unit.boardingTransporterId = undefined;
-      unit.targetX = unit.x;
-      unit.targetY = unit.y;
+      this.mutateUnit(unit, {
+        isBoardingTransporter: false,
+        boardingTargetX: undefined,
+        boardingTargetY: undefined,
+        boardingTransporterId: undefined,
+        targetX: unit.x,
+        targetY: unit.y,
+      });
     }
   }
 
@@ -2180,14 +1970,17 @@ export class FrenzyManager {
     const remaining: FrenzyUnit[] = [];
     for (const unit of this.units) {
       if (
-        unit.unitType === FrenzyUnitType.Transporter &&
+        FRENZY_UNITS[unit.unitType].carriesUnits &&
         unit.airportTile === airportTile
       ) {
         this.releaseBoardingUnits(unit);
+        this.markUnitRemoved(unit);
         const building = this.coreBuildings.get(unit.playerId);
         if (building) {
           const boarded = unit.boardedUnits?.length ?? 0;
-          building.unitCount = Math.max(0, building.unitCount - 1 - boarded);
+          this.mutateStructure(building, {
+            unitCount: Math.max(0, building.unitCount - 1 - boarded),
+          });
         }
         continue;
       }
@@ -2268,12 +2061,13 @@ export class FrenzyManager {
       attackOrderY: attackY,
     };
 
-    this.units.push(unit);
+    this.addUnit(unit);
+    this.recordUnitSpawn(unit);
 
     // Update unit count for the player
     const building = this.coreBuildings.get(playerId);
     if (building) {
-      building.unitCount++;
+      this.mutateStructure(building, { unitCount: building.unitCount + 1 });
     }
   }
 
@@ -2335,6 +2129,7 @@ export class FrenzyManager {
 
     // Store the MiniHQ
     this.miniHQs.set(tile, miniHQ);
+    this.markStructureAdded(miniHQ);
     console.log(
       `[FrenzyManager] MiniHQ created for ${playerId} at tile (${tileX}, ${tileY}), total MiniHQs: ${this.miniHQs.size}`,
     );
@@ -2353,6 +2148,11 @@ export class FrenzyManager {
    * - SquareMap: Uses diagonal-based linear interpolation
    */
   private updateWarshipMovement(unit: FrenzyUnit, deltaTime: number) {
+    if (unit.holdPosition) {
+      unit.vx = 0;
+      unit.vy = 0;
+      return;
+    }
     this.updateWarshipMovementPathfinding(unit, deltaTime);
   }
 
@@ -2377,9 +2177,11 @@ export class FrenzyManager {
       const distToTarget = Math.hypot(destX - unit.x, destY - unit.y);
 
       if (distToTarget < ATTACK_ORDER_ARRIVAL_DISTANCE) {
-        unit.hasAttackOrder = false;
-        unit.attackOrderX = undefined;
-        unit.attackOrderY = undefined;
+        this.mutateUnit(unit, {
+          hasAttackOrder: false,
+          attackOrderX: undefined,
+          attackOrderY: undefined,
+        });
         destX = unit.targetX;
         destY = unit.targetY;
       }
@@ -2388,8 +2190,7 @@ export class FrenzyManager {
 
       if (distToTarget < 2 || (unit.targetX === 0 && unit.targetY === 0)) {
         const newTarget = this.findWarshipTarget(unit);
-        unit.targetX = newTarget.x;
-        unit.targetY = newTarget.y;
+        this.mutateUnit(unit, { targetX: newTarget.x, targetY: newTarget.y });
         destX = newTarget.x;
         destY = newTarget.y;
       }
@@ -2413,10 +2214,8 @@ export class FrenzyManager {
           const nextY = unit.y + unit.vy * deltaTime;
           const nextTile = this.tileFromXY(nextX, nextY);
           if (nextTile !== null && this.game.isWater(nextTile)) {
-            unit.x = nextX;
-            unit.y = nextY;
-            unit.x = Math.max(0, Math.min(this.game.width() - 1e-3, unit.x));
-            unit.y = Math.max(0, Math.min(this.game.height() - 1e-3, unit.y));
+            this.moveUnit(unit, nextX, nextY);
+            this.keepOnMap(unit);
             this.pfThisTick.warshipDirectMoves++;
             return;
           }
@@ -2431,8 +2230,7 @@ export class FrenzyManager {
     const rawDstTile = this.tileFromXY(destX, destY);
     if (currTile === null || rawDstTile === null) {
       // Correct any out-of-bounds drift and stop.
-      unit.x = Math.max(0, Math.min(this.game.width() - 1e-3, unit.x));
-      unit.y = Math.max(0, Math.min(this.game.height() - 1e-3, unit.y));
+      this.keepOnMap(unit);
       unit.vx = 0;
       unit.vy = 0;
       return;
@@ -2508,12 +2306,10 @@ export class FrenzyManager {
     const nextY = unit.y + unit.vy * deltaTime;
     const nextTile = this.tileFromXY(nextX, nextY);
     if (nextTile !== null && this.game.isWater(nextTile)) {
-      unit.x = nextX;
-      unit.y = nextY;
+      this.moveUnit(unit, nextX, nextY);
 
       // Keep within map bounds
-      unit.x = Math.max(0, Math.min(this.game.width() - 1e-3, unit.x));
-      unit.y = Math.max(0, Math.min(this.game.height() - 1e-3, unit.y));
+      this.keepOnMap(unit);
     } else {
       // Replan if we drifted into a blocked area.
       this.warshipRoutes.delete(unit.id);
@@ -2550,6 +2346,10 @@ export class FrenzyManager {
       return false;
     }
 
+    if (this.followLandFlowField(unit, startTile, dstTile, deltaTime, speed)) {
+      return true;
+    }
+
     const state = this.landRoutes.get(unit.id);
     const needNewRoute =
       !state || state.destTile !== dstTile || state.index >= state.path.length;
@@ -2589,9 +2389,32 @@ export class FrenzyManager {
     }
 
     const nextWaypoint = route.path[route.index];
-    const tx = this.game.x(nextWaypoint) + 0.5;
-    const ty = this.game.y(nextWaypoint) + 0.5;
+    if (
+      !this.steerLandUnit(
+        unit,
+        this.game.x(nextWaypoint) + 0.5,
+        this.game.y(nextWaypoint) + 0.5,
+        deltaTime,
+        speed,
+      )
+    ) {
+      // Replan if we drifted into a blocked area.
+      this.landRoutes.delete(unit.id);
+    }
+    return true;
+  }
 
+  /**
+   * Moves a land unit towards (tx, ty), with separation. Returns false,
+   * leaving the unit stopped, if the step would leave land.
+   */
+  private steerLandUnit(
+    unit: FrenzyUnit,
+    tx: number,
+    ty: number,
+    deltaTime: number,
+    speed: number,
+  ): boolean {
     const dx = tx - unit.x;
     const dy = ty - unit.y;
     const d = Math.hypot(dx, dy);
@@ -2617,24 +2440,125 @@ export class FrenzyManager {
     const nextY = unit.y + vy * deltaTime;
     const nextTile = this.tileFromXY(nextX, nextY);
     if (nextTile !== null && this.game.isLand(nextTile)) {
-      unit.x = nextX;
-      unit.y = nextY;
+      this.moveUnit(unit, nextX, nextY);
       unit.vx = vx;
       unit.vy = vy;
 
       // Keep within map bounds
-      unit.x = Math.max(0, Math.min(this.game.width() - 1e-3, unit.x));
-      unit.y = Math.max(0, Math.min(this.game.height() - 1e-3, unit.y));
+      this.keepOnMap(unit);
       return true;
     }
 
-    // Replan if we drifted into a blocked area.
-    this.landRoutes.delete(unit.id);
     unit.vx = 0;
     unit.vy = 0;
+    return false;
+  }
+
+  /**
+   * Steps a unit along its player's shared flow field towards the region
+   * of its destination. Returns false when the unit should plan its own
+   * route instead: inside that region, off the field, or blocked.
+   */
+  private followLandFlowField(
+    unit: FrenzyUnit,
+    startTile: TileRef,
+    dstTile: TileRef,
+    deltaTime: number,
+    speed: number,
+  ): boolean {
+    const startMini = this.gameTileToMiniTile(startTile);
+    const dstMini = this.gameTileToMiniTile(dstTile);
+    if (startMini === null || dstMini === null) return false;
+
+    const region = this.flowRegion(dstMini);
+    if (this.flowRegion(startMini) === region) return false;
+
+    const field = this.getOrCreateLandFlowField(unit.playerId, region);
+    const from = this.findNearbyMiniLandTile(startMini, 2);
+    const next = field !== null && from !== null ? field.next(from) : null;
+    if (next === null) return false;
+
+    const [waypoint] = this.getOrCreateLandHPA().miniPathToGameMap(
+      this.game.map(),
+      [next],
+      (t) => this.game.isLand(t),
+    );
+    if (waypoint === undefined) return false;
+
+    if (
+      !this.steerLandUnit(
+        unit,
+        this.game.x(waypoint) + 0.5,
+        this.game.y(waypoint) + 0.5,
+        deltaTime,
+        speed,
+      )
+    ) {
+      return false;
+    }
+    // A route planned before is stale by the time the unit needs one again
+    this.landRoutes.delete(unit.id);
+    this.pfThisTick.landFlowSteps++;
     return true;
   }
 
+  // Square of mini-map tiles that share a flow field
+  private flowRegion(miniTile: TileRef): number {
+    const miniMap = this.game.miniMap();
+    const cols = Math.ceil(miniMap.width() / FLOW_REGION_SIZE);
+    return (
+      Math.floor(miniMap.y(miniTile) / FLOW_REGION_SIZE) * cols +
+      Math.floor(miniMap.x(miniTile) / FLOW_REGION_SIZE)
+    );
+  }
+
+  /**
+   * The player's field towards a region, built around the land tile
+   * nearest its center. Null for regions without land near the center.
+   */
+  private getOrCreateLandFlowField(
+    playerId: PlayerID,
+    region: number,
+  ): LandFlowField | null {
+    const key = `${playerId}:${region}`;
+    const hpa = this.getOrCreateLandHPA();
+    const existing = this.landFlowFields.get(key);
+    if (existing !== undefined && existing.hpa === hpa) {
+      existing.lastUsedTick = this.tickCount;
+      return existing.field;
+    }
+
+    const miniMap = this.game.miniMap();
+    const cols = Math.ceil(miniMap.width() / FLOW_REGION_SIZE);
+    const cx = Math.min(
+      miniMap.width() - 1,
+      (region % cols) * FLOW_REGION_SIZE + FLOW_REGION_SIZE / 2,
+    );
+    const cy = Math.min(
+      miniMap.height() - 1,
+      Math.floor(region / cols) * FLOW_REGION_SIZE + FLOW_REGION_SIZE / 2,
+    );
+    const goal = this.findNearbyMiniLandTile(
+      miniMap.ref(cx, cy),
+      FLOW_REGION_SIZE / 2,
+    );
+    const field = goal === null ? null : hpa.flowField(goal);
+    if (goal === null || field === null) return null;
+
+    const [goalTile] = hpa.miniPathToGameMap(this.game.map(), [goal], (t) =>
+      this.game.isLand(t),
+    );
+    if (goalTile === undefined) return null;
+    this.landFlowFields.set(key, {
+      field,
+      hpa,
+      goalTile,
+      goalOwner: this.game.ownerID(goalTile),
+      lastUsedTick: this.tickCount,
+    });
+    return field;
+  }
+
   private computeLandRoute(
     startTile: TileRef,
     dstTile: TileRef,
@@ -3042,17 +2966,9 @@ export class FrenzyManager {
     return null;
   }
 
-  private getOrCreateLandPathFinder(unitId: number): PathFinder {
-    const existing = this.landPathFinders.get(unitId);
-    if (existing) return existing;
-    const created = PathFinder.Mini(this.game, 2_000, false, 30);
-    this.landPathFinders.set(unitId, created);
-    return created;
-  }
-
   private prunePerUnitPathCaches() {
+    this.pruneLandFlowFields();
     if (
-      this.landPathFinders.size === 0 &&
       this.warshipRoutes.size === 0 &&
       this.landRoutes.size === 0 &&
       this.dpsTargetCache.size === 0 &&
@@ -3066,9 +2982,6 @@ export class FrenzyManager {
       alive.add(unit.id);
     }
 
-    for (const id of this.landPathFinders.keys()) {
-      if (!alive.has(id)) this.landPathFinders.delete(id);
-    }
     for (const id of this.warshipRoutes.keys()) {
       if (!alive.has(id)) this.warshipRoutes.delete(id);
     }
@@ -3084,6 +2997,25 @@ export class FrenzyManager {
     }
   }
 
+  /**
+   * Drops flow fields nobody followed for a while, those of defeated
+   * players, and those whose goal changed hands: units retarget once the
+   * territory they were heading for is taken.
+   */
+  private pruneLandFlowFields() {
+    for (const [key, entry] of this.landFlowFields) {
+      const playerId = key.slice(0, key.lastIndexOf(":"));
+      if (
+        this.tickCount - entry.lastUsedTick > FLOW_FIELD_IDLE_TICKS ||
+        entry.hpa !== this.landHPA ||
+        this.defeatedPlayers.has(playerId) ||
+        this.game.ownerID(entry.goalTile) !== entry.goalOwner
+      ) {
+        this.landFlowFields.delete(key);
+      }
+    }
+  }
+
   /**
    * Update warship movement using polar coordinates (for CircleMap).
    * Since water forms a ring around the map center, we navigate by:
@@ -3113,9 +3045,11 @@ export class FrenzyManager {
 
       if (distToTarget < ATTACK_ORDER_ARRIVAL_DISTANCE) {
         // Clear attack order - unit has arrived
-        unit.hasAttackOrder = false;
-        unit.attackOrderX = undefined;
-        unit.attackOrderY = undefined;
+        this.mutateUnit(unit, {
+          hasAttackOrder: false,
+          attackOrderX: undefined,
+          attackOrderY: undefined,
+        });
         // Fall back to patrol target
         destX = unit.targetX;
         destY = unit.targetY;
@@ -3127,8 +3061,7 @@ export class FrenzyManager {
       // Check if needs new patrol target
       if (distToTarget < 2 || (unit.targetX === 0 && unit.targetY === 0)) {
         const newTarget = this.findWarshipTarget(unit);
-        unit.targetX = newTarget.x;
-        unit.targetY = newTarget.y;
+        this.mutateUnit(unit, { targetX: newTarget.x, targetY: newTarget.y });
         destX = newTarget.x;
         destY = newTarget.y;
       }
@@ -3202,8 +3135,7 @@ export class FrenzyManager {
     if (this.game.isValidCoord(floorNextX, floorNextY)) {
       const nextTile = this.game.ref(floorNextX, floorNextY);
       if (nextTile && this.game.isWater(nextTile)) {
-        unit.x = nextX;
-        unit.y = nextY;
+        this.moveUnit(unit, nextX, nextY);
         unit.vx = vx;
         unit.vy = vy;
         return;
@@ -3219,8 +3151,7 @@ export class FrenzyManager {
     if (this.game.isValidCoord(floorAltX, floorAltY)) {
       const altTile = this.game.ref(floorAltX, floorAltY);
       if (altTile && this.game.isWater(altTile)) {
-        unit.x = altX;
-        unit.y = altY;
+        this.moveUnit(unit, altX, altY);
         unit.vx = tangentX * angularSpeed;
         unit.vy = tangentY * angularSpeed;
         return;
@@ -3236,8 +3167,7 @@ export class FrenzyManager {
     if (this.game.isValidCoord(floorAlt2X, floorAlt2Y)) {
       const alt2Tile = this.game.ref(floorAlt2X, floorAlt2Y);
       if (alt2Tile && this.game.isWater(alt2Tile)) {
-        unit.x = alt2X;
-        unit.y = alt2Y;
+        this.moveUnit(unit, alt2X, alt2Y);
         unit.vx = -tangentX * angularSpeed;
         unit.vy = -tangentY * angularSpeed;
         return;
@@ -3353,9 +3283,11 @@ export class FrenzyManager {
       const distToTarget = Math.hypot(destX - unit.x, destY - unit.y);
 
       if (distToTarget < ATTACK_ORDER_ARRIVAL_DISTANCE) {
-        unit.hasAttackOrder = false;
-        unit.attackOrderX = undefined;
-        unit.attackOrderY = undefined;
+        this.mutateUnit(unit, {
+          hasAttackOrder: false,
+          attackOrderX: undefined,
+          attackOrderY: undefined,
+        });
         destX = unit.targetX;
         destY = unit.targetY;
       }
@@ -3364,8 +3296,7 @@ export class FrenzyManager {
 
       if (distToTarget < 2 || (unit.targetX === 0 && unit.targetY === 0)) {
         const newTarget = this.findWarshipTarget(unit);
-        unit.targetX = newTarget.x;
-        unit.targetY = newTarget.y;
+        this.mutateUnit(unit, { targetX: newTarget.x, targetY: newTarget.y });
         destX = newTarget.x;
         destY = newTarget.y;
       }
@@ -3483,8 +3414,7 @@ export class FrenzyManager {
     if (this.game.isValidCoord(floorNextX, floorNextY)) {
       const nextTile = this.game.ref(floorNextX, floorNextY);
       if (nextTile && this.game.isWater(nextTile)) {
-        unit.x = nextX;
-        unit.y = nextY;
+        this.moveUnit(unit, nextX, nextY);
         unit.vx = vx;
         unit.vy = vy;
         return;
@@ -3500,8 +3430,7 @@ export class FrenzyManager {
     if (this.game.isValidCoord(floorAltX, floorAltY)) {
       const altTile = this.game.ref(floorAltX, floorAltY);
       if (altTile && this.game.isWater(altTile)) {
-        unit.x = altX;
-        unit.y = altY;
+        this.moveUnit(unit, altX, altY);
         unit.vx = tangentX * speed;
         unit.vy = tangentY * speed;
         return;
@@ -3517,8 +3446,7 @@ export class FrenzyManager {
     if (this.game.isValidCoord(floorAlt2X, floorAlt2Y)) {
       const alt2Tile = this.game.ref(floorAlt2X, floorAlt2Y);
       if (alt2Tile && this.game.isWater(alt2Tile)) {
-        unit.x = alt2X;
-        unit.y = alt2Y;
+        this.moveUnit(unit, alt2X, alt2Y);
         unit.vx = -tangentX * speed;
         unit.vy = -tangentY * speed;
         return;
@@ -3563,16 +3491,11 @@ export class FrenzyManager {
     // Water target = warships only, Land target = soldiers only
     const mobileUnits = this.units.filter((u) => {
       if (u.playerId !== playerId) return false;
-      if (targetIsWater) {
-        // Water target: only warships
-        return u.unitType === FrenzyUnitType.Warship;
-      } else {
-        // Land target: only soldiers
-        return (
-          u.unitType === FrenzyUnitType.Soldier ||
-          u.unitType === FrenzyUnitType.EliteSoldier
-        );
-      }
+      // Units told to hold stay out of nation-wide attack orders
+      if (u.holdPosition) return false;
+      const { commandable, domain } = FRENZY_UNITS[u.unitType];
+      // Water target: only ships, land target: only soldiers
+      return commandable && domain === (targetIsWater ? "naval" : "ground");
     });
 
     if (mobileUnits.length === 0) {
@@ -3614,13 +3537,15 @@ export class FrenzyManager {
 
     // Assign attack orders to the selected units
     for (let i = 0; i < numToAssign && i < sortedUnits.length; i++) {
-      const unit = sortedUnits[i];
-      unit.attackOrderX = targetX;
-      unit.attackOrderY = targetY;
-      unit.hasAttackOrder = true;
-      // Set the unit's movement target directly
-      unit.targetX = targetX;
-      unit.targetY = targetY;
+      this.mutateUnit(sortedUnits[i], {
+        attackOrderX: targetX,
+        attackOrderY: targetY,
+        hasAttackOrder: true,
+        holdFire: false,
+        // Set the unit's movement target directly
+        targetX,
+        targetY,
+      });
     }
 
     const unitType = targetIsWater ? "warships" : "soldiers";
@@ -3629,6 +3554,81 @@ export class FrenzyManager {
     );
   }
 
+  /**
+   * Give an order to a hand-picked set of units (box selection or control
+   * group) without touching the rest of the army. IDs of units the player
+   * doesn't own, or that can't take the order, are ignored.
+   * @returns the number of units that received the order
+   */
+  commandUnits(
+    playerId: PlayerID,
+    unitIds: readonly number[],
+    order: FrenzyUnitOrder,
+    targetX?: number,
+    targetY?: number,
+  ): number {
+    if (this.defeatedPlayers.has(playerId)) {
+      return 0;
+    }
+
+    let targetIsWater = false;
+    if (order === FrenzyUnitOrder.Retreat) {
+      const hq = this.coreBuildings.get(playerId);
+      if (!hq) return 0;
+      targetX = hq.x;
+      targetY = hq.y;
+    } else if (order !== FrenzyUnitOrder.Hold) {
+      if (targetX === undefined || targetY === undefined) return 0;
+      const tileX = Math.floor(targetX);
+      const tileY = Math.floor(targetY);
+      if (!this.game.isValidCoord(tileX, tileY)) return 0;
+      targetIsWater = this.game.isWater(this.game.ref(tileX, tileY));
+    }
+
+    const ids = new Set(unitIds);
+    let commanded = 0;
+    for (const unit of this.units) {
+      if (!ids.has(unit.id) || unit.playerId !== playerId) continue;
+      if (unit.isBoardingTransporter) continue;
+
+      const { commandable, domain } = FRENZY_UNITS[unit.unitType];
+      if (!commandable) continue;
+      const isNaval = domain === "naval";
+
+      if (order === FrenzyUnitOrder.Hold) {
+        this.mutateUnit(unit, {
+          holdPosition: true,
+          holdFire: false,
+          hasAttackOrder: false,
+          attackOrderX: undefined,
+          attackOrderY: undefined,
+          targetX: unit.x,
+          targetY: unit.y,
+        });
+        commanded++;
+        continue;
+      }
+
+      // Same terrain rules as attack orders; ships can't reach the HQ
+      if (
+        order === FrenzyUnitOrder.Retreat ? isNaval : isNaval !== targetIsWater
+      ) {
+        continue;
+      }
+      this.mutateUnit(unit, {
+        holdPosition: false,
+        holdFire: order !== FrenzyUnitOrder.AttackMove,
+        hasAttackOrder: true,
+        attackOrderX: targetX,
+        attackOrderY: targetY,
+        targetX: targetX!,
+        targetY: targetY!,
+      });
+      commanded++;
+    }
+    return commanded;
+  }
+
   private buildTerritorySnapshots(): Map<PlayerID, PlayerTerritorySnapshot> {
     const cache = new Map<PlayerID, PlayerTerritorySnapshot>();
     for (const player of this.game.players()) {
@@ -3745,7 +3745,7 @@ export class FrenzyManager {
     // Update shield regeneration
     const shieldRegenStart = performance.now();
     for (const unit of this.units) {
-      if (unit.unitType === FrenzyUnitType.ShieldGenerator) {
+      if (unit.maxShieldHealth !== undefined) {
         if (unit.shieldRegenTimer !== undefined && unit.shieldRegenTimer > 0) {
           unit.shieldRegenTimer -= deltaTime;
         } else if (
@@ -3753,10 +3753,14 @@ export class FrenzyManager {
           unit.maxShieldHealth !== undefined
         ) {
           // Regenerate shield at 50 HP/sec when not taking damage
-          unit.shieldHealth = Math.min(
-            unit.maxShieldHealth,
-            unit.shieldHealth + 50 * deltaTime,
-          );
+          if (unit.shieldHealth < unit.maxShieldHealth) {
+            this.mutateUnit(unit, {
+              shieldHealth: Math.min(
+                unit.maxShieldHealth,
+                unit.shieldHealth + 50 * deltaTime,
+              ),
+            });
+          }
         }
       }
     }
@@ -3779,60 +3783,42 @@ export class FrenzyManager {
 
       combatUnitsProcessed++;
 
-      // Shield generators don't attack
-      if (unit.unitType === FrenzyUnitType.ShieldGenerator) {
-        continue;
-      }
-
-      // SAM launchers don't attack ground units - they only target nukes/aircraft
-      // (handled by SAMLauncherExecution)
-      if (unit.unitType === FrenzyUnitType.SAMLauncher) {
+      // Units ordered to move or retreat ignore enemies until they arrive
+      if (unit.holdFire && unit.hasAttackOrder) {
         continue;
       }
 
-      // Missile silos don't attack directly - they launch nukes manually
-      if (unit.unitType === FrenzyUnitType.MissileSilo) {
+      // Shield generators, SAM launchers (nukes only, see
+      // SAMLauncherExecution), missile silos and transporters don't attack
+      const targets = FRENZY_UNITS[unit.unitType].targets;
+      if (!engagesUnits(targets)) {
         continue;
       }
+      const engagesAll = targets.ground && targets.naval && targets.air;
 
       // Cooldowns tick down for all combat-capable units.
-      unit.weaponCooldown = Math.max(0, unit.weaponCooldown - deltaTime);
+      if (unit.weaponCooldown > 0) {
+        this.mutateUnit(unit, {
+          weaponCooldown: Math.max(0, unit.weaponCooldown - deltaTime),
+        });
+      }
 
       const unitPlayer = this.safeGetPlayer(unit.playerId);
       if (!unitPlayer) continue; // Skip if player no longer exists
 
-      // Get unit-specific combat range
-      const unitConfig = getUnitConfig(this.config, unit.unitType);
+      // Range, damage and projectile all come from the unit's tier
+      const unitConfig = getUnitConfig(this.config, unit.unitType, unit.tier);
+      const combatRange = unitConfig.range;
+      const firesArtillery =
+        unitConfig.projectileType === ProjectileType.Artillery;
+      // Missile units fire barrages whose volleys run during the reload
+      const firesBarrages =
+        unitConfig.projectileType === ProjectileType.Missile;
 
-      // Tier 2 defense posts get enhanced stats
-      const isDefensePostT2 =
-        unit.unitType === FrenzyUnitType.DefensePost && unit.tier >= 2;
-      const isArtillery = unit.unitType === FrenzyUnitType.Artillery;
-      const isWarshipT2 =
-        unit.unitType === FrenzyUnitType.Warship && unit.tier >= 2;
-
-      // Get combat range based on unit type and tier
-      let combatRange = unitConfig.range;
-      if (isDefensePostT2) {
-        combatRange = 37.5; // Tier 2: 1.5x soldier range
-      } else if (isWarshipT2) {
-        combatRange = this.config.units.eliteWarship.range; // Tier 2: long range missiles
-      }
-
-      const effectiveFireInterval = isDefensePostT2 ? 4.0 : unit.fireInterval; // Tier 2: slow but powerful
-
-      // Update fire interval for tier 2 defense posts
-      if (isDefensePostT2 && unit.fireInterval !== effectiveFireInterval) {
-        unit.fireInterval = effectiveFireInterval;
-      }
-
-      const isBurstUnit =
-        isArtillery ||
-        unitConfig.projectileDamage !== undefined ||
-        (unit.unitType === FrenzyUnitType.DefensePost && unitConfig.dps <= 0);
+      const isBurstUnit = unitConfig.projectileDamage !== undefined;
 
       // If this unit can only deal damage on shot and isn't ready, skip all target acquisition.
-      if (isBurstUnit && unit.weaponCooldown > 0 && !isWarshipT2) {
+      if (isBurstUnit && unit.weaponCooldown > 0 && !firesBarrages) {
         continue;
       }
 
@@ -3843,8 +3829,7 @@ export class FrenzyManager {
       let nearest: FrenzyUnit | null = null;
       let nearestDistSq = Infinity;
 
-      const isDpsUnit =
-        unitConfig.projectileDamage === undefined && !isArtillery;
+      const isDpsUnit = !isBurstUnit;
 
       // DPS units keep a cached target as long as it stays valid/in-range.
       if (isDpsUnit) {
@@ -3879,8 +3864,7 @@ export class FrenzyManager {
         const canCooldownScan =
           isDpsUnit &&
           !unit.hasAttackOrder &&
-          (unit.unitType === FrenzyUnitType.Soldier ||
-            unit.unitType === FrenzyUnitType.EliteSoldier);
+          FRENZY_UNITS[unit.unitType].infantry === true;
 
         if (canCooldownScan) {
           const cooldownUntil = this.enemyScanCooldownByUnitId.get(unit.id);
@@ -3908,6 +3892,9 @@ export class FrenzyManager {
               for (let i = 0; i < nearbyLen; i++) {
                 const other = nearbyUnits[i];
                 if (other.playerId === unit.playerId) continue;
+                if (!engagesAll && !canEngage(targets, other.unitType)) {
+                  continue;
+                }
 
                 // Cheap AABB + range prefilter before any alliance lookups.
                 const dx = other.x - unitX;
@@ -3943,6 +3930,9 @@ export class FrenzyManager {
                 idx += stride;
 
                 if (other.playerId === unit.playerId) continue;
+                if (!engagesAll && !canEngage(targets, other.unitType)) {
+                  continue;
+                }
 
                 // Cheap AABB + range prefilter before any alliance lookups.
                 const dx = other.x - unitX;
@@ -4004,6 +3994,9 @@ export class FrenzyManager {
             for (let i = 0; i < nearbyLen; i++) {
               const other = nearbyUnits[i];
               if (other.playerId === unit.playerId) continue;
+              if (!engagesAll && !canEngage(targets, other.unitType)) {
+                continue;
+              }
 
               // Cheap AABB + range prefilter before any alliance lookups.
               const dx = other.x - unitX;
@@ -4039,6 +4032,9 @@ export class FrenzyManager {
               idx += stride;
 
               if (other.playerId === unit.playerId) continue;
+              if (!engagesAll && !canEngage(targets, other.unitType)) {
+                continue;
+              }
 
               // Cheap AABB + range prefilter before any alliance lookups.
               const dx = other.x - unitX;
@@ -4081,55 +4077,46 @@ export class FrenzyManager {
 
       if (nearest !== null) {
         // Artillery fires at enemy position with area damage
-        if (isArtillery) {
+        if (firesArtillery) {
           if (unit.weaponCooldown <= 0) {
             this.spawnArtilleryProjectile(unit, nearest.x, nearest.y);
-            unit.weaponCooldown = unit.fireInterval;
+            this.mutateUnit(unit, { weaponCooldown: unit.fireInterval });
           }
         }
-        // Tier 2 warships fire missile barrages (2x5 missiles, then reload)
-        else if (unit.unitType === FrenzyUnitType.Warship && unit.tier >= 2) {
+        // Missile units fire barrages (2x5 missiles, then reload)
+        else if (firesBarrages) {
           this.handleTier2WarshipAttack(unit, nearest, deltaTime);
         }
-        // Defense posts deal burst damage on shot, regular units deal DPS
+        // Burst damage on shot (defense posts, warships), others deal DPS
         else if (unitConfig.projectileDamage !== undefined) {
-          // Burst damage on shot (defense posts, warships)
           if (unit.weaponCooldown <= 0) {
-            // Get effective damage based on tier for defense posts
-            const isDefensePost = unit.unitType === FrenzyUnitType.DefensePost;
-            let damage = unitConfig.projectileDamage;
-
-            if (isDefensePost && unit.tier >= 2) {
-              // Tier 2 defense posts: one-shot beam (100 damage)
-              damage = 100;
-              this.applyDamage(nearest, damage);
-              this.spawnBeamProjectile(unit, nearest);
-            } else {
-              // Tier 1 defense posts or other units: regular projectile
-              this.applyDamage(nearest, damage);
-              this.spawnProjectile(unit, nearest);
-            }
-            unit.weaponCooldown = unit.fireInterval;
+            this.applyDamage(
+              nearest,
+              unitConfig.projectileDamage,
+              unit.playerId,
+            );
+            this.spawnProjectile(unit, nearest);
+            this.mutateUnit(unit, { weaponCooldown: unit.fireInterval });
           }
         } else {
           // Regular unit DPS
-          this.applyDamage(nearest, unitConfig.dps * deltaTime);
+          this.applyDamage(nearest, unitConfig.dps * deltaTime, unit.playerId);
 
           // Track that this unit is in combat (for mutual damage)
           combatPairs.set(unit.id, nearest.id);
 
           if (unit.weaponCooldown <= 0) {
             this.spawnProjectile(unit, nearest);
-            unit.weaponCooldown = unit.fireInterval;
+            this.mutateUnit(unit, { weaponCooldown: unit.fireInterval });
           }
         }
       } else {
         // Clear cached target if it went out of range / died.
         this.dpsTargetCache.delete(unit.id);
         // No Frenzy enemy units nearby - check for enemy structures
-        // Tier 2 warships use missile barrages on structures too
+        // Missile units use barrages on structures too
         combatStructureTargetChecks++;
-        if (unit.unitType === FrenzyUnitType.Warship && unit.tier >= 2) {
+        if (firesBarrages) {
           this.attackNearbyStructuresWithMissiles(unit, deltaTime, combatRange);
         } else {
           this.attackNearbyStructures(unit, deltaTime, unitConfig, combatRange);
@@ -4173,7 +4160,11 @@ export class FrenzyManager {
     target: FrenzyUnit,
     projectileType?: ProjectileType,
   ) {
-    const unitConfig = getUnitConfig(this.config, attacker.unitType);
+    const unitConfig = getUnitConfig(
+      this.config,
+      attacker.unitType,
+      attacker.tier,
+    );
     // Determine projectile type: explicit > config > default
     const type =
       projectileType ?? unitConfig.projectileType ?? ProjectileType.PlasmaOrb;
@@ -4181,7 +4172,7 @@ export class FrenzyManager {
     // Laser/beam projectiles are instant hit
     if (type === ProjectileType.Laser) {
       const beamLife = 0.3;
-      this.projectiles.push({
+      this.addProjectile({
         id: this.nextProjectileId++,
         playerId: attacker.playerId,
         x: target.x,
@@ -4206,7 +4197,7 @@ export class FrenzyManager {
     const vy = (dy / dist) * speed;
     const travelTime = Math.max(dist / speed, 0.15);
 
-    this.projectiles.push({
+    this.addProjectile({
       id: this.nextProjectileId++,
       playerId: attacker.playerId,
       x: attacker.x,
@@ -4219,31 +4210,16 @@ export class FrenzyManager {
     });
   }
 
-  private spawnBeamProjectile(attacker: FrenzyUnit, target: FrenzyUnit) {
-    // Beam projectile - instant hit, visual effect only
-    const beamLife = 0.3; // Beam visible for 0.3 seconds
-
-    this.projectiles.push({
-      id: this.nextProjectileId++,
-      playerId: attacker.playerId,
-      x: target.x, // End point (target)
-      y: target.y,
-      vx: 0, // No movement
-      vy: 0,
-      age: 0,
-      life: beamLife,
-      projectileType: ProjectileType.Laser,
-      startX: attacker.x, // Start point
-      startY: attacker.y,
-    });
-  }
-
   private spawnArtilleryProjectile(
     attacker: FrenzyUnit,
     targetX: number,
     targetY: number,
   ) {
-    const unitConfig = getUnitConfig(this.config, attacker.unitType);
+    const unitConfig = getUnitConfig(
+      this.config,
+      attacker.unitType,
+      attacker.tier,
+    );
     const dx = targetX - attacker.x;
     const dy = targetY - attacker.y;
     const dist = Math.hypot(dx, dy) || 1;
@@ -4252,12 +4228,7 @@ export class FrenzyManager {
     const vy = (dy / dist) * speed;
     const travelTime = Math.max(dist / speed, 0.3); // Shorter minimum travel time
 
-    // Tier 2 artillery has 1.5x damage and radius
-    const baseDamage = unitConfig.projectileDamage ?? 60;
-    const baseRadius = unitConfig.areaRadius ?? 15;
-    const tierMultiplier = attacker.tier >= 2 ? 1.5 : 1;
-
-    this.projectiles.push({
+    this.addProjectile({
       id: this.nextProjectileId++,
       playerId: attacker.playerId,
       x: attacker.x,
@@ -4267,8 +4238,8 @@ export class FrenzyManager {
       age: 0,
       life: travelTime,
       projectileType: ProjectileType.Artillery,
-      areaRadius: baseRadius * tierMultiplier,
-      damage: baseDamage * tierMultiplier,
+      areaRadius: unitConfig.areaRadius ?? 15,
+      damage: unitConfig.projectileDamage ?? 60,
       targetX,
       targetY,
       startX: attacker.x, // Store start position for ballistic arc
@@ -4323,7 +4294,8 @@ export class FrenzyManager {
 
       if ((unit.barragePhase ?? 0) >= 2) {
         // Both volleys complete, start reload
-        unit.weaponCooldown = 8.0; // Long reload after 2 volleys of 5
+        // Long reload after 2 volleys of 5
+        this.mutateUnit(unit, { weaponCooldown: 8.0 });
       } else {
         // Short pause between volleys
         unit.barrageCooldown = 1.0;
@@ -4341,6 +4313,11 @@ export class FrenzyManager {
     targetY: number,
     spreadAngle: number = 0,
   ) {
+    const unitConfig = getUnitConfig(
+      this.config,
+      attacker.unitType,
+      attacker.tier,
+    );
     const dx = targetX - attacker.x;
     const dy = targetY - attacker.y;
     const dist = Math.hypot(dx, dy) || 1;
@@ -4366,7 +4343,7 @@ export class FrenzyManager {
     const actualTargetX = attacker.x + Math.cos(finalAngle) * effectiveDistance;
     const actualTargetY = attacker.y + Math.sin(finalAngle) * effectiveDistance;
 
-    this.projectiles.push({
+    this.addProjectile({
       id: this.nextProjectileId++,
       playerId: attacker.playerId,
       x: attacker.x,
@@ -4376,8 +4353,8 @@ export class FrenzyManager {
       age: 0,
       life: travelTime,
       projectileType: ProjectileType.Missile,
-      areaRadius: 8, // Small AOE
-      damage: 25, // Moderate damage per missile (10 missiles = 250 total potential)
+      areaRadius: unitConfig.areaRadius ?? 8,
+      damage: unitConfig.projectileDamage ?? 25,
       targetX: actualTargetX,
       targetY: actualTargetY,
       startX: attacker.x,
@@ -4406,7 +4383,7 @@ export class FrenzyManager {
     }
 
     // No Frenzy structures - fall back to regular structure attack
-    const unitConfig = getUnitConfig(this.config, unit.unitType);
+    const unitConfig = getUnitConfig(this.config, unit.unitType, unit.tier);
     this.attackNearbyStructures(unit, deltaTime, unitConfig, combatRange);
   }
 
@@ -4455,7 +4432,8 @@ export class FrenzyManager {
 
       if ((unit.barragePhase ?? 0) >= 2) {
         // Both volleys complete, start reload
-        unit.weaponCooldown = 8.0; // Long reload after 2 volleys of 5
+        // Long reload after 2 volleys of 5
+        this.mutateUnit(unit, { weaponCooldown: 8.0 });
       } else {
         // Short pause between volleys
         unit.barrageCooldown = 1.0;
@@ -4463,6 +4441,20 @@ export class FrenzyManager {
     }
   }
 
+  private shieldRadius(shield: FrenzyUnit): number {
+    return (
+      getUnitConfig(this.config, shield.unitType, shield.tier).shieldRadius ?? 0
+    );
+  }
+
+  // Furthest any shield reaches, to bound shield lookups
+  private maxShieldRadius(): number {
+    return Math.max(
+      0,
+      ...Object.values(this.config.units).map((s) => s.shieldRadius ?? 0),
+    );
+  }
+
   /**
    * Check if a unit is protected by a friendly shield generator
    * Returns the shield generator if protected, null otherwise
@@ -4474,17 +4466,10 @@ export class FrenzyManager {
     }
 
     // Rare fallback: cache may be empty (first tick) or cached shield depleted mid-tick.
-    const shieldConfig = getUnitConfig(
-      this.config,
-      FrenzyUnitType.ShieldGenerator,
-    );
-    const baseRadius = shieldConfig.shieldRadius ?? 30;
-    const maxShieldRadius = baseRadius * 1.5; // tier 2 max
-
     const nearby = this.spatialGrid.getNearbyInto(
       unit.x,
       unit.y,
-      maxShieldRadius,
+      this.maxShieldRadius(),
       this.nearbyScratchShield,
     );
 
@@ -4492,11 +4477,10 @@ export class FrenzyManager {
     let bestDistSq = Infinity;
     for (let i = 0; i < nearby.length; i++) {
       const other = nearby[i];
-      if (other.unitType !== FrenzyUnitType.ShieldGenerator) continue;
       if (other.playerId !== unit.playerId) continue;
       if (!other.shieldHealth || other.shieldHealth <= 0) continue;
 
-      const shieldRadius = other.tier >= 2 ? baseRadius * 1.5 : baseRadius;
+      const shieldRadius = this.shieldRadius(other);
       const dx = unit.x - other.x;
       const dy = unit.y - other.y;
       const distSq = dx * dx + dy * dy;
@@ -4513,18 +4497,10 @@ export class FrenzyManager {
     this.shieldCoverageByUnitId.clear();
     this.shieldCoverageDistSqByUnitId.clear();
 
-    const shieldConfig = getUnitConfig(
-      this.config,
-      FrenzyUnitType.ShieldGenerator,
-    );
-    const baseRadius = shieldConfig.shieldRadius ?? 30;
-    const maxShieldRadius = baseRadius * 1.5; // tier 2 max
-
     for (const shield of this.units) {
-      if (shield.unitType !== FrenzyUnitType.ShieldGenerator) continue;
       if (!shield.shieldHealth || shield.shieldHealth <= 0) continue;
 
-      const shieldRadius = shield.tier >= 2 ? maxShieldRadius : baseRadius;
+      const shieldRadius = this.shieldRadius(shield);
       const shieldRadiusSq = shieldRadius * shieldRadius;
 
       const nearby = this.spatialGrid.getNearbyInto(
@@ -4556,16 +4532,23 @@ export class FrenzyManager {
   /**
    * Apply damage to a unit, accounting for shield protection
    */
-  private applyDamage(target: FrenzyUnit, damage: number): void {
+  private applyDamage(
+    target: FrenzyUnit,
+    damage: number,
+    attackerId?: PlayerID,
+  ): void {
     const shield = this.getProtectingShield(target);
     if (shield && shield.shieldHealth && shield.shieldHealth > 0) {
       // Shield absorbs damage
       const absorbed = Math.min(shield.shieldHealth, damage);
-      shield.shieldHealth -= absorbed;
-      shield.shieldRegenTimer = 3.0; // Reset regen timer
+      this.mutateUnit(shield, {
+        shieldHealth: shield.shieldHealth - absorbed,
+        shieldRegenTimer: 3.0, // Reset regen timer
+      });
       damage -= absorbed;
     }
-    target.health -= damage;
+    this.recordDamage(attackerId, target.playerId, damage);
+    this.mutateUnit(target, { health: target.health - damage });
   }
 
   /**
@@ -4624,13 +4607,17 @@ export class FrenzyManager {
                       unitPlayer,
                     );
                     this.spawnProjectileToStructure(unit, target);
-                    unit.weaponCooldown = unit.fireInterval;
+                    this.mutateUnit(unit, {
+                      weaponCooldown: unit.fireInterval,
+                    });
                   }
                 } else {
                   target.modifyHealth(-unitConfig.dps * deltaTime, unitPlayer);
                   if (unit.weaponCooldown <= 0) {
                     this.spawnProjectileToStructure(unit, target);
-                    unit.weaponCooldown = unit.fireInterval;
+                    this.mutateUnit(unit, {
+                      weaponCooldown: unit.fireInterval,
+                    });
                   }
                 }
                 return;
@@ -4648,15 +4635,23 @@ export class FrenzyManager {
             if (dx * dx + dy * dy <= combatRange * combatRange) {
               if (unitConfig.projectileDamage !== undefined) {
                 if (unit.weaponCooldown <= 0) {
-                  target.health -= unitConfig.projectileDamage;
+                  this.damageStructure(
+                    target,
+                    unitConfig.projectileDamage,
+                    unit.playerId,
+                  );
                   this.spawnProjectileToHQ(unit, target);
-                  unit.weaponCooldown = unit.fireInterval;
+                  this.mutateUnit(unit, { weaponCooldown: unit.fireInterval });
                 }
               } else {
-                target.health -= unitConfig.dps * deltaTime;
+                this.damageStructure(
+                  target,
+                  unitConfig.dps * deltaTime,
+                  unit.playerId,
+                );
                 if (unit.weaponCooldown <= 0) {
                   this.spawnProjectileToHQ(unit, target);
-                  unit.weaponCooldown = unit.fireInterval;
+                  this.mutateUnit(unit, { weaponCooldown: unit.fireInterval });
                 }
               }
 
@@ -4756,15 +4751,23 @@ export class FrenzyManager {
       // Attack the HQ
       if (unitConfig.projectileDamage !== undefined) {
         if (unit.weaponCooldown <= 0) {
-          nearestHQ.health -= unitConfig.projectileDamage;
+          this.damageStructure(
+            nearestHQ,
+            unitConfig.projectileDamage,
+            unit.playerId,
+          );
           this.spawnProjectileToHQ(unit, nearestHQ);
-          unit.weaponCooldown = unit.fireInterval;
+          this.mutateUnit(unit, { weaponCooldown: unit.fireInterval });
         }
       } else {
-        nearestHQ.health -= unitConfig.dps * deltaTime;
+        this.damageStructure(
+          nearestHQ,
+          unitConfig.dps * deltaTime,
+          unit.playerId,
+        );
         if (unit.weaponCooldown <= 0) {
           this.spawnProjectileToHQ(unit, nearestHQ);
-          unit.weaponCooldown = unit.fireInterval;
+          this.mutateUnit(unit, { weaponCooldown: unit.fireInterval });
         }
       }
 
@@ -4794,7 +4797,7 @@ export class FrenzyManager {
         targetStructure.modifyHealth(-unitConfig.projectileDamage, unitPlayer);
         // Use unit's configured projectile type
         this.spawnProjectileToStructure(unit, targetStructure);
-        unit.weaponCooldown = unit.fireInterval;
+        this.mutateUnit(unit, { weaponCooldown: unit.fireInterval });
       }
     } else {
       // Regular unit DPS
@@ -4802,7 +4805,7 @@ export class FrenzyManager {
 
       if (unit.weaponCooldown <= 0) {
         this.spawnProjectileToStructure(unit, targetStructure);
-        unit.weaponCooldown = unit.fireInterval;
+        this.mutateUnit(unit, { weaponCooldown: unit.fireInterval });
       }
     }
   }
@@ -4851,18 +4854,26 @@ export class FrenzyManager {
     if (unitConfig.projectileDamage !== undefined) {
       // Burst damage (defense posts, warships)
       if (unit.weaponCooldown <= 0) {
-        nearestHQ.health -= unitConfig.projectileDamage;
+        this.damageStructure(
+          nearestHQ,
+          unitConfig.projectileDamage,
+          unit.playerId,
+        );
         // Use unit's configured projectile type
         this.spawnProjectileToHQ(unit, nearestHQ);
-        unit.weaponCooldown = unit.fireInterval;
+        this.mutateUnit(unit, { weaponCooldown: unit.fireInterval });
       }
     } else {
       // Regular unit DPS
-      nearestHQ.health -= unitConfig.dps * deltaTime;
+      this.damageStructure(
+        nearestHQ,
+        unitConfig.dps * deltaTime,
+        unit.playerId,
+      );
 
       if (unit.weaponCooldown <= 0) {
         this.spawnProjectileToHQ(unit, nearestHQ);
-        unit.weaponCooldown = unit.fireInterval;
+        this.mutateUnit(unit, { weaponCooldown: unit.fireInterval });
       }
     }
 
@@ -4949,18 +4960,26 @@ export class FrenzyManager {
     if (unitConfig.projectileDamage !== undefined) {
       // Burst damage (defense posts, warships)
       if (unit.weaponCooldown <= 0) {
-        structure.health -= unitConfig.projectileDamage;
+        this.damageStructure(
+          structure,
+          unitConfig.projectileDamage,
+          unit.playerId,
+        );
         // Use unit's configured projectile type
         this.spawnProjectileToFrenzyStructure(unit, structure);
-        unit.weaponCooldown = unit.fireInterval;
+        this.mutateUnit(unit, { weaponCooldown: unit.fireInterval });
       }
     } else {
       // Regular unit DPS
-      structure.health -= unitConfig.dps * deltaTime;
+      this.damageStructure(
+        structure,
+        unitConfig.dps * deltaTime,
+        unit.playerId,
+      );
 
       if (unit.weaponCooldown <= 0) {
         this.spawnProjectileToFrenzyStructure(unit, structure);
-        unit.weaponCooldown = unit.fireInterval;
+        this.mutateUnit(unit, { weaponCooldown: unit.fireInterval });
       }
     }
 
@@ -4974,6 +4993,7 @@ export class FrenzyManager {
    * Remove a destroyed Frenzy structure
    */
   private removeFrenzyStructure(structure: FrenzyStructure) {
+    this.markStructureRemoved(structure);
     switch (structure.type) {
       case FrenzyStructureType.Mine:
         this.mines.delete(structure.tile);
@@ -5082,14 +5102,18 @@ export class FrenzyManager {
     attacker: FrenzyUnit,
     target: FrenzyStructure,
   ) {
-    const unitConfig = getUnitConfig(this.config, attacker.unitType);
+    const unitConfig = getUnitConfig(
+      this.config,
+      attacker.unitType,
+      attacker.tier,
+    );
     const projectileType =
       unitConfig.projectileType ?? ProjectileType.PlasmaOrb;
 
     // Laser/beam projectiles are instant hit
     if (projectileType === ProjectileType.Laser) {
       const beamLife = 0.3;
-      this.projectiles.push({
+      this.addProjectile({
         id: this.nextProjectileId++,
         playerId: attacker.playerId,
         x: target.x,
@@ -5113,7 +5137,7 @@ export class FrenzyManager {
     const vy = (dy / dist) * speed;
     const travelTime = Math.max(dist / speed, 0.15);
 
-    this.projectiles.push({
+    this.addProjectile({
       id: this.nextProjectileId++,
       playerId: attacker.playerId,
       x: attacker.x,
@@ -5130,14 +5154,18 @@ export class FrenzyManager {
    * Spawn projectile toward an enemy HQ
    */
   private spawnProjectileToHQ(attacker: FrenzyUnit, target: CoreBuilding) {
-    const unitConfig = getUnitConfig(this.config, attacker.unitType);
+    const unitConfig = getUnitConfig(
+      this.config,
+      attacker.unitType,
+      attacker.tier,
+    );
     const projectileType =
       unitConfig.projectileType ?? ProjectileType.PlasmaOrb;
 
     // Laser/beam projectiles are instant hit
     if (projectileType === ProjectileType.Laser) {
       const beamLife = 0.3;
-      this.projectiles.push({
+      this.addProjectile({
         id: this.nextProjectileId++,
         playerId: attacker.playerId,
         x: target.x,
@@ -5161,7 +5189,7 @@ export class FrenzyManager {
     const vy = (dy / dist) * speed;
     const travelTime = Math.max(dist / speed, 0.15);
 
-    this.projectiles.push({
+    this.addProjectile({
       id: this.nextProjectileId++,
       playerId: attacker.playerId,
       x: attacker.x,
@@ -5181,14 +5209,18 @@ export class FrenzyManager {
     const targetTile = target.tile();
     const targetX = this.game.x(targetTile);
     const targetY = this.game.y(targetTile);
-    const unitConfig = getUnitConfig(this.config, attacker.unitType);
+    const unitConfig = getUnitConfig(
+      this.config,
+      attacker.unitType,
+      attacker.tier,
+    );
     const projectileType =
       unitConfig.projectileType ?? ProjectileType.PlasmaOrb;
 
     // Laser/beam projectiles are instant hit
     if (projectileType === ProjectileType.Laser) {
       const beamLife = 0.3;
-      this.projectiles.push({
+      this.addProjectile({
         id: this.nextProjectileId++,
         playerId: attacker.playerId,
         x: targetX,
@@ -5212,7 +5244,7 @@ export class FrenzyManager {
     const vy = (dy / dist) * speed;
     const travelTime = Math.max(dist / speed, 0.15);
 
-    this.projectiles.push({
+    this.addProjectile({
       id: this.nextProjectileId++,
       playerId: attacker.playerId,
       x: attacker.x,
@@ -5252,6 +5284,9 @@ export class FrenzyManager {
 
       if (projectile.age < projectile.life) {
         active.push(projectile);
+        this.deltaEncoder.projectiles.touch(projectile);
+      } else {
+        this.deltaEncoder.projectiles.remove(projectile);
       }
     }
     this.projectiles = active;
@@ -5292,7 +5327,7 @@ export class FrenzyManager {
       if (dist <= radius) {
         // Damage falls off with distance (100% at center, 50% at edge)
         const falloff = 1 - (dist / radius) * 0.5;
-        this.applyDamage(unit, damage * falloff);
+        this.applyDamage(unit, damage * falloff, projectile.playerId);
       }
     }
   }
@@ -5332,7 +5367,7 @@ export class FrenzyManager {
       if (dist <= radius) {
         // Damage falls off with distance (100% at center, 25% at edge)
         const falloff = 1 - (dist / radius) * 0.75;
-        this.applyDamage(unit, damage * falloff);
+        this.applyDamage(unit, damage * falloff, projectile.playerId);
       }
     }
 
@@ -5368,9 +5403,10 @@ export class FrenzyManager {
       const dist = Math.hypot(mine.x - x, mine.y - y);
       if (dist <= radius) {
         const falloff = 1 - (dist / radius) * 0.75;
-        mine.health -= damage * falloff;
+        this.damageStructure(mine, damage * falloff, attackerPlayerId);
         if (mine.health <= 0) {
           this.mines.delete(tile);
+          this.markStructureRemoved(mine);
           this.mineCellCacheDirty = true; // Invalidate Voronoi cache
         }
       }
@@ -5385,9 +5421,10 @@ export class FrenzyManager {
       const dist = Math.hypot(factory.x - x, factory.y - y);
       if (dist <= radius) {
         const falloff = 1 - (dist / radius) * 0.75;
-        factory.health -= damage * falloff;
+        this.damageStructure(factory, damage * falloff, attackerPlayerId);
         if (factory.health <= 0) {
           this.factories.delete(tile);
+          this.markStructureRemoved(factory);
         }
       }
     }
@@ -5401,9 +5438,10 @@ export class FrenzyManager {
       const dist = Math.hypot(port.x - x, port.y - y);
       if (dist <= radius) {
         const falloff = 1 - (dist / radius) * 0.75;
-        port.health -= damage * falloff;
+        this.damageStructure(port, damage * falloff, attackerPlayerId);
         if (port.health <= 0) {
           this.ports.delete(tile);
+          this.markStructureRemoved(port);
         }
       }
     }
@@ -5473,7 +5511,7 @@ export class FrenzyManager {
         continue;
       }
       // Skip flying transporters - they don't capture territory during flight
-      if (unit.unitType === FrenzyUnitType.Transporter && unit.isFlying) {
+      if (unit.isFlying) {
         continue;
       }
       const player = this.safeGetPlayer(unit.playerId);
@@ -5678,24 +5716,32 @@ export class FrenzyManager {
     const deadUnits = this.units.filter((u) => u.health <= 0);
 
     for (const unit of deadUnits) {
+      this.markUnitRemoved(unit);
+      if (!isFrenzyTowerType(unit.unitType)) {
+        const player = this.safeGetPlayer(unit.playerId);
+        if (player) {
+          this.game.stats().frenzyUnitLose(player, unit.unitType);
+        }
+      }
+
       const building = this.coreBuildings.get(unit.playerId);
       if (building) {
-        // Decrement by 1 for the unit itself
-        building.unitCount--;
-
-        // If this is a transporter with boarded units, also decrement for those
-        if (unit.unitType === FrenzyUnitType.Transporter && unit.boardedUnits) {
-          building.unitCount -= unit.boardedUnits.length;
-        }
+        // Decrement by 1 for the unit itself, and for the units a
+        // transporter has boarded
+        this.mutateStructure(building, {
+          unitCount: building.unitCount - 1 - (unit.boardedUnits?.length ?? 0),
+        });
       }
 
-      if (unit.unitType === FrenzyUnitType.Transporter) {
+      if (FRENZY_UNITS[unit.unitType].carriesUnits) {
         this.releaseBoardingUnits(unit);
         if (unit.airportTile) {
           const airport = this.airports.get(unit.airportTile);
           if (airport) {
-            airport.hasTransporter = false;
-            airport.spawnTimer = airport.spawnInterval;
+            this.mutateStructure(airport, {
+              hasTransporter: false,
+              spawnTimer: airport.spawnInterval,
+            });
           }
         }
       }
@@ -5718,9 +5764,12 @@ export class FrenzyManager {
         counts.set(unit.playerId, nextCount);
         kept.push(unit);
       } else {
+        this.markUnitRemoved(unit);
         const building = this.coreBuildings.get(unit.playerId);
         if (building) {
-          building.unitCount = Math.max(building.unitCount - 1, 0);
+          this.mutateStructure(building, {
+            unitCount: Math.max(building.unitCount - 1, 0),
+          });
         }
       }
     }
@@ -5739,7 +5788,8 @@ export class FrenzyManager {
     const mine = this.mines.get(tile);
     if (mine && mine.playerId !== newOwnerId) {
       const oldOwner = mine.playerId;
-      mine.playerId = newOwnerId;
+      this.mutateStructure(mine, { playerId: newOwnerId });
+      this.recordStructureStat(newOwnerId, FrenzyStructureType.Mine, "capture");
       console.log(
         `[FrenzyManager] Mine captured by ${newOwnerId} from ${oldOwner}`,
       );
@@ -5749,7 +5799,12 @@ export class FrenzyManager {
     const factory = this.factories.get(tile);
     if (factory && factory.playerId !== newOwnerId) {
       const oldOwner = factory.playerId;
-      factory.playerId = newOwnerId;
+      this.mutateStructure(factory, { playerId: newOwnerId });
+      this.recordStructureStat(
+        newOwnerId,
+        FrenzyStructureType.Factory,
+        "capture",
+      );
       console.log(
         `[FrenzyManager] Factory captured by ${newOwnerId} from ${oldOwner}`,
       );
@@ -5759,7 +5814,8 @@ export class FrenzyManager {
     const port = this.ports.get(tile);
     if (port && port.playerId !== newOwnerId) {
       const oldOwner = port.playerId;
-      port.playerId = newOwnerId;
+      this.mutateStructure(port, { playerId: newOwnerId });
+      this.recordStructureStat(newOwnerId, FrenzyStructureType.Port, "capture");
       console.log(
         `[FrenzyManager] Port captured by ${newOwnerId} from ${oldOwner}`,
       );
@@ -5773,22 +5829,15 @@ export class FrenzyManager {
       );
       this.handleMiniHQDestroyed(miniHQ);
       this.miniHQs.delete(tile);
+      this.markStructureRemoved(miniHQ);
     }
 
-    // Check for tower units (DefensePost, SAM, Silo, Artillery, Shield) at or near this tile
-    const towerTypes = [
-      FrenzyUnitType.DefensePost,
-      FrenzyUnitType.SAMLauncher,
-      FrenzyUnitType.MissileSilo,
-      FrenzyUnitType.ShieldGenerator,
-      FrenzyUnitType.Artillery,
-    ];
-
+    // Check for tower units at or near this tile
     const tileX = this.game.x(tile);
     const tileY = this.game.y(tile);
 
     for (const unit of this.units) {
-      if (!towerTypes.includes(unit.unitType)) continue;
+      if (!isFrenzyTower(unit.unitType)) continue;
       if (unit.playerId === newOwnerId) continue;
 
       // Check if tower is on this tile (within 1 tile tolerance for positioning)
@@ -5797,7 +5846,10 @@ export class FrenzyManager {
 
       if (unitTileX === tileX && unitTileY === tileY) {
         const oldOwner = unit.playerId;
-        unit.playerId = newOwnerId;
+        this.mutateUnit(unit, { playerId: newOwnerId });
+        if (isFrenzyTowerType(unit.unitType)) {
+          this.recordStructureStat(newOwnerId, unit.unitType, "capture");
+        }
         console.log(
           `[FrenzyManager] ${unit.unitType} captured by ${newOwnerId} from ${oldOwner}`,
         );
@@ -5937,11 +5989,22 @@ export class FrenzyManager {
       return;
     }
     this.defeatedPlayers.add(loserId);
-    this.coreBuildings.delete(loserId);
+    const hq = this.coreBuildings.get(loserId);
+    if (hq) {
+      this.coreBuildings.delete(loserId);
+      this.markStructureRemoved(hq);
+    }
 
     console.log(
       `[FrenzyManager] HQ captured: ${winnerId} eliminated ${loserId}`,
     );
+    this.game.addUpdate({
+      type: GameUpdateType.TimelineMarker,
+      kind: TimelineMarkerKind.Elimination,
+      tick: this.game.ticks(),
+      playerID: loserId,
+      otherPlayerID: winnerId,
+    });
 
     const loser = this.getPlayerIfExists(loserId);
     const winner = this.getPlayerIfExists(winnerId);
@@ -5954,10 +6017,16 @@ export class FrenzyManager {
       }
     }
 
-    this.units = this.units.filter((unit) => unit.playerId !== loserId);
-    this.projectiles = this.projectiles.filter(
-      (projectile) => projectile.playerId !== loserId,
-    );
+    this.units = this.units.filter((unit) => {
+      if (unit.playerId !== loserId) return true;
+      this.markUnitRemoved(unit);
+      return false;
+    });
+    this.projectiles = this.projectiles.filter((projectile) => {
+      if (projectile.playerId !== loserId) return true;
+      this.deltaEncoder.projectiles.remove(projectile);
+      return false;
+    });
   }
 
   private getPlayerIfExists(playerId: PlayerID): Player | null {
@@ -5985,47 +6054,17 @@ export class FrenzyManager {
     structureType: FrenzyUnitType | FrenzyStructureType,
   ): boolean {
     // Get the minDistance for the structure type being placed
-    let minDist: number;
-    switch (structureType) {
-      case FrenzyUnitType.DefensePost:
-        minDist = STRUCTURE_CONFIGS.defensePost.minDistance;
-        break;
-      case FrenzyUnitType.Artillery:
-        minDist = STRUCTURE_CONFIGS.artillery.minDistance;
-        break;
-      case FrenzyUnitType.ShieldGenerator:
-        minDist = STRUCTURE_CONFIGS.shieldGenerator.minDistance;
-        break;
-      case FrenzyUnitType.SAMLauncher:
-        minDist = STRUCTURE_CONFIGS.samLauncher.minDistance;
-        break;
-      case FrenzyUnitType.MissileSilo:
-        minDist = STRUCTURE_CONFIGS.missileSilo.minDistance;
-        break;
-      case FrenzyStructureType.Mine:
-        minDist = STRUCTURE_CONFIGS.mine.minDistance;
-        break;
-      case FrenzyStructureType.Factory:
-        minDist = STRUCTURE_CONFIGS.factory.minDistance;
-        break;
-      case FrenzyStructureType.Port:
-        minDist = STRUCTURE_CONFIGS.port.minDistance;
-        break;
-      default:
-        minDist = 15; // Fallback
-    }
+    const key =
+      structureType in FRENZY_UNITS
+        ? unitTypeToStructureKey(structureType as FrenzyUnitType)
+        : structureTypeToKey(structureType as FrenzyStructureType);
+    const minDist = key !== null ? STRUCTURE_CONFIGS[key].minDistance : 15;
 
     const minDistSquared = minDist ** 2;
 
     // Check against all tower units
     for (const unit of this.units) {
-      if (
-        unit.unitType === FrenzyUnitType.DefensePost ||
-        unit.unitType === FrenzyUnitType.Artillery ||
-        unit.unitType === FrenzyUnitType.ShieldGenerator ||
-        unit.unitType === FrenzyUnitType.SAMLauncher ||
-        unit.unitType === FrenzyUnitType.MissileSilo
-      ) {
+      if (isFrenzyTower(unit.unitType)) {
         const dx = unit.x - x;
         const dy = unit.y - y;
         const distSquared = dx * dx + dy * dy;
@@ -6067,75 +6106,11 @@ export class FrenzyManager {
   }
 
   /**
-   * Spawn a defense post at the given location.
-   * Note: No unit count check - structures always complete once building starts.
-   * Placement validation happens in canBuild() before construction begins.
-   */
-  spawnDefensePost(playerId: PlayerID, x: number, y: number) {
-    if (this.defeatedPlayers.has(playerId)) {
-      return;
-    }
-    const building = this.coreBuildings.get(playerId);
-    if (!building) {
-      return;
-    }
-    this.spawnUnit(playerId, x, y, FrenzyUnitType.DefensePost);
-  }
-
-  /**
-   * Spawn an artillery at the given location.
-   * Note: No unit count check - structures always complete once building starts.
-   * Placement validation happens in canBuild() before construction begins.
-   */
-  spawnArtillery(playerId: PlayerID, x: number, y: number) {
-    if (this.defeatedPlayers.has(playerId)) {
-      return;
-    }
-    const building = this.coreBuildings.get(playerId);
-    if (!building) {
-      return;
-    }
-    this.spawnUnit(playerId, x, y, FrenzyUnitType.Artillery);
-  }
-
-  /**
-   * Spawn a shield generator at the given location.
-   * Note: No unit count check - structures always complete once building starts.
-   * Placement validation happens in canBuild() before construction begins.
-   */
-  spawnShieldGenerator(playerId: PlayerID, x: number, y: number) {
-    if (this.defeatedPlayers.has(playerId)) {
-      return;
-    }
-    const building = this.coreBuildings.get(playerId);
-    if (!building) {
-      return;
-    }
-    this.spawnUnit(playerId, x, y, FrenzyUnitType.ShieldGenerator);
-  }
-
-  /**
-   * Spawn a SAM launcher at the given location.
-   * Note: No unit count check - structures always complete once building starts.
-   * Placement validation happens in canBuild() before construction begins.
-   */
-  spawnSAMLauncher(playerId: PlayerID, x: number, y: number) {
-    if (this.defeatedPlayers.has(playerId)) {
-      return;
-    }
-    const building = this.coreBuildings.get(playerId);
-    if (!building) {
-      return;
-    }
-    this.spawnUnit(playerId, x, y, FrenzyUnitType.SAMLauncher);
-  }
-
-  /**
-   * Spawn a missile silo at the given location.
+   * Spawn a tower at the given location.
    * Note: No unit count check - structures always complete once building starts.
    * Placement validation happens in canBuild() before construction begins.
    */
-  spawnMissileSilo(playerId: PlayerID, x: number, y: number) {
+  spawnTower(playerId: PlayerID, x: number, y: number, type: FrenzyUnitType) {
     if (this.defeatedPlayers.has(playerId)) {
       return;
     }
@@ -6143,7 +6118,7 @@ export class FrenzyManager {
     if (!building) {
       return;
     }
-    this.spawnUnit(playerId, x, y, FrenzyUnitType.MissileSilo);
+    this.spawnUnit(playerId, x, y, type);
   }
 
   /**
@@ -6156,7 +6131,8 @@ export class FrenzyManager {
     if (this.factories.has(tile)) {
       return; // Already registered
     }
-    this.factories.set(tile, {
+    this.recordStructureStat(playerId, FrenzyStructureType.Factory, "build");
+    const factory: FactorySpawner = {
       id: this.nextStructureId++,
       type: FrenzyStructureType.Factory,
       playerId,
@@ -6168,7 +6144,9 @@ export class FrenzyManager {
       health: this.config.mineHealth,
       maxHealth: this.config.mineHealth,
       tier: 1,
-    });
+    };
+    this.factories.set(tile, factory);
+    this.markStructureAdded(factory);
   }
 
   /**
@@ -6181,7 +6159,8 @@ export class FrenzyManager {
     if (this.mines.has(tile)) {
       return; // Already registered
     }
-    this.mines.set(tile, {
+    this.recordStructureStat(playerId, FrenzyStructureType.Mine, "build");
+    const mine: MineStructure = {
       id: this.nextStructureId++,
       type: FrenzyStructureType.Mine,
       playerId,
@@ -6191,7 +6170,9 @@ export class FrenzyManager {
       health: this.config.mineHealth,
       maxHealth: this.config.mineHealth,
       tier: 1,
-    });
+    };
+    this.mines.set(tile, mine);
+    this.markStructureAdded(mine);
     this.mineCellCacheDirty = true; // Invalidate Voronoi cache
   }
 
@@ -6205,7 +6186,8 @@ export class FrenzyManager {
     if (this.ports.has(tile)) {
       return; // Already registered
     }
-    this.ports.set(tile, {
+    this.recordStructureStat(playerId, FrenzyStructureType.Port, "build");
+    const port: PortSpawner = {
       id: this.nextStructureId++,
       type: FrenzyStructureType.Port,
       playerId,
@@ -6217,7 +6199,9 @@ export class FrenzyManager {
       health: this.config.mineHealth,
       maxHealth: this.config.mineHealth,
       tier: 1,
-    });
+    };
+    this.ports.set(tile, port);
+    this.markStructureAdded(port);
   }
 
   /**
@@ -6230,8 +6214,9 @@ export class FrenzyManager {
     if (this.airports.has(tile)) {
       return; // Already registered
     }
+    this.recordStructureStat(playerId, FrenzyStructureType.Airport, "build");
     const airportConfig = STRUCTURE_CONFIGS.airport;
-    this.airports.set(tile, {
+    const airport: AirportSpawner = {
       id: this.nextStructureId++,
       type: FrenzyStructureType.Airport,
       playerId,
@@ -6244,7 +6229,9 @@ export class FrenzyManager {
       maxHealth: airportConfig.health,
       tier: 1,
       hasTransporter: false, // Starts without a transporter
-    });
+    };
+    this.airports.set(tile, airport);
+    this.markStructureAdded(airport);
   }
 
   /**
@@ -6272,13 +6259,14 @@ export class FrenzyManager {
       isFlying: false,
     };
 
-    this.units.push(unit);
-    airport.hasTransporter = true;
+    this.addUnit(unit);
+    this.mutateStructure(airport, { hasTransporter: true });
+    this.recordUnitSpawn(unit);
 
     // Update unit count for the player
     const building = this.coreBuildings.get(airport.playerId);
     if (building) {
-      building.unitCount++;
+      this.mutateStructure(building, { unitCount: building.unitCount + 1 });
     }
   }
 
@@ -6304,31 +6292,31 @@ export class FrenzyManager {
       (u) =>
         u.id === transporterId &&
         u.playerId === playerId &&
-        u.unitType === FrenzyUnitType.Transporter &&
+        FRENZY_UNITS[u.unitType].carriesUnits &&
         !u.isFlying &&
         !u.isWaitingForBoarding,
     );
 
     if (!transporter) return;
 
-    // Set target position for the transporter
-    transporter.targetX = targetX;
-    transporter.targetY = targetY;
-
-    // Initialize boarding state
+    // Set target position for the transporter and initialize boarding state
     const maxUnits = Math.min(5, Math.max(1, unitCount));
-    transporter.maxBoardingCapacity = maxUnits;
-    transporter.boardingUnits = [];
-    transporter.boardedUnits = [];
-    transporter.isWaitingForBoarding = true;
+    this.mutateUnit(transporter, {
+      targetX,
+      targetY,
+      maxBoardingCapacity: maxUnits,
+      boardingUnits: [],
+      boardedUnits: [],
+      isWaitingForBoarding: true,
+    });
 
     // Find the closest soldiers/elite soldiers to board
     const eligibleUnits = this.units.filter(
       (u) =>
         u.playerId === playerId &&
-        (u.unitType === FrenzyUnitType.Soldier ||
-          u.unitType === FrenzyUnitType.EliteSoldier) &&
+        FRENZY_UNITS[u.unitType].infantry &&
         !u.hasAttackOrder && // Don't pull units that have attack orders
+        !u.holdPosition && // Don't pull units told to hold
         !u.isBoardingTransporter, // Don't pull units already boarding another transporter
     );
 
@@ -6343,21 +6331,25 @@ export class FrenzyManager {
     const unitsToBoard = eligibleUnits.slice(0, maxUnits);
 
     for (const unit of unitsToBoard) {
-      // Set the unit's target to the transporter position
-      unit.targetX = transporter.x;
-      unit.targetY = transporter.y;
-      // Mark as boarding (not attack order, so it uses blue line and isn't overwritten)
-      unit.isBoardingTransporter = true;
-      unit.boardingTargetX = transporter.x;
-      unit.boardingTargetY = transporter.y;
-      unit.boardingTransporterId = transporter.id;
+      this.mutateUnit(unit, {
+        // Set the unit's target to the transporter position
+        targetX: transporter.x,
+        targetY: transporter.y,
+        // Mark as boarding (not attack order, so it uses blue line and isn't overwritten)
+        isBoardingTransporter: true,
+        boardingTargetX: transporter.x,
+        boardingTargetY: transporter.y,
+        boardingTransporterId: transporter.id,
+      });
       transporter.boardingUnits!.push(unit.id);
     }
 
     // If no units available, just take off immediately
     if (unitsToBoard.length === 0) {
-      transporter.isWaitingForBoarding = false;
-      transporter.isFlying = true;
+      this.mutateUnit(transporter, {
+        isWaitingForBoarding: false,
+        isFlying: true,
+      });
     }
   }
 
@@ -6410,7 +6402,7 @@ export class FrenzyManager {
       const dy = unit.y - centerY;
       const distSquared = dx * dx + dy * dy;
       if (distSquared <= radiusSquared) {
-        unit.health -= damage;
+        this.mutateUnit(unit, { health: unit.health - damage });
       }
     }
   }
@@ -6433,7 +6425,7 @@ export class FrenzyManager {
       const dy = structure.y - centerY;
       if (dx * dx + dy * dy > radiusSquared) return;
 
-      structure.health -= damage;
+      this.damageStructure(structure, damage, attackerPlayerId);
 
       if (structure.health <= 0) {
         if (structure.type === FrenzyStructureType.HQ) {
@@ -6507,12 +6499,26 @@ export class FrenzyManager {
   /**
    * Check if a player meets the HQ tier requirement for a structure upgrade
    */
-  meetsHQTierRequirement(playerId: PlayerID, structureType: string): boolean {
-    const upgradeInfo = STRUCTURE_UPGRADES[structureType];
-    if (!upgradeInfo) return false;
-
+  meetsHQTierRequirement(
+    playerId: PlayerID,
+    structureType: StructureTypeKey,
+  ): boolean {
     const hqTier = this.getHQTier(playerId);
-    return hqTier >= upgradeInfo.requiredHQTier;
+    return hqTier >= this.structureConfig(structureType).requiredHQTier;
+  }
+
+  /**
+   * Structure config with this game's cost and tier overrides applied
+   */
+  structureConfig(structureType: StructureTypeKey): StructureConfig {
+    return getStructureConfig(structureType, this.config.structures);
+  }
+
+  // Mines and factories still honour the older top-level upgrade cost fields
+  private mineUpgradeCost(): bigint {
+    return BigInt(
+      this.config.structures?.mine?.upgradeCost ?? this.config.mineUpgradeCost,
+    );
   }
 
   /**
@@ -6533,54 +6539,14 @@ export class FrenzyManager {
     ) {
       frenzyType = structureType as FrenzyStructureType;
     } else {
-      // Map UnitType to FrenzyStructureType
-      switch (structureType) {
-        case UnitType.City:
-          // In Frenzy mode, City = Mine
-          frenzyType = FrenzyStructureType.Mine;
-          break;
-        case UnitType.Port:
-          frenzyType = FrenzyStructureType.Port;
-          break;
-        case UnitType.Factory:
-          frenzyType = FrenzyStructureType.Factory;
-          break;
-        case UnitType.Airport:
-          frenzyType = FrenzyStructureType.Airport;
-          break;
-        case UnitType.DefensePost:
-          return this.units.filter(
-            (u) =>
-              u.playerId === playerId &&
-              u.unitType === FrenzyUnitType.DefensePost,
-          ).length;
-        case UnitType.SAMLauncher:
-          return this.units.filter(
-            (u) =>
-              u.playerId === playerId &&
-              u.unitType === FrenzyUnitType.SAMLauncher,
-          ).length;
-        case UnitType.MissileSilo:
-          return this.units.filter(
-            (u) =>
-              u.playerId === playerId &&
-              u.unitType === FrenzyUnitType.MissileSilo,
-          ).length;
-        case UnitType.ShieldGenerator:
-          return this.units.filter(
-            (u) =>
-              u.playerId === playerId &&
-              u.unitType === FrenzyUnitType.ShieldGenerator,
-          ).length;
-        case UnitType.Artillery:
-          return this.units.filter(
-            (u) =>
-              u.playerId === playerId &&
-              u.unitType === FrenzyUnitType.Artillery,
-          ).length;
-        default:
-          return 0;
+      // Map UnitType to FrenzyStructureType, or count towers directly
+      const tower = towerByBuildUnitType(structureType as UnitType);
+      if (tower !== undefined) {
+        return this.units.filter(
+          (u) => u.playerId === playerId && u.unitType === tower.type,
+        ).length;
       }
+      frenzyType = buildingByBuildUnitType(structureType as UnitType) ?? null;
     }
 
     switch (frenzyType) {
@@ -6654,13 +6620,7 @@ export class FrenzyManager {
     const tiles: TileRef[] = [];
     for (const unit of this.units) {
       if (unit.playerId !== playerId) continue;
-      if (
-        unit.unitType === FrenzyUnitType.DefensePost ||
-        unit.unitType === FrenzyUnitType.Artillery ||
-        unit.unitType === FrenzyUnitType.SAMLauncher ||
-        unit.unitType === FrenzyUnitType.MissileSilo ||
-        unit.unitType === FrenzyUnitType.ShieldGenerator
-      ) {
+      if (isFrenzyTower(unit.unitType)) {
         const tileX = Math.floor(unit.x);
         const tileY = Math.floor(unit.y);
         if (this.game.isValidCoord(tileX, tileY)) {
@@ -6736,7 +6696,7 @@ export class FrenzyManager {
     playerId: PlayerID,
     unitType: "defensePost" | "samLauncher" | "shieldGenerator" | "artillery",
   ): Array<{ id: number; x: number; y: number; tier: number }> {
-    const frenzyUnitType = this.mapStringToFrenzyUnitType(unitType);
+    const frenzyUnitType = frenzyUnitDefinition(unitType)?.type;
     if (!frenzyUnitType) return [];
 
     return this.units
@@ -6744,28 +6704,6 @@ export class FrenzyManager {
       .map((u) => ({ id: u.id, x: u.x, y: u.y, tier: u.tier ?? 1 }));
   }
 
-  /**
-   * Map string unit type to FrenzyUnitType enum
-   */
-  private mapStringToFrenzyUnitType(
-    unitType: string,
-  ): FrenzyUnitType | undefined {
-    switch (unitType) {
-      case "defensePost":
-        return FrenzyUnitType.DefensePost;
-      case "samLauncher":
-        return FrenzyUnitType.SAMLauncher;
-      case "shieldGenerator":
-        return FrenzyUnitType.ShieldGenerator;
-      case "artillery":
-        return FrenzyUnitType.Artillery;
-      case "missileSilo":
-        return FrenzyUnitType.MissileSilo;
-      default:
-        return undefined;
-    }
-  }
-
   /**
    * Check if a player can upgrade their HQ
    */
@@ -6818,11 +6756,18 @@ export class FrenzyManager {
 
     // Deduct gold and upgrade tier
     player.removeGold(upgradeCost);
-    building.tier += 1;
+    this.mutateStructure(building, { tier: building.tier + 1 });
+    this.recordStructureStat(playerId, FrenzyStructureType.HQ, "upgrade");
 
     console.log(
       `[FrenzyManager] Player ${player.name()} upgraded HQ to tier ${building.tier}`,
     );
+    this.game.addUpdate({
+      type: GameUpdateType.TimelineMarker,
+      kind: TimelineMarkerKind.HQUpgrade,
+      tick: this.game.ticks(),
+      playerID: playerId,
+    });
     return true;
   }
 
@@ -6848,8 +6793,8 @@ export class FrenzyManager {
       return false;
     }
 
-    // Check if already tier 2+
-    if (factory.tier >= 2) {
+    // Check if already at max tier
+    if (factory.tier >= this.structureConfig("factory").maxTier) {
       return false;
     }
 
@@ -6864,14 +6809,18 @@ export class FrenzyManager {
       return false;
     }
 
-    const upgradeCost = BigInt(this.config.factoryUpgradeCost);
+    const upgradeCost = BigInt(
+      this.config.structures?.factory?.upgradeCost ??
+        this.config.factoryUpgradeCost,
+    );
     if (player.gold() < upgradeCost) {
       return false;
     }
 
     // Deduct gold and upgrade tier
     player.removeGold(upgradeCost);
-    factory.tier = 2;
+    this.mutateStructure(factory, { tier: 2 });
+    this.recordStructureStat(playerId, FrenzyStructureType.Factory, "upgrade");
 
     console.log(
       `[FrenzyManager] Player ${player.name()} upgraded factory to tier ${factory.tier}`,
@@ -6901,8 +6850,8 @@ export class FrenzyManager {
       return false;
     }
 
-    // Check if already tier 2+
-    if (port.tier >= 2) {
+    // Check if already at max tier
+    if (port.tier >= this.structureConfig("port").maxTier) {
       return false;
     }
 
@@ -6917,15 +6866,15 @@ export class FrenzyManager {
       return false;
     }
 
-    const upgradeInfo = STRUCTURE_UPGRADES["port"];
-    const upgradeCost = BigInt(upgradeInfo?.upgradeCost ?? 100000);
+    const upgradeCost = BigInt(this.structureConfig("port").upgradeCost);
     if (player.gold() < upgradeCost) {
       return false;
     }
 
     // Deduct gold and upgrade tier
     player.removeGold(upgradeCost);
-    port.tier = 2;
+    this.mutateStructure(port, { tier: 2 });
+    this.recordStructureStat(playerId, FrenzyStructureType.Port, "upgrade");
 
     console.log(
       `[FrenzyManager] Player ${player.name()} upgraded port to tier ${port.tier}`,
@@ -6948,12 +6897,10 @@ export class FrenzyManager {
     if (!mine || mine.playerId !== playerId) return false;
 
     // Check if already at max tier
-    const upgradeInfo = STRUCTURE_UPGRADES["mine"];
-    if (mine.tier >= upgradeInfo.maxTier) return false;
+    if (mine.tier >= this.structureConfig("mine").maxTier) return false;
 
     // Check if player has enough gold
-    const upgradeCost = BigInt(upgradeInfo.upgradeCost);
-    return player.gold() >= upgradeCost;
+    return player.gold() >= this.mineUpgradeCost();
   }
 
   /**
@@ -6973,19 +6920,20 @@ export class FrenzyManager {
       return false;
     }
 
-    // Check if already tier 2+
-    if (mine.tier >= 2) {
+    // Check if already at max tier
+    if (mine.tier >= this.structureConfig("mine").maxTier) {
       return false;
     }
 
-    const upgradeCost = BigInt(this.config.mineUpgradeCost);
+    const upgradeCost = this.mineUpgradeCost();
     if (player.gold() < upgradeCost) {
       return false;
     }
 
     // Deduct gold and upgrade tier
     player.removeGold(upgradeCost);
-    mine.tier = 2;
+    this.mutateStructure(mine, { tier: 2 });
+    this.recordStructureStat(playerId, FrenzyStructureType.Mine, "upgrade");
 
     console.log(
       `[FrenzyManager] Player ${player.name()} upgraded mine to tier ${mine.tier}`,
@@ -6994,31 +6942,28 @@ export class FrenzyManager {
   }
 
   /**
-   * Check if a defense post can be upgraded (must be tier 1)
+   * Check if a tower can be upgraded (below its max tier)
    */
-  canUpgradeDefensePost(playerId: PlayerID, unitId: number): boolean {
+  canUpgradeTower(playerId: PlayerID, unitId: number): boolean {
     const player = this.game.player(playerId);
     if (!player) return false;
 
-    // Check HQ tier requirement
-    if (!this.meetsHQTierRequirement(playerId, "defensePost")) return false;
-
-    // Find the defense post
-    const defensePost = this.units.find(
-      (u) =>
-        u.id === unitId &&
-        u.playerId === playerId &&
-        u.unitType === FrenzyUnitType.DefensePost,
+    // Find the tower
+    const tower = this.units.find(
+      (u) => u.id === unitId && u.playerId === playerId,
     );
-    if (!defensePost) return false;
+    const structureKey = tower && unitTypeToStructureKey(tower.unitType);
+    if (!tower || !structureKey) return false;
+
+    // Check HQ tier requirement
+    if (!this.meetsHQTierRequirement(playerId, structureKey)) return false;
 
     // Check if already at max tier
-    const upgradeInfo = STRUCTURE_UPGRADES["defensePost"];
-    if (defensePost.tier >= upgradeInfo.maxTier) return false;
+    const config = this.structureConfig(structureKey);
+    if (tower.tier >= config.maxTier) return false;
 
     // Check if player has enough gold
-    const upgradeCost = BigInt(upgradeInfo.upgradeCost);
-    return player.gold() >= upgradeCost;
+    return player.gold() >= BigInt(config.upgradeCost);
   }
 
   /**
@@ -7035,29 +6980,9 @@ export class FrenzyManager {
     if (!unit) return false;
 
     // Get the structure type key for this unit
-    let structureKey: string;
-    switch (unit.unitType) {
-      case FrenzyUnitType.DefensePost:
-        structureKey = "defensePost";
-        break;
-      case FrenzyUnitType.SAMLauncher:
-        structureKey = "sam";
-        break;
-      case FrenzyUnitType.MissileSilo:
-        structureKey = "silo";
-        break;
-      case FrenzyUnitType.ShieldGenerator:
-        structureKey = "shield";
-        break;
-      case FrenzyUnitType.Artillery:
-        structureKey = "artillery";
-        break;
-      default:
-        return false; // Mobile units can't be upgraded this way
-    }
-
-    const upgradeInfo = STRUCTURE_UPGRADES[structureKey];
-    if (!upgradeInfo) return false;
+    const structureKey = unitTypeToStructureKey(unit.unitType);
+    if (structureKey === null) return false; // Mobile units can't be upgraded this way
+    const upgradeInfo = this.structureConfig(structureKey);
 
     const currentTier = unit.tier ?? 1;
     if (currentTier >= upgradeInfo.maxTier) return false;
@@ -7071,12 +6996,21 @@ export class FrenzyManager {
 
     // Deduct gold and upgrade
     player.removeGold(upgradeCost);
-    unit.tier = currentTier + 1;
+    const tier = currentTier + 1;
 
     // Increase health on upgrade
     const healthBonus = Math.floor(unit.maxHealth * 0.5); // 50% health bonus
-    unit.maxHealth += healthBonus;
-    unit.health = unit.maxHealth; // Heal to full on upgrade
+    const maxHealth = unit.maxHealth + healthBonus;
+    this.mutateUnit(unit, {
+      tier,
+      fireInterval: getUnitConfig(this.config, unit.unitType, tier)
+        .fireInterval,
+      maxHealth,
+      health: maxHealth, // Heal to full on upgrade
+    });
+    if (isFrenzyTowerType(unit.unitType)) {
+      this.recordStructureStat(playerId, unit.unitType, "upgrade");
+    }
 
     console.log(
       `[FrenzyManager] Player ${player.name()} upgraded ${unit.unitType} to tier ${unit.tier}`,
@@ -7119,8 +7053,14 @@ export class FrenzyManager {
         const dx = mine.x - x;
         const dy = mine.y - y;
         if (dx * dx + dy * dy <= rangeSquared) {
-          const refund = getStructureSellValue("mine", mine.tier);
+          const refund = getStructureSellValue(
+            "mine",
+            mine.tier,
+            this.config.structures,
+          );
+          this.recordStructureStat(playerId, FrenzyStructureType.Mine, "sell");
           this.mines.delete(tile);
+          this.markStructureRemoved(mine);
           this.mineCellCacheDirty = true;
           const player = this.game.players().find((p) => p.id() === playerId);
           if (player) player.addGold(BigInt(refund));
@@ -7133,8 +7073,18 @@ export class FrenzyManager {
         const dx = factory.x - x;
         const dy = factory.y - y;
         if (dx * dx + dy * dy <= rangeSquared) {
-          const refund = getStructureSellValue("factory", factory.tier);
+          const refund = getStructureSellValue(
+            "factory",
+            factory.tier,
+            this.config.structures,
+          );
+          this.recordStructureStat(
+            playerId,
+            FrenzyStructureType.Factory,
+            "sell",
+          );
           this.factories.delete(tile);
+          this.markStructureRemoved(factory);
           const player = this.game.players().find((p) => p.id() === playerId);
           if (player) player.addGold(BigInt(refund));
           return true;
@@ -7146,8 +7096,14 @@ export class FrenzyManager {
         const dx = port.x - x;
         const dy = port.y - y;
         if (dx * dx + dy * dy <= rangeSquared) {
-          const refund = getStructureSellValue("port", port.tier);
+          const refund = getStructureSellValue(
+            "port",
+            port.tier,
+            this.config.structures,
+          );
+          this.recordStructureStat(playerId, FrenzyStructureType.Port, "sell");
           this.ports.delete(tile);
+          this.markStructureRemoved(port);
           const player = this.game.players().find((p) => p.id() === playerId);
           if (player) player.addGold(BigInt(refund));
           return true;
@@ -7159,9 +7115,19 @@ export class FrenzyManager {
         const dx = airport.x - x;
         const dy = airport.y - y;
         if (dx * dx + dy * dy <= rangeSquared) {
-          const refund = getStructureSellValue("airport", airport.tier);
+          const refund = getStructureSellValue(
+            "airport",
+            airport.tier,
+            this.config.structures,
+          );
+          this.recordStructureStat(
+            playerId,
+            FrenzyStructureType.Airport,
+            "sell",
+          );
           this.removeTransportersForAirport(tile);
           this.airports.delete(tile);
+          this.markStructureRemoved(airport);
           const player = this.game.players().find((p) => p.id() === playerId);
           if (player) player.addGold(BigInt(refund));
           return true;
@@ -7169,13 +7135,13 @@ export class FrenzyManager {
       }
     } else {
       // Handle tower units (defense_post, sam_launcher, etc.)
-      const structureTypeKey = this.mapUnitTypeToStructureKey(structureType);
-      if (!structureTypeKey) return false;
+      const tower = towerBySellName(structureType);
+      if (tower?.tower === undefined) return false;
+      const structureTypeKey = tower.tower.key;
 
       const unit = this.units.find((u) => {
         if (u.playerId !== playerId) return false;
-        if (this.mapFrenzyUnitTypeToString(u.unitType) !== structureType)
-          return false;
+        if (u.unitType !== tower.type) return false;
         const dx = u.x - x;
         const dy = u.y - y;
         return dx * dx + dy * dy <= rangeSquared;
@@ -7183,9 +7149,17 @@ export class FrenzyManager {
 
       if (unit) {
         const tier = unit.tier ?? 1;
-        const refund = getStructureSellValue(structureTypeKey, tier);
+        const refund = getStructureSellValue(
+          structureTypeKey,
+          tier,
+          this.config.structures,
+        );
+        if (isFrenzyTowerType(unit.unitType)) {
+          this.recordStructureStat(playerId, unit.unitType, "sell");
+        }
         // Remove unit from units array
         this.units = this.units.filter((u) => u.id !== unit.id);
+        this.markUnitRemoved(unit);
         const player = this.game.players().find((p) => p.id() === playerId);
         if (player) player.addGold(BigInt(refund));
         return true;
@@ -7196,288 +7170,295 @@ export class FrenzyManager {
   }
 
   /**
-   * Map structure type string to StructureTypeKey
+   * Create an update containing current Frenzy state for syncing to client
    */
-  private mapUnitTypeToStructureKey(
-    unitType: string,
-  ): import("./FrenzyTypes").StructureTypeKey | null {
-    switch (unitType) {
-      case "defense_post":
-        return "defensePost";
-      case "sam_launcher":
-        return "samLauncher";
-      case "missile_silo":
-        return "missileSilo";
-      case "shield_generator":
-        return "shieldGenerator";
-      case "artillery":
-        return "artillery";
-      default:
-        return null;
+  /**
+   * Deterministic hash of all Frenzy simulation state, split by subsystem.
+   * Entity hashes are summed so the result is independent of map/array order.
+   */
+  hashBreakdown(): FrenzyHashBreakdown {
+    let units = mixHash(this.nextUnitId, this.nextProjectileId);
+    for (const u of this.units) {
+      units = combineHashes(units, hashFrenzyUnit(u));
+    }
+    for (const p of this.projectiles) {
+      units = combineHashes(units, hashFrenzyProjectile(p));
+    }
+
+    let structures = mixHash(this.nextStructureId);
+    for (const map of [
+      this.coreBuildings,
+      this.mines,
+      this.factories,
+      this.ports,
+      this.airports,
+      this.miniHQs,
+    ] as ReadonlyMap<unknown, FrenzyStructure>[]) {
+      for (const s of map.values()) {
+        structures = combineHashes(structures, hashFrenzyStructure(s));
+      }
+    }
+
+    let economy = mixHash(this.mineGoldTimer, this.crystals.length);
+    for (const c of this.crystals) {
+      economy = combineHashes(economy, hashCrystalCluster(c));
     }
+    for (const payout of this.pendingGoldPayouts) {
+      economy = combineHashes(economy, hashGoldPayout(payout));
+    }
+
+    let territory = mixHash(this.defeatedPlayers.size);
+    for (const player of this.game.players()) {
+      const stance = this.playerDefensiveStance.get(player.id());
+      territory = combineHashes(
+        territory,
+        mixHash(
+          simpleHash(player.id()),
+          player.numTilesOwned(),
+          stance,
+          this.defeatedPlayers.has(player.id()) ? 1 : 0,
+        ),
+      );
+      economy = combineHashes(
+        economy,
+        mixHash(simpleHash(player.id()), Number(player.gold())),
+      );
+    }
+    for (const miniHQ of this.miniHQs.values()) {
+      territory = combineHashes(
+        territory,
+        mixHash(miniHQ.id, miniHQ.capturedTiles.size),
+      );
+    }
+
+    return { units, structures, economy, territory };
   }
 
   /**
-   * Map FrenzyUnitType enum to string
+   * Build the full Frenzy state for this tick.
+   * Use `createDeltaUpdate()` for what gets sent to the main thread.
    */
-  private mapFrenzyUnitTypeToString(type: FrenzyUnitType): string {
-    switch (type) {
-      case FrenzyUnitType.DefensePost:
-        return "defense_post";
-      case FrenzyUnitType.SAMLauncher:
-        return "sam_launcher";
-      case FrenzyUnitType.MissileSilo:
-        return "missile_silo";
-      case FrenzyUnitType.ShieldGenerator:
-        return "shield_generator";
-      case FrenzyUnitType.Artillery:
-        return "artillery";
-      default:
-        return "";
+  createUpdate(): FrenzySnapshot {
+    const structures: FrenzyStructureData[] = [];
+    for (const structure of this.allStructures()) {
+      structures.push(this.structureData(structure));
     }
+    return {
+      ...this.updateSettings(),
+      units: this.units.map((u) => this.unitData(u)),
+      structures,
+      projectiles: this.projectiles.map((p) => this.projectileData(p)),
+      crystals: this.crystals.map((c) => this.crystalData(c)),
+    };
   }
 
   /**
-   * Upgrade a defense post to tier 2 (beam attack, longer range)
-   * @returns true if upgrade was successful, false otherwise
+   * Delta-encoded update for the main thread: the entities marked as
+   * changed, spawned or removed since the last update, and only the fields
+   * that changed, with periodic keyframes of the full state.
    */
-  upgradeDefensePost(playerId: PlayerID, unitId: number): boolean {
-    return this.upgradeUnitUnified(playerId, unitId);
+  createDeltaUpdate(): FrenzyUpdate {
+    if (this.deltaEncoder.keyframeDue()) {
+      return this.deltaEncoder.encodeKeyframe(this.createUpdate());
+    }
+    return this.deltaEncoder.encodeDelta(this.updateSettings(), {
+      unit: (u) => this.unitData(u),
+      structure: (s) => this.structureData(s),
+      projectile: (p) => this.projectileData(p),
+      crystal: (c) => this.crystalData(c),
+    });
   }
 
-  /**
-   * Upgrade Artillery by ID (for Frenzy units)
-   */
-  upgradeArtilleryById(playerId: PlayerID, unitId: number): boolean {
-    return this.upgradeUnitUnified(playerId, unitId);
+  // The mutation paths for what `createUpdate()` reports. Each one marks the
+  // entity for the next delta update, so fields that `unitData()` and
+  // `structureData()` read are only ever written through them. A direct
+  // write only reaches the main thread at the next keyframe.
+
+  private addUnit(unit: FrenzyUnit) {
+    this.units.push(unit);
+    this.deltaEncoder.units.add(unit);
   }
 
-  /**
-   * Upgrade Shield Generator by ID (for Frenzy units)
-   */
-  upgradeShieldGeneratorById(playerId: PlayerID, unitId: number): boolean {
-    return this.upgradeUnitUnified(playerId, unitId);
+  private mutateUnit(unit: FrenzyUnit, changes: Partial<FrenzyUnit>) {
+    Object.assign(unit, changes);
+    this.deltaEncoder.units.touch(unit);
   }
 
-  /**
-   * Upgrade SAM launcher by ID
-   */
-  upgradeSAMById(playerId: PlayerID, unitId: number): boolean {
-    return this.upgradeUnitUnified(playerId, unitId);
+  private moveUnit(unit: FrenzyUnit, x: number, y: number) {
+    unit.x = x;
+    unit.y = y;
+    this.deltaEncoder.units.touch(unit);
   }
 
-  /**
-   * Upgrade Missile Silo by ID
-   */
-  upgradeSiloById(playerId: PlayerID, unitId: number): boolean {
-    return this.upgradeUnitUnified(playerId, unitId);
+  private keepOnMap(unit: FrenzyUnit) {
+    this.moveUnit(
+      unit,
+      Math.max(0, Math.min(this.game.width() - 1e-3, unit.x)),
+      Math.max(0, Math.min(this.game.height() - 1e-3, unit.y)),
+    );
   }
 
-  /**
-   * Create an update containing current Frenzy state for syncing to client
-   */
-  createUpdate() {
-    // Build unified structures array
-    const structures: Array<{
-      id: number;
-      type: string;
-      playerId: string;
-      x: number;
-      y: number;
-      tile: number;
-      tier: number;
-      health: number;
-      maxHealth: number;
-      spawnTimer?: number;
-      spawnInterval?: number;
-      unitCount?: number;
-      maxUnits?: number;
-      hasTransporter?: boolean;
-    }> = [];
+  private markUnitRemoved(unit: FrenzyUnit) {
+    this.deltaEncoder.units.remove(unit);
+  }
 
-    // Add HQs
-    for (const b of this.coreBuildings.values()) {
-      structures.push({
-        id: b.id ?? 0,
-        type: FrenzyStructureType.HQ,
-        playerId: b.playerId,
-        x: b.x,
-        y: b.y,
-        tile: b.tile,
-        tier: b.tier,
-        health: b.health,
-        maxHealth: b.maxHealth,
-        spawnTimer: b.spawnTimer,
-        spawnInterval: b.spawnInterval,
-        unitCount: b.unitCount,
-        maxUnits: this.getMaxUnitsForPlayer(b.playerId),
-      });
-    }
+  private markStructureAdded(structure: FrenzyStructure) {
+    this.deltaEncoder.structures.add(structure);
+  }
 
-    // Add mines
-    for (const m of this.mines.values()) {
-      structures.push({
-        id: m.id,
-        type: FrenzyStructureType.Mine,
-        playerId: m.playerId,
-        x: m.x,
-        y: m.y,
-        tile: m.tile,
-        tier: m.tier,
-        health: m.health,
-        maxHealth: m.maxHealth,
-      });
-    }
+  private mutateStructure<S extends FrenzyStructure>(
+    structure: S,
+    changes: Partial<S>,
+  ) {
+    Object.assign(structure, changes);
+    this.deltaEncoder.structures.touch(structure);
+  }
 
-    // Add factories
-    for (const f of this.factories.values()) {
-      structures.push({
-        id: f.id ?? 0,
-        type: FrenzyStructureType.Factory,
-        playerId: f.playerId,
-        x: f.x,
-        y: f.y,
-        tile: f.tile,
-        tier: f.tier,
-        health: f.health,
-        maxHealth: f.maxHealth,
-        spawnTimer: f.spawnTimer,
-        spawnInterval: f.spawnInterval,
-      });
-    }
+  private damageStructure(
+    structure: FrenzyStructure,
+    damage: number,
+    attackerId: PlayerID | undefined,
+  ) {
+    this.recordDamage(attackerId, structure.playerId, damage);
+    this.mutateStructure(structure, { health: structure.health - damage });
+  }
 
-    // Add ports
-    for (const p of this.ports.values()) {
-      structures.push({
-        id: p.id ?? 0,
-        type: FrenzyStructureType.Port,
-        playerId: p.playerId,
-        x: p.x,
-        y: p.y,
-        tile: p.tile,
-        tier: p.tier,
-        health: p.health,
-        maxHealth: p.maxHealth,
-        spawnTimer: p.spawnTimer,
-        spawnInterval: p.spawnInterval,
-      });
-    }
+  private markStructureRemoved(structure: FrenzyStructure) {
+    this.deltaEncoder.structures.remove(structure);
+  }
 
-    // Add airports
-    for (const a of this.airports.values()) {
-      structures.push({
-        id: a.id ?? 0,
-        type: FrenzyStructureType.Airport,
-        playerId: a.playerId,
-        x: a.x,
-        y: a.y,
-        tile: a.tile,
-        tier: a.tier,
-        health: a.health,
-        maxHealth: a.maxHealth,
-        spawnTimer: a.spawnTimer,
-        spawnInterval: a.spawnInterval,
-        hasTransporter: a.hasTransporter,
-      });
-    }
+  private addProjectile(projectile: FrenzyProjectile) {
+    this.projectiles.push(projectile);
+    this.deltaEncoder.projectiles.add(projectile);
+  }
 
-    // Add MiniHQs
-    for (const m of this.miniHQs.values()) {
-      structures.push({
-        id: m.id,
-        type: FrenzyStructureType.MiniHQ,
-        playerId: m.playerId,
-        x: m.x,
-        y: m.y,
-        tile: m.tile,
-        tier: m.tier,
-        health: m.health,
-        maxHealth: m.maxHealth,
-      });
-    }
+  // HQs first, then the other buildings, in the order updates list them
+  private *allStructures(): Iterable<FrenzyStructure> {
+    yield* this.coreBuildings.values();
+    yield* this.mines.values();
+    yield* this.factories.values();
+    yield* this.ports.values();
+    yield* this.airports.values();
+    yield* this.miniHQs.values();
+  }
 
+  private updateSettings(): FrenzySettings {
     return {
-      units: this.units.map((u) => ({
-        id: u.id,
-        playerId: u.playerId,
-        x: u.x,
-        y: u.y,
-        health: u.health,
-        maxHealth: u.maxHealth,
-        unitType: u.unitType,
-        tier: u.tier,
-        shieldHealth: u.shieldHealth,
-        maxShieldHealth: u.maxShieldHealth,
-        weaponCooldown: u.weaponCooldown,
-        fireInterval: u.fireInterval,
-        // Attack order data for rendering
-        hasAttackOrder: u.hasAttackOrder,
-        attackOrderX: u.attackOrderX,
-        attackOrderY: u.attackOrderY,
-        // Boarding data for rendering (blue line)
-        isBoardingTransporter: u.isBoardingTransporter,
-        boardingTargetX: u.boardingTargetX,
-        boardingTargetY: u.boardingTargetY,
-        // Transporter properties
-        heading: u.heading,
-        isFlying: u.isFlying,
-        isWaitingForBoarding: u.isWaitingForBoarding,
-        boardedUnits: u.boardedUnits,
-        targetX: u.targetX,
-        targetY: u.targetY,
-      })),
-      // Unified structures array (new)
-      structures,
-      // Legacy fields for backwards compatibility
-      coreBuildings: Array.from(this.coreBuildings.values()).map((b) => ({
-        playerId: b.playerId,
-        x: b.x,
-        y: b.y,
-        spawnTimer: b.spawnTimer,
-        spawnInterval: b.spawnInterval,
-        unitCount: b.unitCount,
-        tier: b.tier,
-        maxUnits: this.getMaxUnitsForPlayer(b.playerId),
-        warshipCount: this.getWarshipCount(b.playerId),
-        maxWarships: this.getMaxWarshipsForPlayer(b.playerId),
-        health: b.health,
-        maxHealth: b.maxHealth,
-      })),
-      factories: Array.from(this.factories.entries()).map(([tile, f]) => ({
-        tile,
-        playerId: f.playerId,
-        x: f.x,
-        y: f.y,
-        tier: f.tier,
-        health: f.health,
-        maxHealth: f.maxHealth,
-      })),
-      projectiles: this.projectiles.map((p) => ({
-        id: p.id,
-        playerId: p.playerId,
-        x: p.x,
-        y: p.y,
-        projectileType: p.projectileType,
-        startX: p.startX,
-        startY: p.startY,
-        targetX: p.targetX,
-        targetY: p.targetY,
-        areaRadius: p.areaRadius,
-        progress: p.life > 0 ? p.age / p.life : 1,
-      })),
       projectileSize: this.config.projectileSize,
       maxUnitsPerPlayer: this.config.maxUnitsPerPlayer,
       maxWarshipsPerPlayer: this.config.maxWarshipsPerPlayer,
-      crystals: this.crystals.map((c) => ({
-        id: c.id,
-        x: c.x,
-        y: c.y,
-        crystalCount: c.crystalCount,
-        rotations: c.rotations,
-      })),
       pendingGoldPayouts: [...this.pendingGoldPayouts],
     };
   }
+
+  private unitData(u: FrenzyUnit): FrenzyUnitData {
+    return {
+      id: u.id,
+      playerId: u.playerId,
+      x: u.x,
+      y: u.y,
+      health: u.health,
+      maxHealth: u.maxHealth,
+      unitType: u.unitType,
+      tier: u.tier,
+      shieldHealth: u.shieldHealth,
+      maxShieldHealth: u.maxShieldHealth,
+      weaponCooldown: u.weaponCooldown,
+      fireInterval: u.fireInterval,
+      // Attack order data for rendering
+      hasAttackOrder: u.hasAttackOrder,
+      attackOrderX: u.attackOrderX,
+      attackOrderY: u.attackOrderY,
+      holdPosition: u.holdPosition,
+      // Boarding data for rendering (blue line)
+      isBoardingTransporter: u.isBoardingTransporter,
+      boardingTargetX: u.boardingTargetX,
+      boardingTargetY: u.boardingTargetY,
+      // Transporter properties
+      heading: u.heading,
+      isFlying: u.isFlying,
+      isWaitingForBoarding: u.isWaitingForBoarding,
+      boardedUnits: u.boardedUnits,
+      targetX: u.targetX,
+      targetY: u.targetY,
+    };
+  }
+
+  private structureData(s: FrenzyStructure): FrenzyStructureData {
+    const data: FrenzyStructureData = {
+      id: s.id ?? 0,
+      type: s.type,
+      playerId: s.playerId,
+      x: s.x,
+      y: s.y,
+      tile: s.tile,
+      tier: s.tier,
+      health: s.health,
+      maxHealth: s.maxHealth,
+    };
+    switch (s.type) {
+      case FrenzyStructureType.HQ:
+        return {
+          ...data,
+          spawnTimer: s.spawnTimer,
+          spawnInterval: s.spawnInterval,
+          unitCount: s.unitCount,
+          maxUnits: this.getMaxUnitsForPlayer(s.playerId),
+          warshipCount: this.getWarshipCount(s.playerId),
+          maxWarships: this.getMaxWarshipsForPlayer(s.playerId),
+        };
+      case FrenzyStructureType.Factory:
+      case FrenzyStructureType.Port:
+        return {
+          ...data,
+          spawnTimer: s.spawnTimer,
+          spawnInterval: s.spawnInterval,
+        };
+      case FrenzyStructureType.Airport:
+        return {
+          ...data,
+          spawnTimer: s.spawnTimer,
+          spawnInterval: s.spawnInterval,
+          hasTransporter: (s as AirportSpawner).hasTransporter,
+        };
+      default:
+        return data;
+    }
+  }
+
+  private projectileData(p: FrenzyProjectile): FrenzyProjectileData {
+    return {
+      id: p.id,
+      playerId: p.playerId,
+      x: p.x,
+      y: p.y,
+      projectileType: p.projectileType,
+      startX: p.startX,
+      startY: p.startY,
+      targetX: p.targetX,
+      targetY: p.targetY,
+      areaRadius: p.areaRadius,
+      progress: p.life > 0 ? p.age / p.life : 1,
+    };
+  }
+
+  private crystalData(c: CrystalCluster): FrenzyCrystalData {
+    return {
+      id: c.id,
+      x: c.x,
+      y: c.y,
+      crystalCount: c.crystalCount,
+      rotations: c.rotations,
+    };
+  }
+
+  /**
+   * Make the next delta update a keyframe, e.g. after the main thread
+   * missed updates during a replay seek.
+   */
+  forceKeyframe() {
+    this.deltaEncoder.forceKeyframe();
+  }
 }
 
 interface PlayerTerritorySnapshot {
@@ -0,0 +1,919 @@
+import { UnitType } from "../Game";
+import {
+  FrenzyConfig,
+  FrenzyStructureType,
+  FrenzyUnitType,
+  ProjectileType,
+  StructureConfig,
+  StructureOverrides,
+  StructureTypeKey,
+  UnitTypeConfig,
+} from "./FrenzyTypes";
+
+/**
+ * Frenzy units and structures, each declared once as data. Costs, tiers,
+ * stats, projectiles, targeting, icons and build-menu entries all come
+ * from here; STRUCTURE_CONFIGS and DEFAULT_FRENZY_CONFIG.units are derived.
+ *
+ * Adding a tower means a FrenzyUnitType member and an entry in FRENZY_UNITS.
+ * Sight, sounds and sprite are data too; only a new sprite and behavior
+ * beyond shooting and shielding need code of their own.
+ */
+
+/** Where a unit is, for the targeting rules of units shooting at it. */
+export type FrenzyUnitDomain = "ground" | "naval" | "air";
+
+/** The domains whose units a unit engages in regular combat. */
+export type FrenzyTargetRules = Record<FrenzyUnitDomain, boolean>;
+
+/** Name of a unit's stats in FrenzyConfig.units (and in rule set overrides). */
+export type FrenzyUnitStatsKey = keyof FrenzyConfig["units"];
+
+export interface FrenzyBuildMenuEntry {
+  // What the build menu and build intents call it
+  unitType: UnitType;
+  // Right (buildings) or left (towers) radial build menu
+  group: "buildings" | "towers";
+  nameKey: string;
+  descriptionKey: string;
+}
+
+/** Sounds an entity makes, by SoundEffect name. */
+export interface FrenzySounds {
+  // When it appears, like a transporter landing
+  spawned?: string;
+  // When it is destroyed rather than sold
+  destroyed?: string;
+}
+
+/** How UnitRenderer draws a unit; several unit types may share one. */
+export type FrenzyUnitSprite =
+  | "soldier"
+  | "eliteSoldier"
+  | "warship"
+  | "transporter"
+  | "defensePost"
+  | "samLauncher"
+  | "missileSilo"
+  | "shieldGenerator"
+  | "artillery";
+
+export interface FrenzyStructureDefinition {
+  key: StructureTypeKey;
+  config: StructureConfig;
+  // Path of the icon under /images
+  icon: string;
+  // How far it sees under the fog of war rule, in pixels
+  sightRadius: number;
+  sounds?: FrenzySounds;
+  buildMenu?: FrenzyBuildMenuEntry;
+}
+
+// A tower's icon, sight and sounds are its unit's
+export interface FrenzyTowerDefinition
+  extends Omit<FrenzyStructureDefinition, "icon" | "sightRadius" | "sounds"> {
+  // How sell requests name the tower
+  sellName: string;
+}
+
+export interface FrenzyUnitDefinition {
+  type: FrenzyUnitType;
+  domain: FrenzyUnitDomain;
+  // Stats per tier, tier 1 first; higher tiers reuse the last entry
+  tiers: ReadonlyArray<{ key: FrenzyUnitStatsKey; stats: UnitTypeConfig }>;
+  targets: FrenzyTargetRules;
+  icon: string;
+  sprite: FrenzyUnitSprite;
+  // Radius of the dot drawn with simplified unit graphics
+  markerSize: number;
+  // How far it sees under the fog of war rule, in pixels. Units see a
+  // little past their weapon range; SAM launchers double as radar.
+  sightRadius: number;
+  sounds?: FrenzySounds;
+  // Follows the move, attack and hold orders of its owner
+  commandable?: boolean;
+  // Boards transporters, and looks for enemies less often when idle
+  infantry?: boolean;
+  // Flies infantry to where its owner sends it
+  carriesUnits?: boolean;
+  // Towers are units that are placed, upgraded and sold like structures
+  tower?: FrenzyTowerDefinition;
+}
+
+const ENGAGES_ALL: FrenzyTargetRules = { ground: true, naval: true, air: true };
+const ENGAGES_NONE: FrenzyTargetRules = {
+  ground: false,
+  naval: false,
+  air: false,
+};
+
+const DESTRUCTIBLE: FrenzySounds = { destroyed: "structure-destroyed" };
+
+// === Buildings (economic/production) ===
+
+export const FRENZY_BUILDINGS: Record<
+  FrenzyStructureType,
+  FrenzyStructureDefinition
+> = {
+  [FrenzyStructureType.HQ]: {
+    key: "hq",
+    icon: "/images/CityIconWhite.svg",
+    sightRadius: 80,
+    sounds: DESTRUCTIBLE,
+    config: {
+      buildCost: 0, // Not buildable
+      constructionTime: 0,
+      health: 1000,
+      size: 10,
+      minDistance: 25, // HQ has larger exclusion zone
+      maxTier: 2,
+      upgradeCost: 500000,
+      upgradeHealthBonus: 500,
+      requiredHQTier: 1,
+      sellRefundPercent: 0, // Cannot sell HQ
+      spawnInterval: 4.0,
+      bars: { showHealthBar: true, showEnergyBar: false },
+    },
+  },
+  [FrenzyStructureType.Mine]: {
+    key: "mine",
+    icon: "/images/MineIconWhite.svg",
+    sightRadius: 30,
+    sounds: DESTRUCTIBLE,
+    // In Frenzy mode, City = Mine
+    buildMenu: {
+      unitType: UnitType.City,
+      group: "buildings",
+      nameKey: "unit_type.city",
+      descriptionKey: "build_menu.desc.city",
+    },
+    config: {
+      buildCost: 50000,
+      constructionTime: 50, // 5 seconds
+      health: 400,
+      size: 8,
+      minDistance: 20, // size * 2 + 4
+      maxTier: 2,
+      upgradeCost: 100000,
+      upgradeHealthBonus: 200,
+      requiredHQTier: 2,
+      sellRefundPercent: 50,
+      goldPerMinute: 10000,
+      tier2GoldMultiplier: 2,
+      bars: { showHealthBar: true, showEnergyBar: false },
+    },
+  },
+  [FrenzyStructureType.Factory]: {
+    key: "factory",
+    icon: "/images/UnitFactoryIconWhite.svg",
+    sightRadius: 40,
+    sounds: DESTRUCTIBLE,
+    buildMenu: {
+      unitType: UnitType.Factory,
+      group: "buildings",
+      nameKey: "unit_type.factory",
+      descriptionKey: "build_menu.desc.factory",
+    },
+    config: {
+      buildCost: 100000,
+      constructionTime: 20, // 2 seconds
+      health: 400,
+      size: 8,
+      minDistance: 20, // size * 2 + 4
+      maxTier: 2,
+      upgradeCost: 100000,
+      upgradeHealthBonus: 200,
+      requiredHQTier: 2,
+      sellRefundPercent: 50,
+      spawnInterval: 4.0,
+      bars: { showHealthBar: true, showEnergyBar: false },
+    },
+  },
+  [FrenzyStructureType.Port]: {
+    key: "port",
+    icon: "/images/HarborIconWhite.svg",
+    sightRadius: 50,
+    sounds: DESTRUCTIBLE,
+    buildMenu: {
+      unitType: UnitType.Port,
+      group: "buildings",
+      nameKey: "unit_type.port",
+      descriptionKey: "build_menu.desc.port",
+    },
+    config: {
+      buildCost: 100000,
+      constructionTime: 20, // 2 seconds
+      health: 400,
+      size: 8,
+      minDistance: 20, // size * 2 + 4
+      maxTier: 2,
+      upgradeCost: 100000,
+      upgradeHealthBonus: 200,
+      requiredHQTier: 2,
+      sellRefundPercent: 50,
+      spawnInterval: 4.0,
+      bars: { showHealthBar: true, showEnergyBar: false },
+    },
+  },
+  // Spawns transporters
+  [FrenzyStructureType.Airport]: {
+    key: "airport",
+    icon: "/images/AirportIconWhite.svg",
+    sightRadius: 50,
+    sounds: DESTRUCTIBLE,
+    buildMenu: {
+      unitType: UnitType.Airport,
+      group: "buildings",
+      nameKey: "unit_type.airport",
+      descriptionKey: "build_menu.desc.airport",
+    },
+    config: {
+      buildCost: 150000,
+      constructionTime: 100, // 10 seconds
+      health: 300,
+      size: 8,
+      minDistance: 20, // size * 2 + 4
+      maxTier: 1, // Not upgradable
+      upgradeCost: 0,
+      upgradeHealthBonus: 0,
+      requiredHQTier: 1,
+      sellRefundPercent: 50,
+      spawnInterval: 60.0, // 1 minute rebuild time
+      bars: { showHealthBar: true, showEnergyBar: false },
+    },
+  },
+  // Spawned by transporter landing
+  [FrenzyStructureType.MiniHQ]: {
+    key: "minihq",
+    icon: "/images/CityIconWhite.svg",
+    sightRadius: 60,
+    sounds: { ...DESTRUCTIBLE, spawned: "transporter-landing" },
+    config: {
+      buildCost: 0, // Cannot be built directly
+      constructionTime: 0, // Instant spawn
+      health: 200,
+      size: 6,
+      minDistance: 0, // No distance requirement
+      maxTier: 1, // Not upgradable
+      upgradeCost: 0,
+      upgradeHealthBonus: 0,
+      requiredHQTier: 1,
+      sellRefundPercent: 0, // Cannot be sold
+      captureRadius: 15, // Territory capture radius on spawn
+      bars: { showHealthBar: true, showEnergyBar: false },
+    },
+  },
+};
+
+// === Towers (military/defensive) ===
+
+const defensePost: StructureConfig = {
+  buildCost: 35000,
+  constructionTime: 50, // 5 seconds
+  health: 200,
+  size: 8,
+  minDistance: 20, // size * 2 + 4
+  maxTier: 2,
+  upgradeCost: 100000,
+  upgradeHealthBonus: 100,
+  requiredHQTier: 2,
+  sellRefundPercent: 50,
+  bars: { showHealthBar: true, showEnergyBar: false }, // No energy bar for defense posts
+};
+
+const samLauncher: StructureConfig = {
+  buildCost: 150000,
+  constructionTime: 100, // 10 seconds
+  health: 150,
+  size: 6.4,
+  minDistance: 17, // size * 2 + 4
+  maxTier: 2,
+  upgradeCost: 100000,
+  upgradeHealthBonus: 75,
+  requiredHQTier: 2,
+  sellRefundPercent: 50,
+  bars: { showHealthBar: true, showEnergyBar: false },
+};
+
+const missileSilo: StructureConfig = {
+  buildCost: 200000,
+  constructionTime: 100, // 10 seconds
+  health: 300,
+  size: 6,
+  minDistance: 16, // size * 2 + 4
+  maxTier: 2,
+  upgradeCost: 400000,
+  upgradeHealthBonus: 150,
+  requiredHQTier: 2,
+  sellRefundPercent: 50,
+  nukeCost: 200000, // Atom bomb cost
+  hydroCost: 1000000, // Hydrogen bomb cost
+  bars: { showHealthBar: true, showEnergyBar: false },
+};
+
+const shieldGenerator: StructureConfig = {
+  buildCost: 150000,
+  constructionTime: 150, // 15 seconds
+  health: 100,
+  size: 6.4,
+  minDistance: 17, // size * 2 + 4
+  maxTier: 2,
+  upgradeCost: 100000,
+  upgradeHealthBonus: 50,
+  requiredHQTier: 2,
+  sellRefundPercent: 50,
+  bars: { showHealthBar: true, showEnergyBar: true, energyBarType: "shield" }, // Shield HP bar
+};
+
+const artillery: StructureConfig = {
+  buildCost: 200000,
+  constructionTime: 100, // 10 seconds
+  health: 150,
+  size: 7,
+  minDistance: 18, // size * 2 + 4
+  maxTier: 2,
+  upgradeCost: 100000,
+  upgradeHealthBonus: 75,
+  requiredHQTier: 2,
+  sellRefundPercent: 50,
+  bars: { showHealthBar: true, showEnergyBar: true, energyBarType: "reload" }, // Reload bar
+};
+
+export const FRENZY_UNITS: Record<FrenzyUnitType, FrenzyUnitDefinition> = {
+  // === Mobile units ===
+  [FrenzyUnitType.Soldier]: {
+    type: FrenzyUnitType.Soldier,
+    domain: "ground",
+    targets: ENGAGES_ALL,
+    icon: "/images/SwordIconWhite.svg",
+    sprite: "soldier",
+    markerSize: 3,
+    sightRadius: 40,
+    commandable: true,
+    infantry: true,
+    tiers: [
+      {
+        key: "soldier",
+        stats: {
+          health: 100,
+          speed: 2.5,
+          dps: 15,
+          range: 25,
+          fireInterval: 1,
+          projectileType: ProjectileType.PlasmaOrb,
+        },
+      },
+    ],
+  },
+  [FrenzyUnitType.EliteSoldier]: {
+    type: FrenzyUnitType.EliteSoldier,
+    domain: "ground",
+    targets: ENGAGES_ALL,
+    icon: "/images/SwordIconWhite.svg",
+    sprite: "eliteSoldier",
+    markerSize: 4,
+    sightRadius: 50,
+    commandable: true,
+    infantry: true,
+    tiers: [
+      {
+        key: "eliteSoldier",
+        stats: {
+          health: 150, // 1.5x soldier health
+          speed: 2.25, // 10% slower than soldier
+          dps: 15,
+          range: 37.5, // 1.5x soldier range
+          fireInterval: 1,
+          projectileType: ProjectileType.GoldenOrb,
+        },
+      },
+    ],
+  },
+  [FrenzyUnitType.Warship]: {
+    type: FrenzyUnitType.Warship,
+    domain: "naval",
+    targets: ENGAGES_ALL,
+    icon: "/images/BattleshipIconWhite.svg",
+    sprite: "warship",
+    markerSize: 6,
+    sightRadius: 80,
+    commandable: true,
+    tiers: [
+      {
+        key: "warship",
+        stats: {
+          health: 250, // Tough naval unit
+          speed: 2.0, // Slower than land units
+          dps: 20, // Strong damage
+          range: 50, // Long range - can hit land from water
+          fireInterval: 1.5, // Moderate fire rate
+          projectileDamage: 50, // Good projectile damage
+          projectileType: ProjectileType.Laser, // Always use lasers
+        },
+      },
+      {
+        key: "eliteWarship",
+        stats: {
+          health: 375, // 1.5x warship health (250 * 1.5)
+          speed: 2.0, // Same speed as tier 1
+          dps: 30, // 1.5x warship dps
+          range: 300, // 2x warship range (45 * 2) - long range missiles
+          fireInterval: 8.0, // Slow reload (fires barrages)
+          projectileDamage: 25, // Per-missile damage (fires 2x5 = 10 missiles)
+          areaRadius: 8, // Small AOE per missile
+          projectileType: ProjectileType.Missile, // Missile barrages
+        },
+      },
+    ],
+  },
+  [FrenzyUnitType.Transporter]: {
+    type: FrenzyUnitType.Transporter,
+    domain: "air",
+    targets: ENGAGES_NONE,
+    icon: "/images/AirtransportIconWhite.svg",
+    sprite: "transporter",
+    markerSize: 3,
+    sightRadius: 60,
+    carriesUnits: true,
+    tiers: [
+      {
+        key: "transporter",
+        stats: {
+          health: 150, // Moderate health
+          speed: 10.0, // Double soldier speed (2.5 * 2)
+          dps: 0, // No attack
+          range: 0, // No attack range
+          fireInterval: 0, // No firing
+        },
+      },
+    ],
+  },
+
+  // === Towers (stationary) ===
+  [FrenzyUnitType.DefensePost]: {
+    type: FrenzyUnitType.DefensePost,
+    domain: "ground",
+    targets: ENGAGES_ALL,
+    icon: "/images/ShieldIconWhite.svg",
+    sprite: "defensePost",
+    markerSize: 5,
+    sightRadius: 60,
+    sounds: DESTRUCTIBLE,
+    tower: {
+      key: "defensePost",
+      sellName: "defense_post",
+      config: defensePost,
+      buildMenu: {
+        unitType: UnitType.DefensePost,
+        group: "towers",
+        nameKey: "unit_type.defense_post",
+        descriptionKey: "build_menu.desc.defense_post",
+      },
+    },
+    tiers: [
+      {
+        key: "defensePost",
+        stats: {
+          health: defensePost.health,
+          speed: 0, // Stationary
+          dps: 0, // Uses projectileDamage instead
+          range: 30, // Same as soldier
+          fireInterval: 0.5, // Double soldier fire rate
+          projectileDamage: 20, // Same as soldier damage
+          projectileType: ProjectileType.GreenOrb, // Always use green orbs
+        },
+      },
+      {
+        key: "eliteDefensePost",
+        stats: {
+          health: defensePost.health + defensePost.upgradeHealthBonus, // tier 2 health
+          speed: 0, // Stationary
+          dps: 0, // Uses projectileDamage instead
+          range: 37.5, // 1.5x soldier range
+          fireInterval: 4.0, // Slower but one-shots
+          projectileDamage: 100, // One-shots most units
+          projectileType: ProjectileType.Laser, // Tier 2: red beam
+        },
+      },
+    ],
+  },
+  // Shoots down nukes (SAMLauncherExecution), not Frenzy units
+  [FrenzyUnitType.SAMLauncher]: {
+    type: FrenzyUnitType.SAMLauncher,
+    domain: "ground",
+    targets: ENGAGES_NONE,
+    icon: "/images/SamLauncherIconWhite.svg",
+    sprite: "samLauncher",
+    markerSize: 3,
+    sightRadius: 150,
+    sounds: DESTRUCTIBLE,
+    tower: {
+      key: "samLauncher",
+      sellName: "sam_launcher",
+      config: samLauncher,
+      buildMenu: {
+        unitType: UnitType.SAMLauncher,
+        group: "towers",
+        nameKey: "unit_type.sam_launcher",
+        descriptionKey: "build_menu.desc.sam_launcher",
+      },
+    },
+    tiers: [
+      {
+        key: "samLauncher",
+        stats: {
+          health: samLauncher.health,
+          speed: 0, // Stationary
+          dps: 0, // Uses projectileDamage instead
+          range: 60, // Good anti-air range
+          fireInterval: 2.0, // Moderate fire rate
+          projectileDamage: 100, // High damage to aircraft
+          projectileType: ProjectileType.Missile,
+        },
+      },
+    ],
+  },
+  // Launches nukes when its owner orders, never on its own
+  [FrenzyUnitType.MissileSilo]: {
+    type: FrenzyUnitType.MissileSilo,
+    domain: "ground",
+    targets: ENGAGES_NONE,
+    icon: "/images/MissileSiloIconWhite.svg",
+    sprite: "missileSilo",
+    markerSize: 3,
+    sightRadius: 40,
+    sounds: DESTRUCTIBLE,
+    tower: {
+      key: "missileSilo",
+      sellName: "missile_silo",
+      config: missileSilo,
+      buildMenu: {
+        unitType: UnitType.MissileSilo,
+        group: "towers",
+        nameKey: "unit_type.missile_silo",
+        descriptionKey: "build_menu.desc.missile_silo",
+      },
+    },
+    tiers: [
+      {
+        key: "missileSilo",
+        stats: {
+          health: missileSilo.health,
+          speed: 0, // Stationary
+          dps: 0, // Uses missiles
+          range: 0, // Global range via missiles
+          fireInterval: 0, // Manual launching
+        },
+      },
+    ],
+  },
+  [FrenzyUnitType.ShieldGenerator]: {
+    type: FrenzyUnitType.ShieldGenerator,
+    domain: "ground",
+    targets: ENGAGES_NONE,
+    icon: "/images/ShieldGeneratorIconWhite.svg",
+    sprite: "shieldGenerator",
+    markerSize: 5,
+    sightRadius: 50,
+    sounds: DESTRUCTIBLE,
+    tower: {
+      key: "shieldGenerator",
+      sellName: "shield_generator",
+      config: shieldGenerator,
+      buildMenu: {
+        unitType: UnitType.ShieldGenerator,
+        group: "towers",
+        nameKey: "unit_type.shield_generator",
+        descriptionKey: "build_menu.desc.shield_generator",
+      },
+    },
+    tiers: [
+      {
+        key: "shieldGenerator",
+        stats: {
+          health: shieldGenerator.health,
+          speed: 0, // Stationary
+          dps: 0, // No attack
+          range: 0, // No attack range
+          fireInterval: 0, // No firing
+          shieldRadius: 30, // Protection radius
+          shieldHealth: 1500, // Shield absorbs 500 damage before breaking
+          shieldRegenTime: 10, // 10 seconds to fully regenerate
+        },
+      },
+      {
+        key: "eliteShieldGenerator",
+        stats: {
+          health: shieldGenerator.health + shieldGenerator.upgradeHealthBonus, // tier 2 health
+          speed: 0, // Stationary
+          dps: 0, // No attack
+          range: 0, // No attack range
+          fireInterval: 0, // No firing
+          shieldRadius: 45, // 1.5x protection radius
+          shieldHealth: 3000, // 2x shield HP
+          shieldRegenTime: 12, // Faster regen (12 seconds)
+        },
+      },
+    ],
+  },
+  [FrenzyUnitType.Artillery]: {
+    type: FrenzyUnitType.Artillery,
+    domain: "ground",
+    targets: ENGAGES_ALL,
+    icon: "/images/ArtilleryIconWhite.svg",
+    sprite: "artillery",
+    markerSize: 5,
+    sightRadius: 100,
+    sounds: DESTRUCTIBLE,
+    tower: {
+      key: "artillery",
+      sellName: "artillery",
+      config: artillery,
+      buildMenu: {
+        unitType: UnitType.Artillery,
+        group: "towers",
+        nameKey: "unit_type.artillery",
+        descriptionKey: "build_menu.desc.artillery",
+      },
+    },
+    tiers: [
+      {
+        key: "artillery",
+        stats: {
+          health: artillery.health,
+          speed: 0, // Stationary
+          dps: 0, // Uses projectileDamage instead
+          range: 80, // Very long range
+          fireInterval: 8.0, // Very slow firing, long cooldown
+          projectileDamage: 100, // High damage
+          areaRadius: 15, // Splash damage radius
+          projectileType: ProjectileType.Artillery,
+        },
+      },
+      {
+        key: "eliteArtillery",
+        stats: {
+          health: artillery.health + artillery.upgradeHealthBonus, // tier 2 health
+          speed: 0, // Stationary
+          dps: 0, // Uses projectileDamage instead
+          range: 120, // 1.5x range
+          fireInterval: 8.0, // Faster firing
+          projectileDamage: 150, // 1.5x damage
+          areaRadius: 22.5, // 1.5x splash radius
+          projectileType: ProjectileType.Artillery,
+        },
+      },
+    ],
+  },
+};
+
+const unitDefinitions = Object.values(FRENZY_UNITS);
+const towerDefinitions = unitDefinitions.flatMap((def) =>
+  def.tower ? [{ unit: def, tower: def.tower }] : [],
+);
+
+/**
+ * Default structure configurations, buildings and towers alike
+ */
+export const STRUCTURE_CONFIGS = Object.fromEntries([
+  ...Object.values(FRENZY_BUILDINGS).map((def) => [def.key, def.config]),
+  ...towerDefinitions.map(({ tower }) => [tower.key, tower.config]),
+]) as Record<StructureTypeKey, StructureConfig>;
+
+/** Stats of every unit and tier, as FrenzyConfig.units. */
+export const DEFAULT_UNIT_STATS = Object.fromEntries(
+  unitDefinitions.flatMap((def) =>
+    def.tiers.map((tier) => [tier.key, tier.stats]),
+  ),
+) as FrenzyConfig["units"];
+
+/**
+ * Unit stats with rule set changes applied per stats entry, so a change to
+ * one field of a unit keeps the others.
+ */
+export function mergeUnitStats(
+  base: FrenzyConfig["units"],
+  overrides: Partial<Record<FrenzyUnitStatsKey, Partial<UnitTypeConfig>>>,
+): FrenzyConfig["units"] {
+  const merged = { ...base };
+  for (const key of Object.keys(base) as FrenzyUnitStatsKey[]) {
+    merged[key] = { ...base[key], ...overrides[key] };
+  }
+  return merged;
+}
+
+/** The definition of a unit type, or undefined for unknown names. */
+export function frenzyUnitDefinition(
+  type: string,
+): FrenzyUnitDefinition | undefined {
+  return (FRENZY_UNITS as Record<string, FrenzyUnitDefinition>)[type];
+}
+
+/** The definition of a building type, or undefined for unknown names. */
+export function frenzyBuildingDefinition(
+  type: string,
+): FrenzyStructureDefinition | undefined {
+  return (FRENZY_BUILDINGS as Record<string, FrenzyStructureDefinition>)[type];
+}
+
+/**
+ * Stats of a unit type at a tier. Tiers past the last declared one use the
+ * last one's stats.
+ */
+export function getUnitConfig(
+  config: FrenzyConfig,
+  unitType: FrenzyUnitType,
+  tier: number = 1,
+): UnitTypeConfig {
+  const tiers = FRENZY_UNITS[unitType].tiers;
+  const index = Math.max(0, Math.min(tiers.length, tier) - 1);
+  return config.units[tiers[index].key];
+}
+
+/** Whether a unit with these rules shoots at units of that type. */
+export function canEngage(
+  targets: FrenzyTargetRules,
+  targetType: FrenzyUnitType,
+): boolean {
+  return targets[FRENZY_UNITS[targetType].domain];
+}
+
+/** Whether a unit shoots at other units at all. */
+export function engagesUnits(targets: FrenzyTargetRules): boolean {
+  return targets.ground || targets.naval || targets.air;
+}
+
+export function isFrenzyTower(type: FrenzyUnitType): boolean {
+  return FRENZY_UNITS[type].tower !== undefined;
+}
+
+/**
+ * Get structure type key from FrenzyStructureType
+ */
+export function structureTypeToKey(
+  type: FrenzyStructureType,
+): StructureTypeKey {
+  return FRENZY_BUILDINGS[type].key;
+}
+
+/**
+ * Get structure type key from FrenzyUnitType (for towers)
+ */
+export function unitTypeToStructureKey(
+  type: FrenzyUnitType,
+): StructureTypeKey | null {
+  return FRENZY_UNITS[type].tower?.key ?? null; // Mobile units don't have structure configs
+}
+
+/**
+ * Structure config key of a building or tower named by its type string, as
+ * the client sees them; null for mobile units and unknown names.
+ */
+export function structureKeyFor(type: string): StructureTypeKey | null {
+  const building = (
+    FRENZY_BUILDINGS as Record<string, FrenzyStructureDefinition>
+  )[type];
+  return building?.key ?? frenzyUnitDefinition(type)?.tower?.key ?? null;
+}
+
+/** The tower that sell requests call `sellName`. */
+export function towerBySellName(
+  sellName: string,
+): FrenzyUnitDefinition | undefined {
+  return towerDefinitions.find(({ tower }) => tower.sellName === sellName)
+    ?.unit;
+}
+
+/** The building the build menu builds as `unitType`. */
+export function buildingByBuildUnitType(
+  unitType: UnitType,
+): FrenzyStructureType | undefined {
+  return (Object.keys(FRENZY_BUILDINGS) as FrenzyStructureType[]).find(
+    (type) => FRENZY_BUILDINGS[type].buildMenu?.unitType === unitType,
+  );
+}
+
+/** The tower the build menu builds as `unitType`. */
+export function towerByBuildUnitType(
+  unitType: UnitType,
+): FrenzyUnitDefinition | undefined {
+  return towerDefinitions.find(
+    ({ tower }) => tower.buildMenu?.unitType === unitType,
+  )?.unit;
+}
+
+/** Buildings and towers in the build menu, buildings first. */
+export function frenzyBuildMenuEntries(): Array<
+  FrenzyBuildMenuEntry & { icon: string }
+> {
+  return [
+    ...Object.values(FRENZY_BUILDINGS),
+    ...towerDefinitions.map(({ unit, tower }) => ({
+      ...tower,
+      icon: unit.icon,
+    })),
+  ].flatMap((def) =>
+    def.buildMenu ? [{ ...def.buildMenu, icon: def.icon }] : [],
+  );
+}
+
+/**
+ * Get structure config by type key, with any per-game overrides applied
+ */
+export function getStructureConfig(
+  type: StructureTypeKey,
+  overrides?: StructureOverrides,
+): StructureConfig {
+  const override = overrides?.[type];
+  return override === undefined
+    ? STRUCTURE_CONFIGS[type]
+    : { ...STRUCTURE_CONFIGS[type], ...override };
+}
+
+/**
+ * Calculate sell value for a structure
+ */
+export function getStructureSellValue(
+  type: StructureTypeKey,
+  tier: number = 1,
+  overrides?: StructureOverrides,
+): number {
+  const config = getStructureConfig(type, overrides);
+  const baseCost = config.buildCost;
+  const upgradeCost = (tier - 1) * config.upgradeCost;
+  const totalInvested = baseCost + upgradeCost;
+  return Math.floor(totalInvested * (config.sellRefundPercent / 100));
+}
+
+/**
+ * Check if a structure can be upgraded
+ */
+export function canUpgradeStructureConfig(
+  type: StructureTypeKey,
+  currentTier: number,
+  hqTier: number,
+  playerGold: bigint,
+): boolean {
+  const config = STRUCTURE_CONFIGS[type];
+  if (currentTier >= config.maxTier) return false;
+  if (hqTier < config.requiredHQTier) return false;
+  if (playerGold < BigInt(config.upgradeCost)) return false;
+  return true;
+}
+
+/**
+ * Get health for a structure at a specific tier
+ */
+export function getStructureHealthForTier(
+  type: StructureTypeKey,
+  tier: number = 1,
+): number {
+  const config = STRUCTURE_CONFIGS[type];
+  return config.health + (tier - 1) * config.upgradeHealthBonus;
+}
+
+export const DEFAULT_FRENZY_CONFIG: FrenzyConfig = {
+  units: DEFAULT_UNIT_STATS,
+
+  // Spawning
+  spawnInterval: 4.0,
+  maxUnitsPerPlayer: 150,
+  maxWarshipsPerPlayer: 20,
+  startingUnits: 5,
+
+  // Movement & Territory
+  influenceRadius: 9,
+  separationRadius: 5,
+  captureRadius: 10,
+  radialAlignmentWeight: 0.75,
+  borderAdvanceDistance: 0.5,
+  stopDistance: 1,
+
+  // Projectiles
+  projectileSpeed: 10,
+  projectileSize: 1,
+
+  // Nukes (Frenzy-specific damage)
+  nukeDamage: 500,
+  hydroDamage: 1000,
+
+  // Buildings - values now come from STRUCTURE_CONFIGS
+  hqCaptureRadius: 2,
+  mineHealth: STRUCTURE_CONFIGS.mine.health,
+  hqHealth: STRUCTURE_CONFIGS.hq.health,
+
+  // Economy - values now come from STRUCTURE_CONFIGS
+  startingGold: 150000,
+  baseGoldPerMinute: 20000,
+  mineGoldPerMinute: STRUCTURE_CONFIGS.mine.goldPerMinute!,
+  mineCost: STRUCTURE_CONFIGS.mine.buildCost,
+  mineUpgradeCost: STRUCTURE_CONFIGS.mine.upgradeCost,
+  factoryCost: STRUCTURE_CONFIGS.factory.buildCost,
+  factoryUpgradeCost: STRUCTURE_CONFIGS.factory.upgradeCost,
+
+  // Crystals (resources)
+  crystalClusterCount: 50,
+  crystalGoldBonus: 1000,
+  mineGoldInterval: 10,
+  mineRadius: 40,
+};
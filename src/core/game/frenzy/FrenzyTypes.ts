@@ -1,3 +1,4 @@
+import { z } from "zod";
 import { PlayerID } from "../Game";
 import { TileRef } from "../GameMap";
 
@@ -28,10 +29,13 @@ export enum ProjectileType {
 }
 
 /**
- * Projectile configuration for visual rendering
+ * Projectile configuration for rendering and sound
  */
 export interface ProjectileConfig {
   type: ProjectileType;
+  // SoundEffect names; beams hit the moment they fire, so have no impact
+  fireSound: string;
+  impactSound?: string;
   // Core colors (for gradients)
   coreColor: string; // Inner bright color
   glowColor1: string; // First gradient stop
@@ -45,6 +49,8 @@ export interface ProjectileConfig {
 export const PROJECTILE_CONFIGS: Record<ProjectileType, ProjectileConfig> = {
   [ProjectileType.PlasmaOrb]: {
     type: ProjectileType.PlasmaOrb,
+    fireSound: "plasma-fire",
+    impactSound: "projectile-impact",
     coreColor: "#ffffff",
     glowColor1: "rgba(0, 255, 255, 0.9)", // Cyan
     glowColor2: "rgba(100, 200, 255, 0.7)", // Light blue
@@ -52,6 +58,8 @@ export const PROJECTILE_CONFIGS: Record<ProjectileType, ProjectileConfig> = {
   },
   [ProjectileType.GreenOrb]: {
     type: ProjectileType.GreenOrb,
+    fireSound: "plasma-fire",
+    impactSound: "projectile-impact",
     coreColor: "#ffffff",
     glowColor1: "rgba(0, 255, 100, 0.9)", // Bright green
     glowColor2: "rgba(100, 255, 150, 0.7)", // Light green
@@ -59,6 +67,7 @@ export const PROJECTILE_CONFIGS: Record<ProjectileType, ProjectileConfig> = {
   },
   [ProjectileType.Laser]: {
     type: ProjectileType.Laser,
+    fireSound: "laser-fire",
     coreColor: "rgba(255, 200, 200, 0.9)",
     glowColor1: "rgba(255, 0, 0, 0.3)", // Red outer
     glowColor2: "rgba(255, 50, 50, 0.6)", // Red middle
@@ -66,6 +75,8 @@ export const PROJECTILE_CONFIGS: Record<ProjectileType, ProjectileConfig> = {
   },
   [ProjectileType.GoldenOrb]: {
     type: ProjectileType.GoldenOrb,
+    fireSound: "plasma-fire",
+    impactSound: "projectile-impact",
     coreColor: "#ffffff",
     glowColor1: "rgba(255, 255, 150, 0.95)", // Bright gold
     glowColor2: "rgba(255, 220, 100, 0.8)", // Gold
@@ -73,6 +84,8 @@ export const PROJECTILE_CONFIGS: Record<ProjectileType, ProjectileConfig> = {
   },
   [ProjectileType.Artillery]: {
     type: ProjectileType.Artillery,
+    fireSound: "artillery-fire",
+    impactSound: "explosion",
     coreColor: "#ffffcc",
     glowColor1: "rgba(255, 150, 50, 0.6)", // Orange
     glowColor2: "rgba(255, 80, 0, 0.3)", // Red-orange
@@ -80,6 +93,8 @@ export const PROJECTILE_CONFIGS: Record<ProjectileType, ProjectileConfig> = {
   },
   [ProjectileType.Missile]: {
     type: ProjectileType.Missile,
+    fireSound: "missile-fire",
+    impactSound: "explosion",
     coreColor: "#f0f0f0",
     glowColor1: "rgba(255, 220, 120, 0.9)", // Engine glow
     glowColor2: "rgba(255, 150, 50, 0.6)", // Orange
@@ -104,6 +119,16 @@ export enum FrenzyStructureType {
   MiniHQ = "minihq",
 }
 
+/**
+ * Orders a player can give to a selected group of their own units
+ */
+export enum FrenzyUnitOrder {
+  Move = "move", // Walk to the point without engaging
+  AttackMove = "attack_move", // Walk to the point, fighting along the way
+  Hold = "hold", // Stay in place and fight whatever comes in range
+  Retreat = "retreat", // Fall back to the HQ without engaging
+}
+
 /**
  * Frenzy unit types
  * - Mobile: soldier, eliteSoldier, warship, transporter (move and attack)
@@ -189,277 +214,79 @@ export type StructureTypeKey =
   | "artillery";
 
 /**
- * Default structure configurations
- * All structures in one place for easy balancing
- */
-export const STRUCTURE_CONFIGS: Record<StructureTypeKey, StructureConfig> = {
-  // === Buildings (economic/production) ===
-  hq: {
-    buildCost: 0, // Not buildable
-    constructionTime: 0,
-    health: 1000,
-    size: 10,
-    minDistance: 25, // HQ has larger exclusion zone
-    maxTier: 2,
-    upgradeCost: 500000,
-    upgradeHealthBonus: 500,
-    requiredHQTier: 1,
-    sellRefundPercent: 0, // Cannot sell HQ
-    spawnInterval: 4.0,
-    bars: { showHealthBar: true, showEnergyBar: false },
-  },
-  mine: {
-    buildCost: 50000,
-    constructionTime: 50, // 5 seconds
-    health: 400,
-    size: 8,
-    minDistance: 20, // size * 2 + 4
-    maxTier: 2,
-    upgradeCost: 100000,
-    upgradeHealthBonus: 200,
-    requiredHQTier: 2,
-    sellRefundPercent: 50,
-    goldPerMinute: 10000,
-    tier2GoldMultiplier: 2,
-    bars: { showHealthBar: true, showEnergyBar: false },
-  },
-  factory: {
-    buildCost: 100000,
-    constructionTime: 20, // 2 seconds
-    health: 400,
-    size: 8,
-    minDistance: 20, // size * 2 + 4
-    maxTier: 2,
-    upgradeCost: 100000,
-    upgradeHealthBonus: 200,
-    requiredHQTier: 2,
-    sellRefundPercent: 50,
-    spawnInterval: 4.0,
-    bars: { showHealthBar: true, showEnergyBar: false },
-  },
-  port: {
-    buildCost: 100000,
-    constructionTime: 20, // 2 seconds
-    health: 400,
-    size: 8,
-    minDistance: 20, // size * 2 + 4
-    maxTier: 2,
-    upgradeCost: 100000,
-    upgradeHealthBonus: 200,
-    requiredHQTier: 2,
-    sellRefundPercent: 50,
-    spawnInterval: 4.0,
-    bars: { showHealthBar: true, showEnergyBar: false },
-  },
-
-  // === Towers (military/defensive) ===
-  defensePost: {
-    buildCost: 35000,
-    constructionTime: 50, // 5 seconds
-    health: 200,
-    size: 8,
-    minDistance: 20, // size * 2 + 4
-    maxTier: 2,
-    upgradeCost: 100000,
-    upgradeHealthBonus: 100,
-    requiredHQTier: 2,
-    sellRefundPercent: 50,
-    bars: { showHealthBar: true, showEnergyBar: false }, // No energy bar for defense posts
-  },
-  samLauncher: {
-    buildCost: 150000,
-    constructionTime: 100, // 10 seconds
-    health: 150,
-    size: 6.4,
-    minDistance: 17, // size * 2 + 4
-    maxTier: 2,
-    upgradeCost: 100000,
-    upgradeHealthBonus: 75,
-    requiredHQTier: 2,
-    sellRefundPercent: 50,
-    bars: { showHealthBar: true, showEnergyBar: false },
-  },
-  missileSilo: {
-    buildCost: 200000,
-    constructionTime: 100, // 10 seconds
-    health: 300,
-    size: 6,
-    minDistance: 16, // size * 2 + 4
-    maxTier: 2,
-    upgradeCost: 400000,
-    upgradeHealthBonus: 150,
-    requiredHQTier: 2,
-    sellRefundPercent: 50,
-    nukeCost: 200000, // Atom bomb cost
-    hydroCost: 1000000, // Hydrogen bomb cost
-    bars: { showHealthBar: true, showEnergyBar: false },
-  },
-  shieldGenerator: {
-    buildCost: 150000,
-    constructionTime: 150, // 15 seconds
-    health: 100,
-    size: 6.4,
-    minDistance: 17, // size * 2 + 4
-    maxTier: 2,
-    upgradeCost: 100000,
-    upgradeHealthBonus: 50,
-    requiredHQTier: 2,
-    sellRefundPercent: 50,
-    bars: { showHealthBar: true, showEnergyBar: true, energyBarType: "shield" }, // Shield HP bar
-  },
-  artillery: {
-    buildCost: 200000,
-    constructionTime: 100, // 10 seconds
-    health: 150,
-    size: 7,
-    minDistance: 18, // size * 2 + 4
-    maxTier: 2,
-    upgradeCost: 100000,
-    upgradeHealthBonus: 75,
-    requiredHQTier: 2,
-    sellRefundPercent: 50,
-    bars: { showHealthBar: true, showEnergyBar: true, energyBarType: "reload" }, // Reload bar
-  },
-
-  // === Airport (spawns transporters) ===
-  airport: {
-    buildCost: 150000,
-    constructionTime: 100, // 10 seconds
-    health: 300,
-    size: 8,
-    minDistance: 20, // size * 2 + 4
-    maxTier: 1, // Not upgradable
-    upgradeCost: 0,
-    upgradeHealthBonus: 0,
-    requiredHQTier: 1,
-    sellRefundPercent: 50,
-    spawnInterval: 60.0, // 1 minute rebuild time
-    bars: { showHealthBar: true, showEnergyBar: false },
-  },
-
-  // === MiniHQ (spawned by transporter landing) ===
-  minihq: {
-    buildCost: 0, // Cannot be built directly
-    constructionTime: 0, // Instant spawn
-    health: 200,
-    size: 6,
-    minDistance: 0, // No distance requirement
-    maxTier: 1, // Not upgradable
-    upgradeCost: 0,
-    upgradeHealthBonus: 0,
-    requiredHQTier: 1,
-    sellRefundPercent: 0, // Cannot be sold
-    captureRadius: 15, // Territory capture radius on spawn
-    bars: { showHealthBar: true, showEnergyBar: false },
-  },
-};
-
-/**
- * Get structure config by type key
- */
-export function getStructureConfig(type: StructureTypeKey): StructureConfig {
-  return STRUCTURE_CONFIGS[type];
-}
-
-/**
- * Get structure type key from FrenzyStructureType
- */
-export function structureTypeToKey(
-  type: FrenzyStructureType,
-): StructureTypeKey {
-  switch (type) {
-    case FrenzyStructureType.HQ:
-      return "hq";
-    case FrenzyStructureType.Mine:
-      return "mine";
-    case FrenzyStructureType.Factory:
-      return "factory";
-    case FrenzyStructureType.Port:
-      return "port";
-    case FrenzyStructureType.Airport:
-      return "airport";
-    case FrenzyStructureType.MiniHQ:
-      return "minihq";
-  }
-}
-
-/**
- * Get structure type key from FrenzyUnitType (for towers)
- */
-export function unitTypeToStructureKey(
-  type: FrenzyUnitType,
-): StructureTypeKey | null {
-  switch (type) {
-    case FrenzyUnitType.DefensePost:
-      return "defensePost";
-    case FrenzyUnitType.SAMLauncher:
-      return "samLauncher";
-    case FrenzyUnitType.MissileSilo:
-      return "missileSilo";
-    case FrenzyUnitType.ShieldGenerator:
-      return "shieldGenerator";
-    case FrenzyUnitType.Artillery:
-      return "artillery";
-    default:
-      return null; // Mobile units don't have structure configs
-  }
-}
-
-/**
- * Calculate sell value for a structure
- */
-export function getStructureSellValue(
-  type: StructureTypeKey,
-  tier: number = 1,
-): number {
-  const config = STRUCTURE_CONFIGS[type];
-  const baseCost = config.buildCost;
-  const upgradeCost = (tier - 1) * config.upgradeCost;
-  const totalInvested = baseCost + upgradeCost;
-  return Math.floor(totalInvested * (config.sellRefundPercent / 100));
-}
-
-/**
- * Check if a structure can be upgraded
- */
-export function canUpgradeStructureConfig(
-  type: StructureTypeKey,
-  currentTier: number,
-  hqTier: number,
-  playerGold: bigint,
-): boolean {
-  const config = STRUCTURE_CONFIGS[type];
-  if (currentTier >= config.maxTier) return false;
-  if (hqTier < config.requiredHQTier) return false;
-  if (playerGold < BigInt(config.upgradeCost)) return false;
-  return true;
-}
-
-/**
- * Get health for a structure at a specific tier
+ * Per-game changes to structure costs and tier limits (from GameConfig)
  */
-export function getStructureHealthForTier(
-  type: StructureTypeKey,
-  tier: number = 1,
-): number {
-  const config = STRUCTURE_CONFIGS[type];
-  return config.health + (tier - 1) * config.upgradeHealthBonus;
-}
+export type StructureOverrides = Partial<
+  Record<
+    StructureTypeKey,
+    Partial<Pick<StructureConfig, "buildCost" | "upgradeCost" | "maxTier">>
+  >
+>;
+
+// Upgrade code only distinguishes tier 1 from tier 2
+export const MAX_FRENZY_STRUCTURE_TIER = 2;
+
+// Every number in FrenzyConfig, bounded so rule sets can't overflow the simulation
+const FrenzyStat = z.number().nonnegative().max(1e9);
+
+// Structures whose costs and tier limits rule sets may change
+export const StructureOverridesSchema = z.partialRecord(
+  z.enum([
+    "mine",
+    "factory",
+    "port",
+    "airport",
+    "defensePost",
+    "samLauncher",
+    "missileSilo",
+    "shieldGenerator",
+    "artillery",
+  ]),
+  z
+    .object({
+      buildCost: FrenzyStat,
+      upgradeCost: FrenzyStat,
+      // 1 disables upgrades for the structure
+      maxTier: z.number().int().min(1).max(MAX_FRENZY_STRUCTURE_TIER),
+    })
+    .partial()
+    .strict(),
+);
 
 // Per-unit-type configuration
-export interface UnitTypeConfig {
-  health: number; // HP for this unit type
-  speed: number; // Movement speed (pixels/sec), 0 for stationary
-  dps: number; // Damage per second
-  range: number; // Combat range in pixels
-  fireInterval: number; // Seconds between shots
-  projectileDamage?: number; // If set, deals instant damage instead of DPS
-  projectileType?: ProjectileType; // Visual type of projectile (default: PlasmaOrb)
-  areaRadius?: number; // Area of effect radius for splash damage
-  shieldRadius?: number; // Shield protection radius
-  shieldHealth?: number; // Shield HP (regenerates when not taking damage)
-  shieldRegenTime?: number; // Seconds to fully regenerate shield from 0 to max
-}
+export const UnitTypeConfigSchema = z.object({
+  health: FrenzyStat, // HP for this unit type
+  speed: FrenzyStat, // Movement speed (pixels/sec), 0 for stationary
+  dps: FrenzyStat, // Damage per second
+  range: FrenzyStat, // Combat range in pixels
+  fireInterval: FrenzyStat, // Seconds between shots
+  projectileDamage: FrenzyStat.optional(), // If set, deals instant damage instead of DPS
+  projectileType: z.enum(ProjectileType).optional(), // Visual type of projectile (default: PlasmaOrb)
+  areaRadius: FrenzyStat.optional(), // Area of effect radius for splash damage
+  shieldRadius: FrenzyStat.optional(), // Shield protection radius
+  shieldHealth: FrenzyStat.optional(), // Shield HP (regenerates when not taking damage)
+  shieldRegenTime: FrenzyStat.optional(), // Seconds to fully regenerate shield from 0 to max
+});
+export type UnitTypeConfig = z.infer<typeof UnitTypeConfigSchema>;
+
+// Keys of FrenzyConfig.units, one per unit tier
+export const FrenzyUnitStatsKeySchema = z.enum([
+  // Mobile units
+  "soldier",
+  "eliteSoldier",
+  "warship",
+  "eliteWarship",
+  "transporter",
+  // Towers
+  "defensePost",
+  "eliteDefensePost",
+  "samLauncher",
+  "missileSilo",
+  "shieldGenerator",
+  "eliteShieldGenerator",
+  "artillery",
+  "eliteArtillery",
+]);
 
 export interface FrenzyUnit {
   id: number;
@@ -501,6 +328,9 @@ export interface FrenzyUnit {
   boardedUnits?: number[]; // IDs of units that have boarded
   maxBoardingCapacity?: number; // Max units that can board (default 5)
   isWaitingForBoarding?: boolean; // True while waiting for units to board
+  // Orders given to selected units (see FrenzyUnitOrder)
+  holdPosition?: boolean; // Stay put until given another order
+  holdFire?: boolean; // Don't engage while walking to the attack order target
 }
 
 export interface FrenzyProjectile {
@@ -607,331 +437,62 @@ export interface CrystalCluster {
   rotations: number[]; // Rotation angles in radians for each crystal (bottom anchored)
 }
 
-export interface FrenzyConfig {
+/**
+ * Frenzy rules. Host rule sets (GameConfig.frenzyOverrides) are validated
+ * against a partial of this schema, so adding a field here makes it overridable.
+ */
+export const FrenzyConfigSchema = z.object({
   // Unit type configurations
-  units: {
-    // Mobile units
-    soldier: UnitTypeConfig;
-    eliteSoldier: UnitTypeConfig;
-    warship: UnitTypeConfig;
-    eliteWarship: UnitTypeConfig;
-    transporter: UnitTypeConfig;
-    // Towers
-    defensePost: UnitTypeConfig;
-    eliteDefensePost: UnitTypeConfig;
-    samLauncher: UnitTypeConfig;
-    missileSilo: UnitTypeConfig;
-    shieldGenerator: UnitTypeConfig;
-    eliteShieldGenerator: UnitTypeConfig;
-    artillery: UnitTypeConfig;
-    eliteArtillery: UnitTypeConfig;
-  };
+  units: z.record(FrenzyUnitStatsKeySchema, UnitTypeConfigSchema),
 
   // Spawning
-  spawnInterval: number; // Seconds between spawns (default: 4.0)
-  maxUnitsPerPlayer: number; // Hard cap (default: 60)
-  maxWarshipsPerPlayer: number; // Ship cap (default: 20)
-  startingUnits: number; // Units at game start (default: 5)
+  spawnInterval: FrenzyStat, // Seconds between spawns (default: 4.0)
+  maxUnitsPerPlayer: FrenzyStat, // Hard cap (default: 60)
+  maxWarshipsPerPlayer: FrenzyStat, // Ship cap (default: 20)
+  startingUnits: FrenzyStat, // Units at game start (default: 5)
 
   // Movement & Territory
-  influenceRadius: number; // Territory control radius (default: 18px)
-  separationRadius: number; // Personal space from friendlies (default: 10px)
-  captureRadius: number; // Tiles around the unit that can be converted (default: 3)
-  radialAlignmentWeight: number; // Strength of radial bias toward centroid (default: 0.75)
-  borderAdvanceDistance: number; // How far past the border to push targets (default: 12px)
-  stopDistance: number; // Distance to stop before reaching target (default: 2px)
+  influenceRadius: FrenzyStat, // Territory control radius (default: 18px)
+  separationRadius: FrenzyStat, // Personal space from friendlies (default: 10px)
+  captureRadius: FrenzyStat, // Tiles around the unit that can be converted (default: 3)
+  radialAlignmentWeight: FrenzyStat, // Strength of radial bias toward centroid (default: 0.75)
+  borderAdvanceDistance: FrenzyStat, // How far past the border to push targets (default: 12px)
+  stopDistance: FrenzyStat, // Distance to stop before reaching target (default: 2px)
 
   // Projectiles
-  projectileSpeed: number; // Speed of visual shells (default: 140px/s)
-  projectileSize: number; // Diameter of visual shells in pixels (default: 4px)
+  projectileSpeed: FrenzyStat, // Speed of visual shells (default: 140px/s)
+  projectileSize: FrenzyStat, // Diameter of visual shells in pixels (default: 4px)
 
   // Nukes (Frenzy-specific damage)
-  nukeDamage: number; // Damage dealt by atom bombs (default: 500)
-  hydroDamage: number; // Damage dealt by hydrogen bombs (default: 1000)
+  nukeDamage: FrenzyStat, // Damage dealt by atom bombs (default: 500)
+  hydroDamage: FrenzyStat, // Damage dealt by hydrogen bombs (default: 1000)
 
   // Buildings - DEPRECATED: Use STRUCTURE_CONFIGS instead
   // Kept for backward compatibility
-  hqCaptureRadius: number; // Tiles around HQ that must fall before defeat (default: 2 tiles)
-  mineHealth: number; // HP for mines/factories (default: 400)
-  hqHealth: number; // HP for HQ (default: 1000)
+  hqCaptureRadius: FrenzyStat, // Tiles around HQ that must fall before defeat (default: 2 tiles)
+  mineHealth: FrenzyStat, // HP for mines/factories (default: 400)
+  hqHealth: FrenzyStat, // HP for HQ (default: 1000)
 
   // Economy - DEPRECATED: Use STRUCTURE_CONFIGS instead for costs
   // Kept for backward compatibility
-  startingGold: number; // Gold at spawn (default: 150000)
-  baseGoldPerMinute: number; // Base gold income per minute (default: 20000)
-  mineGoldPerMinute: number; // Gold per mine per minute (default: 10000 for tier 1)
-  mineCost: number; // Fixed cost for mines (default: 50000)
-  mineUpgradeCost: number; // Cost to upgrade mine to tier 2 (default: 100000)
-  factoryCost: number; // Fixed cost for factories (default: 100000)
-  factoryUpgradeCost: number; // Cost to upgrade factory to tier 2 (default: 100000)
-
-  // Crystals (resources)
-  crystalClusterCount: number; // Number of crystal clusters to spawn (default: 50)
-  crystalGoldBonus: number; // Extra gold per crystal per 10s interval (default: 1000)
-  mineGoldInterval: number; // Seconds between mine gold payouts (default: 10)
-  mineRadius: number; // Max radius of mine Voronoi territory in pixels (default: 40)
-}
-
-// Helper to get unit config by type
-export function getUnitConfig(
-  config: FrenzyConfig,
-  unitType: FrenzyUnitType,
-): UnitTypeConfig {
-  switch (unitType) {
-    case FrenzyUnitType.Soldier:
-      return config.units.soldier;
-    case FrenzyUnitType.EliteSoldier:
-      return config.units.eliteSoldier;
-    case FrenzyUnitType.Warship:
-      return config.units.warship;
-    case FrenzyUnitType.Transporter:
-      return config.units.transporter;
-    case FrenzyUnitType.DefensePost:
-      return config.units.defensePost;
-    case FrenzyUnitType.SAMLauncher:
-      return config.units.samLauncher;
-    case FrenzyUnitType.MissileSilo:
-      return config.units.missileSilo;
-    case FrenzyUnitType.ShieldGenerator:
-      return config.units.shieldGenerator;
-    case FrenzyUnitType.Artillery:
-      return config.units.artillery;
-    default:
-      return config.units.soldier;
-  }
-}
-
-export const DEFAULT_FRENZY_CONFIG: FrenzyConfig = {
-  // Unit configurations
-  units: {
-    // Mobile units
-    soldier: {
-      health: 100,
-      speed: 2.5,
-      dps: 15,
-      range: 25,
-      fireInterval: 1,
-      projectileType: ProjectileType.PlasmaOrb,
-    },
-    eliteSoldier: {
-      health: 150, // 1.5x soldier health
-      speed: 2.25, // 10% slower than soldier
-      dps: 15,
-      range: 37.5, // 1.5x soldier range
-      fireInterval: 1,
-      projectileType: ProjectileType.GoldenOrb,
-    },
-    warship: {
-      health: 250, // Tough naval unit
-      speed: 2.0, // Slower than land units
-      dps: 20, // Strong damage
-      range: 50, // Long range - can hit land from water
-      fireInterval: 1.5, // Moderate fire rate
-      projectileDamage: 50, // Good projectile damage
-      projectileType: ProjectileType.Laser, // Always use lasers
-    },
-    eliteWarship: {
-      health: 375, // 1.5x warship health (250 * 1.5)
-      speed: 2.0, // Same speed as tier 1
-      dps: 30, // 1.5x warship dps
-      range: 300, // 2x warship range (45 * 2) - long range missiles
-      fireInterval: 8.0, // Slow reload (fires barrages)
-      projectileDamage: 30, // Per-missile damage (fires 2x5 = 10 missiles)
-      areaRadius: 5, // Small AOE per missile
-      projectileType: ProjectileType.Missile, // Missile barrages
-    },
-    transporter: {
-      health: 150, // Moderate health
-      speed: 10.0, // Double soldier speed (2.5 * 2)
-      dps: 0, // No attack
-      range: 0, // No attack range
-      fireInterval: 0, // No firing
-    },
-    // Towers - health values come from STRUCTURE_CONFIGS
-    defensePost: {
-      health: STRUCTURE_CONFIGS.defensePost.health,
-      speed: 0, // Stationary
-      dps: 0, // Uses projectileDamage instead
-      range: 30, // Same as soldier (tier 2: 37.5)
-      fireInterval: 0.5, // Double soldier fire rate (tier 2: 4.0)
-      projectileDamage: 20, // Same as soldier damage (tier 2: 100, one-shots units)
-      projectileType: ProjectileType.GreenOrb, // Always use green orbs
-    },
-    eliteDefensePost: {
-      health:
-        STRUCTURE_CONFIGS.defensePost.health +
-        STRUCTURE_CONFIGS.defensePost.upgradeHealthBonus, // tier 2 health
-      speed: 0, // Stationary
-      dps: 0, // Uses projectileDamage instead
-      range: 50, // 1.5x defense post range
-      fireInterval: 4.0, // Slower but one-shots
-      projectileDamage: 100, // One-shots most units
-      projectileType: ProjectileType.Laser, // Tier 2: red beam
-    },
-    samLauncher: {
-      health: STRUCTURE_CONFIGS.samLauncher.health,
-      speed: 0, // Stationary
-      dps: 0, // Uses projectileDamage instead
-      range: 60, // Good anti-air range
-      fireInterval: 2.0, // Moderate fire rate
-      projectileDamage: 100, // High damage to aircraft
-      projectileType: ProjectileType.Missile,
-    },
-    missileSilo: {
-      health: STRUCTURE_CONFIGS.missileSilo.health,
-      speed: 0, // Stationary
-      dps: 0, // Uses missiles
-      range: 0, // Global range via missiles
-      fireInterval: 0, // Manual launching
-    },
-    shieldGenerator: {
-      health: STRUCTURE_CONFIGS.shieldGenerator.health,
-      speed: 0, // Stationary
-      dps: 0, // No attack
-      range: 0, // No attack range
-      fireInterval: 0, // No firing
-      shieldRadius: 30, // Protection radius
-      shieldHealth: 1500, // Shield absorbs 500 damage before breaking
-      shieldRegenTime: 10, // 10 seconds to fully regenerate
-    },
-    eliteShieldGenerator: {
-      health:
-        STRUCTURE_CONFIGS.shieldGenerator.health +
-        STRUCTURE_CONFIGS.shieldGenerator.upgradeHealthBonus, // tier 2 health
-      speed: 0, // Stationary
-      dps: 0, // No attack
-      range: 0, // No attack range
-      fireInterval: 0, // No firing
-      shieldRadius: 45, // 1.5x protection radius
-      shieldHealth: 3000, // 2x shield HP
-      shieldRegenTime: 12, // Faster regen (12 seconds)
-    },
-    artillery: {
-      health: STRUCTURE_CONFIGS.artillery.health,
-      speed: 0, // Stationary
-      dps: 0, // Uses projectileDamage instead
-      range: 80, // Very long range
-      fireInterval: 8.0, // Very slow firing, long cooldown
-      projectileDamage: 100, // High damage
-      areaRadius: 15, // Splash damage radius
-      projectileType: ProjectileType.Artillery,
-    },
-    eliteArtillery: {
-      health:
-        STRUCTURE_CONFIGS.artillery.health +
-        STRUCTURE_CONFIGS.artillery.upgradeHealthBonus, // tier 2 health
-      speed: 0, // Stationary
-      dps: 0, // Uses projectileDamage instead
-      range: 120, // 1.5x range
-      fireInterval: 8.0, // Faster firing
-      projectileDamage: 150, // 1.5x damage
-      areaRadius: 30, // Larger splash radius (~1.5x)
-      projectileType: ProjectileType.Artillery,
-    },
-  },
-
-  // Spawning
-  spawnInterval: 4.0,
-  maxUnitsPerPlayer: 150,
-  maxWarshipsPerPlayer: 20,
-  startingUnits: 5,
-
-  // Movement & Territory
-  influenceRadius: 9,
-  separationRadius: 5,
-  captureRadius: 10,
-  radialAlignmentWeight: 0.75,
-  borderAdvanceDistance: 0.5,
-  stopDistance: 1,
-
-  // Projectiles
-  projectileSpeed: 10,
-  projectileSize: 1,
+  startingGold: FrenzyStat, // Gold at spawn (default: 150000)
+  baseGoldPerMinute: FrenzyStat, // Base gold income per minute (default: 20000)
+  mineGoldPerMinute: FrenzyStat, // Gold per mine per minute (default: 10000 for tier 1)
+  mineCost: FrenzyStat, // Fixed cost for mines (default: 50000)
+  mineUpgradeCost: FrenzyStat, // Cost to upgrade mine to tier 2 (default: 100000)
+  factoryCost: FrenzyStat, // Fixed cost for factories (default: 100000)
+  factoryUpgradeCost: FrenzyStat, // Cost to upgrade factory to tier 2 (default: 100000)
 
-  // Nukes (Frenzy-specific damage)
-  nukeDamage: 500,
-  hydroDamage: 1000,
-
-  // Buildings - values now come from STRUCTURE_CONFIGS
-  hqCaptureRadius: 2,
-  mineHealth: STRUCTURE_CONFIGS.mine.health,
-  hqHealth: STRUCTURE_CONFIGS.hq.health,
-
-  // Economy - values now come from STRUCTURE_CONFIGS
-  startingGold: 150000,
-  baseGoldPerMinute: 20000,
-  mineGoldPerMinute: STRUCTURE_CONFIGS.mine.goldPerMinute!,
-  mineCost: STRUCTURE_CONFIGS.mine.buildCost,
-  mineUpgradeCost: STRUCTURE_CONFIGS.mine.upgradeCost,
-  factoryCost: STRUCTURE_CONFIGS.factory.buildCost,
-  factoryUpgradeCost: STRUCTURE_CONFIGS.factory.upgradeCost,
+  // Structure costs and tier limits over STRUCTURE_CONFIGS (host rule sets)
+  structures: StructureOverridesSchema.optional(),
 
   // Crystals (resources)
-  crystalClusterCount: 50,
-  crystalGoldBonus: 1000,
-  mineGoldInterval: 10,
-  mineRadius: 40,
-};
-
-/**
- * Structure upgrade configuration - DEPRECATED
- * Use STRUCTURE_CONFIGS instead
- * Kept for backward compatibility
- */
-export interface StructureUpgradeInfo {
-  requiredHQTier: number; // Minimum HQ tier required to upgrade this structure
-  upgradeCost: number; // Gold cost for upgrade
-  maxTier: number; // Maximum tier for this structure
-}
-
-/**
- * DEPRECATED: Use STRUCTURE_CONFIGS instead
- * Structure upgrade configurations for all upgradable structures
- */
-export const STRUCTURE_UPGRADES: Record<string, StructureUpgradeInfo> = {
-  // Buildings
-  mine: {
-    requiredHQTier: STRUCTURE_CONFIGS.mine.requiredHQTier,
-    upgradeCost: STRUCTURE_CONFIGS.mine.upgradeCost,
-    maxTier: STRUCTURE_CONFIGS.mine.maxTier,
-  },
-  factory: {
-    requiredHQTier: STRUCTURE_CONFIGS.factory.requiredHQTier,
-    upgradeCost: STRUCTURE_CONFIGS.factory.upgradeCost,
-    maxTier: STRUCTURE_CONFIGS.factory.maxTier,
-  },
-  port: {
-    requiredHQTier: STRUCTURE_CONFIGS.port.requiredHQTier,
-    upgradeCost: STRUCTURE_CONFIGS.port.upgradeCost,
-    maxTier: STRUCTURE_CONFIGS.port.maxTier,
-  },
-  // Towers
-  defensePost: {
-    requiredHQTier: STRUCTURE_CONFIGS.defensePost.requiredHQTier,
-    upgradeCost: STRUCTURE_CONFIGS.defensePost.upgradeCost,
-    maxTier: STRUCTURE_CONFIGS.defensePost.maxTier,
-  },
-  sam: {
-    requiredHQTier: STRUCTURE_CONFIGS.samLauncher.requiredHQTier,
-    upgradeCost: STRUCTURE_CONFIGS.samLauncher.upgradeCost,
-    maxTier: STRUCTURE_CONFIGS.samLauncher.maxTier,
-  },
-  shield: {
-    requiredHQTier: STRUCTURE_CONFIGS.shieldGenerator.requiredHQTier,
-    upgradeCost: STRUCTURE_CONFIGS.shieldGenerator.upgradeCost,
-    maxTier: STRUCTURE_CONFIGS.shieldGenerator.maxTier,
-  },
-  artillery: {
-    requiredHQTier: STRUCTURE_CONFIGS.artillery.requiredHQTier,
-    upgradeCost: STRUCTURE_CONFIGS.artillery.upgradeCost,
-    maxTier: STRUCTURE_CONFIGS.artillery.maxTier,
-  },
-  silo: {
-    requiredHQTier: STRUCTURE_CONFIGS.missileSilo.requiredHQTier,
-    upgradeCost: STRUCTURE_CONFIGS.missileSilo.upgradeCost,
-    maxTier: STRUCTURE_CONFIGS.missileSilo.maxTier,
-  },
-};
+  crystalClusterCount: FrenzyStat, // Number of crystal clusters to spawn (default: 50)
+  crystalGoldBonus: FrenzyStat, // Extra gold per crystal per 10s interval (default: 1000)
+  mineGoldInterval: FrenzyStat, // Seconds between mine gold payouts (default: 10)
+  mineRadius: FrenzyStat, // Max radius of mine Voronoi territory in pixels (default: 40)
+});
+export type FrenzyConfig = z.infer<typeof FrenzyConfigSchema>;
 
 export enum Stance {
   ATTACK = "ATTACK",
@@ -0,0 +1,163 @@
+import {
+  frenzyBuildingDefinition,
+  frenzyUnitDefinition,
+} from "./FrenzyRegistry";
+
+// For names the registry does not know
+const DEFAULT_SIGHT_RADIUS = 40;
+
+// Side of a vision grid cell in pixels
+export const VISION_CELL_SIZE = 8;
+
+export interface VisionSource {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export function unitSightRadius(unitType: string): number {
+  return frenzyUnitDefinition(unitType)?.sightRadius ?? DEFAULT_SIGHT_RADIUS;
+}
+
+export function structureSightRadius(type: string): number {
+  return frenzyBuildingDefinition(type)?.sightRadius ?? DEFAULT_SIGHT_RADIUS;
+}
+
+/**
+ * What one side can see under the fog of war rule. Territory owned by the
+ * side is always in sight; units and structures reveal a circle around them,
+ * tracked on a coarse grid.
+ *
+ * Only the presentation uses this. The simulation stays full-state, so
+ * clients never disagree about the game, only about what they draw.
+ */
+export class FrenzyVision {
+  readonly cols: number;
+  readonly rows: number;
+  private cells: Uint8Array;
+  private friendly = new Set<string>();
+  // Bumped on every update, so renderers can cache derived images
+  version = 0;
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    private readonly ownsTile: (x: number, y: number) => boolean,
+    readonly cellSize: number = VISION_CELL_SIZE,
+  ) {
+    this.cols = Math.ceil(width / cellSize);
+    this.rows = Math.ceil(height / cellSize);
+    this.cells = new Uint8Array(this.cols * this.rows);
+  }
+
+  /**
+   * Recomputes vision for the players in `friendly` (the viewer, allies and
+   * teammates) from their units and structures.
+   */
+  update(friendly: Iterable<string>, sources: Iterable<VisionSource>) {
+    this.friendly = new Set(friendly);
+    this.cells.fill(0);
+    const cs = this.cellSize;
+    for (const { x, y, radius } of sources) {
+      // Cells whose centre is within reach, plus half a cell of slack
+      const reach = radius + cs / 2;
+      const minCol = Math.max(0, Math.floor((x - reach) / cs));
+      const maxCol = Math.min(this.cols - 1, Math.floor((x + reach) / cs));
+      const minRow = Math.max(0, Math.floor((y - reach) / cs));
+      const maxRow = Math.min(this.rows - 1, Math.floor((y + reach) / cs));
+      for (let row = minRow; row <= maxRow; row++) {
+        const dy = (row + 0.5) * cs - y;
+        for (let col = minCol; col <= maxCol; col++) {
+          const dx = (col + 0.5) * cs - x;
+          if (dx * dx + dy * dy <= reach * reach) {
+            this.cells[row * this.cols + col] = 1;
+          }
+        }
+      }
+    }
+    this.version++;
+  }
+
+  isFriendly(playerId: string): boolean {
+    return this.friendly.has(playerId);
+  }
+
+  isVisible(x: number, y: number): boolean {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) {
+      return false;
+    }
+    const col = Math.floor(x / this.cellSize);
+    const row = Math.floor(y / this.cellSize);
+    return (
+      this.cells[row * this.cols + col] === 1 ||
+      this.ownsTile(Math.floor(x), Math.floor(y))
+    );
+  }
+
+  // Friendly things are always drawn; enemy ones only in sight
+  canSee(entity: { x: number; y: number; playerId: string }): boolean {
+    return (
+      this.isFriendly(entity.playerId) || this.isVisible(entity.x, entity.y)
+    );
+  }
+
+  // Whether the centre of a grid cell is in sight, for drawing the fog
+  isCellVisible(col: number, row: number): boolean {
+    return this.isVisible(
+      (col + 0.5) * this.cellSize,
+      (row + 0.5) * this.cellSize,
+    );
+  }
+}
+
+interface Remembered {
+  type: string;
+  x: number;
+  y: number;
+  playerId: string;
+}
+
+/**
+ * Last known enemy structures. Structures out of sight are drawn as ghosts
+ * in the state they were last seen in, until their spot is seen again.
+ */
+export class StructureMemory<S extends Remembered> {
+  private seen = new Map<string, S>();
+
+  /**
+   * Records the enemy structures in sight and returns the ghosts: remembered
+   * structures that are out of sight now.
+   */
+  update(structures: S[], vision: FrenzyVision): S[] {
+    const present = new Set<string>();
+    for (const s of structures) {
+      const key = this.key(s);
+      present.add(key);
+      if (vision.isFriendly(s.playerId)) {
+        // Captured since it was last seen
+        this.seen.delete(key);
+      } else if (vision.isVisible(s.x, s.y)) {
+        this.seen.set(key, s);
+      }
+    }
+    const ghosts: S[] = [];
+    for (const [key, s] of this.seen) {
+      if (!vision.isVisible(s.x, s.y)) {
+        ghosts.push(s);
+      } else if (!present.has(key)) {
+        // Destroyed since it was last seen
+        this.seen.delete(key);
+      }
+    }
+    return ghosts;
+  }
+
+  clear() {
+    this.seen.clear();
+  }
+
+  // Structures never move, so type and position identify them
+  private key(s: S): string {
+    return `${s.type}:${s.x}:${s.y}`;
+  }
+}
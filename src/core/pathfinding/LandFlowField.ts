@@ -0,0 +1,86 @@
+import { GameMap, TileRef } from "../game/GameMap";
+import { LandHPAPathFinder } from "./LandHPAPathFinder";
+
+// Orthogonal steps first, so they win ties against diagonals
+const NEIGHBOR_OFFSETS: ReadonlyArray<readonly [number, number]> = [
+  [0, -1],
+  [0, 1],
+  [-1, 0],
+  [1, 0],
+  [-1, -1],
+  [1, -1],
+  [-1, 1],
+  [1, 1],
+];
+
+/**
+ * Distances to one goal over the mini map, built by
+ * LandHPAPathFinder.flowField(). Any number of units can sample it for their
+ * next step instead of planning a route each; a cluster's distances are
+ * only computed once a unit in or next to it asks.
+ *
+ * Distances depend on the goal and the terrain alone, so a field gives the
+ * same answers however much of it was computed before.
+ */
+export class LandFlowField {
+  private clusters = new Map<number, Float32Array>();
+
+  constructor(
+    private readonly hpa: LandHPAPathFinder,
+    private readonly miniMap: GameMap,
+    readonly goal: TileRef,
+    private readonly nodeCost: Float64Array,
+  ) {}
+
+  /** Steps from a mini-map tile to the goal, Infinity if unreachable. */
+  cost(tile: TileRef): number {
+    const clusterId = this.hpa.clusterIdForTile(tile);
+    let costs = this.clusters.get(clusterId);
+    if (costs === undefined) {
+      costs = this.hpa.integrateCluster(clusterId, this.goal, this.nodeCost);
+      this.clusters.set(clusterId, costs);
+    }
+    return costs[this.hpa.clusterLocalIndex(clusterId, tile)];
+  }
+
+  /**
+   * The neighboring land tile closest to the goal, or null at the goal and
+   * where the goal cannot be reached. Diagonal steps never cut a corner of
+   * water.
+   */
+  next(tile: TileRef): TileRef | null {
+    const here = this.cost(tile);
+    if (here === 0 || here === Infinity) return null;
+
+    const x = this.miniMap.x(tile);
+    const y = this.miniMap.y(tile);
+    let best: TileRef | null = null;
+    let bestCost = here;
+    for (const [dx, dy] of NEIGHBOR_OFFSETS) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (!this.miniMap.isValidCoord(nx, ny)) continue;
+      const neighbor = this.miniMap.ref(nx, ny);
+      if (!this.miniMap.isLand(neighbor)) continue;
+      if (
+        dx !== 0 &&
+        dy !== 0 &&
+        (!this.miniMap.isLand(this.miniMap.ref(nx, y)) ||
+          !this.miniMap.isLand(this.miniMap.ref(x, ny)))
+      ) {
+        continue;
+      }
+      const c = this.cost(neighbor);
+      if (c < bestCost) {
+        best = neighbor;
+        bestCost = c;
+      }
+    }
+    return best;
+  }
+
+  /** Clusters whose distances were computed so far. */
+  computedClusters(): number {
+    return this.clusters.size;
+  }
+}
@@ -1,6 +1,7 @@
 import FastPriorityQueue from "fastpriorityqueue";
 
 import { GameMap, TileRef } from "../game/GameMap";
+import { LandFlowField } from "./LandFlowField";
 
 export type LandHPAOptions = {
   clusterSize?: number;
@@ -160,6 +161,127 @@ export class LandHPAPathFinder {
     return null;
   }
 
+  /**
+   * Distances to `goal` from every tile, shared by all units heading there.
+   * Entrance distances come from one Dijkstra over the abstract graph; the
+   * tiles of a cluster are filled in when a unit first samples it.
+   *
+   * Returns null if the goal is not land.
+   */
+  flowField(goal: TileRef): LandFlowField | null {
+    if (!this.miniMap.isLand(goal)) return null;
+
+    const nodeCost = new Float64Array(this.nodeTile.length).fill(Infinity);
+    const open = new FastPriorityQueue<{ id: number; g: number }>(
+      (a, b) => a.g < b.g,
+    );
+    const goalLinks = this.distancesToClusterEntrances(
+      this.clusterIdForTile(goal),
+      goal,
+    );
+    for (const [id, d] of goalLinks) {
+      nodeCost[id] = d;
+      open.add({ id, g: d });
+    }
+
+    // Edges are symmetric, so distances from the goal are distances to it
+    while (!open.isEmpty()) {
+      const { id, g } = open.poll()!;
+      if (g > nodeCost[id]) continue;
+      for (const e of this.edges[id]) {
+        const next = g + e.cost;
+        if (next < nodeCost[e.to]) {
+          nodeCost[e.to] = next;
+          open.add({ id: e.to, g: next });
+        }
+      }
+    }
+
+    return new LandFlowField(this, this.miniMap, goal, nodeCost);
+  }
+
+  /**
+   * Distances to a flow field's goal for the tiles of one cluster, indexed
+   * by clusterLocalIndex(); Infinity where the goal cannot be reached.
+   * Seeded with the cluster's entrances, and the goal if it is inside.
+   */
+  integrateCluster(
+    clusterId: number,
+    goal: TileRef,
+    nodeCost: Float64Array,
+  ): Float32Array {
+    const bounds = this.clusterBounds(clusterId);
+    const w = bounds.width;
+    const cost = new Float32Array(w * bounds.height).fill(Infinity);
+    const open = new FastPriorityQueue<{ idx: number; g: number }>(
+      (a, b) => a.g < b.g,
+    );
+
+    const seed = (tile: TileRef, g: number) => {
+      const idx = this.clusterLocalIndex(clusterId, tile);
+      if (g < cost[idx]) {
+        cost[idx] = g;
+        open.add({ idx, g });
+      }
+    };
+    for (const nodeId of this.clusterNodes[clusterId]) {
+      if (nodeCost[nodeId] !== Infinity) {
+        seed(this.nodeTile[nodeId], nodeCost[nodeId]);
+      }
+    }
+    if (this.clusterIdForTile(goal) === clusterId) {
+      seed(goal, 0);
+    }
+
+    while (!open.isEmpty()) {
+      const { idx, g } = open.poll()!;
+      if (g > cost[idx]) continue;
+      const x = bounds.x0 + (idx % w);
+      const y = bounds.y0 + Math.floor(idx / w);
+
+      const relax = (nx: number, ny: number) => {
+        if (
+          nx < bounds.x0 ||
+          nx > bounds.x1 ||
+          ny < bounds.y0 ||
+          ny > bounds.y1
+        ) {
+          return;
+        }
+        if (!this.miniMap.isLand(this.miniMap.ref(nx, ny))) return;
+        const local = (ny - bounds.y0) * w + (nx - bounds.x0);
+        if (g + 1 < cost[local]) {
+          cost[local] = g + 1;
+          open.add({ idx: local, g: g + 1 });
+        }
+      };
+
+      relax(x, y - 1);
+      relax(x, y + 1);
+      relax(x - 1, y);
+      relax(x + 1, y);
+    }
+
+    return cost;
+  }
+
+  clusterIdForTile(tile: TileRef): number {
+    const x = this.miniMap.x(tile);
+    const y = this.miniMap.y(tile);
+    const cx = Math.floor(x / this.clusterSize);
+    const cy = Math.floor(y / this.clusterSize);
+    return cy * this.clusterCols + cx;
+  }
+
+  /** Index of a tile within its cluster, row by row. */
+  clusterLocalIndex(clusterId: number, tile: TileRef): number {
+    const bounds = this.clusterBounds(clusterId);
+    return (
+      (this.miniMap.y(tile) - bounds.y0) * bounds.width +
+      (this.miniMap.x(tile) - bounds.x0)
+    );
+  }
+
   /**
    * Convert a mini-map path to a full-res game-map waypoint list, attempting to keep points on land.
    */
@@ -301,14 +423,6 @@ export class LandHPAPathFinder {
     }
   }
 
-  private clusterIdForTile(tile: TileRef): number {
-    const x = this.miniMap.x(tile);
-    const y = this.miniMap.y(tile);
-    const cx = Math.floor(x / this.clusterSize);
-    const cy = Math.floor(y / this.clusterSize);
-    return cy * this.clusterCols + cx;
-  }
-
   private clusterBounds(clusterId: number): ClusterBounds {
     const cx = clusterId % this.clusterCols;
     const cy = Math.floor(clusterId / this.clusterCols);
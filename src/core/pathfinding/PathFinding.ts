@@ -110,9 +110,13 @@ export class PathFinder {
   private aStar: AStar<TileRef>;
   private computeFinished = true;
 
+  // Search settings are kept as data, not a closure, so a PathFinder can be
+  // copied into game checkpoints and snapshots
   private constructor(
     private game: Game,
-    private newAStar: (curr: TileRef, dst: TileRef) => AStar<TileRef>,
+    private iterations: number,
+    private waterPath: boolean,
+    private maxTries: number,
   ) {}
 
   public static Mini(
@@ -121,17 +125,19 @@ export class PathFinder {
     waterPath: boolean = true,
     maxTries: number = 20,
   ) {
-    return new PathFinder(game, (curr: TileRef, dst: TileRef) => {
-      return new MiniAStar(
-        game.map(),
-        game.miniMap(),
-        curr,
-        dst,
-        iterations,
-        maxTries,
-        waterPath,
-      );
-    });
+    return new PathFinder(game, iterations, waterPath, maxTries);
+  }
+
+  private newAStar(curr: TileRef, dst: TileRef): AStar<TileRef> {
+    return new MiniAStar(
+      this.game.map(),
+      this.game.miniMap(),
+      curr,
+      dst,
+      this.iterations,
+      this.maxTries,
+      this.waterPath,
+    );
   }
 
   nextTile(
@@ -11,6 +11,11 @@ export interface GraphAdapter<NodeType> {
   isTraversable(from: NodeType, to: NodeType): boolean;
 }
 
+// Module level rather than inline so game snapshots can name it
+export function byFScore<T extends { fScore: number }>(a: T, b: T) {
+  return a.fScore < b.fScore;
+}
+
 export class SerialAStar<NodeType> implements AStar<NodeType> {
   private fwdOpenSet: FastPriorityQueue<{
     tile: NodeType;
@@ -39,8 +44,8 @@ export class SerialAStar<NodeType> implements AStar<NodeType> {
     private graph: GraphAdapter<NodeType>,
     private directionChangePenalty: number = 0,
   ) {
-    this.fwdOpenSet = new FastPriorityQueue((a, b) => a.fScore < b.fScore);
-    this.bwdOpenSet = new FastPriorityQueue((a, b) => a.fScore < b.fScore);
+    this.fwdOpenSet = new FastPriorityQueue(byFScore);
+    this.bwdOpenSet = new FastPriorityQueue(byFScore);
     this.sources = Array.isArray(src) ? src : [src];
     this.closestSource = this.findClosestSource(dst);
 
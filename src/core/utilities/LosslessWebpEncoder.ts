@@ -0,0 +1,381 @@
+/**
+ * Small lossless WebP (VP8L) writer for map thumbnails. Its only transform is
+ * a palette for images with few colors, it has no color cache and one set of
+ * prefix codes for the whole image, and backward references only copy runs
+ * from the pixel to the left or the row above. That is enough for
+ * flat-shaded terrain images.
+ */
+
+const MAX_DIMENSION = 1 << 14;
+const GREEN_ALPHABET = 256 + 24;
+const DISTANCE_ALPHABET = 40;
+const MAX_CODE_LENGTH = 15;
+const MAX_CODE_LENGTH_CODE_LENGTH = 7;
+const MAX_PALETTE_SIZE = 256;
+const COLOR_INDEXING_TRANSFORM = 3;
+const MIN_COPY_LENGTH = 3;
+const MAX_COPY_LENGTH = 4096;
+// Distance codes for the pixel above and the pixel to the left
+const DISTANCE_ABOVE = 1;
+const DISTANCE_LEFT = 2;
+const CODE_LENGTH_ORDER = [
+  17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15,
+];
+
+class BitWriter {
+  private bytes: number[] = [];
+  private current = 0;
+  private used = 0;
+
+  write(value: number, bits: number) {
+    for (let i = 0; i < bits; i++) {
+      this.current |= ((value >>> i) & 1) << this.used;
+      if (++this.used === 8) {
+        this.bytes.push(this.current);
+        this.current = 0;
+        this.used = 0;
+      }
+    }
+  }
+
+  finish(): Uint8Array {
+    if (this.used > 0) this.bytes.push(this.current);
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+interface PrefixCode {
+  lengths: number[];
+  codes: number[];
+}
+
+// Huffman code lengths for `counts`, flattening the histogram until no code
+// is longer than `maxLength`
+function codeLengths(counts: number[], maxLength: number): number[] {
+  let weights = counts.slice();
+  for (;;) {
+    const lengths = new Array<number>(counts.length).fill(0);
+    type Node = { weight: number; symbols: number[] };
+    const nodes: Node[] = [];
+    weights.forEach((weight, symbol) => {
+      if (weight > 0) nodes.push({ weight, symbols: [symbol] });
+    });
+    while (nodes.length > 1) {
+      nodes.sort((a, b) => a.weight - b.weight);
+      const [a, b] = nodes.splice(0, 2);
+      for (const symbol of [...a.symbols, ...b.symbols]) lengths[symbol]++;
+      nodes.push({
+        weight: a.weight + b.weight,
+        symbols: [...a.symbols, ...b.symbols],
+      });
+    }
+    if (Math.max(...lengths) <= maxLength) return lengths;
+    weights = weights.map((w) => (w > 0 ? (w >> 1) | 1 : 0));
+  }
+}
+
+// Canonical codes, bit-reversed because the stream is read LSB first
+function prefixCode(lengths: number[]): PrefixCode {
+  const lengthCounts = new Array<number>(MAX_CODE_LENGTH + 1).fill(0);
+  for (const length of lengths) if (length > 0) lengthCounts[length]++;
+  const next = new Array<number>(MAX_CODE_LENGTH + 1).fill(0);
+  let code = 0;
+  for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+    code = (code + lengthCounts[length - 1]) << 1;
+    next[length] = code;
+  }
+  const codes = lengths.map((length) => {
+    if (length === 0) return 0;
+    const value = next[length]++;
+    let reversed = 0;
+    for (let i = 0; i < length; i++) {
+      reversed |= ((value >> i) & 1) << (length - 1 - i);
+    }
+    return reversed;
+  });
+  return { lengths, codes };
+}
+
+// A complete code needs two symbols; pad a one-symbol histogram
+function withTwoSymbols(counts: number[]): number[] {
+  const used = counts.filter((c) => c > 0).length;
+  if (used >= 2) return counts;
+  const padded = counts.slice();
+  padded[padded[0] > 0 ? 1 : 0] = 1;
+  return padded;
+}
+
+function writePrefixCode(writer: BitWriter, counts: number[]): PrefixCode {
+  const used = counts.flatMap((c, symbol) => (c > 0 ? [symbol] : []));
+  if (used.length <= 1 && (used[0] ?? 0) < 256) {
+    // Simple code with a single symbol: it costs no bits per pixel
+    const symbol = used[0] ?? 0;
+    writer.write(1, 1);
+    writer.write(0, 1);
+    writer.write(1, 1);
+    writer.write(symbol, 8);
+    return {
+      lengths: counts.map(() => 0),
+      codes: counts.map(() => 0),
+    };
+  }
+
+  const code = prefixCode(codeLengths(withTwoSymbols(counts), MAX_CODE_LENGTH));
+  const lengthCounts = new Array<number>(19).fill(0);
+  for (const length of code.lengths) lengthCounts[length]++;
+  const lengthCode = prefixCode(
+    codeLengths(withTwoSymbols(lengthCounts), MAX_CODE_LENGTH_CODE_LENGTH),
+  );
+
+  let written = CODE_LENGTH_ORDER.length;
+  while (
+    written > 4 &&
+    lengthCode.lengths[CODE_LENGTH_ORDER[written - 1]] === 0
+  ) {
+    written--;
+  }
+  writer.write(0, 1);
+  writer.write(written - 4, 4);
+  for (let i = 0; i < written; i++) {
+    writer.write(lengthCode.lengths[CODE_LENGTH_ORDER[i]], 3);
+  }
+  // Every symbol's length follows, so no max_symbol
+  writer.write(0, 1);
+  for (const length of code.lengths) {
+    writer.write(lengthCode.codes[length], lengthCode.lengths[length]);
+  }
+  return code;
+}
+
+// A pixel literal, or a copy of `length` pixels from `distance` code away
+type Token =
+  | { pixel: number }
+  | { length: number; distance: typeof DISTANCE_ABOVE | typeof DISTANCE_LEFT };
+
+interface PrefixValue {
+  prefix: number;
+  extraBits: number;
+  extra: number;
+}
+
+// Lengths and distances are a prefix symbol plus extra bits
+function prefixValue(value: number): PrefixValue {
+  const d = value - 1;
+  if (d < 4) return { prefix: d, extraBits: 0, extra: 0 };
+  const high = 31 - Math.clz32(d);
+  const second = (d >> (high - 1)) & 1;
+  const extraBits = high - 1;
+  return {
+    prefix: 2 * high + second,
+    extraBits,
+    extra: d & ((1 << extraBits) - 1),
+  };
+}
+
+function tokenize(pixels: Uint32Array, width: number): Token[] {
+  const tokens: Token[] = [];
+  const runLength = (i: number, distance: number) => {
+    if (i < distance) return 0;
+    let length = 0;
+    while (
+      i + length < pixels.length &&
+      length < MAX_COPY_LENGTH &&
+      pixels[i + length] === pixels[i + length - distance]
+    ) {
+      length++;
+    }
+    return length;
+  };
+  for (let i = 0; i < pixels.length; ) {
+    const left = runLength(i, 1);
+    const above = runLength(i, width);
+    const length = Math.max(left, above);
+    if (length >= MIN_COPY_LENGTH) {
+      tokens.push({
+        length,
+        distance: above >= left ? DISTANCE_ABOVE : DISTANCE_LEFT,
+      });
+      i += length;
+    } else {
+      tokens.push({ pixel: pixels[i++] });
+    }
+  }
+  return tokens;
+}
+
+function writeAscii(out: Uint8Array, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) out[offset + i] = text.charCodeAt(i);
+}
+
+function writeUint32LE(out: Uint8Array, offset: number, value: number) {
+  out[offset] = value & 0xff;
+  out[offset + 1] = (value >>> 8) & 0xff;
+  out[offset + 2] = (value >>> 16) & 0xff;
+  out[offset + 3] = (value >>> 24) & 0xff;
+}
+
+// Entropy-coded pixels. Only the main image says whether it has meta codes.
+function writeImage(
+  writer: BitWriter,
+  pixels: Uint32Array,
+  width: number,
+  isMain: boolean,
+) {
+  const tokens = tokenize(pixels, width);
+  const histograms = [GREEN_ALPHABET, 256, 256, 256, DISTANCE_ALPHABET].map(
+    (size) => new Array<number>(size).fill(0),
+  );
+  const [greens, reds, blues, alphas, distances] = histograms;
+  for (const token of tokens) {
+    if ("pixel" in token) {
+      greens[(token.pixel >>> 8) & 0xff]++;
+      reds[(token.pixel >>> 16) & 0xff]++;
+      blues[token.pixel & 0xff]++;
+      alphas[token.pixel >>> 24]++;
+    } else {
+      greens[256 + prefixValue(token.length).prefix]++;
+      distances[prefixValue(token.distance).prefix]++;
+    }
+  }
+
+  writer.write(0, 1); // no color cache
+  if (isMain) writer.write(0, 1); // one prefix code group for the whole image
+  const [green, red, blue, alpha, distance] = histograms.map((counts) =>
+    writePrefixCode(writer, counts),
+  );
+  const writeSymbol = (code: PrefixCode, symbol: number) =>
+    writer.write(code.codes[symbol], code.lengths[symbol]);
+  for (const token of tokens) {
+    if ("pixel" in token) {
+      writeSymbol(green, (token.pixel >>> 8) & 0xff);
+      writeSymbol(red, (token.pixel >>> 16) & 0xff);
+      writeSymbol(blue, token.pixel & 0xff);
+      writeSymbol(alpha, token.pixel >>> 24);
+      continue;
+    }
+    const length = prefixValue(token.length);
+    writeSymbol(green, 256 + length.prefix);
+    writer.write(length.extra, length.extraBits);
+    const dist = prefixValue(token.distance);
+    writeSymbol(distance, dist.prefix);
+    writer.write(dist.extra, dist.extraBits);
+  }
+}
+
+/**
+ * Color indexing transform for images with at most 256 colors. The palette
+ * is written delta-coded; indices go in the green channel, several per pixel
+ * when the palette is small enough. Returns the indexed image and its width.
+ */
+function writeColorIndexing(
+  writer: BitWriter,
+  pixels: Uint32Array,
+  width: number,
+  palette: number[],
+): { pixels: Uint32Array; width: number } {
+  writer.write(1, 1);
+  writer.write(COLOR_INDEXING_TRANSFORM, 2);
+  writer.write(palette.length - 1, 8);
+  const deltas = new Uint32Array(palette.length);
+  for (let i = 0; i < palette.length; i++) {
+    const previous = i > 0 ? palette[i - 1] : 0;
+    for (let shift = 0; shift < 32; shift += 8) {
+      const delta =
+        (((palette[i] >>> shift) & 0xff) - ((previous >>> shift) & 0xff)) &
+        0xff;
+      deltas[i] = (deltas[i] | (delta << shift)) >>> 0;
+    }
+  }
+  writeImage(writer, deltas, palette.length, false);
+
+  const widthBits =
+    palette.length <= 2
+      ? 3
+      : palette.length <= 4
+        ? 2
+        : palette.length <= 16
+          ? 1
+          : 0;
+  const perPixel = 1 << widthBits;
+  const bitsPerIndex = 8 >> widthBits;
+  const packedWidth = Math.ceil(width / perPixel);
+  const height = pixels.length / width;
+  const index = new Map(palette.map((color, i) => [color, i]));
+  const packed = new Uint32Array(packedWidth * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * packedWidth + (x >> widthBits);
+      const slot = x & (perPixel - 1);
+      packed[i] |=
+        index.get(pixels[y * width + x])! << (8 + bitsPerIndex * slot);
+    }
+  }
+  for (let i = 0; i < packed.length; i++) {
+    packed[i] = (packed[i] | 0xff000000) >>> 0;
+  }
+  return { pixels: packed, width: packedWidth };
+}
+
+/**
+ * Encodes non-premultiplied RGBA pixels as a lossless WebP file.
+ */
+export function encodeLosslessWebp(
+  rgba: Uint8Array,
+  width: number,
+  height: number,
+): Uint8Array {
+  if (
+    width < 1 ||
+    height < 1 ||
+    width > MAX_DIMENSION ||
+    height > MAX_DIMENSION
+  ) {
+    throw new Error(`WebP dimensions out of range: ${width}x${height}`);
+  }
+  if (rgba.length !== width * height * 4) {
+    throw new Error(
+      `Expected ${width * height * 4} bytes of RGBA, got ${rgba.length}`,
+    );
+  }
+
+  // ARGB packed into one number per pixel, as VP8L stores it
+  let pixels = new Uint32Array(width * height);
+  let hasAlpha = false;
+  const colors = new Set<number>();
+  for (let i = 0; i < pixels.length; i++) {
+    const [r, g, b, a] = rgba.subarray(i * 4, i * 4 + 4);
+    pixels[i] = ((a << 24) | (r << 16) | (g << 8) | b) >>> 0;
+    hasAlpha ||= a !== 255;
+    if (colors.size <= MAX_PALETTE_SIZE) colors.add(pixels[i]);
+  }
+
+  const writer = new BitWriter();
+  writer.write(0x2f, 8);
+  writer.write(width - 1, 14);
+  writer.write(height - 1, 14);
+  writer.write(hasAlpha ? 1 : 0, 1);
+  writer.write(0, 3);
+  let codedWidth = width;
+  if (colors.size <= MAX_PALETTE_SIZE) {
+    ({ pixels, width: codedWidth } = writeColorIndexing(
+      writer,
+      pixels,
+      width,
+      [...colors].sort((a, b) => a - b),
+    ));
+  }
+  writer.write(0, 1); // no further transforms
+  writeImage(writer, pixels, codedWidth, true);
+  const bitstream = writer.finish();
+
+  const chunkSize = bitstream.length;
+  const padded = chunkSize + (chunkSize & 1);
+  const out = new Uint8Array(20 + padded);
+  writeAscii(out, 0, "RIFF");
+  writeUint32LE(out, 4, 12 + padded);
+  writeAscii(out, 8, "WEBP");
+  writeAscii(out, 12, "VP8L");
+  writeUint32LE(out, 16, chunkSize);
+  out.set(bitstream, 20);
+  return out;
+}
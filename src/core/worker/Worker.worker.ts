@@ -1,7 +1,10 @@
 import version from "../../../resources/version.txt";
 import { createGameRunner, GameRunner } from "../GameRunner";
+import { GameSnapshot } from "../GameSnapshot";
 import { FetchGameMapLoader } from "../game/FetchGameMapLoader";
+import { GameType } from "../game/Game";
 import { ErrorUpdate, GameUpdateViewData } from "../game/GameUpdates";
+import { MapPackageLoader } from "../game/MapPackage";
 import {
   AttackAveragePositionResultMessage,
   InitializedMessage,
@@ -9,6 +12,8 @@ import {
   PlayerActionsResultMessage,
   PlayerBorderTilesResultMessage,
   PlayerProfileResultMessage,
+  SeekResultMessage,
+  SnapshotResultMessage,
   TransportShipSpawnResultMessage,
   WorkerMessage,
 } from "./WorkerMessages";
@@ -44,12 +49,33 @@ ctx.addEventListener("message", async (e: MessageEvent<MainThreadMessage>) => {
         gameRunner = createGameRunner(
           message.gameStartInfo,
           message.clientID,
-          mapLoader,
+          message.customMap
+            ? new MapPackageLoader(mapLoader, message.customMap)
+            : mapLoader,
           gameUpdate,
         ).then((gr) => {
+          if (message.replay) {
+            gr.enableCheckpoints();
+          } else if (
+            message.gameStartInfo.config.gameType !== GameType.Singleplayer
+          ) {
+            gr.enableLiveSnapshots();
+          }
+          let restoredTurn = 0;
+          if (message.restore !== undefined) {
+            try {
+              const { snapshot, checkpoint } = message.restore;
+              gr.restoreSnapshot(snapshot, checkpoint);
+              restoredTurn = snapshot.turn;
+            } catch (error) {
+              // Still correct, only slower: the client asks for every turn
+              console.error("Failed to restore snapshot:", error);
+            }
+          }
           sendMessage({
             type: "initialized",
             id: message.id,
+            restoredTurn,
           } as InitializedMessage);
           return gr;
         });
@@ -170,6 +196,43 @@ ctx.addEventListener("message", async (e: MessageEvent<MainThreadMessage>) => {
         console.error("Failed to spawn transport ship:", error);
       }
       break;
+    case "seek":
+      if (!gameRunner) {
+        throw new Error("Game runner not initialized");
+      }
+
+      try {
+        (await gameRunner).seek(message.turn);
+      } catch (error) {
+        console.error("Failed to seek replay:", error);
+      }
+      sendMessage({
+        type: "seek_result",
+        id: message.id,
+      } as SeekResultMessage);
+      break;
+    case "snapshot": {
+      if (!gameRunner) {
+        throw new Error("Game runner not initialized");
+      }
+
+      let snapshot: GameSnapshot | null = null;
+      try {
+        const runner = await gameRunner;
+        snapshot =
+          message.turn === undefined
+            ? runner.currentSnapshot()
+            : runner.liveSnapshot(message.turn);
+      } catch (error) {
+        console.error("Failed to encode snapshot:", error);
+      }
+      sendMessage({
+        type: "snapshot_result",
+        id: message.id,
+        snapshot,
+      } as SnapshotResultMessage);
+      break;
+    }
     case "update_frenzy_config":
       if (!gameRunner) {
         console.warn("Received frenzy config update before init");
@@ -8,13 +8,23 @@ import {
 } from "../game/Game";
 import { TileRef } from "../game/GameMap";
 import { ErrorUpdate, GameUpdateViewData } from "../game/GameUpdates";
+import { DecodedMapPackage } from "../game/MapPackage";
+import { GameSnapshot } from "../GameSnapshot";
 import { ClientID, GameStartInfo, Turn } from "../Schemas";
 import { generateID } from "../Util";
-import { UpdateFrenzyConfigMessage, WorkerMessage } from "./WorkerMessages";
+import {
+  SeekMessage,
+  SnapshotMessage,
+  SnapshotRestore,
+  UpdateFrenzyConfigMessage,
+  WorkerMessage,
+} from "./WorkerMessages";
 
 export class WorkerClient {
   private worker: Worker;
   private isInitialized = false;
+  // Turns the worker skipped by restoring the snapshot, once initialized
+  public restoredTurn = 0;
   private messageHandlers: Map<string, (message: WorkerMessage) => void>;
   private gameUpdateCallback?: (
     update: GameUpdateViewData | ErrorUpdate,
@@ -23,6 +33,9 @@ export class WorkerClient {
   constructor(
     private gameStartInfo: GameStartInfo,
     private clientID: ClientID,
+    private replay: boolean = false,
+    private customMap?: DecodedMapPackage,
+    private restore?: SnapshotRestore,
   ) {
     this.worker = new Worker(new URL("./Worker.worker.ts", import.meta.url));
     this.messageHandlers = new Map();
@@ -62,6 +75,7 @@ export class WorkerClient {
       this.messageHandlers.set(messageId, (message) => {
         if (message.type === "initialized") {
           this.isInitialized = true;
+          this.restoredTurn = message.restoredTurn;
           resolve();
         }
       });
@@ -71,15 +85,22 @@ export class WorkerClient {
         id: messageId,
         gameStartInfo: this.gameStartInfo,
         clientID: this.clientID,
+        replay: this.replay,
+        customMap: this.customMap,
+        restore: this.restore,
       });
 
-      // Add timeout for initialization
-      setTimeout(() => {
-        if (!this.isInitialized) {
-          this.messageHandlers.delete(messageId);
-          reject(new Error("Worker initialization timeout"));
-        }
-      }, 5000); // 5 second timeout
+      // Add timeout for initialization; restoring a snapshot of a large
+      // map takes a while
+      setTimeout(
+        () => {
+          if (!this.isInitialized) {
+            this.messageHandlers.delete(messageId);
+            reject(new Error("Worker initialization timeout"));
+          }
+        },
+        this.restore ? 30000 : 5000,
+      );
     });
   }
 
@@ -107,6 +128,72 @@ export class WorkerClient {
     });
   }
 
+  /**
+   * Replays only. Resolves once the worker has sent the resync update for
+   * `turn`; the turns leading up to it must already have been sent.
+   */
+  seek(turn: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.isInitialized) {
+        reject(new Error("Worker not initialized"));
+        return;
+      }
+
+      const messageId = generateID();
+
+      this.messageHandlers.set(messageId, (message) => {
+        if (message.type === "seek_result") {
+          resolve();
+        }
+      });
+
+      this.worker.postMessage({
+        type: "seek",
+        id: messageId,
+        turn,
+      } satisfies SeekMessage);
+    });
+  }
+
+  /**
+   * The snapshot the worker kept after `turn` turns, or null if it has a
+   * later one by now.
+   */
+  liveSnapshot(turn: number): Promise<GameSnapshot | null> {
+    return this.requestSnapshot(turn);
+  }
+
+  /**
+   * The game as it is after the turns executed so far, or null if it cannot
+   * be snapshotted.
+   */
+  currentSnapshot(): Promise<GameSnapshot | null> {
+    return this.requestSnapshot(undefined);
+  }
+
+  private requestSnapshot(turn?: number): Promise<GameSnapshot | null> {
+    return new Promise((resolve, reject) => {
+      if (!this.isInitialized) {
+        reject(new Error("Worker not initialized"));
+        return;
+      }
+
+      const messageId = generateID();
+
+      this.messageHandlers.set(messageId, (message) => {
+        if (message.type === "snapshot_result") {
+          resolve(message.snapshot);
+        }
+      });
+
+      this.worker.postMessage({
+        type: "snapshot",
+        id: messageId,
+        turn,
+      } satisfies SnapshotMessage);
+    });
+  }
+
   updateFrenzyConfig(config: Partial<FrenzyConfig>) {
     this.worker.postMessage({
       type: "update_frenzy_config",
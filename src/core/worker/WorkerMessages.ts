@@ -7,7 +7,9 @@ import {
 } from "../game/Game";
 import { TileRef } from "../game/GameMap";
 import { GameUpdateViewData } from "../game/GameUpdates";
-import { ClientID, GameStartInfo, Turn } from "../Schemas";
+import { DecodedMapPackage } from "../game/MapPackage";
+import { GameSnapshot } from "../GameSnapshot";
+import { Checkpoint, ClientID, GameStartInfo, Turn } from "../Schemas";
 
 export type WorkerMessageType =
   | "heartbeat"
@@ -25,7 +27,20 @@ export type WorkerMessageType =
   | "attack_average_position_result"
   | "transport_ship_spawn"
   | "transport_ship_spawn_result"
-  | "update_frenzy_config";
+  | "update_frenzy_config"
+  | "seek"
+  | "seek_result"
+  | "snapshot"
+  | "snapshot_result";
+
+/**
+ * A snapshot to start from and the turn and hash it must restore to: what
+ * the server's clients voted for a live game, the save's own for a save.
+ */
+export interface SnapshotRestore {
+  snapshot: GameSnapshot;
+  checkpoint: Checkpoint;
+}
 
 // Base interface for all messages
 interface BaseWorkerMessage {
@@ -42,6 +57,12 @@ export interface InitMessage extends BaseWorkerMessage {
   type: "init";
   gameStartInfo: GameStartInfo;
   clientID: ClientID;
+  // Replays keep checkpoints so they can seek
+  replay: boolean;
+  // Terrain for GameMapType.Custom, built in the map editor
+  customMap?: DecodedMapPackage;
+  // Start from here instead of the first turn
+  restore?: SnapshotRestore;
 }
 
 export interface TurnMessage extends BaseWorkerMessage {
@@ -54,9 +75,31 @@ export interface UpdateFrenzyConfigMessage extends BaseWorkerMessage {
   config: Partial<FrenzyConfig>;
 }
 
+export interface SeekMessage extends BaseWorkerMessage {
+  type: "seek";
+  turn: number;
+}
+
+export interface SnapshotMessage extends BaseWorkerMessage {
+  type: "snapshot";
+  // The live snapshot kept after this many turns; the current state if unset
+  turn?: number;
+}
+
 // Messages from worker to main thread
 export interface InitializedMessage extends BaseWorkerMessage {
   type: "initialized";
+  // Turns covered by the restored snapshot, 0 if the game starts over
+  restoredTurn: number;
+}
+
+export interface SeekResultMessage extends BaseWorkerMessage {
+  type: "seek_result";
+}
+
+export interface SnapshotResultMessage extends BaseWorkerMessage {
+  type: "snapshot_result";
+  snapshot: GameSnapshot | null;
 }
 
 export interface GameUpdateMessage extends BaseWorkerMessage {
@@ -129,7 +172,9 @@ export type MainThreadMessage =
   | PlayerProfileMessage
   | PlayerBorderTilesMessage
   | AttackAveragePositionMessage
-  | TransportShipSpawnMessage;
+  | TransportShipSpawnMessage
+  | SeekMessage
+  | SnapshotMessage;
 
 // Message send from worker
 export type WorkerMessage =
@@ -139,4 +184,6 @@ export type WorkerMessage =
   | PlayerProfileResultMessage
   | PlayerBorderTilesResultMessage
   | AttackAveragePositionResultMessage
-  | TransportShipSpawnResultMessage;
+  | TransportShipSpawnResultMessage
+  | SeekResultMessage
+  | SnapshotResultMessage;
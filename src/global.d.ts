@@ -45,3 +45,8 @@ declare module "*.mp3" {
   const value: string;
   export default value;
 }
+
+declare module "*.wav" {
+  const value: string;
+  export default value;
+}
@@ -0,0 +1,51 @@
+import fs from "fs/promises";
+import path from "path";
+import { GameMapType } from "../core/game/Game";
+import { GameMapLoader, MapData } from "../core/game/GameMapLoader";
+
+/**
+ * Node counterpart of `FetchGameMapLoader`: reads map packages straight from
+ * a `resources/maps`-style directory instead of over HTTP.
+ */
+export class FileSystemGameMapLoader implements GameMapLoader {
+  private maps = new Map<GameMapType, MapData>();
+
+  public constructor(
+    private readonly mapsDir: string,
+    private readonly dirName: (map: GameMapType) => string = mapDirName,
+  ) {}
+
+  public getMapData(map: GameMapType): MapData {
+    const cachedMap = this.maps.get(map);
+    if (cachedMap) {
+      return cachedMap;
+    }
+
+    const dir = path.join(this.mapsDir, this.dirName(map));
+    const mapData = {
+      mapBin: () => this.loadBinary(path.join(dir, "map.bin")),
+      map4xBin: () => this.loadBinary(path.join(dir, "map4x.bin")),
+      map16xBin: () => this.loadBinary(path.join(dir, "map16x.bin")),
+      manifest: async () =>
+        JSON.parse(await fs.readFile(path.join(dir, "manifest.json"), "utf8")),
+      webpPath: async () => path.join(dir, "thumbnail.webp"),
+    } satisfies MapData;
+
+    this.maps.set(map, mapData);
+    return mapData;
+  }
+
+  private async loadBinary(file: string): Promise<Uint8Array> {
+    return new Uint8Array(await fs.readFile(file));
+  }
+}
+
+function mapDirName(map: GameMapType): string {
+  const key = Object.keys(GameMapType).find(
+    (k) => GameMapType[k as keyof typeof GameMapType] === map,
+  );
+  if (!key) {
+    throw new Error(`Unknown map: ${map}`);
+  }
+  return key.toLowerCase();
+}
@@ -0,0 +1,353 @@
+import {
+  createConfig,
+  getServerConfigFromServer,
+} from "../core/configuration/ConfigLoader";
+import { DEFAULT_FRENZY_CONFIG } from "../core/game/frenzy/FrenzyRegistry";
+import {
+  FrenzyStructureType,
+  FrenzyUnitType,
+} from "../core/game/frenzy/FrenzyTypes";
+import {
+  Difficulty,
+  Game,
+  GameFork,
+  GameMapSize,
+  GameMapType,
+  GameMode,
+  GameType,
+  PlayerID,
+  PlayerType,
+} from "../core/game/Game";
+import { GameMapLoader } from "../core/game/GameMapLoader";
+import { ErrorUpdate, GameUpdateViewData } from "../core/game/GameUpdates";
+import { clearTerrainMapCache } from "../core/game/TerrainMapLoader";
+import { createGameRunner } from "../core/GameRunner";
+import {
+  FrenzyOverrides,
+  FrenzyOverridesSchema,
+  GameConfig,
+  GameID,
+  GameStartInfo,
+} from "../core/Schemas";
+
+export interface SimulationOptions {
+  seed: number;
+  gameMap: GameMapType;
+  gameMapSize: GameMapSize;
+  difficulty: Difficulty;
+  bots: number;
+  disableNPCs: boolean;
+  // Hard stop; the player with the most territory wins when it runs out
+  maxMinutes: number;
+  goldSampleSeconds: number;
+  frenzyConfig?: FrenzyOverrides;
+}
+
+export type UnitCounts = Partial<Record<FrenzyUnitType, number>>;
+export type StructureCounts = Partial<Record<FrenzyStructureType, number>>;
+
+export interface PlayerMatchStats {
+  id: PlayerID;
+  name: string;
+  type: PlayerType;
+  finalGold: number;
+  finalTiles: number;
+  peakTiles: number;
+  eliminatedAtTick: number | null;
+  // Towers are Frenzy units, so they are counted here when built
+  unitsSpawned: UnitCounts;
+  unitsLost: UnitCounts;
+  // HQs are placed at spawn and not counted
+  structuresBuilt: StructureCounts;
+  // Gold sampled every `goldSampleSeconds` after the spawn phase
+  goldCurve: number[];
+}
+
+export interface MatchResult {
+  seed: number;
+  gameID: GameID;
+  gameMap: GameMapType;
+  ticks: number;
+  durationMinutes: number;
+  timedOut: boolean;
+  // As the game declared it; null if the match stopped without a winner
+  winner: MatchPlayer | null;
+  // Most tiles when the match stopped, for matches without a winner. Not a
+  // win result
+  leader: MatchPlayer | null;
+  players: PlayerMatchStats[];
+}
+
+export interface MatchPlayer {
+  id: PlayerID;
+  name: string;
+}
+
+const TICKS_PER_SECOND = 10;
+
+/**
+ * Seeds map onto game IDs, which drive every PseudoRandom in the simulation.
+ */
+export function seedToGameID(seed: number): GameID {
+  return `s${Math.abs(seed).toString(36).padStart(7, "0")}`.slice(0, 8);
+}
+
+/**
+ * Checks a parsed override file against the shape of `DEFAULT_FRENZY_CONFIG`
+ * so a typo fails the run instead of silently simulating the defaults.
+ */
+export function parseFrenzyConfigOverrides(json: unknown): FrenzyOverrides {
+  checkOverrideShape(json, DEFAULT_FRENZY_CONFIG, "config");
+  // Same limits a lobby host is held to
+  return FrenzyOverridesSchema.parse(json);
+}
+
+function checkOverrideShape(value: unknown, reference: unknown, at: string) {
+  if (typeof reference === "object" && reference !== null) {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new Error(`${at} must be an object`);
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (!(key in reference)) {
+        throw new Error(`${at}.${key} is not a FrenzyConfig field`);
+      }
+      checkOverrideShape(
+        child,
+        (reference as Record<string, unknown>)[key],
+        `${at}.${key}`,
+      );
+    }
+    return;
+  }
+  if (typeof value !== typeof reference) {
+    throw new Error(`${at} must be a ${typeof reference}`);
+  }
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    throw new Error(`${at} must be finite`);
+  }
+}
+
+/**
+ * Follows Frenzy entities tick by tick and derives per-player counters by
+ * diffing ids, so the simulation itself needs no instrumentation.
+ */
+class FrenzyMatchTracker {
+  private stats = new Map<PlayerID, PlayerMatchStats>();
+  private liveUnits = new Map<
+    number,
+    { playerId: PlayerID; type: FrenzyUnitType }
+  >();
+  private seenStructures = new Set<number>();
+
+  constructor(
+    private game: Game,
+    private goldSampleTicks: number,
+  ) {}
+
+  observe() {
+    const manager = this.game.frenzyManager();
+    if (manager === null) {
+      throw new Error("simulated game is not running the Frenzy fork");
+    }
+    const tick = this.game.ticks();
+
+    for (const player of this.game.allPlayers()) {
+      const stats = this.playerStats(player.id());
+      const tiles = player.numTilesOwned();
+      stats.finalTiles = tiles;
+      stats.peakTiles = Math.max(stats.peakTiles, tiles);
+      stats.finalGold = Number(player.gold());
+      if (
+        !this.game.inSpawnPhase() &&
+        stats.eliminatedAtTick === null &&
+        stats.peakTiles > 0 &&
+        !player.isAlive()
+      ) {
+        stats.eliminatedAtTick = tick;
+      }
+    }
+
+    if (this.game.inSpawnPhase()) {
+      return;
+    }
+    const sinceSpawn = tick - this.game.config().numSpawnPhaseTurns();
+    if (sinceSpawn % this.goldSampleTicks === 0) {
+      for (const stats of this.stats.values()) {
+        stats.goldCurve.push(stats.finalGold);
+      }
+    }
+
+    // Units that boarded a transporter leave the list without dying
+    const boarded = new Set<number>();
+    const current = new Set<number>();
+    for (const unit of manager.getUnits()) {
+      current.add(unit.id);
+      unit.boardedUnits?.forEach((id) => boarded.add(id));
+      if (!this.liveUnits.has(unit.id)) {
+        this.liveUnits.set(unit.id, {
+          playerId: unit.playerId,
+          type: unit.unitType,
+        });
+        increment(this.playerStats(unit.playerId).unitsSpawned, unit.unitType);
+      }
+    }
+    for (const [id, unit] of this.liveUnits) {
+      if (current.has(id)) continue;
+      this.liveUnits.delete(id);
+      if (!boarded.has(id)) {
+        increment(this.playerStats(unit.playerId).unitsLost, unit.type);
+      }
+    }
+
+    const structureMaps = [
+      manager.getMines(),
+      manager.getFactories(),
+      manager.getPorts(),
+      manager.getAirports(),
+      manager.getMiniHQs(),
+    ];
+    for (const structures of structureMaps) {
+      for (const structure of structures.values()) {
+        if (this.seenStructures.has(structure.id)) continue;
+        this.seenStructures.add(structure.id);
+        increment(
+          this.playerStats(structure.playerId).structuresBuilt,
+          structure.type,
+        );
+      }
+    }
+  }
+
+  results(): PlayerMatchStats[] {
+    return Array.from(this.stats.values());
+  }
+
+  private playerStats(id: PlayerID): PlayerMatchStats {
+    let stats = this.stats.get(id);
+    if (stats === undefined) {
+      const player = this.game.player(id);
+      stats = {
+        id,
+        name: player.name(),
+        type: player.type(),
+        finalGold: 0,
+        finalTiles: 0,
+        peakTiles: 0,
+        eliminatedAtTick: null,
+        unitsSpawned: {},
+        unitsLost: {},
+        structuresBuilt: {},
+        goldCurve: [],
+      };
+      this.stats.set(id, stats);
+    }
+    return stats;
+  }
+}
+
+function increment<K extends string>(
+  counts: Partial<Record<K, number>>,
+  key: K,
+) {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+/**
+ * Runs one headless Frenzy match with nations and bots only, ticking as fast
+ * as the simulation allows, and returns its summary.
+ */
+export async function simulateMatch(
+  options: SimulationOptions,
+  mapLoader: GameMapLoader,
+): Promise<MatchResult> {
+  const gameID = seedToGameID(options.seed);
+  const gameConfig: GameConfig = {
+    gameMap: options.gameMap,
+    gameMapSize: options.gameMapSize,
+    gameFork: GameFork.Frenzy,
+    gameMode: GameMode.FFA,
+    gameType: GameType.Singleplayer,
+    difficulty: options.difficulty,
+    disableNPCs: options.disableNPCs,
+    donateGold: false,
+    donateTroops: false,
+    bots: options.bots,
+    infiniteGold: false,
+    infiniteTroops: false,
+    instantBuild: false,
+    randomSpawn: false,
+    maxTimerValue: options.maxMinutes,
+    frenzyOverrides: options.frenzyConfig,
+  };
+  const gameStart: GameStartInfo = {
+    gameID,
+    lobbyCreatedAt: 0,
+    config: gameConfig,
+    players: [],
+  };
+
+  clearTerrainMapCache();
+  let error: ErrorUpdate | null = null;
+  const runner = await createGameRunner(
+    gameStart,
+    "",
+    mapLoader,
+    (gu: GameUpdateViewData | ErrorUpdate) => {
+      if ("errMsg" in gu) {
+        error = gu;
+      }
+    },
+    createConfig(getServerConfigFromServer(), gameConfig, null),
+  );
+  const game = runner.game;
+
+  const tracker = new FrenzyMatchTracker(
+    game,
+    Math.max(1, Math.round(options.goldSampleSeconds * TICKS_PER_SECOND)),
+  );
+  // Safety margin past the timer in case the win check never fires
+  const maxTicks =
+    game.config().numSpawnPhaseTurns() +
+    (options.maxMinutes * 60 + 10) * TICKS_PER_SECOND;
+
+  for (let turn = 0; game.winner() === null && turn < maxTicks; turn++) {
+    runner.addTurn({ turnNumber: turn, intents: [] });
+    runner.executeNextTick();
+    if (error !== null) {
+      const { errMsg, stack } = error as ErrorUpdate;
+      throw new Error(`seed ${options.seed}: ${errMsg}\n${stack ?? ""}`);
+    }
+    tracker.observe();
+  }
+
+  const ticks = game.ticks() - game.config().numSpawnPhaseTurns();
+  const players = tracker.results();
+  const winner = declaredWinner(game);
+  const leader =
+    winner === null
+      ? ([...game.players()].sort(
+          (a, b) => b.numTilesOwned() - a.numTilesOwned(),
+        )[0] ?? null)
+      : null;
+
+  return {
+    seed: options.seed,
+    gameID,
+    gameMap: options.gameMap,
+    ticks,
+    durationMinutes: ticks / TICKS_PER_SECOND / 60,
+    timedOut: ticks >= options.maxMinutes * 60 * TICKS_PER_SECOND,
+    winner,
+    leader: leader === null ? null : { id: leader.id(), name: leader.name() },
+    players,
+  };
+}
+
+function declaredWinner(game: Game): MatchPlayer | null {
+  const winner = game.winner();
+  // Matches are free-for-all, so no team can win
+  if (winner === null || typeof winner === "string") {
+    return null;
+  }
+  return { id: winner.id(), name: winner.name() };
+}
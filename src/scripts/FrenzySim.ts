@@ -0,0 +1,275 @@
+/**
+ * Headless Frenzy balance simulator.
+ *
+ * Boots the real GameRunner (no renderer, no worker) and plays seeded
+ * nation/bot matches at full speed, then writes JSON and CSV summaries.
+ *
+ * Usage:
+ *   npm run sim:frenzy -- --map World --matches 20 --out sim-out
+ *   npm run sim:frenzy -- --config baseline.json --config buffed.json
+ *
+ * Every `--config` file is a partial FrenzyConfig (same shape as
+ * DEFAULT_FRENZY_CONFIG). Each variant, plus the unmodified defaults, plays
+ * the same seeds so results can be compared side by side.
+ * Overrides are applied before the first tick; crystalClusterCount has no
+ * effect because crystals are generated when the game is created.
+ */
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import {
+  Difficulty,
+  GameMapSize,
+  GameMapType,
+  isDifficulty,
+} from "../core/game/Game";
+import { FileSystemGameMapLoader } from "./FileSystemGameMapLoader";
+import {
+  MatchResult,
+  parseFrenzyConfigOverrides,
+  simulateMatch,
+  SimulationOptions,
+} from "./FrenzyMatchSimulator";
+
+interface Variant {
+  name: string;
+  overrides?: SimulationOptions["frenzyConfig"];
+}
+
+const USAGE = `Usage: npm run sim:frenzy -- [options]
+  --map <name>             GameMapType key or name (default: World)
+  --compact                use the compact map size
+  --matches <n>            matches per variant (default: 10)
+  --seed <n>               first seed, incremented per match (default: 1)
+  --bots <n>               tribes to spawn (default: 0)
+  --no-nations             disable nations from the map manifest
+  --difficulty <level>     Easy | Medium | Hard | Impossible (default: Medium)
+  --max-minutes <n>        match timer, 1-120 (default: 30)
+  --sample-seconds <n>     gold curve sampling interval (default: 30)
+  --config <file.json>     FrenzyConfig override variant (repeatable)
+  --maps-dir <dir>         map packages (default: resources/maps)
+  --out <dir>              output directory (default: frenzy-sim-out)`;
+
+function parseMap(value: string): GameMapType {
+  const match = Object.entries(GameMapType).find(
+    ([key, name]) =>
+      key.toLowerCase() === value.toLowerCase() ||
+      name.toLowerCase() === value.toLowerCase(),
+  );
+  if (match === undefined) {
+    throw new Error(`unknown map "${value}"`);
+  }
+  return match[1];
+}
+
+function parseInteger(name: string, value: string, min: number, max: number) {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min || n > max) {
+    throw new Error(`--${name} must be an integer in [${min}, ${max}]`);
+  }
+  return n;
+}
+
+function loadVariants(files: string[]): Variant[] {
+  const variants: Variant[] = [{ name: "default" }];
+  for (const file of files) {
+    const json = JSON.parse(fs.readFileSync(file, "utf8"));
+    let overrides;
+    try {
+      overrides = parseFrenzyConfigOverrides(json);
+    } catch (e) {
+      throw new Error(`${file}: ${(e as Error).message}`);
+    }
+    variants.push({ name: path.basename(file, ".json"), overrides });
+  }
+  return variants;
+}
+
+function csvRow(values: Array<string | number | boolean | null>): string {
+  return values
+    .map((v) => {
+      const s = v === null ? "" : String(v);
+      return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+    })
+    .join(",");
+}
+
+function writeResults(
+  outDir: string,
+  results: Array<{ variant: string; match: MatchResult }>,
+  sampleSeconds: number,
+) {
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(outDir, "summary.json"),
+    JSON.stringify({ goldSampleSeconds: sampleSeconds, results }, null, 2),
+  );
+
+  const matches = [
+    csvRow([
+      "variant",
+      "seed",
+      "gameID",
+      "map",
+      "winner",
+      "leader",
+      "durationMinutes",
+      "timedOut",
+    ]),
+    ...results.map(({ variant, match }) =>
+      csvRow([
+        variant,
+        match.seed,
+        match.gameID,
+        match.gameMap,
+        match.winner?.name ?? null,
+        match.leader?.name ?? null,
+        match.durationMinutes.toFixed(2),
+        match.timedOut,
+      ]),
+    ),
+  ];
+  fs.writeFileSync(path.join(outDir, "matches.csv"), matches.join("\n") + "\n");
+
+  // Counter columns are the union of every type seen in any match
+  const columns = (key: "unitsSpawned" | "unitsLost" | "structuresBuilt") =>
+    Array.from(
+      new Set(
+        results.flatMap(({ match }) =>
+          match.players.flatMap((p) => Object.keys(p[key])),
+        ),
+      ),
+    ).sort();
+  const spawned = columns("unitsSpawned");
+  const lost = columns("unitsLost");
+  const built = columns("structuresBuilt");
+
+  const players = [
+    csvRow([
+      "variant",
+      "seed",
+      "player",
+      "type",
+      "winner",
+      "finalGold",
+      "finalTiles",
+      "peakTiles",
+      "eliminatedAtTick",
+      ...spawned.map((t) => `spawned_${t}`),
+      ...lost.map((t) => `lost_${t}`),
+      ...built.map((t) => `built_${t}`),
+    ]),
+    ...results.flatMap(({ variant, match }) =>
+      match.players.map((p) =>
+        csvRow([
+          variant,
+          match.seed,
+          p.name,
+          p.type,
+          match.winner?.id === p.id,
+          p.finalGold,
+          p.finalTiles,
+          p.peakTiles,
+          p.eliminatedAtTick,
+          ...spawned.map((t) => p.unitsSpawned[t] ?? 0),
+          ...lost.map((t) => p.unitsLost[t] ?? 0),
+          ...built.map((t) => p.structuresBuilt[t] ?? 0),
+        ]),
+      ),
+    ),
+  ];
+  fs.writeFileSync(path.join(outDir, "players.csv"), players.join("\n") + "\n");
+
+  const gold = [
+    csvRow(["variant", "seed", "player", "second", "gold"]),
+    ...results.flatMap(({ variant, match }) =>
+      match.players.flatMap((p) =>
+        p.goldCurve.map((g, i) =>
+          csvRow([variant, match.seed, p.name, i * sampleSeconds, g]),
+        ),
+      ),
+    ),
+  ];
+  fs.writeFileSync(
+    path.join(outDir, "gold_curves.csv"),
+    gold.join("\n") + "\n",
+  );
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      map: { type: "string", default: "World" },
+      compact: { type: "boolean", default: false },
+      matches: { type: "string", default: "10" },
+      seed: { type: "string", default: "1" },
+      bots: { type: "string", default: "0" },
+      "no-nations": { type: "boolean", default: false },
+      difficulty: { type: "string", default: Difficulty.Medium },
+      "max-minutes": { type: "string", default: "30" },
+      "sample-seconds": { type: "string", default: "30" },
+      config: { type: "string", multiple: true, default: [] },
+      "maps-dir": { type: "string", default: "resources/maps" },
+      out: { type: "string", default: "frenzy-sim-out" },
+      help: { type: "boolean", default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (!isDifficulty(values.difficulty)) {
+    throw new Error(`unknown difficulty "${values.difficulty}"`);
+  }
+  const base = {
+    gameMap: parseMap(values.map),
+    gameMapSize: values.compact ? GameMapSize.Compact : GameMapSize.Normal,
+    difficulty: values.difficulty,
+    bots: parseInteger("bots", values.bots, 0, 80),
+    disableNPCs: values["no-nations"],
+    maxMinutes: parseInteger("max-minutes", values["max-minutes"], 1, 120),
+    goldSampleSeconds: parseInteger(
+      "sample-seconds",
+      values["sample-seconds"],
+      1,
+      3600,
+    ),
+  };
+  const matches = parseInteger("matches", values.matches, 1, 10_000);
+  const firstSeed = parseInteger("seed", values.seed, 0, 2 ** 31);
+  const variants = loadVariants(values.config);
+  const mapLoader = new FileSystemGameMapLoader(values["maps-dir"]);
+
+  // The game logs heavily; keep the console for progress lines
+  const log = console.log;
+  console.log = () => {};
+  console.debug = () => {};
+  console.info = () => {};
+
+  const results: Array<{ variant: string; match: MatchResult }> = [];
+  for (const variant of variants) {
+    for (let i = 0; i < matches; i++) {
+      const seed = firstSeed + i;
+      const start = Date.now();
+      const match = await simulateMatch(
+        { ...base, seed, frenzyConfig: variant.overrides },
+        mapLoader,
+      );
+      results.push({ variant: variant.name, match });
+      log(
+        `[${variant.name}] seed ${seed}: ${match.winner?.name ?? `no winner, ${match.leader?.name ?? "nobody"} led`}` +
+          ` after ${match.durationMinutes.toFixed(1)} min` +
+          ` (${((Date.now() - start) / 1000).toFixed(1)}s)`,
+      );
+    }
+  }
+
+  writeResults(values.out, results, base.goldSampleSeconds);
+  log(`Wrote ${results.length} matches to ${values.out}`);
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
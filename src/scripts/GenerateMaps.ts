@@ -0,0 +1,140 @@
+/**
+ * Builds map packages (map.bin, map4x.bin, map16x.bin, thumbnail.webp and
+ * manifest.json) from a heightmap PNG and an info.json.
+ *
+ * Usage:
+ *   npm run gen-maps                       every map under map-generator/assets
+ *   npm run gen-maps -- --map world        one map from map-generator/assets
+ *   npm run gen-maps -- --image my.png --info info.json --out resources/maps/mymap
+ *
+ * Maps in assets/test_maps go to tests/testdata/maps and keep their small
+ * islands and lakes.
+ */
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import {
+  buildManifest,
+  generateMap,
+  validateGeneratedMap,
+} from "../core/game/MapGenerator";
+import { decodePng } from "./PngDecoder";
+
+const USAGE = `Usage: npm run gen-maps -- [options]
+  --map <name>       only this folder of map-generator/assets (repeatable)
+  --image <png>      heightmap for a single map (needs --info and --out)
+  --info <json>      info.json with the map name and nations
+  --out <dir>        output directory for a single map
+  --keep-small       keep islands and lakes below the pruning thresholds`;
+
+const ASSETS_DIR = path.join("map-generator", "assets");
+
+interface MapJob {
+  image: string;
+  info: string;
+  out: string;
+  removeSmall: boolean;
+}
+
+async function buildMap(job: MapJob) {
+  const info = JSON.parse(fs.readFileSync(job.info, "utf8"));
+  if (typeof info !== "object" || info === null || Array.isArray(info)) {
+    throw new Error(`${job.info}: expected a JSON object`);
+  }
+  const image = decodePng(new Uint8Array(fs.readFileSync(job.image)));
+  const generated = generateMap(image, job.removeSmall);
+  const manifest = buildManifest(info, generated);
+  await validateGeneratedMap(manifest, generated);
+
+  fs.mkdirSync(job.out, { recursive: true });
+  fs.writeFileSync(path.join(job.out, "map.bin"), generated.map.data);
+  fs.writeFileSync(path.join(job.out, "map4x.bin"), generated.map4x.data);
+  fs.writeFileSync(path.join(job.out, "map16x.bin"), generated.map16x.data);
+  fs.writeFileSync(path.join(job.out, "thumbnail.webp"), generated.thumbnail);
+  fs.writeFileSync(
+    path.join(job.out, "manifest.json"),
+    JSON.stringify(manifest, null, 2) + "\n",
+  );
+  console.log(
+    `${manifest.name}: ${generated.map.width}x${generated.map.height}, ` +
+      `${generated.map.numLandTiles} land tiles -> ${job.out}`,
+  );
+}
+
+function assetJobs(only: string[]): MapJob[] {
+  const sets = [
+    { dir: "maps", out: path.join("resources", "maps"), removeSmall: true },
+    {
+      dir: "test_maps",
+      out: path.join("tests", "testdata", "maps"),
+      removeSmall: false,
+    },
+  ];
+  const jobs = sets.flatMap(({ dir, out, removeSmall }) =>
+    fs
+      .readdirSync(path.join(ASSETS_DIR, dir))
+      .filter((name) => only.length === 0 || only.includes(name))
+      .map((name) => ({
+        image: path.join(ASSETS_DIR, dir, name, "image.png"),
+        info: path.join(ASSETS_DIR, dir, name, "info.json"),
+        out: path.join(out, name),
+        removeSmall,
+      })),
+  );
+  const missing = only.filter(
+    (name) => !jobs.some((job) => path.basename(job.out) === name),
+  );
+  if (missing.length > 0) {
+    throw new Error(`unknown map "${missing.join('", "')}"`);
+  }
+  return jobs;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      map: { type: "string", multiple: true, default: [] },
+      image: { type: "string" },
+      info: { type: "string" },
+      out: { type: "string" },
+      "keep-small": { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  let jobs: MapJob[];
+  if (values.image !== undefined) {
+    if (values.info === undefined || values.out === undefined) {
+      throw new Error("--image needs --info and --out");
+    }
+    jobs = [
+      {
+        image: values.image,
+        info: values.info,
+        out: values.out,
+        removeSmall: !values["keep-small"],
+      },
+    ];
+  } else {
+    jobs = assetJobs(values.map).map((job) =>
+      values["keep-small"] ? { ...job, removeSmall: false } : job,
+    );
+  }
+
+  for (const job of jobs) {
+    try {
+      await buildMap(job);
+    } catch (e) {
+      throw new Error(`${job.image}: ${(e as Error).message}`);
+    }
+  }
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
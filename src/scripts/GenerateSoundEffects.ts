@@ -0,0 +1,226 @@
+/**
+ * Synthesizes the combat and event sound effects into
+ * resources/sounds/effects as 16-bit mono WAV files. The effects are made
+ * from sine sweeps and seeded noise, so every run writes the same files.
+ *
+ * Usage:
+ *   npm run gen-sounds
+ */
+import fs from "fs";
+import path from "path";
+
+const OUT_DIR = path.join("resources", "sounds", "effects");
+const SAMPLE_RATE = 22050;
+
+type Sample = (t: number, noise: () => number) => number;
+
+interface EffectRecipe {
+  seconds: number;
+  sample: Sample;
+}
+
+// mulberry32: small and deterministic, which is all noise needs
+function noiseSource(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return (((t ^ (t >>> 14)) >>> 0) / 4294967296) * 2 - 1;
+  };
+}
+
+// Phase of a sine sweeping linearly from `from` to `to` Hz over `seconds`
+function sweep(t: number, from: number, to: number, seconds: number): number {
+  const rate = (to - from) / seconds;
+  return 2 * Math.PI * (from * t + (rate * t * t) / 2);
+}
+
+const decay = (t: number, seconds: number) => Math.exp(-t / seconds);
+
+// Fades the first and last few milliseconds so effects never click
+function envelope(t: number, seconds: number): number {
+  const fade = 0.005;
+  return Math.min(1, t / fade, (seconds - t) / fade);
+}
+
+/** One-pole low-pass filter over a noise source. */
+function lowPassed(cutoff: number, source: () => number): () => number {
+  const alpha = 1 - Math.exp((-2 * Math.PI * cutoff) / SAMPLE_RATE);
+  let value = 0;
+  return () => {
+    value += alpha * (source() - value);
+    return value;
+  };
+}
+
+function filteredNoise(cutoff: number): Sample {
+  let filter: (() => number) | null = null;
+  return (_t, noise) => {
+    filter ??= lowPassed(cutoff, noise);
+    // Low-passing takes most of the energy, so make some of it back
+    return filter() * Math.min(8, 2000 / cutoff);
+  };
+}
+
+function tone(frequency: number, t: number): number {
+  return Math.sin(2 * Math.PI * frequency * t);
+}
+
+function chime(notes: number[], noteSeconds: number, detune = 0): Sample {
+  return (t) => {
+    let value = 0;
+    notes.forEach((frequency, i) => {
+      const start = i * noteSeconds;
+      if (t < start) return;
+      const local = t - start;
+      value +=
+        0.4 *
+        decay(local, 0.25) *
+        (tone(frequency, local) + 0.5 * tone(frequency * (2 + detune), local));
+    });
+    return value;
+  };
+}
+
+const EFFECTS: Record<string, EffectRecipe> = {
+  "plasma-fire": {
+    seconds: 0.18,
+    sample: (t, noise) =>
+      decay(t, 0.05) * (Math.sin(sweep(t, 900, 250, 0.18)) + 0.15 * noise()),
+  },
+  "laser-fire": {
+    seconds: 0.25,
+    sample: (t) =>
+      0.6 * decay(t, 0.08) * Math.sign(Math.sin(sweep(t, 1800, 500, 0.25))),
+  },
+  "artillery-fire": (() => {
+    const rumble = filteredNoise(400);
+    return {
+      seconds: 0.5,
+      sample: (t, noise) =>
+        decay(t, 0.12) *
+        (0.8 * rumble(t, noise) + 0.6 * Math.sin(sweep(t, 90, 40, 0.5))),
+    };
+  })(),
+  "missile-fire": (() => {
+    const hiss = filteredNoise(1500);
+    return {
+      seconds: 0.6,
+      sample: (t, noise) =>
+        Math.sin((Math.PI * t) / 0.6) *
+        (0.6 * hiss(t, noise) + 0.2 * Math.sin(sweep(t, 200, 500, 0.6))),
+    };
+  })(),
+  "projectile-impact": (() => {
+    const thud = filteredNoise(900);
+    return {
+      seconds: 0.12,
+      sample: (t, noise) => decay(t, 0.03) * thud(t, noise),
+    };
+  })(),
+  explosion: (() => {
+    const blast = filteredNoise(300);
+    return {
+      seconds: 0.9,
+      sample: (t, noise) =>
+        decay(t, 0.25) *
+        (blast(t, noise) + 0.5 * Math.sin(sweep(t, 70, 30, 0.9))),
+    };
+  })(),
+  "structure-destroyed": (() => {
+    const blast = filteredNoise(250);
+    return {
+      seconds: 1.2,
+      sample: (t, noise) =>
+        decay(t, 0.4) *
+        (blast(t, noise) + 0.6 * Math.sin(sweep(t, 120, 35, 1.2))),
+    };
+  })(),
+  "hq-under-attack": {
+    seconds: 0.9,
+    sample: (t) => {
+      const frequency = Math.floor(t / 0.15) % 2 === 0 ? 660 : 880;
+      return 0.35 * Math.sign(tone(frequency, t));
+    },
+  },
+  "nuke-launch": (() => {
+    const roar = filteredNoise(600);
+    return {
+      seconds: 1.5,
+      sample: (t, noise) =>
+        Math.min(1, t / 0.4) *
+        decay(t, 0.9) *
+        (0.8 * roar(t, noise) + 0.3 * Math.sin(sweep(t, 150, 700, 1.5))),
+    };
+  })(),
+  "nuke-detonation": (() => {
+    const blast = filteredNoise(150);
+    return {
+      seconds: 2.5,
+      sample: (t, noise) =>
+        decay(t, 0.8) *
+        (blast(t, noise) + 0.7 * Math.sin(sweep(t, 55, 20, 2.5))),
+    };
+  })(),
+  "transporter-landing": (() => {
+    const thud = filteredNoise(200);
+    return {
+      seconds: 0.6,
+      sample: (t, noise) =>
+        0.5 * decay(t, 0.3) * Math.sin(sweep(t, 600, 200, 0.6)) +
+        (t > 0.4 ? decay(t - 0.4, 0.05) * thud(t, noise) : 0),
+    };
+  })(),
+  "alliance-formed": {
+    seconds: 0.8,
+    sample: chime([523.25, 659.25, 783.99], 0.12),
+  },
+  betrayal: {
+    seconds: 0.9,
+    sample: chime([392.0, 311.13, 261.63], 0.15, 0.03),
+  },
+};
+
+function encodeWav(samples: Float32Array): Buffer {
+  const data = Buffer.alloc(samples.length * 2);
+  samples.forEach((s, i) => {
+    data.writeInt16LE(Math.round(Math.max(-1, Math.min(1, s)) * 32767), i * 2);
+  });
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0);
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write("WAVE", 8);
+  header.write("fmt ", 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // Mono
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36);
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+function render({ seconds, sample }: EffectRecipe, seed: number): Float32Array {
+  const noise = noiseSource(seed);
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    samples[i] = sample(t, noise) * envelope(t, seconds);
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  // Effect volumes are set in SoundManager, so every file peaks the same
+  const gain = peak > 0 ? 0.9 / peak : 1;
+  return samples.map((s) => s * gain);
+}
+
+fs.mkdirSync(OUT_DIR, { recursive: true });
+Object.entries(EFFECTS).forEach(([name, recipe], i) => {
+  const file = path.join(OUT_DIR, `${name}.wav`);
+  fs.writeFileSync(file, encodeWav(render(recipe, i + 1)));
+  console.log(`Wrote ${file}`);
+});
@@ -0,0 +1,219 @@
+import { inflateSync } from "zlib";
+import { RgbaImage } from "../core/game/MapGenerator";
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+enum ColorType {
+  Gray = 0,
+  RGB = 2,
+  Palette = 3,
+  GrayAlpha = 4,
+  RGBA = 6,
+}
+
+const CHANNELS: Record<ColorType, number> = {
+  [ColorType.Gray]: 1,
+  [ColorType.RGB]: 3,
+  [ColorType.Palette]: 1,
+  [ColorType.GrayAlpha]: 2,
+  [ColorType.RGBA]: 4,
+};
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset] << 24) |
+      (bytes[offset + 1] << 16) |
+      (bytes[offset + 2] << 8) |
+      bytes[offset + 3]) >>>
+    0
+  );
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+// Reverses the per-scanline filters in place, returning the raw scanlines
+function unfilter(
+  data: Uint8Array,
+  height: number,
+  stride: number,
+  bpp: number,
+): Uint8Array {
+  const out = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const row = y * stride;
+    const prev = row - stride;
+    for (let i = 0; i < stride; i++) {
+      const raw = data[src + i];
+      const left = i >= bpp ? out[row + i - bpp] : 0;
+      const up = y > 0 ? out[prev + i] : 0;
+      const upLeft = y > 0 && i >= bpp ? out[prev + i - bpp] : 0;
+      let value: number;
+      switch (filter) {
+        case 0:
+          value = raw;
+          break;
+        case 1:
+          value = raw + left;
+          break;
+        case 2:
+          value = raw + up;
+          break;
+        case 3:
+          value = raw + ((left + up) >> 1);
+          break;
+        case 4:
+          value = raw + paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`Invalid PNG filter type ${filter} on row ${y}`);
+      }
+      out[row + i] = value & 0xff;
+    }
+  }
+  return out;
+}
+
+/**
+ * Minimal PNG decoder for map images: every color type and bit depth, but
+ * not interlaced images. 16-bit channels keep their high byte.
+ */
+export function decodePng(bytes: Uint8Array): RgbaImage {
+  if (!SIGNATURE.every((b, i) => bytes[i] === b)) {
+    throw new Error("Not a PNG file");
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = ColorType.RGBA;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  let offset = SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = readUint32(bytes, offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      width = readUint32(chunk, 0);
+      height = readUint32(chunk, 4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      if (!(colorType in CHANNELS)) {
+        throw new Error(`Unsupported PNG color type ${colorType}`);
+      }
+      if (chunk[12] !== 0) {
+        throw new Error("Interlaced PNGs are not supported");
+      }
+    } else if (type === "PLTE") {
+      palette = chunk;
+    } else if (type === "tRNS") {
+      transparency = chunk;
+    } else if (type === "IDAT") {
+      idat.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+  if (width === 0 || height === 0 || idat.length === 0) {
+    throw new Error("PNG is missing image data");
+  }
+  if (colorType === ColorType.Palette && palette === null) {
+    throw new Error("Paletted PNG is missing its palette");
+  }
+
+  const bitsPerPixel = CHANNELS[colorType] * bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const raw = unfilter(
+    new Uint8Array(inflateSync(Buffer.concat(idat))),
+    height,
+    stride,
+    Math.max(1, bitsPerPixel >> 3),
+  );
+
+  // Sample `channel` of pixel `x` in `row`, scaled to 8 bits
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+  const sample = (row: number, x: number, channel: number): number => {
+    const index = x * CHANNELS[colorType] + channel;
+    if (bitDepth === 16) return raw[row + index * 2];
+    if (bitDepth === 8) return raw[row + index];
+    const bit = index * bitDepth;
+    const value =
+      (raw[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+    return colorType === ColorType.Palette
+      ? value
+      : Math.round((value * 255) / maxSample);
+  };
+  // Full-precision sample, to compare against tRNS color keys
+  const key = (row: number, x: number, channel: number): number => {
+    const index = x * CHANNELS[colorType] + channel;
+    if (bitDepth === 16) {
+      return (raw[row + index * 2] << 8) | raw[row + index * 2 + 1];
+    }
+    if (bitDepth === 8) return raw[row + index];
+    const bit = index * bitDepth;
+    return (raw[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  const keyAt = (channel: number) =>
+    transparency === null
+      ? -1
+      : (transparency[channel * 2] << 8) | transparency[channel * 2 + 1];
+
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      switch (colorType) {
+        case ColorType.Gray: {
+          const v = sample(row, x, 0);
+          data.set([v, v, v, key(row, x, 0) === keyAt(0) ? 0 : 255], out);
+          break;
+        }
+        case ColorType.GrayAlpha: {
+          const v = sample(row, x, 0);
+          data.set([v, v, v, sample(row, x, 1)], out);
+          break;
+        }
+        case ColorType.RGB: {
+          const keyed = [0, 1, 2].every((c) => key(row, x, c) === keyAt(c));
+          data.set(
+            [
+              sample(row, x, 0),
+              sample(row, x, 1),
+              sample(row, x, 2),
+              keyed ? 0 : 255,
+            ],
+            out,
+          );
+          break;
+        }
+        case ColorType.Palette: {
+          const i = sample(row, x, 0);
+          data.set(palette!.subarray(i * 3, i * 3 + 3), out);
+          data[out + 3] =
+            transparency !== null && i < transparency.length
+              ? transparency[i]
+              : 255;
+          break;
+        }
+        case ColorType.RGBA:
+          for (let c = 0; c < 4; c++) data[out + c] = sample(row, x, c);
+          break;
+      }
+    }
+  }
+  return { width, height, data };
+}
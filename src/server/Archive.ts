@@ -1,4 +1,5 @@
 import z from "zod";
+import { ArchiveStoreType } from "../core/configuration/Config";
 import { getServerConfigFromServer } from "../core/configuration/ConfigLoader";
 import {
   GameID,
@@ -7,22 +8,24 @@ import {
   ID,
   PartialGameRecord,
 } from "../core/Schemas";
-import { replacer } from "../core/Util";
+import { assertNever, replacer } from "../core/Util";
+import {
+  ArchivedGameSummary,
+  ArchiveQuery,
+  ArchiveStore,
+} from "./ArchiveStore";
+import { LocalArchiveStore } from "./LocalArchiveStore";
 import { logger } from "./Logger";
 
 const config = getServerConfigFromServer();
 
 const log = logger.child({ component: "Archive" });
 
-export async function archive(gameRecord: GameRecord) {
-  try {
-    const parsed = GameRecordSchema.safeParse(gameRecord);
-    if (!parsed.success) {
-      log.error(`invalid game record: ${z.prettifyError(parsed.error)}`, {
-        gameID: gameRecord.info.gameID,
-      });
-      return;
-    }
+/**
+ * The original store: the API at `jwtIssuer()` persists records.
+ */
+class ApiArchiveStore implements ArchiveStore {
+  async write(gameRecord: GameRecord): Promise<void> {
     const url = `${config.jwtIssuer()}/game/${gameRecord.info.gameID}`;
     const response = await fetch(url, {
       method: "POST",
@@ -33,11 +36,57 @@ export async function archive(gameRecord: GameRecord) {
       },
     });
     if (!response.ok) {
-      log.error(`error archiving game record: ${response.statusText}`, {
+      throw new Error(response.statusText);
+    }
+  }
+
+  async read(gameId: GameID): Promise<GameRecord | null> {
+    const url = `${config.jwtIssuer()}/game/${gameId}`;
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+    if (response.status === 404) {
+      return null;
+    }
+    const record = await response.json();
+    if (!response.ok) {
+      throw new Error(response.statusText);
+    }
+    return GameRecordSchema.parse(record);
+  }
+}
+
+function createArchiveStore(): ArchiveStore {
+  const type = config.archiveStore();
+  switch (type) {
+    case ArchiveStoreType.Api:
+      return new ApiArchiveStore();
+    case ArchiveStoreType.Local:
+      log.info(`archiving game records to ${config.archiveDir()}`);
+      return new LocalArchiveStore(
+        config.archiveDir(),
+        config.archiveRetentionDays(),
+      );
+    default:
+      assertNever(type);
+  }
+}
+
+const store = createArchiveStore();
+
+export async function archive(gameRecord: GameRecord) {
+  try {
+    const parsed = GameRecordSchema.safeParse(gameRecord);
+    if (!parsed.success) {
+      log.error(`invalid game record: ${z.prettifyError(parsed.error)}`, {
         gameID: gameRecord.info.gameID,
       });
       return;
     }
+    await store.write(gameRecord);
   } catch (error) {
     log.error(`error archiving game record: ${error}`, {
       gameID: gameRecord.info.gameID,
@@ -54,21 +103,7 @@ export async function readGameRecord(
       log.error(`invalid game ID: ${gameId}`);
       return null;
     }
-    const url = `${config.jwtIssuer()}/game/${gameId}`;
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
-    const record = await response.json();
-    if (!response.ok) {
-      log.error(`error reading game record: ${response.statusText}`, {
-        gameID: gameId,
-      });
-      return null;
-    }
-    return GameRecordSchema.parse(record);
+    return await store.read(gameId);
   } catch (error) {
     log.error(`error reading game record: ${error}`, {
       gameID: gameId,
@@ -77,6 +112,23 @@ export async function readGameRecord(
   }
 }
 
+/**
+ * Lists archived games, or returns null when the store keeps no index.
+ */
+export async function listGameRecords(
+  query: ArchiveQuery,
+): Promise<ArchivedGameSummary[] | null> {
+  if (store.list === undefined) {
+    return null;
+  }
+  try {
+    return await store.list(query);
+  } catch (error) {
+    log.error(`error listing game records: ${error}`);
+    return [];
+  }
+}
+
 export function finalizeGameRecord(
   clientRecord: PartialGameRecord,
 ): GameRecord {
@@ -0,0 +1,29 @@
+import { GameMapType, GameMode } from "../core/game/Game";
+import { ClientID, GameID, GameRecord } from "../core/Schemas";
+
+export interface ArchiveQuery {
+  player?: string;
+  gameMap?: GameMapType;
+  winner?: string;
+  limit?: number;
+}
+
+export interface ArchivedGameSummary {
+  gameID: GameID;
+  start: number;
+  end: number;
+  gameMap: GameMapType;
+  gameMode: GameMode;
+  players: { clientID: ClientID; username: string }[];
+  winners: ClientID[];
+}
+
+/**
+ * Where finished games go. Selected by `ServerConfig.archiveStore()`.
+ */
+export interface ArchiveStore {
+  write(record: GameRecord): Promise<void>;
+  read(gameID: GameID): Promise<GameRecord | null>;
+  // Stores without an index cannot list
+  list?(query: ArchiveQuery): Promise<ArchivedGameSummary[]>;
+}
@@ -1,13 +1,17 @@
 import WebSocket from "ws";
 import { TokenPayload } from "../core/ApiSchemas";
+import { FrenzyHashBreakdown } from "../core/game/frenzy/FrenzyHash";
 import { Tick } from "../core/game/Game";
 import { ClientID, PlayerCosmetics, Winner } from "../core/Schemas";
+import { PlayerRatings } from "./Ratings";
 
 export class Client {
   public lastPing: number = Date.now();
 
   public hashes: Map<Tick, number> = new Map();
 
+  public frenzyHashes: Map<Tick, FrenzyHashBreakdown> = new Map();
+
   public reportedWinner: Winner | null = null;
 
   constructor(
@@ -20,5 +24,7 @@ export class Client {
     public readonly username: string,
     public readonly ws: WebSocket,
     public readonly cosmetics: PlayerCosmetics | undefined,
+    public readonly spectator: boolean = false,
+    public readonly ratings: PlayerRatings = {},
   ) {}
 }
@@ -3,8 +3,12 @@ import { Logger } from "winston";
 import WebSocket from "ws";
 import { z } from "zod";
 import { GameEnv, ServerConfig } from "../core/configuration/Config";
-import { GameType } from "../core/game/Game";
+import { diffFrenzyHashes } from "../core/game/frenzy/FrenzyHash";
+import { GameMapType, GameMode, GameType } from "../core/game/Game";
+import { MapPackage } from "../core/game/MapPackage";
+import { PseudoRandom } from "../core/PseudoRandom";
 import {
+  Checkpoint,
   ClientID,
   ClientMessageSchema,
   ClientSendWinnerMessage,
@@ -14,17 +18,28 @@ import {
   GameStartInfoSchema,
   Intent,
   PlayerRecord,
+  ServerDesyncMessage,
   ServerDesyncSchema,
   ServerErrorMessage,
   ServerPrestartMessageSchema,
+  ServerSnapshotRequestMessage,
   ServerStartGameMessage,
   ServerTurnMessage,
+  SNAPSHOT_INTERVAL_TURNS,
   Turn,
 } from "../core/Schemas";
-import { createPartialGameRecord, getClanTag } from "../core/Util";
+import {
+  createPartialGameRecord,
+  getClanTag,
+  humanPlayerIDs,
+  simpleHash,
+} from "../core/Util";
 import { archive, finalizeGameRecord } from "./Archive";
 import { Client } from "./Client";
 import { logGameEnd, logGameStart } from "./GameMetrics";
+import { IntentPolicy, MapBounds } from "./IntentPolicy";
+import { mapBounds } from "./MapBounds";
+import { DEFAULT_RATING, ratingPool, reportRatedResult } from "./Ratings";
 export enum GamePhase {
   Lobby = "LOBBY",
   Active = "ACTIVE",
@@ -41,6 +56,8 @@ export class GameServer {
   private turns: Turn[] = [];
   private intents: Intent[] = [];
   public activeClients: Client[] = [];
+  // Observers; never players, never voters, and fed turns late
+  private spectators: Client[] = [];
   private allClients: Map<ClientID, Client> = new Map();
   private clientsDisconnectedStatus: Map<ClientID, boolean> = new Map();
   private _hasStarted = false;
@@ -64,6 +81,17 @@ export class GameServer {
 
   private websockets: Set<WebSocket> = new Set();
 
+  // Package behind gameConfig.customMap, served to joining clients
+  private customMapPackage: MapPackage | null = null;
+
+  // Snapshot asked of an in-sync client, until it uploads it
+  private snapshotRequest: (Checkpoint & { clientID: ClientID }) | null = null;
+  // Latest uploaded snapshot, kept gzipped as received
+  private checkpoint: (Checkpoint & { data: Buffer }) | null = null;
+
+  // Set up once the game starts and the map is final
+  private intentPolicy: IntentPolicy | null = null;
+
   private winnerVotes: Map<
     string,
     { winner: ClientSendWinnerMessage; ips: Set<string> }
@@ -80,9 +108,38 @@ export class GameServer {
     this.log = log_.child({ gameID: id });
   }
 
+  public isLobbyCreator(clientID: string | undefined): boolean {
+    return clientID !== undefined && clientID === this.lobbyCreatorID;
+  }
+
+  /**
+   * Switches the lobby to an uploaded map. `pkg` must already be validated
+   * and `hash` must be its content hash.
+   */
+  public setCustomMap(pkg: MapPackage, hash: string) {
+    this.customMapPackage = pkg;
+    this.gameConfig.gameMap = GameMapType.Custom;
+    this.gameConfig.customMap = hash;
+    this.log.info("custom map uploaded", {
+      hash,
+      name: pkg.manifest.name,
+    });
+  }
+
+  public customMap(): MapPackage | null {
+    return this.customMapPackage;
+  }
+
   public updateGameConfig(gameConfig: Partial<GameConfig>): void {
-    if (gameConfig.gameMap !== undefined) {
+    // Custom maps are only set through setCustomMap; picking a bundled map
+    // drops the uploaded one
+    if (
+      gameConfig.gameMap !== undefined &&
+      gameConfig.gameMap !== GameMapType.Custom
+    ) {
       this.gameConfig.gameMap = gameConfig.gameMap;
+      this.gameConfig.customMap = undefined;
+      this.customMapPackage = null;
     }
     if (gameConfig.gameMapSize !== undefined) {
       this.gameConfig.gameMapSize = gameConfig.gameMapSize;
@@ -128,6 +185,18 @@ export class GameServer {
     if (gameConfig.playerTeams !== undefined) {
       this.gameConfig.playerTeams = gameConfig.playerTeams;
     }
+
+    if (gameConfig.frenzyOverrides !== undefined) {
+      this.gameConfig.frenzyOverrides = gameConfig.frenzyOverrides;
+    }
+
+    if (gameConfig.spectatorDelay !== undefined) {
+      this.gameConfig.spectatorDelay = gameConfig.spectatorDelay;
+    }
+
+    if (gameConfig.fogOfWar !== undefined) {
+      this.gameConfig.fogOfWar = gameConfig.fogOfWar;
+    }
   }
 
   public addClient(client: Client, lastTurn: number) {
@@ -138,6 +207,10 @@ export class GameServer {
       });
       return;
     }
+    if (client.spectator) {
+      this.addSpectator(client, lastTurn);
+      return;
+    }
     // Log when lobby creator joins private game
     if (client.clientID === this.lobbyCreatorID) {
       this.log.info("Lobby creator joined", {
@@ -285,6 +358,9 @@ export class GameServer {
                 return;
               }
               default: {
+                if (this.rejectIntent(client, clientMsg.intent)) {
+                  return;
+                }
                 this.addIntent(clientMsg.intent);
                 break;
               }
@@ -298,6 +374,12 @@ export class GameServer {
           }
           case "hash": {
             client.hashes.set(clientMsg.turnNumber, clientMsg.hash);
+            if (clientMsg.frenzyHashes !== undefined) {
+              client.frenzyHashes.set(
+                clientMsg.turnNumber,
+                clientMsg.frenzyHashes,
+              );
+            }
             // Diagnostic: check if client is significantly behind
             const turnsBehind = this.turns.length - clientMsg.turnNumber;
             if (turnsBehind > 30) {
@@ -345,9 +427,60 @@ export class GameServer {
       }
     });
 
+    this.catchUp(client, lastTurn);
+  }
+
+  /**
+   * Spectators get the turns `spectatorDelay` seconds behind the players.
+   * Everything they send except pings is dropped, so they cannot act in the
+   * game, vote on hashes or report winners.
+   */
+  private addSpectator(client: Client, lastTurn: number) {
+    if (this.activeClients.some((c) => c.clientID === client.clientID)) {
+      this.log.warn("cannot spectate, client is a player", {
+        clientID: client.clientID,
+      });
+      return;
+    }
+    this.log.info("spectator (re)joining game", {
+      clientID: client.clientID,
+      persistentID: client.persistentID,
+      clientIP: ipAnonymize(client.ip),
+      isRejoin: lastTurn > 0,
+    });
+    this.spectators = this.spectators.filter(
+      (c) => c.clientID !== client.clientID,
+    );
+    this.spectators.push(client);
+    client.lastPing = Date.now();
+
+    client.ws.removeAllListeners("message");
+    client.ws.on("message", (message: string) => {
+      try {
+        const parsed = ClientMessageSchema.safeParse(JSON.parse(message));
+        if (parsed.success && parsed.data.type === "ping") {
+          client.lastPing = Date.now();
+        }
+      } catch {
+        // ignore
+      }
+    });
+    client.ws.on("close", () => {
+      this.spectators = this.spectators.filter((c) => c !== client);
+    });
+
+    this.catchUp(client, lastTurn);
+  }
+
+  // Sends a (re)joining client whatever it missed before the next turn
+  private catchUp(client: Client, lastTurn: number) {
     // In case a client joined the game late and missed the start message.
     if (this._hasStarted) {
-      this.sendStartGameMsg(client.ws, lastTurn);
+      this.sendStartGameMsg(
+        client.ws,
+        lastTurn,
+        client.spectator ? this.spectatorTurnCount() : this.turns.length,
+      );
     }
 
     // If the game is in the prestart window, ensure late-joining clients still
@@ -368,10 +501,84 @@ export class GameServer {
     }
   }
 
+  /**
+   * Takes the upload for the outstanding snapshot request. Returns why the
+   * upload was refused, or null once it is the game's checkpoint.
+   */
+  public acceptSnapshot(
+    clientID: string | undefined,
+    turn: number,
+    data: Buffer,
+  ): string | null {
+    const request = this.snapshotRequest;
+    if (
+      request === null ||
+      request.clientID !== clientID ||
+      request.turn !== turn
+    ) {
+      return "No snapshot was requested";
+    }
+    this.snapshotRequest = null;
+    this.checkpoint = { turn, hash: request.hash, data };
+    this.log.info("snapshot uploaded", {
+      clientID,
+      turn,
+      bytes: data.length,
+    });
+    return null;
+  }
+
+  public snapshot(): (Checkpoint & { data: Buffer }) | null {
+    return this.checkpoint;
+  }
+
+  /**
+   * Once the clients have voted on the hash of a snapshot turn, asks one
+   * that agrees with the vote for the snapshot it kept right after it.
+   */
+  private requestSnapshot() {
+    const hashTurn = this.turns.length - 10;
+    if (hashTurn <= 0 || hashTurn % SNAPSHOT_INTERVAL_TURNS !== 0) {
+      return;
+    }
+    const { mostCommonHash } = this.findOutOfSyncClients(hashTurn);
+    const provider = this.activeClients.find(
+      (c) =>
+        !this.outOfSyncClients.has(c.clientID) &&
+        c.hashes.get(hashTurn) === mostCommonHash,
+    );
+    if (mostCommonHash === null || provider === undefined) {
+      return;
+    }
+    this.snapshotRequest = {
+      turn: hashTurn + 1,
+      hash: mostCommonHash,
+      clientID: provider.clientID,
+    };
+    provider.ws.send(
+      JSON.stringify({
+        type: "snapshot_request",
+        turn: hashTurn + 1,
+      } satisfies ServerSnapshotRequestMessage),
+    );
+  }
+
   public numClients(): number {
     return this.activeClients.length;
   }
 
+  private spectatorDelayTurns(): number {
+    return Math.ceil(
+      ((this.gameConfig.spectatorDelay ?? 0) * 1000) /
+        this.config.turnIntervalMs(),
+    );
+  }
+
+  // Number of turns spectators may see
+  private spectatorTurnCount(): number {
+    return Math.max(0, this.turns.length - this.spectatorDelayTurns());
+  }
+
   public startTime(): number {
     if (this._startTime !== null && this._startTime > 0) {
       return this._startTime;
@@ -411,6 +618,7 @@ export class GameServer {
       });
       c.ws.send(msg);
     });
+    this.spectators.forEach((c) => c.ws.send(msg));
   }
 
   public start() {
@@ -431,6 +639,7 @@ export class GameServer {
         username: c.username,
         clientID: c.clientID,
         cosmetics: c.cosmetics,
+        rating: this.ratingOf(c),
       })),
     });
     if (!result.success) {
@@ -439,6 +648,14 @@ export class GameServer {
       return;
     }
     this.gameStartInfo = result.data satisfies GameStartInfo;
+    this.intentPolicy = new IntentPolicy(
+      this.mapBounds(),
+      humanPlayerIDs(
+        new PseudoRandom(simpleHash(this.id)),
+        this.gameStartInfo.players,
+      ),
+      this.config.intentKickThreshold(this.gameConfig.gameType),
+    );
 
     // Log game start metrics
     logGameStart({
@@ -460,20 +677,60 @@ export class GameServer {
       });
       this.sendStartGameMsg(c.ws, 0);
     });
+    this.spectators.forEach((c) => this.sendStartGameMsg(c.ws, 0, 0));
+  }
+
+  // Applies the intent policy; true if the intent must be dropped
+  private rejectIntent(client: Client, intent: Intent): boolean {
+    const rejection = this.intentPolicy?.check(client.clientID, intent);
+    if (!rejection) {
+      return false;
+    }
+    // Spammers would flood the log otherwise
+    if (rejection.violations === 1 || rejection.violations % 10 === 0) {
+      this.log.warn("intent rejected", {
+        clientID: client.clientID,
+        persistentID: client.persistentID,
+        intentType: intent.type,
+        reason: rejection.reason,
+        violations: rejection.violations,
+      });
+    }
+    if (rejection.kick) {
+      this.log.warn("kicking client for rejected intents", {
+        clientID: client.clientID,
+        persistentID: client.persistentID,
+        violations: rejection.violations,
+      });
+      this.kickClient(client.clientID);
+    }
+    return true;
   }
 
   private addIntent(intent: Intent) {
     this.intents.push(intent);
   }
 
-  private sendStartGameMsg(ws: WebSocket, lastTurn: number) {
+  private sendStartGameMsg(
+    ws: WebSocket,
+    lastTurn: number,
+    endTurn: number = this.turns.length,
+  ) {
+    // Only useful to clients that would otherwise replay its turns
+    const checkpoint =
+      this.checkpoint !== null &&
+      lastTurn < this.checkpoint.turn &&
+      this.checkpoint.turn <= endTurn
+        ? { turn: this.checkpoint.turn, hash: this.checkpoint.hash }
+        : undefined;
     try {
       ws.send(
         JSON.stringify({
           type: "start",
-          turns: this.turns.slice(lastTurn),
+          turns: this.turns.slice(lastTurn, endTurn),
           gameStartInfo: this.gameStartInfo,
           lobbyCreatedAt: this.createdAt,
+          checkpoint,
         } satisfies ServerStartGameMessage),
       );
     } catch (error) {
@@ -495,6 +752,7 @@ export class GameServer {
     this.intents = [];
 
     this.handleSynchronization();
+    this.requestSnapshot();
     this.checkDisconnectedStatus();
 
     const msg = JSON.stringify({
@@ -504,6 +762,47 @@ export class GameServer {
     this.activeClients.forEach((c) => {
       c.ws.send(msg);
     });
+
+    const visible = this.spectatorTurnCount();
+    if (this.spectators.length > 0 && visible > 0) {
+      const spectatorMsg =
+        visible === this.turns.length
+          ? msg
+          : JSON.stringify({
+              type: "turn",
+              turn: this.turns[visible - 1],
+            } satisfies ServerTurnMessage);
+      this.spectators.forEach((c) => c.ws.send(spectatorMsg));
+    }
+  }
+
+  private mapBounds(): MapBounds | null {
+    try {
+      return mapBounds(
+        this.config.mapsPath(),
+        this.gameConfig.gameMap,
+        this.gameConfig.gameMapSize,
+        this.customMapPackage,
+      );
+    } catch (error) {
+      this.log.error(`Unknown map size, bounding intents loosely: ${error}`);
+      return null;
+    }
+  }
+
+  // Once the game is over there is nothing left to hide from spectators
+  private flushSpectatorTurns() {
+    const spectators = this.spectators.filter(
+      (c) => c.ws.readyState === WebSocket.OPEN,
+    );
+    if (spectators.length === 0) return;
+    for (const turn of this.turns.slice(this.spectatorTurnCount())) {
+      const msg = JSON.stringify({
+        type: "turn",
+        turn,
+      } satisfies ServerTurnMessage);
+      spectators.forEach((c) => c.ws.send(msg));
+    }
   }
 
   async end() {
@@ -511,6 +810,7 @@ export class GameServer {
     if (this.endTurnIntervalID) {
       clearInterval(this.endTurnIntervalID);
     }
+    this.flushSpectatorTurns();
     this.websockets.forEach((ws) => {
       if (ws.readyState === WebSocket.OPEN) {
         ws.close(1000, "game has ended");
@@ -586,6 +886,13 @@ export class GameServer {
       }
     }
     this.activeClients = alive;
+    this.spectators = this.spectators.filter((c) => {
+      if (now - c.lastPing <= 60_000) return true;
+      if (c.ws.readyState === WebSocket.OPEN) {
+        c.ws.close(1000, "no heartbeats received, closing connection");
+      }
+      return false;
+    });
     if (now > this.createdAt + this.maxGameDuration) {
       this.log.warn("game past max duration", {
         gameID: this.id,
@@ -639,7 +946,9 @@ export class GameServer {
       clients: this.activeClients.map((c) => ({
         username: c.username,
         clientID: c.clientID,
+        rating: this.ratingOf(c),
       })),
+      numSpectators: this.spectators.length,
       gameConfig: this.gameConfig,
       msUntilStart: this.isPublic()
         ? this.createdAt + this.config.gameCreationRate()
@@ -738,20 +1047,29 @@ export class GameServer {
         } satisfies PlayerRecord;
       },
     );
-    archive(
-      finalizeGameRecord(
-        createPartialGameRecord(
-          this.id,
-          this.gameStartInfo.config,
-          playerRecords,
-          this.turns,
-          this._startTime ?? 0,
-          Date.now(),
-          this.winner?.winner,
-          this.createdAt,
-        ),
+    const record = finalizeGameRecord(
+      createPartialGameRecord(
+        this.id,
+        this.gameStartInfo.config,
+        playerRecords,
+        this.turns,
+        this._startTime ?? 0,
+        Date.now(),
+        this.winner?.winner,
+        this.createdAt,
+        this.customMapPackage ?? undefined,
       ),
     );
+    archive(record);
+    reportRatedResult(record);
+  }
+
+  // Only team games use ratings, to balance the teams
+  private ratingOf(client: Client): number | undefined {
+    if (this.gameConfig.gameMode !== GameMode.Team) {
+      return undefined;
+    }
+    return client.ratings[ratingPool(this.gameConfig)] ?? DEFAULT_RATING;
   }
 
   private handleSynchronization() {
@@ -773,35 +1091,50 @@ export class GameServer {
       return;
     }
 
-    const serverDesync = ServerDesyncSchema.safeParse({
-      type: "desync",
-      turn: lastHashTurn,
-      correctHash: mostCommonHash,
-      clientsWithCorrectHash:
-        this.activeClients.length - outOfSyncClients.length,
-      totalActiveClients: this.activeClients.length,
-    });
-    if (!serverDesync.success) {
-      this.log.warn("failed to create desync message", {
-        gameID: this.id,
-        error: serverDesync.error,
-      });
-      return;
-    }
+    const correctFrenzyHashes = this.activeClients
+      .find((c) => c.hashes.get(lastHashTurn) === mostCommonHash)
+      ?.frenzyHashes.get(lastHashTurn);
 
-    const desyncMsg = JSON.stringify(serverDesync.data);
     for (const c of outOfSyncClients) {
       this.outOfSyncClients.add(c.clientID);
       if (this.sentDesyncMessageClients.has(c.clientID)) {
         continue;
       }
+
+      const yourFrenzyHashes = c.frenzyHashes.get(lastHashTurn);
+      const driftedFrenzySubsystems =
+        correctFrenzyHashes !== undefined && yourFrenzyHashes !== undefined
+          ? diffFrenzyHashes(correctFrenzyHashes, yourFrenzyHashes)
+          : undefined;
+
+      const serverDesync = ServerDesyncSchema.safeParse({
+        type: "desync",
+        turn: lastHashTurn,
+        correctHash: mostCommonHash,
+        clientsWithCorrectHash:
+          this.activeClients.length - outOfSyncClients.length,
+        totalActiveClients: this.activeClients.length,
+        yourHash: c.hashes.get(lastHashTurn),
+        correctFrenzyHashes,
+        yourFrenzyHashes,
+        driftedFrenzySubsystems,
+      } satisfies ServerDesyncMessage);
+      if (!serverDesync.success) {
+        this.log.warn("failed to create desync message", {
+          gameID: this.id,
+          error: serverDesync.error,
+        });
+        continue;
+      }
+
       this.sentDesyncMessageClients.add(c.clientID);
       this.log.info("sending desync to client", {
         gameID: this.id,
         clientID: c.clientID,
         persistentID: c.persistentID,
+        driftedFrenzySubsystems,
       });
-      c.ws.send(desyncMsg);
+      c.ws.send(JSON.stringify(serverDesync.data));
     }
   }
 
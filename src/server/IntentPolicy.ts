@@ -0,0 +1,265 @@
+import { PlayerID } from "../core/game/Game";
+import { ClientID, Intent } from "../core/Schemas";
+
+/**
+ * Token bucket limits for one intent type: `burst` intents at once, refilled
+ * at `perSecond`.
+ */
+export interface IntentRate {
+  burst: number;
+  perSecond: number;
+}
+
+// Generous enough for the fastest legitimate play, including unit orders
+// split into several intents by the client
+const DEFAULT_RATE: IntentRate = { burst: 40, perSecond: 15 };
+
+export const INTENT_RATES: Partial<Record<Intent["type"], IntentRate>> = {
+  emoji: { burst: 3, perSecond: 0.5 },
+  quick_chat: { burst: 3, perSecond: 0.5 },
+  map_ping: { burst: 3, perSecond: 0.5 },
+  allianceRequest: { burst: 5, perSecond: 1 },
+  donate_gold: { burst: 5, perSecond: 2 },
+  donate_troops: { burst: 5, perSecond: 2 },
+  upgrade_frenzy_unit: { burst: 20, perSecond: 5 },
+  sell_frenzy_structure: { burst: 10, perSecond: 3 },
+  spawn: { burst: 5, perSecond: 2 },
+};
+
+// Rejections within this window count towards the kick threshold
+export const VIOLATION_WINDOW_MS = 60_000;
+
+// Larger than any built-in map (giantworldmap is 4108 x 1948), used when
+// the server does not know the map's size
+const MAX_MAP_SIDE = 8192;
+
+// Longest unit or structure type name accepted in Frenzy intents
+const MAX_TYPE_NAME = 32;
+
+export interface MapBounds {
+  width: number;
+  height: number;
+}
+
+class TokenBucket {
+  private tokens: number;
+
+  constructor(
+    private rate: IntentRate,
+    private updatedAt: number,
+  ) {
+    this.tokens = rate.burst;
+  }
+
+  take(now: number): boolean {
+    const elapsed = Math.max(0, now - this.updatedAt) / 1000;
+    this.tokens = Math.min(
+      this.rate.burst,
+      this.tokens + elapsed * this.rate.perSecond,
+    );
+    this.updatedAt = now;
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens--;
+    return true;
+  }
+}
+
+export interface IntentRejection {
+  reason: string;
+  // Rejections of this client within the window, this one included
+  violations: number;
+  // The client went over the kick threshold
+  kick: boolean;
+}
+
+/**
+ * Checks client intents before the server puts them into turns: rate
+ * limits per intent type, bounds on payloads, and the ownership checks the
+ * server can derive without running the game. It knows every human's
+ * player ID, so intents aimed at another player may not name the sender.
+ * Unit IDs, structure tiles and bot or nation IDs exist only in the
+ * simulation, which checks those itself.
+ */
+export class IntentPolicy {
+  private buckets = new Map<ClientID, Map<Intent["type"], TokenBucket>>();
+  private violations = new Map<ClientID, number[]>();
+
+  /**
+   * @param playerIDs Player ID of each human client in the game
+   * @param kickThreshold Rejections within VIOLATION_WINDOW_MS that get a
+   *   client kicked; 0 never kicks
+   */
+  constructor(
+    private bounds: MapBounds | null,
+    private playerIDs: ReadonlyMap<ClientID, PlayerID>,
+    private kickThreshold: number,
+    private now: () => number = Date.now,
+  ) {}
+
+  /** Null if the intent may go into the next turn. */
+  check(clientID: ClientID, intent: Intent): IntentRejection | null {
+    const now = this.now();
+    const reason =
+      this.payloadError(intent) ??
+      this.targetError(clientID, intent) ??
+      this.rateError(clientID, intent, now);
+    if (reason === null) {
+      return null;
+    }
+    const recent = (this.violations.get(clientID) ?? []).filter(
+      (t) => now - t < VIOLATION_WINDOW_MS,
+    );
+    recent.push(now);
+    this.violations.set(clientID, recent);
+    return {
+      reason,
+      violations: recent.length,
+      kick: this.kickThreshold > 0 && recent.length >= this.kickThreshold,
+    };
+  }
+
+  private rateError(
+    clientID: ClientID,
+    intent: Intent,
+    now: number,
+  ): string | null {
+    let buckets = this.buckets.get(clientID);
+    if (buckets === undefined) {
+      buckets = new Map();
+      this.buckets.set(clientID, buckets);
+    }
+    let bucket = buckets.get(intent.type);
+    if (bucket === undefined) {
+      bucket = new TokenBucket(INTENT_RATES[intent.type] ?? DEFAULT_RATE, now);
+      buckets.set(intent.type, bucket);
+    }
+    return bucket.take(now) ? null : `too many ${intent.type} intents`;
+  }
+
+  private payloadError(intent: Intent): string | null {
+    switch (intent.type) {
+      case "spawn":
+      case "build_unit":
+      case "move_warship":
+      case "upgrade_factory":
+      case "upgrade_mine":
+      case "upgrade_port":
+        return this.tileError(intent.tile);
+      case "boat":
+        return (
+          this.tileError(intent.dst) ??
+          (intent.src === null ? null : this.tileError(intent.src)) ??
+          amountError(intent.troops)
+        );
+      case "attack":
+        return (
+          (intent.troops === null ? null : amountError(intent.troops)) ??
+          this.optionalPointError(intent.targetX, intent.targetY)
+        );
+      case "donate_gold":
+        return intent.gold === null ? null : amountError(intent.gold);
+      case "donate_troops":
+        return intent.troops === null ? null : amountError(intent.troops);
+      case "move_transporter":
+        return (
+          this.pointError(intent.targetX, intent.targetY) ??
+          (intent.unitCount === undefined
+            ? null
+            : amountError(intent.unitCount))
+        );
+      case "map_ping":
+        return this.pointError(intent.x, intent.y);
+      case "sell_frenzy_structure":
+        return (
+          this.pointError(intent.x, intent.y) ??
+          typeNameError(intent.structureType)
+        );
+      case "upgrade_frenzy_unit":
+        return typeNameError(intent.unitType);
+      case "frenzy_unit_order":
+        if (new Set(intent.unitIds).size !== intent.unitIds.length) {
+          return "duplicate unit ids";
+        }
+        return this.optionalPointError(intent.targetX, intent.targetY);
+      default:
+        return null;
+    }
+  }
+
+  // Players cannot attack, ally with, embargo or donate to themselves
+  private targetError(clientID: ClientID, intent: Intent): string | null {
+    let target: PlayerID | null;
+    switch (intent.type) {
+      case "attack":
+      case "boat":
+      case "embargo":
+        target = intent.targetID;
+        break;
+      case "allianceRequest":
+      case "allianceExtension":
+      case "breakAlliance":
+      case "donate_gold":
+      case "donate_troops":
+        target = intent.recipient;
+        break;
+      case "allianceRequestReply":
+        target = intent.requestor;
+        break;
+      case "targetPlayer":
+        target = intent.target;
+        break;
+      default:
+        return null;
+    }
+    return target !== null && target === this.playerIDs.get(clientID)
+      ? `${intent.type} targets the sender`
+      : null;
+  }
+
+  private mapSize(): MapBounds {
+    return this.bounds ?? { width: MAX_MAP_SIDE, height: MAX_MAP_SIDE };
+  }
+
+  private tileError(tile: number): string | null {
+    const { width, height } = this.mapSize();
+    return Number.isInteger(tile) && tile >= 0 && tile < width * height
+      ? null
+      : `tile ${tile} is off the map`;
+  }
+
+  private pointError(x: number, y: number): string | null {
+    const { width, height } = this.mapSize();
+    return Number.isFinite(x) &&
+      Number.isFinite(y) &&
+      x >= 0 &&
+      y >= 0 &&
+      x <= width &&
+      y <= height
+      ? null
+      : `point (${x}, ${y}) is off the map`;
+  }
+
+  private optionalPointError(x?: number, y?: number): string | null {
+    if (x === undefined && y === undefined) {
+      return null;
+    }
+    if (x === undefined || y === undefined) {
+      return "point is missing a coordinate";
+    }
+    return this.pointError(x, y);
+  }
+}
+
+function amountError(amount: number): string | null {
+  return Number.isFinite(amount) && amount >= 0
+    ? null
+    : `amount ${amount} is out of range`;
+}
+
+function typeNameError(name: string): string | null {
+  return name.length > 0 && name.length <= MAX_TYPE_NAME
+    ? null
+    : "unknown unit type";
+}
@@ -0,0 +1,195 @@
+import fs from "fs/promises";
+import path from "path";
+import { promisify } from "util";
+import zlib from "zlib";
+import {
+  ClientID,
+  GameID,
+  GameRecord,
+  GameRecordSchema,
+} from "../core/Schemas";
+import { replacer } from "../core/Util";
+import {
+  ArchivedGameSummary,
+  ArchiveQuery,
+  ArchiveStore,
+} from "./ArchiveStore";
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+const DAY_DIR = /^\d{4}-\d{2}-\d{2}$/;
+const INDEX_FILE = "index.jsonl";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_LIST_LIMIT = 50;
+
+/**
+ * Stores game records as `<root>/<YYYY-MM-DD>/<gameID>.json.gz`, dated by
+ * game start (UTC). Each day directory has an append-only `index.jsonl` of
+ * summaries for listing, so several worker processes can write at once and
+ * retention drops whole days without rewriting anything.
+ */
+export class LocalArchiveStore implements ArchiveStore {
+  private lastPrune = 0;
+
+  constructor(
+    private readonly root: string,
+    private readonly retentionDays: number = 0,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async write(record: GameRecord): Promise<void> {
+    const dir = path.join(this.root, dayOf(record.info.start));
+    await fs.mkdir(dir, { recursive: true });
+
+    const file = path.join(dir, `${record.info.gameID}.json.gz`);
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, await gzip(JSON.stringify(record, replacer)));
+    await fs.rename(tmp, file);
+
+    // Single small appends are atomic, so concurrent writers never interleave
+    await fs.appendFile(
+      path.join(dir, INDEX_FILE),
+      JSON.stringify(summarize(record)) + "\n",
+    );
+
+    if (this.now() - this.lastPrune >= PRUNE_INTERVAL_MS) {
+      await this.prune();
+    }
+  }
+
+  async read(gameID: GameID): Promise<GameRecord | null> {
+    for (const day of await this.days()) {
+      let compressed: Buffer;
+      try {
+        compressed = await fs.readFile(
+          path.join(this.root, day, `${gameID}.json.gz`),
+        );
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") continue;
+        throw error;
+      }
+      const json = JSON.parse((await gunzip(compressed)).toString("utf8"));
+      return GameRecordSchema.parse(json);
+    }
+    return null;
+  }
+
+  /**
+   * Newest games first. `player` matches a client ID or username
+   * (case-insensitive), `winner` the same but only among the winners.
+   */
+  async list(query: ArchiveQuery): Promise<ArchivedGameSummary[]> {
+    const limit = query.limit ?? DEFAULT_LIST_LIMIT;
+    const results: ArchivedGameSummary[] = [];
+    for (const day of await this.days()) {
+      let lines: string[];
+      try {
+        const index = await fs.readFile(
+          path.join(this.root, day, INDEX_FILE),
+          "utf8",
+        );
+        lines = index.split("\n").filter((line) => line.length > 0);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") continue;
+        throw error;
+      }
+      const summaries = lines
+        .map((line) => JSON.parse(line) as ArchivedGameSummary)
+        .filter((summary) => matches(summary, query))
+        .sort((a, b) => b.start - a.start);
+      for (const summary of summaries) {
+        results.push(summary);
+        if (results.length >= limit) return results;
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Deletes day directories older than `retentionDays`.
+   */
+  async prune(): Promise<void> {
+    this.lastPrune = this.now();
+    if (this.retentionDays <= 0) {
+      return;
+    }
+    const cutoff = dayOf(this.now() - this.retentionDays * DAY_MS);
+    for (const day of await this.days()) {
+      if (day < cutoff) {
+        await fs.rm(path.join(this.root, day), {
+          recursive: true,
+          force: true,
+        });
+      }
+    }
+  }
+
+  // Day directories, newest first
+  private async days(): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.root);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+    return entries
+      .filter((e) => DAY_DIR.test(e))
+      .sort((a, b) => (a < b ? 1 : -1));
+  }
+}
+
+function dayOf(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function summarize(record: GameRecord): ArchivedGameSummary {
+  const winner = record.info.winner;
+  let winners: ClientID[] = [];
+  if (winner !== undefined) {
+    // ["player", id, ...] or ["team", team, ...ids]
+    winners = (
+      winner[0] === "player" ? winner.slice(1) : winner.slice(2)
+    ) as ClientID[];
+  }
+  return {
+    gameID: record.info.gameID,
+    start: record.info.start,
+    end: record.info.end,
+    gameMap: record.info.config.gameMap,
+    gameMode: record.info.config.gameMode,
+    players: record.info.players.map((p) => ({
+      clientID: p.clientID,
+      username: p.username,
+    })),
+    winners,
+  };
+}
+
+function matches(summary: ArchivedGameSummary, query: ArchiveQuery): boolean {
+  if (query.gameMap !== undefined && summary.gameMap !== query.gameMap) {
+    return false;
+  }
+  const isPlayer = (needle: string, clientID: ClientID) => {
+    const player = summary.players.find((p) => p.clientID === clientID);
+    return (
+      clientID === needle ||
+      player?.username.toLowerCase() === needle.toLowerCase()
+    );
+  };
+  if (
+    query.player !== undefined &&
+    !summary.players.some((p) => isPlayer(query.player!, p.clientID))
+  ) {
+    return false;
+  }
+  if (
+    query.winner !== undefined &&
+    !summary.winners.some((id) => isPlayer(query.winner!, id))
+  ) {
+    return false;
+  }
+  return true;
+}
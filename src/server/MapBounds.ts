@@ -0,0 +1,43 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { GameMapSize, GameMapType } from "../core/game/Game";
+import { MapManifestSchema, MapPackage } from "../core/game/MapPackage";
+import { MapBounds } from "./IntentPolicy";
+
+const SizesSchema = MapManifestSchema.pick({ map: true, map4x: true });
+type MapSizes = z.infer<typeof SizesSchema>;
+
+// Built-in maps never change while the server runs
+const builtInSizes = new Map<GameMapType, MapSizes>();
+
+/**
+ * Size of the map a game is played on: the full map, or its 4x downscale in
+ * compact games. Built-in manifests are read from `mapsPath` once per map.
+ */
+export function mapBounds(
+  mapsPath: string,
+  map: GameMapType,
+  size: GameMapSize,
+  customMap: MapPackage | null,
+): MapBounds {
+  const sizes = customMap?.manifest ?? builtInMapSizes(mapsPath, map);
+  const { width, height } =
+    size === GameMapSize.Compact ? sizes.map4x : sizes.map;
+  return { width, height };
+}
+
+function builtInMapSizes(mapsPath: string, map: GameMapType): MapSizes {
+  const cached = builtInSizes.get(map);
+  if (cached !== undefined) return cached;
+  const key = Object.keys(GameMapType).find(
+    (k) => GameMapType[k as keyof typeof GameMapType] === map,
+  );
+  if (key === undefined || map === GameMapType.Custom) {
+    throw new Error(`No built-in map for ${map}`);
+  }
+  const file = path.join(mapsPath, key.toLowerCase(), "manifest.json");
+  const sizes = SizesSchema.parse(JSON.parse(fs.readFileSync(file, "utf8")));
+  builtInSizes.set(map, sizes);
+  return sizes;
+}
@@ -1,3 +1,6 @@
+import fs from "fs";
+import { Logger } from "winston";
+import { z } from "zod";
 import {
   Difficulty,
   GameFork,
@@ -7,69 +10,218 @@ import {
   GameType,
   UnitType,
 } from "../core/game/Game";
-import { GameConfig } from "../core/Schemas";
-
-// Frenzy map rotation (CircleMap and SquareMap) with max 20 players
-// Bots are set to 10 here; the actual number spawned will be 10 - numRealPlayers
-// (calculated in GameRunner.init())
-const FRENZY_MAP_MAX_PLAYERS = 20;
-const FRENZY_BOT_TARGET = 10;
-const FRENZY_MAPS = [
-  GameMapType.World,
-  GameMapType.EuropeClassic,
-  GameMapType.CircleMap,
-  GameMapType.SquareMap,
-];
+import {
+  FrenzyOverridesSchema,
+  GameConfig,
+  GameConfigSchema,
+} from "../core/Schemas";
+
+// How many picks ahead the rotation is drawn and published
+const UPCOMING_LENGTH = 5;
+
+const PlaylistEntrySchema = z
+  .object({
+    gameMap: z.enum(GameMapType),
+    // Relative odds of being drawn
+    weight: z.number().positive().default(1),
+    gameMapSize: z.enum(GameMapSize).default(GameMapSize.Normal),
+    maxPlayers: z.number().int().min(2).max(200).default(20),
+    // Actual bots = target - numRealPlayers (calculated in GameRunner)
+    bots: GameConfigSchema.shape.bots.default(10),
+    gameMode: z.enum(GameMode).default(GameMode.FFA),
+    playerTeams: GameConfigSchema.shape.playerTeams,
+    disabledUnits: z
+      .enum(UnitType)
+      .array()
+      .default([UnitType.MIRV, UnitType.MIRVWarhead]),
+    frenzyOverrides: FrenzyOverridesSchema.optional(),
+  })
+  .strict()
+  .refine((e) => e.gameMode === GameMode.Team || e.playerTeams === undefined, {
+    message: "playerTeams requires gameMode Team",
+  });
+export type PlaylistEntry = z.infer<typeof PlaylistEntrySchema>;
+
+export const PlaylistSchema = z
+  .object({
+    // A map is not drawn again until this many other games have been played
+    noRepeatWithin: z.number().int().min(0).default(0),
+    entries: PlaylistEntrySchema.array().min(1),
+  })
+  .strict();
+export type Playlist = z.infer<typeof PlaylistSchema>;
+
+// Used when the playlist file is missing or invalid at startup
+export const DEFAULT_PLAYLIST: Playlist = PlaylistSchema.parse({
+  entries: [
+    { gameMap: GameMapType.World },
+    { gameMap: GameMapType.EuropeClassic },
+    { gameMap: GameMapType.CircleMap },
+    { gameMap: GameMapType.SquareMap },
+  ],
+});
 
+/**
+ * Reads and validates a playlist definition, throwing a readable error.
+ */
+export function readPlaylistFile(file: string): Playlist {
+  const json = JSON.parse(fs.readFileSync(file, "utf8"));
+  const result = PlaylistSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(`${file}: ${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Reads the playlist at `file` for a server process. Returns null, after
+ * logging why, when the file is missing or invalid; `fallback` describes what
+ * the caller does instead.
+ */
+export function loadPlaylist(
+  file: string,
+  log: Logger,
+  fallback: string,
+): Playlist | null {
+  if (!fs.existsSync(file)) {
+    log.info(`No playlist configured at ${file}, ${fallback}`);
+    return null;
+  }
+  try {
+    return readPlaylistFile(file);
+  } catch (error) {
+    log.error(`Invalid playlist, ${fallback}: ${error}`);
+    return null;
+  }
+}
+
+export interface UpcomingGame {
+  gameMap: GameMapType;
+  gameMode: GameMode;
+  playerTeams?: GameConfig["playerTeams"];
+  maxPlayers: number;
+}
+
+/**
+ * Weighted public-lobby rotation. Upcoming picks are drawn ahead of time so
+ * the rotation can be published, and honour `noRepeatWithin` across both
+ * played and queued games.
+ */
 export class MapPlaylist {
-  private currentMapIndex = 0;
+  private playlist: Playlist;
+  // Most recent last
+  private played: PlaylistEntry[] = [];
+  private upcoming: PlaylistEntry[] = [];
 
-  constructor(private disableTeams: boolean = false) {}
+  constructor(
+    private disableTeams: boolean = false,
+    playlist: Playlist = DEFAULT_PLAYLIST,
+    private random: () => number = Math.random,
+  ) {
+    this.playlist = playlist;
+    this.fill();
+  }
 
-  public getCurrentMapIndex(): number {
-    return this.currentMapIndex;
+  /**
+   * Swaps in a new definition. Queued picks are redrawn, history is kept so
+   * `noRepeatWithin` still applies across the reload.
+   */
+  public setPlaylist(playlist: Playlist): void {
+    this.playlist = playlist;
+    this.upcoming = [];
+    this.fill();
   }
 
-  public setMapIndex(index: number): void {
-    this.currentMapIndex =
-      ((index % FRENZY_MAPS.length) + FRENZY_MAPS.length) % FRENZY_MAPS.length;
+  /**
+   * Takes the next game off the rotation.
+   */
+  public nextGameConfig(): GameConfig {
+    const entry = this.upcoming.shift()!;
+    this.played.push(entry);
+    this.played = this.played.slice(
+      -Math.max(UPCOMING_LENGTH, this.playlist.noRepeatWithin),
+    );
+    this.fill();
+    return toGameConfig(entry);
   }
 
-  public nextMap(): void {
-    this.currentMapIndex = (this.currentMapIndex + 1) % FRENZY_MAPS.length;
+  /**
+   * Puts the most recently taken game back at the front of the rotation.
+   */
+  public rewind(): void {
+    const entry = this.played.pop();
+    if (entry !== undefined) {
+      this.upcoming.unshift(entry);
+      this.upcoming.length = UPCOMING_LENGTH;
+    }
   }
 
-  public previousMap(): void {
-    this.currentMapIndex =
-      (this.currentMapIndex - 1 + FRENZY_MAPS.length) % FRENZY_MAPS.length;
+  public upcomingGames(): UpcomingGame[] {
+    return this.upcoming.map((e) => ({
+      gameMap: e.gameMap,
+      gameMode: e.gameMode,
+      playerTeams: e.playerTeams,
+      maxPlayers: e.maxPlayers,
+    }));
   }
 
-  public getMapList(): typeof FRENZY_MAPS {
-    return FRENZY_MAPS;
+  private fill() {
+    while (this.upcoming.length < UPCOMING_LENGTH) {
+      this.upcoming.push(this.draw());
+    }
   }
 
-  public gameConfig(): GameConfig {
-    // Use the current map from the playlist
-    const selectedMap = FRENZY_MAPS[this.currentMapIndex];
-    return {
-      donateGold: false,
-      donateTroops: false,
-      gameMap: selectedMap,
-      maxPlayers: FRENZY_MAP_MAX_PLAYERS,
-      gameType: GameType.Public,
-      gameFork: GameFork.Frenzy,
-      gameMapSize: GameMapSize.Normal,
-      difficulty: Difficulty.Medium,
-      infiniteGold: false,
-      infiniteTroops: false,
-      maxTimerValue: undefined,
-      instantBuild: false,
-      randomSpawn: false,
-      disableNPCs: false,
-      gameMode: GameMode.FFA,
-      playerTeams: undefined,
-      bots: FRENZY_BOT_TARGET, // Actual bots = 10 - numRealPlayers (calculated in GameRunner)
-      disabledUnits: [UnitType.MIRV, UnitType.MIRVWarhead], // MIRVs removed from Frenzy
-    } satisfies GameConfig;
+  private draw(): PlaylistEntry {
+    let entries = this.playlist.entries;
+    if (this.disableTeams) {
+      const ffa = entries.filter((e) => e.gameMode !== GameMode.Team);
+      // A teams-only playlist still has to produce games
+      entries = ffa.length > 0 ? ffa : entries;
+    }
+
+    const window = this.playlist.noRepeatWithin;
+    const recent =
+      window === 0
+        ? []
+        : [...this.played, ...this.upcoming]
+            .slice(-window)
+            .map((e) => e.gameMap);
+    const fresh = entries.filter((e) => !recent.includes(e.gameMap));
+    // Too few distinct maps to honour the rule: fall back to all entries
+    const candidates = fresh.length > 0 ? fresh : entries;
+
+    const total = candidates.reduce((sum, e) => sum + e.weight, 0);
+    let roll = this.random() * total;
+    for (const entry of candidates) {
+      roll -= entry.weight;
+      if (roll < 0) {
+        return entry;
+      }
+    }
+    return candidates[candidates.length - 1];
   }
 }
+
+function toGameConfig(entry: PlaylistEntry): GameConfig {
+  return {
+    donateGold: false,
+    donateTroops: false,
+    gameMap: entry.gameMap,
+    maxPlayers: entry.maxPlayers,
+    gameType: GameType.Public,
+    gameFork: GameFork.Frenzy,
+    gameMapSize: entry.gameMapSize,
+    difficulty: Difficulty.Medium,
+    infiniteGold: false,
+    infiniteTroops: false,
+    maxTimerValue: undefined,
+    instantBuild: false,
+    randomSpawn: false,
+    disableNPCs: false,
+    gameMode: entry.gameMode,
+    playerTeams: entry.playerTeams,
+    bots: entry.bots,
+    disabledUnits: entry.disabledUnits,
+    frenzyOverrides: entry.frenzyOverrides,
+  } satisfies GameConfig;
+}
@@ -1,17 +1,35 @@
 import cluster from "cluster";
 import express from "express";
 import rateLimit from "express-rate-limit";
+import fs from "fs";
 import http from "http";
 import path from "path";
 import { fileURLToPath } from "url";
+import { z } from "zod";
+import {
+  MatchmakingJoinRequestSchema,
+  MatchmakingJoinResponse,
+  PlayerRatingsResponse,
+  RatingLeaderboardEntry,
+} from "../core/ApiSchemas";
+import { MatchmakingService } from "../core/configuration/Config";
 import { getServerConfigFromServer } from "../core/configuration/ConfigLoader";
-import { GameInfo, ID } from "../core/Schemas";
+import { GameType } from "../core/game/Game";
+import { GameID, GameInfo, ID } from "../core/Schemas";
 import { generateID } from "../core/Util";
+import { verifyClientToken } from "./jwt";
 import { logger } from "./Logger";
-import { MapPlaylist } from "./MapPlaylist";
+import { loadPlaylist, MapPlaylist } from "./MapPlaylist";
+import { MatchLauncher, Matchmaker } from "./Matchmaker";
+import {
+  DEFAULT_RATING,
+  RatedResult,
+  RatingBook,
+  RatingPool,
+  RatingsFile,
+} from "./Ratings";
 
 const config = getServerConfigFromServer();
-const playlist = new MapPlaylist();
 const readyWorkers = new Set();
 
 const app = express();
@@ -19,6 +37,13 @@ const server = http.createServer(app);
 
 const log = logger.child({ comp: "m" });
 
+const initialPlaylist =
+  loadPlaylist(config.playlistPath(), log, "using the default") ?? undefined;
+const playlist = new MapPlaylist(false, initialPlaylist);
+// Matched games draw from their own rotation, leaving the published public
+// lobby picks alone
+const matchPlaylist = new MapPlaylist(false, initialPlaylist);
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 app.use(express.json());
@@ -62,6 +87,115 @@ let publicLobbiesJsonStr = "";
 
 const publicLobbyIDs: Set<string> = new Set();
 
+// Creates matched games as private lobbies so the worker only starts them
+// when the matchmaker says so
+const workerLauncher: MatchLauncher = {
+  async createGame(gameID: GameID, players: number) {
+    const gameConfig = {
+      ...matchPlaylist.nextGameConfig(),
+      gameType: GameType.Private,
+      maxPlayers: players,
+      ranked: true,
+    };
+    try {
+      const response = await fetch(
+        `http://localhost:${config.workerPort(gameID)}/api/create_game/${gameID}`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            [config.adminHeader()]: config.adminToken(),
+          },
+          body: JSON.stringify(gameConfig),
+          signal: AbortSignal.timeout(5000),
+        },
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to create game: ${response.statusText}`);
+      }
+      log.info(`Matchmaking created game ${gameID} for ${players} players`);
+    } catch (error) {
+      log.error(`Failed to create matched game ${gameID}:`, error);
+      throw error;
+    }
+  },
+  async joinedPlayers(gameID: GameID) {
+    try {
+      const response = await fetch(
+        `http://localhost:${config.workerPort(gameID)}/api/game/${gameID}`,
+        {
+          headers: { [config.adminHeader()]: config.adminToken() },
+          signal: AbortSignal.timeout(5000),
+        },
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to get game: ${response.statusText}`);
+      }
+      const info = (await response.json()) as GameInfo;
+      return info.clients?.length ?? 0;
+    } catch (error) {
+      log.error(`Failed to check players of matched game ${gameID}:`, error);
+      throw error;
+    }
+  },
+  async startGame(gameID: GameID) {
+    try {
+      const response = await fetch(
+        `http://localhost:${config.workerPort(gameID)}/api/start_game/${gameID}`,
+        {
+          method: "POST",
+          headers: { [config.adminHeader()]: config.adminToken() },
+          signal: AbortSignal.timeout(5000),
+        },
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to start game: ${response.statusText}`);
+      }
+    } catch (error) {
+      log.error(`Failed to start matched game ${gameID}:`, error);
+      throw error;
+    }
+  },
+};
+
+const ratingsFile = new RatingsFile(config.ratingsPath());
+// Null until loaded, so a bad file is never overwritten
+let ratings: RatingBook | null = null;
+let ratingsWrite = Promise.resolve();
+
+function applyRatedResult(result: RatedResult) {
+  if (ratings === null) {
+    log.warn(`Ratings not loaded, dropping result of game ${result.gameID}`);
+    return;
+  }
+  ratings.apply(result);
+  const book = ratings;
+  // One write at a time, each with all results so far
+  ratingsWrite = ratingsWrite
+    .then(() => ratingsFile.write(book))
+    .catch((error) => {
+      log.error(`Failed to write ratings: ${error}`);
+    });
+}
+
+// Rating the queue matches by, before the game's mode is drawn
+async function matchmakingRating(playToken: string | undefined) {
+  if (playToken === undefined || ratings === null) {
+    return DEFAULT_RATING;
+  }
+  const result = await verifyClientToken(playToken, config);
+  if (result === false) {
+    return DEFAULT_RATING;
+  }
+  return ratings.rating(RatingPool.FrenzyFFA, result.persistentId);
+}
+
+const matchmaker =
+  config.enableMatchmaking() &&
+  config.matchmakingService() === MatchmakingService.Master
+    ? new Matchmaker(workerLauncher)
+    : null;
+
 // Start the master process
 export async function startMaster() {
   if (!cluster.isPrimary) {
@@ -71,6 +205,26 @@ export async function startMaster() {
   }
 
   log.info(`Primary ${process.pid} is running`);
+
+  try {
+    ratings = await ratingsFile.read();
+  } catch (error) {
+    log.error(`Invalid ratings file, ratings are disabled: ${error}`);
+  }
+
+  // Polling survives editors and deploys that replace the file
+  fs.watchFile(config.playlistPath(), { interval: 5000 }, () => {
+    const updated = loadPlaylist(
+      config.playlistPath(),
+      log,
+      "keeping the previous one",
+    );
+    if (updated !== null) {
+      playlist.setPlaylist(updated);
+      matchPlaylist.setPlaylist(updated);
+      log.info(`Reloaded playlist from ${config.playlistPath()}`);
+    }
+  });
   log.info(`Setting up ${config.numWorkers()} workers...`);
 
   // Fork workers
@@ -83,6 +237,10 @@ export async function startMaster() {
   }
 
   cluster.on("message", (worker, message) => {
+    if (message.type === "RATED_RESULT") {
+      applyRatedResult(message.result);
+      return;
+    }
     if (message.type === "WORKER_READY") {
       const workerId = message.workerId;
       readyWorkers.add(workerId);
@@ -118,6 +276,11 @@ export async function startMaster() {
         // Schedule immediately on startup
         checkAndSchedule();
 
+        if (matchmaker !== null) {
+          log.info("Starting matchmaking queue");
+          setInterval(() => matchmaker.tick(), 1000);
+        }
+
         // Check periodically if we need to schedule new games
         // In dev mode, check more frequently to see map rotation faster
         const scheduleInterval = config.gameCreationRate() * 2;
@@ -197,15 +360,17 @@ app.post("/api/change_map/:direction", async (req, res) => {
 
   const direction = req.params.direction;
 
-  if (direction === "next") {
-    playlist.nextMap();
-  } else if (direction === "previous") {
-    playlist.previousMap();
-  } else {
+  if (direction !== "next" && direction !== "previous") {
     return res
       .status(400)
       .json({ error: "Invalid direction. Use 'next' or 'previous'" });
   }
+  // The open lobby already took its game off the rotation, so scheduling
+  // takes the next one; going back means un-taking both
+  if (direction === "previous") {
+    playlist.rewind();
+    playlist.rewind();
+  }
 
   // Delete all current public lobbies and create a new one with the new map
   for (const gameID of publicLobbyIDs) {
@@ -225,9 +390,7 @@ app.post("/api/change_map/:direction", async (req, res) => {
   try {
     await schedulePublicGame(playlist);
     await fetchLobbies();
-    res
-      .status(200)
-      .json({ success: true, mapIndex: playlist.getCurrentMapIndex() });
+    res.status(200).json({ success: true, upcoming: playlist.upcomingGames() });
   } catch (error) {
     log.error("Error scheduling new game after map change:", error);
     res.status(500).json({ error: "Failed to schedule new game" });
@@ -298,6 +461,78 @@ app.post("/api/kick_player/:gameID/:clientID", async (req, res) => {
   }
 });
 
+app.post("/api/matchmaking/join", async (req, res) => {
+  if (matchmaker === null) {
+    return res.status(404).json({ error: "Matchmaking is disabled" });
+  }
+  const result = MatchmakingJoinRequestSchema.safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({ error: z.prettifyError(result.error) });
+  }
+  const rating = await matchmakingRating(result.data.playToken);
+  const ticketID = matchmaker.join(result.data, rating);
+  if (ticketID === null) {
+    return res.status(409).json({ error: "Party is full" });
+  }
+  res.json({ ticketID } satisfies MatchmakingJoinResponse);
+});
+
+app.get("/api/matchmaking/ticket/:id", async (req, res) => {
+  const status = matchmaker?.status(req.params.id) ?? null;
+  if (status === null) {
+    return res.status(404).json({ error: "Ticket not found" });
+  }
+  res.json(status);
+});
+
+app.delete("/api/matchmaking/ticket/:id", async (req, res) => {
+  if (!matchmaker?.leave(req.params.id)) {
+    return res.status(404).json({ error: "Ticket not found" });
+  }
+  res.status(200).json({ success: true });
+});
+
+app.get("/api/ratings/me", async (req, res) => {
+  const token = req.headers.authorization?.replace(/^Bearer /, "");
+  if (token === undefined) {
+    return res.status(401).send("Unauthorized");
+  }
+  const result = await verifyClientToken(token, config);
+  if (result === false) {
+    return res.status(401).send("Unauthorized");
+  }
+  if (ratings === null) {
+    return res.status(503).json({ error: "Ratings are unavailable" });
+  }
+  res.json({
+    ratings: ratings.ratingsOf(result.persistentId),
+  } satisfies PlayerRatingsResponse);
+});
+
+const LeaderboardQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+app.get("/api/ratings/top/:pool", async (req, res) => {
+  const pool = z.enum(RatingPool).safeParse(req.params.pool);
+  const query = LeaderboardQuerySchema.safeParse(req.query);
+  if (!pool.success || !query.success) {
+    return res.sendStatus(400);
+  }
+  if (ratings === null) {
+    return res.status(503).json({ error: "Ratings are unavailable" });
+  }
+  // Names only, persistent IDs are private
+  res.json(
+    ratings
+      .top(pool.data, query.data.limit)
+      .map(
+        ({ username, rating, games }) =>
+          ({ username, rating, games }) satisfies RatingLeaderboardEntry,
+      ),
+  );
+});
+
 async function fetchLobbies(): Promise<number> {
   const fetchPromises: Promise<GameInfo | null>[] = [];
 
@@ -379,6 +614,7 @@ async function fetchLobbies(): Promise<number> {
   log.info(`Updating publicLobbiesJsonStr with ${lobbyInfos.length} lobbies`);
   publicLobbiesJsonStr = JSON.stringify({
     lobbies: lobbyInfos,
+    upcoming: playlist.upcomingGames(),
   });
 
   return publicLobbyIDs.size;
@@ -404,7 +640,7 @@ async function schedulePublicGame(playlist: MapPlaylist) {
           "Content-Type": "application/json",
           [config.adminHeader()]: config.adminToken(),
         },
-        body: JSON.stringify(playlist.gameConfig()),
+        body: JSON.stringify(playlist.nextGameConfig()),
       },
     );
 
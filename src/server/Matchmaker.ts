@@ -0,0 +1,284 @@
+import {
+  MatchmakingJoinRequest,
+  MatchmakingTicketStatus,
+} from "../core/ApiSchemas";
+import { GameID } from "../core/Schemas";
+import { generateID } from "../core/Util";
+
+/**
+ * Hosts matched games. The master's launcher calls the worker API; tests
+ * use a local stand-in.
+ */
+export interface MatchLauncher {
+  // Rejecting puts the players back in the queue
+  createGame(gameID: GameID, players: number): Promise<void>;
+  // Players in the created game's lobby so far
+  joinedPlayers(gameID: GameID): Promise<number>;
+  startGame(gameID: GameID): Promise<void>;
+}
+
+export interface MatchmakerOptions {
+  // Players per game
+  matchSize: number;
+  // Once the oldest ticket in a group waited maxWaitMs, games start with
+  // this many players
+  minPlayers: number;
+  maxWaitMs: number;
+  // Rating difference accepted at first, widened while a ticket waits
+  initialBand: number;
+  bandGrowthPerSecond: number;
+  maxBand: number;
+  // Tickets that waited this long are matched with any region
+  regionTimeoutMs: number;
+  // Games start once all their players joined, or this long after being
+  // created with whoever did
+  joinTimeoutMs: number;
+  // Tickets not polled for this long are dropped
+  idleTimeoutMs: number;
+}
+
+export const DEFAULT_MATCHMAKER_OPTIONS: MatchmakerOptions = {
+  matchSize: 8,
+  minPlayers: 2,
+  maxWaitMs: 90_000,
+  initialBand: 100,
+  bandGrowthPerSecond: 10,
+  maxBand: 800,
+  regionTimeoutMs: 30_000,
+  joinTimeoutMs: 30_000,
+  idleTimeoutMs: 15_000,
+};
+
+interface Ticket {
+  id: string;
+  region: string;
+  party: string | null;
+  rating: number;
+  joinedAt: number;
+  seenAt: number;
+  launching: boolean;
+  gameID: GameID | null;
+}
+
+// A created game waiting for its players to join
+interface PendingGame {
+  players: number;
+  createdAt: number;
+  // A check of who joined is in flight
+  checking: boolean;
+}
+
+// Tickets that are matched together: a party, or a single player
+interface QueueUnit {
+  tickets: Ticket[];
+  region: string;
+  rating: number;
+  joinedAt: number;
+}
+
+/**
+ * Queue of players looking for a game. Groups them by region, party and
+ * rating, widening the search the longer they wait, and launches a game for
+ * each full group. Driven by tick(), which the master calls every second.
+ */
+export class Matchmaker {
+  private tickets = new Map<string, Ticket>();
+  private pendingGames = new Map<GameID, PendingGame>();
+
+  constructor(
+    private launcher: MatchLauncher,
+    private options: MatchmakerOptions = DEFAULT_MATCHMAKER_OPTIONS,
+    private now: () => number = Date.now,
+  ) {}
+
+  /** Ticket id to poll with status(), or null if the party is full. */
+  join(request: MatchmakingJoinRequest, rating: number): string | null {
+    const party = request.party ?? null;
+    if (
+      party !== null &&
+      this.searching().filter((t) => t.party === party).length >=
+        this.options.matchSize
+    ) {
+      return null;
+    }
+    const now = this.now();
+    const ticket: Ticket = {
+      id: generateID(),
+      region: request.region,
+      party,
+      rating,
+      joinedAt: now,
+      seenAt: now,
+      launching: false,
+      gameID: null,
+    };
+    this.tickets.set(ticket.id, ticket);
+    return ticket.id;
+  }
+
+  /** Null for unknown, left and dropped tickets. */
+  status(ticketID: string): MatchmakingTicketStatus | null {
+    const ticket = this.tickets.get(ticketID);
+    if (ticket === undefined) {
+      return null;
+    }
+    const now = this.now();
+    ticket.seenAt = now;
+    if (ticket.gameID !== null) {
+      return { status: "matched", gameID: ticket.gameID };
+    }
+    return { status: "searching", waitedMs: now - ticket.joinedAt };
+  }
+
+  leave(ticketID: string): boolean {
+    return this.tickets.delete(ticketID);
+  }
+
+  queued(): number {
+    return this.searching().length;
+  }
+
+  /**
+   * Drops idle tickets, starts the games everyone joined and launches games
+   * for the groups that are ready. Resolves once those games are created.
+   */
+  async tick(): Promise<void> {
+    const now = this.now();
+    for (const [id, ticket] of this.tickets) {
+      if (now - ticket.seenAt >= this.options.idleTimeoutMs) {
+        this.tickets.delete(id);
+      }
+    }
+
+    const launches: Promise<void>[] = [...this.pendingGames.keys()].map(
+      (gameID) => this.startIfJoined(gameID, now),
+    );
+    let units = this.units();
+    while (units.length > 0) {
+      const anchor = units.shift()!;
+      const group = [anchor];
+      let players = anchor.tickets.length;
+      for (const unit of units) {
+        if (players === this.options.matchSize) {
+          break;
+        }
+        if (
+          players + unit.tickets.length <= this.options.matchSize &&
+          this.compatible(anchor, unit, now)
+        ) {
+          group.push(unit);
+          players += unit.tickets.length;
+        }
+      }
+      const waited = now - anchor.joinedAt;
+      if (
+        players === this.options.matchSize ||
+        (waited >= this.options.maxWaitMs && players >= this.options.minPlayers)
+      ) {
+        units = units.filter((u) => !group.includes(u));
+        launches.push(this.launch(group.flatMap((u) => u.tickets)));
+      }
+    }
+    await Promise.all(launches);
+  }
+
+  /** Rating difference a ticket that waited this long accepts. */
+  band(waitedMs: number): number {
+    return Math.min(
+      this.options.maxBand,
+      this.options.initialBand +
+        (waitedMs / 1000) * this.options.bandGrowthPerSecond,
+    );
+  }
+
+  private compatible(anchor: QueueUnit, unit: QueueUnit, now: number) {
+    const waited = now - anchor.joinedAt;
+    return (
+      (anchor.region === unit.region ||
+        waited >= this.options.regionTimeoutMs) &&
+      Math.abs(anchor.rating - unit.rating) <= this.band(waited)
+    );
+  }
+
+  private searching(): Ticket[] {
+    return [...this.tickets.values()].filter(
+      (t) => !t.launching && t.gameID === null,
+    );
+  }
+
+  // Parties and single players, longest waiting first
+  private units(): QueueUnit[] {
+    const parties = new Map<string, Ticket[]>();
+    const units: QueueUnit[] = [];
+    for (const ticket of this.searching()) {
+      if (ticket.party === null) {
+        units.push(toUnit([ticket]));
+        continue;
+      }
+      const members = parties.get(ticket.party) ?? [];
+      members.push(ticket);
+      parties.set(ticket.party, members);
+    }
+    for (const members of parties.values()) {
+      units.push(toUnit(members));
+    }
+    return units.sort((a, b) => a.joinedAt - b.joinedAt);
+  }
+
+  private async launch(tickets: Ticket[]): Promise<void> {
+    const gameID = generateID();
+    tickets.forEach((t) => (t.launching = true));
+    try {
+      await this.launcher.createGame(gameID, tickets.length);
+    } catch {
+      // The launcher logs its failures; try again next tick
+      tickets.forEach((t) => (t.launching = false));
+      return;
+    }
+    tickets.forEach((t) => {
+      t.launching = false;
+      t.gameID = gameID;
+    });
+    this.pendingGames.set(gameID, {
+      players: tickets.length,
+      createdAt: this.now(),
+      checking: false,
+    });
+  }
+
+  // Players who are not in the game when it starts cannot play in it
+  private async startIfJoined(gameID: GameID, now: number): Promise<void> {
+    const pending = this.pendingGames.get(gameID);
+    if (pending === undefined || pending.checking) {
+      return;
+    }
+    pending.checking = true;
+    let joined = 0;
+    try {
+      joined = await this.launcher.joinedPlayers(gameID);
+    } catch {
+      // Logged by the launcher; the timeout still starts the game
+    }
+    pending.checking = false;
+    if (
+      joined < pending.players &&
+      now - pending.createdAt < this.options.joinTimeoutMs
+    ) {
+      return;
+    }
+    this.pendingGames.delete(gameID);
+    await this.launcher.startGame(gameID).catch(() => {
+      // Logged by the launcher; players still in the lobby can leave
+    });
+  }
+}
+
+function toUnit(tickets: Ticket[]): QueueUnit {
+  return {
+    tickets,
+    // Members may have joined from different regions; go with the leader
+    region: tickets[0].region,
+    rating: tickets.reduce((sum, t) => sum + t.rating, 0) / tickets.length,
+    joinedAt: Math.min(...tickets.map((t) => t.joinedAt)),
+  };
+}
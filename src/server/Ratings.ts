@@ -0,0 +1,264 @@
+import fs from "fs/promises";
+import { z } from "zod";
+import { GameFork, GameMode, GameType } from "../core/game/Game";
+import {
+  GameConfig,
+  GameID,
+  GameRecord,
+  PersistentIdSchema,
+} from "../core/Schemas";
+
+/**
+ * Players are rated separately for each kind of game, as being good at
+ * one says little about the others.
+ */
+export enum RatingPool {
+  FrenzyFFA = "frenzy_ffa",
+  FrenzyTeam = "frenzy_team",
+  ClassicFFA = "classic_ffa",
+  ClassicTeam = "classic_team",
+}
+
+export function ratingPool(config: GameConfig): RatingPool {
+  const team = config.gameMode === GameMode.Team;
+  if (config.gameFork === GameFork.Classic) {
+    return team ? RatingPool.ClassicTeam : RatingPool.ClassicFFA;
+  }
+  return team ? RatingPool.FrenzyTeam : RatingPool.FrenzyFFA;
+}
+
+// Rating of players who have not finished a rated game in the pool
+export const DEFAULT_RATING = 1500;
+
+// Elo K-factor while a player has fewer than PROVISIONAL_GAMES games, so new
+// players move quickly to where they belong
+const PROVISIONAL_K = 40;
+const PROVISIONAL_GAMES = 10;
+const K = 20;
+
+const RatingSchema = z.object({
+  rating: z.number(),
+  games: z.number().int().min(0),
+  // Last name played under, for leaderboards that must not show the ID
+  username: z.string(),
+});
+export type Rating = z.infer<typeof RatingSchema>;
+
+const RatingsFileSchema = z.object({
+  version: z.literal(1),
+  pools: z.partialRecord(
+    z.enum(RatingPool),
+    z.record(PersistentIdSchema, RatingSchema),
+  ),
+});
+type RatingsFileData = z.infer<typeof RatingsFileSchema>;
+
+export type PlayerRatings = Partial<Record<RatingPool, number>>;
+
+export interface RatedPlayer {
+  persistentID: string;
+  username: string;
+}
+
+/**
+ * Outcome of a finished game as ratings see it. Workers send these to the
+ * master, which keeps the ratings.
+ */
+export interface RatedResult {
+  gameID: GameID;
+  pool: RatingPool;
+  // Best first; players sharing a place did not beat each other
+  placements: RatedPlayer[][];
+}
+
+/**
+ * Public games and matchmade games count; private lobbies do not, so
+ * ratings cannot be farmed among friends.
+ */
+export function ratedResult(record: GameRecord): RatedResult | null {
+  const { config, winner } = record.info;
+  if (
+    winner === undefined ||
+    (config.gameType !== GameType.Public && config.ranked !== true)
+  ) {
+    return null;
+  }
+  const players = record.info.players.filter(
+    (p) => PersistentIdSchema.safeParse(p.persistentID).success,
+  );
+  const winners = new Set<string>(
+    winner[0] === "team" ? winner.slice(2) : winner.slice(1),
+  );
+  const toRated = (p: (typeof players)[number]): RatedPlayer => ({
+    persistentID: p.persistentID!,
+    username: p.username,
+  });
+
+  const placements: RatedPlayer[][] = [
+    players.filter((p) => winners.has(p.clientID)).map(toRated),
+  ];
+  const losers = players.filter((p) => !winners.has(p.clientID));
+  if (winner[0] === "team") {
+    // Records do not say who was on which losing team
+    placements.push(losers.map(toRated));
+  } else {
+    // Survivors who did not win come next, then the eliminated in reverse
+    // order of elimination
+    const byKilledAt = new Map<string, RatedPlayer[]>();
+    for (const p of losers) {
+      const key = p.stats?.killedAt?.toString() ?? "alive";
+      byKilledAt.set(key, [...(byKilledAt.get(key) ?? []), toRated(p)]);
+    }
+    const order = (key: string) => (key === "alive" ? Infinity : Number(key));
+    [...byKilledAt.keys()]
+      .sort((a, b) => order(b) - order(a))
+      .forEach((key) => placements.push(byKilledAt.get(key)!));
+  }
+
+  const places = placements.filter((place) => place.length > 0);
+  if (places.length < 2) {
+    return null;
+  }
+  return {
+    gameID: record.info.gameID,
+    pool: ratingPool(config),
+    placements: places,
+  };
+}
+
+/**
+ * Ratings of every player in every pool, updated with multiplayer Elo: each
+ * game counts as one match against every player in another place.
+ */
+export class RatingBook {
+  private pools = new Map<RatingPool, Map<string, Rating>>();
+
+  get(pool: RatingPool, persistentID: string): Rating | undefined {
+    return this.pools.get(pool)?.get(persistentID);
+  }
+
+  rating(pool: RatingPool, persistentID: string): number {
+    return this.get(pool, persistentID)?.rating ?? DEFAULT_RATING;
+  }
+
+  ratingsOf(persistentID: string): PlayerRatings {
+    const ratings: PlayerRatings = {};
+    for (const [pool, players] of this.pools) {
+      const rating = players.get(persistentID);
+      if (rating !== undefined) {
+        ratings[pool] = rating.rating;
+      }
+    }
+    return ratings;
+  }
+
+  /** Highest rated first. */
+  top(pool: RatingPool, limit: number): Rating[] {
+    return [...(this.pools.get(pool)?.values() ?? [])]
+      .sort((a, b) => b.rating - a.rating)
+      .slice(0, limit);
+  }
+
+  apply(result: RatedResult): void {
+    const players = this.pools.get(result.pool) ?? new Map<string, Rating>();
+    this.pools.set(result.pool, players);
+
+    const entries = result.placements.flatMap((place, rank) =>
+      place.map((p) => ({
+        player: p,
+        rank,
+        before: players.get(p.persistentID) ?? {
+          rating: DEFAULT_RATING,
+          games: 0,
+          username: p.username,
+        },
+      })),
+    );
+    // All changes come from the ratings before the game
+    const updated = entries.map(({ player, rank, before }) => {
+      let actual = 0;
+      let expected = 0;
+      let opponents = 0;
+      for (const other of entries) {
+        if (other.rank === rank) continue;
+        opponents++;
+        actual += rank < other.rank ? 1 : 0;
+        expected +=
+          1 / (1 + Math.pow(10, (other.before.rating - before.rating) / 400));
+      }
+      const k = before.games < PROVISIONAL_GAMES ? PROVISIONAL_K : K;
+      const rating: Rating = {
+        rating: before.rating + (k * (actual - expected)) / opponents,
+        games: before.games + 1,
+        username: player.username,
+      };
+      return [player.persistentID, rating] as const;
+    });
+    updated.forEach(([id, rating]) => players.set(id, rating));
+  }
+
+  toJSON(): RatingsFileData {
+    const pools: RatingsFileData["pools"] = {};
+    for (const [pool, players] of this.pools) {
+      pools[pool] = Object.fromEntries(players);
+    }
+    return { version: 1, pools };
+  }
+
+  static fromJSON(json: unknown): RatingBook {
+    const result = RatingsFileSchema.safeParse(json);
+    if (!result.success) {
+      throw new Error(`Invalid ratings: ${z.prettifyError(result.error)}`);
+    }
+    const book = new RatingBook();
+    for (const [pool, players] of Object.entries(result.data.pools)) {
+      book.pools.set(pool as RatingPool, new Map(Object.entries(players)));
+    }
+    return book;
+  }
+}
+
+/**
+ * Ratings on disk. The master writes, workers read; the file is replaced
+ * whole so readers never see a partial write.
+ */
+export class RatingsFile {
+  private cached: { mtimeMs: number; book: RatingBook } | null = null;
+
+  constructor(private readonly file: string) {}
+
+  /** The current ratings, read again only when the file changed. */
+  async read(): Promise<RatingBook> {
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await fs.stat(this.file)).mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return new RatingBook();
+      }
+      throw error;
+    }
+    if (this.cached?.mtimeMs !== mtimeMs) {
+      const json = JSON.parse(await fs.readFile(this.file, "utf8"));
+      this.cached = { mtimeMs, book: RatingBook.fromJSON(json) };
+    }
+    return this.cached.book;
+  }
+
+  async write(book: RatingBook): Promise<void> {
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(book));
+    await fs.rename(tmp, this.file);
+  }
+}
+
+/**
+ * Hands the result of a finished game to the master. Does nothing outside
+ * a worker process.
+ */
+export function reportRatedResult(record: GameRecord): void {
+  const result = ratedResult(record);
+  if (result !== null && process.send) {
+    process.send({ type: "RATED_RESULT", result });
+  }
+}
@@ -1,43 +1,98 @@
 import compression from "compression";
 import express, { NextFunction, Request, Response } from "express";
 import rateLimit from "express-rate-limit";
+import fs from "fs";
 import http from "http";
 import ipAnonymize from "ip-anonymize";
 import path from "path";
 import { fileURLToPath } from "url";
 import { WebSocket, WebSocketServer } from "ws";
 import { z } from "zod";
+import { MatchmakingService } from "../core/configuration/Config";
 import { getServerConfigFromServer } from "../core/configuration/ConfigLoader";
-import { GameType } from "../core/game/Game";
+import { GameMapType, GameType } from "../core/game/Game";
+import {
+  decodeMapPackage,
+  hashMapPackage,
+  MAX_MAP_PACKAGE_BYTES,
+  toMapPackage,
+} from "../core/game/MapPackage";
 import {
   ClientMessageSchema,
+  GameConfig,
   GameID,
   ID,
+  MAX_SNAPSHOT_BYTES,
   PartialGameRecordSchema,
   ServerErrorMessage,
 } from "../core/Schemas";
 import { generateID, replacer } from "../core/Util";
-import { CreateGameInputSchema, GameInputSchema } from "../core/WorkerSchemas";
-import { archive, finalizeGameRecord } from "./Archive";
+import {
+  ArchiveQuerySchema,
+  CreateGameInputSchema,
+  GameInputSchema,
+} from "../core/WorkerSchemas";
+import {
+  archive,
+  finalizeGameRecord,
+  listGameRecords,
+  readGameRecord,
+} from "./Archive";
 import { Client } from "./Client";
 import { GameManager } from "./GameManager";
 import { getUserMe, verifyClientToken } from "./jwt";
 import { logger } from "./Logger";
 
-import { MapPlaylist } from "./MapPlaylist";
+import { loadPlaylist, MapPlaylist } from "./MapPlaylist";
+import { PlayerRatings, RatingsFile } from "./Ratings";
 import { initWorkerMetrics } from "./WorkerMetrics";
 
 const config = getServerConfigFromServer();
 
 const workerId = parseInt(process.env.WORKER_ID ?? "0");
 const log = logger.child({ comp: `w_${workerId}` });
-const playlist = new MapPlaylist(true);
+// Matchmade games only; public lobbies are scheduled by the master
+const playlist = new MapPlaylist(
+  true,
+  loadPlaylist(config.playlistPath(), log, "using the default") ?? undefined,
+);
+const ratingsFile = new RatingsFile(config.ratingsPath());
+
+/**
+ * Public and ranked games count toward ratings, so only the master, which
+ * knows the admin token, may create them. Null for games anyone may create.
+ */
+export function adminOnlyGameKind(
+  gc: GameConfig | undefined,
+): "public" | "ranked" | null {
+  if (gc?.gameType === GameType.Public) {
+    return "public";
+  }
+  return gc?.ranked === true ? "ranked" : null;
+}
 
 // Worker setup
 export async function startWorker() {
   log.info(`Worker starting...`);
 
-  if (config.enableMatchmaking()) {
+  // Same polling reload as the master, for the matchmade rotation
+  fs.watchFile(config.playlistPath(), { interval: 5000 }, () => {
+    const updated = loadPlaylist(
+      config.playlistPath(),
+      log,
+      "keeping the previous one",
+    );
+    if (updated !== null) {
+      playlist.setPlaylist(updated);
+      log.info(`Reloaded playlist from ${config.playlistPath()}`);
+    }
+  });
+
+  // The master's own queue creates games on workers through the API
+  if (
+    config.enableMatchmaking() &&
+    config.matchmakingService() === MatchmakingService.Api
+  ) {
     log.info("Starting matchmaking");
     setTimeout(
       () => {
@@ -92,6 +147,18 @@ export async function startWorker() {
 
   app.set("trust proxy", 3);
   app.use(compression());
+  // Map packages carry whole maps, far above the default body limit
+  app.use(
+    ["/api/game/:id/custom_map", "/api/archive_singleplayer_game"],
+    express.json({ limit: MAX_MAP_PACKAGE_BYTES }),
+  );
+  app.use(
+    "/api/game/:id/snapshot",
+    express.raw({
+      type: "application/octet-stream",
+      limit: MAX_SNAPSHOT_BYTES,
+    }),
+  );
   app.use(express.json());
   app.use(express.static(path.join(__dirname, "../../out")));
   app.use(
@@ -123,12 +190,18 @@ export async function startWorker() {
     }
 
     const gc = result.data;
+    if (gc?.gameMap === GameMapType.Custom) {
+      return res
+        .status(400)
+        .json({ error: "Upload custom maps to the created lobby" });
+    }
+    const adminOnly = adminOnlyGameKind(gc);
     if (
-      gc?.gameType === GameType.Public &&
+      adminOnly !== null &&
       req.headers[config.adminHeader()] !== config.adminToken()
     ) {
       log.warn(
-        `cannot create public game ${id}, ip ${ipAnonymize(clientIP)} incorrect admin token`,
+        `cannot create ${adminOnly} game ${id}, ip ${ipAnonymize(clientIP)} incorrect admin token`,
       );
       return res.status(401).send("Unauthorized");
     }
@@ -188,7 +261,7 @@ export async function startWorker() {
     log.info(`starting private lobby with id ${req.params.id}`);
     const game = gm.game(req.params.id);
     if (!game) {
-      return;
+      return res.status(404).json({ error: "Game not found" });
     }
     if (game.isPublic()) {
       // eslint-disable-next-line @typescript-eslint/prefer-nullish-coalescing
@@ -237,6 +310,73 @@ export async function startWorker() {
     res.status(200).json({ success: true });
   });
 
+  // Uploads a map package for a private lobby; only its creator may do so
+  app.put("/api/game/:id/custom_map", async (req, res) => {
+    const game = gm.game(req.params.id);
+    if (!game) {
+      return res.status(404).json({ error: "Game not found" });
+    }
+    if (game.isPublic() || game.hasStarted()) {
+      return res
+        .status(400)
+        .json({ error: "Custom maps are only allowed in private lobbies" });
+    }
+    const clientID =
+      typeof req.query.clientID === "string" ? req.query.clientID : undefined;
+    if (!game.isLobbyCreator(clientID)) {
+      return res
+        .status(403)
+        .json({ error: "Only the host can change the map" });
+    }
+    let pkg;
+    try {
+      // Re-encoding drops anything the schema does not know about
+      pkg = toMapPackage(decodeMapPackage(req.body));
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    const hash = await hashMapPackage(pkg);
+    game.setCustomMap(pkg, hash);
+    res.json({ hash });
+  });
+
+  app.get("/api/game/:id/custom_map", async (req, res) => {
+    const pkg = gm.game(req.params.id)?.customMap() ?? null;
+    if (pkg === null) {
+      return res.status(404).json({ error: "Custom map not found" });
+    }
+    res.json(pkg);
+  });
+
+  // Gzipped game snapshots, uploaded by a client when asked so that
+  // rejoining clients can skip replaying the turns before them
+  app.put("/api/game/:id/snapshot", async (req, res) => {
+    const game = gm.game(req.params.id);
+    if (!game) {
+      return res.status(404).json({ error: "Game not found" });
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: "Snapshot data is required" });
+    }
+    const clientID =
+      typeof req.query.clientID === "string" ? req.query.clientID : undefined;
+    const turn = Number(req.query.turn);
+    const error = game.acceptSnapshot(clientID, turn, req.body);
+    if (error !== null) {
+      return res.status(400).json({ error });
+    }
+    res.json({ turn });
+  });
+
+  app.get("/api/game/:id/snapshot", async (req, res) => {
+    const snapshot = gm.game(req.params.id)?.snapshot() ?? null;
+    if (snapshot === null) {
+      return res.status(404).json({ error: "Snapshot not found" });
+    }
+    res.setHeader("Content-Type", "application/octet-stream");
+    res.send(snapshot.data);
+  });
+
   app.get("/api/game/:id/exists", async (req, res) => {
     const lobbyId = req.params.id;
     res.json({
@@ -244,13 +384,34 @@ export async function startWorker() {
     });
   });
 
+  app.get("/api/archived_games", async (req, res) => {
+    const result = ArchiveQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      const error = z.prettifyError(result.error);
+      return res.status(400).json({ error });
+    }
+    const games = await listGameRecords(result.data);
+    if (games === null) {
+      return res
+        .status(501)
+        .json({ error: "Archive store does not support listing" });
+    }
+    res.json(games);
+  });
+
+  // Running games, then finished ones from the configured archive store
   app.get("/api/game/:id", async (req, res) => {
     const game = gm.game(req.params.id);
-    if (game === null) {
+    if (game !== null) {
+      return res.json(game.gameInfo());
+    }
+    const record = await readGameRecord(req.params.id);
+    if (record === null) {
       log.info(`lobby ${req.params.id} not found`);
       return res.status(404).json({ error: "Game not found" });
     }
-    res.json(game.gameInfo());
+    res.setHeader("Content-Type", "application/json");
+    res.send(JSON.stringify(record, replacer));
   });
 
   app.post("/api/archive_singleplayer_game", async (req, res) => {
@@ -407,6 +568,13 @@ export async function startWorker() {
 
         const cosmeticResult = { type: "allowed", cosmetics: {} as const };
 
+        let ratings: PlayerRatings = {};
+        try {
+          ratings = (await ratingsFile.read()).ratingsOf(persistentId);
+        } catch (error) {
+          log.error(`Error reading ratings: ${error}`);
+        }
+
         // Create client and add to game
         const client = new Client(
           clientMsg.clientID,
@@ -418,6 +586,8 @@ export async function startWorker() {
           clientMsg.username,
           ws,
           cosmeticResult.cosmetics,
+          clientMsg.spectator === true,
+          ratings,
         );
 
         const wasFound = gm.addClient(
@@ -524,7 +694,7 @@ async function pollLobby(gm: GameManager) {
     if (data.assignment) {
       // TODO: Only allow specified players to join the game.
       console.log(`Creating game ${gameId}`);
-      const game = gm.createGame(gameId, playlist.gameConfig());
+      const game = gm.createGame(gameId, playlist.nextGameConfig());
       setTimeout(() => {
         // Wait a few seconds to allow clients to connect.
         console.log(`Starting game ${gameId}`);
@@ -1,8 +1,17 @@
 /**
  * @jest-environment jsdom
  */
-import { AutoUpgradeEvent, InputHandler } from "../src/client/InputHandler";
+import {
+  AutoUpgradeEvent,
+  ContextMenuEvent,
+  ControlGroupEvent,
+  InputHandler,
+  UnitBoxSelectEvent,
+  UnitOrderEvent,
+} from "../src/client/InputHandler";
+import { UIState } from "../src/client/graphics/UIState";
 import { EventBus } from "../src/core/EventBus";
+import { FrenzyUnitOrder } from "../src/core/game/frenzy/FrenzyTypes";
 
 class MockPointerEvent {
   button: number;
@@ -10,14 +19,21 @@ class MockPointerEvent {
   clientY: number;
   pointerId: number;
   type: string;
+  x: number;
+  y: number;
   preventDefault: () => void;
 
+  shiftKey: boolean;
+
   constructor(type: string, init: any) {
     this.type = type;
+    this.shiftKey = init.shiftKey ?? false;
     this.button = init.button;
     this.clientX = init.clientX;
     this.clientY = init.clientY;
     this.pointerId = init.pointerId;
+    this.x = init.clientX;
+    this.y = init.clientY;
     this.preventDefault = jest.fn();
   }
 }
@@ -455,4 +471,115 @@ describe("InputHandler AutoUpgrade", () => {
       spy.mockRestore();
     });
   });
+
+  describe("Frenzy unit selection", () => {
+    let uiState: UIState;
+
+    beforeEach(() => {
+      localStorage.removeItem("settings.keybinds");
+      uiState = {
+        attackRatio: 20,
+        defensiveStance: 1.0,
+        ghostStructure: null,
+        unitSelectionEnabled: true,
+        selectedUnitCount: 0,
+      };
+      inputHandler = new InputHandler(uiState, mockCanvas, eventBus);
+      inputHandler.initialize();
+    });
+
+    function pointer(type: string, x: number, y: number, shiftKey = false) {
+      return new PointerEvent(type, {
+        button: 0,
+        clientX: x,
+        clientY: y,
+        pointerId: 1,
+        shiftKey,
+      });
+    }
+
+    test("shift-drag box selects instead of panning", () => {
+      const mockEmit = jest.spyOn(eventBus, "emit");
+
+      inputHandler["onPointerDown"](pointer("pointerdown", 10, 20, true));
+      inputHandler["onPointerMove"](pointer("pointermove", 50, 60, true));
+      inputHandler["onPointerUp"](pointer("pointerup", 80, 90, true));
+
+      const boxes = mockEmit.mock.calls
+        .map(([e]) => e)
+        .filter((e) => e instanceof UnitBoxSelectEvent);
+      expect(boxes).toEqual([
+        new UnitBoxSelectEvent(10, 20, 50, 60, false),
+        new UnitBoxSelectEvent(10, 20, 80, 90, true),
+      ]);
+    });
+
+    test("shift-drag pans when selection is disabled", () => {
+      uiState.unitSelectionEnabled = false;
+      const mockEmit = jest.spyOn(eventBus, "emit");
+
+      inputHandler["onPointerDown"](pointer("pointerdown", 10, 20, true));
+      inputHandler["onPointerUp"](pointer("pointerup", 80, 90, true));
+
+      expect(
+        mockEmit.mock.calls.some(([e]) => e instanceof UnitBoxSelectEvent),
+      ).toBe(false);
+    });
+
+    test("ctrl+digit assigns and shift+digit recalls a control group", () => {
+      const mockEmit = jest.spyOn(eventBus, "emit");
+
+      window.dispatchEvent(
+        new KeyboardEvent("keyup", { code: "Digit3", ctrlKey: true }),
+      );
+      window.dispatchEvent(
+        new KeyboardEvent("keyup", { code: "Digit3", shiftKey: true }),
+      );
+
+      expect(mockEmit).toHaveBeenCalledWith(new ControlGroupEvent(3, true));
+      expect(mockEmit).toHaveBeenCalledWith(new ControlGroupEvent(3, false));
+    });
+
+    test("order keys only fire with a selection", () => {
+      const mockEmit = jest.spyOn(eventBus, "emit");
+
+      window.dispatchEvent(new KeyboardEvent("keyup", { code: "KeyH" }));
+      expect(mockEmit).not.toHaveBeenCalledWith(expect.any(UnitOrderEvent));
+
+      uiState.selectedUnitCount = 3;
+      window.dispatchEvent(new KeyboardEvent("keyup", { code: "KeyH" }));
+      window.dispatchEvent(new KeyboardEvent("keyup", { code: "KeyX" }));
+
+      expect(mockEmit).toHaveBeenCalledWith(
+        new UnitOrderEvent(FrenzyUnitOrder.Hold),
+      );
+      expect(mockEmit).toHaveBeenCalledWith(
+        new UnitOrderEvent(FrenzyUnitOrder.Retreat),
+      );
+    });
+
+    test("right-click orders the selection instead of opening the menu", () => {
+      uiState.selectedUnitCount = 2;
+      const mockEmit = jest.spyOn(eventBus, "emit");
+      const click = (ctrlKey: boolean) =>
+        ({
+          clientX: 30,
+          clientY: 40,
+          ctrlKey,
+          metaKey: false,
+          preventDefault: jest.fn(),
+        }) as unknown as MouseEvent;
+
+      inputHandler["onContextMenu"](click(false));
+      inputHandler["onContextMenu"](click(true));
+
+      expect(mockEmit).toHaveBeenCalledWith(
+        new UnitOrderEvent(FrenzyUnitOrder.AttackMove, 30, 40),
+      );
+      expect(mockEmit).toHaveBeenCalledWith(
+        new UnitOrderEvent(FrenzyUnitOrder.Move, 30, 40),
+      );
+      expect(mockEmit).not.toHaveBeenCalledWith(expect.any(ContextMenuEvent));
+    });
+  });
 });
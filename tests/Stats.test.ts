@@ -1,3 +1,7 @@
+import {
+  FrenzyStructureType,
+  FrenzyUnitType,
+} from "../src/core/game/frenzy/FrenzyTypes";
 import {
   Game,
   Player,
@@ -234,6 +238,66 @@ describe("Stats", () => {
     });
   });
 
+  test("frenzyUnitSpawn and frenzyUnitLose", () => {
+    stats.frenzyUnitSpawn(player1, FrenzyUnitType.Soldier);
+    stats.frenzyUnitSpawn(player1, FrenzyUnitType.Soldier);
+    stats.frenzyUnitLose(player1, FrenzyUnitType.Soldier);
+    stats.frenzyUnitLose(player2, FrenzyUnitType.Warship);
+    expect(stats.stats()).toStrictEqual({
+      client1: { frenzy: { units: { soldier: [2n, 1n] } } },
+      client2: { frenzy: { units: { warship: [0n, 1n] } } },
+    });
+  });
+
+  test("frenzyDamage", () => {
+    stats.frenzyDamage(player1, player2, 12.7);
+    expect(stats.stats()).toStrictEqual({
+      client1: { frenzy: { damage: [12n] } },
+      client2: { frenzy: { damage: [0n, 12n] } },
+    });
+  });
+
+  test("frenzyStructure", () => {
+    stats.frenzyStructureBuild(player1, FrenzyStructureType.Mine);
+    stats.frenzyStructureUpgrade(player1, FrenzyStructureType.Mine);
+    stats.frenzyStructureSell(player1, FrenzyUnitType.DefensePost);
+    stats.frenzyStructureCapture(player2, FrenzyStructureType.Factory);
+    expect(stats.stats()).toStrictEqual({
+      client1: {
+        frenzy: {
+          structures: { mine: [1n, 1n], defensePost: [0n, 0n, 1n] },
+        },
+      },
+      client2: {
+        frenzy: { structures: { factory: [0n, 0n, 0n, 1n] } },
+      },
+    });
+  });
+
+  test("frenzyGoldMine", () => {
+    stats.frenzyGoldMine(player1, 100, 40);
+    stats.frenzyGoldMine(player1, 100, 0);
+    expect(stats.stats()).toStrictEqual({
+      client1: { frenzy: { gold: [200n, 40n] } },
+    });
+  });
+
+  test("frenzySample", () => {
+    stats.frenzySample(player1, 100, 500, 1000n, 12);
+    stats.frenzySample(player1, 200, 300, 2000n, 8);
+    expect(stats.stats()).toStrictEqual({
+      client1: {
+        frenzy: {
+          peakTiles: 500n,
+          timeline: [
+            [100, 500, 1000, 12],
+            [200, 300, 2000, 8],
+          ],
+        },
+      },
+    });
+  });
+
   test("stringify", () => {
     stats.unitLose(player1, UnitType.Port);
     expect(JSON.stringify(stats.stats(), replacer)).toBe(
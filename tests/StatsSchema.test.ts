@@ -32,6 +32,14 @@ describe("StatsSchema", () => {
     testPlayerSchema('{"units":{"port":["0","0","0","1"]}}');
   });
 
+  test("Parse frenzy", () => {
+    testPlayerSchema(
+      '{"frenzy":{"units":{"soldier":["3","1"]},"structures":{"mine":["1"],"defensePost":["0","0","1"]},"peakTiles":"500","timeline":[[100,500,1000,12]]}}',
+    );
+    testPlayerSchema('{"frenzy":{"units":{"tank":["1"]}}}', false);
+    testPlayerSchema('{"frenzy":{"timeline":[[100,500]]}}', false);
+  });
+
   test("Parse invalid", () => {
     testPlayerSchema("[]", false);
     testPlayerSchema("null", false);
@@ -163,4 +163,30 @@ describe("assignTeams", () => {
     expect(result.get(players[12])).toEqual(ColoredTeams.Purple);
     expect(result.get(players[13])).toEqual(ColoredTeams.Orange);
   });
+
+  it("should balance team ratings when players are rated", () => {
+    const rated = (id: string, rating: number) =>
+      new PlayerInfo(
+        `Player ${id}`,
+        PlayerType.Human,
+        null,
+        id,
+        undefined,
+        rating,
+      );
+    const players = [
+      rated("1", 1000),
+      rated("2", 2000),
+      rated("3", 1100),
+      rated("4", 1900),
+    ];
+
+    const result = assignTeams(players, teams);
+
+    // 2000 + 1000 against 1900 + 1100
+    expect(result.get(players[1])).toEqual(ColoredTeams.Red);
+    expect(result.get(players[3])).toEqual(ColoredTeams.Blue);
+    expect(result.get(players[2])).toEqual(ColoredTeams.Blue);
+    expect(result.get(players[0])).toEqual(ColoredTeams.Red);
+  });
 });
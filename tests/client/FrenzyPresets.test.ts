@@ -0,0 +1,132 @@
+import {
+  decodeFrenzyPreset,
+  deleteFrenzyPreset,
+  diffFrenzyPreset,
+  encodeFrenzyPreset,
+  FRENZY_PRESET_VERSION,
+  FrenzyPreset,
+  frenzyPresetToJSON,
+  listFrenzyPresets,
+  overridesFromConfig,
+  saveFrenzyPreset,
+} from "../../src/client/FrenzyPresets";
+import {
+  DEFAULT_FRENZY_CONFIG,
+  STRUCTURE_CONFIGS,
+} from "../../src/core/game/frenzy/FrenzyRegistry";
+
+const preset: FrenzyPreset = {
+  version: FRENZY_PRESET_VERSION,
+  name: "Rush ✓",
+  overrides: {
+    startingGold: 500_000,
+    units: { soldier: { dps: 30 } },
+    structures: { mine: { buildCost: 25_000 } },
+  },
+};
+
+// jsdom lacks TextEncoder, so stay in node with an in-memory localStorage
+const store = new Map<string, string>();
+globalThis.localStorage = {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => store.set(key, value),
+  clear: () => store.clear(),
+} as unknown as Storage;
+
+describe("FrenzyPresets", () => {
+  beforeEach(() => localStorage.clear());
+
+  test("share codes round trip", () => {
+    const code = encodeFrenzyPreset(preset);
+    expect(code).toMatch(/^frenzy1\.[A-Za-z0-9_-]+$/);
+    expect(decodeFrenzyPreset(`  ${code}\n`)).toStrictEqual(preset);
+  });
+
+  test("JSON files round trip", () => {
+    expect(decodeFrenzyPreset(frenzyPresetToJSON(preset))).toStrictEqual(
+      preset,
+    );
+  });
+
+  test("rejects garbage, other versions and invalid values", () => {
+    expect(() => decodeFrenzyPreset("hello")).toThrow(
+      "Not a Frenzy preset code or JSON file",
+    );
+    expect(() =>
+      decodeFrenzyPreset(JSON.stringify({ ...preset, version: 2 })),
+    ).toThrow("Unsupported preset version: 2");
+    expect(() =>
+      decodeFrenzyPreset(
+        JSON.stringify({ ...preset, overrides: { startingGold: -1 } }),
+      ),
+    ).toThrow();
+    expect(() =>
+      decodeFrenzyPreset(
+        JSON.stringify({ ...preset, overrides: { unknownRule: 1 } }),
+      ),
+    ).toThrow();
+  });
+
+  test("diffs against the defaults", () => {
+    expect(
+      diffFrenzyPreset({
+        ...preset.overrides,
+        maxUnitsPerPlayer: DEFAULT_FRENZY_CONFIG.maxUnitsPerPlayer,
+      }),
+    ).toStrictEqual([
+      {
+        path: "startingGold",
+        defaultValue: DEFAULT_FRENZY_CONFIG.startingGold,
+        value: 500_000,
+      },
+      {
+        path: "units.soldier.dps",
+        defaultValue: DEFAULT_FRENZY_CONFIG.units.soldier.dps,
+        value: 30,
+      },
+      {
+        path: "structures.mine.buildCost",
+        defaultValue: STRUCTURE_CONFIGS.mine.buildCost,
+        value: 25_000,
+      },
+    ]);
+  });
+
+  test("overridesFromConfig keeps only changed values", () => {
+    expect(overridesFromConfig(DEFAULT_FRENZY_CONFIG)).toStrictEqual({});
+    expect(
+      overridesFromConfig({
+        ...DEFAULT_FRENZY_CONFIG,
+        spawnInterval: DEFAULT_FRENZY_CONFIG.spawnInterval + 1,
+        units: {
+          ...DEFAULT_FRENZY_CONFIG.units,
+          warship: { ...DEFAULT_FRENZY_CONFIG.units.warship, range: 99 },
+        },
+      }),
+    ).toStrictEqual({
+      spawnInterval: DEFAULT_FRENZY_CONFIG.spawnInterval + 1,
+      units: { warship: { range: 99 } },
+    });
+  });
+
+  test("library saves, replaces by name and deletes", () => {
+    saveFrenzyPreset(preset);
+    saveFrenzyPreset({ ...preset, name: "Alpha" });
+    saveFrenzyPreset({ ...preset, overrides: {} });
+
+    const names = listFrenzyPresets().map((p) => p.name);
+    expect(names).toStrictEqual(["Alpha", "Rush ✓"]);
+    expect(listFrenzyPresets()[1].overrides).toStrictEqual({});
+
+    deleteFrenzyPreset("Alpha");
+    expect(listFrenzyPresets().map((p) => p.name)).toStrictEqual(["Rush ✓"]);
+  });
+
+  test("drops corrupt library entries", () => {
+    localStorage.setItem(
+      "frenzy-presets",
+      JSON.stringify({ bad: { name: "bad" }, ok: { ...preset, name: "ok" } }),
+    );
+    expect(listFrenzyPresets().map((p) => p.name)).toStrictEqual(["ok"]);
+  });
+});
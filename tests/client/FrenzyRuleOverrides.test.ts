@@ -0,0 +1,34 @@
+import { withFrenzyOverride } from "../../src/client/utilities/FrenzyRuleOverrides";
+
+describe("withFrenzyOverride", () => {
+  test("sets nested fields without touching the input", () => {
+    const original = { startingGold: 1 };
+    const next = withFrenzyOverride(
+      original,
+      ["units", "soldier", "health"],
+      50,
+    );
+    expect(next).toEqual({
+      startingGold: 1,
+      units: { soldier: { health: 50 } },
+    });
+    expect(original).toEqual({ startingGold: 1 });
+  });
+
+  test("clearing the last field drops empty sections", () => {
+    const next = withFrenzyOverride(
+      { structures: { mine: { maxTier: 1 } } },
+      ["structures", "mine", "maxTier"],
+      undefined,
+    );
+    expect(next).toEqual({});
+  });
+
+  test("rejects values the server would refuse", () => {
+    expect(
+      withFrenzyOverride({}, ["structures", "mine", "maxTier"], 5),
+    ).toBeNull();
+    expect(withFrenzyOverride({}, ["startingGold"], -10)).toBeNull();
+    expect(withFrenzyOverride({}, ["startingGold"], NaN)).toBeNull();
+  });
+});
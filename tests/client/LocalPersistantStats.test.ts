@@ -0,0 +1,38 @@
+import { aggregateFrenzyStats } from "../../src/client/LocalPersistantStats";
+
+describe("aggregateFrenzyStats", () => {
+  test("sums matches and keeps the best peak territory", () => {
+    const career = aggregateFrenzyStats([
+      {
+        units: { soldier: [10n, 4n], warship: [2n] },
+        damage: [500n, 300n],
+        structures: { mine: [3n, 1n], defensePost: [1n, 0n, 1n, 2n] },
+        gold: [1000n, 250n],
+        peakTiles: 800n,
+      },
+      {
+        units: { soldier: [5n, 5n] },
+        damage: [100n],
+        peakTiles: 1200n,
+      },
+    ]);
+    expect(career).toStrictEqual({
+      games: 2,
+      unitsSpawned: 17n,
+      unitsLost: 9n,
+      damageDealt: 600n,
+      damageTaken: 300n,
+      structuresBuilt: 4n,
+      structuresUpgraded: 1n,
+      structuresSold: 1n,
+      structuresCaptured: 2n,
+      baseGold: 1000n,
+      crystalGold: 250n,
+      bestPeakTiles: 1200n,
+    });
+  });
+
+  test("empty history", () => {
+    expect(aggregateFrenzyStats([]).games).toBe(0);
+  });
+});
@@ -0,0 +1,158 @@
+import { MapEditorState } from "../../src/client/MapEditorState";
+import {
+  Difficulty,
+  GameFork,
+  GameMapSize,
+  GameMapType,
+  GameMode,
+  GameType,
+} from "../../src/core/game/Game";
+import { createGame } from "../../src/core/game/GameImpl";
+import { GameMapLoader } from "../../src/core/game/GameMapLoader";
+import {
+  decodeMapPackage,
+  MapPackageLoader,
+} from "../../src/core/game/MapPackage";
+import {
+  clearTerrainMapCache,
+  loadTerrainMap,
+} from "../../src/core/game/TerrainMapLoader";
+import { UserSettings } from "../../src/core/game/UserSettings";
+import { FrenzyOverrides } from "../../src/core/Schemas";
+import { TestConfig } from "../util/TestConfig";
+import { TestServerConfig } from "../util/TestServerConfig";
+
+const unused: GameMapLoader = {
+  getMapData: () => {
+    throw new Error("fallback used");
+  },
+};
+
+// Builds a Frenzy game on the editor's map the way GameRunner does
+async function gameFromEditor(
+  editor: MapEditorState,
+  frenzyOverrides: FrenzyOverrides = {},
+) {
+  const pkg = decodeMapPackage(editor.toPackage());
+  const terrain = await loadTerrainMap(
+    GameMapType.Custom,
+    GameMapSize.Normal,
+    new MapPackageLoader(unused, pkg),
+  );
+  const config = new TestConfig(
+    new TestServerConfig(),
+    {
+      gameMap: GameMapType.Custom,
+      gameMapSize: GameMapSize.Normal,
+      gameFork: GameFork.Frenzy,
+      gameMode: GameMode.FFA,
+      gameType: GameType.Singleplayer,
+      difficulty: Difficulty.Medium,
+      disableNPCs: false,
+      donateGold: false,
+      donateTroops: false,
+      bots: 0,
+      infiniteGold: false,
+      infiniteTroops: false,
+      instantBuild: false,
+      randomSpawn: false,
+      frenzyOverrides,
+    },
+    new UserSettings(),
+    false,
+  );
+  return createGame(
+    [],
+    [],
+    terrain.gameMap,
+    terrain.miniGameMap,
+    config,
+    terrain.crystals,
+  );
+}
+
+describe("MapEditorState", () => {
+  beforeEach(() => {
+    console.debug = () => {};
+    clearTerrainMapCache();
+  });
+
+  test("paints land and water and keeps markers on land", () => {
+    const editor = MapEditorState.fromTemplate(40, 40, "water");
+    editor.paint(20, 20, 6, true, 18);
+    expect(editor.isLand(20, 20)).toBe(true);
+    expect(editor.magnitude[20 * 40 + 20]).toBe(18);
+    expect(editor.isLand(2, 2)).toBe(false);
+
+    expect(editor.addNation(2, 2)).toBe(false);
+    expect(editor.addNation(20, 20)).toBe(true);
+    expect(editor.addCrystal(22, 20)).toBe(true);
+
+    editor.paint(22, 20, 1, false, 0);
+    expect(editor.crystals).toEqual([]);
+    expect(editor.nations).toHaveLength(1);
+    expect(editor.removeMarker(21, 21, 2)).toBe(true);
+    expect(editor.nations).toEqual([]);
+  });
+
+  test("rejects sizes the map format cannot hold", () => {
+    expect(() => new MapEditorState(42, 40)).toThrow(/multiples of 4/);
+    expect(() =>
+      MapEditorState.fromTemplate(40, 40, "water").toPackage(),
+    ).toThrow("The map has no land");
+  });
+
+  test("reloads an exported package", () => {
+    const editor = MapEditorState.fromTemplate(64, 48, "circle", 7);
+    editor.name = "Atoll";
+    editor.paint(32, 24, 3, true, 25);
+    editor.addNation(20, 24);
+    editor.addCrystal(32, 24);
+
+    const reloaded = MapEditorState.fromPackage(
+      decodeMapPackage(JSON.parse(JSON.stringify(editor.toPackage()))),
+    );
+    expect(reloaded.name).toBe("Atoll");
+    expect([reloaded.width, reloaded.height]).toEqual([64, 48]);
+    expect(reloaded.land).toEqual(editor.land);
+    expect(reloaded.magnitude).toEqual(editor.magnitude);
+    expect(reloaded.nations).toEqual(editor.nations);
+    expect(reloaded.crystals).toEqual([[32, 24]]);
+  });
+
+  test("previews the crystals a Frenzy game generates", async () => {
+    const editor = MapEditorState.fromTemplate(100, 100, "circle");
+    const preview = editor.previewCrystals();
+    expect(preview.length).toBeGreaterThan(0);
+
+    const game = await gameFromEditor(editor);
+    const crystals = game.frenzyManager()!.getCrystals();
+    expect(crystals.map(({ id: _id, ...cluster }) => cluster)).toEqual(preview);
+  });
+
+  test("previews with the rule overrides a game would use", async () => {
+    const editor = MapEditorState.fromTemplate(100, 100, "circle");
+    const overrides = { crystalClusterCount: 3 };
+    const preview = editor.previewCrystals(overrides);
+    expect(preview).toHaveLength(3);
+
+    const game = await gameFromEditor(editor, overrides);
+    const crystals = game.frenzyManager()!.getCrystals();
+    expect(crystals.map(({ id: _id, ...cluster }) => cluster)).toEqual(preview);
+  });
+
+  test("games use fixed crystal positions and skip water", async () => {
+    const editor = MapEditorState.fromTemplate(100, 100, "circle");
+    editor.addCrystal(50, 50);
+    editor.addCrystal(30, 60);
+    editor.crystals.push([0, 0]);
+
+    const game = await gameFromEditor(editor);
+    const crystals = game.frenzyManager()!.getCrystals();
+    expect(crystals.map((c) => [c.x, c.y])).toEqual([
+      [50, 50],
+      [30, 60],
+    ]);
+    expect(editor.previewCrystals()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  BattleHotspots,
+  HOTSPOT_CELL_SIZE,
+  MapPings,
+  minimapScale,
+  PING_DURATION_TICKS,
+  viewportRect,
+} from "../../src/client/graphics/layers/MinimapModel";
+import { Cell } from "../../src/core/game/Game";
+
+describe("minimapScale", () => {
+  test("fits the longer side", () => {
+    expect(minimapScale(4000, 2000, 200, 200)).toBe(0.05);
+    expect(minimapScale(1000, 2000, 200, 200)).toBe(0.1);
+  });
+});
+
+describe("viewportRect", () => {
+  test("maps the view into minimap pixels, clipped to the minimap", () => {
+    expect(
+      viewportRect([new Cell(100, 50), new Cell(300, 150)], 0.5, 200, 100),
+    ).toEqual({ x: 50, y: 25, width: 100, height: 50 });
+    expect(
+      viewportRect([new Cell(-100, -50), new Cell(1000, 150)], 0.5, 200, 100),
+    ).toEqual({ x: 0, y: 0, width: 200, height: 75 });
+  });
+});
+
+describe("BattleHotspots", () => {
+  const fight = Array.from({ length: 20 }, () => ({ x: 10, y: 10 }));
+
+  test("shows sustained fighting and lets it fade", () => {
+    const hotspots = new BattleHotspots(500, 500);
+    hotspots.update([{ x: 400, y: 400 }]);
+    expect(hotspots.hotspots()).toEqual([]);
+
+    for (let i = 0; i < 5; i++) {
+      hotspots.update(fight);
+    }
+    const [hot] = hotspots.hotspots();
+    expect(hot).toMatchObject({
+      x: HOTSPOT_CELL_SIZE / 2,
+      y: HOTSPOT_CELL_SIZE / 2,
+    });
+    expect(hot.intensity).toBeGreaterThan(0);
+    expect(hot.intensity).toBeLessThanOrEqual(1);
+
+    for (let i = 0; i < 50; i++) {
+      hotspots.update([]);
+    }
+    expect(hotspots.hotspots()).toEqual([]);
+  });
+
+  test("ignores projectiles off the map", () => {
+    const hotspots = new BattleHotspots(100, 100);
+    hotspots.update(fight.map(() => ({ x: -5, y: 500 })));
+    expect(hotspots.hotspots()).toEqual([]);
+  });
+});
+
+describe("MapPings", () => {
+  test("expires pings and keeps a few per player", () => {
+    const pings = new MapPings();
+    for (let tick = 0; tick < 5; tick++) {
+      pings.add({ playerID: "a", x: tick, y: 0, tick });
+    }
+    pings.add({ playerID: "b", x: 0, y: 0, tick: 4 });
+    expect(pings.active(4).map((p) => `${p.playerID}${p.x}`)).toEqual([
+      "a2",
+      "a3",
+      "a4",
+      "b0",
+    ]);
+    expect(pings.active(3 + PING_DURATION_TICKS)).toHaveLength(2);
+    expect(pings.active(4 + PING_DURATION_TICKS)).toEqual([]);
+  });
+});
@@ -0,0 +1,25 @@
+import { SaveSlot, slotsToEvict } from "../../src/client/SaveSlots";
+import { GameStartInfo } from "../../src/core/Schemas";
+
+function slot(id: string, savedAt: number): SaveSlot {
+  return {
+    id,
+    savedAt,
+    playTimeMs: 0,
+    gameStartInfo: {} as GameStartInfo,
+    turns: [],
+  };
+}
+
+describe("slotsToEvict", () => {
+  test("drops the oldest saves past the limit", () => {
+    const slots = [
+      slot("b", 200),
+      slot("a", 100),
+      slot("d", 400),
+      slot("c", 300),
+    ];
+    expect(slotsToEvict(slots, 2)).toEqual(["b", "a"]);
+    expect(slotsToEvict(slots, 5)).toEqual([]);
+  });
+});
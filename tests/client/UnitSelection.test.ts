@@ -0,0 +1,73 @@
+import {
+  UnitSelection,
+  unitsInBox,
+} from "../../src/client/graphics/layers/frenzy/UnitSelection";
+import { FrenzyUnitType } from "../../src/core/game/frenzy/FrenzyTypes";
+import { FrenzyUnitData } from "../../src/core/game/GameUpdates";
+
+function unit(
+  id: number,
+  playerId: string,
+  x: number,
+  y: number,
+  unitType: string = FrenzyUnitType.Soldier,
+): FrenzyUnitData {
+  return { id, playerId, x, y, unitType } as FrenzyUnitData;
+}
+
+describe("unitsInBox", () => {
+  const box = { minX: 0, minY: 0, maxX: 10, maxY: 10 };
+
+  test("selects own orderable units inside the box", () => {
+    const units = [
+      unit(1, "me", 5, 5),
+      unit(2, "me", 5, 5, FrenzyUnitType.Warship),
+      unit(3, "me", 20, 5),
+      unit(4, "them", 5, 5),
+      unit(5, "me", 5, 5, FrenzyUnitType.DefensePost),
+      unit(6, "me", 5, 5, FrenzyUnitType.Transporter),
+    ];
+    expect(unitsInBox(units, "me", box)).toEqual([1, 2]);
+  });
+});
+
+describe("UnitSelection", () => {
+  test("replaces the selection unless additive", () => {
+    const selection = new UnitSelection();
+    selection.select([1, 2]);
+    selection.select([3]);
+    expect(selection.ids()).toEqual([3]);
+    selection.select([4], true);
+    expect(selection.ids()).toEqual([3, 4]);
+  });
+
+  test("control groups restore a saved selection", () => {
+    const selection = new UnitSelection();
+    selection.select([1, 2]);
+    selection.assignGroup(1);
+    selection.select([3]);
+
+    expect(selection.recallGroup(1)).toBe(true);
+    expect(selection.ids()).toEqual([1, 2]);
+    expect(selection.recallGroup(2)).toBe(false);
+    expect(selection.ids()).toEqual([1, 2]);
+  });
+
+  test("groups are copies of the selection", () => {
+    const selection = new UnitSelection();
+    selection.select([1]);
+    selection.assignGroup(1);
+    selection.select([2], true);
+    expect(selection.groupSize(1)).toBe(1);
+  });
+
+  test("prune drops dead units from selection and groups", () => {
+    const selection = new UnitSelection();
+    selection.select([1, 2, 3]);
+    selection.assignGroup(5);
+    selection.prune(new Set([2]));
+
+    expect(selection.ids()).toEqual([2]);
+    expect(selection.groupSize(5)).toBe(1);
+  });
+});
@@ -0,0 +1,208 @@
+import { SoundLayer } from "../../../src/client/graphics/layers/SoundLayer";
+import { TransformHandler } from "../../../src/client/graphics/TransformHandler";
+import SoundManager, {
+  SoundEffect,
+} from "../../../src/client/sound/SoundManager";
+import {
+  FRENZY_BUILDINGS,
+  FRENZY_UNITS,
+} from "../../../src/core/game/frenzy/FrenzyRegistry";
+import {
+  FrenzyUnitType,
+  PROJECTILE_CONFIGS,
+  ProjectileType,
+} from "../../../src/core/game/frenzy/FrenzyTypes";
+import {
+  FrenzyEntityDelta,
+  FrenzyProjectileData,
+  FrenzyUnitData,
+  FrenzyUpdate,
+  GameUpdateType,
+} from "../../../src/core/game/GameUpdates";
+import { GameView } from "../../../src/core/game/GameView";
+
+jest.mock("../../../src/client/sound/SoundManager", () => ({
+  ...jest.requireActual("../../../src/client/sound/SoundManager"),
+  __esModule: true,
+  default: { playSoundEffect: jest.fn() },
+}));
+
+const playSoundEffect = SoundManager.playSoundEffect as jest.Mock;
+
+function delta<T extends { id: number }>(
+  changes: Partial<FrenzyEntityDelta<T>> = {},
+): FrenzyEntityDelta<T> {
+  return { spawned: [], changed: [], removed: [], ...changes };
+}
+
+function frenzyUpdate(changes: Partial<FrenzyUpdate> = {}): FrenzyUpdate {
+  return {
+    type: GameUpdateType.Frenzy,
+    keyframe: false,
+    units: delta(),
+    structures: delta(),
+    projectiles: delta(),
+    crystals: delta(),
+    projectileSize: 2,
+    maxUnitsPerPlayer: 60,
+    maxWarshipsPerPlayer: 20,
+    pendingGoldPayouts: [],
+    ...changes,
+  };
+}
+
+function projectile(id: number, x = 10): FrenzyProjectileData {
+  return {
+    id,
+    playerId: "p1",
+    x,
+    y: 10,
+    projectileType: ProjectileType.Artillery,
+    progress: 0,
+  };
+}
+
+function tower(id: number, health: number): FrenzyUnitData {
+  return {
+    id,
+    playerId: "p1",
+    x: 20,
+    y: 20,
+    health,
+    maxHealth: 100,
+    unitType: FrenzyUnitType.DefensePost,
+    tier: 1,
+    weaponCooldown: 0,
+    fireInterval: 1,
+    targetX: 20,
+    targetY: 20,
+  };
+}
+
+/** A game fed one Frenzy update per tick, with everything else empty. */
+class FakeGame {
+  tick = 0;
+  update: FrenzyUpdate | null = null;
+  vision: { isVisible(x: number, y: number): boolean } | null = null;
+
+  ticks() {
+    return this.tick;
+  }
+  updatesSinceLastTick() {
+    return {
+      [GameUpdateType.Unit]: [],
+      [GameUpdateType.AllianceRequestReply]: [],
+      [GameUpdateType.BrokeAlliance]: [],
+      [GameUpdateType.Frenzy]: this.update === null ? [] : [this.update],
+    };
+  }
+  frenzyManager() {
+    return { units: [], structures: [], projectiles: [] };
+  }
+  fogOfWar() {
+    return this.vision;
+  }
+  myPlayer() {
+    return null;
+  }
+}
+
+const transformHandler = {
+  scale: 1,
+  screenBoundingRect: () => [
+    { x: 0, y: 0 },
+    { x: 100, y: 100 },
+  ],
+} as unknown as TransformHandler;
+
+describe("SoundLayer", () => {
+  let game: FakeGame;
+  let layer: SoundLayer;
+
+  const step = (update: FrenzyUpdate) => {
+    game.tick++;
+    game.update = update;
+    layer.tick();
+  };
+  const played = () => playSoundEffect.mock.calls.map(([effect]) => effect);
+
+  beforeEach(() => {
+    playSoundEffect.mockClear();
+    game = new FakeGame();
+    layer = new SoundLayer(game as unknown as GameView, transformHandler);
+    // The first tick only primes the layer
+    layer.tick();
+  });
+
+  test("fires on spawn and explodes on removal", () => {
+    step(frenzyUpdate({ projectiles: delta({ spawned: [projectile(1)] }) }));
+    expect(played()).toEqual([SoundEffect.ArtilleryFire]);
+
+    step(frenzyUpdate({ projectiles: delta({ removed: [1] }) }));
+    expect(played()).toEqual([
+      SoundEffect.ArtilleryFire,
+      SoundEffect.Explosion,
+    ]);
+  });
+
+  test("plays nothing for a tick without changes", () => {
+    step(frenzyUpdate());
+    step(frenzyUpdate());
+    expect(played()).toEqual([]);
+  });
+
+  test("destroyed towers are heard, sold ones are not", () => {
+    step(
+      frenzyUpdate({
+        units: delta({ spawned: [tower(1, 40), tower(2, 100)] }),
+      }),
+    );
+    step(frenzyUpdate({ units: delta({ removed: [1, 2] }) }));
+    expect(played()).toEqual([SoundEffect.StructureDestroyed]);
+  });
+
+  test("keyframes play only what changed", () => {
+    step(frenzyUpdate({ projectiles: delta({ spawned: [projectile(1)] }) }));
+    playSoundEffect.mockClear();
+
+    step(
+      frenzyUpdate({
+        keyframe: true,
+        projectiles: delta({ spawned: [projectile(1), projectile(2)] }),
+      }),
+    );
+    expect(played()).toEqual([SoundEffect.ArtilleryFire]);
+
+    step(frenzyUpdate({ keyframe: true }));
+    expect(played()).toEqual([
+      SoundEffect.ArtilleryFire,
+      SoundEffect.Explosion,
+      SoundEffect.Explosion,
+    ]);
+  });
+
+  test("registry and projectile sounds name sound effects", () => {
+    const names = [
+      ...[
+        ...Object.values(FRENZY_BUILDINGS),
+        ...Object.values(FRENZY_UNITS),
+      ].flatMap((def) => Object.values(def.sounds ?? {})),
+      ...Object.values(PROJECTILE_CONFIGS).flatMap((p) => [
+        p.fireSound,
+        p.impactSound,
+      ]),
+    ].filter((name) => name !== undefined);
+    const effects: string[] = Object.values(SoundEffect);
+    expect(names.filter((name) => !effects.includes(name))).toEqual([]);
+  });
+
+  test("nothing under the fog is heard", () => {
+    game.vision = { isVisible: (x) => x < 50 };
+    step(
+      frenzyUpdate({
+        projectiles: delta({ spawned: [projectile(1, 10), projectile(2, 90)] }),
+      }),
+    );
+    expect(playSoundEffect).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,54 @@
+import { spatialMix, VoiceLimiter } from "../../../src/client/sound/SoundMixer";
+
+describe("VoiceLimiter", () => {
+  test("caps voices per effect and in total", () => {
+    const limiter = new VoiceLimiter<string>(3, () => 0);
+    expect(limiter.tryAcquire("fire", 2, 0)).toBe(true);
+    expect(limiter.tryAcquire("fire", 2, 0)).toBe(true);
+    expect(limiter.tryAcquire("fire", 2, 0)).toBe(false);
+    expect(limiter.tryAcquire("boom", 5, 0)).toBe(true);
+    expect(limiter.tryAcquire("boom", 5, 0)).toBe(false);
+
+    limiter.release("fire");
+    expect(limiter.activeVoices()).toBe(2);
+    expect(limiter.tryAcquire("boom", 5, 0)).toBe(true);
+
+    limiter.releaseAll("boom");
+    expect(limiter.activeVoices("boom")).toBe(0);
+    expect(limiter.activeVoices()).toBe(1);
+  });
+
+  test("rate-limits starts of the same effect", () => {
+    let now = 0;
+    const limiter = new VoiceLimiter<string>(10, () => now);
+    expect(limiter.tryAcquire("fire", 10, 100)).toBe(true);
+    now = 50;
+    expect(limiter.tryAcquire("fire", 10, 100)).toBe(false);
+    expect(limiter.tryAcquire("boom", 10, 100)).toBe(true);
+    now = 100;
+    expect(limiter.tryAcquire("fire", 10, 100)).toBe(true);
+  });
+});
+
+describe("spatialMix", () => {
+  const view = { left: 0, top: 0, right: 200, bottom: 100, scale: 2 };
+
+  test("plays on-screen sounds at full volume, panned by position", () => {
+    expect(spatialMix(100, 50, view)).toEqual({ volume: 1, pan: 0 });
+    const left = spatialMix(0, 50, view)!;
+    expect(left.volume).toBe(1);
+    expect(left.pan).toBeLessThan(0);
+  });
+
+  test("fades out beyond the viewport", () => {
+    const near = spatialMix(250, 50, view)!;
+    expect(near.volume).toBeGreaterThan(0);
+    expect(near.volume).toBeLessThan(1);
+    expect(spatialMix(400, 50, view)).toBeNull();
+  });
+
+  test("zooming out makes sounds quieter", () => {
+    const zoomedOut = spatialMix(100, 50, { ...view, scale: 0.5 })!;
+    expect(zoomedOut.volume).toBe(0.25);
+  });
+});
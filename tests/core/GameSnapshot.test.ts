@@ -0,0 +1,170 @@
+import { Cell } from "../../src/core/game/Game";
+import {
+  compressSnapshot,
+  decodeSnapshotGraph,
+  decompressSnapshot,
+  encodeSnapshotGraph,
+} from "../../src/core/GameSnapshot";
+import { PseudoRandom } from "../../src/core/PseudoRandom";
+import { SNAPSHOT_INTERVAL_TURNS } from "../../src/core/Schemas";
+import { botRunner, hashes, playTurns } from "../util/BotRunner";
+
+function roundTrip<T extends object>(
+  root: T,
+  shared: ReadonlyMap<string, object> = new Map(),
+): T {
+  // Through JSON, as it travels
+  const nodes = JSON.parse(JSON.stringify(encodeSnapshotGraph(root, shared)));
+  return decodeSnapshotGraph(nodes, shared) as T;
+}
+
+async function snapshotRunner(gameID = "game1234") {
+  const bots = await botRunner(gameID);
+  bots.runner.enableLiveSnapshots();
+  return bots;
+}
+
+describe("GameSnapshot", () => {
+  test("keeps classes, cycles, collections and special values", () => {
+    const cell = new Cell(3, 4);
+    const root: Record<string, unknown> = {
+      cells: new Map<string, unknown>([["a", cell]]),
+      seen: new Set([cell]),
+      counts: new Uint32Array([1, 2, 70000]),
+      numbers: [NaN, -0, Infinity, 1.5],
+      missing: undefined,
+      big: 12n,
+    };
+    root.self = root;
+
+    const copy = roundTrip(root);
+    const copiedCell = (copy.cells as Map<string, Cell>).get("a")!;
+    expect(copiedCell).toBeInstanceOf(Cell);
+    expect(copiedCell.toString()).toBe(cell.toString());
+    expect((copy.seen as Set<Cell>).has(copiedCell)).toBe(true);
+    expect(copy.self).toBe(copy);
+    expect(copy.counts).toEqual(new Uint32Array([1, 2, 70000]));
+    expect(copy.numbers).toEqual([NaN, -0, Infinity, 1.5]);
+    expect("missing" in copy).toBe(true);
+    expect(copy.big).toBe(12n);
+  });
+
+  test("restores random generators mid-sequence", () => {
+    const random = new PseudoRandom(42);
+    random.next();
+    const copy = roundTrip({ random }).random;
+    expect(copy.next()).toBe(random.next());
+    expect(copy.nextInt(0, 1000)).toBe(random.nextInt(0, 1000));
+  });
+
+  test("writes shared objects by name only", () => {
+    const config = { huge: new Uint8Array(1000) };
+    const nodes = encodeSnapshotGraph(
+      { config },
+      new Map([["config", config]]),
+    );
+    expect(nodes).toHaveLength(1);
+
+    const other = { huge: new Uint8Array(1000) };
+    const copy = decodeSnapshotGraph(nodes, new Map([["config", other]])) as {
+      config: object;
+    };
+    expect(copy.config).toBe(other);
+    expect(() => decodeSnapshotGraph(nodes, new Map())).toThrow(
+      "snapshot needs shared config",
+    );
+  });
+
+  test("refuses closures and unregistered classes", () => {
+    class Unknown {}
+    expect(() => encodeSnapshotGraph({ f: () => 1 }, new Map())).toThrow(
+      "cannot snapshot the function in Object.f",
+    );
+    expect(() => encodeSnapshotGraph({ u: new Unknown() }, new Map())).toThrow(
+      "not in SnapshotRegistry",
+    );
+    expect(() =>
+      decodeSnapshotGraph([{ k: "obj", c: "Unknown", p: {} }], new Map()),
+    ).toThrow("snapshot has unknown class Unknown");
+  });
+
+  test("restored games play on with the same hashes", async () => {
+    const turns = SNAPSHOT_INTERVAL_TURNS + 100;
+    const { runner, updates } = await snapshotRunner();
+    playTurns(runner, 0, turns);
+    const original = hashes(updates);
+
+    const snapshot = runner.liveSnapshot(SNAPSHOT_INTERVAL_TURNS + 1)!;
+    expect(snapshot).not.toBeNull();
+    expect(snapshot.hash).toBe(original.get(SNAPSHOT_INTERVAL_TURNS));
+    expect(runner.liveSnapshot(SNAPSHOT_INTERVAL_TURNS)).toBeNull();
+
+    const restored = await snapshotRunner();
+    const vote = { turn: snapshot.turn, hash: snapshot.hash };
+    expect(() =>
+      restored.runner.restoreSnapshot(snapshot, {
+        ...vote,
+        hash: vote.hash + 1,
+      }),
+    ).toThrow("hashes to");
+    restored.runner.restoreSnapshot(
+      await decompressSnapshot(await compressSnapshot(snapshot)),
+      vote,
+    );
+    restored.updates.length = 0;
+    playTurns(restored.runner, snapshot.turn, turns);
+    expect(restored.updates[0].resync).toBe(true);
+
+    const replayed = hashes(restored.updates);
+    expect(replayed.size).toBeGreaterThan(0);
+    for (const [tick, hash] of replayed) {
+      expect(hash).toBe(original.get(tick));
+    }
+  }, 120_000);
+
+  test("saved games continue from the current state", async () => {
+    const { runner, updates } = await snapshotRunner();
+    expect(runner.currentSnapshot()).toBeNull();
+    playTurns(runner, 0, 100);
+    const snapshot = runner.currentSnapshot()!;
+    expect(snapshot.turn).toBe(100);
+    playTurns(runner, 100, 150);
+    const original = hashes(updates);
+
+    const restored = await snapshotRunner();
+    restored.runner.restoreSnapshot(snapshot, snapshot);
+    playTurns(restored.runner, snapshot.turn, 150);
+
+    const replayed = hashes(restored.updates);
+    expect(replayed.size).toBeGreaterThan(0);
+    for (const [tick, hash] of replayed) {
+      expect(hash).toBe(original.get(tick));
+    }
+  }, 60_000);
+
+  test("rejects snapshots that only match their own hash", async () => {
+    const honest = await snapshotRunner();
+    playTurns(honest.runner, 0, 100);
+    const vote = honest.runner.currentSnapshot()!;
+
+    // A different game at the same turn, with a hash that is true to it
+    const forger = await snapshotRunner("forged12");
+    playTurns(forger.runner, 0, 100);
+    const forged = forger.runner.currentSnapshot()!;
+    expect(forged.hash).not.toBe(vote.hash);
+
+    const restored = await snapshotRunner();
+    expect(() =>
+      restored.runner.restoreSnapshot(forged, {
+        turn: vote.turn,
+        hash: vote.hash,
+      }),
+    ).toThrow("hashes to");
+    expect(() =>
+      restored.runner.restoreSnapshot(
+        { ...vote, turn: vote.turn + 1 },
+        { turn: vote.turn, hash: vote.hash },
+      ),
+    ).toThrow("expected 100");
+  }, 60_000);
+});
@@ -0,0 +1,91 @@
+import { PathFinder } from "../../src/core/pathfinding/PathFinding";
+import {
+  cloneGraph,
+  ReplayCheckpoints,
+} from "../../src/core/ReplayCheckpoints";
+import { botRunner, hashes, playTurns } from "../util/BotRunner";
+import { setup } from "../util/Setup";
+
+class Node {
+  next: Node | null = null;
+  constructor(public value: number) {}
+  double() {
+    return this.value * 2;
+  }
+}
+
+async function checkpointRunner() {
+  const bots = await botRunner("replay1");
+  bots.runner.enableCheckpoints();
+  return bots;
+}
+
+describe("ReplayCheckpoints", () => {
+  test("cloneGraph keeps prototypes, cycles and typed arrays", () => {
+    const a = new Node(1);
+    const b = new Node(2);
+    a.next = b;
+    b.next = a;
+    const shared = { config: true };
+    const root = {
+      nodes: new Map([["a", a]]),
+      data: new Uint16Array([1, 2, 3]),
+      shared,
+    };
+
+    const copy = cloneGraph(root, new Set([shared]));
+    const copiedA = copy.nodes.get("a")!;
+    expect(copiedA).not.toBe(a);
+    expect(copiedA.double()).toBe(2);
+    expect(copiedA.next!.next).toBe(copiedA);
+    expect(copy.shared).toBe(shared);
+
+    copy.data[0] = 9;
+    expect(root.data[0]).toBe(1);
+  });
+
+  test("cloneGraph points copied path finders at the copied game", async () => {
+    const game = await setup("plains");
+    const root = { game, pathFinder: PathFinder.Mini(game, 100) };
+
+    const copy = cloneGraph(root, new Set([game.config()]));
+    const original = jest.spyOn(game, "miniMap");
+    const copied = jest.spyOn(copy.game, "miniMap");
+    copy.pathFinder.nextTile(game.ref(10, 10), game.ref(40, 40));
+    expect(copied).toHaveBeenCalled();
+    expect(original).not.toHaveBeenCalled();
+  });
+
+  test("thins checkpoints when over capacity", () => {
+    const checkpoints = new ReplayCheckpoints<number>(10, 4);
+    for (let turn = 0; turn <= 40; turn++) {
+      if (checkpoints.shouldCapture(turn)) checkpoints.add(turn, turn);
+    }
+    expect(checkpoints.turns()).toEqual([0, 20, 40]);
+    expect(checkpoints.nearest(35)?.turn).toBe(20);
+  });
+
+  test("seeking reproduces the original hashes", async () => {
+    const { runner, updates } = await checkpointRunner();
+    playTurns(runner, 0, 700);
+    const original = hashes(updates);
+
+    for (const target of [250, 650]) {
+      updates.length = 0;
+      runner.seek(target);
+      expect(updates).toHaveLength(1);
+      expect(updates[0].resync).toBe(true);
+      expect(updates[0].tick).toBe(target);
+      expect(updates[0].packedTileUpdates.length).toBe(
+        runner.game.width() * runner.game.height(),
+      );
+
+      playTurns(runner, target, 700);
+      const replayed = hashes(updates);
+      expect(replayed.size).toBeGreaterThan(0);
+      for (const [tick, hash] of replayed) {
+        expect(hash).toBe(original.get(tick));
+      }
+    }
+  }, 60_000);
+});
@@ -0,0 +1,155 @@
+import { FrenzyNationStrategy } from "../../../src/core/execution/nation/FrenzyNationStrategy";
+import { SpawnExecution } from "../../../src/core/execution/SpawnExecution";
+import { FrenzyManager } from "../../../src/core/game/frenzy/FrenzyManager";
+import {
+  FrenzyUnit,
+  FrenzyUnitType,
+} from "../../../src/core/game/frenzy/FrenzyTypes";
+import {
+  Difficulty,
+  Game,
+  Player,
+  PlayerInfo,
+  PlayerType,
+  UnitType,
+} from "../../../src/core/game/Game";
+import { PseudoRandom } from "../../../src/core/PseudoRandom";
+import { setup } from "../../util/Setup";
+
+let game: Game;
+let frenzy: FrenzyManager;
+let nation: Player;
+let neighbor: Player;
+
+function soldiers(playerId: string, count: number, x: number, y: number) {
+  return Array.from(
+    { length: count },
+    (_, i) =>
+      ({
+        id: i,
+        playerId,
+        x,
+        y,
+        unitType: FrenzyUnitType.Soldier,
+      }) as FrenzyUnit,
+  );
+}
+
+function strategy(difficulty = Difficulty.Hard) {
+  return new FrenzyNationStrategy(
+    game,
+    nation,
+    new PseudoRandom(1),
+    difficulty,
+  );
+}
+
+describe("FrenzyNationStrategy", () => {
+  beforeEach(async () => {
+    game = await setup("plains");
+    const a = new PlayerInfo(
+      "nation a",
+      PlayerType.FakeHuman,
+      null,
+      "nation_a",
+    );
+    const b = new PlayerInfo(
+      "nation b",
+      PlayerType.FakeHuman,
+      null,
+      "nation_b",
+    );
+    game.addPlayer(a);
+    game.addPlayer(b);
+    game.addExecution(new SpawnExecution(a, game.ref(40, 50)));
+    game.addExecution(new SpawnExecution(b, game.ref(60, 50)));
+    while (game.inSpawnPhase()) {
+      game.executeNextTick();
+    }
+    for (let i = 0; i < 50; i++) {
+      game.executeNextTick();
+    }
+    frenzy = game.frenzyManager()!;
+    nation = game.player("nation_a");
+    neighbor = game.player("nation_b");
+  });
+
+  test("opens with a mine, then a factory", () => {
+    const order = strategy().buildOrder();
+    expect(order.slice(0, 2)).toEqual([UnitType.City, UnitType.Factory]);
+  });
+
+  test("adds a shield and a SAM launcher for every defense post", () => {
+    const counts = new Map<string, number>([
+      [UnitType.City, 20],
+      [UnitType.Factory, 1],
+      [UnitType.DefensePost, 1],
+    ]);
+    jest
+      .spyOn(frenzy, "getStructureCountForPlayer")
+      .mockImplementation((_, type) => counts.get(type) ?? 0);
+
+    const order = strategy().buildOrder();
+    expect(order).toContain(UnitType.ShieldGenerator);
+    expect(order).toContain(UnitType.SAMLauncher);
+
+    counts.set(UnitType.ShieldGenerator, 1);
+    counts.set(UnitType.SAMLauncher, 1);
+    const covered = strategy().buildOrder();
+    expect(covered).not.toContain(UnitType.ShieldGenerator);
+    expect(covered).not.toContain(UnitType.SAMLauncher);
+  });
+
+  test("turns defensive and builds defenses when the HQ is overrun", () => {
+    const hq = frenzy.getHQForPlayer(nation.id())!;
+    jest
+      .spyOn(frenzy, "getUnits")
+      .mockReturnValue([
+        ...soldiers(nation.id(), 2, hq.x, hq.y),
+        ...soldiers(neighbor.id(), 5, hq.x + 10, hq.y),
+      ]);
+
+    const s = strategy();
+    s.tick();
+
+    expect(frenzy.getPlayerDefensiveStance(nation.id())).toBe(0);
+    expect(s.buildOrder()[0]).toBe(UnitType.DefensePost);
+  });
+
+  test("sends soldiers at the HQ of a weaker neighbour", () => {
+    expect(nation.sharesBorderWith(neighbor)).toBe(true);
+    jest
+      .spyOn(frenzy, "getUnits")
+      .mockReturnValue([
+        ...soldiers(nation.id(), 20, 0, 0),
+        ...soldiers(neighbor.id(), 12, 99, 99),
+      ]);
+    const attack = jest.spyOn(frenzy, "queueAttackOrder");
+    const enemyHQ = frenzy.getHQForPlayer(neighbor.id())!;
+
+    strategy().tick();
+
+    expect(attack).toHaveBeenCalledWith(
+      nation.id(),
+      neighbor.id(),
+      0.6,
+      enemyHQ.x,
+      enemyHQ.y,
+    );
+    expect(frenzy.getPlayerDefensiveStance(nation.id())).toBe(1);
+  });
+
+  test("easy nations need a much larger advantage to attack", () => {
+    jest
+      .spyOn(frenzy, "getUnits")
+      .mockReturnValue([
+        ...soldiers(nation.id(), 20, 0, 0),
+        ...soldiers(neighbor.id(), 12, 99, 99),
+      ]);
+    const attack = jest.spyOn(frenzy, "queueAttackOrder");
+
+    strategy(Difficulty.Easy).tick();
+
+    expect(attack).not.toHaveBeenCalled();
+  });
+});
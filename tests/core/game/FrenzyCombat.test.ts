@@ -0,0 +1,78 @@
+import { SpawnExecution } from "../../../src/core/execution/SpawnExecution";
+import { FrenzyManager } from "../../../src/core/game/frenzy/FrenzyManager";
+import { mergeUnitStats } from "../../../src/core/game/frenzy/FrenzyRegistry";
+import {
+  FrenzyUnit,
+  FrenzyUnitType,
+  ProjectileType,
+} from "../../../src/core/game/frenzy/FrenzyTypes";
+import { Game, PlayerInfo, PlayerType } from "../../../src/core/game/Game";
+import { setup } from "../../util/Setup";
+
+let game: Game;
+let frenzy: FrenzyManager;
+
+function spawn(owner: string, type: FrenzyUnitType, x: number): FrenzyUnit {
+  const hq = frenzy.getHQForPlayer(owner)!;
+  frenzy["spawnUnit"](owner, hq.x, hq.y, type);
+  const unit = frenzy.getUnits().at(-1)!;
+  // Far from both HQs, so nothing else is in range
+  unit.x = x;
+  unit.y = 90;
+  return unit;
+}
+
+// One combat pass with every weapon loaded
+function fire() {
+  for (const unit of frenzy.getUnits()) unit.weaponCooldown = 0;
+  frenzy["rebuildSpatialGrid"]();
+  frenzy["updateCombat"](0.1);
+}
+
+describe("FrenzyManager combat", () => {
+  beforeEach(async () => {
+    game = await setup("plains");
+    const a = new PlayerInfo("player a", PlayerType.FakeHuman, null, "a");
+    const b = new PlayerInfo("player b", PlayerType.FakeHuman, null, "b");
+    game.addPlayer(a);
+    game.addPlayer(b);
+    game.addExecution(new SpawnExecution(a, game.ref(40, 50)));
+    game.addExecution(new SpawnExecution(b, game.ref(60, 50)));
+    while (game.inSpawnPhase()) {
+      game.executeNextTick();
+    }
+    game.executeNextTick();
+    frenzy = game.frenzyManager()!;
+  });
+
+  test("defense posts fight with the stats of their tier", () => {
+    const post = spawn("a", FrenzyUnitType.DefensePost, 10);
+    // Past the tier 1 range of 30, inside the tier 2 range of 37.5
+    const soldier = spawn("b", FrenzyUnitType.Soldier, 45);
+    const health = soldier.health;
+
+    fire();
+    expect(soldier.health).toBe(health);
+
+    post.tier = 2;
+    fire();
+    expect(soldier.health).toBe(health - 100);
+    expect(frenzy["projectiles"].at(-1)?.projectileType).toBe(
+      ProjectileType.Laser,
+    );
+  });
+
+  test("upgraded units use the rule set's stats for their tier", () => {
+    const config = frenzy["config"];
+    config.units = mergeUnitStats(config.units, {
+      eliteDefensePost: { range: 40, projectileDamage: 60 },
+    });
+    const post = spawn("a", FrenzyUnitType.DefensePost, 10);
+    const soldier = spawn("b", FrenzyUnitType.Soldier, 49);
+    const health = soldier.health;
+    post.tier = 2;
+
+    fire();
+    expect(soldier.health).toBe(health - 60);
+  });
+});
@@ -0,0 +1,255 @@
+import { SpawnExecution } from "../../../src/core/execution/SpawnExecution";
+import {
+  FrenzyCollectionEncoder,
+  FrenzyDeltaDecoder,
+  FrenzyDeltaEncoder,
+  FrenzyEntityData,
+  FrenzySettings,
+  FrenzySnapshot,
+} from "../../../src/core/game/frenzy/FrenzyDelta";
+import { FrenzyManager } from "../../../src/core/game/frenzy/FrenzyManager";
+import {
+  FrenzyStructureType,
+  FrenzyUnitOrder,
+  FrenzyUnitType,
+} from "../../../src/core/game/frenzy/FrenzyTypes";
+import { Game, PlayerInfo, PlayerType } from "../../../src/core/game/Game";
+import {
+  FrenzyUnitData,
+  FrenzyUpdate,
+  GameUpdateType,
+} from "../../../src/core/game/GameUpdates";
+import { setup } from "../../util/Setup";
+
+function unit(id: number, x: number): FrenzyUnitData {
+  return {
+    id,
+    playerId: "player_a",
+    x,
+    y: 0,
+    health: 100,
+    maxHealth: 100,
+    unitType: "soldier",
+    tier: 1,
+    weaponCooldown: 0,
+    fireInterval: 1,
+    targetX: 0,
+    targetY: 0,
+  };
+}
+
+const settings: FrenzySettings = {
+  projectileSize: 1,
+  maxUnitsPerPlayer: 150,
+  maxWarshipsPerPlayer: 20,
+  pendingGoldPayouts: [],
+};
+
+function snapshot(units: FrenzyUnitData[]): FrenzySnapshot {
+  return { ...settings, units, structures: [], projectiles: [], crystals: [] };
+}
+
+const copy = (u: FrenzyUnitData) => ({ ...u });
+
+const byId = <T extends { id: number }>(a: readonly T[]) =>
+  [...a].sort((x, y) => x.id - y.id);
+
+const unbuilt = (): never => {
+  throw new Error("nothing was marked, so no entity data is built");
+};
+
+const noEntityData: FrenzyEntityData = {
+  unit: unbuilt,
+  structure: unbuilt,
+  projectile: unbuilt,
+  crystal: unbuilt,
+};
+
+async function twoPlayerGame(map = "plains", apart = 30): Promise<Game> {
+  const game = await setup(map);
+  const y = game.height() / 2;
+  const x = (game.width() - apart) / 2;
+  const a = new PlayerInfo("player a", PlayerType.Human, null, "player_a");
+  const b = new PlayerInfo("player b", PlayerType.Human, null, "player_b");
+  game.addPlayer(a);
+  game.addPlayer(b);
+  game.addExecution(new SpawnExecution(a, game.ref(x, y)));
+  game.addExecution(new SpawnExecution(b, game.ref(x + apart, y)));
+  while (game.inSpawnPhase()) {
+    game.executeNextTick();
+  }
+  return game;
+}
+
+/** Follows a game's Frenzy updates across the worker boundary. */
+function follow(game: Game, manager: FrenzyManager) {
+  const decoder = new FrenzyDeltaDecoder();
+  manager.forceKeyframe();
+  const apply = (update: FrenzyUpdate) =>
+    decoder.apply(structuredClone(update));
+  return {
+    tick() {
+      for (const update of game.executeNextTick()[GameUpdateType.Frenzy]) {
+        apply(update);
+      }
+      // Executions run after the tick's update was built
+      apply(manager.createDeltaUpdate());
+    },
+    expectSnapshot() {
+      const full = manager.createUpdate();
+      expect(byId(decoder.units.values())).toEqual(byId(full.units));
+      expect(byId(decoder.structures.values())).toEqual(byId(full.structures));
+      expect(byId(decoder.projectiles.values())).toEqual(
+        byId(full.projectiles),
+      );
+      expect(byId(decoder.crystals.values())).toEqual(byId(full.crystals));
+      return full;
+    },
+  };
+}
+
+describe("FrenzyDelta", () => {
+  test("sends only marked entities, their changed fields and removed ids", () => {
+    const encoder = new FrenzyCollectionEncoder<
+      FrenzyUnitData,
+      FrenzyUnitData
+    >();
+    const a = unit(1, 0);
+    const b = unit(2, 0);
+
+    const first = encoder.keyframe([a, b]);
+    expect(first.spawned).toHaveLength(2);
+
+    // Changes of unmarked entities are not looked at
+    a.x = 5;
+    b.x = 5;
+    const c = unit(3, 0);
+    encoder.touch(a);
+    encoder.add(c);
+    encoder.remove(b);
+    const second = encoder.delta(copy);
+    expect(second.spawned.map((u) => u.id)).toEqual([3]);
+    expect(second.changed).toEqual([{ id: 1, x: 5 }]);
+    expect(second.removed).toEqual([2]);
+
+    encoder.touch(a);
+    // Removed entities stay removed when something still holds on to them
+    encoder.touch(b);
+    const third = encoder.delta(copy);
+    expect(third.spawned).toHaveLength(0);
+    expect(third.changed).toHaveLength(0);
+    expect(third.removed).toHaveLength(0);
+  });
+
+  test("drops entities added and removed between two updates", () => {
+    const encoder = new FrenzyCollectionEncoder<
+      FrenzyUnitData,
+      FrenzyUnitData
+    >();
+    encoder.keyframe([]);
+    const a = unit(1, 0);
+    encoder.add(a);
+    encoder.remove(a);
+    expect(encoder.delta(copy)).toEqual({
+      spawned: [],
+      changed: [],
+      removed: [],
+    });
+  });
+
+  test("decoder ignores deltas until the first keyframe", () => {
+    const encoder = new FrenzyDeltaEncoder(100);
+    const decoder = new FrenzyDeltaDecoder();
+    encoder.encodeKeyframe(snapshot([unit(1, 0)]));
+    const delta = encoder.encodeDelta(settings, noEntityData);
+    expect(delta.keyframe).toBe(false);
+    expect(decoder.apply(delta)).toBe(false);
+    expect(decoder.units.values()).toHaveLength(0);
+  });
+
+  test("decoded state matches the full snapshot of a running game", async () => {
+    const game = await twoPlayerGame();
+    const manager = game.frenzyManager()!;
+    const client = follow(game, manager);
+
+    let projectilesSeen = false;
+    for (let i = 0; i < 400; i++) {
+      if (i % 50 === 10) {
+        manager.queueAttackOrder("player_a", "player_b", 1, 65, 50);
+        manager.queueAttackOrder("player_b", "player_a", 1, 35, 50);
+      }
+      client.tick();
+      const full = client.expectSnapshot();
+      projectilesSeen ||= full.projectiles.length > 0;
+    }
+    // The armies met, so combat state went through the deltas too
+    expect(projectilesSeen).toBe(true);
+  });
+
+  test("decoded state matches the full snapshot after a mixed tick", async () => {
+    // Far enough apart that nothing fights before the mixed tick
+    const game = await twoPlayerGame("big_plains", 120);
+    const manager = game.frenzyManager()!;
+    const client = follow(game, manager);
+    // HQs are built on the first tick
+    client.tick();
+    const a = manager.getHQForPlayer("player_a")!;
+    const b = manager.getHQForPlayer("player_b")!;
+    manager.spawnTower(
+      "player_a",
+      a.x - 1,
+      a.y - 3,
+      FrenzyUnitType.DefensePost,
+    );
+    // Mines and shield generators don't change on their own, so only the
+    // mixed tick touches these
+    const mineTile = game.ref(b.x + 2, b.y + 2);
+    manager.registerMine("player_b", mineTile, b.x + 2, b.y + 2);
+    manager.spawnTower(
+      "player_a",
+      a.x - 1,
+      a.y + 3,
+      FrenzyUnitType.ShieldGenerator,
+    );
+    for (let i = 0; i < 5; i++) {
+      client.tick();
+    }
+    client.expectSnapshot();
+
+    // One tick of everything a player, a nuke and a config change can do
+    game.player("player_a").addGold(1_000_000n);
+    expect(manager.upgradeHQ("player_a")).toBe(true);
+    const near = (dx: number, dy: number) =>
+      [game.ref(a.x + dx, a.y + dy), a.x + dx, a.y + dy] as const;
+    manager.registerFactory("player_a", ...near(-2, 2));
+    manager.registerAirport("player_a", ...near(2, 2));
+    const own = (type: FrenzyUnitType) =>
+      manager
+        .getUnits()
+        .filter((u) => u.playerId === "player_a" && u.unitType === type);
+    const [post] = own(FrenzyUnitType.DefensePost);
+    expect(manager.upgradeUnitUnified("player_a", post.id)).toBe(true);
+    const [shield] = own(FrenzyUnitType.ShieldGenerator);
+    manager.applyAreaDamage(shield.x, shield.y, 1, 5);
+    const [held] = own(FrenzyUnitType.Soldier);
+    expect(
+      manager.commandUnits("player_a", [held.id], FrenzyUnitOrder.Hold),
+    ).toBe(1);
+    manager.queueAttackOrder("player_a", "player_b", 1, b.x, b.y);
+    manager.setPlayerDefensiveStance("player_b", 0);
+    manager.applyNukeStructureDamage(b.x, b.y, 10, 50, "player_a");
+    manager.updateConfig({ spawnInterval: 2 });
+    client.tick();
+
+    const full = client.expectSnapshot();
+    expect(manager.getMines().get(mineTile)!.health).toBeLessThan(
+      manager.getConfig().mineHealth,
+    );
+    expect(full.structures.map((s) => s.type)).toEqual(
+      expect.arrayContaining([
+        FrenzyStructureType.Factory,
+        FrenzyStructureType.Airport,
+      ]),
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import { SpawnExecution } from "../../../src/core/execution/SpawnExecution";
+import {
+  combineHashes,
+  diffFrenzyHashes,
+  hashFrenzyUnit,
+} from "../../../src/core/game/frenzy/FrenzyHash";
+import {
+  FrenzyUnit,
+  FrenzyUnitType,
+} from "../../../src/core/game/frenzy/FrenzyTypes";
+import { Game, PlayerInfo, PlayerType } from "../../../src/core/game/Game";
+import { GameUpdateType, HashUpdate } from "../../../src/core/game/GameUpdates";
+import { setup } from "../../util/Setup";
+
+function unit(overrides: Partial<FrenzyUnit> = {}): FrenzyUnit {
+  return {
+    id: 1,
+    playerId: "player_a",
+    x: 10,
+    y: 20,
+    vx: 0,
+    vy: 0,
+    health: 100,
+    maxHealth: 100,
+    targetX: 10,
+    targetY: 20,
+    weaponCooldown: 0,
+    unitType: FrenzyUnitType.Soldier,
+    fireInterval: 1,
+    tier: 1,
+    ...overrides,
+  };
+}
+
+async function spawnedFrenzyGame(): Promise<Game> {
+  const game = await setup("plains");
+  const info = new PlayerInfo("player a", PlayerType.Human, null, "player_a");
+  game.addPlayer(info);
+  game.addExecution(new SpawnExecution(info, game.ref(50, 50)));
+  while (game.inSpawnPhase()) {
+    game.executeNextTick();
+  }
+  return game;
+}
+
+function nextHashUpdate(game: Game): HashUpdate {
+  for (;;) {
+    const updates = game.executeNextTick();
+    const hashes = updates[GameUpdateType.Hash];
+    if (hashes.length > 0) {
+      return hashes[0];
+    }
+  }
+}
+
+describe("FrenzyHash", () => {
+  test("entity hashes are combined independently of order", () => {
+    const a = hashFrenzyUnit(unit({ id: 1 }));
+    const b = hashFrenzyUnit(unit({ id: 2, x: 30 }));
+    expect(combineHashes(combineHashes(0, a), b)).toBe(
+      combineHashes(combineHashes(0, b), a),
+    );
+  });
+
+  test("sub-pixel float noise does not change the unit hash", () => {
+    expect(hashFrenzyUnit(unit({ x: 10.0000001 }))).toBe(
+      hashFrenzyUnit(unit({ x: 10 })),
+    );
+    expect(hashFrenzyUnit(unit({ x: 11 }))).not.toBe(
+      hashFrenzyUnit(unit({ x: 10 })),
+    );
+  });
+
+  test("diff reports only drifted subsystems", () => {
+    const base = { units: 1, structures: 2, economy: 3, territory: 4 };
+    expect(diffFrenzyHashes(base, { ...base })).toEqual([]);
+    expect(diffFrenzyHashes(base, { ...base, economy: 99 })).toEqual([
+      "economy",
+    ]);
+  });
+
+  test("hash update carries a Frenzy breakdown that tracks state", async () => {
+    const game = await spawnedFrenzyGame();
+    const manager = game.frenzyManager()!;
+
+    const first = nextHashUpdate(game);
+    expect(first.frenzyHashes).toEqual(manager.hashBreakdown());
+
+    const before = manager.hashBreakdown();
+    manager.getUnits()[0].health -= 10;
+    const after = manager.hashBreakdown();
+    expect(diffFrenzyHashes(before, after)).toEqual(["units"]);
+  });
+});
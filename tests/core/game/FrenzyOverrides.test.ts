@@ -0,0 +1,106 @@
+import { SpawnExecution } from "../../../src/core/execution/SpawnExecution";
+import {
+  DEFAULT_FRENZY_CONFIG,
+  STRUCTURE_CONFIGS,
+} from "../../../src/core/game/frenzy/FrenzyRegistry";
+import { FrenzyConfigSchema } from "../../../src/core/game/frenzy/FrenzyTypes";
+import {
+  Game,
+  Player,
+  PlayerInfo,
+  PlayerType,
+  UnitType,
+} from "../../../src/core/game/Game";
+import {
+  FrenzyOverrides,
+  FrenzyOverridesSchema,
+} from "../../../src/core/Schemas";
+import { setup } from "../../util/Setup";
+
+async function startGame(
+  frenzyOverrides?: FrenzyOverrides,
+): Promise<[Game, Player]> {
+  const game = await setup("plains", { frenzyOverrides });
+  const info = new PlayerInfo("player", PlayerType.FakeHuman, null, "p");
+  game.addPlayer(info);
+  game.addExecution(new SpawnExecution(info, game.ref(50, 50)));
+  while (game.inSpawnPhase()) {
+    game.executeNextTick();
+  }
+  game.executeNextTick();
+  return [game, game.player("p")];
+}
+
+describe("GameConfig.frenzyOverrides", () => {
+  test("schema rejects unknown fields and out-of-range tiers", () => {
+    expect(
+      FrenzyOverridesSchema.safeParse({ structures: { mine: { maxTier: 1 } } })
+        .success,
+    ).toBe(true);
+    expect(
+      FrenzyOverridesSchema.safeParse({ structures: { mine: { maxTier: 3 } } })
+        .success,
+    ).toBe(false);
+    expect(
+      FrenzyOverridesSchema.safeParse({ structures: { hq: { buildCost: 1 } } })
+        .success,
+    ).toBe(false);
+    expect(FrenzyOverridesSchema.safeParse({ startingGold: -1 }).success).toBe(
+      false,
+    );
+  });
+
+  test("schema is derived from the full Frenzy config", () => {
+    expect(FrenzyConfigSchema.safeParse(DEFAULT_FRENZY_CONFIG).success).toBe(
+      true,
+    );
+    // Every rule, even one added to FrenzyConfig later, can be overridden
+    for (const key of Object.keys(FrenzyConfigSchema.shape)) {
+      expect(FrenzyOverridesSchema.shape).toHaveProperty(key);
+    }
+    expect(
+      FrenzyOverridesSchema.safeParse({
+        mineRadius: 10,
+        units: { eliteArtillery: { areaRadius: 5 } },
+      }).success,
+    ).toBe(true);
+    expect(
+      FrenzyOverridesSchema.safeParse({ units: { sniper: { range: 1 } } })
+        .success,
+    ).toBe(false);
+  });
+
+  test("defaults apply without overrides", async () => {
+    const [game, player] = await startGame();
+    expect(game.config().unitInfo(UnitType.City).cost(player)).toBe(
+      BigInt(STRUCTURE_CONFIGS.mine.buildCost),
+    );
+    expect(game.frenzyManager()!.structureConfig("mine").maxTier).toBe(2);
+  });
+
+  test("starting gold, unit caps and crystals follow the rule set", async () => {
+    const [game, player] = await startGame({
+      startingGold: 12345,
+      maxUnitsPerPlayer: 7,
+      crystalClusterCount: 3,
+    });
+    const frenzy = game.frenzyManager()!;
+
+    expect(game.config().startingGold()).toBe(12345n);
+    expect(frenzy.getMaxUnitsForPlayer(player.id())).toBe(7);
+    expect(frenzy.getConfig().crystalClusterCount).toBe(3);
+  });
+
+  test("structure costs and tier limits follow the rule set", async () => {
+    const [game, player] = await startGame({
+      structures: { mine: { buildCost: 1000, maxTier: 1 } },
+    });
+    const frenzy = game.frenzyManager()!;
+
+    expect(game.config().unitInfo(UnitType.City).cost(player)).toBe(1000n);
+    expect(frenzy.structureConfig("mine").maxTier).toBe(1);
+    expect(frenzy.structureConfig("factory").maxTier).toBe(
+      STRUCTURE_CONFIGS.factory.maxTier,
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  buildingByBuildUnitType,
+  canEngage,
+  DEFAULT_FRENZY_CONFIG,
+  engagesUnits,
+  FRENZY_UNITS,
+  frenzyBuildMenuEntries,
+  getUnitConfig,
+  isFrenzyTower,
+  mergeUnitStats,
+  STRUCTURE_CONFIGS,
+  structureKeyFor,
+  towerByBuildUnitType,
+  towerBySellName,
+} from "../../../src/core/game/frenzy/FrenzyRegistry";
+import {
+  FrenzyStructureType,
+  FrenzyUnitType,
+} from "../../../src/core/game/frenzy/FrenzyTypes";
+import { UnitType } from "../../../src/core/game/Game";
+import { frenzyTowerTypes } from "../../../src/core/StatsSchemas";
+
+describe("FrenzyRegistry", () => {
+  test("derives a structure config for every building and tower", () => {
+    expect(Object.keys(STRUCTURE_CONFIGS).sort()).toEqual(
+      [
+        "airport",
+        "artillery",
+        "defensePost",
+        "factory",
+        "hq",
+        "mine",
+        "minihq",
+        "missileSilo",
+        "port",
+        "samLauncher",
+        "shieldGenerator",
+      ].sort(),
+    );
+  });
+
+  test("derives default stats for every unit tier", () => {
+    const keys = Object.values(FRENZY_UNITS).flatMap((unit) =>
+      unit.tiers.map((tier) => tier.key),
+    );
+    expect(Object.keys(DEFAULT_FRENZY_CONFIG.units).sort()).toEqual(
+      [...keys].sort(),
+    );
+    expect(DEFAULT_FRENZY_CONFIG.units.eliteWarship.health).toBe(
+      FRENZY_UNITS[FrenzyUnitType.Warship].tiers[1].stats.health,
+    );
+  });
+
+  test("agrees with the stats schema on which units are towers", () => {
+    const towers = Object.values(FrenzyUnitType).filter(isFrenzyTower);
+    expect(towers.sort()).toEqual([...frenzyTowerTypes].sort());
+  });
+
+  test("uses the last declared tier past the top one", () => {
+    const config = DEFAULT_FRENZY_CONFIG;
+    expect(getUnitConfig(config, FrenzyUnitType.Warship, 2)).toBe(
+      config.units.eliteWarship,
+    );
+    expect(getUnitConfig(config, FrenzyUnitType.Warship, 5)).toBe(
+      config.units.eliteWarship,
+    );
+    expect(getUnitConfig(config, FrenzyUnitType.Soldier, 2)).toBe(
+      config.units.soldier,
+    );
+  });
+
+  test("merges stat overrides over the defaults", () => {
+    const units = mergeUnitStats(DEFAULT_FRENZY_CONFIG.units, {
+      soldier: { health: 1 },
+    });
+    expect(units.soldier.health).toBe(1);
+    expect(units.soldier.speed).toBe(DEFAULT_FRENZY_CONFIG.units.soldier.speed);
+    expect(units.warship).toEqual(DEFAULT_FRENZY_CONFIG.units.warship);
+    expect(DEFAULT_FRENZY_CONFIG.units.soldier.health).not.toBe(1);
+  });
+
+  test("applies targeting rules by the target's domain", () => {
+    const soldier = FRENZY_UNITS[FrenzyUnitType.Soldier].targets;
+    expect(canEngage(soldier, FrenzyUnitType.Transporter)).toBe(true);
+    expect(canEngage(soldier, FrenzyUnitType.Warship)).toBe(true);
+    expect(
+      engagesUnits(FRENZY_UNITS[FrenzyUnitType.ShieldGenerator].targets),
+    ).toBe(false);
+    expect(engagesUnits(FRENZY_UNITS[FrenzyUnitType.Transporter].targets)).toBe(
+      false,
+    );
+  });
+
+  test("finds structures by build unit type, sell name and type", () => {
+    expect(towerBySellName("defense_post")?.type).toBe(
+      FrenzyUnitType.DefensePost,
+    );
+    expect(towerBySellName("barracks")).toBeUndefined();
+    expect(towerByBuildUnitType(UnitType.SAMLauncher)?.type).toBe(
+      FrenzyUnitType.SAMLauncher,
+    );
+    expect(buildingByBuildUnitType(UnitType.City)).toBe(
+      FrenzyStructureType.Mine,
+    );
+    expect(structureKeyFor(FrenzyStructureType.MiniHQ)).toBe("minihq");
+    expect(structureKeyFor(FrenzyUnitType.Artillery)).toBe("artillery");
+    expect(structureKeyFor(FrenzyUnitType.Soldier)).toBeNull();
+  });
+
+  test("lists every buildable structure once in the build menu", () => {
+    const entries = frenzyBuildMenuEntries();
+    const unitTypes = entries.map((entry) => entry.unitType);
+    expect(new Set(unitTypes).size).toBe(unitTypes.length);
+    expect(unitTypes).toContain(UnitType.Artillery);
+    expect(unitTypes).toContain(UnitType.Airport);
+    expect(entries.every((entry) => entry.icon.startsWith("/images/"))).toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,132 @@
+import { SpawnExecution } from "../../../src/core/execution/SpawnExecution";
+import { FrenzyManager } from "../../../src/core/game/frenzy/FrenzyManager";
+import {
+  FrenzyUnit,
+  FrenzyUnitOrder,
+  FrenzyUnitType,
+} from "../../../src/core/game/frenzy/FrenzyTypes";
+import {
+  Game,
+  Player,
+  PlayerInfo,
+  PlayerType,
+} from "../../../src/core/game/Game";
+import { setup } from "../../util/Setup";
+
+let game: Game;
+let frenzy: FrenzyManager;
+let player: Player;
+let other: Player;
+
+function spawnSoldiers(owner: Player, count: number): FrenzyUnit[] {
+  const hq = frenzy.getHQForPlayer(owner.id())!;
+  for (let i = 0; i < count; i++) {
+    frenzy["spawnUnit"](owner.id(), hq.x, hq.y, FrenzyUnitType.Soldier);
+  }
+  return frenzy
+    .getUnits()
+    .filter(
+      (u) => u.playerId === owner.id() && u.unitType === FrenzyUnitType.Soldier,
+    )
+    .slice(-count);
+}
+
+describe("FrenzyManager.commandUnits", () => {
+  beforeEach(async () => {
+    game = await setup("plains");
+    const a = new PlayerInfo("player a", PlayerType.FakeHuman, null, "a");
+    const b = new PlayerInfo("player b", PlayerType.FakeHuman, null, "b");
+    game.addPlayer(a);
+    game.addPlayer(b);
+    game.addExecution(new SpawnExecution(a, game.ref(40, 50)));
+    game.addExecution(new SpawnExecution(b, game.ref(60, 50)));
+    while (game.inSpawnPhase()) {
+      game.executeNextTick();
+    }
+    for (let i = 0; i < 50; i++) {
+      game.executeNextTick();
+    }
+    frenzy = game.frenzyManager()!;
+    player = game.player("a");
+    other = game.player("b");
+  });
+
+  test("orders only the listed units", () => {
+    const units = spawnSoldiers(player, 4);
+    const [first, second] = units;
+
+    const count = frenzy.commandUnits(
+      player.id(),
+      [first.id, second.id],
+      FrenzyUnitOrder.AttackMove,
+      55,
+      50,
+    );
+
+    expect(count).toBe(2);
+    expect(first.hasAttackOrder).toBe(true);
+    expect(first.attackOrderX).toBe(55);
+    expect(first.holdFire).toBe(false);
+    expect(units[2].attackOrderX).not.toBe(55);
+    expect(units[3].attackOrderX).not.toBe(55);
+  });
+
+  test("ignores units owned by another player", () => {
+    const [theirs] = spawnSoldiers(other, 1);
+
+    const count = frenzy.commandUnits(
+      player.id(),
+      [theirs.id],
+      FrenzyUnitOrder.Move,
+      45,
+      50,
+    );
+
+    expect(count).toBe(0);
+    expect(theirs.attackOrderX).not.toBe(45);
+  });
+
+  test("move orders hold fire until arrival", () => {
+    const [unit] = spawnSoldiers(player, 1);
+    frenzy.commandUnits(player.id(), [unit.id], FrenzyUnitOrder.Move, 45, 50);
+    expect(unit.holdFire).toBe(true);
+  });
+
+  test("hold keeps units in place", () => {
+    const [unit] = spawnSoldiers(player, 1);
+    const x = unit.x;
+    const y = unit.y;
+
+    frenzy.commandUnits(player.id(), [unit.id], FrenzyUnitOrder.Hold);
+    for (let i = 0; i < 20; i++) {
+      game.executeNextTick();
+    }
+
+    expect(unit.holdPosition).toBe(true);
+    expect(unit.x).toBe(x);
+    expect(unit.y).toBe(y);
+  });
+
+  test("retreat sends units back to the HQ", () => {
+    const [unit] = spawnSoldiers(player, 1);
+    const hq = frenzy.getHQForPlayer(player.id())!;
+
+    frenzy.commandUnits(player.id(), [unit.id], FrenzyUnitOrder.Retreat);
+
+    expect(unit.attackOrderX).toBe(hq.x);
+    expect(unit.attackOrderY).toBe(hq.y);
+  });
+
+  test("rejects targets off the map", () => {
+    const [unit] = spawnSoldiers(player, 1);
+    expect(
+      frenzy.commandUnits(
+        player.id(),
+        [unit.id],
+        FrenzyUnitOrder.Move,
+        -5,
+        10_000,
+      ),
+    ).toBe(0);
+  });
+});
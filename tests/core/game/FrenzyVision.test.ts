@@ -0,0 +1,74 @@
+import {
+  FrenzyVision,
+  StructureMemory,
+  unitSightRadius,
+} from "../../../src/core/game/frenzy/FrenzyVision";
+
+// 200x100 map where the viewer owns the left quarter
+function vision() {
+  return new FrenzyVision(200, 100, (x) => x < 50);
+}
+
+describe("FrenzyVision", () => {
+  test("sees owned territory and around friendly sources", () => {
+    const v = vision();
+    v.update(["me"], [{ x: 120, y: 50, radius: unitSightRadius("soldier") }]);
+
+    expect(v.isVisible(10, 90)).toBe(true);
+    expect(v.isVisible(120, 50)).toBe(true);
+    expect(v.isVisible(155, 50)).toBe(true);
+    expect(v.isVisible(190, 50)).toBe(false);
+    expect(v.isVisible(-1, 50)).toBe(false);
+  });
+
+  test("always shows friendly units and hides enemies out of sight", () => {
+    const v = vision();
+    v.update(["me", "ally"], []);
+
+    expect(v.canSee({ x: 190, y: 50, playerId: "ally" })).toBe(true);
+    expect(v.canSee({ x: 190, y: 50, playerId: "enemy" })).toBe(false);
+    expect(v.canSee({ x: 20, y: 50, playerId: "enemy" })).toBe(true);
+  });
+
+  test("SAM launchers see further than soldiers", () => {
+    expect(unitSightRadius("samLauncher")).toBeGreaterThan(
+      unitSightRadius("soldier"),
+    );
+    expect(unitSightRadius("unknown")).toBe(40);
+  });
+});
+
+describe("StructureMemory", () => {
+  const mine = { type: "mine", x: 150, y: 50, playerId: "enemy" };
+
+  test("keeps last known enemy structures as ghosts", () => {
+    const v = vision();
+    const memory = new StructureMemory<typeof mine>();
+
+    v.update(["me"], [{ x: 150, y: 50, radius: 40 }]);
+    expect(memory.update([mine], v)).toEqual([]);
+
+    // Scout leaves; the mine is remembered
+    v.update(["me"], []);
+    expect(memory.update([mine], v)).toEqual([mine]);
+    // Even if it is destroyed out of sight
+    expect(memory.update([], v)).toEqual([mine]);
+  });
+
+  test("forgets structures seen destroyed or captured", () => {
+    const v = vision();
+    const memory = new StructureMemory<typeof mine>();
+    v.update(["me"], [{ x: 150, y: 50, radius: 40 }]);
+    memory.update([mine], v);
+
+    // Spot seen again without the mine
+    memory.update([], v);
+    v.update(["me"], []);
+    expect(memory.update([], v)).toEqual([]);
+
+    v.update(["me"], [{ x: 150, y: 50, radius: 40 }]);
+    memory.update([mine], v);
+    v.update(["me"], []);
+    expect(memory.update([{ ...mine, playerId: "me" }], v)).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import fs from "fs";
+import path from "path";
+import {
+  buildManifest,
+  generateMap,
+  MIN_ISLAND_SIZE,
+  MIN_LAKE_SIZE,
+  RgbaImage,
+  validateGeneratedMap,
+} from "../../../src/core/game/MapGenerator";
+import { decodePng } from "../../../src/scripts/PngDecoder";
+
+const assets = path.join(__dirname, "../../../map-generator/assets/test_maps");
+const testdata = path.join(__dirname, "../../testdata/maps");
+
+const LAND: [number, number, number, number] = [0, 0, 150, 255];
+const WATER: [number, number, number, number] = [0, 0, 106, 255];
+
+// A square heightmap that is land except where `water` says otherwise
+function image(
+  size: number,
+  water: (x: number, y: number) => boolean,
+): RgbaImage {
+  const data = new Uint8Array(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      data.set(water(x, y) ? WATER : LAND, (y * size + x) * 4);
+    }
+  }
+  return { width: size, height: size, data };
+}
+
+function isLand(data: Uint8Array, width: number, x: number, y: number) {
+  return (data[y * width + x] & 0b10000000) !== 0;
+}
+
+describe("MapGenerator", () => {
+  test.each(["plains", "half_land_half_ocean", "ocean_and_land"])(
+    "reproduces the committed %s test map",
+    async (name) => {
+      const png = decodePng(
+        new Uint8Array(fs.readFileSync(path.join(assets, name, "image.png"))),
+      );
+      const info = JSON.parse(
+        fs.readFileSync(path.join(assets, name, "info.json"), "utf8"),
+      );
+      const generated = generateMap(png, false);
+      const manifest = buildManifest(info, generated);
+      await validateGeneratedMap(manifest, generated);
+
+      const expected = JSON.parse(
+        fs.readFileSync(path.join(testdata, name, "manifest.json"), "utf8"),
+      );
+      expect(manifest).toEqual(expected);
+      for (const [size, file] of [
+        ["map", "map.bin"],
+        ["map4x", "map4x.bin"],
+        ["map16x", "map16x.bin"],
+      ] as const) {
+        expect(
+          Buffer.from(generated[size].data).equals(
+            fs.readFileSync(path.join(testdata, name, file)),
+          ),
+        ).toBe(true);
+      }
+    },
+  );
+
+  test("prunes small islands and lakes only when asked", () => {
+    // An ocean on the left third with a small island, and a small lake
+    const islandSide = Math.floor(Math.sqrt(MIN_ISLAND_SIZE - 1));
+    const lakeSide = Math.floor(Math.sqrt(MIN_LAKE_SIZE - 1));
+    const source = image(64, (x, y) => {
+      const island =
+        x >= 4 && x < 4 + islandSide && y >= 4 && y < 4 + islandSide;
+      const lake = x >= 40 && x < 40 + lakeSide && y >= 40 && y < 40 + lakeSide;
+      return (x < 20 && !island) || lake;
+    });
+
+    const kept = generateMap(source, false).map;
+    expect(isLand(kept.data, kept.width, 5, 5)).toBe(true);
+    expect(isLand(kept.data, kept.width, 41, 41)).toBe(false);
+
+    const pruned = generateMap(source, true).map;
+    expect(isLand(pruned.data, pruned.width, 5, 5)).toBe(false);
+    expect(isLand(pruned.data, pruned.width, 41, 41)).toBe(true);
+    expect(pruned.numLandTiles).toBe(64 * 64 - 20 * 64);
+  });
+
+  test("crops to multiples of four and writes a WebP thumbnail", () => {
+    const generated = generateMap(
+      image(30, (x) => x < 10),
+      false,
+    );
+    expect([generated.map.width, generated.map.height]).toEqual([28, 28]);
+    expect([generated.map16x.width, generated.map16x.height]).toEqual([7, 7]);
+
+    const thumbnail = Buffer.from(generated.thumbnail);
+    expect(thumbnail.toString("ascii", 0, 4)).toBe("RIFF");
+    expect(thumbnail.readUInt32LE(4)).toBe(thumbnail.length - 8);
+    expect(thumbnail.toString("ascii", 8, 16)).toBe("WEBPVP8L");
+    // 14-bit width and height minus one follow the 0x2f signature
+    const header = thumbnail.readUInt32LE(21);
+    expect((header & 0x3fff) + 1).toBe(7);
+    expect(((header >> 14) & 0x3fff) + 1).toBe(7);
+  });
+
+  test("rejects nations outside the map", async () => {
+    const generated = generateMap(
+      image(16, () => false),
+      false,
+    );
+    const manifest = buildManifest(
+      {
+        name: "Test",
+        nations: [{ coordinates: [16, 2], flag: "", name: "Far", strength: 1 }],
+      },
+      generated,
+    );
+    await expect(validateGeneratedMap(manifest, generated)).rejects.toThrow(
+      "Nation Far at 16,2 is outside the 16x16 map",
+    );
+  });
+
+  test("decodePng rejects other files", () => {
+    expect(() => decodePng(new Uint8Array([1, 2, 3]))).toThrow(
+      "Not a PNG file",
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import { GameMapType } from "../../../src/core/game/Game";
+import { GameMapLoader } from "../../../src/core/game/GameMapLoader";
+import {
+  buildManifest,
+  generateMapFromTerrain,
+} from "../../../src/core/game/MapGenerator";
+import {
+  decodeMapPackage,
+  encodeMapPackage,
+  hashMapPackage,
+  MapHashSchema,
+  MapPackage,
+  MapPackageLoader,
+  toMapPackage,
+} from "../../../src/core/game/MapPackage";
+
+function islandPackage(): MapPackage {
+  const width = 32;
+  const height = 24;
+  const land = new Uint8Array(width * height);
+  const magnitude = new Uint8Array(width * height);
+  for (let y = 4; y < 20; y++) {
+    for (let x = 8; x < 24; x++) {
+      land[y * width + x] = 1;
+      magnitude[y * width + x] = 12;
+    }
+  }
+  const generated = generateMapFromTerrain(
+    { width, height, land, magnitude },
+    false,
+  );
+  const manifest = buildManifest(
+    {
+      name: "Island",
+      nations: [{ coordinates: [10, 6], flag: "", name: "A", strength: 1 }],
+      crystals: [[16, 12]],
+    },
+    generated,
+  );
+  return encodeMapPackage(manifest, generated);
+}
+
+const unused: GameMapLoader = {
+  getMapData: () => {
+    throw new Error("fallback used");
+  },
+};
+
+describe("MapPackage", () => {
+  test("round trips terrain and manifest through JSON", () => {
+    const pkg = islandPackage();
+    const decoded = decodeMapPackage(JSON.parse(JSON.stringify(pkg)));
+
+    expect(decoded.manifest.name).toBe("Island");
+    expect(decoded.manifest.map).toEqual({
+      height: 24,
+      num_land_tiles: 256,
+      width: 32,
+    });
+    expect(decoded.manifest.crystals).toEqual([[16, 12]]);
+    expect(decoded.map).toHaveLength(32 * 24);
+    expect(decoded.map4x).toHaveLength(16 * 12);
+    expect(decoded.map16x).toHaveLength(8 * 6);
+    // Land bit set, magnitude kept
+    expect(decoded.map[12 * 32 + 16]).toBe(0x80 | 12);
+  });
+
+  test("rejects packages that do not match their manifest", () => {
+    const pkg = islandPackage();
+    expect(() => decodeMapPackage({ ...pkg, version: 2 })).toThrow(
+      "Unsupported map package version 2",
+    );
+    expect(() => decodeMapPackage({ ...pkg, map: pkg.map4x })).toThrow(
+      /map has 192 tiles, expected 32x24/,
+    );
+    expect(() =>
+      decodeMapPackage({
+        ...pkg,
+        manifest: { ...pkg.manifest, crystals: [[40, 1]] },
+      }),
+    ).toThrow("A crystal cluster is outside the map");
+    expect(() => decodeMapPackage({ format: "png" })).toThrow(
+      /Invalid map package/,
+    );
+  });
+
+  test("rejects minimaps that do not match the map", () => {
+    const pkg = islandPackage();
+    const { manifest } = pkg;
+    // Consistent with its own data, but not a quarter of the map
+    expect(() =>
+      decodeMapPackage({
+        ...pkg,
+        manifest: { ...manifest, map16x: manifest.map4x },
+        map16x: pkg.map4x,
+      }),
+    ).toThrow(/map16x is 16x12, expected 8x6/);
+    expect(() =>
+      decodeMapPackage({
+        ...pkg,
+        manifest: {
+          ...manifest,
+          map4x: { ...manifest.map4x, width: 12, height: 16 },
+        },
+      }),
+    ).toThrow(/map4x is 12x16, expected 16x12/);
+    expect(() =>
+      decodeMapPackage({
+        ...pkg,
+        manifest: {
+          ...manifest,
+          map4x: { ...manifest.map4x, num_land_tiles: 0 },
+        },
+      }),
+    ).toThrow(/map4x has 64 land tiles, manifest lists 0/);
+    expect(() =>
+      decodeMapPackage({
+        ...pkg,
+        manifest: { ...manifest, map: { ...manifest.map, num_land_tiles: 1 } },
+      }),
+    ).toThrow(/map has 256 land tiles, manifest lists 1/);
+  });
+
+  test("serves the package as the custom map only", async () => {
+    const decoded = decodeMapPackage(islandPackage());
+    const loader = new MapPackageLoader(unused, decoded);
+    const data = loader.getMapData(GameMapType.Custom);
+
+    const manifest = await data.manifest();
+    manifest.nations[0].coordinates = [0, 0];
+    expect(decoded.manifest.nations[0].coordinates).toEqual([10, 6]);
+    expect(await data.mapBin()).toEqual(decoded.map);
+    expect(await data.webpPath()).toMatch(/^data:image\/webp;base64,UklGR/);
+    expect(() => loader.getMapData(GameMapType.World)).toThrow("fallback used");
+  });
+
+  test("hashes package contents independent of key order", async () => {
+    const pkg = islandPackage();
+    const hash = await hashMapPackage(pkg);
+    expect(MapHashSchema.safeParse(hash).success).toBe(true);
+
+    const { thumbnail, ...rest } = pkg;
+    const reordered = JSON.parse(JSON.stringify({ thumbnail, ...rest }));
+    expect(await hashMapPackage(reordered)).toBe(hash);
+    expect(await hashMapPackage(toMapPackage(decodeMapPackage(pkg)))).toBe(
+      hash,
+    );
+
+    const renamed = { ...pkg, manifest: { ...pkg.manifest, name: "Other" } };
+    expect(await hashMapPackage(renamed)).not.toBe(hash);
+  });
+});
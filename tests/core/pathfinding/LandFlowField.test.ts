@@ -0,0 +1,79 @@
+import { GameMapImpl, TileRef } from "../../../src/core/game/GameMap";
+import { LandHPAPathFinder } from "../../../src/core/pathfinding/LandHPAPathFinder";
+
+const LAND = 1 << 7;
+const WIDTH = 40;
+const HEIGHT = 20;
+
+// Land split by a wall of water at x = 20 with a gap at y = 15..16, plus a
+// small island in the top-right corner.
+function isWater(x: number, y: number): boolean {
+  if (x === 20) return y !== 15 && y !== 16;
+  if (x >= 33 && y <= 6) return !(x >= 35 && x <= 37 && y >= 2 && y <= 4);
+  return false;
+}
+
+function buildMap(): GameMapImpl {
+  const terrain = new Uint8Array(WIDTH * HEIGHT);
+  let land = 0;
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      if (!isWater(x, y)) {
+        terrain[y * WIDTH + x] = LAND;
+        land++;
+      }
+    }
+  }
+  return new GameMapImpl(WIDTH, HEIGHT, terrain, land);
+}
+
+describe("LandFlowField", () => {
+  const map = buildMap();
+  const hpa = LandHPAPathFinder.build(map, { clusterSize: 8 });
+  const goal = map.ref(5, 5);
+
+  test("leads every unit around the wall to the goal", () => {
+    const field = hpa.flowField(goal)!;
+    expect(field.cost(goal)).toBe(0);
+    expect(field.next(goal)).toBeNull();
+
+    for (const start of [map.ref(30, 3), map.ref(25, 18), map.ref(6, 5)]) {
+      let tile: TileRef = start;
+      let cost = field.cost(tile);
+      const visited: TileRef[] = [tile];
+      for (
+        let next = field.next(tile);
+        next !== null;
+        next = field.next(tile)
+      ) {
+        expect(map.isLand(next)).toBe(true);
+        expect(field.cost(next)).toBeLessThan(cost);
+        tile = next;
+        cost = field.cost(tile);
+        visited.push(tile);
+      }
+      expect(tile).toBe(goal);
+      if (map.x(start) > 20) {
+        expect(visited.some((t) => map.x(t) === 20)).toBe(true);
+      }
+    }
+  });
+
+  test("gives no way off an island", () => {
+    const field = hpa.flowField(goal)!;
+    const island = map.ref(36, 3);
+    expect(field.cost(island)).toBe(Infinity);
+    expect(field.next(island)).toBeNull();
+  });
+
+  test("only computes the clusters that units sample", () => {
+    const field = hpa.flowField(goal)!;
+    expect(field.computedClusters()).toBe(0);
+    field.next(map.ref(6, 6));
+    expect(field.computedClusters()).toBe(1);
+  });
+
+  test("has no field towards water", () => {
+    expect(hpa.flowField(map.ref(20, 0))).toBeNull();
+  });
+});
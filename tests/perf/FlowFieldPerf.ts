@@ -0,0 +1,59 @@
+import Benchmark from "benchmark";
+import fs from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { TileRef } from "../../src/core/game/GameMap";
+import { genTerrainFromBin } from "../../src/core/game/TerrainMapLoader";
+import { LandHPAPathFinder } from "../../src/core/pathfinding/LandHPAPathFinder";
+import { PseudoRandom } from "../../src/core/PseudoRandom";
+
+// Frenzy land units path on the mini map, so that is all this loads
+const mapDir = join(
+  dirname(fileURLToPath(import.meta.url)),
+  "../../resources/maps/giantworldmap",
+);
+const manifest = JSON.parse(
+  fs.readFileSync(join(mapDir, "manifest.json"), "utf8"),
+);
+const miniMap = await genTerrainFromBin(
+  manifest.map4x,
+  fs.readFileSync(join(mapDir, "map4x.bin")),
+);
+const hpa = LandHPAPathFinder.build(miniMap, { clusterSize: 16 });
+
+// An army spread over Europe, all sent to the same spot
+const goal = miniMap.ref(1060, 230);
+const random = new PseudoRandom(1);
+const starts: TileRef[] = [];
+while (starts.length < 1000) {
+  const tile = miniMap.ref(random.nextInt(900, 1200), random.nextInt(150, 350));
+  if (miniMap.isLand(tile) && hpa.findMiniPath(tile, goal) !== null) {
+    starts.push(tile);
+  }
+}
+
+new Benchmark.Suite()
+  .add("1000 units, a route each", () => {
+    for (const start of starts) {
+      hpa.findMiniPath(start, goal);
+    }
+  })
+  .add("1000 units, one shared flow field", () => {
+    const field = hpa.flowField(goal)!;
+    for (const start of starts) {
+      field.next(start);
+    }
+  })
+  .add("1000 units, 20 steps each along one flow field", () => {
+    const field = hpa.flowField(goal)!;
+    for (const start of starts) {
+      let tile: TileRef | null = start;
+      for (let i = 0; i < 20 && tile !== null; i++) {
+        tile = field.next(tile);
+      }
+    }
+  })
+  .on("cycle", (event: any) => {
+    console.log(String(event.target));
+  })
+  .run({ async: true });
@@ -0,0 +1,71 @@
+import path from "path";
+import { Difficulty, GameMapSize, GameMapType } from "../../src/core/game/Game";
+import { FileSystemGameMapLoader } from "../../src/scripts/FileSystemGameMapLoader";
+import {
+  parseFrenzyConfigOverrides,
+  simulateMatch,
+  SimulationOptions,
+} from "../../src/scripts/FrenzyMatchSimulator";
+
+const mapLoader = new FileSystemGameMapLoader(
+  path.join(__dirname, "../testdata/maps"),
+  () => "plains",
+);
+
+const options: SimulationOptions = {
+  seed: 7,
+  gameMap: GameMapType.Asia,
+  gameMapSize: GameMapSize.Normal,
+  difficulty: Difficulty.Medium,
+  bots: 4,
+  disableNPCs: true,
+  maxMinutes: 1,
+  goldSampleSeconds: 10,
+};
+
+describe("FrenzyMatchSimulator", () => {
+  // Keeps the game's own logging out of the test output
+  let logSpy: jest.SpyInstance;
+  let debugSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    debugSpy = jest.spyOn(console, "debug").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    debugSpy.mockRestore();
+  });
+
+  test("rejects override fields that are not in FrenzyConfig", () => {
+    expect(parseFrenzyConfigOverrides({ spawnInterval: 2 })).toEqual({
+      spawnInterval: 2,
+    });
+    expect(() =>
+      parseFrenzyConfigOverrides({ units: { soldier: { hp: 1 } } }),
+    ).toThrow("config.units.soldier.hp");
+    expect(() => parseFrenzyConfigOverrides({ startingGold: "1" })).toThrow(
+      "must be a number",
+    );
+  });
+
+  test("plays a timed match to a winner and is deterministic per seed", async () => {
+    const first = await simulateMatch(options, mapLoader);
+    const second = await simulateMatch(options, mapLoader);
+
+    expect(first.timedOut).toBe(true);
+    // The timer ran out, so the bot holding the most land won
+    const mostTiles = [...first.players].sort(
+      (a, b) => b.finalTiles - a.finalTiles,
+    )[0];
+    expect(first.winner).toEqual({ id: mostTiles.id, name: mostTiles.name });
+    expect(first.leader).toBeNull();
+    expect(first.players).toHaveLength(4);
+    for (const player of first.players) {
+      expect(player.goldCurve).toHaveLength(6);
+      expect(player.unitsSpawned.soldier).toBeGreaterThan(0);
+    }
+    expect(second).toEqual(first);
+  }, 60_000);
+});
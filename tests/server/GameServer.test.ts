@@ -0,0 +1,299 @@
+import { EventEmitter } from "events";
+import winston from "winston";
+import WebSocket from "ws";
+import { GameEnv } from "../../src/core/configuration/Config";
+import {
+  Difficulty,
+  GameFork,
+  GameMapSize,
+  GameMapType,
+  GameMode,
+  GameType,
+} from "../../src/core/game/Game";
+import {
+  GameConfig,
+  ServerMessage,
+  SNAPSHOT_INTERVAL_TURNS,
+} from "../../src/core/Schemas";
+import { Client } from "../../src/server/Client";
+import { GameServer } from "../../src/server/GameServer";
+import { TestServerConfig } from "../util/TestServerConfig";
+
+const TURN_MS = 500;
+
+class SpectatorServerConfig extends TestServerConfig {
+  turnIntervalMs(): number {
+    return TURN_MS;
+  }
+  env(): GameEnv {
+    return GameEnv.Dev;
+  }
+  intentKickThreshold(): number {
+    return 5;
+  }
+  mapsPath(): string {
+    return "resources/maps";
+  }
+}
+
+// Records what the server sends and lets the test send messages back
+class FakeSocket extends EventEmitter {
+  readyState: number = WebSocket.OPEN;
+  sent: ServerMessage[] = [];
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+  ofType<T extends ServerMessage["type"]>(type: T) {
+    return this.sent.filter(
+      (m): m is Extract<ServerMessage, { type: T }> => m.type === type,
+    );
+  }
+  close() {
+    this.readyState = WebSocket.CLOSED;
+  }
+  receive(msg: object) {
+    this.emit("message", JSON.stringify(msg));
+  }
+}
+
+function gameConfig(spectatorDelay: number): GameConfig {
+  return {
+    gameMap: GameMapType.World,
+    gameMapSize: GameMapSize.Normal,
+    gameFork: GameFork.Frenzy,
+    gameMode: GameMode.FFA,
+    gameType: GameType.Private,
+    difficulty: Difficulty.Medium,
+    disableNPCs: false,
+    donateGold: false,
+    donateTroops: false,
+    bots: 0,
+    infiniteGold: false,
+    infiniteTroops: false,
+    instantBuild: false,
+    randomSpawn: false,
+    spectatorDelay,
+  };
+}
+
+function join(game: GameServer, id: string, spectator: boolean) {
+  const ws = new FakeSocket();
+  game.addClient(
+    new Client(
+      id,
+      `persistent-${id}`,
+      null,
+      undefined,
+      undefined,
+      "127.0.0.1",
+      id,
+      ws as unknown as WebSocket,
+      undefined,
+      spectator,
+    ),
+    0,
+  );
+  return ws;
+}
+
+const turns = (ws: FakeSocket) =>
+  ws.ofType("turn").map((m) => m.turn.turnNumber);
+
+describe("GameServer spectators", () => {
+  let game: GameServer;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    game = new GameServer(
+      "game1234",
+      winston.createLogger({ silent: true }),
+      Date.now(),
+      new SpectatorServerConfig(),
+      // Two turns behind
+      gameConfig(1),
+    );
+  });
+
+  afterEach(() => {
+    game.end();
+    jest.useRealTimers();
+  });
+
+  test("are not players and cannot send intents", () => {
+    const player = join(game, "player01", false);
+    const spectator = join(game, "watcher1", true);
+
+    expect(game.numClients()).toBe(1);
+    expect(game.gameInfo().numSpectators).toBe(1);
+
+    game.start();
+    const [start] = spectator.ofType("start");
+    expect(start.gameStartInfo.players.map((p) => p.clientID)).toEqual([
+      "player01",
+    ]);
+
+    const spawn = (clientID: string) => ({
+      type: "intent",
+      intent: { type: "spawn", clientID, tile: 7 },
+    });
+    player.receive(spawn("player01"));
+    spectator.receive(spawn("watcher1"));
+    jest.advanceTimersByTime(TURN_MS);
+    const [firstTurn] = player.ofType("turn");
+    expect(
+      firstTurn.turn.intents
+        .filter((i) => i.type === "spawn")
+        .map((i) => i.clientID),
+    ).toEqual(["player01"]);
+  });
+
+  test("receive turns behind the players", () => {
+    const player = join(game, "player01", false);
+    const spectator = join(game, "watcher1", true);
+    game.start();
+
+    jest.advanceTimersByTime(5 * TURN_MS);
+    expect(turns(player)).toEqual([0, 1, 2, 3, 4]);
+    expect(turns(spectator)).toEqual([0, 1, 2]);
+
+    // Late spectators catch up to the same point
+    const late = join(game, "watcher2", true);
+    const [start] = late.ofType("start");
+    expect(start.turns.map((t) => t.turnNumber)).toEqual([0, 1, 2]);
+  });
+
+  test("get the delayed turns when the game ends", () => {
+    const player = join(game, "player01", false);
+    const spectator = join(game, "watcher1", true);
+    game.start();
+
+    jest.advanceTimersByTime(5 * TURN_MS);
+    expect(turns(spectator)).toEqual([0, 1, 2]);
+    game.end();
+    expect(turns(spectator)).toEqual(turns(player));
+  });
+
+  test("are left out of hash voting", () => {
+    const player = join(game, "player01", false);
+    join(game, "player02", false);
+    const spectator = join(game, "watcher1", true);
+    game.start();
+
+    player.receive({ type: "hash", turnNumber: 0, hash: 1 });
+    spectator.receive({ type: "hash", turnNumber: 0, hash: 42 });
+    expect(game.findOutOfSyncClients(0)).toEqual({
+      mostCommonHash: 1,
+      outOfSyncClients: [],
+    });
+  });
+});
+
+describe("GameServer snapshots", () => {
+  let game: GameServer;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    game = new GameServer(
+      "game1234",
+      winston.createLogger({ silent: true }),
+      Date.now(),
+      new SpectatorServerConfig(),
+      gameConfig(0),
+    );
+  });
+
+  afterEach(() => {
+    game.end();
+    jest.useRealTimers();
+  });
+
+  test("are asked of an in-sync client and offered to late joiners", () => {
+    const hashTurn = SNAPSHOT_INTERVAL_TURNS;
+    const honest = join(game, "player01", false);
+    const cheater = join(game, "player02", false);
+    const other = join(game, "player03", false);
+    const fourth = join(game, "player04", false);
+    game.start();
+
+    jest.advanceTimersByTime((hashTurn + 1) * TURN_MS);
+    cheater.receive({ type: "hash", turnNumber: hashTurn, hash: 13 });
+    honest.receive({ type: "hash", turnNumber: hashTurn, hash: 7 });
+    other.receive({ type: "hash", turnNumber: hashTurn, hash: 7 });
+    fourth.receive({ type: "hash", turnNumber: hashTurn, hash: 7 });
+    jest.advanceTimersByTime(10 * TURN_MS);
+
+    const requests = (ws: FakeSocket) => ws.ofType("snapshot_request");
+    expect(requests(cheater)).toEqual([]);
+    expect(requests(other)).toEqual([]);
+    expect(requests(honest)).toEqual([
+      { type: "snapshot_request", turn: hashTurn + 1 },
+    ]);
+
+    const data = Buffer.from([1, 2, 3]);
+    expect(game.acceptSnapshot("player02", hashTurn + 1, data)).not.toBeNull();
+    expect(game.acceptSnapshot("player01", hashTurn, data)).not.toBeNull();
+    expect(game.acceptSnapshot("player01", hashTurn + 1, data)).toBeNull();
+    expect(game.snapshot()).toEqual({ turn: hashTurn + 1, hash: 7, data });
+
+    const late = join(game, "watcher1", true);
+    const [start] = late.ofType("start");
+    expect(start.checkpoint).toEqual({ turn: hashTurn + 1, hash: 7 });
+  });
+});
+
+describe("GameServer intent policy", () => {
+  let game: GameServer;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    game = new GameServer(
+      "game1234",
+      winston.createLogger({ silent: true }),
+      Date.now(),
+      new SpectatorServerConfig(),
+      gameConfig(0),
+    );
+  });
+
+  afterEach(() => {
+    game.end();
+    jest.useRealTimers();
+  });
+
+  test("drops bad intents and kicks clients that keep sending them", () => {
+    const player = join(game, "player01", false);
+    game.start();
+
+    const emoji = {
+      type: "intent",
+      intent: {
+        type: "emoji",
+        clientID: "player01",
+        recipient: "AllPlayers",
+        emoji: 0,
+      },
+    };
+    for (let i = 0; i < 5; i++) {
+      player.receive(emoji);
+    }
+    player.receive({
+      type: "intent",
+      intent: { type: "spawn", clientID: "player01", tile: -1 },
+    });
+    // Past the end of the 2000 x 1000 world map
+    player.receive({
+      type: "intent",
+      intent: { type: "spawn", clientID: "player01", tile: 2000 * 1000 },
+    });
+    jest.advanceTimersByTime(TURN_MS);
+    const intents = player.ofType("turn")[0].turn.intents;
+    expect(
+      intents.map((i) => i.type).filter((t) => t !== "mark_disconnected"),
+    ).toEqual(["emoji", "emoji", "emoji"]);
+    expect(player.readyState).toBe(WebSocket.OPEN);
+
+    // Fifth rejection within a minute
+    player.receive(emoji);
+    expect(player.readyState).toBe(WebSocket.CLOSED);
+  });
+});
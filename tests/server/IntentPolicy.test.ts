@@ -0,0 +1,124 @@
+import { Intent } from "../../src/core/Schemas";
+import {
+  INTENT_RATES,
+  IntentPolicy,
+  VIOLATION_WINDOW_MS,
+} from "../../src/server/IntentPolicy";
+
+const sell = (x: number, y: number): Intent => ({
+  type: "sell_frenzy_structure",
+  clientID: "player01",
+  x,
+  y,
+  structureType: "mine",
+});
+
+describe("IntentPolicy", () => {
+  let now: number;
+  const policy = (kickThreshold = 0) =>
+    new IntentPolicy(
+      { width: 100, height: 50 },
+      new Map([
+        ["player01", "PLAYER01"],
+        ["player02", "PLAYER02"],
+      ]),
+      kickThreshold,
+      () => now,
+    );
+
+  beforeEach(() => {
+    now = 1_000_000;
+  });
+
+  test("rate limits each intent type separately and refills over time", () => {
+    const p = policy();
+    const { burst, perSecond } = INTENT_RATES.sell_frenzy_structure!;
+    for (let i = 0; i < burst; i++) {
+      expect(p.check("player01", sell(1, 1))).toBeNull();
+    }
+    expect(p.check("player01", sell(1, 1))?.reason).toBe(
+      "too many sell_frenzy_structure intents",
+    );
+    // Other types and other clients have their own buckets
+    expect(
+      p.check("player01", { type: "upgrade_hq", clientID: "player01" }),
+    ).toBeNull();
+    expect(p.check("player02", sell(1, 1))).toBeNull();
+
+    now += 1000 / perSecond;
+    expect(p.check("player01", sell(1, 1))).toBeNull();
+    expect(p.check("player01", sell(1, 1))).not.toBeNull();
+  });
+
+  test("rejects payloads off the map", () => {
+    const p = policy();
+    expect(p.check("player01", sell(100, 50))).toBeNull();
+    expect(p.check("player01", sell(101, 5))?.reason).toMatch("off the map");
+    expect(p.check("player01", sell(NaN, 5))).not.toBeNull();
+    expect(
+      p.check("player01", { type: "spawn", clientID: "player01", tile: 5000 }),
+    ).not.toBeNull();
+    expect(
+      p.check("player01", {
+        type: "donate_gold",
+        clientID: "player01",
+        recipient: "player02",
+        gold: -5,
+      }),
+    ).not.toBeNull();
+    expect(
+      p.check("player01", {
+        type: "frenzy_unit_order",
+        clientID: "player01",
+        unitIds: [1, 2, 1],
+        order: "move",
+        targetX: 5,
+        targetY: 5,
+      } as Intent)?.reason,
+    ).toBe("duplicate unit ids");
+  });
+
+  test("rejects intents aimed at the sender's own player", () => {
+    const p = policy();
+    const donate = (recipient: string): Intent => ({
+      type: "donate_gold",
+      clientID: "player01",
+      recipient,
+      gold: 100,
+    });
+    expect(p.check("player01", donate("PLAYER01"))?.reason).toBe(
+      "donate_gold targets the sender",
+    );
+    expect(p.check("player01", donate("PLAYER02"))).toBeNull();
+    expect(
+      p.check("player02", {
+        type: "attack",
+        clientID: "player02",
+        targetID: "PLAYER02",
+        troops: 10,
+      }),
+    ).not.toBeNull();
+    // Unclaimed land
+    expect(
+      p.check("player02", {
+        type: "attack",
+        clientID: "player02",
+        targetID: null,
+        troops: 10,
+      }),
+    ).toBeNull();
+  });
+
+  test("kicks after too many rejections within the window", () => {
+    const p = policy(3);
+    expect(p.check("player01", sell(-1, 0))?.kick).toBe(false);
+    expect(p.check("player01", sell(-1, 0))?.kick).toBe(false);
+    now += VIOLATION_WINDOW_MS;
+    // The first two have expired
+    expect(p.check("player01", sell(-1, 0))?.violations).toBe(1);
+    expect(p.check("player01", sell(-1, 0))?.kick).toBe(false);
+    expect(p.check("player01", sell(-1, 0))?.kick).toBe(true);
+    // Threshold 0 never kicks
+    expect(policy().check("player01", sell(-1, 0))?.kick).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  Difficulty,
+  GameFork,
+  GameMapSize,
+  GameMapType,
+  GameMode,
+  GameType,
+} from "../../src/core/game/Game";
+import { GameRecord, Winner } from "../../src/core/Schemas";
+import { createPartialGameRecord } from "../../src/core/Util";
+import { LocalArchiveStore } from "../../src/server/LocalArchiveStore";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 5, 15, 12);
+
+function record(
+  gameID: string,
+  start: number,
+  gameMap: GameMapType,
+  winner: Winner,
+): GameRecord {
+  const partial = createPartialGameRecord(
+    gameID,
+    {
+      gameMap,
+      gameMapSize: GameMapSize.Normal,
+      gameFork: GameFork.Frenzy,
+      gameMode: GameMode.FFA,
+      gameType: GameType.Public,
+      difficulty: Difficulty.Medium,
+      disableNPCs: false,
+      donateGold: false,
+      donateTroops: false,
+      bots: 0,
+      infiniteGold: false,
+      infiniteTroops: false,
+      instantBuild: false,
+      randomSpawn: false,
+    },
+    [
+      {
+        clientID: "AAAAAAAA",
+        username: "Alice",
+        persistentID: null,
+        stats: {},
+      },
+      { clientID: "BBBBBBBB", username: "Bob", persistentID: null, stats: {} },
+    ],
+    [{ turnNumber: 0, intents: [] }],
+    start,
+    start + 60_000,
+    winner,
+  );
+  return { ...partial, gitCommit: "DEV", subdomain: "", domain: "" };
+}
+
+describe("LocalArchiveStore", () => {
+  let root: string;
+  let now: number;
+  let store: LocalArchiveStore;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "archive-"));
+    now = NOW;
+    store = new LocalArchiveStore(root, 7, () => now);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("writes gzip records partitioned by start date and reads them back", async () => {
+    const game = record("game0001", NOW, GameMapType.World, [
+      "player",
+      "AAAAAAAA",
+    ]);
+    await store.write(game);
+
+    const file = path.join(root, "2025-06-15", "game0001.json.gz");
+    expect(fs.readFileSync(file).subarray(0, 2)).toEqual(
+      Buffer.from([0x1f, 0x8b]),
+    );
+    expect(await store.read("game0001")).toEqual(game);
+    expect(await store.read("missing1")).toBeNull();
+  });
+
+  test("lists newest first, filtered by player, map and winner", async () => {
+    await store.write(
+      record("game0001", NOW - DAY_MS, GameMapType.World, [
+        "player",
+        "AAAAAAAA",
+      ]),
+    );
+    await store.write(
+      record("game0002", NOW, GameMapType.CircleMap, ["player", "BBBBBBBB"]),
+    );
+    await store.write(
+      record("game0003", NOW + 1000, GameMapType.World, undefined),
+    );
+
+    const ids = async (query: Parameters<LocalArchiveStore["list"]>[0]) =>
+      (await store.list(query)).map((s) => s.gameID);
+
+    expect(await ids({})).toEqual(["game0003", "game0002", "game0001"]);
+    expect(await ids({ limit: 2 })).toEqual(["game0003", "game0002"]);
+    expect(await ids({ gameMap: GameMapType.World })).toEqual([
+      "game0003",
+      "game0001",
+    ]);
+    expect(await ids({ winner: "alice" })).toEqual(["game0001"]);
+    expect(await ids({ winner: "BBBBBBBB" })).toEqual(["game0002"]);
+    expect(
+      await ids({ player: "bob", gameMap: GameMapType.CircleMap }),
+    ).toEqual(["game0002"]);
+    expect(await ids({ player: "carol" })).toEqual([]);
+  });
+
+  test("prunes days past the retention window", async () => {
+    await store.write(
+      record("game0001", NOW - 5 * DAY_MS, GameMapType.World, undefined),
+    );
+    await store.write(
+      record("game0002", NOW - DAY_MS, GameMapType.World, undefined),
+    );
+
+    expect(await store.read("game0001")).not.toBeNull();
+
+    now = NOW + 3 * DAY_MS;
+    await store.prune();
+
+    expect(await store.read("game0001")).toBeNull();
+    expect(await store.read("game0002")).not.toBeNull();
+    expect((await store.list({})).map((s) => s.gameID)).toEqual(["game0002"]);
+  });
+});
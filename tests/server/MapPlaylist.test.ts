@@ -0,0 +1,144 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import winston from "winston";
+import { GameMapType, GameMode, UnitType } from "../../src/core/game/Game";
+import {
+  loadPlaylist,
+  MapPlaylist,
+  PlaylistSchema,
+} from "../../src/server/MapPlaylist";
+
+// Deterministic stand-in for Math.random
+function sequence(...values: number[]): () => number {
+  let i = 0;
+  return () => values[i++ % values.length];
+}
+
+describe("MapPlaylist", () => {
+  test("fills entry defaults and rejects unknown fields", () => {
+    const playlist = PlaylistSchema.parse({
+      entries: [{ gameMap: GameMapType.World }],
+    });
+    expect(playlist.noRepeatWithin).toBe(0);
+    expect(playlist.entries[0]).toMatchObject({
+      weight: 1,
+      maxPlayers: 20,
+      bots: 10,
+      gameMode: GameMode.FFA,
+      disabledUnits: [UnitType.MIRV, UnitType.MIRVWarhead],
+    });
+
+    expect(
+      PlaylistSchema.safeParse({
+        entries: [{ gameMap: GameMapType.World, map: "World" }],
+      }).success,
+    ).toBe(false);
+    expect(
+      PlaylistSchema.safeParse({
+        entries: [
+          {
+            gameMap: GameMapType.World,
+            frenzyOverrides: { units: { soldier: { hp: 10 } } },
+          },
+        ],
+      }).success,
+    ).toBe(false);
+    expect(
+      PlaylistSchema.safeParse({
+        entries: [{ gameMap: GameMapType.World, playerTeams: 2 }],
+      }).success,
+    ).toBe(false);
+  });
+
+  test("draws by weight and carries rule variants into the game config", () => {
+    const playlist = PlaylistSchema.parse({
+      entries: [
+        { gameMap: GameMapType.World, weight: 3 },
+        {
+          gameMap: GameMapType.CircleMap,
+          weight: 1,
+          maxPlayers: 8,
+          gameMode: GameMode.Team,
+          playerTeams: 2,
+          frenzyOverrides: { startingGold: 1 },
+        },
+      ],
+    });
+    // Rolls land at 0.5 * 4 = 2 (World) and 0.9 * 4 = 3.6 (CircleMap)
+    const rotation = new MapPlaylist(false, playlist, sequence(0.5, 0.9));
+
+    expect(rotation.nextGameConfig().gameMap).toBe(GameMapType.World);
+    const teams = rotation.nextGameConfig();
+    expect(teams).toMatchObject({
+      gameMap: GameMapType.CircleMap,
+      maxPlayers: 8,
+      gameMode: GameMode.Team,
+      playerTeams: 2,
+      frenzyOverrides: { startingGold: 1 },
+    });
+  });
+
+  test("does not repeat a map within the window and can rewind", () => {
+    const playlist = PlaylistSchema.parse({
+      noRepeatWithin: 2,
+      entries: [
+        { gameMap: GameMapType.World },
+        { gameMap: GameMapType.CircleMap },
+        { gameMap: GameMapType.SquareMap },
+      ],
+    });
+    // Always asks for the first candidate still allowed
+    const rotation = new MapPlaylist(false, playlist, () => 0);
+
+    const maps = rotation.upcomingGames().map((g) => g.gameMap);
+    expect(maps).toEqual([
+      GameMapType.World,
+      GameMapType.CircleMap,
+      GameMapType.SquareMap,
+      GameMapType.World,
+      GameMapType.CircleMap,
+    ]);
+
+    expect(rotation.nextGameConfig().gameMap).toBe(GameMapType.World);
+    expect(rotation.nextGameConfig().gameMap).toBe(GameMapType.CircleMap);
+    rotation.rewind();
+    rotation.rewind();
+    expect(rotation.nextGameConfig().gameMap).toBe(GameMapType.World);
+  });
+
+  test("skips team entries when teams are disabled", () => {
+    const playlist = PlaylistSchema.parse({
+      entries: [
+        { gameMap: GameMapType.World, gameMode: GameMode.Team },
+        { gameMap: GameMapType.SquareMap },
+      ],
+    });
+    const rotation = new MapPlaylist(true, playlist, () => 0);
+    for (const game of rotation.upcomingGames()) {
+      expect(game.gameMap).toBe(GameMapType.SquareMap);
+    }
+  });
+
+  test("tells a missing playlist apart from an invalid one", () => {
+    const log = winston.createLogger({
+      transports: [new winston.transports.Console({ silent: true })],
+    });
+    const info = jest.spyOn(log, "info");
+    const error = jest.spyOn(log, "error");
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "playlist-"));
+    const file = path.join(dir, "playlist.json");
+
+    expect(loadPlaylist(file, log, "using the default")).toBeNull();
+    expect(info).toHaveBeenCalledWith(
+      `No playlist configured at ${file}, using the default`,
+    );
+    expect(error).not.toHaveBeenCalled();
+
+    fs.writeFileSync(file, JSON.stringify({ entries: [] }));
+    expect(loadPlaylist(file, log, "using the default")).toBeNull();
+    expect(error).toHaveBeenCalledTimes(1);
+
+    fs.rmSync(dir, { recursive: true });
+  });
+});
@@ -0,0 +1,179 @@
+import { GameID } from "../../src/core/Schemas";
+import {
+  DEFAULT_MATCHMAKER_OPTIONS,
+  MatchLauncher,
+  Matchmaker,
+  MatchmakerOptions,
+} from "../../src/server/Matchmaker";
+
+// Stands in for the workers: records the games it was asked to host
+class LocalLauncher implements MatchLauncher {
+  created: { gameID: GameID; players: number }[] = [];
+  joined = new Map<GameID, number>();
+  started: GameID[] = [];
+  failCreate = false;
+
+  async createGame(gameID: GameID, players: number) {
+    if (this.failCreate) {
+      throw new Error("worker down");
+    }
+    this.created.push({ gameID, players });
+  }
+
+  async joinedPlayers(gameID: GameID) {
+    return this.joined.get(gameID) ?? 0;
+  }
+
+  async startGame(gameID: GameID) {
+    this.started.push(gameID);
+  }
+}
+
+const options: MatchmakerOptions = {
+  ...DEFAULT_MATCHMAKER_OPTIONS,
+  matchSize: 4,
+  minPlayers: 2,
+  maxWaitMs: 60_000,
+  initialBand: 100,
+  bandGrowthPerSecond: 10,
+  regionTimeoutMs: 20_000,
+  joinTimeoutMs: 30_000,
+  idleTimeoutMs: 15_000,
+};
+
+describe("Matchmaker", () => {
+  let now: number;
+  let launcher: LocalLauncher;
+  let matchmaker: Matchmaker;
+
+  // Moves the clock, keeping the given tickets polled
+  const wait = (ms: number, polled: string[]) => {
+    for (let t = 0; t < ms; t += 5_000) {
+      now += Math.min(5_000, ms - t);
+      polled.forEach((id) => matchmaker.status(id));
+    }
+  };
+
+  beforeEach(() => {
+    now = 1_000_000;
+    launcher = new LocalLauncher();
+    matchmaker = new Matchmaker(launcher, options, () => now);
+  });
+
+  test("launches full groups and starts them once everyone joined", async () => {
+    const tickets = [1, 2, 3, 4].map(
+      () => matchmaker.join({ region: "Europe" }, 1500)!,
+    );
+    await matchmaker.tick();
+
+    expect(launcher.created).toHaveLength(1);
+    const { gameID, players } = launcher.created[0];
+    expect(players).toBe(4);
+    for (const id of tickets) {
+      expect(matchmaker.status(id)).toEqual({ status: "matched", gameID });
+    }
+    expect(matchmaker.queued()).toBe(0);
+
+    launcher.joined.set(gameID, 3);
+    wait(10_000, tickets);
+    await matchmaker.tick();
+    expect(launcher.started).toEqual([]);
+
+    launcher.joined.set(gameID, 4);
+    await matchmaker.tick();
+    await matchmaker.tick();
+    expect(launcher.started).toEqual([gameID]);
+  });
+
+  test("starts with whoever joined once the join timeout passes", async () => {
+    const tickets = [1, 2, 3, 4].map(
+      () => matchmaker.join({ region: "Europe" }, 1500)!,
+    );
+    await matchmaker.tick();
+    const { gameID } = launcher.created[0];
+    launcher.joined.set(gameID, 2);
+
+    wait(options.joinTimeoutMs - 5_000, tickets);
+    await matchmaker.tick();
+    expect(launcher.started).toEqual([]);
+
+    wait(5_000, tickets);
+    await matchmaker.tick();
+    expect(launcher.started).toEqual([gameID]);
+  });
+
+  test("keeps regions and skill bands apart until the search widens", async () => {
+    const europe = [1500, 1520, 1900].map(
+      (rating) => matchmaker.join({ region: "Europe" }, rating)!,
+    );
+    const america = matchmaker.join({ region: "America" }, 1510)!;
+    const all = [...europe, america];
+    await matchmaker.tick();
+    expect(launcher.created).toEqual([]);
+
+    // Band reaches 400 after 30s, region opens after 20s
+    wait(30_000, all);
+    await matchmaker.tick();
+    expect(launcher.created).toHaveLength(1);
+    expect(launcher.created[0].players).toBe(4);
+  });
+
+  test("starts smaller games once the oldest ticket waited too long", async () => {
+    const a = matchmaker.join({ region: "Europe" }, 1500)!;
+    const b = matchmaker.join({ region: "Europe" }, 1500)!;
+    wait(options.maxWaitMs - 5_000, [a, b]);
+    await matchmaker.tick();
+    expect(launcher.created).toEqual([]);
+
+    wait(5_000, [a, b]);
+    await matchmaker.tick();
+    expect(launcher.created).toEqual([
+      { gameID: expect.any(String), players: 2 },
+    ]);
+  });
+
+  test("keeps parties together and refuses full parties", async () => {
+    const solo = [1, 2, 3].map(
+      () => matchmaker.join({ region: "Europe" }, 1500)!,
+    );
+    const party = [1, 2].map(
+      () => matchmaker.join({ region: "Europe", party: "friends" }, 1500)!,
+    );
+    await matchmaker.tick();
+
+    // The party does not fit next to all three solos, so one of them waits
+    expect(launcher.created).toHaveLength(1);
+    const matched = matchmaker.status(party[0]);
+    expect(matched?.status).toBe("matched");
+    expect(matchmaker.status(party[1])).toEqual(matched);
+    expect(solo.map((id) => matchmaker.status(id)?.status).sort()).toEqual([
+      "matched",
+      "matched",
+      "searching",
+    ]);
+
+    for (let i = 0; i < options.matchSize; i++) {
+      matchmaker.join({ region: "Europe", party: "big" }, 1500);
+    }
+    expect(matchmaker.join({ region: "Europe", party: "big" }, 1500)).toBe(
+      null,
+    );
+  });
+
+  test("requeues players when the worker fails and drops idle tickets", async () => {
+    launcher.failCreate = true;
+    const tickets = [1, 2, 3, 4].map(
+      () => matchmaker.join({ region: "Europe" }, 1500)!,
+    );
+    await matchmaker.tick();
+    expect(matchmaker.queued()).toBe(4);
+    expect(matchmaker.status(tickets[0])?.status).toBe("searching");
+
+    launcher.failCreate = false;
+    wait(options.idleTimeoutMs, tickets.slice(0, 3));
+    await matchmaker.tick();
+    expect(matchmaker.status(tickets[3])).toBeNull();
+    expect(matchmaker.queued()).toBe(3);
+    expect(launcher.created).toEqual([]);
+  });
+});
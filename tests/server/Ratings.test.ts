@@ -0,0 +1,173 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  Difficulty,
+  GameFork,
+  GameMapSize,
+  GameMapType,
+  GameMode,
+  GameType,
+} from "../../src/core/game/Game";
+import { GameConfig, GameRecord, Winner } from "../../src/core/Schemas";
+import { createPartialGameRecord } from "../../src/core/Util";
+import {
+  DEFAULT_RATING,
+  RatedResult,
+  RatingBook,
+  RatingPool,
+  RatingsFile,
+  ratedResult,
+} from "../../src/server/Ratings";
+
+const ids = {
+  AAAAAAAA: "00000000-0000-4000-8000-00000000000a",
+  BBBBBBBB: "00000000-0000-4000-8000-00000000000b",
+  CCCCCCCC: "00000000-0000-4000-8000-00000000000c",
+  DDDDDDDD: "00000000-0000-4000-8000-00000000000d",
+};
+
+function record(
+  overrides: Partial<GameConfig>,
+  winner: Winner,
+  killedAt: Partial<Record<keyof typeof ids, bigint>> = {},
+): GameRecord {
+  const partial = createPartialGameRecord(
+    "game0001",
+    {
+      gameMap: GameMapType.World,
+      gameMapSize: GameMapSize.Normal,
+      gameFork: GameFork.Frenzy,
+      gameMode: GameMode.FFA,
+      gameType: GameType.Public,
+      difficulty: Difficulty.Medium,
+      disableNPCs: false,
+      donateGold: false,
+      donateTroops: false,
+      bots: 0,
+      infiniteGold: false,
+      infiniteTroops: false,
+      instantBuild: false,
+      randomSpawn: false,
+      ...overrides,
+    },
+    Object.entries(ids).map(([clientID, persistentID]) => ({
+      clientID,
+      username: `Player ${clientID[0]}`,
+      persistentID,
+      stats: { killedAt: killedAt[clientID as keyof typeof ids] },
+    })),
+    [{ turnNumber: 0, intents: [] }],
+    0,
+    60_000,
+    winner,
+  );
+  return { ...partial, gitCommit: "DEV", subdomain: "", domain: "" };
+}
+
+const placeIDs = (result: RatedResult | null) =>
+  result?.placements.map((place) => place.map((p) => p.persistentID));
+
+describe("Ratings", () => {
+  test("places FFA players by elimination order", () => {
+    const result = ratedResult(
+      record({}, ["player", "AAAAAAAA"], {
+        BBBBBBBB: 300n,
+        CCCCCCCC: 100n,
+      }),
+    );
+    expect(result?.pool).toBe(RatingPool.FrenzyFFA);
+    expect(placeIDs(result)).toEqual([
+      [ids.AAAAAAAA],
+      // Still alive when the game ended
+      [ids.DDDDDDDD],
+      [ids.BBBBBBBB],
+      [ids.CCCCCCCC],
+    ]);
+  });
+
+  test("rates team games as winners against everyone else", () => {
+    const result = ratedResult(
+      record({ gameMode: GameMode.Team, gameFork: GameFork.Classic }, [
+        "team",
+        "Red",
+        "AAAAAAAA",
+        "CCCCCCCC",
+      ]),
+    );
+    expect(result?.pool).toBe(RatingPool.ClassicTeam);
+    expect(placeIDs(result)).toEqual([
+      [ids.AAAAAAAA, ids.CCCCCCCC],
+      [ids.BBBBBBBB, ids.DDDDDDDD],
+    ]);
+  });
+
+  test("only rates public and matchmade games with a winner", () => {
+    const winner: Winner = ["player", "AAAAAAAA"];
+    expect(ratedResult(record({}, undefined))).toBeNull();
+    expect(
+      ratedResult(record({ gameType: GameType.Private }, winner)),
+    ).toBeNull();
+    expect(
+      ratedResult(record({ gameType: GameType.Private, ranked: true }, winner)),
+    ).not.toBeNull();
+  });
+
+  test("moves ratings towards results, more for new players", () => {
+    const book = new RatingBook();
+    const game = ratedResult(
+      record({}, ["player", "AAAAAAAA"], {
+        BBBBBBBB: 300n,
+        CCCCCCCC: 200n,
+        DDDDDDDD: 100n,
+      }),
+    )!;
+    book.apply(game);
+
+    const after = Object.values(ids).map((id) =>
+      book.rating(RatingPool.FrenzyFFA, id),
+    );
+    expect(after[0]).toBeGreaterThan(after[1]);
+    expect(after[1]).toBeGreaterThan(DEFAULT_RATING);
+    expect(after[2]).toBeLessThan(DEFAULT_RATING);
+    expect(after[3]).toBeLessThan(after[2]);
+    // Equal ratings before: what winners gain, losers lose
+    expect(after.reduce((a, b) => a + b, 0)).toBeCloseTo(4 * DEFAULT_RATING);
+    expect(book.get(RatingPool.FrenzyFFA, ids.AAAAAAAA)?.games).toBe(1);
+    expect(book.ratingsOf(ids.AAAAAAAA)).toEqual({
+      [RatingPool.FrenzyFFA]: after[0],
+    });
+
+    const firstGain = after[0] - DEFAULT_RATING;
+    for (let i = 0; i < 15; i++) {
+      book.apply(game);
+    }
+    const before = book.rating(RatingPool.FrenzyFFA, ids.AAAAAAAA);
+    book.apply(game);
+    expect(
+      book.rating(RatingPool.FrenzyFFA, ids.AAAAAAAA) - before,
+    ).toBeLessThan(firstGain / 2);
+    expect(book.top(RatingPool.FrenzyFFA, 1)[0].username).toBe("Player A");
+  });
+
+  test("persists ratings to disk", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ratings-"));
+    try {
+      const file = new RatingsFile(path.join(dir, "ratings.json"));
+      expect((await file.read()).top(RatingPool.FrenzyFFA, 10)).toEqual([]);
+
+      const book = new RatingBook();
+      book.apply(ratedResult(record({}, ["player", "AAAAAAAA"]))!);
+      await file.write(book);
+      const read = await new RatingsFile(path.join(dir, "ratings.json")).read();
+      expect(read.ratingsOf(ids.AAAAAAAA)).toEqual(
+        book.ratingsOf(ids.AAAAAAAA),
+      );
+      expect(() => RatingBook.fromJSON({ version: 2, pools: {} })).toThrow(
+        "Invalid ratings",
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
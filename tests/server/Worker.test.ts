@@ -0,0 +1,57 @@
+import {
+  Difficulty,
+  GameFork,
+  GameMapSize,
+  GameMapType,
+  GameMode,
+  GameType,
+} from "../../src/core/game/Game";
+import { GameConfig } from "../../src/core/Schemas";
+import { CreateGameInputSchema } from "../../src/core/WorkerSchemas";
+import { adminOnlyGameKind } from "../../src/server/Worker";
+
+function gameConfig(overrides: Partial<GameConfig>): GameConfig {
+  return {
+    gameMap: GameMapType.World,
+    gameMapSize: GameMapSize.Normal,
+    gameFork: GameFork.Frenzy,
+    gameMode: GameMode.FFA,
+    gameType: GameType.Private,
+    difficulty: Difficulty.Medium,
+    disableNPCs: false,
+    donateGold: false,
+    donateTroops: false,
+    bots: 0,
+    infiniteGold: false,
+    infiniteTroops: false,
+    instantBuild: false,
+    randomSpawn: false,
+    ...overrides,
+  };
+}
+
+// As POST /api/create_game/:id parses the request body
+function createGameInput(body: object): GameConfig | undefined {
+  return CreateGameInputSchema.parse(JSON.parse(JSON.stringify(body)));
+}
+
+describe("Worker create_game", () => {
+  test("leaves ranked and public games to the master", () => {
+    expect(
+      adminOnlyGameKind(createGameInput(gameConfig({ ranked: true }))),
+    ).toBe("ranked");
+    expect(
+      adminOnlyGameKind(
+        createGameInput(gameConfig({ gameType: GameType.Public })),
+      ),
+    ).toBe("public");
+  });
+
+  test("lets anyone create unranked private lobbies", () => {
+    expect(adminOnlyGameKind(createGameInput(gameConfig({})))).toBeNull();
+    expect(
+      adminOnlyGameKind(createGameInput(gameConfig({ ranked: false }))),
+    ).toBeNull();
+    expect(adminOnlyGameKind(createGameInput({}))).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import { Executor } from "../../src/core/execution/ExecutionManager";
+import {
+  GameUpdateType,
+  GameUpdateViewData,
+} from "../../src/core/game/GameUpdates";
+import { GameRunner } from "../../src/core/GameRunner";
+import { setup } from "./Setup";
+
+// A runner over a bots-only plains game that keeps every update it emits
+export async function botRunner(gameID: string) {
+  const game = await setup("plains", { bots: 4 });
+  const updates: GameUpdateViewData[] = [];
+  const runner = new GameRunner(
+    game,
+    new Executor(game, gameID, "client1"),
+    (gu) => {
+      if ("updates" in gu) updates.push(gu);
+    },
+  );
+  runner.init();
+  return { runner, updates };
+}
+
+// Plays empty turns `from` up to, but not including, `to`
+export function playTurns(runner: GameRunner, from: number, to: number) {
+  for (let turn = from; turn < to; turn++) {
+    runner.addTurn({ turnNumber: turn, intents: [] });
+    runner.executeNextTick();
+  }
+}
+
+export function hashes(updates: GameUpdateViewData[]): Map<number, number> {
+  const result = new Map<number, number>();
+  for (const gu of updates) {
+    for (const hu of gu.updates[GameUpdateType.Hash]) {
+      result.set(hu.tick, hu.hash);
+    }
+  }
+  return result;
+}
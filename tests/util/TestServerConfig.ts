@@ -1,12 +1,41 @@
 import { JWK } from "jose";
-import { GameEnv, ServerConfig } from "../../src/core/configuration/Config";
+import {
+  ArchiveStoreType,
+  GameEnv,
+  MatchmakingService,
+  ServerConfig,
+} from "../../src/core/configuration/Config";
 import { GameMapType } from "../../src/core/game/Game";
 import { GameID } from "../../src/core/Schemas";
 
 export class TestServerConfig implements ServerConfig {
+  archiveStore(): ArchiveStoreType {
+    throw new Error("Method not implemented.");
+  }
+  archiveDir(): string {
+    throw new Error("Method not implemented.");
+  }
+  archiveRetentionDays(): number {
+    throw new Error("Method not implemented.");
+  }
+  playlistPath(): string {
+    throw new Error("Method not implemented.");
+  }
+  ratingsPath(): string {
+    throw new Error("Method not implemented.");
+  }
+  mapsPath(): string {
+    throw new Error("Method not implemented.");
+  }
+  intentKickThreshold(): number {
+    throw new Error("Method not implemented.");
+  }
   enableMatchmaking(): boolean {
     throw new Error("Method not implemented.");
   }
+  matchmakingService(): MatchmakingService {
+    throw new Error("Method not implemented.");
+  }
   apiKey(): string {
     throw new Error("Method not implemented.");
   }